@@ -6,19 +6,28 @@ import FileTree from './components/FileTree';
 import ProjectSettingsModal from './components/ProjectSettingsModal';
 import GradientProjectName from './components/GradientProjectName';
 import { HelpHighlightHost } from './components/HelpHighlightHost';
-import { Annotation, SpectrogramSettings, FrequencyScale, Project, ProjectSettings, ProjectPreferences, Selection, VideoMode } from './types';
-import { DEFAULT_ZOOM_SEC, MIN_ZOOM_SEC, DEFAULT_SPECTROGRAM_SETTINGS, DEFAULT_UI_SETTINGS, DEFAULT_OUTPUT_ROUNDING_DECIMALS, DEFAULT_BUZZDETECT_PANEL_HEIGHT, DEFAULT_LEFT_PANEL_WIDTH, DEFAULT_SPLIT_RATIO, DEFAULT_LEFT_PANEL_RATIO, DEFAULT_DATE_TIME_FORMAT, DEFAULT_BUZZDETECT_THRESHOLD, DEFAULT_BUZZDETECT_MIN_DETECTION_RATE, isSupportedMediaFile, isVideoFile, migrateVideoMode } from './constants';
-import { exportToAudacity, makeAnnotationFromTool, stripExt, shuffleArray, basename, effectiveTimeUnit } from './utils/helpers';
+import { Annotation, SpectrogramSettings, FrequencyScale, Project, ProjectSettings, ProjectPreferences, Selection, VideoMode, AnnotationExportFormat, TrackStatus, TrackStatusEntry, LabelSubset, VideoRegion } from './types';
+import { DEFAULT_ZOOM_SEC, MIN_ZOOM_SEC, DEFAULT_SPECTROGRAM_SETTINGS, DEFAULT_UI_SETTINGS, DEFAULT_OUTPUT_ROUNDING_DECIMALS, DEFAULT_BUZZDETECT_PANEL_HEIGHT, DEFAULT_ANNOTATION_TABLE_PANEL_HEIGHT, DEFAULT_POWER_SPECTRUM_PANEL_HEIGHT, DEFAULT_REVIEW_PANEL_HEIGHT, DEFAULT_AGREEMENT_PANEL_HEIGHT, DEFAULT_LEFT_PANEL_WIDTH, DEFAULT_SPLIT_RATIO, DEFAULT_LEFT_PANEL_RATIO, DEFAULT_DATE_TIME_FORMAT, DEFAULT_BUZZDETECT_THRESHOLD, DEFAULT_BUZZDETECT_MIN_DETECTION_RATE, isSupportedMediaFile, isVideoFile, migrateVideoMode } from './constants';
+import { exportToAudacity, parseAudacityContent, makeAnnotationFromTool, stripExt, shuffleArray, basename, effectiveTimeUnit, updateAnnotation } from './utils/helpers';
 import { parseFilenameTime } from './utils/filenameTime';
-import { renameLabelAcrossTracks, LabelMatch } from './utils/annotationRename';
-import { getFileInfo, listMediaFilesRecursive, listNonMediaFilesRecursive, toAssetUrl, toVideoServerUrl } from './utils/tauriCommands';
+import { renameLabelAcrossTracks, renameLabelInReviews, LabelMatch } from './utils/annotationRename';
+import { saveAnnotationTable, type AnnotationTableRow } from './utils/annotationTable';
+import { exportToRaven } from './utils/ravenTable';
+import { saveAnnotationStats, type AnnotationStats } from './utils/annotationStats';
+import { getFileInfo, listMediaFilesRecursive, listNonMediaFilesRecursive, toAssetUrl, toVideoServerUrl, readTextFile } from './utils/tauriCommands';
 import { showHelpPage } from './utils/helpChannel';
+import { bindAction } from './utils/keymap';
+import { toolHotkeyFromEvent } from './utils/annotationTools';
+import { useKeymap } from './utils/keymapStore';
 import { useLiveHost } from './utils/liveBridge';
 import { isFilterAvailable } from './utils/videoPlaybackMode';
+import { snapToFrame } from './utils/videoFrames';
+import { withRegion } from './utils/videoRegions';
+import { clipFileName, saveFrameStill, saveSelectionClip, stillFileName } from './utils/videoExport';
 import { isLinux } from './utils/platform';
 import { createViewportStore } from './utils/viewportStore';
 import { createCurrentTimeStore } from './utils/currentTimeStore';
-import { useHotkeys, digitFromEvent } from './hooks/useHotkeys';
+import { useHotkeys, digitFromEvent, type HotkeyBinding, type HotkeyMod } from './hooks/useHotkeys';
 import { useChunkCacheVersion } from './hooks/useChunkCacheVersion';
 import { useExamplePlayer } from './hooks/useExamplePlayer';
 import { useActivationStack } from './hooks/useActivationStack';
@@ -27,18 +36,26 @@ import { usePanelLayout } from './hooks/usePanelLayout';
 import { useBandPassFilter } from './hooks/useBandPassFilter';
 import { useBuzzdetect } from './hooks/useBuzzdetect';
 import { subsetTimelineFor, subsetBuzzdetectData, subsetCriteriaFrom, type SubsetCriteria } from './utils/buzzdetectSubset';
+import type { DetectionConversionOptions, NeuronLabelMapping } from './utils/buzzdetectAnnotations';
+import { defaultThresholdOf } from './utils/detectorOutput';
+import { labelSubsetTimelineFor, settledAnnotationsFor } from './utils/annotationSubset';
+import { basename as directoryName } from './utils/projectPaths';
 import { sourceIntervalOf, displayOfNearestKept, projectIntervalToDisplay } from './utils/subsetTimeline';
 import { projectAnnotations, reconcileAnnotations } from './utils/annotationProjection';
+import type { ComparisonLane } from './utils/annotationAgreement';
 import { useProjectPersistence } from './hooks/useProjectPersistence';
 import { useSyncManagement, type PreSyncSnapshot } from './hooks/useSyncManagement';
 import { useAnnotationTools } from './hooks/useAnnotationTools';
 import { useImportAnnotations } from './hooks/useImportAnnotations';
+import { useDetectionConversion } from './hooks/useDetectionConversion';
 import { useFileNavigation } from './hooks/useFileNavigation';
 import { useVideoFrameSource } from './hooks/useVideoFrameSource';
 import { usePlaybackTransport } from './hooks/usePlaybackTransport';
 import { useSpectrogramZoomHotkeys } from './hooks/useSpectrogramZoomHotkeys';
 import { useAnnotationLoad } from './hooks/useAnnotationLoad';
-import { MultiTierSpectrogramCache, swapChunkCache } from './MultiTierSpectrogramCache';
+import { MultiTierSpectrogramCache, swapChunkCaches, createChannelCaches, cachesServe } from './MultiTierSpectrogramCache';
+import { viewChannels } from './utils/channelLanes';
+import { stftOptionsKey, stftOptionsOf } from './utils/stftOptions';
 import { revealInFileManager, listAnnotationFiles } from './utils/projectCommands';
 import { AudioEngine } from './utils/AudioEngine';
 import { VideoElementEngine } from './utils/VideoElementEngine';
@@ -49,13 +66,26 @@ import AnnotationToolsPanel from './components/AnnotationToolsPanel';
 import CollapsedToolsRail from './components/CollapsedToolsRail';
 import AnnotationToolsSettingsModal from './components/AnnotationToolsSettingsModal';
 import MassRenameModal from './components/MassRenameModal';
+import RavenImportModal from './components/RavenImportModal';
+import BuzzdetectEvaluationModal from './components/BuzzdetectEvaluationModal';
+import DetectionConversionModal, { DetectionConversionScope } from './components/DetectionConversionModal';
 import FindLabelModal from './components/FindLabelModal';
+import ExportAnnotationsModal from './components/ExportAnnotationsModal';
+import AnnotationStatsModal from './components/AnnotationStatsModal';
+import LabelSubsetModal from './components/LabelSubsetModal';
 import AnnotationToolEditModal from './components/AnnotationToolEditModal';
 import AnnotationToolLibrary from './components/AnnotationToolLibrary';
 import DeleteToolConfirmDialog from './components/DeleteToolConfirmDialog';
 import Toolbar, { speedRangeFor } from './components/Toolbar';
 import { SpectrogramSettingsPanel } from './components/controls/SpectrogramSettingsPanel';
 import BuzzdetectPanel from './components/BuzzdetectPanel';
+import AnnotationTablePanel from './components/AnnotationTablePanel';
+import PowerSpectrumPanel from './components/PowerSpectrumPanel';
+import ReviewPanel from './components/ReviewPanel';
+import AgreementPanel from './components/AgreementPanel';
+import type { ReviewItem } from './utils/annotationReview';
+import { effectiveTrackStatus, loadTrackStatuses, nextTrackStatus, parseTrackStatusContent, passesFileFilter, saveTrackStatus, type TrackStatusPatch } from './utils/trackStatus';
+import { nextFileFilter, type FileFilter } from './components/controls/FilePanelHeaderButtons';
 import { tooltips } from './copy/tooltips';
 import { annotationWindow, debugConsole } from './copy/ui';
 
@@ -100,6 +130,11 @@ export default function AnnotationWindow({ project, onClose, updateProjectSettin
   const [showToolSettings, setShowToolSettings] = useState(false);
   const [showMassRename, setShowMassRename] = useState(false);
   const [showFindLabel, setShowFindLabel] = useState(false);
+  // Folder ident the project-wide export modal is scoped to ('' = whole
+  // project); null while the modal is closed.
+  const [exportTableFolder, setExportTableFolder] = useState<string | null>(null);
+  const [showAnnotationStats, setShowAnnotationStats] = useState(false);
+  const [showLabelSubset, setShowLabelSubset] = useState(false);
 
   // Pending-save timer for the annotation autosave. Declared here (rather than
   // alongside useSyncManagement below) so handleOpenTrack and the other
@@ -131,7 +166,9 @@ export default function AnnotationWindow({ project, onClose, updateProjectSettin
   const annotationDirectory = project.annotationDirectoryAbs ?? null;
 
   // Chunk cache ref — not state, to avoid re-renders on every chunk load
-  const chunkCacheRef = useRef<MultiTierSpectrogramCache | null>(null);
+  // One cache per spectrogram lane (utils/channelLanes); empty with no track.
+  const chunkCacheRef = useRef<MultiTierSpectrogramCache[]>([]);
+  const [channelCount, setChannelCount] = useState(1);
   const { cacheVersion, bumpCacheVersion } = useChunkCacheVersion();
 
   // Playback transport state (isPlaying/isBuffering/speed/volume/mute), the
@@ -201,6 +238,21 @@ export default function AnnotationWindow({ project, onClose, updateProjectSettin
   // (below), which also owns the 'c' hotkey that toggles it.
 
   const [showSettings, setShowSettings] = useState(false);
+  // Annotation table panel, docked under the spectrogram. Open/closed is
+  // persisted per project; the height resets like the buzzdetect panel's.
+  const [annotationTableOpen, setAnnotationTableOpen] = useState(project.preferences.uiSettings?.annotationTableOpen ?? false);
+  const [annotationTablePanelHeight, setAnnotationTablePanelHeight] = useState(DEFAULT_ANNOTATION_TABLE_PANEL_HEIGHT);
+  // Power spectrum of the selection, docked the same way.
+  const [powerSpectrumOpen, setPowerSpectrumOpen] = useState(project.preferences.uiSettings?.powerSpectrumOpen ?? false);
+  const [powerSpectrumPanelHeight, setPowerSpectrumPanelHeight] = useState(DEFAULT_POWER_SPECTRUM_PANEL_HEIGHT);
+  // Review mode (components/ReviewPanel.tsx), docked the same way.
+  const [reviewOpen, setReviewOpen] = useState(project.preferences.uiSettings?.reviewOpen ?? false);
+  const [reviewPanelHeight, setReviewPanelHeight] = useState(DEFAULT_REVIEW_PANEL_HEIGHT);
+  // Inter-annotator agreement (components/AgreementPanel.tsx), docked the same
+  // way; it hands up the open track's comparison lanes, in source time.
+  const [agreementOpen, setAgreementOpen] = useState(project.preferences.uiSettings?.agreementOpen ?? false);
+  const [agreementPanelHeight, setAgreementPanelHeight] = useState(DEFAULT_AGREEMENT_PANEL_HEIGHT);
+  const [comparisonLanes, setComparisonLanes] = useState<ComparisonLane[] | null>(null);
   const [showDebug, setShowDebug] = useState(false);
   const [debugLogs, setDebugLogs] = useState<{time: string, msg: string, type: 'info'|'error'}[]>([]);
 
@@ -230,6 +282,11 @@ export default function AnnotationWindow({ project, onClose, updateProjectSettin
   const [videoContrast, setVideoContrast] = useState(
     project.preferences.uiSettings?.videoContrast ?? DEFAULT_UI_SETTINGS.videoContrast,
   );
+  // Snap annotation edges drawn on the spectrogram to video frame boundaries.
+  // Only takes effect while the frame-accurate path has the track indexed.
+  const [snapToFrames, setSnapToFrames] = useState(
+    project.preferences.uiSettings?.snapToFrames ?? DEFAULT_UI_SETTINGS.snapToFrames,
+  );
 
   // buzzdetect activations panel — UI state + load effect live in the hook.
   // Instantiated below, after `ident` and `addLog` exist.
@@ -250,6 +307,8 @@ export default function AnnotationWindow({ project, onClose, updateProjectSettin
 
   // Set of audio file paths that have an annotation file
   const [annotatedTracks, setAnnotatedFiles] = useState<Set<string>>(new Set());
+  // Content of the project's track-status file (utils/trackStatus.ts).
+  const [trackStatusContent, setTrackStatusContent] = useState<string | null>(null);
   const [allNonMediaFiles, setAllNonMediaFiles] = useState<string[]>([]);
 
   // Memoized so children whose effects depend on it (e.g. CanvasVideoPlayer's
@@ -315,34 +374,74 @@ export default function AnnotationWindow({ project, onClose, updateProjectSettin
     handleBuzzdetectToggleSubsetNeuron,
     toggleBuzzdetectSubset,
     handleBuzzdetectSetAllNeuronsHidden,
+    extraDetectorData,
+    detectorSourceThresholds, setDetectorSourceThresholds,
+    detectorSourceHiddenNeurons, setDetectorSourceHiddenNeurons,
+    handleSourceThresholdChange,
+    handleSourceToggleNeuron,
+    handleSourceSetAllNeuronsHidden,
   } = useBuzzdetect({ project, ident, addLog });
 
   // ── Subset mode ─────────────────────────────────────────────────────────────
-  // The criteria the subset is keyed to, or null when it's off. Null here is
-  // what makes every path below run the whole-file case unchanged.
+  // The subset is keyed either to buzzdetect neurons or to annotation labels
+  // (utils/annotationSubset.ts), never both: turning either on turns the other
+  // off, so the scissors toggle always means the one the user last chose.
+  const [labelSubsetEnabled, setLabelSubsetEnabled] = useState(project.preferences.uiSettings?.labelSubsetEnabled ?? false);
+  const [labelSubset, setLabelSubset] = useState<LabelSubset | null>(project.preferences.uiSettings?.labelSubset ?? null);
+  const labelSubsetActive = labelSubsetEnabled && labelSubset !== null;
+
+  const applyLabelSubset = useCallback((subset: LabelSubset) => {
+    setLabelSubset(subset);
+    setLabelSubsetEnabled(true);
+    setBuzzdetectSubsetEnabled(false);
+  }, [setBuzzdetectSubsetEnabled]);
+  // `Shift+S` and the scissors button: off if either subset is on, otherwise
+  // the neuron subset (the label subset is turned on from its modal).
+  const toggleSubset = useCallback(() => {
+    if (labelSubsetEnabled) setLabelSubsetEnabled(false);
+    else toggleBuzzdetectSubset();
+  }, [labelSubsetEnabled, toggleBuzzdetectSubset]);
+  const handleToggleSubsetNeuron = useCallback((neuron: string, willSubset: boolean) => {
+    if (willSubset) setLabelSubsetEnabled(false);
+    handleBuzzdetectToggleSubsetNeuron(neuron, willSubset);
+  }, [handleBuzzdetectToggleSubsetNeuron]);
+
+  // The neuron criteria, or null when that subset is off. Null here (with no
+  // label subset either) is what makes every path below run the whole-file
+  // case unchanged.
   const subsetCriteria = useMemo<SubsetCriteria | null>(() => subsetCriteriaFrom({
-    enabled: buzzdetectSubsetEnabled,
+    enabled: buzzdetectSubsetEnabled && !labelSubsetActive,
     neurons: buzzdetectSubsetNeurons,
     mode: buzzdetectSeriesMode,
     thresholds: buzzdetectThresholds,
     minDetectionRate: buzzdetectMinDetectionRate,
     binWidthOverride: buzzdetectBinWidthOverride,
     frameLength: buzzdetectData?.binWidth ?? 0,
-  }), [buzzdetectSubsetEnabled, buzzdetectSubsetNeurons, buzzdetectSeriesMode, buzzdetectThresholds,
+    defaultThreshold: defaultThresholdOf(buzzdetectData),
+  }), [buzzdetectSubsetEnabled, labelSubsetActive, buzzdetectSubsetNeurons, buzzdetectSeriesMode, buzzdetectThresholds,
       buzzdetectMinDetectionRate, buzzdetectBinWidthOverride, buzzdetectData]);
 
   // The display axis. Identity (i.e. the whole file, unchanged) whenever the
   // subset is off. `duration` here is the file's own length; `displayDuration`
   // below is what the whole UI and the transport are measured in.
+  // A label subset follows the annotations as they are committed, so one
+  // edited or deleted while it's on reshapes the axis as the neuron subset
+  // does for a threshold — on release, not mid-drag (see settledAnnotationsFor).
+  const liveAnnotationsRef = useRef<Annotation[] | null>(null);
+  const settledAnnotationsRef = useRef(annotations);
+  settledAnnotationsRef.current = settledAnnotationsFor(annotations, liveAnnotationsRef.current, settledAnnotationsRef.current);
+  const settledAnnotations = settledAnnotationsRef.current;
   const timeline = useMemo(
-    () => subsetTimelineFor(buzzdetectData, subsetCriteria, duration),
-    [buzzdetectData, subsetCriteria, duration],
+    () => (labelSubsetActive
+      ? labelSubsetTimelineFor(settledAnnotations, labelSubset, duration)
+      : subsetTimelineFor(buzzdetectData, subsetCriteria, duration)),
+    [labelSubsetActive, settledAnnotations, labelSubset, buzzdetectData, subsetCriteria, duration],
   );
   const displayDuration = timeline.duration;
   // "The user has asked for a subset", as distinct from "the timeline differs
   // from the file": a subset that happens to keep everything still draws as a
   // subset, and one that keeps nothing is still engaged.
-  const subsetActive = subsetCriteria !== null;
+  const subsetActive = subsetCriteria !== null || labelSubsetActive;
 
   // Video is turned off outright while a subset is on. The picture can't follow
   // a timeline that jumps between distant parts of the file without stalling on
@@ -374,6 +473,11 @@ export default function AnnotationWindow({ project, onClose, updateProjectSettin
     () => projectAnnotations(annotations, timeline),
     [annotations, timeline],
   );
+  // Comparison lanes go through the same projection as the track's own annotations.
+  const displayComparisonLanes = useMemo(
+    () => comparisonLanes?.map(lane => ({ ...lane, annotations: projectAnnotations(lane.annotations, timeline).shown })),
+    [comparisonLanes, timeline],
+  );
   // The activations, re-expressed on the display axis. The panel is handed only
   // the frames the subset kept, so it plots the subset without knowing one
   // exists (see utils/buzzdetectSubset.ts).
@@ -381,13 +485,28 @@ export default function AnnotationWindow({ project, onClose, updateProjectSettin
     () => subsetBuzzdetectData(buzzdetectData, timeline),
     [buzzdetectData, timeline],
   );
+  // The extra detector lanes, on the same axis. The subset stays keyed to the
+  // first lane's neurons; these just show what the other models did there.
+  const displayExtraDetectorData = useMemo(
+    () => extraDetectorData.map(d => subsetBuzzdetectData(d, timeline)),
+    [extraDetectorData, timeline],
+  );
+  // With more than one lane, each is labelled; the first by its directory.
+  const primaryDetectorLabel = project.extraDetectorSources.length > 0 && project.buzzdetectDirectoryAbs
+    ? directoryName(project.buzzdetectDirectoryAbs)
+    : undefined;
 
   const toSourceAnnotations = useCallback(
     (displayed: Annotation[]) => reconcileAnnotations(displayed, annotations, hiddenAnnotations, timeline),
     [annotations, hiddenAnnotations, timeline],
   );
+  // Marked as the gesture's live state, which the label-subset axis doesn't follow.
   const handleDisplayAnnotationsChange = useCallback(
-    (displayed: Annotation[]) => setAnnotations(toSourceAnnotations(displayed)),
+    (displayed: Annotation[]) => {
+      const live = toSourceAnnotations(displayed);
+      liveAnnotationsRef.current = live;
+      setAnnotations(live);
+    },
     [toSourceAnnotations, setAnnotations],
   );
   const handleDisplayAnnotationsCommit = useCallback(
@@ -452,6 +571,7 @@ export default function AnnotationWindow({ project, onClose, updateProjectSettin
     }
     const otherTracks = allTracks.filter(t => t !== trackPath);
     const diskCount = await renameLabelAcrossTracks(otherTracks, getAnnotationPath, oldText, newText);
+    await renameLabelInReviews(trackPath, getAnnotationPath, oldText, newText);
     return currentCount + diskCount;
   }, [annotations, allTracks, trackPath, getAnnotationPath]);
 
@@ -460,7 +580,7 @@ export default function AnnotationWindow({ project, onClose, updateProjectSettin
   // the spectrogram shows a dimmed "example audio is playing" veil.
   const exampleAudioActive = examplePlayer.playingToolId !== null || libraryPlaying;
 
-  // VideoFrameSource lifecycle (frame-perfect MP4/MOV): the source handle ref,
+  // VideoFrameSource lifecycle (frame-perfect MP4/MOV/WebM/MKV): the source handle ref,
   // its rolling-prefetch bookkeeping, the version counter, prerollVideo, and the
   // unmount + videoMode-change effects. Also owns preZoomExtentRef.
   const {
@@ -482,6 +602,16 @@ export default function AnnotationWindow({ project, onClose, updateProjectSettin
     selectionRef,
     addLog,
   });
+  // The open frame source's frame times (utils/videoFrames.ts), for the frame
+  // readout and snapping. Re-read whenever the source is swapped.
+  const frameTimes = useMemo(
+    () => frameSourceRef.current?.getFrameTimes() ?? null,
+    [frameSourceRef, frameSourceVersion],
+  );
+  const snapTime = useMemo(
+    () => (snapToFrames && frameTimes ? (t: number) => snapToFrame(frameTimes, t) : null),
+    [snapToFrames, frameTimes],
+  );
 
   // Dual-transport (AudioEngine / VideoElementEngine) abstraction: playback
   // state, the playback-clock refs, the play-token guard, engine refs, and the
@@ -605,8 +735,11 @@ export default function AnnotationWindow({ project, onClose, updateProjectSettin
     setImportError,
     pendingImport,
     setPendingImport,
+    pendingRavenImport,
+    setPendingRavenImport,
     handleImportAnnotations,
     resolveImport,
+    resolveRavenImport,
   } = useImportAnnotations({
     annotationDirectory,
     currentDirectory,
@@ -671,8 +804,8 @@ export default function AnnotationWindow({ project, onClose, updateProjectSettin
     // On Linux, <video>/<audio> playback goes through WebKitGTK's GStreamer
     // pipeline, which can't resolve the `asset://` scheme (see toVideoServerUrl
     // doc comment) — serve over a local HTTP loopback there instead. macOS/Windows
-    // keep using asset:// directly. fetch()-based paths (VideoFrameSource, below)
-    // are unaffected and keep using assetUrl regardless of platform.
+    // keep using asset:// directly. VideoFrameSource (below) reads the file by
+    // range through the backend, so it takes the plain path on every platform.
     const videoElementUrl = isLinux ? await toVideoServerUrl(absolutePath) : assetUrl;
     setVideoSrc(videoElementUrl);
 
@@ -683,7 +816,7 @@ export default function AnnotationWindow({ project, onClose, updateProjectSettin
     // chunks for the whole (potentially multi-second) load, so two different
     // files appear to have identical content. Batched with setIsProcessing so
     // the null cache renders as the loading state, not "Spectrogram Unavailable".
-    swapChunkCache(chunkCacheRef, null);
+    swapChunkCaches(chunkCacheRef, []);
     bumpCacheVersion();
     setIsProcessing(true);
 
@@ -692,19 +825,23 @@ export default function AnnotationWindow({ project, onClose, updateProjectSettin
         // For video files the engine handles audio; the <video> element shows frames only.
         let sr: number;
         let dur: number;
+        let channels: number;
         if (engineRef.current) {
             const engineInfo = await engineRef.current.loadFile(absolutePath);
             sr = engineInfo.sampleRate;
             dur = engineInfo.durationSec;
+            channels = engineInfo.channels;
             addLog(`File info: ${dur.toFixed(2)}s, ${sr}Hz, ${engineInfo.channels}ch`);
         } else {
             const info = await getFileInfo(absolutePath);
             sr = info.sample_rate;
             dur = info.duration_secs;
+            channels = info.channels;
             addLog(`File info: ${dur.toFixed(2)}s, ${sr}Hz, ${info.channels}ch`);
         }
 
         setSampleRate(sr);
+        setChannelCount(channels);
         if (dur > 0) setDuration(dur);
         // Clamp displayed max frequency to Nyquist of *this* file, but don't
         // clobber a lower user-defined ceiling. If the user has chosen a max
@@ -715,28 +852,33 @@ export default function AnnotationWindow({ project, onClose, updateProjectSettin
         const effectiveZoom = (dur > 0 && dur < zoomSecRef.current) ? Math.max(MIN_ZOOM_SEC, dur) : zoomSecRef.current;
         if (effectiveZoom !== zoomSecRef.current) setZoomSec(effectiveZoom);
 
-        // Create new multi-tier chunk cache for this file
-        const cache = new MultiTierSpectrogramCache(
+        // Create new multi-tier chunk caches for this file, one per lane
+        const caches = createChannelCaches(
             absolutePath,
             settings.fftSize,
             sr,
             dur,
+            viewChannels(settings.channelView, channels),
             bumpCacheVersion,
+            stftOptionsOf(settings),
         );
-        swapChunkCache(chunkCacheRef, cache);
+        swapChunkCaches(chunkCacheRef, caches);
         bumpCacheVersion();
 
         // Kick off first viewport prefetch immediately
-        cache.prefetchViewport(0, effectiveZoom, cache.selectTier(effectiveZoom, 1200).tier);
+        for (const cache of caches) {
+            cache.prefetchViewport(0, effectiveZoom, cache.selectTier(effectiveZoom, 1200).tier);
+        }
         addLog('Spectrogram loading...');
 
-        // Frame-perfect video path: MP4/MOV only. WebCodecs + mp4box.js
-        // demuxes the file and feeds a VideoDecoder; frames are cached by
-        // timestamp for instant replay at sample boundaries. Other containers
-        // fall back to the <video> element below.
+        // Frame-perfect video path: MP4/MOV/WebM/MKV. The file is indexed
+        // once and its frames read by range into a WebCodecs
+        // VideoDecoder; frames are cached by timestamp for instant replay at
+        // sample boundaries. Other containers fall back to the <video>
+        // element below.
         //
         // Gated by videoMode:
-        //   off, fast → don't open a frame source at all (the file load + demux
+        //   off, fast → don't open a frame source at all (indexing the file
         //               is itself non-trivial on old hardware).
         //   mixed     → open it so the canvas can light up the moment the user
         //               commits a selection, but skip the t=0 warm decode.
@@ -747,7 +889,7 @@ export default function AnnotationWindow({ project, onClose, updateProjectSettin
         if (wantFrameSource) {
             try {
                 const source = new VideoFrameSource({ onDebugLog: addLog });
-                await source.open(assetUrl);
+                await source.open(absolutePath);
                 frameSourceRef.current = source;
                 setFrameSourceVersion(v => v + 1);
                 if (mode === 'accurate') {
@@ -773,7 +915,8 @@ export default function AnnotationWindow({ project, onClose, updateProjectSettin
         setDuration(0);
         setSampleRate(44100);
         setIsAudioTrack(false);
-        swapChunkCache(chunkCacheRef, null);
+        setChannelCount(1);
+        swapChunkCaches(chunkCacheRef, []);
         bumpCacheVersion();
         if (frameSourceRef.current) {
             frameSourceRef.current.close();
@@ -783,7 +926,7 @@ export default function AnnotationWindow({ project, onClose, updateProjectSettin
     } finally {
         setIsProcessing(false);
     }
-  }, [settings.fftSize]);
+  }, [settings.fftSize, settings.channelView, settings.windowFunction, settings.overlapPercent, settings.zeroPadding]);
 
   // Mutual exclusion: whenever an example clip starts sounding, park the main
   // transport so the two files never play at once. The main play button shows
@@ -796,29 +939,52 @@ export default function AnnotationWindow({ project, onClose, updateProjectSettin
     setIsPlaying(false);
   }, [exampleAudioActive, activeTransport]);
 
-  // Rebuild cache when FFT size changes while a track is open
+  // Rebuild the caches when the FFT size, analysis options or channel view
+  // change while a track is open. Skipped when they already match (e.g. the
+  // load just built them).
+  const viewedChannels = viewChannels(settings.channelView, channelCount);
+  const viewedChannelsKey = viewedChannels.join(',');
+  const stft = stftOptionsOf(settings);
+  const stftKey = stftOptionsKey(stft);
   useEffect(() => {
     if (!trackPath || !sampleRate || !duration) return;
-    const cache = new MultiTierSpectrogramCache(
+    if (cachesServe(chunkCacheRef.current, trackPath, settings.fftSize, viewedChannels, stft)) return;
+    const caches = createChannelCaches(
       trackPath,
       settings.fftSize,
       sampleRate,
       duration,
+      viewedChannels,
       bumpCacheVersion,
+      stft,
     );
-    swapChunkCache(chunkCacheRef, cache);
+    swapChunkCaches(chunkCacheRef, caches);
     bumpCacheVersion();
-    cache.prefetchViewport(0, zoomSec, cache.selectTier(zoomSec, 1200).tier);
-  }, [settings.fftSize]);
+    for (const cache of caches) {
+      cache.prefetchViewport(0, zoomSec, cache.selectTier(zoomSec, 1200).tier);
+    }
+  }, [settings.fftSize, viewedChannelsKey, stftKey]);
+
+  // Each track's status record by media path.
+  const trackStatuses = useMemo(() => {
+    const byIdent = parseTrackStatusContent(trackStatusContent);
+    const out = new Map<string, TrackStatusEntry>();
+    if (byIdent.size === 0) return out;
+    for (const t of allTracks) {
+      const id = getIdent(t);
+      const entry = id != null ? byIdent.get(id) : undefined;
+      if (entry) out.set(t, entry);
+    }
+    return out;
+  }, [trackStatusContent, allTracks, getIdent]);
 
   // The ordered list used for navigation (respects shuffle mode and fileFilter)
+  const navigationBase = shuffleMode ? shuffledFiles : allTracks;
   const displayQueue = useMemo(() => {
-    const base = shuffleMode ? shuffledFiles : allTracks;
     const filter = project?.preferences.fileFilter ?? 'all';
-    if (filter === 'annotated') return base.filter(f => annotatedTracks.has(f));
-    if (filter === 'unannotated') return base.filter(f => !annotatedTracks.has(f));
-    return base;
-  }, [shuffleMode, shuffledFiles, allTracks, project?.preferences.fileFilter, annotatedTracks]);
+    if (filter === 'all') return navigationBase;
+    return navigationBase.filter(f => passesFileFilter(filter, annotatedTracks.has(f), trackStatuses.get(f)));
+  }, [navigationBase, project?.preferences.fileFilter, annotatedTracks, trackStatuses]);
 
   // Index lookup map for O(1) navigation
   const displayQueueIndex = useMemo(() => {
@@ -836,6 +1002,17 @@ export default function AnnotationWindow({ project, onClose, updateProjectSettin
     if (displayQueue.length === 0) return;
     const step = direction === 'prev' ? -1 : 1;
     let idx = currentFileIndex + step;
+    // The open track can drop out of the filtered queue (e.g. just marked
+    // done); step to its neighbours in the unfiltered order instead.
+    if (currentFileIndex === -1 && trackPath) {
+      const order = new Map(navigationBase.map((f, i) => [f, i]));
+      const pos = order.get(trackPath);
+      if (pos !== undefined) {
+        const after = displayQueue.findIndex(f => (order.get(f) ?? -1) > pos);
+        const firstAfter = after === -1 ? displayQueue.length : after;
+        idx = step > 0 ? firstAfter : firstAfter - 1;
+      }
+    }
     // Skip over unsupported files so prev/next lands on a file we can actually open.
     while (idx >= 0 && idx < displayQueue.length && !isSupportedMediaFile(displayQueue[idx])) {
         idx += step;
@@ -843,7 +1020,7 @@ export default function AnnotationWindow({ project, onClose, updateProjectSettin
     if (idx >= 0 && idx < displayQueue.length && displayQueue[idx] !== trackPath) {
         handleOpenTrack(displayQueue[idx]);
     }
-  }, [displayQueue, currentFileIndex, trackPath, handleOpenTrack]);
+  }, [displayQueue, navigationBase, currentFileIndex, trackPath, handleOpenTrack]);
 
   // Annotation navigation helpers (used by toolbar buttons and keyboard shortcuts)
   const sortedAnnotations = useMemo(() => [...annotations].sort((a, b) => a.start - b.start), [annotations]);
@@ -851,6 +1028,32 @@ export default function AnnotationWindow({ project, onClose, updateProjectSettin
   // current list without re-subscribing on every annotation change.
   const sortedAnnotationsRef = useRef(sortedAnnotations);
   useEffect(() => { sortedAnnotationsRef.current = sortedAnnotations; }, [sortedAnnotations]);
+
+  // buzzdetect detections → annotations (components/DetectionConversionModal.tsx).
+  const [showDetectionConversion, setShowDetectionConversion] = useState(false);
+  // buzzdetect threshold evaluation (components/BuzzdetectEvaluationModal.tsx).
+  const [showBuzzdetectEvaluation, setShowBuzzdetectEvaluation] = useState(false);
+  const { convertDetections } = useDetectionConversion({
+    projectRef,
+    trackPathRef,
+    annotationsRef: sortedAnnotationsRef,
+    annotationToolsRef,
+    getAnnotationPath,
+    getIdent,
+    handleAnnotationsCommit,
+    setAnnotatedFiles,
+    addLog,
+  });
+  const handleConvertDetections = useCallback((
+    scope: DetectionConversionScope,
+    mappings: NeuronLabelMapping[],
+    options: DetectionConversionOptions,
+  ) => convertDetections({
+    tracks: scope === 'project' ? allTracks : trackPath ? [trackPath] : [],
+    mappings,
+    thresholds: buzzdetectThresholds,
+    options,
+  }), [convertDetections, allTracks, trackPath, buzzdetectThresholds]);
   // The same list on the display axis, for the prev/next-annotation enablement
   // below: that's a question about what the user can navigate to on screen, and
   // the playhead it's compared against is a display position. (The source-time
@@ -927,6 +1130,20 @@ export default function AnnotationWindow({ project, onClose, updateProjectSettin
     spectrogramRef.current?.zoomToRange(dStart, timeline.toDisplay(match.end));
   }, [annotations, seek, timeline]);
 
+  // PCM for the power spectrum panel. Stable, so the panel only re-reads when
+  // the selection or the analysis settings change.
+  const readSelectionPcm = useCallback(async (start: number, end: number) => {
+    return engineRef.current?.readRange(start, end) ?? null;
+  }, []);
+
+  // Annotation table row click: select the annotation and move the playhead to
+  // its start, scrolling the view to it. Under a subset the start may have
+  // been cut, so it lands on the nearest kept time.
+  const handleTableGoToAnnotation = useCallback((annotation: Annotation) => {
+    setSelectedAnnotationId(annotation.id);
+    seek(displayOfNearestKept(timeline, annotation.start), true);
+  }, [seek, timeline]);
+
   // Find Label "Go" handler: same-track matches select + scroll immediately;
   // matches on another track open it first, and the effect below finishes
   // the job once its annotations have loaded.
@@ -998,9 +1215,18 @@ export default function AnnotationWindow({ project, onClose, updateProjectSettin
     buzzdetectSubsetEnabled,
     buzzdetectSubsetNeurons,
     buzzdetectMinDetectionRate,
+    detectorSourceThresholds,
+    detectorSourceHiddenNeurons,
+    labelSubsetEnabled,
+    labelSubset,
+    annotationTableOpen,
+    powerSpectrumOpen,
+    reviewOpen,
+    agreementOpen,
     videoMode,
     videoBrightness,
     videoContrast,
+    snapToFrames,
     playheadLocked,
     timeDisplayUnit,
     fallbackTimeDisplayUnit,
@@ -1104,6 +1330,7 @@ export default function AnnotationWindow({ project, onClose, updateProjectSettin
     setVideoMode(migrateVideoMode(ui.videoMode));
     setVideoBrightness(ui.videoBrightness);
     setVideoContrast(ui.videoContrast);
+    setSnapToFrames(ui.snapToFrames);
     setBuzzdetectEnabled(project.preferences.uiSettings?.buzzdetectEnabled ?? false);
     setBuzzdetectThresholds(project.preferences.uiSettings?.buzzdetectThresholds ?? {});
     setBuzzdetectHiddenNeurons(project.preferences.uiSettings?.buzzdetectHiddenNeurons ?? []);
@@ -1113,7 +1340,19 @@ export default function AnnotationWindow({ project, onClose, updateProjectSettin
     setBuzzdetectSubsetEnabled(project.preferences.uiSettings?.buzzdetectSubsetEnabled ?? false);
     setBuzzdetectSubsetNeurons(project.preferences.uiSettings?.buzzdetectSubsetNeurons ?? []);
     setBuzzdetectMinDetectionRate(project.preferences.uiSettings?.buzzdetectMinDetectionRate ?? DEFAULT_BUZZDETECT_MIN_DETECTION_RATE);
+    setDetectorSourceThresholds(project.preferences.uiSettings?.detectorSourceThresholds ?? {});
+    setDetectorSourceHiddenNeurons(project.preferences.uiSettings?.detectorSourceHiddenNeurons ?? {});
+    setLabelSubsetEnabled(project.preferences.uiSettings?.labelSubsetEnabled ?? false);
+    setLabelSubset(project.preferences.uiSettings?.labelSubset ?? null);
     setBuzzdetectPanelHeight(DEFAULT_BUZZDETECT_PANEL_HEIGHT);
+    setAnnotationTableOpen(project.preferences.uiSettings?.annotationTableOpen ?? false);
+    setAnnotationTablePanelHeight(DEFAULT_ANNOTATION_TABLE_PANEL_HEIGHT);
+    setPowerSpectrumOpen(project.preferences.uiSettings?.powerSpectrumOpen ?? false);
+    setPowerSpectrumPanelHeight(DEFAULT_POWER_SPECTRUM_PANEL_HEIGHT);
+    setReviewOpen(project.preferences.uiSettings?.reviewOpen ?? false);
+    setReviewPanelHeight(DEFAULT_REVIEW_PANEL_HEIGHT);
+    setAgreementOpen(project.preferences.uiSettings?.agreementOpen ?? false);
+    setAgreementPanelHeight(DEFAULT_AGREEMENT_PANEL_HEIGHT);
     setBuzzdetectData(null);
     setFilterToolActive(false);
     // Panel layout — restore persisted layout for this project.
@@ -1133,6 +1372,7 @@ export default function AnnotationWindow({ project, onClose, updateProjectSettin
     setShuffledFiles([]);
     setCurrentDirectory(project.mediaDirectoryAbs);
     setAnnotatedFiles(new Set());
+    setTrackStatusContent(null);
     setAnnotations([]);
     setTrackPath(null);
     setVideoSrc(null);
@@ -1163,6 +1403,7 @@ export default function AnnotationWindow({ project, onClose, updateProjectSettin
         }
         if (firstFile) handleOpenTrack(firstFile);
         refreshAnnotatedSet(files, project.mediaDirectoryAbs, project.annotationDirectoryAbs);
+        loadTrackStatuses(project.annotationDirectoryAbs).then(setTrackStatusContent);
       })
       .catch(err => {
         setAllMediaFiles([]);
@@ -1206,6 +1447,7 @@ export default function AnnotationWindow({ project, onClose, updateProjectSettin
       setAllMediaFiles(files);
       setAllNonMediaFiles(nonMedia);
       refreshAnnotatedSet(files, project.mediaDirectoryAbs, project.annotationDirectoryAbs);
+      setTrackStatusContent(await loadTrackStatuses(project.annotationDirectoryAbs));
     } catch (err) {
       addLog(`Error refreshing files: ${err}`, 'error');
     }
@@ -1255,8 +1497,7 @@ export default function AnnotationWindow({ project, onClose, updateProjectSettin
   }, [project, updateProjectSettings, updateProjectPreferences, handleOpenTrack, loadAnnotationTools]);
 
   const handleToggleFileFilter = useCallback(() => {
-    const current = project.preferences.fileFilter ?? 'all';
-    const next = ({ all: 'unannotated', unannotated: 'annotated', annotated: 'all' } as const)[current];
+    const next = nextFileFilter(project.preferences.fileFilter ?? 'all');
     updateProjectPreferences(project.id, { ...project.preferences, fileFilter: next });
   }, [project, updateProjectPreferences]);
 
@@ -1269,6 +1510,35 @@ export default function AnnotationWindow({ project, onClose, updateProjectSettin
     setFileTreeAnyExpanded(state.anyExpanded);
   }, []);
 
+  // Verdicts are recorded under the reviewer's own name, or failing that their
+  // git sync author name.
+  const reviewerName = project.preferences.reviewerName ?? project.preferences.gitSyncUser?.authorName ?? '';
+  const handleAgreementError = useCallback((msg: string) => addLog(msg, 'error'), [addLog]);
+
+  const handleReviewerNameChange = useCallback((name: string) => {
+    updateProjectPreferences(project.id, { ...project.preferences, reviewerName: name || undefined });
+  }, [project, updateProjectPreferences]);
+
+  // Track status and assignment (utils/trackStatus.ts), from the file tree's
+  // context menu and the cycle hotkey. Recorded under the reviewer name.
+  const updateTrackStatus = useCallback(async (path: string, patch: TrackStatusPatch) => {
+    const id = getIdent(path);
+    if (!id || !annotationDirectory) return;
+    try {
+      setTrackStatusContent(await saveTrackStatus(annotationDirectory, id, patch, reviewerName));
+    } catch (err) {
+      addLog(`Error saving track status: ${err}`, 'error');
+    }
+  }, [getIdent, annotationDirectory, reviewerName]);
+
+  const handleSetTrackStatus = useCallback((path: string, status: TrackStatus) => {
+    updateTrackStatus(path, { status });
+  }, [updateTrackStatus]);
+
+  const handleAssignTrack = useCallback((path: string, assignee: string) => {
+    updateTrackStatus(path, { assignee });
+  }, [updateTrackStatus]);
+
   const handleFindLabelUseRegexChange = useCallback((useRegex: boolean) => {
     updateProjectPreferences(project.id, { ...project.preferences, findLabelUseRegex: useRegex });
   }, [project, updateProjectPreferences]);
@@ -1370,7 +1640,9 @@ export default function AnnotationWindow({ project, onClose, updateProjectSettin
 
   // Global Hotkeys — see hooks/useHotkeys.ts. Handlers close over the latest
   // render's state (the bindings array is read from a ref refreshed each render),
-  // so we don't need to manage a dep list here.
+  // so we don't need to manage a dep list here. Keys come from the user's
+  // keymap (utils/keymap.ts), except the tool digits, which are per-project.
+  const keymap = useKeymap();
   const selectAllOrAnnotateFullTrack = () => {
       if (displayDuration <= 0) return;
       // Under a subset, "everything" means the segment the playhead is sitting
@@ -1406,7 +1678,7 @@ export default function AnnotationWindow({ project, onClose, updateProjectSettin
   };
   useHotkeys([
       // Help guide — also fires inside text inputs, since help is universal.
-      { key: 'F1', allowInInput: true, handler: () => showHelpPage() },
+      ...bindAction(keymap, 'openHelp', () => showHelpPage(), { allowInInput: true }),
 
       // Mod+key bindings. Undo/redo (useAnnotationHistory), band-pass filter
       // toggle (useBandPassFilter), spectrogram zoom (useSpectrogramZoomHotkeys),
@@ -1414,30 +1686,35 @@ export default function AnnotationWindow({ project, onClose, updateProjectSettin
       // now register their own hotkeys where their state/handlers live — see
       // those hooks' instantiations above. What's left here is annotation- and
       // file-navigation-specific glue that only this window has.
-      { key: 'a', mods: ['mod'], handler: selectAllOrAnnotateFullTrack },
-      { key: 'ArrowLeft', mods: ['mod'], handler: () => spectrogramRef.current?.goToTrackStart() },
-      { key: 'ArrowRight', mods: ['mod'], handler: () => spectrogramRef.current?.goToTrackEnd() },
-      { key: 'ArrowLeft', mods: ['alt'], handler: () => spectrogramRef.current?.goToPrevAnnotation() },
-      { key: 'ArrowRight', mods: ['alt'], handler: () => spectrogramRef.current?.goToNextAnnotation() },
-      { key: 'ArrowUp', mods: ['mod'], handler: () => navigateFile('prev') },
-      { key: 'ArrowDown', mods: ['mod'], handler: () => navigateFile('next') },
+      ...bindAction(keymap, 'selectAll', selectAllOrAnnotateFullTrack),
+      ...bindAction(keymap, 'trackStart', () => spectrogramRef.current?.goToTrackStart()),
+      ...bindAction(keymap, 'trackEnd', () => spectrogramRef.current?.goToTrackEnd()),
+      ...bindAction(keymap, 'prevAnnotation', () => spectrogramRef.current?.goToPrevAnnotation()),
+      ...bindAction(keymap, 'nextAnnotation', () => spectrogramRef.current?.goToNextAnnotation()),
+      ...bindAction(keymap, 'prevTrack', () => navigateFile('prev')),
+      ...bindAction(keymap, 'nextTrack', () => navigateFile('next')),
+      ...bindAction(keymap, 'cycleTrackStatus', () => {
+          if (!trackPath) return;
+          const current = effectiveTrackStatus(trackStatuses.get(trackPath), annotatedTracks.has(trackPath));
+          handleSetTrackStatus(trackPath, nextTrackStatus(current));
+      }),
 
       // `S`: select tool (no annotation tool readied). Stack-equivalent to
       // removing the `annotationTool` entry — does not touch selection, filter
       // tool, or band.
-      { key: 's', handler: () => {
+      ...bindAction(keymap, 'selectMode', () => {
           setActiveToolKey(null);
           activationStack.remove('annotationTool');
-      }},
+      }),
       // `Shift+S`: subset the track to the ticked neurons' detections, and
-      // back. No-op until a neuron is ticked in the buzzdetect panel — there'd
-      // be nothing to subset by.
-      { key: 's', mods: ['shift'], handler: toggleBuzzdetectSubset },
-      { key: 'e', handler: () => {
+      // back; or out of a label subset. No-op until a neuron is ticked in the
+      // buzzdetect panel — there'd be nothing to subset by.
+      ...bindAction(keymap, 'toggleSubset', toggleSubset),
+      ...bindAction(keymap, 'playExample', () => {
           if (activeToolKey === null) return;
           const tool = annotationTools.find(t => t.key === activeToolKey);
           if (tool) examplePlayer.toggle(tool);
-      }},
+      }),
       // Escape — universal undo of the most-recently-activated layer. Fires
       // even when a text input has focus. (The guide's own Esc-to-close lives
       // in its own window, so the two never contend.) Layer kinds & clear
@@ -1446,7 +1723,7 @@ export default function AnnotationWindow({ project, onClose, updateProjectSettin
       //   selection      → clear selection bounds
       //   filterTool     → setFilterToolActive(false)
       //   filterBand     → setBandPassFilter(null)
-      { key: 'Escape', allowInInput: true, handler: () => {
+      ...bindAction(keymap, 'undoLayer', () => {
           const top = activationStack.popTop();
           switch (top) {
             case 'annotationTool':
@@ -1468,31 +1745,101 @@ export default function AnnotationWindow({ project, onClose, updateProjectSettin
               // Stack empty → no-op (already at Select baseline).
               break;
           }
-      }},
-      { key: 'Delete', handler: deleteSelectedAnnotation, preventDefault: false },
-      { key: 'Backspace', handler: deleteSelectedAnnotation, preventDefault: false },
+      }, { allowInInput: true }),
+      ...bindAction(keymap, 'deleteAnnotation', deleteSelectedAnnotation, { preventDefault: false }),
 
       // 0-9: activate annotation tool by key, if defined. Stack management
       // (pushIfAbsent on activate; remove on toggle-off) lives in
       // handleToolActivate so palette clicks and hotkeys agree. Also allowed
       // while Alt is held, since Alt+Digit isn't bound to anything else here.
-      { key: 'Digit', handler: (e) => {
-          const digit = digitFromEvent(e);
-          const tool = annotationTools.find(t => t.key === digit);
-          if (tool) handleToolActivate(digit);
-      }},
-      { key: 'Digit', mods: ['alt'], handler: (e) => {
-          const digit = digitFromEvent(e);
-          const tool = annotationTools.find(t => t.key === digit);
-          if (tool) handleToolActivate(digit);
-      }},
+      // Shift+digit and mod+digit are the second and third tool banks.
+      ...([[], ['alt'], ['shift'], ['mod']] as HotkeyMod[][]).map((mods): HotkeyBinding => ({
+          key: 'Digit', mods, handler: (e) => {
+              const key = toolHotkeyFromEvent(digitFromEvent(e), mods);
+              const tool = annotationTools.find(t => t.key === key);
+              if (tool) handleToolActivate(key);
+          },
+      })),
   ], libraryToolIndex === null);  // disabled while the example library modal owns the keyboard
 
-  const performExport = async () => {
-      if (annotations.length === 0) return;
-      const decimals = project?.settings.outputRoundingDecimals ?? DEFAULT_OUTPUT_ROUNDING_DECIMALS;
-      await exportToAudacity(annotations, trackName, trackPath, decimals);
-      addLog('Exported annotations as TXT');
+  // Export one track's annotations through a save dialog. The open track
+  // exports what's in memory (it may not be flushed yet); any other track is
+  // read from its annotation file.
+  const handleExportAnnotations = async (targetTrack: string, format: AnnotationExportFormat) => {
+      try {
+          let toExport = annotations;
+          if (targetTrack !== trackPath) {
+              const annotPath = getAnnotationPath(targetTrack);
+              const content = annotPath ? await readTextFile(annotPath).catch(() => null) : null;
+              toExport = content ? parseAudacityContent(content, annotationTools) : [];
+          }
+          if (toExport.length === 0) return;
+          const decimals = project?.settings.outputRoundingDecimals ?? DEFAULT_OUTPUT_ROUNDING_DECIMALS;
+          const name = basename(targetTrack);
+          if (format === 'raven') {
+              await exportToRaven(toExport, name, targetTrack, { low: settings.minFreq, high: settings.maxFreq }, decimals);
+          } else {
+              await exportToAudacity(toExport, name, targetTrack, decimals);
+          }
+          addLog(`Exported ${toExport.length} annotations from ${name} as ${format === 'raven' ? 'Raven selection table' : 'TXT'}`);
+      } catch (err) {
+          addLog(`Export error: ${err}`, 'error');
+      }
+  };
+
+  // File-tree folder → its ident for the project-wide export ('' for the root).
+  const handleOpenExportTable = (folderPath: string) => {
+      const rel = folderPath.substring(project.mediaDirectoryAbs.length + 1).replace(/\\/g, '/');
+      setExportTableFolder(rel);
+  };
+
+  const handleExportAnnotationTable = async (rows: AnnotationTableRow[]) => {
+      try {
+          const decimals = project?.settings.outputRoundingDecimals ?? DEFAULT_OUTPUT_ROUNDING_DECIMALS;
+          const name = project.settings.projectName || 'annotations';
+          const saved = await saveAnnotationTable(rows, `${project.mediaDirectoryAbs}/${name}_annotations.csv`, decimals);
+          if (!saved) return;
+          addLog(`Exported ${rows.length} annotations to CSV`);
+          setExportTableFolder(null);
+      } catch (err) {
+          addLog(`Export error: ${err}`, 'error');
+      }
+  };
+
+  // Stills and clips for reports. The still is the frame on screen, zoom and
+  // brightness/contrast included; the clip is the selection, cut from the
+  // source file by ffmpeg.
+  const handleExportFrame = async () => {
+      const frameSource = frameSourceRef.current;
+      if (!frameSource || !trackName) return;
+      try {
+          const t = getMediaTime();
+          const saved = await saveFrameStill(frameSource, t, videoBrightness, videoContrast, `${project.mediaDirectoryAbs}/${stillFileName(trackName, t)}`);
+          if (saved) addLog(`Exported the frame at ${t.toFixed(3)}s of ${trackName} as PNG`);
+      } catch (err) {
+          addLog(`Export error: ${err}`, 'error');
+      }
+  };
+
+  const handleExportClip = async () => {
+      if (!selection || !trackPath || !trackName) return;
+      const range = selectionToSource(selection);
+      try {
+          const saved = await saveSelectionClip(trackPath, range, `${project.mediaDirectoryAbs}/${clipFileName(trackName, range)}`);
+          if (saved) addLog(`Exported ${range.start.toFixed(3)}–${range.end.toFixed(3)}s of ${trackName} as a clip`);
+      } catch (err) {
+          addLog(`Export error: ${err}`, 'error');
+      }
+  };
+
+  const handleExportAnnotationStats = async (stats: AnnotationStats) => {
+      try {
+          const name = project.settings.projectName || 'annotations';
+          const saved = await saveAnnotationStats(stats, `${project.mediaDirectoryAbs}/${name}_statistics.csv`);
+          if (saved) addLog('Exported annotation statistics to CSV');
+      } catch (err) {
+          addLog(`Export error: ${err}`, 'error');
+      }
   };
 
   // Wrap setSelection at the prop boundary so any path that sets/clears the
@@ -1524,6 +1871,50 @@ export default function AnnotationWindow({ project, onClose, updateProjectSettin
     }
   }, [activationStack, clearSelectionEnd]);
 
+  // Review panel: select an annotation's span and play it through once. An
+  // annotation on another track opens it first; the effect below finishes the
+  // job once its annotations and audio have loaded. Playback already running
+  // is stopped, and the play-request effect restarts it on the new selection
+  // when the transport has settled.
+  const pendingReviewRef = useRef<ReviewItem | null>(null);
+  const [reviewPlayRequest, setReviewPlayRequest] = useState(0);
+  const reviewPlayHandledRef = useRef(0);
+  const handlePlayReviewItem = useCallback((item: ReviewItem) => {
+    if (item.ident !== ident) {
+      const targetPath = allTracks.find(t => getIdent(t) === item.ident);
+      if (!targetPath) return;
+      pendingReviewRef.current = item;
+      handleOpenTrack(targetPath);
+      return;
+    }
+    const { start, end, text } = item.annotation;
+    const found = annotations.find(a => a.id === item.annotation.id)
+      ?? annotations.find(a => a.start === start && a.end === end && a.text === text);
+    if (!found) return;
+    // Under a subset either end may have been cut; play what's kept of it.
+    const dStart = displayOfNearestKept(timeline, found.start);
+    const dEnd = Math.max(dStart, displayOfNearestKept(timeline, found.end));
+    setSelectedAnnotationId(found.id);
+    handleSelectionChange({ start: dStart, end: dEnd });
+    seek(dStart, true);
+    spectrogramRef.current?.zoomToRange(dStart, dEnd);
+    if (isPlaying || isBuffering) togglePlay();
+    setReviewPlayRequest(n => n + 1);
+  }, [ident, allTracks, getIdent, handleOpenTrack, annotations, timeline, handleSelectionChange, seek, isPlaying, isBuffering, togglePlay]);
+
+  useEffect(() => {
+    const pending = pendingReviewRef.current;
+    if (!pending || ident !== pending.ident || annotations.length === 0 || isProcessing || duration <= 0) return;
+    pendingReviewRef.current = null;
+    handlePlayReviewItem(pending);
+  }, [annotations, ident, isProcessing, duration, handlePlayReviewItem]);
+
+  useEffect(() => {
+    if (reviewPlayRequest === reviewPlayHandledRef.current || isPlaying || isBuffering) return;
+    reviewPlayHandledRef.current = reviewPlayRequest;
+    togglePlay();
+  }, [reviewPlayRequest, isPlaying, isBuffering, togglePlay]);
+
   // Hand the engine the axis it should play, and bring the rest of the view
   // onto it. Fires on every timeline change (subset toggled, threshold edited,
   // track swapped). AudioEngine stops playback rather than remapping audio
@@ -1570,6 +1961,16 @@ export default function AnnotationWindow({ project, onClose, updateProjectSettin
     ));
   }, [boundAnnotationId, annotations, handleAnnotationsCommit, seek, timeline, selectionToSource]);
 
+  // Region boxes drawn on the video frame. Only the frame-accurate path draws
+  // them, where the playhead is on the source axis the annotations are stored on.
+  const selectedAnnotation = useMemo(
+    () => annotations.find(a => a.id === selectedAnnotationId) ?? null,
+    [annotations, selectedAnnotationId],
+  );
+  const handleRegionChange = useCallback((id: string, region: VideoRegion | undefined) => {
+    handleAnnotationsCommit(updateAnnotation(annotations, id, a => withRegion(a, region)));
+  }, [annotations, handleAnnotationsCommit]);
+
   const liveSpeedRange = speedRangeFor(isAudioTrack, videoMode);
 
   // Mirror the toolbar's state into the help guide window and accept control
@@ -1603,14 +2004,14 @@ export default function AnnotationWindow({ project, onClose, updateProjectSettin
       filterEnabled: bandPassFilter !== null,
       filterStrength,
       bandPassFilter,
-      buzzdetectAvailable: project.buzzdetectDirectoryAbs !== null,
+      buzzdetectAvailable: project.buzzdetectDirectoryAbs !== null || project.extraDetectorSources.length > 0,
       buzzdetectEnabled,
-      subsetAvailable: buzzdetectSubsetNeurons.length > 0,
+      subsetAvailable: buzzdetectSubsetNeurons.length > 0 || labelSubsetActive,
       subsetActive,
       spectrogramSettings: settings,
       spectrogramSettingsOpen: showSettings,
       filePanel: {
-        fileFilter: (project?.preferences.fileFilter ?? 'all') as 'all' | 'annotated' | 'unannotated',
+        fileFilter: (project?.preferences.fileFilter ?? 'all') as FileFilter,
         shuffleMode,
         anyExpanded: fileTreeAnyExpanded,
       },
@@ -1654,7 +2055,7 @@ export default function AnnotationWindow({ project, onClose, updateProjectSettin
       enableFilter: handleEnableBandPassFilter,
       disableFilter: () => { handleDisableBandPassFilter(); setFilterStrength(0); },
       toggleBuzzdetect: () => setBuzzdetectEnabled(v => !v),
-      toggleSubset: toggleBuzzdetectSubset,
+      toggleSubset,
       toggleSpectrogramSettings: () => setShowSettings(s => !s),
       setSpectrogramSettings: patch => setSettings(s => ({ ...s, ...patch })),
       toggleFileExpandCollapse: () => fileTreeHeaderRef.current?.toggleExpandCollapse(),
@@ -1666,6 +2067,9 @@ export default function AnnotationWindow({ project, onClose, updateProjectSettin
       openToolSettings: () => setShowToolSettings(true),
       openMassRename: () => setShowMassRename(true),
       openFindLabel: () => setShowFindLabel(true),
+      openExportAnnotations: () => setExportTableFolder(''),
+      openAnnotationStats: () => setShowAnnotationStats(true),
+      openLabelSubset: () => setShowLabelSubset(true),
       editTool: setPanelEditingToolIndex,
       requestDeleteTool: setPanelDeletingToolIndex,
       playExample: toolId => {
@@ -1888,6 +2292,41 @@ export default function AnnotationWindow({ project, onClose, updateProjectSettin
         </div>
       )}
 
+      {/* Raven import: choose which columns form the label */}
+      {pendingRavenImport && (
+        <RavenImportModal
+          table={pendingRavenImport.table}
+          sourceName={pendingRavenImport.sourceName}
+          onClose={() => setPendingRavenImport(null)}
+          onImport={resolveRavenImport}
+        />
+      )}
+
+      {showDetectionConversion && buzzdetectData && (
+        <DetectionConversionModal
+          data={buzzdetectData}
+          annotationTools={annotationTools}
+          thresholds={buzzdetectThresholds}
+          neuronColors={buzzdetectNeuronColors}
+          onClose={() => setShowDetectionConversion(false)}
+          onConvert={handleConvertDetections}
+        />
+      )}
+
+      {showBuzzdetectEvaluation && project.buzzdetectDirectoryAbs && (
+        <BuzzdetectEvaluationModal
+          annotationDir={project.annotationDirectoryAbs}
+          buzzdetectDir={project.buzzdetectDirectoryAbs}
+          format={project.settings.detectorFormat}
+          frameLength={project.settings.buzzdetectFrameLength}
+          annotations={annotations}
+          ident={ident}
+          thresholds={buzzdetectThresholds}
+          onClose={() => setShowBuzzdetectEvaluation(false)}
+          onApplyThreshold={handleBuzzdetectThresholdChange}
+        />
+      )}
+
       {/* Import parse error */}
       {importError && (
         <div className="fixed inset-0 z-[200] flex items-center justify-center bg-black/50">
@@ -1927,7 +2366,10 @@ export default function AnnotationWindow({ project, onClose, updateProjectSettin
             shuffleMode,
             onToggleShuffle: toggleShuffle,
             annotatedTracks,
-            fileFilter: (project?.preferences.fileFilter ?? 'all') as 'all' | 'annotated' | 'unannotated',
+            trackStatuses,
+            onSetTrackStatus: handleSetTrackStatus,
+            onAssignTrack: handleAssignTrack,
+            fileFilter: (project?.preferences.fileFilter ?? 'all') as FileFilter,
             onToggleFileFilter: handleToggleFileFilter,
             onRevealInFinder: handleRevealInFinder,
             onRevealAnnotations: handleRevealAnnotations,
@@ -1935,6 +2377,8 @@ export default function AnnotationWindow({ project, onClose, updateProjectSettin
               ? () => revealInFileManager(annotationDirectory).catch(() => {})
               : undefined,
             onImportAnnotations: handleImportAnnotations,
+            onExportAnnotations: handleExportAnnotations,
+            onExportAnnotationTable: handleOpenExportTable,
             onRefresh: handleRefreshFiles,
             nonMediaFiles: allNonMediaFiles,
             initialEnteredFolderPath: project?.preferences.enteredFolderPath ?? null,
@@ -1988,6 +2432,9 @@ export default function AnnotationWindow({ project, onClose, updateProjectSettin
                 onOpenSettings={() => setShowToolSettings(true)}
                 onOpenMassRename={() => setShowMassRename(true)}
                 onOpenFindLabel={() => setShowFindLabel(true)}
+                onOpenExportAnnotations={() => setExportTableFolder('')}
+                onOpenAnnotationStats={() => setShowAnnotationStats(true)}
+                onOpenLabelSubset={() => setShowLabelSubset(true)}
                 onEditTool={setPanelEditingToolIndex}
                 onRequestDeleteTool={setPanelDeletingToolIndex}
                 playingExampleToolId={examplePlayer.playingToolId}
@@ -2036,6 +2483,11 @@ export default function AnnotationWindow({ project, onClose, updateProjectSettin
                 contrast={videoContrast}
                 onBrightnessChange={setVideoBrightness}
                 onContrastChange={setVideoContrast}
+                annotations={annotations}
+                selectedAnnotation={selectedAnnotation}
+                onRegionChange={handleRegionChange}
+                onExportFrame={handleExportFrame}
+                onExportClip={handleExportClip}
               />
               {videoCollapsed && (
                 <div className="absolute inset-0 z-40 bg-slate-900 border-b border-slate-700 flex items-center px-3">
@@ -2068,7 +2520,7 @@ export default function AnnotationWindow({ project, onClose, updateProjectSettin
              {/* Settings Panel (Absolute, relative to spectrogram pane) */}
              {showSettings && (
                 <div className="absolute top-10 right-4 z-50 bg-slate-800 border border-slate-600 shadow-xl rounded-lg w-72 max-h-[calc(100%-4rem)] overflow-y-auto custom-scrollbar flex flex-col">
-                    <SpectrogramSettingsPanel settings={settings} onChange={patch => setSettings(s => ({ ...s, ...patch }))} />
+                    <SpectrogramSettingsPanel settings={settings} channelCount={channelCount} onChange={patch => setSettings(s => ({ ...s, ...patch }))} />
                 </div>
              )}
 
@@ -2107,12 +2559,20 @@ export default function AnnotationWindow({ project, onClose, updateProjectSettin
                setFilterStrength={setFilterStrength}
                videoMode={effectiveVideoMode}
                isAudioTrack={isAudioTrack}
-               buzzdetectAvailable={project.buzzdetectDirectoryAbs !== null}
+               buzzdetectAvailable={project.buzzdetectDirectoryAbs !== null || project.extraDetectorSources.length > 0}
                buzzdetectEnabled={buzzdetectEnabled}
                onToggleBuzzdetect={() => setBuzzdetectEnabled(v => !v)}
-               subsetAvailable={buzzdetectSubsetNeurons.length > 0}
+               annotationTableOpen={annotationTableOpen}
+               onToggleAnnotationTable={() => setAnnotationTableOpen(v => !v)}
+               powerSpectrumOpen={powerSpectrumOpen}
+               onTogglePowerSpectrum={() => setPowerSpectrumOpen(v => !v)}
+               reviewOpen={reviewOpen}
+               onToggleReview={() => setReviewOpen(v => !v)}
+               agreementOpen={agreementOpen}
+               onToggleAgreement={() => setAgreementOpen(v => !v)}
+               subsetAvailable={buzzdetectSubsetNeurons.length > 0 || labelSubsetActive}
                subsetActive={subsetActive}
-               onToggleSubset={toggleBuzzdetectSubset}
+               onToggleSubset={toggleSubset}
                onRestartAudio={() => { engineRef.current?.restart(); }}
                playheadLocked={playheadLocked}
                onTogglePlayheadLock={() => {
@@ -2126,17 +2586,22 @@ export default function AnnotationWindow({ project, onClose, updateProjectSettin
                trackStartDate={trackStartDate}
                dateTimeFormat={dateTimeFormat}
                timeline={timeline}
+               frames={frameTimes}
+               snapToFrames={snapToFrames}
+               onSnapToFramesChange={setSnapToFrames}
              />
 
              <div className="flex-1 relative overflow-hidden">
              <Spectrogram
                 ref={spectrogramRef}
-                chunkCache={chunkCacheRef.current}
+                chunkCaches={chunkCacheRef.current}
+                channelCount={channelCount}
                 sampleRate={sampleRate}
                 cacheVersion={cacheVersion}
                 currentTimeStore={currentTimeStoreRef.current}
                 duration={displayDuration}
                 timeline={timeline}
+                snapTime={snapTime}
                 isPlaying={isPlaying}
                 isProcessing={isProcessing}
                 ident={ident}
@@ -2165,6 +2630,7 @@ export default function AnnotationWindow({ project, onClose, updateProjectSettin
                 isAudioTrack={isAudioTrack}
                 playheadLocked={playheadLocked}
                 hideLabels={hideLabels}
+                comparisonLanes={displayComparisonLanes}
                 trackStartDate={trackStartDate}
                 timeDisplayUnit={shownTimeUnit}
                 dateTimeFormat={dateTimeFormat}
@@ -2181,9 +2647,10 @@ export default function AnnotationWindow({ project, onClose, updateProjectSettin
              )}
              </div>
 
-             {buzzdetectEnabled && (
+             {buzzdetectEnabled && (project.buzzdetectDirectoryAbs !== null || project.extraDetectorSources.length === 0) && (
                <BuzzdetectPanel
                  data={displayBuzzdetectData}
+                 sourceLabel={primaryDetectorLabel}
                  viewportStore={viewportStoreRef.current}
                  duration={displayDuration}
                  currentTimeStore={currentTimeStoreRef.current}
@@ -2207,8 +2674,10 @@ export default function AnnotationWindow({ project, onClose, updateProjectSettin
                  onNeuronColorChange={handleBuzzdetectNeuronColorChange}
                  onSeriesModeChange={setBuzzdetectSeriesMode}
                  onBinWidthOverrideChange={setBuzzdetectBinWidthOverride}
-                 onToggleSubsetNeuron={handleBuzzdetectToggleSubsetNeuron}
+                 onToggleSubsetNeuron={handleToggleSubsetNeuron}
                  onMinDetectionRateChange={setBuzzdetectMinDetectionRate}
+                 onConvertDetections={() => setShowDetectionConversion(true)}
+                 onEvaluateThresholds={() => setShowBuzzdetectEvaluation(true)}
                  onHeightChange={setBuzzdetectPanelHeight}
                  onSelectionChange={handleSelectionChange}
                  onBoundAnnotationChange={setBoundAnnotationId}
@@ -2219,6 +2688,110 @@ export default function AnnotationWindow({ project, onClose, updateProjectSettin
                />
              )}
 
+             {/* Extra detector sources, one lane each below the first. Each
+                 keeps its own thresholds and hidden neurons; colors, series,
+                 bin width and height are shared so the lanes read alike. */}
+             {buzzdetectEnabled && project.extraDetectorSources.map((source, i) => (
+               <BuzzdetectPanel
+                 key={source.label}
+                 sourceLabel={source.label}
+                 data={displayExtraDetectorData[i] ?? null}
+                 viewportStore={viewportStoreRef.current}
+                 duration={displayDuration}
+                 currentTimeStore={currentTimeStoreRef.current}
+                 selection={selection}
+                 timeDisplayUnit={shownTimeUnit}
+                 trackStartDate={trackStartDate}
+                 dateTimeFormat={dateTimeFormat}
+                 thresholds={detectorSourceThresholds[source.label] ?? {}}
+                 hiddenNeurons={detectorSourceHiddenNeurons[source.label] ?? []}
+                 neuronColors={buzzdetectNeuronColors}
+                 seriesMode={buzzdetectSeriesMode}
+                 binWidthOverride={buzzdetectBinWidthOverride}
+                 subsetActive={subsetActive}
+                 timeline={timeline}
+                 subsetNeurons={[]}
+                 minDetectionRate={buzzdetectMinDetectionRate}
+                 height={buzzdetectPanelHeight}
+                 onThresholdChange={(neuron, value) => handleSourceThresholdChange(source.label, neuron, value)}
+                 onToggleNeuron={(neuron, wasEnabled) => handleSourceToggleNeuron(source.label, neuron, wasEnabled)}
+                 onSetAllNeuronsHidden={(hidden) => handleSourceSetAllNeuronsHidden(source.label, displayExtraDetectorData[i]?.neurons ?? [], hidden)}
+                 onNeuronColorChange={handleBuzzdetectNeuronColorChange}
+                 onSeriesModeChange={setBuzzdetectSeriesMode}
+                 onBinWidthOverrideChange={setBuzzdetectBinWidthOverride}
+                 onMinDetectionRateChange={setBuzzdetectMinDetectionRate}
+                 onHeightChange={setBuzzdetectPanelHeight}
+                 onSelectionChange={handleSelectionChange}
+                 onBoundAnnotationChange={setBoundAnnotationId}
+                 onSeek={seek}
+                 onScrollWheel={(deltaX, deltaY, ctrlKey, metaKey, clientX) =>
+                   spectrogramRef.current?.applyWheel(deltaX, deltaY, ctrlKey, metaKey, clientX)
+                 }
+               />
+             ))}
+
+             {annotationTableOpen && (
+               <AnnotationTablePanel
+                 annotations={annotations}
+                 annotationTools={annotationTools}
+                 selectedAnnotationId={selectedAnnotationId}
+                 timeDisplayUnit={shownTimeUnit}
+                 trackStartDate={trackStartDate}
+                 dateTimeFormat={dateTimeFormat}
+                 height={annotationTablePanelHeight}
+                 onHeightChange={setAnnotationTablePanelHeight}
+                 onGoToAnnotation={handleTableGoToAnnotation}
+                 onAnnotationsCommit={handleAnnotationsCommit}
+               />
+             )}
+
+             {powerSpectrumOpen && (
+               <PowerSpectrumPanel
+                 selection={selection}
+                 trackPath={trackPath}
+                 readRange={readSelectionPcm}
+                 settings={settings}
+                 bandPassFilter={bandPassFilter}
+                 height={powerSpectrumPanelHeight}
+                 onHeightChange={setPowerSpectrumPanelHeight}
+               />
+             )}
+
+             {reviewOpen && (
+               <ReviewPanel
+                 tracks={allTracks}
+                 getAnnotationPath={getAnnotationPath}
+                 getIdent={getIdent}
+                 trackPath={trackPath}
+                 annotations={annotations}
+                 annotationTools={annotationTools}
+                 decimals={project.settings.outputRoundingDecimals ?? DEFAULT_OUTPUT_ROUNDING_DECIMALS}
+                 reviewer={reviewerName}
+                 onReviewerChange={handleReviewerNameChange}
+                 onPlayItem={handlePlayReviewItem}
+                 hotkeysEnabled={libraryToolIndex === null}
+                 onError={(msg) => addLog(msg, 'error')}
+                 height={reviewPanelHeight}
+                 onHeightChange={setReviewPanelHeight}
+               />
+             )}
+
+             {agreementOpen && (
+               <AgreementPanel
+                 key={project.id}
+                 projectDir={project.projectDir}
+                 annotationDir={project.annotationDirectoryAbs}
+                 gitSync={!!project.settings.gitSync}
+                 trackPath={trackPath}
+                 annotations={annotations}
+                 getIdent={getIdent}
+                 onLanesChange={setComparisonLanes}
+                 onError={handleAgreementError}
+                 height={agreementPanelHeight}
+                 onHeightChange={setAgreementPanelHeight}
+               />
+             )}
+
              {!videoSrc && (
                  <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
                      <div className="text-slate-600 text-center">
@@ -2284,6 +2857,44 @@ export default function AnnotationWindow({ project, onClose, updateProjectSettin
           onGo={handleGoToLabelMatch}
         />
       )}
+      {exportTableFolder !== null && (
+        <ExportAnnotationsModal
+          annotationDir={project.annotationDirectoryAbs}
+          mediaRoot={project.mediaDirectoryAbs}
+          allTracks={allTracks}
+          annotationTools={annotationTools}
+          annotations={annotations}
+          ident={ident}
+          getIdent={getIdent}
+          filenameTimeFormat={project.settings.filenameTimeFormat}
+          initialFolder={exportTableFolder}
+          onClose={() => setExportTableFolder(null)}
+          onExport={handleExportAnnotationTable}
+        />
+      )}
+      {showAnnotationStats && (
+        <AnnotationStatsModal
+          annotationDir={project.annotationDirectoryAbs}
+          mediaRoot={project.mediaDirectoryAbs}
+          allTracks={allTracks}
+          annotations={annotations}
+          ident={ident}
+          filenameTimeFormat={project.settings.filenameTimeFormat}
+          onClose={() => setShowAnnotationStats(false)}
+          onExport={handleExportAnnotationStats}
+        />
+      )}
+      {showLabelSubset && (
+        <LabelSubsetModal
+          annotations={annotations}
+          duration={duration}
+          subset={labelSubset}
+          active={labelSubsetActive}
+          onApply={applyLabelSubset}
+          onClear={() => setLabelSubsetEnabled(false)}
+          onClose={() => setShowLabelSubset(false)}
+        />
+      )}
       {panelEditingToolIndex !== null && (
         <AnnotationToolEditModal
           tool={annotationTools[panelEditingToolIndex]}
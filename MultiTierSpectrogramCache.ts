@@ -1,5 +1,6 @@
 import { getSpectrogramChunkRange } from './utils/tauriCommands';
 import { buildTierLadder, TierConfig } from './constants';
+import { DEFAULT_STFT_OPTIONS, StftOptions, stftOptionsKey } from './utils/stftOptions';
 
 export interface CachedChunk {
   data: Uint16Array;
@@ -31,6 +32,56 @@ export function swapChunkCache(
   ref.current = next;
 }
 
+/**
+ * The multi-channel form of swapChunkCache: retire every cache in `ref` that
+ * `next` doesn't keep, then install `next` — one cache per lane, top to bottom
+ * (empty for none).
+ */
+export function swapChunkCaches(
+  ref: { current: MultiTierSpectrogramCache[] },
+  next: MultiTierSpectrogramCache[],
+): void {
+  for (const cache of ref.current) {
+    if (!next.includes(cache)) cache.invalidate();
+  }
+  ref.current = next;
+}
+
+/**
+ * One cache per entry of `channels` (see utils/channelLanes viewChannels) for
+ * the file at `filePath`. A cache serves exactly one channel, so each lane of
+ * a stacked view fetches, evicts and invalidates on its own.
+ */
+export function createChannelCaches(
+  filePath: string,
+  fftSize: number,
+  sampleRate: number,
+  duration: number,
+  channels: readonly (number | null)[],
+  onChunkLoaded: () => void,
+  stft: StftOptions = DEFAULT_STFT_OPTIONS,
+): MultiTierSpectrogramCache[] {
+  return channels.map(channel =>
+    new MultiTierSpectrogramCache(filePath, fftSize, sampleRate, duration, onChunkLoaded, channel, stft));
+}
+
+/**
+ * True when `caches` already serve `channels` of `filePath` at `fftSize` with
+ * the same analysis options, so a rebuild would change nothing.
+ */
+export function cachesServe(
+  caches: readonly MultiTierSpectrogramCache[],
+  filePath: string,
+  fftSize: number,
+  channels: readonly (number | null)[],
+  stft: StftOptions = DEFAULT_STFT_OPTIONS,
+): boolean {
+  const key = stftOptionsKey(stft);
+  return caches.length === channels.length && caches.every((c, i) =>
+    c.filePath === filePath && c.fftSize === fftSize && c.channel === channels[i]
+    && stftOptionsKey(c.stft) === key);
+}
+
 /**
  * Pull the longest contiguous run of chunk indices containing the queue head
  * (same tier, at most `maxLen` chunks) out of `queue`, mutating it.
@@ -124,11 +175,17 @@ export class MultiTierSpectrogramCache {
   private generationId: number = 0;
 
   constructor(
-    private readonly filePath: string,
-    private readonly fftSize: number,
+    readonly filePath: string,
+    readonly fftSize: number,
     private readonly sampleRate: number,
     private readonly duration: number,
     private readonly onChunkLoaded: () => void,
+    // 0-based channel this cache analyses; null = the mono mixdown. Part of the
+    // cache's identity: chunks for different channels never share a cache.
+    readonly channel: number | null = null,
+    // Window, finest hop and zero-padding (utils/stftOptions). Fixed for the
+    // cache's lifetime like fftSize, so tiers never mix analysis settings.
+    readonly stft: StftOptions = DEFAULT_STFT_OPTIONS,
   ) {
     // Build the ladder for THIS file: its length depends on the duration, so a
     // short clip gets only the fine tiers it can use and a long recording gets
@@ -139,7 +196,7 @@ export class MultiTierSpectrogramCache {
     // `chunk.actualDurationSec` / `chunk.nCols` rather than a reconstructed
     // column spacing, and annotations are stored in absolute seconds and never
     // round-trip through column indices.
-    this.tiers = buildTierLadder(sampleRate, duration, fftSize);
+    this.tiers = buildTierLadder(sampleRate, duration, fftSize * stft.zeroPadding, stft.finestHop);
 
     // Index tiers by their tier number for O(1) lookup.
     this.tierByNumber = new Map(this.tiers.map(t => [t.tier, t]));
@@ -389,6 +446,8 @@ export class MultiTierSpectrogramCache {
       tierConfig.chunkDuration,
       this.fftSize,
       tierConfig.hopSize,
+      this.channel,
+      this.stft,
       result => {
         // Discard if invalidate() was called while this request was in flight.
         if (this.generationId !== generation) return;
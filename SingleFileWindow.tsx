@@ -23,7 +23,11 @@ import { useVideoFrameSource } from './hooks/useVideoFrameSource';
 import { usePlaybackTransport } from './hooks/usePlaybackTransport';
 import { useSpectrogramZoomHotkeys } from './hooks/useSpectrogramZoomHotkeys';
 import { useHotkeys } from './hooks/useHotkeys';
-import { MultiTierSpectrogramCache, swapChunkCache } from './MultiTierSpectrogramCache';
+import { bindAction } from './utils/keymap';
+import { useKeymap } from './utils/keymapStore';
+import { MultiTierSpectrogramCache, swapChunkCaches, createChannelCaches, cachesServe } from './MultiTierSpectrogramCache';
+import { viewChannels } from './utils/channelLanes';
+import { stftOptionsKey, stftOptionsOf } from './utils/stftOptions';
 import { annotationWindow } from './copy/ui';
 import { tooltips } from './copy/tooltips';
 
@@ -87,7 +91,8 @@ export default function SingleFileWindow({ filePath, onClose }: SingleFileWindow
     hideLabels, VIDEO_COLLAPSED_BAR_PX, handleSplitDrag,
   } = usePanelLayout({ splitRatio: DEFAULT_SPLIT_RATIO, leftPanelRatio: 0, leftPanelWidth: 0 });
 
-  const chunkCacheRef = useRef<MultiTierSpectrogramCache | null>(null);
+  const chunkCacheRef = useRef<MultiTierSpectrogramCache[]>([]);
+  const [channelCount, setChannelCount] = useState(1);
   const { cacheVersion, bumpCacheVersion } = useChunkCacheVersion();
 
   const spectrogramRef = useRef<SpectrogramHandle>(null);
@@ -153,29 +158,32 @@ export default function SingleFileWindow({ filePath, onClose }: SingleFileWindow
 
     (async () => {
       try {
-        let sr: number, dur: number;
+        let sr: number, dur: number, channels: number;
         if (engineRef.current) {
           const info = await engineRef.current.loadFile(filePath);
           sr = info.sampleRate;
           dur = info.durationSec;
+          channels = info.channels;
           addLog(`File info: ${dur.toFixed(2)}s, ${sr}Hz, ${info.channels}ch`);
         } else {
           const info = await getFileInfo(filePath);
           sr = info.sample_rate;
           dur = info.duration_secs;
+          channels = info.channels;
           addLog(`File info: ${dur.toFixed(2)}s, ${sr}Hz, ${info.channels}ch`);
         }
         if (cancelled) return;
         setSampleRate(sr);
+        setChannelCount(channels);
         if (dur > 0) setDuration(dur);
         setSettings(s => s.maxFreq > sr / 2 ? { ...s, maxFreq: sr / 2 } : s);
         const effectiveZoom = (dur > 0 && dur < zoomSecRef.current) ? Math.max(MIN_ZOOM_SEC, dur) : zoomSecRef.current;
         if (effectiveZoom !== zoomSecRef.current) setZoomSec(effectiveZoom);
 
-        const cache = new MultiTierSpectrogramCache(filePath, settings.fftSize, sr, dur, bumpCacheVersion);
-        swapChunkCache(chunkCacheRef, cache);
+        const caches = createChannelCaches(filePath, settings.fftSize, sr, dur, viewChannels(settings.channelView, channels), bumpCacheVersion, stftOptionsOf(settings));
+        swapChunkCaches(chunkCacheRef, caches);
         bumpCacheVersion();
-        cache.prefetchViewport(0, effectiveZoom, cache.selectTier(effectiveZoom, 1200).tier);
+        for (const cache of caches) cache.prefetchViewport(0, effectiveZoom, cache.selectTier(effectiveZoom, 1200).tier);
         addLog('Spectrogram loading...');
       } catch (err) {
         if (cancelled) return;
@@ -192,15 +200,20 @@ export default function SingleFileWindow({ filePath, onClose }: SingleFileWindow
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [filePath]);
 
-  // Rebuild cache when FFT size changes.
+  // Rebuild the caches when the FFT size, analysis options or channel view change.
+  const viewedChannels = viewChannels(settings.channelView, channelCount);
+  const viewedChannelsKey = viewedChannels.join(',');
+  const stft = stftOptionsOf(settings);
+  const stftKey = stftOptionsKey(stft);
   useEffect(() => {
     if (!sampleRate || !duration) return;
-    const cache = new MultiTierSpectrogramCache(filePath, settings.fftSize, sampleRate, duration, bumpCacheVersion);
-    swapChunkCache(chunkCacheRef, cache);
+    if (cachesServe(chunkCacheRef.current, filePath, settings.fftSize, viewedChannels, stft)) return;
+    const caches = createChannelCaches(filePath, settings.fftSize, sampleRate, duration, viewedChannels, bumpCacheVersion, stft);
+    swapChunkCaches(chunkCacheRef, caches);
     bumpCacheVersion();
-    cache.prefetchViewport(0, zoomSec, cache.selectTier(zoomSec, 1200).tier);
+    for (const cache of caches) cache.prefetchViewport(0, zoomSec, cache.selectTier(zoomSec, 1200).tier);
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [settings.fftSize]);
+  }, [settings.fftSize, viewedChannelsKey, stftKey]);
 
   const handleSelectionChange = useCallback((s: Selection | null) => {
     setSelection(s);
@@ -226,11 +239,12 @@ export default function SingleFileWindow({ filePath, onClose }: SingleFileWindow
   // undo/redo) registers its own hotkeys inside the hook that owns its
   // state/handlers — see usePlaybackTransport, useSpectrogramZoomHotkeys, and
   // useBandPassFilter above. What's left here is specific to this window.
+  const keymap = useKeymap();
   useHotkeys([
     // Help guide — also fires inside text inputs, since help is universal.
-    { key: 'F1', allowInInput: true, handler: () => showHelpPage('single-file') },
-    { key: 'a', mods: ['mod'], handler: () => { if (duration > 0) handleSelectionChange({ start: 0, end: duration }); } },
-    { key: 'Escape', allowInInput: true, handler: () => {
+    ...bindAction(keymap, 'openHelp', () => showHelpPage('single-file'), { allowInInput: true }),
+    ...bindAction(keymap, 'selectAll', () => { if (duration > 0) handleSelectionChange({ start: 0, end: duration }); }),
+    ...bindAction(keymap, 'undoLayer', () => {
         const top = activationStack.popTop();
         switch (top) {
           case 'selection':
@@ -248,7 +262,7 @@ export default function SingleFileWindow({ filePath, onClose }: SingleFileWindow
           default:
             break;
         }
-    }},
+    }, { allowInInput: true }),
   ]);
 
   const liveSpeedRange = speedRangeFor(isAudioTrack, videoMode);
@@ -334,6 +348,9 @@ export default function SingleFileWindow({ filePath, onClose }: SingleFileWindow
       openToolSettings: () => {},
       openMassRename: () => {},
       openFindLabel: () => {},
+      openExportAnnotations: () => {},
+      openAnnotationStats: () => {},
+      openLabelSubset: () => {},
       editTool: () => {},
       requestDeleteTool: () => {},
       playExample: () => {},
@@ -428,7 +445,7 @@ export default function SingleFileWindow({ filePath, onClose }: SingleFileWindow
         <div className="relative flex-1 min-h-0 bg-slate-900 border-t border-slate-700 flex flex-col">
           {showSettings && (
             <div className="absolute top-10 right-4 z-50 bg-slate-800 border border-slate-600 shadow-xl rounded-lg w-72 max-h-[calc(100%-4rem)] overflow-y-auto custom-scrollbar flex flex-col">
-              <SpectrogramSettingsPanel settings={settings} onChange={patch => setSettings(s => ({ ...s, ...patch }))} />
+              <SpectrogramSettingsPanel settings={settings} channelCount={channelCount} onChange={patch => setSettings(s => ({ ...s, ...patch }))} />
             </div>
           )}
 
@@ -480,7 +497,8 @@ export default function SingleFileWindow({ filePath, onClose }: SingleFileWindow
           <div className="flex-1 relative overflow-hidden">
             <Spectrogram
               ref={spectrogramRef}
-              chunkCache={chunkCacheRef.current}
+              chunkCaches={chunkCacheRef.current}
+              channelCount={channelCount}
               sampleRate={sampleRate}
               cacheVersion={cacheVersion}
               currentTimeStore={currentTimeStoreRef.current}
@@ -0,0 +1,272 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { GripHorizontal, RefreshCw } from 'lucide-react';
+import { Annotation } from '../types';
+import { AGREEMENT_COMMIT_LIMIT, MIN_AGREEMENT_PANEL_HEIGHT, MAX_AGREEMENT_PANEL_HEIGHT } from '../constants';
+import { clamp } from '../utils/helpers';
+import {
+  AgreementSource, ComparisonLane, DEFAULT_MATCH_OPTIONS, LabelAgreement, MatchCriterion, MatchOptions,
+  compareAnnotationSets, comparisonLanesFor, loadAgreementSource,
+} from '../utils/annotationAgreement';
+import { AnnotationCommit, listAnnotationCommits, openDirectoryDialog } from '../utils/tauriCommands';
+import { agreementPanel as copy } from '../copy/ui';
+
+interface AgreementPanelProps {
+  projectDir: string;
+  annotationDir: string;
+  /** Whether the project syncs with git; only then are commits offered as sets. */
+  gitSync: boolean;
+  /** The open track and its live annotations, which may be ahead of its file. */
+  trackPath: string | null;
+  annotations: Annotation[];
+  getIdent: (trackFilePath: string) => string | null;
+  /** The open track's lanes in source time, or null when none are shown. */
+  onLanesChange: (lanes: ComparisonLane[] | null) => void;
+  onError: (message: string) => void;
+  height: number;
+  onHeightChange: (height: number) => void;
+}
+
+// Lane colours for sets A and B.
+const LANE_COLORS: [string, string] = ['#38bdf8', '#f59e0b'];
+
+// <select> values: the project's own annotation directory, another folder, or
+// the project's annotations at a commit.
+const WORKING = 'working';
+const PICK_FOLDER = 'pick';
+const sourceValue = (source: AgreementSource, annotationDir: string) =>
+  source.kind === 'commit' ? `commit:${source.id}`
+    : source.path === annotationDir ? WORKING : `dir:${source.path}`;
+const parseSourceValue = (value: string, annotationDir: string): AgreementSource =>
+  value.startsWith('commit:') ? { kind: 'commit', id: value.slice('commit:'.length) }
+    : value.startsWith('dir:') ? { kind: 'directory', path: value.slice('dir:'.length) }
+      : { kind: 'directory', path: annotationDir };
+
+// Docked below the spectrogram like the review panel: compares two annotation
+// sets over the whole project (utils/annotationAgreement.ts) — per-label
+// precision, recall and F1 with set A as the reference, and Cohen's kappa —
+// and can draw both sets for the open track as lanes along the bottom of the
+// spectrogram. The project's own set is compared from its live annotations
+// for the open track, so edits count at once.
+export default function AgreementPanel({
+  projectDir, annotationDir, gitSync, trackPath, annotations, getIdent, onLanesChange, onError, height, onHeightChange,
+}: AgreementPanelProps) {
+  const [sources, setSources] = useState<[AgreementSource, AgreementSource]>([
+    { kind: 'directory', path: annotationDir },
+    { kind: 'directory', path: annotationDir },
+  ]);
+  const [folders, setFolders] = useState<string[]>([]);
+  const [commits, setCommits] = useState<AnnotationCommit[]>([]);
+  const [sets, setSets] = useState<[Map<string, Annotation[]>, Map<string, Annotation[]>] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [loadToken, setLoadToken] = useState(0);
+  const [options, setOptions] = useState<MatchOptions>(DEFAULT_MATCH_OPTIONS);
+  const [showLanes, setShowLanes] = useState(true);
+
+  useEffect(() => {
+    if (!gitSync) return;
+    let cancelled = false;
+    listAnnotationCommits(projectDir, AGREEMENT_COMMIT_LIMIT)
+      .then(list => { if (!cancelled) setCommits(list); })
+      .catch(err => onError(copy.loadFailed(String(err))));
+    return () => { cancelled = true; };
+  }, [gitSync, projectDir, loadToken, onError]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    Promise.all(sources.map(s => loadAgreementSource(s, projectDir, annotationDir)))
+      .then(([a, b]) => { if (!cancelled) setSets([a, b]); })
+      .catch(err => {
+        if (cancelled) return;
+        setSets(null);
+        onError(copy.loadFailed(String(err)));
+      })
+      .finally(() => { if (!cancelled) setLoading(false); });
+    return () => { cancelled = true; };
+  }, [sources, projectDir, annotationDir, loadToken, onError]);
+
+  const openIdent = trackPath ? getIdent(trackPath) : null;
+
+  // Swap the open track's file copy for its live annotations in any side that
+  // reads the project's own directory.
+  const liveSets = useMemo(() => {
+    if (!sets || !openIdent) return sets;
+    const withLive = (set: Map<string, Annotation[]>, source: AgreementSource) => {
+      if (source.kind !== 'directory' || source.path !== annotationDir) return set;
+      if (!set.has(openIdent) && annotations.length === 0) return set;
+      return new Map(set).set(openIdent, annotations);
+    };
+    return [withLive(sets[0], sources[0]), withLive(sets[1], sources[1])] as const;
+  }, [sets, sources, openIdent, annotations, annotationDir]);
+
+  const report = useMemo(
+    () => (liveSets ? compareAnnotationSets(liveSets[0], liveSets[1], options) : null),
+    [liveSets, options],
+  );
+
+  const lanes = useMemo(
+    () => (liveSets && openIdent && showLanes
+      ? comparisonLanesFor(openIdent, liveSets[0], liveSets[1], options, [copy.setA, copy.setB], LANE_COLORS)
+      : null),
+    [liveSets, openIdent, showLanes, options],
+  );
+  useEffect(() => { onLanesChange(lanes); }, [lanes, onLanesChange]);
+  useEffect(() => () => onLanesChange(null), [onLanesChange]);
+
+  const chooseSource = async (side: 0 | 1, value: string) => {
+    let source: AgreementSource;
+    if (value === PICK_FOLDER) {
+      const dir = await openDirectoryDialog();
+      if (!dir) return;
+      setFolders(prev => (prev.includes(dir) ? prev : [...prev, dir]));
+      source = { kind: 'directory', path: dir };
+    } else {
+      source = parseSourceValue(value, annotationDir);
+    }
+    setSources(prev => (side === 0 ? [source, prev[1]] : [prev[0], source]));
+  };
+
+  const handleResizeDown = (e: React.MouseEvent) => {
+    e.preventDefault();
+    const startY = e.clientY;
+    const startHeight = height;
+    const onMove = (ev: MouseEvent) => {
+      // Drag up → taller.
+      onHeightChange(clamp(startHeight + (startY - ev.clientY), MIN_AGREEMENT_PANEL_HEIGHT, MAX_AGREEMENT_PANEL_HEIGHT));
+    };
+    const onUp = () => {
+      window.removeEventListener('mousemove', onMove);
+      window.removeEventListener('mouseup', onUp);
+    };
+    window.addEventListener('mousemove', onMove);
+    window.addEventListener('mouseup', onUp);
+  };
+
+  const score = (value: number | null) => (value === null ? copy.notApplicable : copy.score(value));
+  const row = (key: string, l: LabelAgreement, label: string, className: string) => (
+    <tr key={key} className={className}>
+      <td className="px-2 py-0.5 w-full truncate">{label}</td>
+      <td className="px-2 py-0.5 text-right">{l.countA}</td>
+      <td className="px-2 py-0.5 text-right">{l.countB}</td>
+      <td className="px-2 py-0.5 text-right">{l.matched}</td>
+      <td className="px-2 py-0.5 text-right">{score(l.precision)}</td>
+      <td className="px-2 py-0.5 text-right">{score(l.recall)}</td>
+      <td className="px-2 py-0.5 text-right">{score(l.f1)}</td>
+    </tr>
+  );
+  const sourceSelect = (side: 0 | 1) => (
+    <label className="flex items-center gap-1 min-w-0">
+      <span className="font-bold" style={{ color: LANE_COLORS[side] }}>{side === 0 ? copy.setA : copy.setB}</span>
+      <select
+        value={sourceValue(sources[side], annotationDir)}
+        onChange={e => { chooseSource(side, e.target.value); }}
+        className="max-w-56 bg-slate-800 border border-slate-600 rounded px-1 text-white focus:outline-none"
+      >
+        <option value={WORKING}>{copy.workingCopy}</option>
+        {folders.length > 0 && (
+          <optgroup label={copy.foldersGroup}>
+            {folders.map(f => <option key={f} value={`dir:${f}`}>{f}</option>)}
+          </optgroup>
+        )}
+        {commits.length > 0 && (
+          <optgroup label={copy.commitsGroup}>
+            {commits.map(c => (
+              <option key={c.id} value={`commit:${c.id}`}>
+                {copy.commit(c.summary, c.author, new Date(c.time * 1000).toLocaleString())}
+              </option>
+            ))}
+          </optgroup>
+        )}
+        <option value={PICK_FOLDER}>{copy.chooseFolder}</option>
+      </select>
+    </label>
+  );
+
+  return (
+    <div
+      className="flex-none bg-slate-900 border-t border-slate-700 flex flex-col relative"
+      style={{ height }}
+      data-help-target="agreement-panel"
+    >
+      {/* Top-edge resize handle */}
+      <div
+        className="h-2 bg-slate-800 border-b border-slate-700 cursor-row-resize hover:bg-[#e65161]/50 transition-colors flex justify-center items-center flex-none"
+        onMouseDown={handleResizeDown}
+      >
+        <GripHorizontal size={12} className="text-slate-600" />
+      </div>
+
+      <div className="flex items-center gap-2 px-2 py-1 text-xs text-slate-400 border-b border-slate-800 flex-none flex-wrap">
+        {sourceSelect(0)}
+        {sourceSelect(1)}
+        <label className="flex items-center gap-1">
+          {copy.matchBy}
+          <select
+            value={options.criterion}
+            onChange={e => setOptions(o => ({ ...o, criterion: e.target.value as MatchCriterion }))}
+            className="bg-slate-800 border border-slate-600 rounded px-1 text-white focus:outline-none"
+          >
+            <option value="iou">{copy.matchIou}</option>
+            <option value="onset">{copy.matchOnset}</option>
+          </select>
+          <input
+            type="number"
+            min={options.criterion === 'iou' ? 0.05 : 0}
+            max={options.criterion === 'iou' ? 1 : undefined}
+            step={0.05}
+            value={options.criterion === 'iou' ? options.minIou : options.onsetTolerance}
+            onChange={e => {
+              const v = parseFloat(e.target.value);
+              if (!Number.isFinite(v) || v < 0) return;
+              setOptions(o => (o.criterion === 'iou' ? { ...o, minIou: clamp(v, 0.05, 1) } : { ...o, onsetTolerance: v }));
+            }}
+            className="w-14 bg-slate-800 border border-slate-600 rounded px-1 text-white focus:outline-none"
+          />
+        </label>
+        <label className="flex items-center gap-1">
+          <input type="checkbox" checked={showLanes} onChange={e => setShowLanes(e.target.checked)} />
+          {copy.showLanes}
+        </label>
+        <button
+          onClick={() => setLoadToken(n => n + 1)}
+          className="ml-auto p-1 rounded hover:bg-slate-700 hover:text-white"
+          data-tooltip={copy.refresh}
+        >
+          <RefreshCw size={12} className={loading ? 'animate-spin' : ''} />
+        </button>
+      </div>
+
+      <div className="flex-1 min-h-0 overflow-y-auto custom-scrollbar">
+        {!report || report.tracks === 0 ? (
+          <div className="h-full flex items-center justify-center">
+            <span className="text-slate-600 text-xs">{loading || !report ? copy.loading : copy.noOverlap}</span>
+          </div>
+        ) : (
+          <>
+            <div className="flex items-center gap-3 px-2 py-1 text-xs text-slate-400">
+              <span>{copy.summary(report.tracks, report.judgements)}</span>
+              <span className="text-white">{copy.kappa(report.kappa)}</span>
+            </div>
+            <table className="w-full text-xs text-slate-300 tabular-nums">
+              <thead className="sticky top-0 bg-slate-900 text-slate-400">
+                <tr>
+                  <th className="px-2 py-1 font-medium text-left">{copy.labelHeader}</th>
+                  <th className="px-2 py-1 font-medium text-right">{copy.countAHeader}</th>
+                  <th className="px-2 py-1 font-medium text-right">{copy.countBHeader}</th>
+                  <th className="px-2 py-1 font-medium text-right">{copy.matchedHeader}</th>
+                  <th className="px-2 py-1 font-medium text-right">{copy.precisionHeader}</th>
+                  <th className="px-2 py-1 font-medium text-right">{copy.recallHeader}</th>
+                  <th className="px-2 py-1 font-medium text-right">{copy.f1Header}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.labels.map(l => row(`label:${l.label}`, l, l.label, 'hover:bg-slate-800'))}
+                {row('overall', report.overall, copy.overall, 'border-t border-slate-700 font-medium text-white')}
+              </tbody>
+            </table>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
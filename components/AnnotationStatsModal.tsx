@@ -0,0 +1,166 @@
+import React, { useEffect, useState } from 'react';
+import { annotationStatsModal as copy } from '../copy/ui';
+import { Annotation } from '../types';
+import { formatTime } from '../utils/helpers';
+import { AnnotationStats, GroupProgress, collectAnnotationStats } from '../utils/annotationStats';
+import SettingsModalShell from './SettingsModalShell';
+
+interface Props {
+  annotationDir: string;
+  mediaRoot: string;
+  allTracks: string[];
+  // The open track's in-memory annotations, which may be ahead of its file.
+  annotations: Annotation[];
+  ident: string | null;
+  filenameTimeFormat?: string;
+  onClose: () => void;
+  onExport: (stats: AnnotationStats) => void;
+}
+
+type Tab = 'labels' | 'folders' | 'days';
+
+const cellClass = 'px-2 py-1 whitespace-nowrap';
+const numClass = `${cellClass} text-right tabular-nums`;
+
+// Fraction bar for "n of m annotated".
+function ProgressBar({ done, total }: { done: number; total: number }) {
+  const pct = total > 0 ? (done / total) * 100 : 0;
+  return (
+    <div className="flex items-center gap-2">
+      <div className="flex-1 h-1.5 bg-gray-700 rounded-full overflow-hidden min-w-16">
+        <div className="h-full bg-blue-500" style={{ width: `${pct}%` }} />
+      </div>
+      <span className="tabular-nums text-gray-400 w-20 text-right">{done}/{total}</span>
+    </div>
+  );
+}
+
+function ProgressTable({ groups, nameHeader, nameOf }: { groups: GroupProgress[]; nameHeader: string; nameOf: (g: GroupProgress) => string }) {
+  return (
+    <table className="w-full text-xs text-gray-300">
+      <thead className="text-gray-400">
+        <tr>
+          <th className={`${cellClass} text-left font-medium`}>{nameHeader}</th>
+          <th className={`${cellClass} text-left font-medium w-1/2`}>{copy.progressHeader}</th>
+          <th className={`${numClass} font-medium`}>{copy.countHeader}</th>
+        </tr>
+      </thead>
+      <tbody>
+        {groups.map(g => (
+          <tr key={g.name} className="border-t border-gray-800">
+            <td className={`${cellClass} max-w-40 truncate`}>{nameOf(g)}</td>
+            <td className={cellClass}><ProgressBar done={g.annotatedTracks} total={g.tracks} /></td>
+            <td className={numClass}>{g.annotations.toLocaleString()}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+// Labelling-campaign overview: overall track progress and annotation totals,
+// then per-label counts, per-folder progress and (with a filename time format)
+// per-day progress, one tab each. Computed once on open from the files on
+// disk, with the open track's in-memory set standing in for its file.
+export default function AnnotationStatsModal({
+  annotationDir, mediaRoot, allTracks, annotations, ident, filenameTimeFormat, onClose, onExport,
+}: Props) {
+  const [stats, setStats] = useState<AnnotationStats | null>(null);
+  const [error, setError] = useState('');
+  const [tab, setTab] = useState<Tab>('labels');
+
+  useEffect(() => {
+    let cancelled = false;
+    collectAnnotationStats({
+      annotationDir,
+      mediaRoot,
+      mediaFiles: allTracks,
+      filenameTimeFormat,
+      live: ident ? { ident, annotations } : null,
+    })
+      .then(s => { if (!cancelled) setStats(s); })
+      .catch(err => { if (!cancelled) setError(`Statistics failed: ${String(err)}`); });
+    return () => { cancelled = true; };
+    // Snapshot on open: later edits to the open track don't re-read the project.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [annotationDir, mediaRoot, allTracks, filenameTimeFormat]);
+
+  return (
+    <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50">
+      <SettingsModalShell
+        title={copy.title}
+        onClose={onClose}
+        tabs={[
+          { label: copy.labelsTab, active: tab === 'labels', onClick: () => setTab('labels') },
+          { label: copy.foldersTab, active: tab === 'folders', onClick: () => setTab('folders') },
+          { label: copy.daysTab, active: tab === 'days', onClick: () => setTab('days') },
+        ]}
+        footer={
+          <>
+            <button onClick={onClose} className="px-4 py-2 text-gray-400 hover:text-white transition-colors text-sm">
+              {copy.closeButton}
+            </button>
+            <button
+              onClick={() => stats && onExport(stats)}
+              disabled={!stats}
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-500 disabled:opacity-50 text-white rounded-lg text-sm transition-colors"
+            >
+              {copy.exportButton}
+            </button>
+          </>
+        }
+      >
+        {!stats && !error && <p className="text-gray-500 text-sm">{copy.scanningLabel}</p>}
+        {error && <p className="text-red-400 text-sm">{error}</p>}
+
+        {stats && (
+          <>
+            <div className="flex flex-col gap-1.5 text-sm text-gray-300">
+              <span>{copy.trackProgress(stats.annotatedTracks, stats.tracks)}</span>
+              <ProgressBar done={stats.annotatedTracks} total={stats.tracks} />
+              <span className="text-gray-400 text-xs">{copy.annotationTotal(stats.totalAnnotations, formatTime(stats.totalDuration, 1))}</span>
+            </div>
+
+            {tab === 'labels' && (stats.labels.length === 0 ? (
+              <p className="text-gray-500 text-sm">{copy.noLabels}</p>
+            ) : (
+              <table className="w-full text-xs text-gray-300">
+                <thead className="text-gray-400">
+                  <tr>
+                    <th className={`${cellClass} text-left font-medium`}>{copy.labelHeader}</th>
+                    <th className={`${numClass} font-medium`}>{copy.countHeader}</th>
+                    <th className={`${numClass} font-medium`}>{copy.tracksHeader}</th>
+                    <th className={`${numClass} font-medium`}>{copy.durationHeader}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {stats.labels.map(l => (
+                    <tr key={l.label} className="border-t border-gray-800">
+                      <td className={`${cellClass} max-w-48 truncate`}>{l.label}</td>
+                      <td className={numClass}>{l.count.toLocaleString()}</td>
+                      <td className={numClass}>{l.tracks.toLocaleString()}</td>
+                      <td className={numClass}>{formatTime(l.totalDuration, 1)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            ))}
+
+            {tab === 'folders' && (
+              <ProgressTable groups={stats.folders} nameHeader={copy.folderHeader} nameOf={g => g.name || copy.rootFolder} />
+            )}
+
+            {tab === 'days' && (stats.days === null ? (
+              <p className="text-gray-500 text-sm">{copy.noDays}</p>
+            ) : (
+              <>
+                <ProgressTable groups={stats.days} nameHeader={copy.dayHeader} nameOf={g => g.name} />
+                {stats.undatedTracks > 0 && <p className="text-gray-500 text-xs">{copy.undatedTracks(stats.undatedTracks)}</p>}
+              </>
+            ))}
+          </>
+        )}
+      </SettingsModalShell>
+    </div>
+  );
+}
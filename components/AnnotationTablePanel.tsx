@@ -0,0 +1,238 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { GripHorizontal, ChevronUp, ChevronDown, Trash2 } from 'lucide-react';
+import { Annotation, AnnotationTool } from '../types';
+import { MIN_ANNOTATION_TABLE_PANEL_HEIGHT, MAX_ANNOTATION_TABLE_PANEL_HEIGHT } from '../constants';
+import { clamp, formatSeconds, formatTimeForUnit, TimeDisplayUnit } from '../utils/helpers';
+import type { DateTimeFormat } from '../utils/datetimeDisplay';
+import {
+  AnnotationSort, AnnotationSortKey, sortAnnotations, nextSort, clickSelection, relabelAnnotation,
+} from '../utils/annotationList';
+import { annotationTablePanel as copy } from '../copy/ui';
+import { tooltips } from '../copy/tooltips';
+
+interface AnnotationTablePanelProps {
+  /** The track's annotations on the source (file) time axis. */
+  annotations: Annotation[];
+  annotationTools: AnnotationTool[];
+  selectedAnnotationId: string | null;
+  timeDisplayUnit: TimeDisplayUnit;
+  trackStartDate: Date | null;
+  dateTimeFormat: DateTimeFormat;
+  height: number;
+  onHeightChange: (height: number) => void;
+  /** Row click: select the annotation and move the playhead to it. */
+  onGoToAnnotation: (annotation: Annotation) => void;
+  /** Every edit (relabel, delete) goes through the undoable commit. */
+  onAnnotationsCommit: (annotations: Annotation[]) => void;
+}
+
+const TIME_DECIMALS = 2;
+
+// Docked below the spectrogram like the buzzdetect panel: every annotation on
+// the open track as a sortable table. Clicking a row seeks to it (Ctrl/Cmd and
+// Shift extend a multi-selection), double-clicking a label edits it in place,
+// and Delete removes every selected row. Times are the file's own, whatever
+// subset is applied, and follow the toolbar's time unit.
+export default function AnnotationTablePanel({
+  annotations, annotationTools, selectedAnnotationId, timeDisplayUnit, trackStartDate, dateTimeFormat,
+  height, onHeightChange, onGoToAnnotation, onAnnotationsCommit,
+}: AnnotationTablePanelProps) {
+  const [sort, setSort] = useState<AnnotationSort>({ key: 'start', descending: false });
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [anchorId, setAnchorId] = useState<string | null>(null);
+  const [editing, setEditing] = useState<{ id: string; text: string } | null>(null);
+  // Mirror of `editing` so Enter's commit and the blur that follows it (the
+  // input unmounts) can't both commit.
+  const editingRef = useRef(editing);
+  editingRef.current = editing;
+  const rowRefs = useRef<Record<string, HTMLTableRowElement | null>>({});
+
+  const rows = useMemo(() => sortAnnotations(annotations, sort), [annotations, sort]);
+
+  // Drop selections whose annotation is gone (deleted here, on the
+  // spectrogram, by undo, or by a track switch).
+  useEffect(() => {
+    const ids = new Set(annotations.map(a => a.id));
+    setSelectedIds(prev => {
+      const kept = [...prev].filter(id => ids.has(id));
+      return kept.length === prev.size ? prev : new Set(kept);
+    });
+  }, [annotations]);
+
+  // Follow a selection made on the spectrogram: a single annotation selected
+  // there becomes the table's selection and is scrolled into view.
+  useEffect(() => {
+    if (!selectedAnnotationId) return;
+    setSelectedIds(prev => (prev.has(selectedAnnotationId) ? prev : new Set([selectedAnnotationId])));
+    setAnchorId(prev => prev ?? selectedAnnotationId);
+    rowRefs.current[selectedAnnotationId]?.scrollIntoView({ block: 'nearest' });
+  }, [selectedAnnotationId]);
+
+  const formatTime = (t: number) => formatTimeForUnit(t, timeDisplayUnit, TIME_DECIMALS, trackStartDate, dateTimeFormat);
+
+  const handleRowClick = (e: React.MouseEvent, annotation: Annotation) => {
+    const next = clickSelection(rows.map(r => r.id), selectedIds, anchorId, annotation.id, {
+      range: e.shiftKey,
+      toggle: e.ctrlKey || e.metaKey,
+    });
+    setSelectedIds(next.selected);
+    setAnchorId(next.anchorId);
+    if (next.selected.has(annotation.id)) onGoToAnnotation(annotation);
+  };
+
+  const deleteSelected = () => {
+    if (selectedIds.size === 0) return;
+    onAnnotationsCommit(annotations.filter(a => !selectedIds.has(a.id)));
+    setSelectedIds(new Set());
+    setAnchorId(null);
+  };
+
+  const commitEdit = () => {
+    const edit = editingRef.current;
+    if (!edit) return;
+    editingRef.current = null;
+    setEditing(null);
+    const text = edit.text.trim();
+    const current = annotations.find(a => a.id === edit.id);
+    // An emptied label is a cancelled edit, not a deletion.
+    if (!current || !text || text === current.text) return;
+    onAnnotationsCommit(annotations.map(a => (a.id === edit.id ? relabelAnnotation(a, text, annotationTools) : a)));
+  };
+
+  const handleResizeDown = (e: React.MouseEvent) => {
+    e.preventDefault();
+    const startY = e.clientY;
+    const startHeight = height;
+    const onMove = (ev: MouseEvent) => {
+      // Drag up → taller.
+      onHeightChange(clamp(startHeight + (startY - ev.clientY), MIN_ANNOTATION_TABLE_PANEL_HEIGHT, MAX_ANNOTATION_TABLE_PANEL_HEIGHT));
+    };
+    const onUp = () => {
+      window.removeEventListener('mousemove', onMove);
+      window.removeEventListener('mouseup', onUp);
+    };
+    window.addEventListener('mousemove', onMove);
+    window.addEventListener('mouseup', onUp);
+  };
+
+  const header = (key: AnnotationSortKey, label: string, align: 'left' | 'right') => (
+    <th
+      className={`px-2 py-1 font-medium cursor-pointer select-none hover:text-white ${align === 'right' ? 'text-right' : 'text-left'}`}
+      onClick={() => setSort(s => nextSort(s, key))}
+    >
+      <span className={`inline-flex items-center gap-0.5 ${align === 'right' ? 'flex-row-reverse' : ''}`}>
+        {label}
+        {sort.key === key && (sort.descending ? <ChevronDown size={12} /> : <ChevronUp size={12} />)}
+      </span>
+    </th>
+  );
+
+  return (
+    <div
+      className="flex-none bg-slate-900 border-t border-slate-700 flex flex-col relative focus:outline-none"
+      style={{ height }}
+      tabIndex={0}
+      data-help-target="annotation-table"
+      onKeyDown={(e) => {
+        // Delete acts on the table's rows here rather than reaching the
+        // window's Delete hotkey, which only knows the single selected
+        // annotation. Other keys (space, tool keys) pass through as usual.
+        if (editing) return;
+        if (e.key === 'Delete' || e.key === 'Backspace') {
+          e.preventDefault();
+          e.stopPropagation();
+          deleteSelected();
+        }
+      }}
+    >
+      {/* Top-edge resize handle */}
+      <div
+        className="h-2 bg-slate-800 border-b border-slate-700 cursor-row-resize hover:bg-[#e65161]/50 transition-colors flex justify-center items-center flex-none"
+        onMouseDown={handleResizeDown}
+      >
+        <GripHorizontal size={12} className="text-slate-600" />
+      </div>
+
+      <div className="flex items-center justify-between px-2 py-1 text-xs text-slate-400 border-b border-slate-800 flex-none">
+        <span>{copy.count(annotations.length, selectedIds.size)}</span>
+        <button
+          onClick={deleteSelected}
+          disabled={selectedIds.size === 0}
+          className="flex items-center gap-1 px-1.5 py-0.5 rounded hover:bg-slate-700 hover:text-red-400 disabled:opacity-40 disabled:hover:bg-transparent disabled:hover:text-slate-400 transition-colors"
+          data-tooltip={tooltips.deleteSelectedAnnotations}
+        >
+          <Trash2 size={12} />
+          {copy.deleteButton(selectedIds.size)}
+        </button>
+      </div>
+
+      <div className="flex-1 min-h-0 overflow-y-auto custom-scrollbar">
+        {rows.length === 0 ? (
+          <div className="h-full flex items-center justify-center">
+            <span className="text-slate-600 text-xs">{copy.empty}</span>
+          </div>
+        ) : (
+          <table className="w-full text-xs text-slate-300 tabular-nums">
+            <thead className="sticky top-0 bg-slate-900 text-slate-400">
+              <tr>
+                {header('start', copy.startHeader, 'left')}
+                {header('end', copy.endHeader, 'left')}
+                {header('duration', copy.durationHeader, 'right')}
+                {header('label', copy.labelHeader, 'left')}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(a => {
+                const selected = selectedIds.has(a.id);
+                return (
+                  <tr
+                    key={a.id}
+                    ref={el => { rowRefs.current[a.id] = el; }}
+                    className={`cursor-pointer ${selected ? 'bg-blue-600/30' : 'hover:bg-slate-800'}`}
+                    onClick={(e) => handleRowClick(e, a)}
+                  >
+                    <td className="px-2 py-0.5 whitespace-nowrap">{formatTime(a.start)}</td>
+                    <td className="px-2 py-0.5 whitespace-nowrap">{formatTime(a.end)}</td>
+                    <td className="px-2 py-0.5 whitespace-nowrap text-right">{formatSeconds(a.end - a.start, TIME_DECIMALS)}</td>
+                    <td
+                      className="px-2 py-0.5 w-full"
+                      onDoubleClick={(e) => {
+                        e.stopPropagation();
+                        setEditing({ id: a.id, text: a.text });
+                      }}
+                    >
+                      <span className="flex items-center gap-1.5 min-w-0">
+                        <span className="w-2 h-2 rounded-full flex-none" style={{ backgroundColor: a.color || '#ffffff' }} />
+                        {editing?.id === a.id ? (
+                          <input
+                            type="text"
+                            autoFocus
+                            value={editing.text}
+                            onChange={e => setEditing({ id: a.id, text: e.target.value })}
+                            onClick={e => e.stopPropagation()}
+                            onKeyDown={(e) => {
+                              e.stopPropagation();
+                              if (e.key === 'Enter') commitEdit();
+                              if (e.key === 'Escape') { editingRef.current = null; setEditing(null); }
+                            }}
+                            onBlur={commitEdit}
+                            className="flex-1 min-w-0 bg-slate-800 border border-slate-600 rounded px-1 text-white focus:outline-none focus:border-blue-500"
+                            autoCorrect="off"
+                            autoComplete="off"
+                            spellCheck={false}
+                          />
+                        ) : (
+                          <span className="truncate">{a.text}</span>
+                        )}
+                      </span>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,11 @@
 import React, { useEffect, useMemo, useRef, useState } from 'react';
-import { Settings, Trash2, Play, Square, TextCursorInput, Search } from 'lucide-react';
+import { Settings, Trash2, Play, Square, TextCursorInput, Search, Download, BarChart3, ListFilter } from 'lucide-react';
 import { AnnotationTool } from '../types';
 import ToolCell from './ToolCell';
+import { compareToolHotkeys, formatToolHotkey } from '../utils/annotationTools';
+import { formatChord } from '../utils/keymap';
+import { useKeymap } from '../utils/keymapStore';
+import { formatModKey } from '../utils/platform';
 import { tooltips } from '../copy/tooltips';
 import { annotationToolsPanel as copy } from '../copy/ui';
 
@@ -20,6 +24,9 @@ interface AnnotationToolsPanelProps {
   onOpenSettings: () => void;
   onOpenMassRename: () => void;
   onOpenFindLabel: () => void;
+  onOpenExportAnnotations: () => void;
+  onOpenAnnotationStats: () => void;
+  onOpenLabelSubset: () => void;
   onEditTool: (toolIndex: number) => void;
   onRequestDeleteTool: (toolIndex: number) => void;
   // Example-clip playback: id of the tool currently auditioning (null = none),
@@ -37,6 +44,9 @@ function AnnotationToolsPanel({
   onOpenSettings,
   onOpenMassRename,
   onOpenFindLabel,
+  onOpenExportAnnotations,
+  onOpenAnnotationStats,
+  onOpenLabelSubset,
   onEditTool,
   onRequestDeleteTool,
   playingExampleToolId,
@@ -44,12 +54,14 @@ function AnnotationToolsPanel({
   onShowExamples,
 }: AnnotationToolsPanelProps) {
   const custom = annotationTools[0];
-  // Defined (non-custom, keyed) tools sorted by key — memoized so this doesn't
-  // re-run on every render.
+  // Defined (non-custom, keyed) tools in slot order (bank by bank) — memoized
+  // so this doesn't re-run on every render.
   const definedTools = useMemo(
-    () => annotationTools.slice(1).filter(t => t.key !== null).sort((a, b) => Number(a.key) - Number(b.key)),
+    () => annotationTools.slice(1).filter(t => t.key !== null).sort((a, b) => compareToolHotkeys(a.key!, b.key!)),
     [annotationTools],
   );
+  // Select mode's key follows the user's keymap.
+  const selectChord = useKeymap().selectMode[0];
   const [contextMenu, setContextMenu] = useState<ContextMenuState | null>(null);
   const [hoveredToolKey, setHoveredToolKey] = useState<string | null>(null);
   const menuRef = useRef<HTMLDivElement>(null);
@@ -97,6 +109,27 @@ function AnnotationToolsPanel({
           >
             <TextCursorInput size={12} />
           </button>
+          <button
+            onClick={onOpenExportAnnotations}
+            className="p-0.5 rounded text-slate-500 hover:text-slate-300 hover:bg-slate-700 transition-colors"
+            data-tooltip={tooltips.exportAnnotations}
+          >
+            <Download size={12} />
+          </button>
+          <button
+            onClick={onOpenAnnotationStats}
+            className="p-0.5 rounded text-slate-500 hover:text-slate-300 hover:bg-slate-700 transition-colors"
+            data-tooltip={tooltips.annotationStats}
+          >
+            <BarChart3 size={12} />
+          </button>
+          <button
+            onClick={onOpenLabelSubset}
+            className="p-0.5 rounded text-slate-500 hover:text-slate-300 hover:bg-slate-700 transition-colors"
+            data-tooltip={tooltips.labelSubset}
+          >
+            <ListFilter size={12} />
+          </button>
           <button
             onClick={onOpenSettings}
             className="p-0.5 rounded text-slate-500 hover:text-slate-300 hover:bg-slate-700 transition-colors"
@@ -119,7 +152,7 @@ function AnnotationToolsPanel({
               color="#374151"
               dotColor="#94a3b8"
               label="Select"
-              hotkey="S"
+              hotkey={selectChord ? formatModKey(formatChord(selectChord)) : ''}
               dotted
               onClick={onSelectModeActivate}
             />
@@ -176,7 +209,7 @@ function AnnotationToolsPanel({
                   color={tool.color}
                   dotColor={tool.color}
                   label={tool.text}
-                  hotkey={tool.key!}
+                  hotkey={formatToolHotkey(tool.key!)}
                   onClick={() => onToolActivate(tool.key!)}
                   tooltip={tool.description || undefined}
                 />
@@ -4,7 +4,8 @@ import { tooltips } from '../copy/tooltips';
 import { X, GripVertical, Settings, Plus, Trash2, FolderDown, Play, Square } from 'lucide-react';
 import { AnnotationTool, Annotation } from '../types';
 import { pickNextToolColor } from '../constants';
-import { isMac } from '../utils/platform';
+import { isMac, formatModKey } from '../utils/platform';
+import { TOOL_HOTKEY_BANKS, TOOL_SLOT_DIGITS, formatToolHotkey, parseToolHotkey, toolHotkey, type ToolHotkeyBank } from '../utils/annotationTools';
 import AnnotationToolEditModal from './AnnotationToolEditModal';
 import DeleteToolConfirmDialog from './DeleteToolConfirmDialog';
 
@@ -42,8 +43,15 @@ interface Props {
 // both together.
 type ToolsSnapshot = { tools: AnnotationTool[]; annotations: Annotation[] };
 
-const SLOTS = ['1','2','3','4','5','6','7','8','9'] as const;
-type Slot = typeof SLOTS[number];
+// A slot is a tool hotkey key ("3", "shift+3", "mod+3"); one bank's nine
+// are shown at a time.
+type Slot = string;
+
+const BANK_LABELS: Record<ToolHotkeyBank, () => string> = {
+  plain: () => copy.bankPlain,
+  shift: () => copy.bankShift,
+  mod: () => formatModKey(copy.bankMod),
+};
 
 type DragTarget =
   | { type: 'slot'; key: Slot }
@@ -153,6 +161,11 @@ export default function AnnotationToolsSettingsModal({
   const [addingTo, setAddingTo] = useState<'unassigned' | Slot | null>(null);
   // Which empty hotkey slot the pointer is over (drives the in-place affordance).
   const [hoveredSlot, setHoveredSlot] = useState<Slot | null>(null);
+  // Which hotkey bank's slots are showing.
+  const [bank, setBank] = useState<ToolHotkeyBank>('plain');
+  const slots = TOOL_SLOT_DIGITS.map(d => toolHotkey(bank, d));
+  const bankToolCount = (b: ToolHotkeyBank) =>
+    annotationTools.filter(t => t.key !== null && parseToolHotkey(t.key)?.bank === b).length;
 
   // Undo/redo stacks of {tools, annotations} snapshots, taken immediately
   // before each mutating action. Refs (not state) so the keydown listener reads
@@ -302,8 +315,25 @@ export default function AnnotationToolsSettingsModal({
           onDrop={commitDrag}
         >
           <div className="flex-1 flex flex-col min-w-0">
-            <h3 className="text-xs text-slate-400 uppercase tracking-wider font-medium mb-3">{copy.hotkeysHeading}</h3>
-            {SLOTS.map(k => {
+            <div className="flex items-center gap-2 mb-3">
+              <h3 className="text-xs text-slate-400 uppercase tracking-wider font-medium">{copy.hotkeysHeading}</h3>
+              {/* Bank tabs — dragging a tool over one switches to it, so a
+                  tool can be dropped into another bank's slots. */}
+              <div className="flex items-center gap-1 ml-auto">
+                {TOOL_HOTKEY_BANKS.map(b => (
+                  <button
+                    key={b}
+                    onClick={() => setBank(b)}
+                    onDragOver={e => { e.preventDefault(); if (drag && bank !== b) setBank(b); }}
+                    className={`px-2 py-0.5 rounded text-[10px] font-mono transition-colors ${bank === b ? 'bg-slate-600 text-white' : 'text-slate-400 hover:text-slate-200 hover:bg-slate-700'}`}
+                  >
+                    {BANK_LABELS[b]()}
+                    {bankToolCount(b) > 0 && <span className="ml-1 text-slate-400">{bankToolCount(b)}</span>}
+                  </button>
+                ))}
+              </div>
+            </div>
+            {slots.map(k => {
               const tool = annotationTools.find(t => t.key === k);
               const toolIndex = tool ? annotationTools.indexOf(tool) : -1;
               return (
@@ -312,8 +342,11 @@ export default function AnnotationToolsSettingsModal({
                   className="flex items-center gap-2 mb-2 h-8"
                   onDragOver={e => { e.preventDefault(); e.stopPropagation(); if (drag) updateTarget({ type: 'slot', key: k }); }}
                 >
-                  <div className="w-6 h-6 bg-slate-700 rounded text-xs font-mono flex items-center justify-center text-slate-300 flex-none">
-                    {k}
+                  <div
+                    className="w-6 h-6 bg-slate-700 rounded text-xs font-mono flex items-center justify-center text-slate-300 flex-none"
+                    data-tooltip={formatToolHotkey(k)}
+                  >
+                    {parseToolHotkey(k)?.digit ?? k}
                   </div>
                   {tool && toolIndex !== -1 ? (
                     <div
@@ -1,7 +1,7 @@
 import React, { useEffect, useState } from 'react';
 import { FolderOpen } from 'lucide-react';
 import { projectSettingsModal } from '../copy/ui';
-import { readAppSettings, writeAppSettings } from '../utils/projectCommands';
+import { readAppSettings, updateAppSettings } from '../utils/projectCommands';
 import { detectFfmpeg, openFileDialog, setFfmpegPath as pushFfmpegPath } from '../utils/tauriCommands';
 
 /**
@@ -42,7 +42,7 @@ export default function ApplicationSettingsFields() {
   const commit = async (path: string) => {
     const trimmed = path.trim();
     setAutoDetected(false);
-    await writeAppSettings({ ffmpegPath: trimmed || undefined }).catch(() => {});
+    await updateAppSettings({ ffmpegPath: trimmed || undefined }).catch(() => {});
     await pushFfmpegPath(trimmed || null).catch(() => {});
     // Cleared the field? Fall back to showing whatever the search now finds.
     if (!trimmed) await showDetected();
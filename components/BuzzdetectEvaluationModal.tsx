@@ -0,0 +1,221 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Annotation, DetectorFormat } from '../types';
+import { BUZZDETECT_EVALUATION_STEPS } from '../constants';
+import { defaultThresholdOf } from '../utils/detectorOutput';
+import {
+  EvaluationTrack, ThresholdPoint, bestThreshold, collectEvaluationTracks, sweepThresholds, thresholdCandidates,
+} from '../utils/buzzdetectEvaluation';
+import { buzzdetectEvaluationModal as copy } from '../copy/ui';
+import SettingsModalShell from './SettingsModalShell';
+
+interface Props {
+  annotationDir: string;
+  buzzdetectDir: string;
+  format?: DetectorFormat;
+  frameLength?: number;
+  // The open track's in-memory annotations, which may be ahead of its file.
+  annotations: Annotation[];
+  ident: string | null;
+  thresholds: Record<string, number>;
+  onClose: () => void;
+  onApplyThreshold: (neuron: string, value: number) => void;
+}
+
+const CHART_WIDTH = 440;
+const CHART_HEIGHT = 180;
+const PAD = { left: 32, right: 8, top: 8, bottom: 20 };
+
+const SERIES: { key: 'precision' | 'recall' | 'f1'; color: string; label: () => string }[] = [
+  { key: 'precision', color: '#60a5fa', label: () => copy.precision },
+  { key: 'recall', color: '#f59e0b', label: () => copy.recall },
+  { key: 'f1', color: '#34d399', label: () => copy.f1 },
+];
+
+const percent = (v: number | null) => (v === null ? '—' : `${(v * 100).toFixed(1)}%`);
+
+// Precision, recall and F1 against threshold, with the panel's current
+// threshold and the best one marked. A score undefined at some threshold
+// (nothing predicted, say) breaks its line there.
+function SweepChart({ points, current, best }: { points: ThresholdPoint[]; current: number; best: ThresholdPoint | null }) {
+  const lo = points[0].threshold;
+  const hi = points[points.length - 1].threshold;
+  const x = (t: number) => PAD.left + (hi > lo ? ((t - lo) / (hi - lo)) : 0.5) * (CHART_WIDTH - PAD.left - PAD.right);
+  const y = (v: number) => PAD.top + (1 - v) * (CHART_HEIGHT - PAD.top - PAD.bottom);
+  const pathFor = (key: 'precision' | 'recall' | 'f1') => {
+    let d = '';
+    let pen = false;
+    for (const p of points) {
+      const v = p[key];
+      if (v === null) { pen = false; continue; }
+      d += `${pen ? 'L' : 'M'}${x(p.threshold).toFixed(1)},${y(v).toFixed(1)}`;
+      pen = true;
+    }
+    return d;
+  };
+  const marker = (t: number, color: string, dash?: string) => t >= lo && t <= hi && (
+    <line x1={x(t)} x2={x(t)} y1={PAD.top} y2={CHART_HEIGHT - PAD.bottom} stroke={color} strokeDasharray={dash} />
+  );
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full bg-gray-950 rounded-lg border border-gray-800">
+      {[0, 0.5, 1].map(v => (
+        <g key={v}>
+          <line x1={PAD.left} x2={CHART_WIDTH - PAD.right} y1={y(v)} y2={y(v)} stroke="#1f2937" />
+          <text x={PAD.left - 4} y={y(v) + 3} textAnchor="end" fontSize={9} fill="#6b7280">{v * 100}%</text>
+        </g>
+      ))}
+      <text x={PAD.left} y={CHART_HEIGHT - 6} fontSize={9} fill="#6b7280">{lo}</text>
+      <text x={CHART_WIDTH - PAD.right} y={CHART_HEIGHT - 6} textAnchor="end" fontSize={9} fill="#6b7280">{hi}</text>
+      {marker(current, '#9ca3af', '3 3')}
+      {best && marker(best.threshold, '#34d399', '1 2')}
+      {SERIES.map(s => <path key={s.key} d={pathFor(s.key)} fill="none" stroke={s.color} strokeWidth={1.5} />)}
+    </svg>
+  );
+}
+
+// Threshold tuning against the project's annotations
+// (utils/buzzdetectEvaluation.ts): pick a neuron and the label it should
+// find, see precision/recall/F1 over a sweep of thresholds, and write the
+// best one into the panel's thresholds. The project is read once on open.
+export default function BuzzdetectEvaluationModal({
+  annotationDir, buzzdetectDir, format, frameLength, annotations, ident, thresholds, onClose, onApplyThreshold,
+}: Props) {
+  const [tracks, setTracks] = useState<EvaluationTrack[] | null>(null);
+  const [error, setError] = useState('');
+  const [neuron, setNeuron] = useState('');
+  const [label, setLabel] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+    collectEvaluationTracks({
+      annotationDir,
+      buzzdetectDir,
+      format,
+      frameLength,
+      live: ident ? { ident, annotations } : null,
+    })
+      .then(t => { if (!cancelled) setTracks(t); })
+      .catch(err => { if (!cancelled) setError(copy.failed(String(err))); });
+    return () => { cancelled = true; };
+    // Snapshot on open: later edits to the open track don't re-read the project.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [annotationDir, buzzdetectDir, format, frameLength]);
+
+  const neurons = useMemo(() => [...new Set((tracks ?? []).flatMap(t => t.data.neurons))], [tracks]);
+  const labels = useMemo(
+    () => [...new Set((tracks ?? []).flatMap(t => t.annotations.map(a => a.text)))].sort((a, b) => a.localeCompare(b)),
+    [tracks],
+  );
+  // Once loaded, start on the first neuron and the label named like it, if any.
+  useEffect(() => {
+    if (!tracks || neuron) return;
+    const first = neurons[0] ?? '';
+    setNeuron(first);
+    setLabel(labels.find(l => l.toLowerCase() === first.toLowerCase()) ?? labels[0] ?? '');
+  }, [tracks]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const points = useMemo(() => {
+    if (!tracks || !neuron || !label) return [];
+    return sweepThresholds(tracks, neuron, label, thresholdCandidates(tracks, neuron, BUZZDETECT_EVALUATION_STEPS));
+  }, [tracks, neuron, label]);
+  const best = bestThreshold(points);
+  const current = thresholds[neuron] ?? defaultThresholdOf(tracks?.[0]?.data);
+  const [currentPoint] = useMemo(
+    () => (tracks && neuron && label ? sweepThresholds(tracks, neuron, label, [current]) : []),
+    [tracks, neuron, label, current],
+  );
+
+  const selectClass = 'bg-gray-800 border border-gray-600 rounded-lg px-2 py-1 text-white text-sm focus:outline-none focus:border-blue-500 min-w-0 flex-1';
+  const scoreRow = (name: string, p: ThresholdPoint | undefined | null) => p && (
+    <tr className="border-t border-gray-800">
+      <td className="px-2 py-1">{name}</td>
+      <td className="px-2 py-1 text-right tabular-nums">{p.threshold}</td>
+      <td className="px-2 py-1 text-right tabular-nums">{percent(p.precision)}</td>
+      <td className="px-2 py-1 text-right tabular-nums">{percent(p.recall)}</td>
+      <td className="px-2 py-1 text-right tabular-nums">{percent(p.f1)}</td>
+    </tr>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-[200]">
+      <SettingsModalShell
+        title={copy.title}
+        onClose={onClose}
+        footer={
+          <>
+            <button onClick={onClose} className="px-4 py-2 text-gray-400 hover:text-white transition-colors text-sm">
+              {copy.closeButton}
+            </button>
+            <button
+              onClick={() => best && onApplyThreshold(neuron, best.threshold)}
+              disabled={!best || best.threshold === current}
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-500 disabled:opacity-40 disabled:hover:bg-blue-600 text-white rounded-lg text-sm transition-colors"
+            >
+              {best ? copy.applyButton(best.threshold) : copy.applyButton(null)}
+            </button>
+          </>
+        }
+      >
+        {!tracks && !error && <p className="text-gray-500 text-sm">{copy.loading}</p>}
+        {error && <p className="text-red-400 text-sm">{error}</p>}
+        {tracks && tracks.length === 0 && <p className="text-gray-500 text-sm">{copy.noTracks}</p>}
+
+        {tracks && tracks.length > 0 && (
+          <>
+            <p className="text-gray-500 text-xs">{copy.intro(tracks.length)}</p>
+            <div className="flex items-center gap-3 text-gray-400 text-sm">
+              <label className="flex items-center gap-2 flex-1 min-w-0">
+                {copy.neuronField}
+                <select value={neuron} onChange={e => setNeuron(e.target.value)} className={selectClass}>
+                  {neurons.map(n => <option key={n} value={n}>{n}</option>)}
+                </select>
+              </label>
+              <label className="flex items-center gap-2 flex-1 min-w-0">
+                {copy.labelField}
+                <select value={label} onChange={e => setLabel(e.target.value)} className={selectClass}>
+                  {labels.map(l => <option key={l} value={l}>{l}</option>)}
+                </select>
+              </label>
+            </div>
+
+            {labels.length === 0 ? (
+              <p className="text-gray-500 text-sm">{copy.noLabels}</p>
+            ) : points.length === 0 ? (
+              <p className="text-gray-500 text-sm">{copy.noActivations}</p>
+            ) : (
+              <>
+                <SweepChart points={points} current={current} best={best} />
+                <div className="flex gap-4 text-xs text-gray-400">
+                  {SERIES.map(s => (
+                    <span key={s.key} className="flex items-center gap-1.5">
+                      <span className="w-3 h-0.5" style={{ backgroundColor: s.color }} />
+                      {s.label()}
+                    </span>
+                  ))}
+                  <span className="ml-auto">{copy.thresholdAxis}</span>
+                </div>
+                <table className="w-full text-xs text-gray-300">
+                  <thead className="text-gray-400">
+                    <tr>
+                      <th className="px-2 py-1 text-left font-medium" />
+                      <th className="px-2 py-1 text-right font-medium">{copy.thresholdHeader}</th>
+                      <th className="px-2 py-1 text-right font-medium">{copy.precision}</th>
+                      <th className="px-2 py-1 text-right font-medium">{copy.recall}</th>
+                      <th className="px-2 py-1 text-right font-medium">{copy.f1}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {scoreRow(copy.currentRow, currentPoint)}
+                    {scoreRow(copy.bestRow, best)}
+                  </tbody>
+                </table>
+                {currentPoint && (
+                  <p className="text-gray-500 text-xs">{copy.counts(currentPoint.tp, currentPoint.fp, currentPoint.fn)}</p>
+                )}
+              </>
+            )}
+          </>
+        )}
+      </SettingsModalShell>
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import React, { useRef, useEffect, useLayoutEffect, useState, useCallback, useMemo } from 'react';
-import { Sliders, GripHorizontal, RotateCcw } from 'lucide-react';
+import { Sliders, GripHorizontal, RotateCcw, Tags, ChartLine } from 'lucide-react';
 import { BuzzdetectData, BuzzdetectSeriesMode, Selection } from '../types';
 import type { ViewportStore } from '../utils/viewportStore';
 import type { CurrentTimeStore } from '../utils/currentTimeStore';
@@ -7,7 +7,6 @@ import { Timeline, identityTimeline, segmentJoins, sourceIntervalOf } from '../u
 import {
   buzzdetectNeuronColor,
   BUZZDETECT_PALETTE,
-  DEFAULT_BUZZDETECT_THRESHOLD,
   MIN_BUZZDETECT_PANEL_HEIGHT,
   MAX_BUZZDETECT_PANEL_HEIGHT,
   Y_AXIS_WIDTH,
@@ -25,6 +24,7 @@ import {
   visibleBinRange,
 } from '../utils/binIndex';
 import { shouldPromoteDragIntent } from '../utils/dragIntent';
+import { defaultThresholdOf } from '../utils/detectorOutput';
 import {
   buildPrefixSum,
   buildThresholdCountPrefix,
@@ -59,6 +59,9 @@ const DETECTION_RATE_Y_RANGE = { min: 0, max: 1 };
 
 interface BuzzdetectPanelProps {
   data: BuzzdetectData | null;
+  // Which detector source this lane draws, shown in its corner; omitted while
+  // there's only the one lane.
+  sourceLabel?: string;
   // Shared viewport from the spectrogram (the single source of x-alignment).
   // Delivered through a ref-based store rather than props so panning, which
   // updates it every frame, never re-renders this component or its parent — the
@@ -114,8 +117,13 @@ interface BuzzdetectPanelProps {
   onNeuronColorChange: (neuron: string, color: string) => void;
   onSeriesModeChange: (mode: BuzzdetectSeriesMode) => void;
   onBinWidthOverrideChange: (binWidth: number | null) => void;
-  onToggleSubsetNeuron: (neuron: string, willSubset: boolean) => void;
+  // Omitted on lanes the subset isn't keyed to, which hides the subset controls.
+  onToggleSubsetNeuron?: (neuron: string, willSubset: boolean) => void;
   onMinDetectionRateChange: (rate: number) => void;
+  // Opens the detection → annotation conversion; omitted where there's nothing to convert into.
+  onConvertDetections?: () => void;
+  // Opens the threshold evaluation against the project's annotations.
+  onEvaluateThresholds?: () => void;
   onHeightChange: (height: number) => void;
   onSelectionChange: (s: Selection | null) => void;
   onBoundAnnotationChange: (id: string | null) => void;
@@ -125,6 +133,7 @@ interface BuzzdetectPanelProps {
 
 export default function BuzzdetectPanel({
   data,
+  sourceLabel,
   viewportStore,
   duration,
   currentTimeStore,
@@ -150,6 +159,8 @@ export default function BuzzdetectPanel({
   onBinWidthOverrideChange,
   onToggleSubsetNeuron,
   onMinDetectionRateChange,
+  onConvertDetections,
+  onEvaluateThresholds,
   onHeightChange,
   onSelectionChange,
   onBoundAnnotationChange,
@@ -260,8 +271,8 @@ export default function BuzzdetectPanel({
   );
 
   const thresholdOf = useCallback(
-    (neuron: string) => thresholds[neuron] ?? DEFAULT_BUZZDETECT_THRESHOLD,
-    [thresholds],
+    (neuron: string) => thresholds[neuron] ?? defaultThresholdOf(data),
+    [thresholds, data],
   );
 
   // Stable string key representing which neurons are currently enabled, in
@@ -1199,6 +1210,12 @@ export default function BuzzdetectPanel({
           {data && (selectionUnit ?? hoverRange) !== null &&
             renderBinRangeReadout((selectionUnit ?? hoverRange)!)}
 
+          {sourceLabel && (
+            <span className="absolute top-2 right-9 max-w-[40%] truncate text-[10px] text-slate-500 pointer-events-none">
+              {sourceLabel}
+            </span>
+          )}
+
           {/* Settings popover trigger */}
           <button
             data-buzz-ui
@@ -1295,7 +1312,7 @@ export default function BuzzdetectPanel({
                     </div>
                   </div>
                 )}
-                {data && (
+                {data && onToggleSubsetNeuron && (
                   <div className="pb-2 border-b border-slate-700 space-y-1">
                     <div className="text-[10px] uppercase tracking-wider text-slate-400">
                       {buzzdetectCopy.subsetHeader}
@@ -1327,6 +1344,28 @@ export default function BuzzdetectPanel({
                     )}
                   </div>
                 )}
+                {data && (onConvertDetections || onEvaluateThresholds) && (
+                  <div className="pb-2 border-b border-slate-700 space-y-1">
+                    {onConvertDetections && (
+                      <button
+                        onClick={() => { setShowSettings(false); onConvertDetections(); }}
+                        className="w-full flex items-center justify-center gap-1.5 px-2 py-1 rounded text-[11px] bg-slate-700 text-slate-200 hover:bg-slate-600 transition-colors"
+                      >
+                        <Tags size={12} />
+                        {buzzdetectCopy.convertButton}
+                      </button>
+                    )}
+                    {onEvaluateThresholds && (
+                      <button
+                        onClick={() => { setShowSettings(false); onEvaluateThresholds(); }}
+                        className="w-full flex items-center justify-center gap-1.5 px-2 py-1 rounded text-[11px] bg-slate-700 text-slate-200 hover:bg-slate-600 transition-colors"
+                      >
+                        <ChartLine size={12} />
+                        {buzzdetectCopy.evaluateButton}
+                      </button>
+                    )}
+                  </div>
+                )}
                 <div className="flex items-center justify-between text-[10px] uppercase tracking-wider text-slate-400 pb-1 border-b border-slate-700">
                   <span className="flex items-center gap-1.5">
                     {buzzdetectCopy.neuronHeader}
@@ -1347,7 +1386,7 @@ export default function BuzzdetectPanel({
                     })()}
                   </span>
                   <span className="flex items-center gap-2">
-                    <span>{buzzdetectCopy.subsetColumnHeader}</span>
+                    {onToggleSubsetNeuron && <span>{buzzdetectCopy.subsetColumnHeader}</span>}
                     <span>{buzzdetectCopy.thresholdHeader}</span>
                   </span>
                 </div>
@@ -1391,13 +1430,15 @@ export default function BuzzdetectPanel({
                           are kept while another is merely plotted alongside it
                           to see what it did there. Several ticked here are
                           OR'd — a frame survives if any of them fired. */}
-                      <input
-                        type="checkbox"
-                        checked={subsetNeurons.includes(n)}
-                        onChange={() => onToggleSubsetNeuron(n, !subsetNeurons.includes(n))}
-                        className="accent-[#e65161] flex-none"
-                        data-tooltip={tooltips.buzzdetectSubsetNeuron}
-                      />
+                      {onToggleSubsetNeuron && (
+                        <input
+                          type="checkbox"
+                          checked={subsetNeurons.includes(n)}
+                          onChange={() => onToggleSubsetNeuron(n, !subsetNeurons.includes(n))}
+                          className="accent-[#e65161] flex-none"
+                          data-tooltip={tooltips.buzzdetectSubsetNeuron}
+                        />
+                      )}
                       <DraftNumberInput
                         value={thresholdOf(n)}
                         onCommit={(v) => onThresholdChange(n, v)}
@@ -1,5 +1,8 @@
 import { useEffect, useRef } from 'react';
 import type { VideoFrameSource } from '../utils/VideoFrameSource';
+import type { Annotation } from '../types';
+import { regionsAt } from '../utils/videoRegions';
+import { DEFAULT_VIEWPORT, computeContentRect, frameRectToScreen, type Viewport } from '../utils/videoZoom';
 
 interface CanvasVideoPlayerProps {
   /** Frame source to draw from. The component does not own this — the caller
@@ -10,6 +13,59 @@ interface CanvasVideoPlayerProps {
   getMediaTime: () => number;
   /** Optional debug logger. One-shot logs emit on mount + first successful draw. */
   onDebugLog?: (msg: string, type?: 'info' | 'error') => void;
+  /** Annotations whose region boxes are drawn over the frame while the
+   *  playhead is inside their span. */
+  annotations?: Annotation[];
+  /** Its region is outlined heavier. */
+  selectedAnnotationId?: string | null;
+  /** The viewport the frame source draws with, to place the boxes. */
+  viewport?: Viewport;
+}
+
+/**
+ * Outline each region showing at `t` over the drawn frame, in its
+ * annotation's colour with the label as a tag. Clipped to the picture so a
+ * box partly outside a zoomed view doesn't spill into the letterbox.
+ */
+function drawRegions(
+  ctx: CanvasRenderingContext2D,
+  frameSource: VideoFrameSource,
+  annotations: Annotation[],
+  t: number,
+  selectedId: string | null,
+  viewport: Viewport,
+): void {
+  const regions = regionsAt(annotations, t);
+  if (regions.length === 0) return;
+  const { width, height } = frameSource.getDimensions();
+  if (width <= 0 || height <= 0) return;
+  const canvas = ctx.canvas;
+  const content = computeContentRect(canvas.width, canvas.height, width, height);
+  const dpr = window.devicePixelRatio || 1;
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(content.x, content.y, content.w, content.h);
+  ctx.clip();
+  ctx.font = `${11 * dpr}px sans-serif`;
+  ctx.textBaseline = 'top';
+  for (const { annotation, box } of regions) {
+    const r = frameRectToScreen(viewport, content, box);
+    const color = annotation.color || '#ffffff';
+    ctx.strokeStyle = color;
+    ctx.lineWidth = (annotation.id === selectedId ? 3 : 1.5) * dpr;
+    ctx.strokeRect(r.x, r.y, r.w, r.h);
+    if (annotation.text) {
+      const pad = 3 * dpr;
+      const tagH = 11 * dpr + 2 * pad;
+      const tagW = ctx.measureText(annotation.text).width + 2 * pad;
+      const tagY = r.y - tagH >= content.y ? r.y - tagH : r.y;
+      ctx.fillStyle = color;
+      ctx.fillRect(r.x, tagY, tagW, tagH);
+      ctx.fillStyle = '#000000';
+      ctx.fillText(annotation.text, r.x + pad, tagY + pad);
+    }
+  }
+  ctx.restore();
 }
 
 /**
@@ -19,11 +75,21 @@ interface CanvasVideoPlayerProps {
  *
  * Drawing every tick is cheap: frameSource.drawAt is an O(log N) cache lookup
  * plus a single drawImage. The decode pipeline runs independently in the
- * frame source.
+ * frame source. Region boxes are drawn on top, on the same tick.
  */
-export default function CanvasVideoPlayer({ frameSource, getMediaTime, onDebugLog }: CanvasVideoPlayerProps) {
+export default function CanvasVideoPlayer({
+  frameSource,
+  getMediaTime,
+  onDebugLog,
+  annotations,
+  selectedAnnotationId = null,
+  viewport = DEFAULT_VIEWPORT,
+}: CanvasVideoPlayerProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
+  // Read by the rAF loop, so they change without restarting it.
+  const regionStateRef = useRef({ annotations, selectedAnnotationId, viewport });
+  regionStateRef.current = { annotations, selectedAnnotationId, viewport };
 
   useEffect(() => {
     const canvas = canvasRef.current;
@@ -57,7 +123,12 @@ export default function CanvasVideoPlayer({ frameSource, getMediaTime, onDebugLo
         lastH = targetH;
         onDebugLog?.(`[canvasvp] canvas sized ${targetW}x${targetH} (container=${rect.width}x${rect.height} dpr=${dpr})`);
       }
-      frameSource.drawAt(ctx, getMediaTime());
+      const t = getMediaTime();
+      const drew = frameSource.drawAt(ctx, t);
+      const regionState = regionStateRef.current;
+      if (drew && regionState.annotations?.length) {
+        drawRegions(ctx, frameSource, regionState.annotations, t, regionState.selectedAnnotationId, regionState.viewport);
+      }
       ticks++;
       rAF = requestAnimationFrame(tick);
     };
@@ -2,6 +2,7 @@ import React, { useMemo } from 'react';
 import { Hammer, Settings } from 'lucide-react';
 import { AnnotationTool } from '../types';
 import { tooltips } from '../copy/tooltips';
+import { compareToolHotkeys, formatToolHotkey, formatToolHotkeyShort } from '../utils/annotationTools';
 
 interface CollapsedToolsRailProps {
   annotationTools: AnnotationTool[];
@@ -15,7 +16,7 @@ interface CollapsedToolsRailProps {
 // Tool Settings, but rendered as a color swatch instead of a plain number.
 function CollapsedToolsRail({ annotationTools, activeToolKey, onToolActivate, onOpenSettings }: CollapsedToolsRailProps) {
   const keyedTools = useMemo(
-    () => annotationTools.filter(t => t.key !== null).sort((a, b) => Number(a.key) - Number(b.key)),
+    () => annotationTools.filter(t => t.key !== null).sort((a, b) => compareToolHotkeys(a.key!, b.key!)),
     [annotationTools],
   );
 
@@ -32,10 +33,10 @@ function CollapsedToolsRail({ annotationTools, activeToolKey, onToolActivate, on
             className={`relative w-6 h-6 rounded flex-none flex items-center justify-center transition-all
               ${isActive ? 'ring-2 ring-white/70' : 'opacity-80 hover:opacity-100'}`}
             style={{ backgroundColor: tool.color }}
-            data-tooltip={label}
+            data-tooltip={`${label} (${formatToolHotkey(tool.key!)})`}
           >
             <span className="text-[10px] font-mono text-white/90 drop-shadow-[0_1px_1px_rgba(0,0,0,0.8)]">
-              {tool.key}
+              {formatToolHotkeyShort(tool.key!)}
             </span>
           </button>
         );
@@ -2,7 +2,7 @@ import React, { useState, useRef, useEffect } from 'react';
 import { FolderOpen, HelpCircle } from 'lucide-react';
 import { createProjectModal } from '../copy/ui';
 import { tooltips } from '../copy/tooltips';
-import { Project, ProjectSettings, ProjectPreferences } from '../types';
+import { DetectorFormat, Project, ProjectSettings, ProjectPreferences } from '../types';
 import { openDirectoryDialog, checkDirExists, createDirAll, createAnnotationTool, openSyncGuideWindow } from '../utils/tauriCommands';
 import { readProjectSettings, writeProjectPreferences } from '../utils/projectCommands';
 import { DEFAULT_OUTPUT_ROUNDING_DECIMALS, DEFAULT_TOOL_SEED, randomMagmaGradient } from '../constants';
@@ -10,6 +10,7 @@ import { buildHotkeyMap } from '../utils/annotationTools';
 import { makeProjectPath, resolveInputPath } from '../utils/projectPaths';
 import { normalizeGitRemoteUrl, applySyncToken, type TokenStorage } from '../utils/gitSync';
 import SettingsModalShell from './SettingsModalShell';
+import { DetectorSourceDraft, detectorSourcesFromDrafts } from './DetectorSourcesField';
 import ProjectBaseFields from './ProjectBaseFields';
 import GitSyncUserFields from './GitSyncUserFields';
 
@@ -26,6 +27,8 @@ export default function CreateProjectModal({ onCreated, onClose, createProject,
   const [mediaDir, setMediaDir] = useState('');
   const [annotationDir, setAnnotationDir] = useState('');
   const [buzzdetectDir, setBuzzdetectDir] = useState('');
+  const [extraDetectorSources, setExtraDetectorSources] = useState<DetectorSourceDraft[]>([]);
+  const [detectorFormat, setDetectorFormat] = useState<DetectorFormat>('buzzdetect');
   // null = auto-detect from each CSV (the default for new projects).
   const [filenameTimeFormat, setFilenameTimeFormat] = useState('');
   const [buzzdetectFrameLength, setBuzzdetectFrameLength] = useState<number | null>(null);
@@ -122,6 +125,8 @@ export default function CreateProjectModal({ onCreated, onClose, createProject,
         annotationDirectory: makeProjectPath(projectDir, resolvedAnnotationDir),
         buzzdetectDirectory: buzzdetectDir ? makeProjectPath(projectDir, resolvedBuzzdetectDir) : undefined,
         buzzdetectFrameLength: buzzdetectFrameLength ?? undefined,
+        detectorFormat: detectorFormat === 'buzzdetect' ? undefined : detectorFormat,
+        extraDetectorSources: detectorSourcesFromDrafts(projectDir, extraDetectorSources),
       filenameTimeFormat: filenameTimeFormat.trim() || undefined,
         outputFormat: 'txt',
         outputRoundingDecimals,
@@ -232,6 +237,10 @@ export default function CreateProjectModal({ onCreated, onClose, createProject,
               onOutputRoundingDecimalsChange={setOutputRoundingDecimals}
               buzzdetectDir={buzzdetectDir}
               onBuzzdetectDirChange={setBuzzdetectDir}
+              detectorFormat={detectorFormat}
+              onDetectorFormatChange={setDetectorFormat}
+              extraDetectorSources={extraDetectorSources}
+              onExtraDetectorSourcesChange={setExtraDetectorSources}
               buzzdetectFrameLength={buzzdetectFrameLength}
               onBuzzdetectFrameLengthChange={setBuzzdetectFrameLength}
               syncRemoteUrl={syncRemoteUrl}
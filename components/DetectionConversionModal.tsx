@@ -0,0 +1,171 @@
+import React, { useMemo, useState } from 'react';
+import { AnnotationTool, BuzzdetectData } from '../types';
+import {
+  DEFAULT_DETECTION_MAX_GAP, DEFAULT_DETECTION_MIN_DURATION, buzzdetectNeuronColor,
+} from '../constants';
+import { defaultThresholdOf } from '../utils/detectorOutput';
+import { detectionsToAnnotations, DetectionConversionOptions, NeuronLabelMapping } from '../utils/buzzdetectAnnotations';
+import { detectionConversionModal as copy } from '../copy/ui';
+import DraftNumberInput from './DraftNumberInput';
+import SettingsModalShell from './SettingsModalShell';
+
+export type DetectionConversionScope = 'track' | 'project';
+
+interface Props {
+  /** The open track's activations, in source time: its neurons are the ones offered. */
+  data: BuzzdetectData;
+  annotationTools: AnnotationTool[];
+  thresholds: Record<string, number>;
+  /** The panel's colour overrides, so each neuron is recognisable. */
+  neuronColors: Record<string, string>;
+  onClose: () => void;
+  onConvert: (
+    scope: DetectionConversionScope,
+    mappings: NeuronLabelMapping[],
+    options: DetectionConversionOptions,
+  ) => Promise<{ tracks: number; added: number }>;
+}
+
+// Custom labels are white, like any annotation that isn't a tool's.
+const CUSTOM_COLOR = '#ffffff';
+
+// Pick which neurons' detections become annotations and under which tool,
+// how runs are merged and filtered, and whether to convert the open track or
+// the whole project (hooks/useDetectionConversion.ts does the writing). The
+// thresholds are the panel's; the count previews the open track.
+export default function DetectionConversionModal({ data, annotationTools, thresholds, neuronColors, onClose, onConvert }: Props) {
+  const labelledTools = useMemo(() => annotationTools.filter(t => t.text), [annotationTools]);
+  // Neuron → tool id ('' = the neuron's own name as a Custom label). A neuron
+  // named like a tool starts out mapped to it, and ticked.
+  const [toolFor, setToolFor] = useState<Record<string, string>>(() => Object.fromEntries(data.neurons.map(n => [
+    n, labelledTools.find(t => t.text.toLowerCase() === n.toLowerCase())?.id ?? '',
+  ])));
+  const [picked, setPicked] = useState<string[]>(() => data.neurons.filter(n => toolFor[n]));
+  const [options, setOptions] = useState<DetectionConversionOptions>({
+    minDuration: DEFAULT_DETECTION_MIN_DURATION,
+    maxGap: DEFAULT_DETECTION_MAX_GAP,
+  });
+  const [scope, setScope] = useState<DetectionConversionScope>('track');
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const thresholdOf = (n: string) => thresholds[n] ?? defaultThresholdOf(data);
+
+  const mappings: NeuronLabelMapping[] = picked.map(neuron => {
+    const tool = labelledTools.find(t => t.id === toolFor[neuron]);
+    return tool ? { neuron, text: tool.text, color: tool.color } : { neuron, text: neuron, color: CUSTOM_COLOR };
+  });
+  const previewCount = detectionsToAnnotations(data, mappings, thresholdOf, options).length;
+
+  const toggle = (neuron: string) => setPicked(prev =>
+    prev.includes(neuron) ? prev.filter(n => n !== neuron) : data.neurons.filter(n => n === neuron || prev.includes(n)));
+
+  const convert = async () => {
+    setBusy(true);
+    setMessage(null);
+    try {
+      const { tracks, added } = await onConvert(scope, mappings, options);
+      setMessage(copy.result(added, tracks));
+    } catch (err) {
+      setMessage(copy.failed(String(err)));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const numberInput = 'w-20 bg-gray-800 border border-gray-600 rounded-lg px-2 py-1 text-white text-sm text-right focus:outline-none focus:border-blue-500';
+
+  return (
+    <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-[200]">
+      <SettingsModalShell
+        title={copy.title}
+        onClose={onClose}
+        footer={
+          <>
+            <button onClick={onClose} className="px-4 py-2 text-gray-400 hover:text-white transition-colors text-sm">
+              {message ? copy.closeButton : copy.cancelButton}
+            </button>
+            <button
+              onClick={convert}
+              disabled={busy || picked.length === 0}
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-500 disabled:opacity-40 disabled:hover:bg-blue-600 text-white rounded-lg text-sm transition-colors"
+            >
+              {busy ? copy.converting : copy.convertButton}
+            </button>
+          </>
+        }
+      >
+        <p className="text-gray-500 text-xs">{copy.intro}</p>
+
+        <div>
+          <div className="flex items-center text-gray-400 text-sm mb-1">
+            <span className="flex-1">{copy.neuronsHeading}</span>
+            <span className="w-44">{copy.labelHeader}</span>
+            <span className="w-16 text-right">{copy.thresholdHeader}</span>
+          </div>
+          <div className="border border-gray-700 rounded-lg divide-y divide-gray-700">
+            {data.neurons.map((n, i) => {
+              const checked = picked.includes(n);
+              return (
+                <div key={n} className="flex items-center gap-2 px-3 py-1.5 text-sm">
+                  <input type="checkbox" checked={checked} onChange={() => toggle(n)} className="accent-blue-500" />
+                  <span className="w-2 h-2 rounded-full flex-none" style={{ backgroundColor: neuronColors[n] ?? buzzdetectNeuronColor(i) }} />
+                  <span className={`flex-1 truncate ${checked ? 'text-gray-200' : 'text-gray-500'}`} title={n}>{n}</span>
+                  <select
+                    value={toolFor[n] ?? ''}
+                    disabled={!checked}
+                    onChange={e => setToolFor(prev => ({ ...prev, [n]: e.target.value }))}
+                    className="w-44 bg-gray-800 border border-gray-600 rounded px-1 py-0.5 text-white text-xs focus:outline-none disabled:opacity-40"
+                  >
+                    <option value="">{copy.neuronName}</option>
+                    {labelledTools.map(t => <option key={t.id} value={t.id}>{t.text}</option>)}
+                  </select>
+                  <span className="w-16 text-right text-gray-400 tabular-nums">{thresholdOf(n)}</span>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        <div className="flex gap-6">
+          <label className="text-gray-400 text-sm flex items-center gap-2">
+            {copy.minDurationField}
+            <DraftNumberInput
+              value={options.minDuration}
+              min={0}
+              onCommit={v => { if (v !== null) setOptions(o => ({ ...o, minDuration: v })); }}
+              className={numberInput}
+            />
+          </label>
+          <label className="text-gray-400 text-sm flex items-center gap-2">
+            {copy.maxGapField}
+            <DraftNumberInput
+              value={options.maxGap}
+              min={0}
+              onCommit={v => { if (v !== null) setOptions(o => ({ ...o, maxGap: v })); }}
+              className={numberInput}
+            />
+          </label>
+        </div>
+
+        <div>
+          <label className="text-gray-400 text-sm block mb-1">{copy.scopeHeading}</label>
+          <div className="flex flex-col gap-1 text-sm text-gray-200">
+            <label className="flex items-center gap-2">
+              <input type="radio" checked={scope === 'track'} onChange={() => setScope('track')} className="accent-blue-500" />
+              {copy.scopeTrack}
+              <span className="text-gray-500 text-xs">{copy.preview(previewCount)}</span>
+            </label>
+            <label className="flex items-center gap-2">
+              <input type="radio" checked={scope === 'project'} onChange={() => setScope('project')} className="accent-blue-500" />
+              {copy.scopeProject}
+            </label>
+          </div>
+          {scope === 'project' && <p className="text-gray-500 text-xs mt-1">{copy.projectHint}</p>}
+        </div>
+
+        {message && <p className="text-gray-200 text-sm">{message}</p>}
+      </SettingsModalShell>
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+import React from 'react';
+import { Plus, X } from 'lucide-react';
+import { DetectorFormat, DetectorSource } from '../types';
+import { DETECTOR_FORMATS } from '../utils/detectorOutput';
+import { makeProjectPath, resolveInputPath, resolveProjectPath, trimProjectPrefix } from '../utils/projectPaths';
+import { detectorFormatNames, projectBaseFields } from '../copy/ui';
+import DirectoryField from './DirectoryField';
+
+/** One extra detector source as edited: the directory as typed (project-prefix-trimmed). */
+export interface DetectorSourceDraft {
+  name: string;
+  dir: string;
+  format: DetectorFormat;
+}
+
+/** Drafts for a project's saved sources. */
+export function detectorSourceDrafts(projectDir: string, sources: DetectorSource[] = []): DetectorSourceDraft[] {
+  return sources.map(s => ({
+    name: s.name ?? '',
+    dir: trimProjectPrefix(projectDir, resolveProjectPath(projectDir, s.directory)),
+    format: s.format ?? 'buzzdetect',
+  }));
+}
+
+/** The sources to save; drafts without a directory are dropped. Undefined when none are left. */
+export function detectorSourcesFromDrafts(projectDir: string, drafts: DetectorSourceDraft[]): DetectorSource[] | undefined {
+  const sources = drafts
+    .filter(d => d.dir.trim())
+    .map(d => ({
+      name: d.name.trim() || undefined,
+      directory: makeProjectPath(projectDir, resolveInputPath(projectDir, d.dir.trim())),
+      format: d.format === 'buzzdetect' ? undefined : d.format,
+    }));
+  return sources.length > 0 ? sources : undefined;
+}
+
+interface Props {
+  projectDir: string;
+  sources: DetectorSourceDraft[];
+  onChange: (sources: DetectorSourceDraft[]) => void;
+}
+
+// The project's extra detector sources (ProjectSettings.extraDetectorSources),
+// each drawn as its own lane under the first: a lane name, a directory and a
+// format per row.
+export default function DetectorSourcesField({ projectDir, sources, onChange }: Props) {
+  const update = (i: number, patch: Partial<DetectorSourceDraft>) =>
+    onChange(sources.map((s, j) => (j === i ? { ...s, ...patch } : s)));
+
+  return (
+    <div className="mt-3 space-y-3">
+      <label className="text-gray-400 text-sm block">{projectBaseFields.extraSourcesLabel}</label>
+      {sources.map((s, i) => (
+        <div key={i} className="border border-gray-700 rounded-lg p-3 space-y-2">
+          <div className="flex items-center gap-2">
+            <input
+              value={s.name}
+              onChange={e => update(i, { name: e.target.value })}
+              placeholder={projectBaseFields.extraSourceNamePlaceholder}
+              className="flex-1 min-w-0 bg-gray-800 border border-gray-600 rounded-lg px-3 py-1.5 text-white text-sm focus:outline-none focus:border-blue-500"
+            />
+            <select
+              value={s.format}
+              onChange={e => update(i, { format: e.target.value as DetectorFormat })}
+              className="bg-gray-800 border border-gray-600 rounded-lg px-2 py-1.5 text-white text-sm focus:outline-none focus:border-blue-500"
+            >
+              {DETECTOR_FORMATS.map(f => <option key={f} value={f}>{detectorFormatNames[f]}</option>)}
+            </select>
+            <button
+              type="button"
+              onClick={() => onChange(sources.filter((_, j) => j !== i))}
+              className="p-1 text-gray-500 hover:text-white transition-colors"
+              title={projectBaseFields.removeSourceTitle}
+            >
+              <X size={16} />
+            </button>
+          </div>
+          <DirectoryField
+            label={projectBaseFields.extraSourceDirLabel}
+            projectDir={projectDir}
+            value={s.dir}
+            onChange={v => update(i, { dir: v })}
+            notExistMessage="Directory does not exist."
+          />
+        </div>
+      ))}
+      <button
+        type="button"
+        onClick={() => onChange([...sources, { name: '', dir: '', format: 'buzzdetect' }])}
+        className="flex items-center gap-1.5 text-sm text-blue-400 hover:text-blue-300 transition-colors"
+      >
+        <Plus size={14} />
+        {projectBaseFields.addSourceButton}
+      </button>
+    </div>
+  );
+}
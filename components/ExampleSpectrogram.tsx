@@ -2,6 +2,8 @@ import React, { useCallback, useEffect, useRef } from 'react';
 import { SpectrogramSettings } from '../types';
 import { MultiTierSpectrogramCache, swapChunkCache } from '../MultiTierSpectrogramCache';
 import { drawSpectrogramChunk, freqToY, freqAxisTicks } from '../utils/audioProcessing';
+import { colormapLut } from '../utils/colormaps';
+import { freqBinCount, stftOptionsKey, stftOptionsOf } from '../utils/stftOptions';
 import { chooseTimeStep, formatRulerTime } from '../utils/timeAxis';
 import type { CurrentTimeStore } from '../utils/currentTimeStore';
 
@@ -160,7 +162,7 @@ export default function ExampleSpectrogram({ filePath, sampleRate, duration, set
     const cps = tier.colsPerSec;
 
     const bbWidth = Math.max(1, Math.ceil(duration * cps));
-    let nFreqBins = settings.fftSize / 2;
+    let nFreqBins = freqBinCount(cache.fftSize, cache.stft.zeroPadding);
     const probe = cache.getChunkWithFallback(0, tier.tier);
     if (probe) nFreqBins = probe.chunk.nFreqBins;
 
@@ -194,19 +196,23 @@ export default function ExampleSpectrogram({ filePath, sampleRate, duration, set
       offscreen.width, offscreen.height,
       settings.minFreq, settings.maxFreq, sampleRate, settings.frequencyScale,
       settings.displayFloor, settings.displayCeil,
+      colormapLut(settings.colormap, settings.customColormap),
       colBuilt,
     );
     paint();
     drawYAxis();
   }, [duration, sampleRate, settings, paint, drawYAxis]);
 
-  // (Re)create the cache when the clip or FFT size changes. The onChunkLoaded
-  // callback bumps a version and re-renders as chunks stream in.
+  // (Re)create the cache when the clip, FFT size or analysis options change.
+  // The onChunkLoaded callback bumps a version and re-renders as chunks stream in.
+  const stft = stftOptionsOf(settings);
+  const stftKey = stftOptionsKey(stft);
   useEffect(() => {
     if (!filePath || duration <= 0) return;
     const cache = new MultiTierSpectrogramCache(
       filePath, settings.fftSize, sampleRate, duration,
       () => { cacheVersionRef.current += 1; renderSpectrogram(); },
+      null, stft,
     );
     swapChunkCache(cacheRef, cache);
     renderSpectrogram();
@@ -215,7 +221,7 @@ export default function ExampleSpectrogram({ filePath, sampleRate, duration, set
     // settings-only change is handled by the separate effect below (no need to
     // throw away the cache and re-decode).
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [filePath, sampleRate, duration, settings.fftSize]);
+  }, [filePath, sampleRate, duration, settings.fftSize, stftKey]);
 
   // Re-render (not re-decode) when display settings change.
   useEffect(() => { renderSpectrogram(); }, [renderSpectrogram]);
@@ -0,0 +1,161 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { exportAnnotationsModal as copy } from '../copy/ui';
+import { Annotation, AnnotationTool } from '../types';
+import { buildLabelMatcher, LabelMatcher } from '../utils/helpers';
+import { AnnotationTableRow, collectAnnotationTable, folderIdentsOf } from '../utils/annotationTable';
+import SettingsModalShell from './SettingsModalShell';
+
+interface Props {
+  annotationDir: string;
+  mediaRoot: string;
+  allTracks: string[];
+  annotationTools: AnnotationTool[];
+  // The open track's in-memory annotations, which may be ahead of its file.
+  annotations: Annotation[];
+  ident: string | null;
+  getIdent: (trackFilePath: string) => string | null;
+  filenameTimeFormat?: string;
+  /** Folder ident to start filtered to; '' (default) is the whole project. */
+  initialFolder?: string;
+  onClose: () => void;
+  onExport: (rows: AnnotationTableRow[]) => void;
+}
+
+// Project-wide export: every annotation in the project (or one folder's
+// subtree), optionally filtered by label, flattened into one CSV table. The
+// row count previews live as the filters change, the same way Find Label
+// streams its results.
+export default function ExportAnnotationsModal({
+  annotationDir, mediaRoot, allTracks, annotationTools, annotations, ident, getIdent,
+  filenameTimeFormat, initialFolder = '', onClose, onExport,
+}: Props) {
+  const [folder, setFolder] = useState(initialFolder);
+  const [query, setQuery] = useState('');
+  const [useRegex, setUseRegex] = useState(false);
+  const [partial, setPartial] = useState(false);
+  const [rows, setRows] = useState<AnnotationTableRow[] | null>(null);
+  const [scanning, setScanning] = useState(false);
+  const [error, setError] = useState('');
+
+  const folders = useMemo(() => {
+    const idents = allTracks.map(t => getIdent(t)).filter((i): i is string => i !== null);
+    const list = folderIdentsOf(idents);
+    // A folder opened from the file tree may hold no media of its own yet.
+    return initialFolder && !list.includes(initialFolder) ? [initialFolder, ...list] : list;
+  }, [allTracks, getIdent, initialFolder]);
+
+  useEffect(() => {
+    const label = query.trim();
+    let matcher: LabelMatcher | null = null;
+    if (label) {
+      matcher = buildLabelMatcher(label, { useRegex, partial });
+      if (!matcher) {
+        setRows(null);
+        setScanning(false);
+        setError(copy.invalidRegexError);
+        return;
+      }
+    }
+    setError('');
+    setScanning(true);
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const collected = await collectAnnotationTable({
+          annotationDir,
+          mediaRoot,
+          mediaFiles: allTracks,
+          tools: annotationTools,
+          filter: { matcher, folder },
+          filenameTimeFormat,
+          live: ident ? { ident, annotations } : null,
+        });
+        if (!cancelled) setRows(collected);
+      } catch (err) {
+        if (!cancelled) { setRows(null); setError(`Export failed: ${String(err)}`); }
+      } finally {
+        if (!cancelled) setScanning(false);
+      }
+    }, 300);
+    return () => { cancelled = true; clearTimeout(timer); };
+  }, [query, useRegex, partial, folder, annotationDir, mediaRoot, allTracks, annotationTools, filenameTimeFormat, ident, annotations]);
+
+  const trackCount = useMemo(() => new Set(rows?.map(r => r.ident)).size, [rows]);
+
+  return (
+    <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50">
+      <SettingsModalShell
+        title={copy.title}
+        onClose={onClose}
+        footer={
+          <>
+            <button onClick={onClose} className="px-4 py-2 text-gray-400 hover:text-white transition-colors text-sm">
+              {copy.cancelButton}
+            </button>
+            <button
+              onClick={() => rows && onExport(rows)}
+              disabled={scanning || !rows || rows.length === 0}
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-500 disabled:opacity-50 text-white rounded-lg text-sm transition-colors"
+            >
+              {copy.exportButton}
+            </button>
+          </>
+        }
+      >
+        <div>
+          <label className="text-gray-400 text-sm block mb-1">{copy.folderField}</label>
+          <select
+            value={folder}
+            onChange={e => setFolder(e.target.value)}
+            className="w-full bg-gray-800 border border-gray-600 rounded-lg px-3 py-2 text-white text-sm focus:outline-none focus:border-blue-500"
+          >
+            <option value="">{copy.wholeProject}</option>
+            {folders.map(f => <option key={f} value={f}>{f}</option>)}
+          </select>
+        </div>
+
+        <div>
+          <div className="flex items-center justify-between mb-1">
+            <label className="text-gray-400 text-sm">{copy.labelField}</label>
+            <div className="flex items-center gap-3">
+              <label className="flex items-center gap-1.5 text-gray-400 text-xs cursor-pointer select-none">
+                <input
+                  type="checkbox"
+                  checked={partial}
+                  onChange={e => setPartial(e.target.checked)}
+                  className="accent-blue-500"
+                />
+                {copy.partialCheckboxLabel}
+              </label>
+              <label className="flex items-center gap-1.5 text-gray-400 text-xs cursor-pointer select-none">
+                <input
+                  type="checkbox"
+                  checked={useRegex}
+                  onChange={e => setUseRegex(e.target.checked)}
+                  className="accent-blue-500"
+                />
+                {copy.regexCheckboxLabel}
+              </label>
+            </div>
+          </div>
+          <input
+            type="text"
+            autoFocus
+            value={query}
+            onChange={e => setQuery(e.target.value)}
+            placeholder={copy.labelPlaceholder}
+            className="w-full bg-gray-800 border border-gray-600 rounded-lg px-3 py-2 text-white text-sm focus:outline-none focus:border-blue-500"
+          />
+        </div>
+
+        <div>
+          {scanning && <p className="text-gray-500 text-sm">{copy.scanningLabel}</p>}
+          {!scanning && rows && <p className="text-gray-300 text-sm">{copy.rowCount(rows.length, trackCount)}</p>}
+          {!filenameTimeFormat && <p className="text-gray-500 text-xs mt-1">{copy.noWallClock}</p>}
+        </div>
+
+        {error && <p className="text-red-400 text-sm">{error}</p>}
+      </SettingsModalShell>
+    </div>
+  );
+}
@@ -1,8 +1,10 @@
 import React, { useState, useEffect, useLayoutEffect, useMemo, useCallback, useRef } from 'react';
 import { ChevronRight, ChevronDown, ChevronLeft, ChevronsLeft, ArrowRight, Music, Film, FolderOpen, PanelLeft, EyeOff } from 'lucide-react';
-import { FilePanelHeaderButtons } from './controls/FilePanelHeaderButtons';
-import { fileTree as copy } from '../copy/ui';
+import { FilePanelHeaderButtons, type FileFilter } from './controls/FilePanelHeaderButtons';
+import { fileTree as copy, trackStatusBadges, trackStatusLabels } from '../copy/ui';
 import { tooltips } from '../copy/tooltips';
+import type { AnnotationExportFormat, TrackStatus, TrackStatusEntry } from '../types';
+import { TRACK_STATUSES, effectiveTrackStatus } from '../utils/trackStatus';
 
 interface TreeNode {
   name: string;
@@ -28,12 +30,20 @@ interface FileTreeProps {
   shuffleMode: boolean;
   onToggleShuffle: () => void;
   annotatedTracks: Set<string>;
-  fileFilter: 'all' | 'annotated' | 'unannotated';
+  /** Track-status records (utils/trackStatus.ts) by file path, shown as badges. */
+  trackStatuses?: Map<string, TrackStatusEntry>;
+  /** Set a track's status from its context menu. Omitted = no status entries. */
+  onSetTrackStatus?: (path: string, status: TrackStatus) => void;
+  /** Assign a track to someone ('' unassigns) from its context menu. */
+  onAssignTrack?: (path: string, assignee: string) => void;
+  fileFilter: FileFilter;
   onToggleFileFilter: () => void;
   onRevealInFinder: (path: string) => void;
   onRevealAnnotations: (audioFilePath: string) => void;
   onRevealAnnotationsRoot?: () => void;
   onImportAnnotations: (audioFilePath: string) => void;
+  onExportAnnotations?: (audioFilePath: string, format: AnnotationExportFormat) => void;
+  onExportAnnotationTable?: (folderPath: string) => void;
   onRefresh: () => void;
   initialEnteredFolderPath?: string | null;
   onEnteredFolderChange?: (path: string | null) => void;
@@ -61,6 +71,55 @@ import { stripExt, basename } from '../utils/helpers';
 const isWindows = typeof navigator !== 'undefined' && navigator.userAgent.toLowerCase().includes('windows');
 const finderLabel = isWindows ? 'File Explorer' : 'Finder';
 
+const STATUS_BADGE_CLASS: Record<TrackStatus, string> = {
+  'not-started': 'bg-slate-700 text-slate-300',
+  'in-progress': 'bg-sky-900/70 text-sky-300',
+  done: 'bg-emerald-900/70 text-emerald-300',
+  'needs-review': 'bg-amber-900/70 text-amber-300',
+};
+
+// A file row's status badge; nothing for tracks without a record.
+function TrackStatusBadge({ entry }: { entry: TrackStatusEntry | undefined }) {
+  if (!entry) return null;
+  const tooltip = [entry.status && trackStatusLabels[entry.status], entry.assignee && copy.assignedTo(entry.assignee)]
+    .filter(Boolean).join(' · ');
+  return (
+    <span className="flex items-center gap-1 flex-none" data-tooltip={tooltip}>
+      {entry.status && (
+        <span className={`text-[9px] leading-none px-1 py-0.5 rounded ${STATUS_BADGE_CLASS[entry.status]}`}>
+          {trackStatusBadges[entry.status]}
+        </span>
+      )}
+      {entry.assignee && (
+        <span className="text-[9px] text-slate-500 max-w-[4rem] truncate">{entry.assignee}</span>
+      )}
+    </span>
+  );
+}
+
+// The context menu's assignee field: Enter saves (empty unassigns), Escape
+// closes without saving.
+function AssigneeInput({ initial, onCommit, onCancel }: {
+  initial: string;
+  onCommit: (assignee: string) => void;
+  onCancel: () => void;
+}) {
+  const [value, setValue] = useState(initial);
+  return (
+    <input
+      type="text"
+      value={value}
+      onChange={(e) => setValue(e.target.value)}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') onCommit(value.trim());
+        else if (e.key === 'Escape') onCancel();
+      }}
+      placeholder={copy.assignPlaceholder}
+      className="w-full bg-slate-900 border border-slate-600 rounded px-2 py-1 text-xs text-slate-200 focus:outline-none focus:border-slate-400"
+    />
+  );
+}
+
 function computeFileCount(node: TreeNode): number {
   if (!node.isDir) return 1;
   let count = 0;
@@ -160,6 +219,7 @@ interface TreeItemProps {
   expandedDirs: Set<string>;
   toggleDir: (path: string) => void;
   annotatedTracks: Set<string>;
+  trackStatuses?: Map<string, TrackStatusEntry>;
   ancestorPaths: Set<string>;
   onContextMenu: (e: React.MouseEvent, path: string, isDir: boolean) => void;
   onEnterFolder: (path: string) => void;
@@ -175,6 +235,7 @@ const TreeItem: React.FC<TreeItemProps> = ({
   expandedDirs,
   toggleDir,
   annotatedTracks,
+  trackStatuses,
   ancestorPaths,
   onContextMenu,
   onEnterFolder,
@@ -229,6 +290,7 @@ const TreeItem: React.FC<TreeItemProps> = ({
             expandedDirs={expandedDirs}
             toggleDir={toggleDir}
             annotatedTracks={annotatedTracks}
+            trackStatuses={trackStatuses}
             ancestorPaths={ancestorPaths}
             onContextMenu={onContextMenu}
             onEnterFolder={onEnterFolder}
@@ -309,6 +371,7 @@ const TreeItem: React.FC<TreeItemProps> = ({
         : <Film size={12} className="flex-none opacity-70" />
       }
       <span className="text-xs truncate flex-1">{node.name}</span>
+      <TrackStatusBadge entry={trackStatuses?.get(node.path)} />
     </button>
   );
 };
@@ -328,12 +391,17 @@ function FileTree({
   shuffleMode,
   onToggleShuffle,
   annotatedTracks,
+  trackStatuses,
+  onSetTrackStatus,
+  onAssignTrack,
   fileFilter,
   onToggleFileFilter,
   onRevealInFinder,
   onRevealAnnotations,
   onRevealAnnotationsRoot,
   onImportAnnotations,
+  onExportAnnotations,
+  onExportAnnotationTable,
   onRefresh,
   initialEnteredFolderPath,
   onEnteredFolderChange,
@@ -721,7 +789,7 @@ function FileTree({
         {rootDirectory && effectiveTotalFiles.length > 0 && effectiveFiles.length === 0 && (
           <div className="flex flex-col items-center justify-center h-full text-slate-600 px-4 text-center">
             <EyeOff size={28} className="mb-2 opacity-50" />
-            <p className="text-sm">{copy.noFilesMatchFilter(fileFilter as 'annotated' | 'unannotated')}</p>
+            <p className="text-sm">{copy.noFilesMatchFilter(fileFilter as Exclude<FileFilter, 'all'>)}</p>
           </div>
         )}
 
@@ -801,6 +869,7 @@ function FileTree({
                       : <Film size={12} className="flex-none opacity-70" />
                     }
                     <span className="text-xs truncate flex-1">{relNoExt}</span>
+                    <TrackStatusBadge entry={trackStatuses?.get(filePath)} />
                   </button>
                 );
               })}
@@ -828,6 +897,7 @@ function FileTree({
                   expandedDirs={expandedDirs}
                   toggleDir={toggleDir}
                   annotatedTracks={annotatedTracks}
+                  trackStatuses={trackStatuses}
                   ancestorPaths={ancestorPaths}
                   onContextMenu={handleContextMenu}
                   onEnterFolder={enterFolder}
@@ -938,6 +1008,63 @@ function FileTree({
               {copy.importAnnotations}
             </button>
           )}
+          {!contextMenu.isDir && onSetTrackStatus && isSupportedMediaFile(contextMenu.path) && (() => {
+            const current = effectiveTrackStatus(trackStatuses?.get(contextMenu.path), annotatedTracks.has(contextMenu.path));
+            return (
+              <div className="border-t border-slate-700 my-1 pt-1">
+                <div className="px-3 py-1 text-[10px] uppercase tracking-wider text-slate-500">{copy.statusHeader}</div>
+                {TRACK_STATUSES.map(status => (
+                  <button
+                    key={status}
+                    className="flex items-center gap-2 w-full px-3 py-1.5 text-sm text-slate-200 hover:bg-slate-700 text-left"
+                    onClick={() => {
+                      onSetTrackStatus(contextMenu.path, status);
+                      setContextMenu(null);
+                    }}
+                  >
+                    <span className={`w-2 h-2 rounded-full flex-none ${status === current ? 'bg-[#e65161]' : 'bg-slate-600'}`} />
+                    {trackStatusLabels[status]}
+                  </button>
+                ))}
+              </div>
+            );
+          })()}
+          {!contextMenu.isDir && onAssignTrack && isSupportedMediaFile(contextMenu.path) && (
+            <div className="border-t border-slate-700 my-1 px-3 pt-1 pb-1.5">
+              <div className="py-1 text-[10px] uppercase tracking-wider text-slate-500">{copy.assignHeader}</div>
+              <AssigneeInput
+                key={contextMenu.path}
+                initial={trackStatuses?.get(contextMenu.path)?.assignee ?? ''}
+                onCommit={(assignee) => {
+                  onAssignTrack(contextMenu.path, assignee);
+                  setContextMenu(null);
+                }}
+                onCancel={() => setContextMenu(null)}
+              />
+            </div>
+          )}
+          {!contextMenu.isDir && onExportAnnotations && annotatedTracks.has(contextMenu.path) && (
+            <>
+              <button
+                className="flex items-center gap-2 w-full px-3 py-2 text-sm text-slate-200 hover:bg-slate-700 text-left"
+                onClick={() => {
+                  onExportAnnotations(contextMenu.path, 'audacity');
+                  setContextMenu(null);
+                }}
+              >
+                {copy.exportAudacity}
+              </button>
+              <button
+                className="flex items-center gap-2 w-full px-3 py-2 text-sm text-slate-200 hover:bg-slate-700 text-left"
+                onClick={() => {
+                  onExportAnnotations(contextMenu.path, 'raven');
+                  setContextMenu(null);
+                }}
+              >
+                {copy.exportRaven}
+              </button>
+            </>
+          )}
           {!contextMenu.isDir && annotatedTracks.has(contextMenu.path) && (
             <button
               className="flex items-center gap-2 w-full px-3 py-2 text-sm text-slate-200 hover:bg-slate-700 text-left"
@@ -960,6 +1087,17 @@ function FileTree({
               {`Show Annotations in ${finderLabel}`}
             </button>
           )}
+          {contextMenu.isDir && onExportAnnotationTable && (
+            <button
+              className="flex items-center gap-2 w-full px-3 py-2 text-sm text-slate-200 hover:bg-slate-700 text-left"
+              onClick={() => {
+                onExportAnnotationTable(contextMenu.path);
+                setContextMenu(null);
+              }}
+            >
+              {copy.exportFolderTable}
+            </button>
+          )}
           {contextMenu.isAudioRoot && onRevealAnnotationsRoot && (
             <button
               className="flex items-center gap-2 w-full px-3 py-2 text-sm text-slate-200 hover:bg-slate-700 text-left"
@@ -1,104 +1,80 @@
-import React, { useEffect, useMemo, useRef, useState } from 'react';
-import { keyboardShortcutsView as copy } from '../copy/ui';
+import React, { useEffect, useMemo, useState } from 'react';
+import { keyboardShortcutsView as copy, keymapActions, keymapGroups } from '../copy/ui';
 import { isMac, formatModKey } from '../utils/platform';
+import {
+  KEYMAP_ACTIONS, KEYMAP_GROUPS, RESERVED_SHORTCUTS, assignChord, chordFromEvent, chordsEqual,
+  codesForChord, formatChord, keymapConflicts, keymapFromJson, keymapToJson, removeChord,
+  reservedShortcutFor, resetAction, resolveKeymap,
+  type Chord, type KeymapActionId, type KeymapConflict, type KeymapGroup, type KeymapOverrides,
+  type ReservedShortcutId,
+} from '../utils/keymap';
+import { setKeymapOverrides, useKeymapOverrides } from '../utils/keymapStore';
+import { openFileDialog, readTextFile, saveFileDialog, writeTextFile } from '../utils/tauriCommands';
 
 // ---------------------------------------------------------------------------
 // Shortcut data
 // ---------------------------------------------------------------------------
 
+// Shortcuts come from the keymap (utils/keymap.ts): the defaults with the
+// user's overrides applied, so this view is also where they're edited.
+
 type ShortcutEntry = {
-  codes: string[];   // KeyboardEvent.code values for the primary key
-  display: string;   // e.g. "Shift+F"
+  id: KeymapActionId | ReservedShortcutId;
   label: string;
+  chords: Chord[];
+  group: Group;
+  /** False for the reserved shortcuts, which are shown but can't be rebound. */
+  editable: boolean;
+  overridden: boolean;
 };
 
 type Group = {
-  name: string;
+  id: KeymapGroup;
   bg: string;
   ring: string;
   dot: string;
   text: string;
-  shortcuts: ShortcutEntry[];
 };
 
 const GROUPS: Group[] = [
-  {
-    name: 'Playback',
-    bg: 'bg-amber-600', ring: 'ring-amber-400', dot: 'bg-amber-500', text: 'text-amber-300',
-    shortcuts: [
-      { codes: ['Space'], display: 'Space', label: 'Play / Pause' },
-      { codes: ['KeyR'], display: 'R', label: 'Toggle speed (1× ↔ last)' },
-      { codes: ['KeyM'], display: 'M', label: 'Mute / Unmute' },
-    ],
-  },
-  {
-    name: 'Navigation',
-    bg: 'bg-sky-600', ring: 'ring-sky-400', dot: 'bg-sky-500', text: 'text-sky-300',
-    shortcuts: [
-      { codes: ['ArrowLeft'], display: '←', label: 'Scrub backward' },
-      { codes: ['ArrowRight'], display: '→', label: 'Scrub forward' },
-      { codes: ['Comma'], display: ',', label: 'Nudge video forward one frame' },
-      { codes: ['Period'], display: '.', label: 'Nudge video backward one frame' },
-      { codes: ['KeyC'], display: 'C', label: 'Toggle lock playhead to center' },
-      { codes: ['ArrowLeft'], display: '{mod}+←', label: 'Jump to start of track' },
-      { codes: ['ArrowRight'], display: '{mod}+→', label: 'Jump to end of track' },
-      { codes: ['ArrowLeft'], display: 'Alt+←', label: 'Jump to previous annotation' },
-      { codes: ['ArrowRight'], display: 'Alt+→', label: 'Jump to next annotation' },
-      { codes: ['ArrowUp'], display: '{mod}+↑', label: 'Previous track' },
-      { codes: ['ArrowDown'], display: '{mod}+↓', label: 'Next track' },
-    ],
-  },
-  {
-    name: 'Tools',
-    bg: 'bg-violet-600', ring: 'ring-violet-400', dot: 'bg-violet-500', text: 'text-violet-300',
-    shortcuts: [
-      { codes: ['Digit0','Digit1','Digit2','Digit3','Digit4','Digit5','Digit6','Digit7','Digit8','Digit9'], display: '0–9', label: 'Ready annotation tool' },
-      { codes: ['KeyS'], display: 'S', label: 'Selection mode (unready tools)' },
-      { codes: ['KeyS'], display: 'Shift+S', label: 'Subset track to buzzdetect detections' },
-      { codes: ['KeyE'], display: 'E', label: 'Play / stop example clip for active tool' },
-      { codes: ['KeyF'], display: 'Shift+F', label: 'Ready audio filter tool' },
-      { codes: ['KeyF'], display: 'F', label: 'Toggle audio filtering' },
-      { codes: ['KeyZ'], display: 'Shift+Z', label: 'Ready video zoom tool' },
-      { codes: ['KeyZ'], display: 'Z', label: 'Toggle video zoom' },
-      { codes: ['Equal'], display: '= / +', label: 'Zoom video in' },
-      { codes: ['Minus'], display: '-', label: 'Zoom video out' },
-      { codes: ['Escape'], display: 'Esc', label: 'Undo activated tool/selection' },
-      { codes: ['KeyH'], display: 'H (hold)', label: 'Hide annotation labels' },
-    ],
-  },
-  {
-    name: 'Annotations',
-    bg: 'bg-emerald-600', ring: 'ring-emerald-400', dot: 'bg-emerald-500', text: 'text-emerald-300',
-    shortcuts: [
-      { codes: ['KeyA'], display: '{mod}+A', label: 'Select whole track' },
-      { codes: ['Delete','Backspace'], display: 'Del / Bksp', label: 'Remove selected annotation' },
-      { codes: ['KeyZ'], display: '{mod}+Z', label: 'Undo' },
-      { codes: ['KeyZ'], display: '{mod}+Shift+Z', label: 'Redo' },
-      { codes: ['KeyY'], display: '{mod}+Y', label: 'Redo' },
-    ],
-  },
-  {
-    name: 'App',
-    bg: 'bg-slate-500', ring: 'ring-slate-300', dot: 'bg-slate-400', text: 'text-slate-300',
-    shortcuts: [
-      { codes: ['F1'], display: 'F1', label: 'Open the help guide' },
-      { codes: ['Slash'], display: '? (hold)', label: 'Quick tooltips on hover' },
-    ],
-  },
+  { id: 'playback', bg: 'bg-amber-600', ring: 'ring-amber-400', dot: 'bg-amber-500', text: 'text-amber-300' },
+  { id: 'navigation', bg: 'bg-sky-600', ring: 'ring-sky-400', dot: 'bg-sky-500', text: 'text-sky-300' },
+  { id: 'tools', bg: 'bg-violet-600', ring: 'ring-violet-400', dot: 'bg-violet-500', text: 'text-violet-300' },
+  { id: 'annotations', bg: 'bg-emerald-600', ring: 'ring-emerald-400', dot: 'bg-emerald-500', text: 'text-emerald-300' },
+  { id: 'app', bg: 'bg-slate-500', ring: 'ring-slate-300', dot: 'bg-slate-400', text: 'text-slate-300' },
 ];
 
-const ALL_SHORTCUTS = GROUPS.flatMap(g =>
-  g.shortcuts.map(s => ({ ...s, group: g }))
-);
+const GROUP_BY_ID = new Map(GROUPS.map(g => [g.id, g]));
+
+const labelFor = (id: KeymapActionId | ReservedShortcutId) => keymapActions[id];
+
+// Every shortcut in list order: each group's actions, then its reserved keys.
+function buildEntries(overrides: KeymapOverrides): ShortcutEntry[] {
+  const keymap = resolveKeymap(overrides);
+  return KEYMAP_GROUPS.flatMap(groupId => {
+    const group = GROUP_BY_ID.get(groupId)!;
+    return [
+      ...KEYMAP_ACTIONS.filter(a => a.group === groupId).map(a => ({
+        id: a.id, label: labelFor(a.id), chords: keymap[a.id], group, editable: true, overridden: a.id in overrides,
+      })),
+      ...RESERVED_SHORTCUTS.filter(r => r.group === groupId).map(r => ({
+        id: r.id, label: labelFor(r.id), chords: r.chords, group, editable: false, overridden: false,
+      })),
+    ];
+  });
+}
 
 // First group to claim each code — used for key color on the keyboard
-const CODE_TO_GROUP = new Map<string, Group>();
-for (const g of GROUPS) {
-  for (const s of g.shortcuts) {
-    for (const code of s.codes) {
-      if (!CODE_TO_GROUP.has(code)) CODE_TO_GROUP.set(code, g);
+function codeToGroupOf(entries: ShortcutEntry[]): Map<string, Group> {
+  const map = new Map<string, Group>();
+  for (const s of entries) {
+    for (const chord of s.chords) {
+      for (const code of codesForChord(chord)) {
+        if (!map.has(code)) map.set(code, s.group);
+      }
     }
   }
+  return map;
 }
 
 // The keyboard-side codes for the primary modifier ({mod}): ⌘ on macOS, Ctrl elsewhere.
@@ -106,24 +82,26 @@ const MOD_CODES = isMac
   ? ['MetaLeft', 'MetaRight']
   : ['ControlLeft', 'ControlRight'];
 
+const hasMod = (s: ShortcutEntry, mod: 'mod' | 'shift' | 'alt') => s.chords.some(c => c.mods?.includes(mod));
+
 // All codes to highlight when a specific shortcut is hovered
 function codesForShortcut(s: ShortcutEntry): Set<string> {
-  const set = new Set(s.codes);
-  if (s.display.includes('Shift+')) { set.add('ShiftLeft'); set.add('ShiftRight'); }
-  if (s.display.includes('Alt+'))   { set.add('AltLeft'); set.add('AltRight'); }
-  if (s.display.includes('{mod}'))  { MOD_CODES.forEach(c => set.add(c)); }
+  const set = new Set(s.chords.flatMap(codesForChord));
+  if (hasMod(s, 'shift')) { set.add('ShiftLeft'); set.add('ShiftRight'); }
+  if (hasMod(s, 'alt'))   { set.add('AltLeft'); set.add('AltRight'); }
+  if (hasMod(s, 'mod'))   { MOD_CODES.forEach(c => set.add(c)); }
   return set;
 }
 
 // All shortcuts matching a hovered key code
-function shortcutsForCode(code: string) {
+function shortcutsForCode(entries: ShortcutEntry[], code: string) {
   if (code === 'ShiftLeft' || code === 'ShiftRight')
-    return ALL_SHORTCUTS.filter(s => s.display.includes('Shift+'));
+    return entries.filter(s => hasMod(s, 'shift'));
   if (code === 'AltLeft' || code === 'AltRight')
-    return ALL_SHORTCUTS.filter(s => s.display.includes('Alt+'));
+    return entries.filter(s => hasMod(s, 'alt'));
   if (MOD_CODES.includes(code))
-    return ALL_SHORTCUTS.filter(s => s.display.includes('{mod}'));
-  return ALL_SHORTCUTS.filter(s => s.codes.includes(code));
+    return entries.filter(s => hasMod(s, 'mod'));
+  return entries.filter(s => s.chords.some(c => codesForChord(c).includes(code)));
 }
 
 // ---------------------------------------------------------------------------
@@ -304,10 +282,12 @@ function KeyCap({
 // ---------------------------------------------------------------------------
 
 function KeyboardDisplay({
+  codeToGroup,
   activeCodes,
   anyHovered,
   onHoverKey,
 }: {
+  codeToGroup: Map<string, Group>;
   activeCodes: Set<string>;
   anyHovered: boolean;
   onHoverKey: (code: string | null) => void;
@@ -337,7 +317,7 @@ function KeyboardDisplay({
                 label={keyLabel(k)}
                 flex={k.flex}
                 small={k.small}
-                group={CODE_TO_GROUP.get(k.code)}
+                group={codeToGroup.get(k.code)}
                 active={activeCodes.has(k.code)}
                 dimmed={anyHovered && !activeCodes.has(k.code)}
                 onEnter={() => onHoverKey(k.code)}
@@ -365,7 +345,7 @@ function KeyboardDisplay({
               code={ak.code}
               label={ak.label}
               fixedPx={ARROW_KEY_PX}
-              group={CODE_TO_GROUP.get(ak.code)}
+              group={codeToGroup.get(ak.code)}
               active={activeCodes.has(ak.code)}
               dimmed={anyHovered && !activeCodes.has(ak.code)}
               onEnter={() => onHoverKey(ak.code)}
@@ -382,42 +362,59 @@ function KeyboardDisplay({
 // ShortcutList
 // ---------------------------------------------------------------------------
 
+/** A chord being recorded: replacing `index` of action `id`'s chords, or adding one (null). */
+type Recording = { id: KeymapActionId; index: number | null };
+
+type RowEditing = {
+  recording: Recording | null;
+  conflicts: KeymapConflict[];
+  onRecord: (recording: Recording) => void;
+  onRemove: (id: KeymapActionId, index: number) => void;
+  onReset: (id: KeymapActionId) => void;
+};
+
 function ShortcutList({
+  entries,
   filteredIndices,
   highlightedIndex,
   onHoverShortcut,
+  editing,
 }: {
+  entries: ShortcutEntry[];
   filteredIndices: number[] | null;
   highlightedIndex: number | null;
   onHoverShortcut: (index: number | null) => void;
+  editing: RowEditing;
 }) {
   const showAll = filteredIndices === null;
 
-  // Group ALL_SHORTCUTS by group for the "show all" view
+  // Group entries by group for the "show all" view
   const grouped = GROUPS.map(g => ({
     group: g,
-    entries: ALL_SHORTCUTS
+    entries: entries
       .map((s, i) => ({ ...s, index: i }))
       .filter(s => s.group === g),
   }));
 
+  const row = (s: ShortcutEntry, i: number) => (
+    <ShortcutRow
+      key={s.id}
+      entry={s}
+      highlighted={highlightedIndex === i}
+      onEnter={() => onHoverShortcut(i)}
+      onLeave={() => onHoverShortcut(null)}
+      editing={editing}
+    />
+  );
+
   return (
     <div className="overflow-y-auto flex-1 min-h-0 space-y-3 pr-1">
       {showAll ? (
-        grouped.map(({ group: g, entries }) => (
-          <div key={g.name}>
-            <p className={`text-[9px] uppercase tracking-wider font-semibold mb-1.5 ${g.text}`}>{g.name}</p>
+        grouped.map(({ group: g, entries: groupEntries }) => (
+          <div key={g.id}>
+            <p className={`text-[9px] uppercase tracking-wider font-semibold mb-1.5 ${g.text}`}>{keymapGroups[g.id]}</p>
             <div className="space-y-1">
-              {entries.map(s => (
-                <ShortcutRow
-                  key={s.index}
-                  display={s.display}
-                  label={s.label}
-                  highlighted={highlightedIndex === s.index}
-                  onEnter={() => onHoverShortcut(s.index)}
-                  onLeave={() => onHoverShortcut(null)}
-                />
-              ))}
+              {groupEntries.map(s => row(s, s.index))}
             </div>
           </div>
         ))
@@ -425,37 +422,99 @@ function ShortcutList({
         <p className="text-slate-500 text-xs italic">{copy.noShortcuts}</p>
       ) : (
         <div className="space-y-1">
-          {filteredIndices.map(i => {
-            const s = ALL_SHORTCUTS[i];
-            return (
-              <ShortcutRow
-                key={i}
-                display={s.display}
-                label={s.label}
-                highlighted={highlightedIndex === i}
-                onEnter={() => onHoverShortcut(i)}
-                onLeave={() => onHoverShortcut(null)}
-              />
-            );
-          })}
+          {filteredIndices.map(i => row(entries[i], i))}
         </div>
       )}
     </div>
   );
 }
 
-function ShortcutRow({ display, label, highlighted, onEnter, onLeave }: {
-  display: string; label: string;
+function ShortcutRow({ entry, highlighted, onEnter, onLeave, editing }: {
+  entry: ShortcutEntry;
   highlighted: boolean; onEnter: () => void; onLeave: () => void;
+  editing: RowEditing;
 }) {
+  const { recording, conflicts, onRecord, onRemove, onReset } = editing;
+  const id = entry.id as KeymapActionId;
+  const isRecording = (index: number | null) =>
+    entry.editable && recording?.id === id && recording.index === index;
+
+  // Other shortcuts sharing this chord, for the conflict tooltip.
+  const conflictWith = (chord: Chord) => {
+    const conflict = conflicts.find(c => c.ids.includes(entry.id) && chordsEqual(c.chord, chord));
+    return conflict ? conflict.ids.filter(other => other !== entry.id).map(labelFor) : [];
+  };
+
+  const startRecording = (e: React.MouseEvent<HTMLButtonElement>, index: number | null) => {
+    // Drop focus so the recorded Space/Enter doesn't also click the button.
+    e.currentTarget.blur();
+    onRecord({ id, index });
+  };
+
+  const chip = (chord: Chord, index: number) => {
+    const others = conflictWith(chord);
+    const colors = others.length > 0 ? 'bg-red-700 text-red-100' : 'bg-slate-600 text-slate-300';
+    const text = formatModKey(formatChord(chord));
+    if (!entry.editable) {
+      return (
+        <span key={index} className={`font-mono text-[10px] px-1 rounded whitespace-nowrap ${colors}`} title={copy.fixed}>{text}</span>
+      );
+    }
+    return (
+      <span key={index} className={`group/chip inline-flex items-center rounded whitespace-nowrap ${isRecording(index) ? 'bg-sky-700 text-white' : colors}`}>
+        <button
+          className="font-mono text-[10px] px-1"
+          title={others.length > 0 ? copy.alsoBoundTo(others.join(', ')) : copy.recordHint}
+          onClick={(e) => startRecording(e, index)}
+        >
+          {isRecording(index) ? copy.recordPrompt : text}
+        </button>
+        <button
+          className="hidden group-hover/chip:inline text-[10px] pr-1 text-slate-400 hover:text-white"
+          title={copy.removeShortcut}
+          onClick={() => onRemove(id, index)}
+        >
+          ×
+        </button>
+      </span>
+    );
+  };
+
   return (
     <div
       className={`grid grid-cols-[1fr_auto] items-center gap-3 rounded px-1 py-0.5 cursor-default transition-colors ${highlighted ? 'bg-slate-700' : ''}`}
       onMouseEnter={onEnter}
       onMouseLeave={onLeave}
     >
-      <span className="text-[11px] text-slate-400 truncate">{label}</span>
-      <span className="font-mono text-[10px] text-slate-300 bg-slate-600 px-1 rounded whitespace-nowrap">{formatModKey(display)}</span>
+      <span className="text-[11px] text-slate-400 truncate">{entry.label}</span>
+      <span className="flex items-center gap-1 flex-wrap justify-end">
+        {entry.chords.map(chip)}
+        {entry.editable && entry.chords.length === 0 && !isRecording(null) && (
+          <span className="text-[10px] text-slate-500 italic">{copy.unbound}</span>
+        )}
+        {entry.editable && (
+          isRecording(null) ? (
+            <span className="font-mono text-[10px] px-1 rounded bg-sky-700 text-white whitespace-nowrap">{copy.recordPrompt}</span>
+          ) : (
+            <button
+              className="text-[10px] px-1 rounded text-slate-500 hover:text-white hover:bg-slate-600"
+              title={copy.addShortcut}
+              onClick={(e) => startRecording(e, null)}
+            >
+              +
+            </button>
+          )
+        )}
+        {entry.overridden && (
+          <button
+            className="text-[10px] px-1 rounded text-slate-500 hover:text-white hover:bg-slate-600"
+            title={copy.resetShortcut}
+            onClick={() => onReset(id)}
+          >
+            ↺
+          </button>
+        )}
+      </span>
     </div>
   );
 }
@@ -468,9 +527,9 @@ function Legend() {
   return (
     <div className="flex flex-wrap gap-x-3 gap-y-1 mt-1.5">
       {GROUPS.map(g => (
-        <div key={g.name} className="flex items-center gap-1">
+        <div key={g.id} className="flex items-center gap-1">
           <span className={`w-2 h-2 rounded-sm ${g.bg}`} />
-          <span className="text-[9px] text-slate-400">{g.name}</span>
+          <span className="text-[9px] text-slate-400">{keymapGroups[g.id]}</span>
         </div>
       ))}
     </div>
@@ -481,38 +540,128 @@ function Legend() {
 // Main export
 // ---------------------------------------------------------------------------
 
+const KEYMAP_FILE_FILTERS = () => [{ name: copy.keymapFilterName, extensions: ['json'] }];
+
+const errorMessage = (err: unknown) => (err instanceof Error ? err.message : String(err));
+
 export function KeyboardShortcutsView() {
+  const overrides = useKeymapOverrides();
+  const entries = useMemo(() => buildEntries(overrides), [overrides]);
+  const conflicts = useMemo(() => keymapConflicts(resolveKeymap(overrides)), [overrides]);
+  const codeToGroup = useMemo(() => codeToGroupOf(entries), [entries]);
+
   const [keyHover, setKeyHover] = useState<string | null>(null);
   const [shortcutHover, setShortcutHover] = useState<number | null>(null);
+  const [recording, setRecording] = useState<Recording | null>(null);
+  // One line of feedback under the toolbar: a chord moved off another
+  // action, a reserved chord refused, or a file that wouldn't import.
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const save = (next: KeymapOverrides) => {
+    setKeymapOverrides(next).catch(err => setNotice(copy.saveFailed(errorMessage(err))));
+  };
+
+  // While recording, the next keypress is the chord — captured ahead of
+  // every other keydown listener so it doesn't also act as a shortcut here.
+  useEffect(() => {
+    if (!recording) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && !e.shiftKey && !e.altKey && !e.ctrlKey && !e.metaKey) {
+        e.preventDefault();
+        e.stopPropagation();
+        setRecording(null);
+        return;
+      }
+      const chord = chordFromEvent(e, isMac);
+      if (!chord) return;
+      e.preventDefault();
+      e.stopPropagation();
+      setRecording(null);
+      const reserved = reservedShortcutFor(chord);
+      if (reserved) {
+        setNotice(copy.reserved(formatModKey(formatChord(chord)), labelFor(reserved)));
+        return;
+      }
+      const { overrides: next, reassignedFrom } = assignChord(overrides, recording.id, chord, recording.index);
+      setNotice(reassignedFrom.length > 0
+        ? copy.reassigned(formatModKey(formatChord(chord)), reassignedFrom.map(labelFor).join(', '))
+        : null);
+      save(next);
+    };
+    window.addEventListener('keydown', onKeyDown, true);
+    return () => window.removeEventListener('keydown', onKeyDown, true);
+  }, [recording, overrides]);
+
+  const editing: RowEditing = {
+    recording,
+    conflicts,
+    onRecord: (r) => { setNotice(null); setRecording(r); },
+    onRemove: (id, index) => { setNotice(null); save(removeChord(overrides, id, index)); },
+    onReset: (id) => { setNotice(null); save(resetAction(overrides, id)); },
+  };
+
+  const handleImport = async () => {
+    setNotice(null);
+    try {
+      const path = await openFileDialog(null, KEYMAP_FILE_FILTERS());
+      if (!path) return;
+      const text = await readTextFile(path);
+      if (text === null) throw new Error(path);
+      save(keymapFromJson(text));
+    } catch (err) {
+      setNotice(copy.importFailed(errorMessage(err)));
+    }
+  };
+
+  const handleExport = async () => {
+    setNotice(null);
+    try {
+      const path = await saveFileDialog('keymap.json', KEYMAP_FILE_FILTERS());
+      if (path) await writeTextFile(path, keymapToJson(overrides));
+    } catch (err) {
+      setNotice(copy.saveFailed(errorMessage(err)));
+    }
+  };
 
   const activeCodes = useMemo<Set<string>>(() => {
-    if (shortcutHover !== null) return codesForShortcut(ALL_SHORTCUTS[shortcutHover]);
+    if (shortcutHover !== null && entries[shortcutHover]) return codesForShortcut(entries[shortcutHover]);
     if (keyHover) return new Set([keyHover]);
     return new Set();
-  }, [keyHover, shortcutHover]);
+  }, [keyHover, shortcutHover, entries]);
 
   // When hovering a key: filter list to matching shortcuts
   // When hovering a shortcut row: show all, just highlight the hovered row
   const filteredIndices = useMemo<number[] | null>(() => {
     if (shortcutHover !== null) return null; // show all
     if (!keyHover) return null;
-    const matches = shortcutsForCode(keyHover);
-    return matches.map(s => ALL_SHORTCUTS.indexOf(s));
-  }, [keyHover, shortcutHover]);
+    const matches = shortcutsForCode(entries, keyHover);
+    return matches.map(s => entries.indexOf(s));
+  }, [keyHover, shortcutHover, entries]);
 
   const highlightedIndex = shortcutHover;
+  const toolbarButton = 'text-[10px] px-1.5 py-0.5 rounded bg-slate-700 text-slate-300 hover:bg-slate-600 hover:text-white disabled:opacity-40 disabled:hover:bg-slate-700';
 
   return (
     <div className="flex flex-col h-full gap-3">
       <div className="flex-none">
-        <KeyboardDisplay activeCodes={activeCodes} anyHovered={activeCodes.size > 0} onHoverKey={setKeyHover} />
+        <KeyboardDisplay codeToGroup={codeToGroup} activeCodes={activeCodes} anyHovered={activeCodes.size > 0} onHoverKey={setKeyHover} />
         <Legend />
       </div>
       <div className="flex-none h-px bg-slate-700" />
+      <div className="flex-none flex items-center gap-1.5">
+        <span className={`flex-1 min-w-0 truncate text-[10px] ${notice ? 'text-amber-300' : ''}`}>{notice}</span>
+        <button className={toolbarButton} onClick={handleImport}>{copy.importKeymap}</button>
+        <button className={toolbarButton} onClick={handleExport}>{copy.exportKeymap}</button>
+        <button className={toolbarButton} disabled={Object.keys(overrides).length === 0} onClick={() => { setNotice(null); save({}); }}>
+          {copy.resetAll}
+        </button>
+      </div>
       <ShortcutList
+        entries={entries}
         filteredIndices={filteredIndices}
         highlightedIndex={highlightedIndex}
         onHoverShortcut={setShortcutHover}
+        editing={editing}
       />
     </div>
   );
@@ -0,0 +1,124 @@
+import React, { useMemo, useState } from 'react';
+import { Annotation, LabelSubset } from '../types';
+import { DEFAULT_LABEL_SUBSET_PADDING } from '../constants';
+import { formatTime } from '../utils/helpers';
+import { labelSubsetMatcher, labelSubsetTimelineFor } from '../utils/annotationSubset';
+import { findLabelModal, labelSubsetModal as copy } from '../copy/ui';
+import DraftNumberInput from './DraftNumberInput';
+import SettingsModalShell from './SettingsModalShell';
+
+interface Props {
+  /** The open track's annotations, in source time: what the preview counts. */
+  annotations: Annotation[];
+  duration: number;
+  /** The last subset applied, which the fields start from. */
+  subset: LabelSubset | null;
+  active: boolean;
+  onApply: (subset: LabelSubset) => void;
+  onClear: () => void;
+  onClose: () => void;
+}
+
+// Set up a subset keyed to annotation labels (utils/annotationSubset.ts): the
+// label query, matched as Find Label matches it, and the padding kept either
+// side. The preview is the timeline the subset would build on this track.
+export default function LabelSubsetModal({ annotations, duration, subset, active, onApply, onClear, onClose }: Props) {
+  const [draft, setDraft] = useState<LabelSubset>(
+    () => subset ?? { label: '', useRegex: false, partial: false, padding: DEFAULT_LABEL_SUBSET_PADDING },
+  );
+  const invalid = draft.label.trim() !== '' && labelSubsetMatcher(draft) === null;
+  const preview = useMemo(
+    () => (labelSubsetMatcher(draft) ? labelSubsetTimelineFor(annotations, draft, duration) : null),
+    [annotations, draft, duration],
+  );
+
+  const apply = () => {
+    onApply({ ...draft, label: draft.label.trim() });
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50">
+      <SettingsModalShell
+        title={copy.title}
+        onClose={onClose}
+        footer={
+          <>
+            <button onClick={onClose} className="px-4 py-2 text-gray-400 hover:text-white transition-colors text-sm">
+              {copy.cancelButton}
+            </button>
+            {active && (
+              <button
+                onClick={() => { onClear(); onClose(); }}
+                className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-lg text-sm transition-colors"
+              >
+                {copy.clearButton}
+              </button>
+            )}
+            <button
+              onClick={apply}
+              disabled={!preview}
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-500 disabled:opacity-50 text-white rounded-lg text-sm transition-colors"
+            >
+              {copy.applyButton}
+            </button>
+          </>
+        }
+      >
+        <p className="text-gray-500 text-xs">{copy.intro}</p>
+
+        <div>
+          <div className="flex items-center justify-between mb-1">
+            <label className="text-gray-400 text-sm">{findLabelModal.labelField}</label>
+            <div className="flex items-center gap-3">
+              <label className="flex items-center gap-1.5 text-gray-400 text-xs cursor-pointer select-none">
+                <input
+                  type="checkbox"
+                  checked={draft.partial}
+                  onChange={e => setDraft(d => ({ ...d, partial: e.target.checked }))}
+                  className="accent-blue-500"
+                />
+                {findLabelModal.partialCheckboxLabel}
+              </label>
+              <label className="flex items-center gap-1.5 text-gray-400 text-xs cursor-pointer select-none">
+                <input
+                  type="checkbox"
+                  checked={draft.useRegex}
+                  onChange={e => setDraft(d => ({ ...d, useRegex: e.target.checked }))}
+                  className="accent-blue-500"
+                />
+                {findLabelModal.regexCheckboxLabel}
+              </label>
+            </div>
+          </div>
+          <input
+            type="text"
+            autoFocus
+            value={draft.label}
+            onChange={e => setDraft(d => ({ ...d, label: e.target.value }))}
+            onKeyDown={e => { if (e.key === 'Enter' && preview) apply(); }}
+            placeholder={findLabelModal.labelPlaceholder}
+            className="w-full bg-gray-800 border border-gray-600 rounded-lg px-3 py-2 text-white text-sm focus:outline-none focus:border-blue-500"
+          />
+        </div>
+
+        <label className="text-gray-400 text-sm flex items-center gap-2">
+          {copy.paddingField}
+          <DraftNumberInput
+            value={draft.padding}
+            min={0}
+            onCommit={v => { if (v !== null) setDraft(d => ({ ...d, padding: v })); }}
+            className="w-20 bg-gray-800 border border-gray-600 rounded-lg px-2 py-1 text-white text-sm text-right focus:outline-none focus:border-blue-500"
+          />
+        </label>
+
+        {invalid && <p className="text-red-400 text-sm">{findLabelModal.invalidRegexError}</p>}
+        {preview && (
+          <p className="text-gray-500 text-sm">
+            {preview.spans.length === 0 ? copy.noMatches : copy.preview(preview.spans.length, formatTime(preview.duration))}
+          </p>
+        )}
+      </SettingsModalShell>
+    </div>
+  );
+}
@@ -0,0 +1,321 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { GripHorizontal } from 'lucide-react';
+import { BandPassFilter, Selection, SpectrogramSettings } from '../types';
+import {
+  MIN_POWER_SPECTRUM_PANEL_HEIGHT, MAX_POWER_SPECTRUM_PANEL_HEIGHT, MAX_POWER_SPECTRUM_SEC, Y_AXIS_WIDTH,
+} from '../constants';
+import { clamp } from '../utils/helpers';
+import { freqAxisTicks, freqToY, yToFreq } from '../utils/audioProcessing';
+import { stftOptionsOf } from '../utils/stftOptions';
+import { viewChannels } from '../utils/channelLanes';
+import { PowerSpectrum, meanPowerSpectrum, spectrumReadouts, binFrequency, formatHz } from '../utils/powerSpectrum';
+import { powerSpectrumPanel as copy } from '../copy/ui';
+
+interface PowerSpectrumPanelProps {
+  /** The committed selection, in display time; null = nothing to analyse. */
+  selection: Selection | null;
+  /** Open track; a change re-reads the selection even if its times didn't move. */
+  trackPath: string | null;
+  /** Decoded PCM for a display-time range (AudioEngine.readRange). */
+  readRange: (startSec: number, endSec: number) => Promise<{ channels: Float32Array[]; sampleRate: number } | null>;
+  settings: SpectrogramSettings;
+  bandPassFilter: BandPassFilter | null;
+  height: number;
+  onHeightChange: (height: number) => void;
+}
+
+// A selection drag commits on every mouse move; wait for it to settle.
+const ANALYSE_DEBOUNCE_MS = 150;
+const PLOT_PAD_TOP = 6;
+const PLOT_PAD_RIGHT = 10;
+const X_AXIS_HEIGHT = 16;
+const MIN_DB_LABEL_SPACING = 14;
+
+type Status = 'idle' | 'computing' | 'unreadable' | 'ready';
+
+// Docked below the spectrogram like the annotation table: the mean power
+// spectrum of the selection (utils/powerSpectrum), dB against frequency. The
+// frequency axis runs left to right over the spectrogram's own range and
+// scale, and the dB axis over its display floor..ceiling, so a peak here sits
+// where the bright band does there. Readouts cover the displayed range, or
+// only the band-pass filter's band when that box is ticked.
+export default function PowerSpectrumPanel({
+  selection, trackPath, readRange, settings, bandPassFilter, height, onHeightChange,
+}: PowerSpectrumPanelProps) {
+  const [spectrum, setSpectrum] = useState<PowerSpectrum | null>(null);
+  const [status, setStatus] = useState<Status>('idle');
+  const [truncated, setTruncated] = useState(false);
+  const [filterBandOnly, setFilterBandOnly] = useState(false);
+  const [hoverX, setHoverX] = useState<number | null>(null);
+  const [areaSize, setAreaSize] = useState({ width: 1, height: 1 });
+  const areaRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  const stft = stftOptionsOf(settings);
+  const { fftSize, channelView } = settings;
+  const selStart = selection?.start ?? null;
+  const selEnd = selection?.end ?? null;
+
+  useEffect(() => {
+    setSpectrum(null);
+    if (selStart === null || selEnd === null || selEnd <= selStart) {
+      setStatus('idle');
+      return;
+    }
+    const end = Math.min(selEnd, selStart + MAX_POWER_SPECTRUM_SEC);
+    setTruncated(end < selEnd);
+    setStatus('computing');
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      const pcm = await readRange(selStart, end).catch(() => null);
+      if (cancelled) return;
+      if (!pcm) {
+        setStatus('unreadable');
+        return;
+      }
+      // A single-channel view analyses that channel; mixdown and stacked
+      // views average every channel.
+      const [only] = viewChannels(channelView, pcm.channels.length);
+      const channels = only === null ? pcm.channels : [pcm.channels[only]];
+      setSpectrum(meanPowerSpectrum(channels, pcm.sampleRate, fftSize, stft.window, stft.zeroPadding));
+      setStatus('ready');
+    }, ANALYSE_DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [selStart, selEnd, trackPath, readRange, fftSize, stft.window, stft.zeroPadding, channelView]);
+
+  const band = filterBandOnly ? bandPassFilter : null;
+  const rangeLow = band ? band.low : settings.minFreq;
+  const rangeHigh = band ? band.high : settings.maxFreq;
+  const readouts = useMemo(
+    () => (spectrum ? spectrumReadouts(spectrum, rangeLow, rangeHigh) : null),
+    [spectrum, rangeLow, rangeHigh],
+  );
+
+  const plotLeft = Y_AXIS_WIDTH;
+  const plotWidth = Math.max(1, areaSize.width - plotLeft - PLOT_PAD_RIGHT);
+  const plotHeight = Math.max(1, areaSize.height - PLOT_PAD_TOP - X_AXIS_HEIGHT);
+  // freqToY maps maxFreq to 0; flipped, it puts minFreq at the plot's left edge.
+  const freqToX = (f: number) =>
+    plotLeft + plotWidth - freqToY(f, plotWidth, settings.minFreq, settings.maxFreq, settings.frequencyScale);
+  const xToFreq = (x: number) =>
+    yToFreq(plotWidth - (x - plotLeft), plotWidth, settings.minFreq, settings.maxFreq, settings.frequencyScale);
+  const dbToY = (db: number) =>
+    PLOT_PAD_TOP + plotHeight * (settings.displayCeil - db) / (settings.displayCeil - settings.displayFloor);
+
+  useEffect(() => {
+    const el = areaRef.current;
+    if (!el) return;
+    const ro = new ResizeObserver((entries) => {
+      const r = entries[0]?.contentRect;
+      if (!r) return;
+      const w = Math.max(1, r.width);
+      const h = Math.max(1, r.height);
+      setAreaSize({ width: w, height: h });
+      const dpr = window.devicePixelRatio || 1;
+      if (canvasRef.current) {
+        canvasRef.current.width = Math.round(w * dpr);
+        canvasRef.current.height = Math.round(h * dpr);
+      }
+    });
+    ro.observe(el);
+    return () => ro.disconnect();
+  }, []);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    const dpr = window.devicePixelRatio || 1;
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.clearRect(0, 0, areaSize.width, areaSize.height);
+    const plotBottom = PLOT_PAD_TOP + plotHeight;
+    const plotRight = plotLeft + plotWidth;
+
+    ctx.font = '10px sans-serif';
+    ctx.lineWidth = 1;
+
+    // dB grid and labels, every 10 dB (20 when space is short).
+    const span = settings.displayCeil - settings.displayFloor;
+    const step = span > 0 && (plotHeight / span) * 10 < MIN_DB_LABEL_SPACING ? 20 : 10;
+    ctx.textAlign = 'right';
+    ctx.textBaseline = 'middle';
+    for (let db = Math.ceil(settings.displayFloor / step) * step; db <= settings.displayCeil; db += step) {
+      const y = Math.round(dbToY(db)) + 0.5;
+      ctx.strokeStyle = 'rgba(255,255,255,0.08)';
+      ctx.beginPath();
+      ctx.moveTo(plotLeft, y);
+      ctx.lineTo(plotRight, y);
+      ctx.stroke();
+      ctx.fillStyle = 'rgba(255,255,255,0.6)';
+      ctx.fillText(`${db}`, plotLeft - 6, y);
+    }
+
+    // Frequency ticks: the spectrogram's own, along the bottom.
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'top';
+    let lastLabelRight = -Infinity;
+    for (const freq of freqAxisTicks(settings.minFreq, settings.maxFreq, settings.frequencyScale)) {
+      const x = Math.round(freqToX(freq)) + 0.5;
+      ctx.strokeStyle = 'rgba(255,255,255,0.08)';
+      ctx.beginPath();
+      ctx.moveTo(x, PLOT_PAD_TOP);
+      ctx.lineTo(x, plotBottom);
+      ctx.stroke();
+      const label = freq >= 1000 ? (freq / 1000).toFixed(freq % 1000 === 0 ? 0 : 1) + 'k' : freq.toString();
+      const w = ctx.measureText(label).width;
+      if (x - w / 2 < lastLabelRight + 6) continue;
+      lastLabelRight = x + w / 2;
+      ctx.fillStyle = 'rgba(255,255,255,0.6)';
+      ctx.fillText(label, x, plotBottom + 3);
+    }
+
+    if (band) {
+      ctx.fillStyle = 'rgba(56,189,248,0.08)';
+      const x0 = clamp(freqToX(rangeLow), plotLeft, plotRight);
+      const x1 = clamp(freqToX(rangeHigh), plotLeft, plotRight);
+      ctx.fillRect(x0, PLOT_PAD_TOP, x1 - x0, plotHeight);
+    }
+
+    if (!spectrum) return;
+
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(plotLeft, PLOT_PAD_TOP, plotWidth, plotHeight);
+    ctx.clip();
+
+    if (readouts) {
+      ctx.fillStyle = 'rgba(230,81,97,0.15)';
+      const x0 = freqToX(readouts.bandLow);
+      ctx.fillRect(x0, PLOT_PAD_TOP, freqToX(readouts.bandHigh) - x0, plotHeight);
+    }
+
+    ctx.strokeStyle = '#e2e8f0';
+    ctx.lineWidth = 1.25;
+    ctx.beginPath();
+    let started = false;
+    for (let k = 0; k < spectrum.db.length; k++) {
+      const f = binFrequency(spectrum, k);
+      if (f < settings.minFreq || f > settings.maxFreq) continue;
+      if (settings.frequencyScale === 'log' && f <= 0) continue;
+      const x = freqToX(f);
+      const y = dbToY(spectrum.db[k]);
+      if (started) ctx.lineTo(x, y);
+      else { ctx.moveTo(x, y); started = true; }
+    }
+    ctx.stroke();
+
+    if (readouts) {
+      ctx.lineWidth = 1;
+      ctx.strokeStyle = '#e65161';
+      const px = Math.round(freqToX(readouts.peakFreq)) + 0.5;
+      ctx.beginPath();
+      ctx.moveTo(px, PLOT_PAD_TOP);
+      ctx.lineTo(px, plotBottom);
+      ctx.stroke();
+      ctx.strokeStyle = '#38bdf8';
+      ctx.setLineDash([4, 3]);
+      const cx = Math.round(freqToX(readouts.centroid)) + 0.5;
+      ctx.beginPath();
+      ctx.moveTo(cx, PLOT_PAD_TOP);
+      ctx.lineTo(cx, plotBottom);
+      ctx.stroke();
+      ctx.setLineDash([]);
+    }
+
+    if (hoverX !== null) {
+      ctx.strokeStyle = 'rgba(255,255,255,0.35)';
+      ctx.beginPath();
+      ctx.moveTo(Math.round(hoverX) + 0.5, PLOT_PAD_TOP);
+      ctx.lineTo(Math.round(hoverX) + 0.5, plotBottom);
+      ctx.stroke();
+    }
+    ctx.restore();
+  });
+
+  const hoverReadout = (() => {
+    if (hoverX === null || !spectrum) return null;
+    const f = xToFreq(hoverX);
+    const bin = clamp(Math.round(f / binFrequency(spectrum, 1)), 0, spectrum.db.length - 1);
+    return copy.hover(formatHz(f), spectrum.db[bin]);
+  })();
+
+  const handleResizeDown = (e: React.MouseEvent) => {
+    e.preventDefault();
+    const startY = e.clientY;
+    const startHeight = height;
+    const onMove = (ev: MouseEvent) => {
+      // Drag up → taller.
+      onHeightChange(clamp(startHeight + (startY - ev.clientY), MIN_POWER_SPECTRUM_PANEL_HEIGHT, MAX_POWER_SPECTRUM_PANEL_HEIGHT));
+    };
+    const onUp = () => {
+      window.removeEventListener('mousemove', onMove);
+      window.removeEventListener('mouseup', onUp);
+    };
+    window.addEventListener('mousemove', onMove);
+    window.addEventListener('mouseup', onUp);
+  };
+
+  const message =
+    status === 'idle' ? copy.noSelection
+    : status === 'computing' ? copy.computing
+    : status === 'unreadable' ? copy.unreadable
+    : null;
+
+  return (
+    <div
+      className="flex-none bg-slate-900 border-t border-slate-700 flex flex-col relative"
+      style={{ height }}
+      data-help-target="power-spectrum"
+    >
+      {/* Top-edge resize handle */}
+      <div
+        className="h-2 bg-slate-800 border-b border-slate-700 cursor-row-resize hover:bg-[#e65161]/50 transition-colors flex justify-center items-center flex-none"
+        onMouseDown={handleResizeDown}
+      >
+        <GripHorizontal size={12} className="text-slate-600" />
+      </div>
+
+      <div className="flex items-center gap-3 px-2 py-1 text-xs text-slate-400 border-b border-slate-800 flex-none tabular-nums">
+        {readouts && status === 'ready' ? (
+          <>
+            <span className="text-[#e65161]">{copy.peak(formatHz(readouts.peakFreq), readouts.peakDb)}</span>
+            <span>{copy.bandwidth(formatHz(readouts.bandLow), formatHz(readouts.bandHigh), formatHz(readouts.bandHigh - readouts.bandLow))}</span>
+            <span className="text-sky-400">{copy.centroid(formatHz(readouts.centroid))}</span>
+            {truncated && <span className="text-slate-500">{copy.truncated(MAX_POWER_SPECTRUM_SEC)}</span>}
+          </>
+        ) : (
+          <span className="text-slate-600">{message}</span>
+        )}
+        <label className={`ml-auto flex items-center gap-1 select-none ${bandPassFilter ? 'cursor-pointer' : 'opacity-40'}`}>
+          <input
+            type="checkbox"
+            checked={filterBandOnly}
+            disabled={!bandPassFilter}
+            onChange={e => setFilterBandOnly(e.target.checked)}
+          />
+          {copy.filterBandOnly}
+        </label>
+      </div>
+
+      <div
+        ref={areaRef}
+        className="flex-1 min-h-0 relative"
+        onMouseMove={(e) => {
+          const x = e.clientX - e.currentTarget.getBoundingClientRect().left;
+          setHoverX(x >= plotLeft && x <= plotLeft + plotWidth ? x : null);
+        }}
+        onMouseLeave={() => setHoverX(null)}
+      >
+        <canvas ref={canvasRef} className="absolute inset-0 w-full h-full" />
+        {hoverReadout && (
+          <div className="absolute top-1 right-3 pointer-events-none text-[10px] font-mono bg-black/50 rounded px-1.5 py-0.5 text-slate-300">
+            {hoverReadout}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,12 +1,15 @@
 import React, { useRef, useEffect } from 'react';
 import { HelpCircle } from 'lucide-react';
-import { projectBaseFields } from '../copy/ui';
+import { detectorFormatFiles, detectorFormatNames, projectBaseFields } from '../copy/ui';
 import { tooltips } from '../copy/tooltips';
 import { DEFAULT_OUTPUT_ROUNDING_DECIMALS } from '../constants';
+import { DetectorFormat } from '../types';
+import { DETECTOR_FORMATS } from '../utils/detectorOutput';
 import GradientPicker from './GradientPicker';
 import DirectoryField from './DirectoryField';
 import CollapsibleSection from './CollapsibleSection';
 import DraftNumberInput from './DraftNumberInput';
+import DetectorSourcesField, { DetectorSourceDraft } from './DetectorSourcesField';
 import { openSyncGuideWindow } from '../utils/tauriCommands';
 import { normalizeGitRemoteUrl } from '../utils/gitSync';
 import { formatFilenameTime, isUsableFilenameTimePattern, FILENAME_PREVIEW_DATE } from '../utils/filenameTime';
@@ -39,6 +42,10 @@ interface Props {
   // Advanced
   buzzdetectDir: string;
   onBuzzdetectDirChange: (v: string) => void;
+  detectorFormat: DetectorFormat;
+  onDetectorFormatChange: (v: DetectorFormat) => void;
+  extraDetectorSources: DetectorSourceDraft[];
+  onExtraDetectorSourcesChange: (v: DetectorSourceDraft[]) => void;
   // null = auto-detect bin width from each CSV (the default); a number
   // overrides detection for every file.
   buzzdetectFrameLength: number | null;
@@ -70,6 +77,10 @@ export default function ProjectBaseFields({
   onOutputRoundingDecimalsChange,
   buzzdetectDir,
   onBuzzdetectDirChange,
+  detectorFormat,
+  onDetectorFormatChange,
+  extraDetectorSources,
+  onExtraDetectorSourcesChange,
   buzzdetectFrameLength,
   onBuzzdetectFrameLengthChange,
   advancedDefaultOpen = false,
@@ -197,6 +208,19 @@ export default function ProjectBaseFields({
             placeholder={projectBaseFields.buzzdetectPlaceholder}
             notExistMessage="Directory does not exist."
           />
+          <div className="flex items-center justify-between mt-2">
+            <div>
+              <label className="text-gray-400 text-sm block">{projectBaseFields.detectorFormatLabel}</label>
+              <p className="text-gray-600 text-xs">{detectorFormatFiles[detectorFormat]}</p>
+            </div>
+            <select
+              value={detectorFormat}
+              onChange={e => onDetectorFormatChange(e.target.value as DetectorFormat)}
+              className="bg-gray-800 border border-gray-600 rounded-lg px-3 py-2 text-white text-sm focus:outline-none focus:border-blue-500"
+            >
+              {DETECTOR_FORMATS.map(f => <option key={f} value={f}>{detectorFormatNames[f]}</option>)}
+            </select>
+          </div>
           <div className="flex items-center justify-between mt-2">
             <div>
               <label className="text-gray-400 text-sm block">{projectBaseFields.buzzdetectFrameLengthLabel}</label>
@@ -215,6 +239,11 @@ export default function ProjectBaseFields({
               className="w-20 bg-gray-800 border border-gray-600 rounded-lg px-3 py-2 text-white text-sm focus:outline-none focus:border-blue-500"
             />
           </div>
+          <DetectorSourcesField
+            projectDir={projectDir}
+            sources={extraDetectorSources}
+            onChange={onExtraDetectorSourcesChange}
+          />
         </div>
 
         <div>
@@ -2,7 +2,7 @@ import React, { useState } from 'react';
 import { ExternalLink, HelpCircle } from 'lucide-react';
 import { projectSettingsModal } from '../copy/ui';
 import { tooltips } from '../copy/tooltips';
-import { GitSyncUserConfig, Project, ProjectSettings, ProjectPreferences } from '../types';
+import { DetectorFormat, GitSyncUserConfig, Project, ProjectSettings, ProjectPreferences } from '../types';
 import { checkDirExists, listAnnotationFilesRecursive, getGitCredential, deleteGitCredential, openSyncGuideWindow } from '../utils/tauriCommands';
 import { getOrphanedAnnotations, deleteFiles, copyAnnotationFiles, revealInFileManager } from '../utils/projectCommands';
 import { DEFAULT_OUTPUT_ROUNDING_DECIMALS, DEFAULT_AUTO_PULL_REMOTE_CHANGES, DEFAULT_DATE_TIME_FORMAT } from '../constants';
@@ -11,6 +11,7 @@ import { FILENAME_PREVIEW_DATE } from '../utils/filenameTime';
 import { makeProjectPath, resolveInputPath, trimProjectPrefix } from '../utils/projectPaths';
 import { normalizeGitRemoteUrl, readSyncToken, applySyncToken, type TokenStorage } from '../utils/gitSync';
 import SettingsModalShell from './SettingsModalShell';
+import { DetectorSourceDraft, detectorSourceDrafts, detectorSourcesFromDrafts } from './DetectorSourcesField';
 import ProjectBaseFields from './ProjectBaseFields';
 import GitSyncUserFields from './GitSyncUserFields';
 import ApplicationSettingsFields from './ApplicationSettingsFields';
@@ -33,6 +34,10 @@ export default function ProjectSettingsModal({ project, onSave, onClose }: Props
   const [annotationDir, setAnnotationDir] = useState(() => project ? trimProjectPrefix(project.projectDir, project.annotationDirectoryAbs) : '');
   const [buzzdetectDir, setBuzzdetectDir] = useState(() =>
     project?.buzzdetectDirectoryAbs ? trimProjectPrefix(project.projectDir, project.buzzdetectDirectoryAbs) : '');
+  const [extraDetectorSources, setExtraDetectorSources] = useState<DetectorSourceDraft[]>(
+    () => (project ? detectorSourceDrafts(project.projectDir, project.settings.extraDetectorSources) : []),
+  );
+  const [detectorFormat, setDetectorFormat] = useState<DetectorFormat>(project?.settings.detectorFormat ?? 'buzzdetect');
   const [filenameTimeFormat, setFilenameTimeFormat] = useState(project?.settings.filenameTimeFormat ?? '');
   const [buzzdetectFrameLength, setBuzzdetectFrameLength] = useState<number | null>(
     project?.settings.buzzdetectFrameLength ?? null,
@@ -153,6 +158,8 @@ export default function ProjectSettingsModal({ project, onSave, onClose }: Props
       annotationDirectory: makeProjectPath(project.projectDir, resolvedAnnotationDir),
       buzzdetectDirectory: buzzdetectDir ? makeProjectPath(project.projectDir, resolvedBuzzdetectDir) : undefined,
       buzzdetectFrameLength: buzzdetectFrameLength ?? undefined,
+      detectorFormat: detectorFormat === 'buzzdetect' ? undefined : detectorFormat,
+      extraDetectorSources: detectorSourcesFromDrafts(project.projectDir, extraDetectorSources),
       filenameTimeFormat: filenameTimeFormat.trim() || undefined,
       outputRoundingDecimals,
       nameGradientColors: gradientColors,
@@ -364,6 +371,10 @@ export default function ProjectSettingsModal({ project, onSave, onClose }: Props
                 onOutputRoundingDecimalsChange={setOutputRoundingDecimals}
                 buzzdetectDir={buzzdetectDir}
                 onBuzzdetectDirChange={setBuzzdetectDir}
+                detectorFormat={detectorFormat}
+                onDetectorFormatChange={setDetectorFormat}
+                extraDetectorSources={extraDetectorSources}
+                onExtraDetectorSourcesChange={setExtraDetectorSources}
                 buzzdetectFrameLength={buzzdetectFrameLength}
                 onBuzzdetectFrameLengthChange={setBuzzdetectFrameLength}
                 advancedDefaultOpen={!!project.buzzdetectDirectoryAbs}
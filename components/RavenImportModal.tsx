@@ -0,0 +1,133 @@
+import React, { useMemo, useState } from 'react';
+import { ArrowUp, ArrowDown } from 'lucide-react';
+import { ravenImportModal as copy } from '../copy/ui';
+import {
+  RavenLabelMapping,
+  RavenTable,
+  defaultRavenLabelMapping,
+  ravenExtraColumns,
+  ravenRowLabel,
+} from '../utils/ravenTable';
+import SettingsModalShell from './SettingsModalShell';
+
+interface Props {
+  table: RavenTable;
+  sourceName: string;
+  onClose: () => void;
+  onImport: (mapping: RavenLabelMapping) => void;
+}
+
+const PREVIEW_ROWS = 5;
+
+// Column-mapping step of a Raven import: pick which of the table's extra
+// columns (and in what order) are joined into each annotation's label, with a
+// live preview of the first few labels. Times and frequency bounds need no
+// mapping — they come from Raven's standard columns.
+export default function RavenImportModal({ table, sourceName, onClose, onImport }: Props) {
+  const extras = useMemo(() => ravenExtraColumns(table), [table]);
+  const [mapping, setMapping] = useState<RavenLabelMapping>(() => defaultRavenLabelMapping(table));
+
+  // Checked columns keep their chosen order; unchecked ones follow in file order.
+  const ordered = [...mapping.columns, ...extras.filter(c => !mapping.columns.includes(c))];
+
+  const toggle = (column: string) => setMapping(m => ({
+    ...m,
+    columns: m.columns.includes(column) ? m.columns.filter(c => c !== column) : [...m.columns, column],
+  }));
+
+  const move = (column: string, delta: -1 | 1) => setMapping(m => {
+    const i = m.columns.indexOf(column);
+    const j = i + delta;
+    if (i === -1 || j < 0 || j >= m.columns.length) return m;
+    const columns = [...m.columns];
+    [columns[i], columns[j]] = [columns[j], columns[i]];
+    return { ...m, columns };
+  });
+
+  return (
+    <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-[200]">
+      <SettingsModalShell
+        title={copy.title}
+        onClose={onClose}
+        footer={
+          <>
+            <button onClick={onClose} className="px-4 py-2 text-gray-400 hover:text-white transition-colors text-sm">
+              {copy.cancelButton}
+            </button>
+            <button
+              onClick={() => onImport(mapping)}
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-500 text-white rounded-lg text-sm transition-colors"
+            >
+              {copy.importButton}
+            </button>
+          </>
+        }
+      >
+        <p className="text-gray-500 text-xs">{copy.selectionCount(table.rows.length, sourceName)}</p>
+
+        <div>
+          <label className="text-gray-400 text-sm block mb-1">{copy.columnsHeading}</label>
+          {extras.length === 0 ? (
+            <p className="text-gray-500 text-sm">{copy.noExtraColumns}</p>
+          ) : (
+            <>
+              <p className="text-gray-500 text-xs mb-2">{copy.columnsHint}</p>
+              <div className="border border-gray-700 rounded-lg divide-y divide-gray-700">
+                {ordered.map(column => {
+                  const checked = mapping.columns.includes(column);
+                  return (
+                    <div key={column} className="flex items-center gap-2 px-3 py-1.5 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={checked}
+                        onChange={() => toggle(column)}
+                        className="accent-blue-500"
+                      />
+                      <span className={`flex-1 break-all ${checked ? 'text-gray-200' : 'text-gray-500'}`}>{column}</span>
+                      {checked && mapping.columns.length > 1 && (
+                        <>
+                          <button onClick={() => move(column, -1)} className="text-gray-500 hover:text-white">
+                            <ArrowUp size={14} />
+                          </button>
+                          <button onClick={() => move(column, 1)} className="text-gray-500 hover:text-white">
+                            <ArrowDown size={14} />
+                          </button>
+                        </>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </>
+          )}
+        </div>
+
+        {mapping.columns.length > 1 && (
+          <div>
+            <label className="text-gray-400 text-sm block mb-1">{copy.separatorField}</label>
+            <input
+              type="text"
+              value={mapping.separator}
+              onChange={e => setMapping(m => ({ ...m, separator: e.target.value }))}
+              className="w-32 bg-gray-800 border border-gray-600 rounded-lg px-3 py-2 text-white text-sm focus:outline-none focus:border-blue-500"
+            />
+          </div>
+        )}
+
+        <div>
+          <label className="text-gray-400 text-sm block mb-1">{copy.previewHeading}</label>
+          <div className="border border-gray-700 rounded-lg divide-y divide-gray-700">
+            {table.rows.slice(0, PREVIEW_ROWS).map((row, i) => {
+              const label = ravenRowLabel(row, mapping);
+              return (
+                <div key={i} className="px-3 py-1.5 text-sm break-all">
+                  {label ? <span className="text-gray-200">{label}</span> : <span className="text-gray-600">{copy.emptyLabel}</span>}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      </SettingsModalShell>
+    </div>
+  );
+}
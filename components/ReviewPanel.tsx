@@ -0,0 +1,414 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { GripHorizontal, Check, X, Play, ChevronLeft, ChevronRight, RefreshCw, Eraser } from 'lucide-react';
+import { Annotation, AnnotationReview, AnnotationTool, ReviewVerdict } from '../types';
+import { MIN_REVIEW_PANEL_HEIGHT, MAX_REVIEW_PANEL_HEIGHT } from '../constants';
+import { clamp, formatTime } from '../utils/helpers';
+import { streamSearch } from '../utils/annotationRename';
+import {
+  ReviewItem, TrackReviewData, readTrackForReview, reviewItemsFor, saveReview, summarizeReviews,
+} from '../utils/annotationReview';
+import { bindAction, formatChord, shadowedDefaults } from '../utils/keymap';
+import { useKeymap, useKeymapOverrides } from '../utils/keymapStore';
+import { formatModKey } from '../utils/platform';
+import { useHotkeys } from '../hooks/useHotkeys';
+import { reviewPanel as copy, keymapActions } from '../copy/ui';
+
+interface ReviewPanelProps {
+  tracks: string[];
+  getAnnotationPath: (trackFilePath: string) => string | null;
+  getIdent: (trackFilePath: string) => string | null;
+  /** The open track and its live annotations, which may be ahead of its file. */
+  trackPath: string | null;
+  annotations: Annotation[];
+  /** Offered as relabel targets, and colour the labels of unopened tracks. */
+  annotationTools: AnnotationTool[];
+  /** Precision the annotation files are written at; verdict records match it. */
+  decimals: number;
+  reviewer: string;
+  onReviewerChange: (name: string) => void;
+  /** Open the annotation's track if needed, select it and play it through. */
+  onPlayItem: (item: ReviewItem) => void;
+  hotkeysEnabled: boolean;
+  onError: (message: string) => void;
+  height: number;
+  onHeightChange: (height: number) => void;
+}
+
+type Tab = 'queue' | 'summary';
+
+const TIME_DECIMALS = 2;
+
+// A queue position that survives the open track's annotations being swapped
+// for their live copies (new ids, possibly finer times).
+const itemKey = (item: ReviewItem) =>
+  `${item.ident}\t${item.annotation.start.toFixed(3)}\t${item.annotation.end.toFixed(3)}\t${item.annotation.text}`;
+
+// Docked below the spectrogram like the annotation table: steps through every
+// annotation in the project, track by track in ident order, playing each one
+// and recording the reviewer's verdict in the track's review sidecar
+// (utils/annotationReview.ts), which git sync carries so several people can
+// review the same project. The Summary tab totals verdicts per label and how
+// often reviewers who judged the same annotation agreed.
+export default function ReviewPanel({
+  tracks, getAnnotationPath, getIdent, trackPath, annotations, annotationTools, decimals,
+  reviewer, onReviewerChange, onPlayItem, hotkeysEnabled, onError, height, onHeightChange,
+}: ReviewPanelProps) {
+  const [tab, setTab] = useState<Tab>('queue');
+  const [tracksData, setTracksData] = useState<TrackReviewData[]>([]);
+  const [scanning, setScanning] = useState(false);
+  const [scanToken, setScanToken] = useState(0);
+  const [labelFilter, setLabelFilter] = useState('');
+  const [unreviewedOnly, setUnreviewedOnly] = useState(true);
+  const [position, setPosition] = useState(0);
+  const [reviewerDraft, setReviewerDraft] = useState(reviewer);
+  // Set by a step through the queue so the item it lands on is played.
+  const followRef = useRef(false);
+  const keymap = useKeymap();
+  // Review keys are newer than the rest, so a key the user had already bound
+  // elsewhere keeps that binding and the review action goes without — say so.
+  const keymapOverrides = useKeymapOverrides();
+  const takenShortcuts = useMemo(
+    () => shadowedDefaults(keymapOverrides).filter(s => s.id.startsWith('review')),
+    [keymapOverrides],
+  );
+
+  useEffect(() => { setReviewerDraft(reviewer); }, [reviewer]);
+
+  const openIdent = trackPath ? getIdent(trackPath) : null;
+
+  // Read every track's annotations and verdicts, in ident order so the queue
+  // fills in the order it is reviewed.
+  useEffect(() => {
+    let cancelled = false;
+    const sorted = [...tracks].sort((a, b) => (getIdent(a) ?? '').localeCompare(getIdent(b) ?? ''));
+    const found: TrackReviewData[] = [];
+    setTracksData([]);
+    setScanning(true);
+    streamSearch(
+      sorted,
+      t => readTrackForReview(t, getAnnotationPath, getIdent),
+      data => {
+        found.push(data);
+        setTracksData([...found]);
+      },
+      () => cancelled,
+    ).finally(() => {
+      if (!cancelled) setScanning(false);
+    });
+    return () => { cancelled = true; };
+  }, [tracks, getAnnotationPath, getIdent, scanToken]);
+
+  // The open track is reviewed from its live annotations: edits made while
+  // reviewing show at once, and the file may not have been written yet. A
+  // track with no file yet joins the queue in ident order.
+  const items = useMemo(() => {
+    const byIdent = new Map(tracksData.map(d => [d.ident, d]));
+    if (openIdent && trackPath && !byIdent.has(openIdent) && annotations.length > 0) {
+      byIdent.set(openIdent, { ident: openIdent, trackFilePath: trackPath, annotations, reviewContent: null });
+    }
+    return [...byIdent.values()]
+      .sort((a, b) => a.ident.localeCompare(b.ident))
+      .flatMap(d => reviewItemsFor(d.ident, d.ident === openIdent ? annotations : d.annotations, d.reviewContent, decimals));
+  }, [tracksData, openIdent, trackPath, annotations, decimals]);
+
+  // Leaving a track: its file now holds the live annotations it was reviewed
+  // from, so keep those rather than the copy read before it was edited.
+  const lastOpenRef = useRef<{ ident: string; annotations: Annotation[] } | null>(null);
+  useEffect(() => {
+    const last = lastOpenRef.current;
+    if (last && last.ident !== openIdent) {
+      setTracksData(prev => prev.map(d => (d.ident === last.ident ? { ...d, annotations: last.annotations } : d)));
+    }
+    lastOpenRef.current = openIdent ? { ident: openIdent, annotations } : null;
+  }, [openIdent, annotations]);
+
+  const labelOptions = useMemo(
+    () => [...new Set(items.map(i => i.annotation.text))].sort((a, b) => a.localeCompare(b)),
+    [items],
+  );
+  const relabelOptions = useMemo(
+    () => [...new Set([...annotationTools.map(t => t.text), ...labelOptions])].sort((a, b) => a.localeCompare(b)),
+    [annotationTools, labelOptions],
+  );
+
+  const mine = useCallback(
+    (item: ReviewItem): AnnotationReview | undefined => item.reviews.find(r => r.reviewer === reviewer),
+    [reviewer],
+  );
+
+  const queue = useMemo(() => items.filter(i =>
+    (!labelFilter || i.annotation.text === labelFilter) && (!unreviewedOnly || !mine(i)),
+  ), [items, labelFilter, unreviewedOnly, mine]);
+  const remaining = useMemo(
+    () => items.filter(i => (!labelFilter || i.annotation.text === labelFilter) && !mine(i)).length,
+    [items, labelFilter, mine],
+  );
+
+  const index = Math.min(position, Math.max(0, queue.length - 1));
+  const current = queue[index] ?? null;
+  const currentKey = current ? itemKey(current) : null;
+
+  // Play the item a step landed on. Keyed so the open track's annotations
+  // reloading under it doesn't count as a step.
+  useEffect(() => {
+    if (!followRef.current) return;
+    followRef.current = false;
+    if (current) onPlayItem(current);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [currentKey]);
+
+  const step = (delta: number) => {
+    const next = clamp(index + delta, 0, Math.max(0, queue.length - 1));
+    if (next === index) return;
+    followRef.current = true;
+    setPosition(next);
+  };
+
+  const giveVerdict = async (verdict: ReviewVerdict | null, label?: string) => {
+    if (!current || !reviewer) return;
+    const annotPath = getAnnotationPath(
+      tracksData.find(d => d.ident === current.ident)?.trackFilePath ?? (current.ident === openIdent ? trackPath ?? '' : ''),
+    );
+    if (!annotPath) return;
+    const review: AnnotationReview | null = verdict
+      ? { verdict, reviewer, ...(verdict === 'relabel' ? { label } : {}), at: new Date().toISOString() }
+      : null;
+    let reviewContent: string;
+    try {
+      reviewContent = await saveReview(annotPath, current.annotation, reviewer, review, decimals);
+    } catch (err) {
+      onError(copy.saveFailed(String(err)));
+      return;
+    }
+    setTracksData(prev => {
+      if (prev.some(d => d.ident === current.ident)) {
+        return prev.map(d => (d.ident === current.ident ? { ...d, reviewContent } : d));
+      }
+      return trackPath && current.ident === openIdent
+        ? [...prev, { ident: current.ident, trackFilePath: trackPath, annotations, reviewContent }]
+        : prev;
+    });
+    if (!review) return;
+    // With only unreviewed items queued the judged one drops out and the
+    // next slides into its place; otherwise move on to it.
+    followRef.current = unreviewedOnly ? queue.length > 1 : index + 1 < queue.length;
+    if (!unreviewedOnly) setPosition(index + 1);
+  };
+
+  useHotkeys([
+    ...bindAction(keymap, 'reviewAccept', () => { giveVerdict('accept'); }),
+    ...bindAction(keymap, 'reviewReject', () => { giveVerdict('reject'); }),
+    ...bindAction(keymap, 'reviewReplay', () => { if (current) onPlayItem(current); }),
+    ...bindAction(keymap, 'reviewPrev', () => step(-1)),
+    ...bindAction(keymap, 'reviewNext', () => step(1)),
+  ], hotkeysEnabled && tab === 'queue');
+
+  const summary = useMemo(() => summarizeReviews(items), [items]);
+
+  const handleResizeDown = (e: React.MouseEvent) => {
+    e.preventDefault();
+    const startY = e.clientY;
+    const startHeight = height;
+    const onMove = (ev: MouseEvent) => {
+      // Drag up → taller.
+      onHeightChange(clamp(startHeight + (startY - ev.clientY), MIN_REVIEW_PANEL_HEIGHT, MAX_REVIEW_PANEL_HEIGHT));
+    };
+    const onUp = () => {
+      window.removeEventListener('mousemove', onMove);
+      window.removeEventListener('mouseup', onUp);
+    };
+    window.addEventListener('mousemove', onMove);
+    window.addEventListener('mouseup', onUp);
+  };
+
+  const commitReviewer = () => {
+    const name = reviewerDraft.trim();
+    if (name !== reviewer) onReviewerChange(name);
+  };
+
+  const verdictText = (r: AnnotationReview) =>
+    r.verdict === 'accept' ? copy.accepted(r.reviewer)
+      : r.verdict === 'reject' ? copy.rejected(r.reviewer)
+        : copy.relabelled(r.reviewer, r.label ?? '');
+
+  const myVerdict = current ? mine(current) : undefined;
+  const canJudge = !!current && !!reviewer;
+  const button = 'flex items-center gap-1 px-2 py-1 rounded text-xs transition-colors disabled:opacity-40';
+  const tabButton = (t: Tab, label: string) => (
+    <button
+      onClick={() => setTab(t)}
+      className={`px-2 py-0.5 rounded ${tab === t ? 'bg-slate-700 text-white' : 'hover:text-white'}`}
+    >
+      {label}
+    </button>
+  );
+
+  return (
+    <div
+      className="flex-none bg-slate-900 border-t border-slate-700 flex flex-col relative"
+      style={{ height }}
+      data-help-target="review-panel"
+    >
+      {/* Top-edge resize handle */}
+      <div
+        className="h-2 bg-slate-800 border-b border-slate-700 cursor-row-resize hover:bg-[#e65161]/50 transition-colors flex justify-center items-center flex-none"
+        onMouseDown={handleResizeDown}
+      >
+        <GripHorizontal size={12} className="text-slate-600" />
+      </div>
+
+      <div className="flex items-center gap-2 px-2 py-1 text-xs text-slate-400 border-b border-slate-800 flex-none">
+        {tabButton('queue', copy.queueTab)}
+        {tabButton('summary', copy.summaryTab)}
+        <label className="flex items-center gap-1 ml-2">
+          {copy.reviewerLabel}
+          <input
+            type="text"
+            value={reviewerDraft}
+            placeholder={copy.reviewerPlaceholder}
+            onChange={e => setReviewerDraft(e.target.value)}
+            onBlur={commitReviewer}
+            onKeyDown={e => { if (e.key === 'Enter') (e.target as HTMLInputElement).blur(); }}
+            className="w-28 bg-slate-800 border border-slate-600 rounded px-1 text-white focus:outline-none focus:border-blue-500"
+            autoCorrect="off"
+            autoComplete="off"
+            spellCheck={false}
+          />
+        </label>
+        <select
+          value={labelFilter}
+          onChange={e => { setLabelFilter(e.target.value); setPosition(0); }}
+          className="bg-slate-800 border border-slate-600 rounded px-1 text-white focus:outline-none"
+        >
+          <option value="">{copy.allLabels}</option>
+          {labelOptions.map(l => <option key={l} value={l}>{l}</option>)}
+        </select>
+        <label className="flex items-center gap-1">
+          <input
+            type="checkbox"
+            checked={unreviewedOnly}
+            onChange={e => { setUnreviewedOnly(e.target.checked); setPosition(0); }}
+          />
+          {copy.unreviewedOnly}
+        </label>
+        <button
+          onClick={() => setScanToken(n => n + 1)}
+          className="ml-auto p-1 rounded hover:bg-slate-700 hover:text-white"
+          data-tooltip={copy.refresh}
+        >
+          <RefreshCw size={12} className={scanning ? 'animate-spin' : ''} />
+        </button>
+      </div>
+
+      <div className="flex-1 min-h-0 overflow-y-auto custom-scrollbar">
+        {tab === 'queue' ? (
+          !current ? (
+            <div className="h-full flex items-center justify-center">
+              <span className="text-slate-600 text-xs">
+                {scanning ? copy.scanning : items.length === 0 ? copy.empty : copy.done}
+              </span>
+            </div>
+          ) : (
+            <div className="p-2 flex flex-col gap-2 text-xs text-slate-300">
+              <div className="flex items-center gap-2 text-slate-400">
+                <span>{copy.position(index + 1, queue.length)}</span>
+                <span>·</span>
+                <span>{copy.remaining(remaining)}</span>
+              </div>
+              <div className="flex items-center gap-2 min-w-0">
+                <span className="w-2 h-2 rounded-full flex-none" style={{ backgroundColor: annotationTools.find(t => t.text === current.annotation.text)?.color ?? current.annotation.color }} />
+                <span className="font-medium text-white truncate">{current.annotation.text}</span>
+                <span className="text-slate-500 truncate">{current.ident}</span>
+                <span className="text-slate-500 tabular-nums whitespace-nowrap">
+                  {formatTime(current.annotation.start, TIME_DECIMALS)}–{formatTime(current.annotation.end, TIME_DECIMALS)}
+                </span>
+              </div>
+              <div className="text-slate-400">
+                {current.reviews.length === 0 ? copy.noVerdicts : current.reviews.map(verdictText).join(' · ')}
+              </div>
+              <div className="flex items-center gap-1 flex-wrap">
+                <button onClick={() => step(-1)} disabled={index === 0} className={`${button} hover:bg-slate-700`}>
+                  <ChevronLeft size={12} />{copy.prev}
+                </button>
+                <button onClick={() => onPlayItem(current)} className={`${button} hover:bg-slate-700`}>
+                  <Play size={12} />{copy.replay}
+                </button>
+                <button onClick={() => step(1)} disabled={index >= queue.length - 1} className={`${button} hover:bg-slate-700`}>
+                  {copy.next}<ChevronRight size={12} />
+                </button>
+                <span className="w-px h-4 bg-slate-700 mx-1" />
+                <button
+                  onClick={() => giveVerdict('accept')}
+                  disabled={!canJudge}
+                  className={`${button} ${myVerdict?.verdict === 'accept' ? 'bg-green-700 text-white' : 'hover:bg-green-800/60'}`}
+                >
+                  <Check size={12} />{copy.accept}
+                </button>
+                <button
+                  onClick={() => giveVerdict('reject')}
+                  disabled={!canJudge}
+                  className={`${button} ${myVerdict?.verdict === 'reject' ? 'bg-red-700 text-white' : 'hover:bg-red-800/60'}`}
+                >
+                  <X size={12} />{copy.reject}
+                </button>
+                <select
+                  value={myVerdict?.verdict === 'relabel' ? myVerdict.label : ''}
+                  disabled={!canJudge}
+                  onChange={e => { if (e.target.value) giveVerdict('relabel', e.target.value); }}
+                  className={`rounded px-1 py-1 border focus:outline-none disabled:opacity-40 ${myVerdict?.verdict === 'relabel' ? 'bg-amber-700 border-amber-600 text-white' : 'bg-slate-800 border-slate-600'}`}
+                >
+                  <option value="">{copy.relabelAs}</option>
+                  {relabelOptions.filter(l => l !== current.annotation.text).map(l => <option key={l} value={l}>{l}</option>)}
+                </select>
+                {myVerdict && (
+                  <button onClick={() => giveVerdict(null)} className={`${button} hover:bg-slate-700`}>
+                    <Eraser size={12} />{copy.clear}
+                  </button>
+                )}
+              </div>
+              {!reviewer && <div className="text-amber-400">{copy.needReviewer}</div>}
+              {takenShortcuts.map(s => (
+                <div key={s.id} className="text-amber-400">
+                  {copy.shortcutTaken(formatModKey(formatChord(s.chord)), keymapActions[s.by], keymapActions[s.id])}
+                </div>
+              ))}
+            </div>
+          )
+        ) : summary.length === 0 ? (
+          <div className="h-full flex items-center justify-center">
+            <span className="text-slate-600 text-xs">{scanning ? copy.scanning : copy.empty}</span>
+          </div>
+        ) : (
+          <table className="w-full text-xs text-slate-300 tabular-nums">
+            <thead className="sticky top-0 bg-slate-900 text-slate-400">
+              <tr>
+                <th className="px-2 py-1 font-medium text-left">{copy.labelHeader}</th>
+                <th className="px-2 py-1 font-medium text-right">{copy.reviewedHeader}</th>
+                <th className="px-2 py-1 font-medium text-right">{copy.acceptedHeader}</th>
+                <th className="px-2 py-1 font-medium text-right">{copy.rejectedHeader}</th>
+                <th className="px-2 py-1 font-medium text-right">{copy.relabelledHeader}</th>
+                <th className="px-2 py-1 font-medium text-right">{copy.acceptRateHeader}</th>
+                <th className="px-2 py-1 font-medium text-right">{copy.agreementHeader}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {summary.map(s => (
+                <tr key={s.label} className="hover:bg-slate-800">
+                  <td className="px-2 py-0.5 w-full truncate">{s.label}</td>
+                  <td className="px-2 py-0.5 text-right whitespace-nowrap">{copy.reviewedOf(s.reviewed, s.total)}</td>
+                  <td className="px-2 py-0.5 text-right">{s.accepted}</td>
+                  <td className="px-2 py-0.5 text-right">{s.rejected}</td>
+                  <td className="px-2 py-0.5 text-right">{s.relabelled}</td>
+                  <td className="px-2 py-0.5 text-right">{s.acceptRate === null ? copy.notApplicable : copy.percent(s.acceptRate)}</td>
+                  <td className="px-2 py-0.5 text-right whitespace-nowrap">
+                    {s.agreement === null ? copy.notApplicable : copy.agreement(s.agreement, s.multiReviewed)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
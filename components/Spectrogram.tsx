@@ -1,6 +1,7 @@
 import React, { useRef, useEffect, useLayoutEffect, useState, useCallback, useMemo, forwardRef, useImperativeHandle } from 'react';
 import { Annotation, SpectrogramSettings, AnnotationTool, Selection, BandPassFilter, VideoMode } from '../types';
-import { freqToY, freqAxisTicks } from '../utils/audioProcessing';
+import { freqAxisTicks } from '../utils/audioProcessing';
+import { Lane, laneFreqToY, laneIndexAtY, laneLayout, laneYToFreq } from '../utils/channelLanes';
 import { formatTime, calculateAnnotationLayers, clamp } from '../utils/helpers';
 import { chooseTimeStep, formatRulerTime, rulerLabelAlign, rulerTicks, DATETIME_LABEL_SPACING_PX, RulerTick } from '../utils/timeAxis';
 import { datetimeTicks, formatDatetimeRulerLabel, DateTimeFormat } from '../utils/datetimeDisplay';
@@ -17,9 +18,17 @@ import { useChunkRenderer, DIAG_FRAME_TIMING } from '../hooks/useChunkRenderer';
 import { useSpectrogramInteraction } from '../hooks/useSpectrogramInteraction';
 import { useAltHeld } from '../hooks/useAltHeld';
 import { spectrogramView } from '../copy/ui';
+import type { ComparisonLane } from '../utils/annotationAgreement';
 
 interface SpectrogramProps {
-  chunkCache: MultiTierSpectrogramCache | null;
+  /**
+   * One cache per lane, top to bottom (see utils/channelLanes): a single
+   * cache for the mixdown or a one-channel view, one per channel when
+   * stacked. Empty while no track is loaded.
+   */
+  chunkCaches: MultiTierSpectrogramCache[];
+  /** Channels in the loaded file; the annotation popover offers a channel tag above 1. */
+  channelCount?: number;
   sampleRate: number;
   cacheVersion: number;
   // Playback time arrives via a ref-based pub/sub store (not a prop) so a
@@ -36,6 +45,12 @@ interface SpectrogramProps {
    * identity timeline, i.e. no subset.
    */
   timeline?: Timeline;
+  /**
+   * Snaps a SOURCE time to the nearest video frame boundary while "snap to
+   * frames" is on (utils/videoFrames.ts); null otherwise. The interaction hook
+   * applies it to every time a drag or click reads off the pointer.
+   */
+  snapTime?: ((sourceTime: number) => number) | null;
   isPlaying: boolean;
   isProcessing: boolean;
   ident: string | null;
@@ -74,6 +89,8 @@ interface SpectrogramProps {
   isAudioTrack?: boolean;
   playheadLocked?: boolean;
   hideLabels?: boolean;
+  /** Read-only lanes of other annotation sets for this track (agreement panel), in view time. */
+  comparisonLanes?: ComparisonLane[];
   /**
    * Wall-clock start of the track, parsed from its filename (null when the
    * project defines no timestamp format or the name doesn't match). With
@@ -105,12 +122,14 @@ export interface SpectrogramHandle {
 // share one source of truth.
 
 const Spectrogram = forwardRef<SpectrogramHandle, SpectrogramProps>(({
-  chunkCache,
+  chunkCaches,
+  channelCount = 1,
   sampleRate,
   cacheVersion,
   currentTimeStore,
   duration,
   timeline,
+  snapTime = null,
   isPlaying,
   isProcessing,
   ident,
@@ -139,6 +158,7 @@ const Spectrogram = forwardRef<SpectrogramHandle, SpectrogramProps>(({
   isAudioTrack = false,
   playheadLocked = false,
   hideLabels = false,
+  comparisonLanes,
   trackStartDate = null,
   timeDisplayUnit = 'seconds',
   dateTimeFormat = DEFAULT_DATE_TIME_FORMAT,
@@ -231,8 +251,23 @@ const Spectrogram = forwardRef<SpectrogramHandle, SpectrogramProps>(({
   // per render would dirty the spectrogram background every frame.
   const fallbackTimeline = useMemo(() => identityTimeline(duration), [duration]);
   const activeTimeline = timeline ?? fallbackTimeline;
+
+  // Channel lanes, in container px. The channel list only changes when the
+  // caches are swapped; the ref is refreshed on every render and resize so the
+  // interaction hook always reads the live layout.
+  const laneKey = chunkCaches.map(c => c.channel ?? 'mix').join(',');
+  const laneChannels = useMemo(
+    () => (chunkCaches.length ? chunkCaches.map(c => c.channel) : [null]),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [laneKey],
+  );
+  const lanes = laneLayout(laneChannels, containerRef.current?.clientHeight ?? 0);
+  const lanesRef = useRef<Lane[]>(lanes);
+  lanesRef.current = lanes;
   const timelineRef = useRef(activeTimeline);
   timelineRef.current = activeTimeline;
+  const snapTimeRef = useRef(snapTime);
+  snapTimeRef.current = snapTime;
   // Display-time seams between spliced-together spans, so the overlay can mark
   // them — subset audio reads as continuous, but the cut is still a real jump
   // in the source file, worth flagging visually.
@@ -325,6 +360,8 @@ const Spectrogram = forwardRef<SpectrogramHandle, SpectrogramProps>(({
     pixelsPerSecond,
     duration,
     timelineRef,
+    snapTimeRef,
+    lanesRef,
     annotations,
     selection,
     boundAnnotationId,
@@ -409,7 +446,7 @@ const Spectrogram = forwardRef<SpectrogramHandle, SpectrogramProps>(({
   // the reusable buffer pools and incremental-scroll state; we keep storing its
   // `draw` into drawRef and driving it from the rAF loop below.
   const { draw } = useChunkRenderer({
-    chunkCache,
+    chunkCaches,
     sampleRate,
     cacheVersion,
     scrollLeftRef,
@@ -603,20 +640,21 @@ const Spectrogram = forwardRef<SpectrogramHandle, SpectrogramProps>(({
     // Render in-progress filter creation OR persistent band. The band overlay
     // tracks `bandPassFilter` (the audio source of truth) — tool readiness
     // (`filterToolActive`) only affects whether the cutoff handles are
-    // interactive, not whether the band is visible.
-    const filterBand = creatingFilter
-      ? {
-          yTop: Math.min(creatingFilter.y0, creatingFilter.y1),
-          yBottom: Math.max(creatingFilter.y0, creatingFilter.y1),
-          strength: bandPassFilter?.strength ?? 1,
-        }
-      : bandPassFilter
-      ? {
-          yTop: freqToY(bandPassFilter.high, height, settings.minFreq, settings.maxFreq, settings.frequencyScale),
-          yBottom: freqToY(bandPassFilter.low, height, settings.minFreq, settings.maxFreq, settings.frequencyScale),
-          strength: bandPassFilter.strength,
-        }
-      : null;
+    // interactive, not whether the band is visible. The filter applies to the
+    // audio as a whole, so a band dragged out in one lane is shown in every lane.
+    const lanes = laneLayout(laneChannels, height);
+    const { minFreq, maxFreq, frequencyScale } = settings;
+    let band: { high: number; low: number; strength: number } | null = null;
+    if (creatingFilter) {
+      const lane = lanes[laneIndexAtY(lanes, creatingFilter.y0)];
+      band = {
+        high: laneYToFreq(lane, Math.min(creatingFilter.y0, creatingFilter.y1), minFreq, maxFreq, frequencyScale),
+        low: laneYToFreq(lane, Math.max(creatingFilter.y0, creatingFilter.y1), minFreq, maxFreq, frequencyScale),
+        strength: bandPassFilter?.strength ?? 1,
+      };
+    } else if (bandPassFilter) {
+      band = bandPassFilter;
+    }
 
     // In Fast mode the filter has no effect on audio, so don't render it.
     // For audio tracks, AudioEngine always handles playback with decoded PCM so
@@ -624,32 +662,34 @@ const Spectrogram = forwardRef<SpectrogramHandle, SpectrogramProps>(({
     // For video tracks in Fast mode the filter has no effect; in Mixed mode without
     // a selection the video element's audio track plays instead of AudioEngine.
     const filterInactive = !isAudioTrack && (videoMode === 'fast' || (videoMode === 'mixed' && !selection));
-    if (filterBand && !filterInactive) {
-      const darkAlpha = 0.65 * filterBand.strength;
-      ctx.fillStyle = `rgba(0, 0, 0, ${darkAlpha})`;
-      if (filterBand.yTop > 0) {
-        ctx.fillRect(0, 0, width, filterBand.yTop);
-      }
-      if (filterBand.yBottom < height) {
-        ctx.fillRect(0, filterBand.yBottom, width, height - filterBand.yBottom);
+    for (const lane of band ? lanes : []) {
+      const yTop = laneFreqToY(lane, band!.high, minFreq, maxFreq, frequencyScale);
+      const yBottom = laneFreqToY(lane, band!.low, minFreq, maxFreq, frequencyScale);
+      const laneBottom = lane.top + lane.height;
+      if (!filterInactive) {
+        const darkAlpha = 0.65 * band!.strength;
+        ctx.fillStyle = `rgba(0, 0, 0, ${darkAlpha})`;
+        if (yTop > lane.top) {
+          ctx.fillRect(0, lane.top, width, yTop - lane.top);
+        }
+        if (yBottom < laneBottom) {
+          ctx.fillRect(0, yBottom, width, laneBottom - yBottom);
+        }
+        ctx.strokeStyle = '#60a5fa';
+      } else if (!isAudioTrack && videoMode === 'mixed' && !selection) {
+        ctx.strokeStyle = '#64748b';
+      } else {
+        continue;
       }
-      ctx.strokeStyle = '#60a5fa';
-      ctx.lineWidth = 1;
-      ctx.beginPath();
-      ctx.moveTo(0, filterBand.yTop); ctx.lineTo(width, filterBand.yTop);
-      ctx.moveTo(0, filterBand.yBottom); ctx.lineTo(width, filterBand.yBottom);
-      ctx.stroke();
-    } else if (filterBand && !isAudioTrack && videoMode === 'mixed' && !selection) {
-      ctx.strokeStyle = '#64748b';
       ctx.lineWidth = 1;
       ctx.beginPath();
-      ctx.moveTo(0, filterBand.yTop); ctx.lineTo(width, filterBand.yTop);
-      ctx.moveTo(0, filterBand.yBottom); ctx.lineTo(width, filterBand.yBottom);
+      ctx.moveTo(0, yTop); ctx.lineTo(width, yTop);
+      ctx.moveTo(0, yBottom); ctx.lineTo(width, yBottom);
       ctx.stroke();
     }
 
     ctx.restore();
-  }, [creatingFilter, bandPassFilter, videoMode, isAudioTrack, selection, settings.minFreq, settings.maxFreq, settings.frequencyScale]);
+  }, [creatingFilter, bandPassFilter, videoMode, isAudioTrack, selection, settings.minFreq, settings.maxFreq, settings.frequencyScale, laneChannels]);
 
   // Y-axis canvas: draws the frequency axis. Separate from the spectrogram area so it is never layered on top.
   const drawYAxis = useCallback(() => {
@@ -684,12 +724,12 @@ const Spectrogram = forwardRef<SpectrogramHandle, SpectrogramProps>(({
     let lastLabelY: number | null = null;
     const MIN_LABEL_SPACING = 13;
 
-    const renderTick = (freq: number) => {
+    const renderTick = (lane: Lane, freq: number) => {
       // Use the shared freq→y mapping so axis labels stay in exact lockstep
       // with the spectrogram renderer (same function, no drift).
-      const y = freqToY(freq, height, settings.minFreq, settings.maxFreq, settings.frequencyScale);
+      const y = laneFreqToY(lane, freq, settings.minFreq, settings.maxFreq, settings.frequencyScale);
 
-      if (y < 0 || y > height) return;
+      if (y < lane.top || y > lane.top + lane.height) return;
       if (lastLabelY !== null && Math.abs(y - lastLabelY) < MIN_LABEL_SPACING) return;
       lastLabelY = y;
 
@@ -706,11 +746,31 @@ const Spectrogram = forwardRef<SpectrogramHandle, SpectrogramProps>(({
       ctx.fillText(label, width - 7, y);
     };
 
-    for (const freq of freqAxisTicks(settings.minFreq, settings.maxFreq, settings.frequencyScale)) {
-      renderTick(freq);
-    }
+    // Each lane of a stacked view gets its own axis, headed by its channel
+    // label (ticks too close to the label are skipped like any other clash).
+    const lanes = laneLayout(laneChannels, height);
+    const ticks = freqAxisTicks(settings.minFreq, settings.maxFreq, settings.frequencyScale);
+    lanes.forEach((lane, i) => {
+      lastLabelY = null;
+      if (lanes.length > 1) {
+        if (i > 0) {
+          ctx.beginPath();
+          ctx.moveTo(0, lane.top);
+          ctx.lineTo(width, lane.top);
+          ctx.strokeStyle = 'rgba(255,255,255,0.2)';
+          ctx.stroke();
+        }
+        ctx.textAlign = 'left';
+        ctx.fillText(lane.channel === null ? '' : spectrogramView.laneLabel(lane.channel), 3, lane.top + 8);
+        ctx.textAlign = 'right';
+        lastLabelY = lane.top + 8;
+      }
+      for (const freq of ticks) {
+        renderTick(lane, freq);
+      }
+    });
     ctx.restore();
-  }, [settings.minFreq, settings.maxFreq, settings.frequencyScale]);
+  }, [settings.minFreq, settings.maxFreq, settings.frequencyScale, laneChannels]);
 
   // Keep drawRef/drawYAxisRef current and mark dirty whenever the spectrogram
   // background needs a redraw (scroll, zoom, data, settings changed).
@@ -835,6 +895,7 @@ const Spectrogram = forwardRef<SpectrogramHandle, SpectrogramProps>(({
           yAxisCanvasRef.current.width = Y_AXIS_WIDTH * dpr;
           yAxisCanvasRef.current.height = height * dpr;
         }
+        lanesRef.current = laneLayout(laneChannels, height);
         draw();
         drawOverlay();
         drawFilterOverlay();
@@ -846,7 +907,7 @@ const Spectrogram = forwardRef<SpectrogramHandle, SpectrogramProps>(({
       resizeObserver.observe(containerRef.current);
     }
     return () => resizeObserver.disconnect();
-  }, [draw, drawOverlay, drawFilterOverlay, drawYAxis]);
+  }, [draw, drawOverlay, drawFilterOverlay, drawYAxis, laneChannels]);
 
   // --- Annotation navigation ---
 
@@ -1036,11 +1097,16 @@ const Spectrogram = forwardRef<SpectrogramHandle, SpectrogramProps>(({
     const width = ((eTime - s) * pixelsPerSecond);
     // Labelled in source time, like every other time the user reads.
     const src = sourceIntervalOf(activeTimeline, s, eTime);
+    // A mod-drag draws a box: its vertical extent follows the pointer too.
+    const band = creatingAnnotation.band;
+    const boxStyle = band
+      ? { top: `${Math.min(band.y0, band.y1)}px`, height: `${Math.abs(band.y1 - band.y0)}px` }
+      : { top: 0, bottom: 0 };
 
     return (
         <div
-            className="absolute top-0 bottom-0 bg-white/20 border-l border-r border-white/50 pointer-events-none"
-            style={{ left: `${left}px`, width: `${width}px` }}
+            className={`absolute bg-white/20 pointer-events-none ${band ? 'border border-white/50' : 'border-l border-r border-white/50'}`}
+            style={{ left: `${left}px`, width: `${width}px`, ...boxStyle }}
         >
             <span className="absolute -top-6 left-0 text-xs bg-black/80 px-1 rounded text-white">{formatTime(src.start)}</span>
             <span className="absolute -top-6 right-0 text-xs bg-black/80 px-1 rounded text-white">{formatTime(src.end)}</span>
@@ -1131,7 +1197,11 @@ const Spectrogram = forwardRef<SpectrogramHandle, SpectrogramProps>(({
            scrollLeft={scrollLeft}
            pixelsPerSecond={pixelsPerSecond}
            containerWidth={containerRef.current?.clientWidth || 1000}
+           containerHeight={containerRef.current?.clientHeight ?? 0}
+           lanes={lanes}
+           channelCount={channelCount}
            hideLabels={hideLabels}
+           comparisonLanes={comparisonLanes}
            currentTimeStore={currentTimeStore}
            inputRefs={inputRefs}
            pendingAnnotationsRef={pendingAnnotationsRef}
@@ -1168,7 +1238,7 @@ const Spectrogram = forwardRef<SpectrogramHandle, SpectrogramProps>(({
            bandPassFilter={bandPassFilter}
            creatingFilter={creatingFilter}
            settings={settings}
-           containerHeight={containerRef.current?.clientHeight ?? 0}
+           lanes={lanes}
            onBeginResize={setResizingFilterEdge}
          />
       </div>
@@ -9,10 +9,11 @@ import { TimeReadout } from './controls/TimeReadout';
 import { SelectionTimeFields } from './controls/SelectionTimeFields';
 import { PlaybackSpeedControl } from './controls/PlaybackSpeedControl';
 import { FilterToolButton, FilterStrengthSlider } from './controls/FilterControls';
-import { BuzzdetectToggle, SubsetToggle, SpectrogramSettingsButton } from './controls/ToolbarToggles';
+import { BuzzdetectToggle, SubsetToggle, AnnotationTableToggle, PowerSpectrumToggle, ReviewToggle, AgreementToggle, SpectrogramSettingsButton } from './controls/ToolbarToggles';
 import type { CurrentTimeStore } from '../utils/currentTimeStore';
 import { DateTimeFormat } from '../utils/datetimeDisplay';
 import { Timeline } from '../utils/subsetTimeline';
+import type { FrameTimes } from '../utils/videoFrames';
 import { DEFAULT_DATE_TIME_FORMAT } from '../constants';
 import { tooltips } from '../copy/tooltips';
 
@@ -59,6 +60,18 @@ interface ToolbarProps {
   buzzdetectAvailable?: boolean;
   buzzdetectEnabled?: boolean;
   onToggleBuzzdetect?: () => void;
+  /** Annotation table panel toggle; omitted where there's no panel to show. */
+  annotationTableOpen?: boolean;
+  onToggleAnnotationTable?: () => void;
+  /** Power spectrum panel toggle; omitted where there's no panel to show. */
+  powerSpectrumOpen?: boolean;
+  onTogglePowerSpectrum?: () => void;
+  /** Review panel toggle; omitted where there's no panel to show. */
+  reviewOpen?: boolean;
+  onToggleReview?: () => void;
+  /** Agreement panel toggle; omitted where there's no panel to show. */
+  agreementOpen?: boolean;
+  onToggleAgreement?: () => void;
   /**
    * Subset mode (utils/subsetTimeline.ts). `subsetAvailable` is whether any
    * neuron has been ticked to subset by — without one there's nothing the
@@ -85,6 +98,10 @@ interface ToolbarProps {
   trackStartDate?: Date | null;
   /** Style for wall-clock datetime readouts (ruler, running time, From/To fields). */
   dateTimeFormat?: DateTimeFormat;
+  /** The video track's frame times, when the frame-accurate path has it indexed. */
+  frames?: FrameTimes | null;
+  snapToFrames?: boolean;
+  onSnapToFramesChange?: (snap: boolean) => void;
 }
 
 /**
@@ -134,6 +151,14 @@ function Toolbar({
   buzzdetectAvailable,
   buzzdetectEnabled,
   onToggleBuzzdetect,
+  annotationTableOpen,
+  onToggleAnnotationTable,
+  powerSpectrumOpen,
+  onTogglePowerSpectrum,
+  reviewOpen,
+  onToggleReview,
+  agreementOpen,
+  onToggleAgreement,
   subsetAvailable,
   subsetActive,
   onToggleSubset,
@@ -146,6 +171,9 @@ function Toolbar({
   onTimeDisplayUnitChange,
   trackStartDate = null,
   dateTimeFormat = DEFAULT_DATE_TIME_FORMAT,
+  frames = null,
+  snapToFrames = false,
+  onSnapToFramesChange,
 }: ToolbarProps) {
   const [volumeCtxMenu, setVolumeCtxMenu] = useState<{ x: number; y: number } | null>(null);
 
@@ -220,6 +248,9 @@ function Toolbar({
           trackStartDate={trackStartDate}
           dateTimeFormat={dateTimeFormat}
           timeline={timeline}
+          frames={frames}
+          snapToFrames={snapToFrames}
+          onSnapToFramesChange={onSnapToFramesChange}
           onSeek={onSeek}
           onUnitChange={u => onTimeDisplayUnitChange?.(u)}
         />
@@ -268,8 +299,8 @@ function Toolbar({
         />
       </div>
 
-      {/* Right-aligned controls: subset + buzzdetect toggles, spectrogram settings */}
-      {(onToggleSettings !== undefined || buzzdetectAvailable || subsetAvailable) && (
+      {/* Right-aligned controls: subset + buzzdetect + annotation table + power spectrum + review toggles, spectrogram settings */}
+      {(onToggleSettings !== undefined || buzzdetectAvailable || subsetAvailable || onToggleAnnotationTable !== undefined || onTogglePowerSpectrum !== undefined || onToggleReview !== undefined) && (
         <div className="ml-auto flex items-center gap-1">
           {subsetAvailable && (
             <SubsetToggle active={!!subsetActive} onToggle={() => onToggleSubset?.()} />
@@ -277,6 +308,18 @@ function Toolbar({
           {buzzdetectAvailable && (
             <BuzzdetectToggle enabled={!!buzzdetectEnabled} onToggle={() => onToggleBuzzdetect?.()} />
           )}
+          {onToggleAnnotationTable !== undefined && (
+            <AnnotationTableToggle open={!!annotationTableOpen} onToggle={onToggleAnnotationTable} />
+          )}
+          {onTogglePowerSpectrum !== undefined && (
+            <PowerSpectrumToggle open={!!powerSpectrumOpen} onToggle={onTogglePowerSpectrum} />
+          )}
+          {onToggleReview !== undefined && (
+            <ReviewToggle open={!!reviewOpen} onToggle={onToggleReview} />
+          )}
+          {onToggleAgreement !== undefined && (
+            <AgreementToggle open={!!agreementOpen} onToggle={onToggleAgreement} />
+          )}
           {onToggleSettings !== undefined && (
             <SpectrogramSettingsButton open={!!showSettings} onToggle={onToggleSettings} />
           )}
@@ -6,7 +6,9 @@ import VideoZoomLayer from './VideoZoomLayer';
 import { VideoFrameSource } from '../utils/VideoFrameSource';
 import { wantsCanvasRenderer, displayVideoMode } from '../utils/videoPlaybackMode';
 import { useHotkeys } from '../hooks/useHotkeys';
-import type { VideoMode } from '../types';
+import { bindAction } from '../utils/keymap';
+import { useKeymap } from '../utils/keymapStore';
+import type { Annotation, VideoMode, VideoRegion } from '../types';
 import { isLinux } from '../utils/platform';
 import {
   DEFAULT_VIEWPORT,
@@ -14,8 +16,10 @@ import {
   drawLetterboxed,
   isZoomed,
   panViewport,
+  type Rect,
   type Viewport,
 } from '../utils/videoZoom';
+import { keyframeAt, normalizeRegionBox, setRegionKeyframe } from '../utils/videoRegions';
 import { videoPane as videoP } from '../copy/ui';
 
 // MediaError codes (https://developer.mozilla.org/docs/Web/API/MediaError):
@@ -62,6 +66,17 @@ interface VideoPaneProps {
   contrast: number;
   onBrightnessChange: (v: number) => void;
   onContrastChange: (v: number) => void;
+  /** Annotations whose region boxes show over the frame (canvas path only). */
+  annotations?: Annotation[];
+  /** The annotation the region tool draws for; null disables the tool. */
+  selectedAnnotation?: Annotation | null;
+  /** Set or (with undefined) remove an annotation's region. Absent → no
+   *  region tool at all. */
+  onRegionChange?: (id: string, region: VideoRegion | undefined) => void;
+  /** Save the frame on screen as a PNG (canvas path only) / the selection as
+   *  a clip. Absent → no export button. */
+  onExportFrame?: () => void;
+  onExportClip?: () => void;
 }
 
 export default function VideoPane({
@@ -83,6 +98,11 @@ export default function VideoPane({
   contrast,
   onBrightnessChange,
   onContrastChange,
+  annotations,
+  selectedAnnotation = null,
+  onRegionChange,
+  onExportFrame,
+  onExportClip,
 }: VideoPaneProps) {
   // Pick the renderer based on mode.
   //   off:   custom "Video Disabled" placeholder (no element to drive)
@@ -157,12 +177,14 @@ export default function VideoPane({
   // ── Zoom state (shared model; reset whenever the track changes) ────────
   const [viewport, setViewport] = useState<Viewport>(DEFAULT_VIEWPORT);
   const [zoomToolActive, setZoomToolActive] = useState(false);
+  const [regionToolActive, setRegionToolActive] = useState(false);
   // Remembers the last zoomed-in viewport so Z can restore it.
   const lastZoomViewport = useRef<Viewport | null>(null);
 
   useEffect(() => {
     setViewport(DEFAULT_VIEWPORT);
     setZoomToolActive(false);
+    setRegionToolActive(false);
     lastZoomViewport.current = null;
   }, [frameSourceVersion, videoSrc, isAudioTrack]);
 
@@ -179,12 +201,8 @@ export default function VideoPane({
     });
   }, []);
 
-  useHotkeys([
-    {
-      key: 'z',
-      handler: handleToggleZoomState,
-    },
-  ]);
+  const keymap = useKeymap();
+  useHotkeys(bindAction(keymap, 'toggleVideoZoom', handleToggleZoomState));
 
   // Toggling the zoom tool does not affect the viewport.
   const handleZoomToolActiveChange = useCallback((active: boolean) => {
@@ -263,6 +281,26 @@ export default function VideoPane({
       ? computeContentRect(boxSize.w, boxSize.h, fallbackDims.w, fallbackDims.h)
       : null;
 
+  // ── Region boxes ──────────────────────────────────────────────────────
+  // Only the canvas path can draw them, and only a frame-accurate picture is
+  // worth drawing a box on. A box drawn nearer the annotation's end sets its
+  // end keyframe (see utils/videoRegions).
+  const regionToolAvailable = usingCanvas && !!selectedAnnotation;
+  const handleRegionDraw = useCallback(
+    (rect: Rect) => {
+      const box = normalizeRegionBox(rect);
+      if (!box || !selectedAnnotation || !onRegionChange) return;
+      const keyframe = keyframeAt(selectedAnnotation, getMediaTime());
+      const region = setRegionKeyframe(selectedAnnotation.attributes?.region, box, keyframe);
+      onRegionChange(selectedAnnotation.id, region);
+      setRegionToolActive(false);
+    },
+    [selectedAnnotation, onRegionChange, getMediaTime],
+  );
+  const handleRegionClear = useCallback(() => {
+    if (selectedAnnotation) onRegionChange?.(selectedAnnotation.id, undefined);
+  }, [selectedAnnotation, onRegionChange]);
+
   // Minimap thumbnail source — canvas path uses the frame cache; fallback
   // samples the live <video> element. computeContentRect keeps the same
   // letterbox math both paths and the main view use.
@@ -287,7 +325,7 @@ export default function VideoPane({
     >
       {/* Renderer selection:
        *    - "Video Disabled" placeholder when mode=off on a video track
-       *    - canvas: frame-accurate WebCodecs path for MP4/MOV
+       *    - canvas: frame-accurate WebCodecs path for MP4/MOV/WebM/MKV
        *    - <video>: cheap, drifts ~100 ms vs the audio clock */}
       {showDisabledPlaceholder ? (
         <div className="w-full h-full flex flex-col items-center justify-center bg-black text-slate-500 select-none">
@@ -306,6 +344,9 @@ export default function VideoPane({
               frameSource={frameSource!}
               getMediaTime={getMediaTime}
               onDebugLog={onDebugLog}
+              annotations={annotations}
+              selectedAnnotationId={selectedAnnotation?.id ?? null}
+              viewport={viewport}
             />
           ) : (
             <VideoPlayer
@@ -357,6 +398,16 @@ export default function VideoPane({
           contrast={contrast}
           onBrightnessChange={onBrightnessChange}
           onContrastChange={onContrastChange}
+          regionToolActive={regionToolActive}
+          onRegionToolActiveChange={setRegionToolActive}
+          regionToolAvailable={regionToolAvailable}
+          onRegionDraw={onRegionChange ? handleRegionDraw : undefined}
+          hasRegion={!!selectedAnnotation?.attributes?.region}
+          onRegionClear={handleRegionClear}
+          onExportFrame={onExportFrame}
+          onExportClip={onExportClip}
+          exportFrameAvailable={usingCanvas}
+          exportClipAvailable={hasSelection}
         />
       )}
 
@@ -418,7 +469,7 @@ export default function VideoPane({
                 off: 'No video display. Audio only — lightest on the CPU.',
                 fast: "Smooth playback, but video runs independently — audio filters disabled, playhead approximate. Rate adjustable 0.5–2×. Best for slow machines.",
                 mixed: 'Outside a selection, video plays independently (rate 0.5–2×). Inside a selection, audio filters apply and the picture locks to the audio clock.',
-                accurate: 'Full frame-accurate sync throughout. Heaviest on the CPU. MP4/MOV only — other formats fall back automatically.',
+                accurate: 'Full frame-accurate sync throughout. Heaviest on the CPU. MP4, MOV, WebM and MKV — a codec this system cannot decode falls back automatically.',
               };
               const active = isAudioTrack ? mode === 'off' : displayMode === mode;
               return (
@@ -41,7 +41,7 @@ interface VideoPlayerProps {
 //      clock — is driven externally by VideoElementEngine via the element handed
 //      up through onVideoElement; this component is purely presentational.
 // The frame-accurate CanvasVideoPlayer renders instead in Accurate mode (and Mixed
-// once a selection exists) for MP4/MOV, with audio from AudioEngine.
+// once a selection exists) for MP4/MOV/WebM/MKV, with audio from AudioEngine.
 
 export default function VideoPlayer({
   src,
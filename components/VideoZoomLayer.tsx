@@ -1,7 +1,10 @@
 import React, { useCallback, useEffect, useRef, useState } from 'react';
-import { ScanSearch, ZoomIn, ZoomOut, Maximize2, Search, Sun, Contrast, RotateCcw } from 'lucide-react';
+import { ScanSearch, ZoomIn, ZoomOut, Maximize2, Search, Sun, Contrast, RotateCcw, SquareDashed, Trash2, Camera, ImageDown, Film } from 'lucide-react';
 import { useHotkeys } from '../hooks/useHotkeys';
+import { bindAction } from '../utils/keymap';
+import { useKeymap } from '../utils/keymapStore';
 import { tooltips } from '../copy/tooltips';
+import { videoPane as videoP } from '../copy/ui';
 import {
   DEFAULT_VIEWPORT,
   ZOOM_STEP,
@@ -10,6 +13,7 @@ import {
   isZoomed,
   panToFraction,
   regionNorm,
+  screenRectToFrame,
   viewportFromDragRect,
   zoomBy,
   type Rect,
@@ -33,6 +37,24 @@ interface VideoZoomLayerProps {
   contrast: number;
   onBrightnessChange: (v: number) => void;
   onContrastChange: (v: number) => void;
+  /** Region-of-interest tool: the marquee draws a box on the frame for the
+   *  selected annotation instead of zooming. Absent → no region buttons. */
+  regionToolActive?: boolean;
+  onRegionToolActiveChange?: (active: boolean) => void;
+  /** False while there's nothing to attach a box to (tool disabled). */
+  regionToolAvailable?: boolean;
+  /** Called with the drawn box as a normalized frame rect. */
+  onRegionDraw?: (box: Rect) => void;
+  /** Whether the selected annotation has a region to clear. */
+  hasRegion?: boolean;
+  onRegionClear?: () => void;
+  /** Save the frame on screen as a PNG / the selection as a video clip.
+   *  Both absent → no export button. */
+  onExportFrame?: () => void;
+  onExportClip?: () => void;
+  /** Stills need the frame-accurate picture; clips need a selection. */
+  exportFrameAvailable?: boolean;
+  exportClipAvailable?: boolean;
 }
 
 const ADJUST_DEFAULT = 100;
@@ -44,7 +66,7 @@ const MINIMAP_MAX_H = 120;
 
 /**
  * Overlay for the video panel: a right-edge control strip (marquee-zoom
- * tool, +/-, reset), a drag-to-zoom marquee, and a bottom-right minimap
+ * tool, +/-, reset, region box), a drag-to-zoom marquee, and a bottom-right minimap
  * viewfinder. All zoom math lives in utils/videoZoom — this component only
  * captures intent and renders feedback, so the canvas and <video> paths
  * stay in lockstep.
@@ -62,13 +84,34 @@ export default function VideoZoomLayer({
   contrast,
   onBrightnessChange,
   onContrastChange,
+  regionToolActive = false,
+  onRegionToolActiveChange,
+  regionToolAvailable = false,
+  onRegionDraw,
+  hasRegion = false,
+  onRegionClear,
+  onExportFrame,
+  onExportClip,
+  exportFrameAvailable = false,
+  exportClipAvailable = false,
 }: VideoZoomLayerProps) {
   const rootRef = useRef<HTMLDivElement>(null);
   const haveDims = frameW > 0 && frameH > 0;
   const zoomed = isZoomed(viewport);
+  const regionMode = regionToolActive && regionToolAvailable;
 
-  // ── Brightness/contrast popout sliders ──────────────────────────────────
-  const [expandedAdjust, setExpandedAdjust] = useState<'brightness' | 'contrast' | null>(null);
+  // The zoom and region tools share the marquee, so arming one disarms the other.
+  const setZoomTool = (active: boolean) => {
+    if (active && regionToolActive) onRegionToolActiveChange?.(false);
+    onToolActiveChange(active);
+  };
+  const setRegionTool = (active: boolean) => {
+    if (active && toolActive) onToolActiveChange(false);
+    onRegionToolActiveChange?.(active);
+  };
+
+  // ── Brightness/contrast popout sliders (and the export menu) ────────────
+  const [expandedAdjust, setExpandedAdjust] = useState<'brightness' | 'contrast' | 'export' | null>(null);
   const adjustRef = useRef<HTMLDivElement>(null);
   useEffect(() => {
     if (!expandedAdjust) return;
@@ -93,25 +136,15 @@ export default function VideoZoomLayer({
 
   // Shift+Z toggles the marquee-zoom drawing tool (plain Z toggles zoom state
   // in VideoPane; mod+z / mod+shift+z remain undo/redo).
-  // = and + zoom in; - zooms out.
+  // = and + zoom in; - zooms out. Shift+B toggles the region tool.
+  const keymap = useKeymap();
   useHotkeys([
-    {
-      key: 'z',
-      mods: ['shift'],
-      handler: () => onToolActiveChange(!toolActive),
-    },
-    {
-      key: '=',
-      handler: () => onViewportChange(zoomBy(viewport, ZOOM_STEP)),
-    },
-    {
-      key: '+',
-      handler: () => onViewportChange(zoomBy(viewport, ZOOM_STEP)),
-    },
-    {
-      key: '-',
-      handler: () => onViewportChange(zoomBy(viewport, 1 / ZOOM_STEP)),
-    },
+    ...bindAction(keymap, 'videoZoomTool', () => setZoomTool(!toolActive)),
+    ...(onRegionDraw && regionToolAvailable
+      ? bindAction(keymap, 'videoRegionTool', () => setRegionTool(!regionToolActive))
+      : []),
+    ...bindAction(keymap, 'videoZoomIn', () => onViewportChange(zoomBy(viewport, ZOOM_STEP))),
+    ...bindAction(keymap, 'videoZoomOut', () => onViewportChange(zoomBy(viewport, 1 / ZOOM_STEP))),
   ]);
 
   // ── Drag-to-zoom marquee ──────────────────────────────────────────────
@@ -161,8 +194,14 @@ export default function VideoZoomLayer({
     setMarquee(null);
     if (!box || !m || !haveDims) return;
     const content = computeContentRect(box.width, box.height, frameW, frameH);
+    if (regionMode) {
+      // Same tiny-drag threshold as zooming: a click isn't a box.
+      if (m.w < 6 || m.h < 6) return;
+      onRegionDraw?.(screenRectToFrame(viewport, content, m));
+      return;
+    }
     onViewportChange(viewportFromDragRect(viewport, content, m));
-  }, [boxRect, marquee, haveDims, frameW, frameH, viewport, onViewportChange]);
+  }, [boxRect, marquee, haveDims, frameW, frameH, viewport, onViewportChange, regionMode, onRegionDraw]);
 
   // Change 2: Escape cancels an in-progress marquee drag.
   useEffect(() => {
@@ -252,8 +291,11 @@ export default function VideoZoomLayer({
     height: `${region.h * 100}%`,
   };
 
-  // Change 4: 7 buttons × 36 px + 6 gaps × 8 px + 8 px top padding = 296 px.
-  const STRIP_H = 7 * 36 + 6 * 8 + 8;
+  // Change 4: 7 buttons × 36 px + 6 gaps × 8 px + 8 px top padding = 296 px,
+  // plus two more buttons when the region tool is offered and one for export.
+  const hasExport = !!(onExportFrame || onExportClip);
+  const stripButtons = 7 + (onRegionDraw ? 2 : 0) + (hasExport ? 1 : 0);
+  const STRIP_H = stripButtons * 36 + (stripButtons - 1) * 8 + 8;
   const shouldWrapButtons = zoomed && containerH > 0 && containerH < STRIP_H + miniH + 24;
 
   const btn =
@@ -261,10 +303,10 @@ export default function VideoZoomLayer({
 
   return (
     <div ref={rootRef} className="absolute inset-0 z-20 pointer-events-none">
-      {/* Drag-to-zoom marquee capture (only while the tool is armed). */}
-      {toolActive && haveDims && (
+      {/* Drag-to-zoom / region marquee capture (only while a tool is armed). */}
+      {(toolActive || regionMode) && haveDims && (
         <div
-          className="absolute inset-0 pointer-events-auto cursor-zoom-in"
+          className={`absolute inset-0 pointer-events-auto ${regionMode ? 'cursor-crosshair' : 'cursor-zoom-in'}`}
           onPointerDown={onMarqueeDown}
           onPointerMove={onMarqueeMove}
           onPointerUp={onMarqueeUp}
@@ -303,7 +345,7 @@ export default function VideoZoomLayer({
           type="button"
           title={tooltips.marqueeZoom}
           aria-pressed={toolActive}
-          onClick={() => onToolActiveChange(!toolActive)}
+          onClick={() => setZoomTool(!toolActive)}
           className={`${btn} ${
             toolActive
               ? 'bg-[#e65161] border-[#e65161] text-white'
@@ -338,6 +380,33 @@ export default function VideoZoomLayer({
         >
           <Maximize2 size={18} />
         </button>
+        {onRegionDraw && (
+          <>
+            <button
+              type="button"
+              title={regionToolAvailable ? tooltips.regionTool : tooltips.regionToolUnavailable}
+              aria-pressed={regionMode}
+              disabled={!regionToolAvailable}
+              onClick={() => setRegionTool(!regionToolActive)}
+              className={`${btn} ${
+                regionMode
+                  ? 'bg-[#e65161] border-[#e65161] text-white'
+                  : 'bg-slate-800/80 border-slate-600 text-slate-200 hover:bg-slate-700'
+              }`}
+            >
+              <SquareDashed size={18} />
+            </button>
+            <button
+              type="button"
+              title={tooltips.clearRegion}
+              disabled={!hasRegion}
+              onClick={() => onRegionClear?.()}
+              className={`${btn} bg-slate-800/80 border-slate-600 text-slate-200 hover:bg-slate-700`}
+            >
+              <Trash2 size={18} />
+            </button>
+          </>
+        )}
         <div className="relative" ref={expandedAdjust === 'brightness' ? adjustRef : undefined}>
           <button
             type="button"
@@ -410,6 +479,47 @@ export default function VideoZoomLayer({
             </div>
           )}
         </div>
+        {hasExport && (
+          <div className="relative" ref={expandedAdjust === 'export' ? adjustRef : undefined}>
+            <button
+              type="button"
+              title={tooltips.exportVideo}
+              aria-pressed={expandedAdjust === 'export'}
+              onClick={() => setExpandedAdjust(v => (v === 'export' ? null : 'export'))}
+              className={`${btn} ${
+                expandedAdjust === 'export'
+                  ? 'bg-[#e65161] border-[#e65161] text-white'
+                  : 'bg-slate-800/80 border-slate-600 text-slate-200 hover:bg-slate-700'
+              }`}
+            >
+              <Camera size={18} />
+            </button>
+            {expandedAdjust === 'export' && (
+              <div className="absolute right-full top-1/2 -translate-y-1/2 mr-2 flex flex-col rounded-md border border-slate-600 bg-slate-900/90 backdrop-blur-sm py-1 pointer-events-auto shadow-lg whitespace-nowrap">
+                <button
+                  type="button"
+                  title={exportFrameAvailable ? undefined : tooltips.exportFrameUnavailable}
+                  disabled={!exportFrameAvailable}
+                  onClick={() => { setExpandedAdjust(null); onExportFrame?.(); }}
+                  className="flex items-center gap-2 px-3 py-1.5 text-xs text-slate-200 hover:bg-slate-700 transition-colors disabled:opacity-40 disabled:hover:bg-transparent disabled:cursor-not-allowed"
+                >
+                  <ImageDown size={14} />
+                  {videoP.exportFrame}
+                </button>
+                <button
+                  type="button"
+                  title={exportClipAvailable ? undefined : tooltips.exportClipUnavailable}
+                  disabled={!exportClipAvailable}
+                  onClick={() => { setExpandedAdjust(null); onExportClip?.(); }}
+                  className="flex items-center gap-2 px-3 py-1.5 text-xs text-slate-200 hover:bg-slate-700 transition-colors disabled:opacity-40 disabled:hover:bg-transparent disabled:cursor-not-allowed"
+                >
+                  <Film size={14} />
+                  {videoP.exportClip}
+                </button>
+              </div>
+            )}
+          </div>
+        )}
       </div>
 
       {/* Bottom-right minimap viewfinder — drag to pan. */}
@@ -1,7 +1,25 @@
-import { AlignJustify, Eye, EyeOff, Filter, FoldVertical, RefreshCw, Shuffle, UnfoldVertical } from 'lucide-react';
+import { AlignJustify, Eye, EyeOff, Filter, FoldVertical, ListTodo, RefreshCw, Shuffle, UnfoldVertical } from 'lucide-react';
 import { tooltips } from '../../copy/tooltips';
 
-export type FileFilter = 'all' | 'annotated' | 'unannotated';
+export type FileFilter = 'all' | 'annotated' | 'unannotated' | 'unfinished';
+
+const FILTER_CYCLE: Record<FileFilter, FileFilter> = {
+  all: 'unannotated', unannotated: 'annotated', annotated: 'unfinished', unfinished: 'all',
+};
+
+/** The filter the filter button steps to from `filter`. */
+export const nextFileFilter = (filter: FileFilter): FileFilter => FILTER_CYCLE[filter];
+
+const FILTER_TOOLTIP: Record<FileFilter, () => string> = {
+  all: () => tooltips.showAllFiles,
+  unannotated: () => tooltips.showingUnannotated,
+  annotated: () => tooltips.showingAnnotated,
+  unfinished: () => tooltips.showingUnfinished,
+};
+
+const FILTER_ICON: Record<FileFilter, typeof Eye> = {
+  all: Eye, unannotated: EyeOff, annotated: Filter, unfinished: ListTodo,
+};
 
 export interface FilePanelHeaderButtonsProps {
   /** Hides the expand/collapse button — shuffle mode has no folder tree. */
@@ -29,6 +47,7 @@ export function FilePanelHeaderButtons({
   onToggleFileFilter,
   onToggleShuffle,
 }: FilePanelHeaderButtonsProps) {
+  const FilterIcon = FILTER_ICON[fileFilter];
   return (
     <div className="flex items-center gap-0.5 flex-none" data-help-target="file-panel-header">
       {!shuffleMode && (
@@ -50,9 +69,9 @@ export function FilePanelHeaderButtons({
       <button
         onClick={onToggleFileFilter}
         className={`p-1 rounded hover:bg-slate-700 ${fileFilter !== 'all' ? 'text-[#e65161]' : 'text-slate-400 hover:text-white'}`}
-        data-tooltip={fileFilter === 'all' ? tooltips.showAllFiles : fileFilter === 'unannotated' ? tooltips.showingUnannotated : tooltips.showingAnnotated}
+        data-tooltip={FILTER_TOOLTIP[fileFilter]()}
       >
-        {fileFilter === 'all' ? <Eye size={13} /> : fileFilter === 'unannotated' ? <EyeOff size={13} /> : <Filter size={13} />}
+        <FilterIcon size={13} />
       </button>
       <button
         onClick={onToggleShuffle}
@@ -1,12 +1,37 @@
-import { FrequencyScale, SpectrogramSettings } from '../../types';
+import { ChannelView, ColormapName, FrequencyScale, SpectrogramSettings, WindowFunction } from '../../types';
 import LevelRangeSlider from '../LevelRangeSlider';
+import GradientPicker from '../GradientPicker';
 import { annotationWindow } from '../../copy/ui';
+import { COLORMAPS, DEFAULT_CUSTOM_COLORMAP, colormapCss } from '../../utils/colormaps';
+import { OVERLAP_PERCENTS, WINDOW_FUNCTIONS, ZERO_PADDING_FACTORS, hopForOverlap, stftOptionsOf } from '../../utils/stftOptions';
+import { FINEST_HOP_SAMPLES } from '../../constants';
 
 const FFT_SIZES = [256, 512, 1024, 2048, 4096, 8192];
 
+const windowName = (name: WindowFunction): string => {
+  switch (name) {
+    case 'hann': return annotationWindow.windowHann;
+    case 'hamming': return annotationWindow.windowHamming;
+    case 'blackmanHarris': return annotationWindow.windowBlackmanHarris;
+    case 'gaussian': return annotationWindow.windowGaussian;
+  }
+};
+
+const colormapName = (name: ColormapName): string => {
+  switch (name) {
+    case 'roseus': return annotationWindow.colormapRoseus;
+    case 'viridis': return annotationWindow.colormapViridis;
+    case 'grayscale': return annotationWindow.colormapGrayscale;
+    case 'grayscaleInverted': return annotationWindow.colormapGrayscaleInverted;
+    case 'custom': return annotationWindow.colormapCustom;
+  }
+};
+
 /**
  * Contents of the spectrogram settings popover — level range, frequency bounds,
- * FFT window size, frequency scale.
+ * FFT window size and analysis options (window function, overlap,
+ * zero-padding), frequency scale, colormap, and (for a multi-channel file)
+ * which channels to show.
  *
  * The popover's positioning stays at the call site (it hangs off the toolbar
  * gear in both windows); this is just the body, so AnnotationWindow,
@@ -15,11 +40,23 @@ const FFT_SIZES = [256, 512, 1024, 2048, 4096, 8192];
 export function SpectrogramSettingsPanel({
   settings,
   onChange,
+  channelCount = 1,
 }: {
   settings: SpectrogramSettings;
   /** Partial update — merged into the existing settings by the caller. */
   onChange: (patch: Partial<SpectrogramSettings>) => void;
+  /** Channels in the open file; the channel selector only shows for more than one. */
+  channelCount?: number;
 }) {
+  // A channel index the open file lacks shows as mixdown, which is also what
+  // the spectrogram falls back to for it (see viewChannels).
+  const view = settings.channelView ?? 'mixdown';
+  const viewValue = typeof view === 'number' && view >= channelCount ? 'mixdown' : String(view);
+  const colormap = settings.colormap ?? 'roseus';
+  const stft = stftOptionsOf(settings);
+  const overlapValue = settings.overlapPercent !== undefined && OVERLAP_PERCENTS.includes(settings.overlapPercent)
+    ? String(settings.overlapPercent)
+    : 'auto';
   return (
     <div className="p-4 space-y-6" data-help-target="spectrogram-settings-panel">
       <LevelRangeSlider
@@ -64,6 +101,41 @@ export function SpectrogramSettingsPanel({
             {FFT_SIZES.map(n => <option key={n} value={n}>{n}</option>)}
           </select>
         </div>
+        <div>
+          <label className="text-xs text-slate-400 mb-1 block">{annotationWindow.windowFunctionLabel}</label>
+          <select
+            value={stft.window}
+            onChange={e => onChange({ windowFunction: e.target.value as WindowFunction })}
+            className="w-full bg-slate-900 border border-slate-700 rounded px-2 py-1 text-sm focus:border-[#e65161] outline-none text-white"
+          >
+            {WINDOW_FUNCTIONS.map(w => <option key={w} value={w}>{windowName(w)}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className="text-xs text-slate-400 mb-1 block">{annotationWindow.overlapLabel}</label>
+          <select
+            value={overlapValue}
+            onChange={e => onChange({ overlapPercent: e.target.value === 'auto' ? undefined : parseFloat(e.target.value) })}
+            className="w-full bg-slate-900 border border-slate-700 rounded px-2 py-1 text-sm focus:border-[#e65161] outline-none text-white"
+          >
+            <option value="auto">{annotationWindow.overlapAuto(FINEST_HOP_SAMPLES)}</option>
+            {OVERLAP_PERCENTS.map(p => (
+              <option key={p} value={p}>{annotationWindow.overlapOption(p, hopForOverlap(settings.fftSize, p))}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="text-xs text-slate-400 mb-1 block">{annotationWindow.zeroPaddingLabel}</label>
+          <select
+            value={stft.zeroPadding}
+            onChange={e => onChange({ zeroPadding: parseInt(e.target.value) })}
+            className="w-full bg-slate-900 border border-slate-700 rounded px-2 py-1 text-sm focus:border-[#e65161] outline-none text-white"
+          >
+            {ZERO_PADDING_FACTORS.map(f => (
+              <option key={f} value={f}>{f === 1 ? annotationWindow.zeroPaddingNone : annotationWindow.zeroPaddingOption(f)}</option>
+            ))}
+          </select>
+        </div>
         <div>
           <label className="text-xs text-slate-400 mb-1 block">{annotationWindow.scaleLabel}</label>
           <select
@@ -77,6 +149,56 @@ export function SpectrogramSettingsPanel({
           </select>
         </div>
       </div>
+
+      <div className="space-y-3">
+        <h4 className="text-xs font-semibold text-slate-400 uppercase tracking-wider pb-1 border-b border-slate-700">{annotationWindow.colormapHeader}</h4>
+        <div>
+          <label className="text-xs text-slate-400 mb-1 block">{annotationWindow.colormapLabel}</label>
+          <select
+            value={colormap}
+            onChange={e => onChange({ colormap: e.target.value as ColormapName })}
+            className="w-full bg-slate-900 border border-slate-700 rounded px-2 py-1 text-sm focus:border-[#e65161] outline-none text-white"
+          >
+            {COLORMAPS.map(name => <option key={name} value={name}>{colormapName(name)}</option>)}
+          </select>
+        </div>
+        {colormap === 'custom' ? (
+          <div>
+            {/* minT 0: unlike a project color, a spectrogram floor may well be black. */}
+            <GradientPicker
+              value={settings.customColormap ?? DEFAULT_CUSTOM_COLORMAP}
+              onChange={colors => onChange({ customColormap: colors })}
+              minT={0}
+            />
+            <p className="text-[10px] text-slate-500 mt-1">{annotationWindow.customColormapHint}</p>
+          </div>
+        ) : (
+          <div className="h-2.5 rounded-full" style={{ backgroundImage: colormapCss(colormap) }} />
+        )}
+      </div>
+
+      {channelCount > 1 && (
+        <div className="space-y-3">
+          <h4 className="text-xs font-semibold text-slate-400 uppercase tracking-wider pb-1 border-b border-slate-700">{annotationWindow.channelsHeader}</h4>
+          <div>
+            <label className="text-xs text-slate-400 mb-1 block">{annotationWindow.channelViewLabel}</label>
+            <select
+              value={viewValue}
+              onChange={e => {
+                const v = e.target.value;
+                onChange({ channelView: (v === 'mixdown' || v === 'stacked' ? v : parseInt(v)) as ChannelView });
+              }}
+              className="w-full bg-slate-900 border border-slate-700 rounded px-2 py-1 text-sm focus:border-[#e65161] outline-none text-white"
+            >
+              <option value="mixdown">{annotationWindow.channelMixdown}</option>
+              {Array.from({ length: channelCount }, (_, i) => (
+                <option key={i} value={i}>{annotationWindow.channelOption(i)}</option>
+              ))}
+              <option value="stacked">{annotationWindow.channelStacked}</option>
+            </select>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
@@ -4,6 +4,7 @@ import { clamp, formatTimeForUnit, TimeDisplayUnit } from '../../utils/helpers';
 import { maxDateTimeLength, DateTimeFormat } from '../../utils/datetimeDisplay';
 import { parseTimestamp } from '../../utils/timeAxis';
 import { Timeline, identityTimeline, displayOfNearestKept } from '../../utils/subsetTimeline';
+import { formatTimecode, frameIndexAt, type FrameTimes } from '../../utils/videoFrames';
 import { tooltips } from '../../copy/tooltips';
 
 // Live playback-time readout. Subscribes to the currentTime store and holds its
@@ -25,6 +26,23 @@ function LiveTime({ currentTimeStore, unit, trackStartDate, dateTimeFormat, time
   return <>{formatTimeForUnit(timeline.toSource(t), unit, 2, trackStartDate, dateTimeFormat)}</>;
 }
 
+// Live frame readout for a video track: the number of the frame showing at the
+// playhead (from 0, as ffmpeg counts them) and that frame's HH:MM:SS:FF
+// timecode. Ticks on its own like LiveTime.
+function LiveFrame({ currentTimeStore, frames, timeline }: {
+  currentTimeStore: CurrentTimeStore;
+  frames: FrameTimes;
+  timeline: Timeline;
+}) {
+  const [t, setT] = useState(currentTimeStore.get());
+  useEffect(() => {
+    setT(currentTimeStore.get());
+    return currentTimeStore.subscribe(() => setT(currentTimeStore.get()));
+  }, [currentTimeStore]);
+  const i = frameIndexAt(frames, timeline.toSource(t));
+  return <>{`F${i} ${formatTimecode(frames.starts[i], frames.fps)}`}</>;
+}
+
 export interface TimeReadoutProps {
   currentTimeStore: CurrentTimeStore;
   duration: number;
@@ -41,6 +59,12 @@ export interface TimeReadoutProps {
    *  while onSeek still speaks display time, so the conversion happens here at
    *  the edge. Identity (or omitted) when no subset is on. */
   timeline?: Timeline;
+  /** The video track's frame times, when the frame-accurate path has it
+   *  indexed; adds the frame number/timecode line and the snap toggle. */
+  frames?: FrameTimes | null;
+  /** Whether annotation edges drawn on the spectrogram snap to frame boundaries. */
+  snapToFrames?: boolean;
+  onSnapToFramesChange?: (snap: boolean) => void;
   onSeek: (time: number, scroll?: boolean) => void;
   onUnitChange: (unit: TimeDisplayUnit) => void;
 }
@@ -57,6 +81,9 @@ export function TimeReadout({
   trackStartDate = null,
   dateTimeFormat = 'iso',
   timeline,
+  frames = null,
+  snapToFrames = false,
+  onSnapToFramesChange,
   onSeek,
   onUnitChange,
 }: TimeReadoutProps) {
@@ -143,6 +170,22 @@ export function TimeReadout({
           Date
         </button>
       </div>
+
+      {/* Frame line — only with a video track's frames indexed. */}
+      {frames && frames.starts.length > 0 && (
+        <div className="flex items-center gap-1" data-help-target="frame-readout">
+          <span className="text-[9px] leading-none font-mono text-slate-400" data-tooltip={tooltips.frameReadout}>
+            <LiveFrame currentTimeStore={currentTimeStore} frames={frames} timeline={tl} />
+          </span>
+          <button
+            className={`text-[9px] leading-none px-1.5 py-0.5 rounded transition-colors ${snapToFrames ? 'bg-slate-600 text-white' : 'text-slate-500 hover:text-slate-300'}`}
+            onClick={() => onSnapToFramesChange?.(!snapToFrames)}
+            data-tooltip={tooltips.snapToFrames}
+          >
+            Snap
+          </button>
+        </div>
+      )}
     </div>
   );
 }
@@ -1,7 +1,7 @@
-import { Settings, Activity, Scissors } from 'lucide-react';
+import { Settings, Activity, Scissors, Table2, ChartSpline, ListChecks, GitCompareArrows } from 'lucide-react';
 import { tooltips } from '../../copy/tooltips';
 
-// The two icon toggles at the right end of the toolbar. Extracted so the help
+// The icon toggles at the right end of the toolbar. Extracted so the help
 // guide can render working copies of them (components/help/LiveControls.tsx)
 // rather than descriptions.
 
@@ -38,6 +38,62 @@ export function SubsetToggle({ active, onToggle }: { active: boolean; onToggle:
   );
 }
 
+/** Shows/hides the annotation table docked under the spectrogram (components/AnnotationTablePanel). */
+export function AnnotationTableToggle({ open, onToggle }: { open: boolean; onToggle: () => void }) {
+  return (
+    <button
+      onClick={onToggle}
+      className={`p-1.5 rounded hover:bg-slate-700 transition-colors ${open ? 'bg-slate-700 text-[#e65161]' : 'text-slate-400 hover:text-white'}`}
+      data-tooltip={tooltips.annotationTablePanel}
+      data-help-target="annotation-table-toggle"
+    >
+      <Table2 size={16} />
+    </button>
+  );
+}
+
+/** Shows/hides the power spectrum docked under the spectrogram (components/PowerSpectrumPanel). */
+export function PowerSpectrumToggle({ open, onToggle }: { open: boolean; onToggle: () => void }) {
+  return (
+    <button
+      onClick={onToggle}
+      className={`p-1.5 rounded hover:bg-slate-700 transition-colors ${open ? 'bg-slate-700 text-[#e65161]' : 'text-slate-400 hover:text-white'}`}
+      data-tooltip={tooltips.powerSpectrumPanel}
+      data-help-target="power-spectrum-toggle"
+    >
+      <ChartSpline size={16} />
+    </button>
+  );
+}
+
+/** Shows/hides the review panel docked under the spectrogram (components/ReviewPanel). */
+export function ReviewToggle({ open, onToggle }: { open: boolean; onToggle: () => void }) {
+  return (
+    <button
+      onClick={onToggle}
+      className={`p-1.5 rounded hover:bg-slate-700 transition-colors ${open ? 'bg-slate-700 text-[#e65161]' : 'text-slate-400 hover:text-white'}`}
+      data-tooltip={tooltips.reviewPanel}
+      data-help-target="review-toggle"
+    >
+      <ListChecks size={16} />
+    </button>
+  );
+}
+
+/** Shows/hides the agreement panel docked under the spectrogram (components/AgreementPanel). */
+export function AgreementToggle({ open, onToggle }: { open: boolean; onToggle: () => void }) {
+  return (
+    <button
+      onClick={onToggle}
+      className={`p-1.5 rounded hover:bg-slate-700 transition-colors ${open ? 'bg-slate-700 text-[#e65161]' : 'text-slate-400 hover:text-white'}`}
+      data-tooltip={tooltips.agreementPanel}
+      data-help-target="agreement-toggle"
+    >
+      <GitCompareArrows size={16} />
+    </button>
+  );
+}
+
 /** Shows/hides the spectrogram settings popover (controls/SpectrogramSettingsPanel). */
 export function SpectrogramSettingsButton({ open, onToggle }: { open: boolean; onToggle: () => void }) {
   return (
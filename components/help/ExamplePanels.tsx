@@ -9,6 +9,7 @@ import {
   DEMO_ROOT,
   DEMO_TRACK,
   demoAnnotatedTracks,
+  demoTrackStatuses,
   demoAnnotations,
   demoFiles,
   demoNonMediaFiles,
@@ -18,9 +19,11 @@ import {
   DEMO_THRESHOLD,
 } from '../../utils/demoProject';
 import { subsetBuzzdetectData, subsetCriteriaFrom, subsetTimelineFor } from '../../utils/buzzdetectSubset';
+import { passesFileFilter } from '../../utils/trackStatus';
 import { help } from '../../copy/help';
 import BuzzdetectPanel from '../BuzzdetectPanel';
 import FileTree from '../FileTree';
+import { nextFileFilter, type FileFilter } from '../controls/FilePanelHeaderButtons';
 import MassRenameModal from '../MassRenameModal';
 
 // Panels the guide renders against the example project (utils/demoProject.ts)
@@ -35,15 +38,13 @@ import MassRenameModal from '../MassRenameModal';
 export function ExampleFilePanel() {
   const [currentTrack, setCurrentTrack] = useState<string | null>(DEMO_TRACK);
   const [shuffleMode, setShuffleMode] = useState(false);
-  const [fileFilter, setFileFilter] = useState<'all' | 'annotated' | 'unannotated'>('all');
+  const [fileFilter, setFileFilter] = useState<FileFilter>('all');
 
   // The real file panel is handed a pre-filtered list by AnnotationWindow, so
   // the example applies the same filter here for the button to visibly do
   // something.
   const files = demoFiles.filter(f =>
-    fileFilter === 'all' ? true
-      : fileFilter === 'annotated' ? demoAnnotatedTracks.has(f)
-      : !demoAnnotatedTracks.has(f));
+    passesFileFilter(fileFilter, demoAnnotatedTracks.has(f), demoTrackStatuses.get(f)));
 
   const index = currentTrack ? files.indexOf(currentTrack) : -1;
   const step = (delta: number) => {
@@ -69,8 +70,8 @@ export function ExampleFilePanel() {
         onToggleShuffle={() => setShuffleMode(v => !v)}
         annotatedTracks={demoAnnotatedTracks}
         fileFilter={fileFilter}
-        onToggleFileFilter={() => setFileFilter(f =>
-          f === 'all' ? 'unannotated' : f === 'unannotated' ? 'annotated' : 'all')}
+        trackStatuses={demoTrackStatuses}
+        onToggleFileFilter={() => setFileFilter(nextFileFilter)}
         onRevealInFinder={() => {}}
         onRevealAnnotations={() => {}}
         onImportAnnotations={() => {}}
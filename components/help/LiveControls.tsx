@@ -12,7 +12,7 @@ import { PlaybackSpeedControl } from '../controls/PlaybackSpeedControl';
 import { FilterToolButton, FilterStrengthSlider } from '../controls/FilterControls';
 import { BuzzdetectToggle, SubsetToggle, SpectrogramSettingsButton } from '../controls/ToolbarToggles';
 import { SpectrogramSettingsPanel } from '../controls/SpectrogramSettingsPanel';
-import { FilePanelHeaderButtons } from '../controls/FilePanelHeaderButtons';
+import { FilePanelHeaderButtons, nextFileFilter } from '../controls/FilePanelHeaderButtons';
 import AnnotationToolsPanel from '../AnnotationToolsPanel';
 import { ExampleBuzzdetectPanel, ExampleFilePanel, ExampleMassRename } from './ExamplePanels';
 import VolumeControl from '../VolumeControl';
@@ -309,7 +309,7 @@ export function LiveControl({ id, client }: { id: LiveControlId; client: LiveCli
             onToggleExpandCollapse={() => act(() => client.call('toggleFileExpandCollapse'), () => setFp({ anyExpanded: !fp.anyExpanded }))}
             onRefresh={() => act(() => client.call('refreshFiles'), () => {})}
             onToggleFileFilter={() => act(() => client.call('toggleFileFilter'), () => setFp({
-              fileFilter: fp.fileFilter === 'all' ? 'unannotated' : fp.fileFilter === 'unannotated' ? 'annotated' : 'all',
+              fileFilter: nextFileFilter(fp.fileFilter),
             }))}
             onToggleShuffle={() => act(() => client.call('toggleShuffle'), () => setFp({ shuffleMode: !fp.shuffleMode }))}
           />
@@ -336,6 +336,9 @@ export function LiveControl({ id, client }: { id: LiveControlId; client: LiveCli
               onOpenSettings={() => act(() => client.call('openToolSettings'), () => {})}
               onOpenMassRename={() => act(() => client.call('openMassRename'), () => {})}
               onOpenFindLabel={() => act(() => client.call('openFindLabel'), () => {})}
+              onOpenExportAnnotations={() => act(() => client.call('openExportAnnotations'), () => {})}
+              onOpenAnnotationStats={() => act(() => client.call('openAnnotationStats'), () => {})}
+              onOpenLabelSubset={() => act(() => client.call('openLabelSubset'), () => {})}
               onEditTool={i => act(() => client.call('editTool', i), () => {})}
               onRequestDeleteTool={i => act(() => client.call('requestDeleteTool', i), () => {})}
               playingExampleToolId={tp.playingExampleToolId}
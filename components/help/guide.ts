@@ -149,6 +149,9 @@ export const GUIDE: Part[] = [
           { kind: 'p', text: help.filePanel.p_folders },
           { kind: 'h', id: 'context', text: help.filePanel.h_context },
           { kind: 'p', text: help.filePanel.p_context },
+          { kind: 'h', id: 'status', text: help.filePanel.h_status },
+          { kind: 'p', text: help.filePanel.p_status },
+          { kind: 'note', text: help.filePanel.note_status_sync },
           { kind: 'h', id: 'collapse', text: help.filePanel.h_collapse },
           { kind: 'p', text: help.filePanel.p_collapse },
         ],
@@ -199,6 +202,13 @@ export const GUIDE: Part[] = [
           { kind: 'h', id: 'fft', text: help.spectrogramSettings.h_fft },
           { kind: 'p', text: help.spectrogramSettings.p_fft },
           { kind: 'p', text: help.spectrogramSettings.p_scale },
+          { kind: 'p', text: help.spectrogramSettings.p_analysis },
+          { kind: 'h', id: 'colors', text: help.spectrogramSettings.h_colors },
+          { kind: 'p', text: help.spectrogramSettings.p_colors },
+          { kind: 'h', id: 'channels', text: help.spectrogramSettings.h_channels },
+          { kind: 'p', text: help.spectrogramSettings.p_channels },
+          { kind: 'h', id: 'power-spectrum', text: help.spectrogramSettings.h_powerSpectrum },
+          { kind: 'p', text: help.spectrogramSettings.p_powerSpectrum },
           { kind: 'note', text: help.spectrogramSettings.note_cost },
         ],
       },
@@ -215,6 +225,9 @@ export const GUIDE: Part[] = [
             help.video.li_accurate,
           ] },
           { kind: 'note', text: help.video.note_badge },
+          { kind: 'h', id: 'frames', text: help.video.h_frames },
+          { kind: 'p', text: help.video.p_frames },
+          { kind: 'p', text: help.video.p_snap },
           { kind: 'h', id: 'pane', text: help.video.h_pane },
           { kind: 'p', text: help.video.p_pane1 },
           { kind: 'p', text: help.video.p_pane2 },
@@ -240,6 +253,13 @@ export const GUIDE: Part[] = [
           { kind: 'h', id: 'image', text: help.videoZoom.h_image },
           { kind: 'p', text: help.videoZoom.p_image },
           { kind: 'note', text: help.videoZoom.note_image },
+          { kind: 'h', id: 'regions', text: help.videoZoom.h_regions },
+          { kind: 'p', text: help.videoZoom.p_regions },
+          { kind: 'p', text: help.videoZoom.p_regionKeyframes },
+          { kind: 'note', text: help.videoZoom.note_regions },
+          { kind: 'h', id: 'export', text: help.videoZoom.h_export },
+          { kind: 'p', text: help.videoZoom.p_export },
+          { kind: 'note', text: help.videoZoom.note_export },
         ],
       },
       {
@@ -250,12 +270,20 @@ export const GUIDE: Part[] = [
           { kind: 'p', text: help.buzzdetect.p1 },
           { kind: 'live', control: 'buzzdetect' },
           { kind: 'live', control: 'buzzdetect-panel' },
+          { kind: 'h', id: 'models', text: help.buzzdetect.h_models },
+          { kind: 'p', text: help.buzzdetect.p_models },
           { kind: 'h', id: 'reading', text: help.buzzdetect.h_reading },
           { kind: 'p', text: help.buzzdetect.p_reading },
           { kind: 'h', id: 'frames', text: help.buzzdetect.h_frames },
           { kind: 'p', text: help.buzzdetect.p_frames },
           { kind: 'h', id: 'interact', text: help.buzzdetect.h_interact },
           { kind: 'p', text: help.buzzdetect.p_interact },
+          { kind: 'h', id: 'convert', text: help.buzzdetect.h_convert },
+          { kind: 'p', text: help.buzzdetect.p_convert },
+          { kind: 'h', id: 'evaluate', text: help.buzzdetect.h_evaluate },
+          { kind: 'p', text: help.buzzdetect.p_evaluate },
+          { kind: 'h', id: 'sources', text: help.buzzdetect.h_sources },
+          { kind: 'p', text: help.buzzdetect.p_sources },
           { kind: 'h', id: 'zoom', text: help.buzzdetect.h_zoom },
           { kind: 'p', text: help.buzzdetect.p_zoom },
           { kind: 'note', text: help.buzzdetect.note_subset },
@@ -273,6 +301,8 @@ export const GUIDE: Part[] = [
           { kind: 'p', text: help.subset.p_bins },
           { kind: 'note', text: help.subset.note_try },
           { kind: 'live', control: 'buzzdetect-panel' },
+          { kind: 'h', id: 'labels', text: help.subset.h_labels },
+          { kind: 'p', text: help.subset.p_labels },
           { kind: 'h', id: 'reading', text: help.subset.h_reading },
           { kind: 'p', text: help.subset.p_segments },
           { kind: 'p', text: help.subset.p_ruler },
@@ -386,6 +416,7 @@ export const GUIDE: Part[] = [
             help.creating.li2,
             help.creating.li3,
             help.creating.li4,
+            help.creating.li5,
           ] },
         ],
       },
@@ -400,6 +431,8 @@ export const GUIDE: Part[] = [
             help.editing.li3,
             help.editing.li4,
             help.editing.li5,
+            help.editing.li6,
+            help.editing.li7,
           ] },
         ],
       },
@@ -428,6 +461,36 @@ export const GUIDE: Part[] = [
           { kind: 'live', control: 'mass-rename' },
           { kind: 'h', id: 'find', text: help.bulk.h_find },
           { kind: 'p', text: help.bulk.p_find },
+          { kind: 'h', id: 'export', text: help.bulk.h_export },
+          { kind: 'p', text: help.bulk.p_export },
+          { kind: 'h', id: 'stats', text: help.bulk.h_stats },
+          { kind: 'p', text: help.bulk.p_stats },
+        ],
+      },
+      {
+        id: 'review',
+        title: () => help.pages.review,
+        target: 'review-toggle',
+        blocks: () => [
+          { kind: 'p', text: help.review.p1 },
+          { kind: 'h', id: 'verdicts', text: help.review.h_verdicts },
+          { kind: 'p', text: help.review.p_verdicts },
+          { kind: 'h', id: 'summary', text: help.review.h_summary },
+          { kind: 'p', text: help.review.p_summary },
+          { kind: 'note', text: help.review.note_sync },
+        ],
+      },
+      {
+        id: 'agreement',
+        title: () => help.pages.agreement,
+        target: 'agreement-toggle',
+        blocks: () => [
+          { kind: 'p', text: help.agreement.p1 },
+          { kind: 'h', id: 'matching', text: help.agreement.h_matching },
+          { kind: 'p', text: help.agreement.p_matching },
+          { kind: 'h', id: 'scores', text: help.agreement.h_scores },
+          { kind: 'p', text: help.agreement.p_scores },
+          { kind: 'note', text: help.agreement.note_lanes },
         ],
       },
       {
@@ -440,6 +503,8 @@ export const GUIDE: Part[] = [
           { kind: 'p', text: help.importing.p_conflict },
           { kind: 'h', id: 'format', text: help.importing.h_format },
           { kind: 'p', text: help.importing.p_format },
+          { kind: 'h', id: 'raven', text: help.importing.h_raven },
+          { kind: 'p', text: help.importing.p_raven },
           { kind: 'note', text: help.importing.note_bulk },
         ],
       },
@@ -492,6 +557,7 @@ export const GUIDE: Part[] = [
           { kind: 'p', text: help.files.p_delete },
           { kind: 'h', id: 'format', text: help.files.h_format },
           { kind: 'p', text: help.files.p_format },
+          { kind: 'p', text: help.files.p_attrs },
           { kind: 'h', id: 'seenote', text: help.files.h_seenote },
           { kind: 'p', text: help.files.p_seenote },
         ],
@@ -522,6 +588,7 @@ export const GUIDE: Part[] = [
         title: () => help.pages.shortcuts,
         wide: true,
         blocks: () => [
+          { kind: 'p', text: help.shortcuts.p_editing },
           { kind: 'shortcuts' },
         ],
       },
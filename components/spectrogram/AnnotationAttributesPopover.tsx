@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import { annotationOverlay as copy } from '../../copy/ui';
+import { AnnotationAttributes } from '../../types';
+import { normalizeAttributes } from '../../utils/annotationAttributes';
+
+interface AnnotationAttributesPopoverProps {
+  attributes: AnnotationAttributes | undefined;
+  /** Channels in the open file; the channel field only shows for more than one. */
+  channelCount: number;
+  /** Open above the annotation instead of below (it sits low in the view). */
+  above: boolean;
+  onSave: (attributes: AnnotationAttributes | undefined) => void;
+  onClose: () => void;
+}
+
+// Small form anchored to an annotation for its structured attributes. Edits
+// stay in a local draft until Save, which hands back the normalized result
+// (undefined once every field is cleared). Mouse and key events are stopped
+// here so typing doesn't trigger hotkeys and clicks don't reach the
+// spectrogram's drag handling.
+const AnnotationAttributesPopover: React.FC<AnnotationAttributesPopoverProps> = ({ attributes, channelCount, above, onSave, onClose }) => {
+  const [note, setNote] = useState(attributes?.note ?? '');
+  const [confidence, setConfidence] = useState(attributes?.confidence !== undefined ? String(attributes.confidence) : '');
+  const [uncertain, setUncertain] = useState(attributes?.uncertain ?? false);
+  const [observer, setObserver] = useState(attributes?.observer ?? '');
+  const [channel, setChannel] = useState<number | undefined>(attributes?.channel);
+
+  const save = () => {
+    const parsed = confidence.trim() === '' ? undefined : parseFloat(confidence);
+    // Attributes this form doesn't edit (a video region) are kept as they are.
+    onSave(normalizeAttributes({ ...attributes, note, confidence: parsed, uncertain, observer, channel }));
+  };
+
+  const inputClass = 'w-full bg-gray-800 border border-gray-600 rounded px-2 py-1 text-white text-xs focus:outline-none focus:border-blue-500';
+
+  return (
+    <div
+      className="absolute left-0 w-60 bg-gray-900 border border-gray-700 rounded-lg shadow-xl p-3 flex flex-col gap-2 cursor-default"
+      style={above ? { bottom: 'calc(100% + 4px)', zIndex: 60 } : { top: 'calc(100% + 4px)', zIndex: 60 }}
+      onMouseDown={(e) => e.stopPropagation()}
+      onClick={(e) => e.stopPropagation()}
+      onKeyDown={(e) => {
+        e.stopPropagation();
+        if (e.key === 'Escape') onClose();
+        if (e.key === 'Enter' && (e.ctrlKey || e.metaKey || !(e.target instanceof HTMLTextAreaElement))) save();
+      }}
+    >
+      <div className="text-gray-300 text-xs font-semibold">{copy.attributesTitle}</div>
+      <label className="text-gray-400 text-xs">
+        {copy.noteField}
+        <textarea
+          autoFocus
+          rows={2}
+          value={note}
+          onChange={e => setNote(e.target.value)}
+          placeholder={copy.notePlaceholder}
+          className={`${inputClass} mt-0.5 resize-none`}
+        />
+      </label>
+      <label className="text-gray-400 text-xs">
+        {copy.confidenceField}
+        <input
+          type="number"
+          min={0}
+          max={1}
+          step={0.05}
+          value={confidence}
+          onChange={e => setConfidence(e.target.value)}
+          className={`${inputClass} mt-0.5`}
+        />
+      </label>
+      <label className="text-gray-400 text-xs">
+        {copy.observerField}
+        <input
+          type="text"
+          value={observer}
+          onChange={e => setObserver(e.target.value)}
+          className={`${inputClass} mt-0.5`}
+          autoCorrect="off"
+          autoComplete="off"
+          spellCheck={false}
+        />
+      </label>
+      {(channelCount > 1 || channel !== undefined) && (
+        <label className="text-gray-400 text-xs">
+          {copy.channelField}
+          <select
+            value={channel ?? ''}
+            onChange={e => setChannel(e.target.value === '' ? undefined : parseInt(e.target.value))}
+            className={`${inputClass} mt-0.5`}
+          >
+            <option value="">{copy.allChannelsOption}</option>
+            {Array.from({ length: Math.max(channelCount, (channel ?? -1) + 1) }, (_, i) => (
+              <option key={i} value={i}>{copy.channelOption(i)}</option>
+            ))}
+          </select>
+        </label>
+      )}
+      <label className="flex items-center gap-1.5 text-gray-400 text-xs cursor-pointer select-none">
+        <input
+          type="checkbox"
+          checked={uncertain}
+          onChange={e => setUncertain(e.target.checked)}
+          className="accent-blue-500"
+        />
+        {copy.uncertainField}
+      </label>
+      <div className="flex justify-end gap-2 pt-1">
+        <button onClick={onClose} className="px-2 py-1 text-gray-400 hover:text-white transition-colors text-xs">
+          {copy.cancelAttributesButton}
+        </button>
+        <button onClick={save} className="px-2 py-1 bg-blue-600 hover:bg-blue-500 text-white rounded text-xs transition-colors">
+          {copy.saveAttributesButton}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default AnnotationAttributesPopover;
@@ -1,11 +1,16 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { annotationOverlay as copy } from '../../copy/ui';
 import { tooltips } from '../../copy/tooltips';
-import { X, Pencil } from 'lucide-react';
+import { X, Pencil, StickyNote } from 'lucide-react';
 import { Annotation, AnnotationWithLayer, AnnotationTool, Selection, SpectrogramSettings } from '../../types';
-import { updateAnnotation } from '../../utils/helpers';
+import { updateAnnotation, isBoxAnnotation } from '../../utils/helpers';
+import { Lane, annotationLaneIndex, laneFreqToY } from '../../utils/channelLanes';
+import { relabelAnnotation } from '../../utils/annotationList';
+import type { AnnotationResizeSide } from '../../hooks/useSpectrogramInteraction';
 import { timeToX, computeLabelPlacement, computeButtonAnchorX } from '../../utils/viewportTransform';
 import type { CurrentTimeStore } from '../../utils/currentTimeStore';
+import type { ComparisonLane } from '../../utils/annotationAgreement';
+import AnnotationAttributesPopover from './AnnotationAttributesPopover';
 
 interface AnnotationOverlayProps {
   layeredAnnotations: AnnotationWithLayer[];
@@ -20,7 +25,14 @@ interface AnnotationOverlayProps {
   scrollLeft: number;
   pixelsPerSecond: number;
   containerWidth: number;
+  containerHeight: number;
+  /** Channel lanes in container px (utils/channelLanes); one lane unless the view is stacked. */
+  lanes: Lane[];
+  /** Channels in the open file, for the attributes popover's channel field. */
+  channelCount: number;
   hideLabels: boolean;
+  /** Other annotation sets' events for this track, drawn read-only along the bottom (agreement panel). */
+  comparisonLanes?: ComparisonLane[];
   currentTimeStore: CurrentTimeStore;
   inputRefs: React.MutableRefObject<Record<string, HTMLInputElement | null>>;
   // Pending-edit ref used so resize/text edits stage before commit (shared with parent).
@@ -39,13 +51,35 @@ interface AnnotationOverlayProps {
   onAnnotationMouseLeave: () => void;
   setEditingInputId: (id: string | null) => void;
   setPencilClickedId: (id: string | null) => void;
-  setResizingAnnotation: (v: { id: string; side: 'start' | 'end'; originalTime: number } | null) => void;
+  setResizingAnnotation: (v: { id: string; side: AnnotationResizeSide; originalTime: number } | null) => void;
 }
 
+// Height of a time-band annotation, and of the label row along the top of a box.
+const ROW_HEIGHT = 30;
+
+// Roughly the attributes popover's height; it opens above an annotation whose
+// bottom is closer than this to the bottom of the view.
+const POPOVER_FLIP_HEIGHT = 230;
+
+// Height of one comparison lane, and the gap under and between them.
+const COMPARISON_LANE_HEIGHT = 16;
+const COMPARISON_LANE_GAP = 3;
+
 // Per-annotation positioned divs: resize handles, the text input (edit mode) vs
 // read-only span, pencil icon, delete button, colors and selection/bound visual
-// states. Render-only — the center-drag/resize interaction state is owned by
-// Spectrogram.tsx and reached via callbacks and shared refs.
+// states. A box annotation (one with a frequency band) is placed vertically by
+// its band on the current frequency scale and gets top/bottom handles for it;
+// a time band stacks in its dodge layer as before. In a stacked multi-channel
+// view an annotation tagged with a channel is placed the same way within that
+// channel's lane; an untagged box covers every lane, since it applies to all
+// of them. An uncertain annotation is
+// drawn with a dashed border, and a hover button opens its attributes popover.
+// Comparison lanes, when given, are strips along the bottom of the view, one
+// per annotation set, in the set's color; an event the other set doesn't agree
+// with is drawn solid. They take no pointer events.
+// Render-only apart from which popover is open — the center-drag/resize
+// interaction state is owned by Spectrogram.tsx and reached via callbacks and
+// shared refs.
 const AnnotationOverlay: React.FC<AnnotationOverlayProps> = ({
   layeredAnnotations,
   annotations,
@@ -55,10 +89,15 @@ const AnnotationOverlay: React.FC<AnnotationOverlayProps> = ({
   editingInputId,
   annotationTools,
   selection,
+  settings,
   scrollLeft,
   pixelsPerSecond,
   containerWidth,
+  containerHeight,
+  lanes,
+  channelCount,
   hideLabels,
+  comparisonLanes,
   currentTimeStore,
   inputRefs,
   pendingAnnotationsRef,
@@ -76,8 +115,49 @@ const AnnotationOverlay: React.FC<AnnotationOverlayProps> = ({
   setPencilClickedId,
   setResizingAnnotation,
 }) => {
+  const [attributesOpenId, setAttributesOpenId] = useState<string | null>(null);
+
   return (
     <>
+      {comparisonLanes?.map((lane, index) => {
+        const laneTop = containerHeight
+          - (comparisonLanes.length - index) * (COMPARISON_LANE_HEIGHT + COMPARISON_LANE_GAP);
+        return (
+          <div
+            key={`comparison-${index}`}
+            className="absolute left-0 right-0 pointer-events-none"
+            style={{ top: `${laneTop}px`, height: `${COMPARISON_LANE_HEIGHT}px`, zIndex: 5 }}
+          >
+            {lane.annotations.map(annotation => {
+              const left = timeToX(annotation.start, scrollLeft, pixelsPerSecond);
+              const width = Math.max(2, (annotation.end - annotation.start) * pixelsPerSecond);
+              if (left + width < 0 || left > containerWidth) return null;
+              const disagrees = lane.disagreeing.has(annotation.id);
+              return (
+                <div
+                  key={annotation.id}
+                  className="absolute top-0 bottom-0 rounded-sm overflow-hidden text-[10px] leading-4 px-1 text-white whitespace-nowrap"
+                  style={{
+                    left: `${left}px`,
+                    width: `${width}px`,
+                    border: `1px solid ${lane.color}`,
+                    backgroundColor: disagrees ? lane.color : `${lane.color}40`,
+                    textShadow: '0 1px 2px black',
+                  }}
+                >
+                  {width > 24 ? annotation.text : null}
+                </div>
+              );
+            })}
+            <span
+              className="absolute left-1 top-0 px-1 rounded-sm text-[10px] leading-4 font-bold bg-slate-900/80"
+              style={{ color: lane.color }}
+            >
+              {lane.name}
+            </span>
+          </div>
+        );
+      })}
       {layeredAnnotations.map((annotation) => {
         const left = timeToX(annotation.start, scrollLeft, pixelsPerSecond);
         const width = (annotation.end - annotation.start) * pixelsPerSecond;
@@ -86,7 +166,26 @@ const AnnotationOverlay: React.FC<AnnotationOverlayProps> = ({
 
         if (left + width < 0 || left > containerWidth) return null;
 
-        const top = 22 + (annotation.layerIndex * 35);
+        const isBox = isBoxAnnotation(annotation);
+        const laneIndex = annotationLaneIndex(annotation, lanes);
+        // null = an untagged annotation in a stacked view, which spans every lane.
+        const lane = laneIndex !== null ? lanes[laneIndex]
+            : lanes.length > 1 ? null : { top: 0, height: containerHeight, channel: null };
+        let top = (lane?.top ?? 0) + 22 + (annotation.layerIndex * 35);
+        let height = ROW_HEIGHT;
+        if (isBox && lane) {
+            const { minFreq, maxFreq, frequencyScale } = settings;
+            const yHigh = laneFreqToY(lane, Math.min(annotation.highFreq, maxFreq), minFreq, maxFreq, frequencyScale);
+            const yLow = laneFreqToY(lane, Math.max(annotation.lowFreq, minFreq), minFreq, maxFreq, frequencyScale);
+            // A band entirely outside the displayed frequency range isn't drawn.
+            if (annotation.lowFreq >= maxFreq || annotation.highFreq <= minFreq) return null;
+            top = yHigh;
+            height = Math.max(2, yLow - yHigh);
+        } else if (isBox) {
+            top = 0;
+            height = containerHeight;
+        }
+        const rowHeight = Math.min(ROW_HEIGHT, height);
 
         const baseColor = annotation.color || "#ffffff";
         const isCustomAnnotation = baseColor.toLowerCase() === "#ffffff" || baseColor.toLowerCase() === "#fff";
@@ -143,17 +242,21 @@ const AnnotationOverlay: React.FC<AnnotationOverlayProps> = ({
             }
         };
 
+        const note = annotation.attributes?.note;
+        const tooltipText = note ? (annotation.text ? `${annotation.text} — ${note}` : note) : annotation.text;
+        const attributesOpen = attributesOpenId === annotation.id;
+
         return (
             <div
                key={annotation.id}
                className="annotation-item absolute rounded"
-               {...(annotation.text ? { 'data-tooltip': annotation.text, 'data-tooltip-delay': '600' } : {})}
+               {...(tooltipText && !attributesOpen ? { 'data-tooltip': tooltipText, 'data-tooltip-delay': '600' } : {})}
                style={{
                    left: `${left}px`,
                    width: `${Math.max(2, width)}px`,
                    top: `${top}px`,
-                   height: '30px',
-                   border: `${isBound ? '2px' : '1px'} solid ${isBound ? 'white' : styleVars.borderColor}`,
+                   height: `${height}px`,
+                   border: `${isBound ? '2px' : '1px'} ${annotation.attributes?.uncertain ? 'dashed' : 'solid'} ${isBound ? 'white' : styleVars.borderColor}`,
                    backgroundColor: styleVars.bgColor,
                    boxShadow: isBound ? '0 0 0 2px rgba(255,255,255,0.4)' : '0 2px 4px rgba(0,0,0,0.5)',
                    zIndex: isSelected ? 20 : 10,
@@ -211,6 +314,28 @@ const AnnotationOverlay: React.FC<AnnotationOverlayProps> = ({
                >
                    {width > 20 && <div className="w-[1px] h-3 bg-white/50" />}
                </div>
+               {/* Band handles — boxes only: top edge moves highFreq, bottom edge lowFreq */}
+               {isBox && lane && (['high', 'low'] as const).map(side => (
+                   <div
+                       key={side}
+                       className={`absolute left-2 right-2 ${side === 'high' ? 'top-0' : 'bottom-0'} h-1.5 cursor-ns-resize hover:bg-white/20 z-10`}
+                       onMouseDown={(e) => {
+                           e.stopPropagation();
+                           if (e.button === 1) {
+                               e.preventDefault();
+                               deleteAnnotation();
+                               return;
+                           }
+                           clickDownRef.current = null;
+                           onSelectAnnotation(annotation.id);
+                           setResizingAnnotation({
+                               id: annotation.id,
+                               side,
+                               originalTime: side === 'high' ? annotation.highFreq : annotation.lowFreq,
+                           });
+                       }}
+                   />
+               ))}
 
                {width > 30 ? (
                    // When editing (pencil or new empty annotation): show an input.
@@ -222,15 +347,9 @@ const AnnotationOverlay: React.FC<AnnotationOverlayProps> = ({
                            value={annotation.text}
                            onChange={(e) => {
                                const newText = e.target.value;
-                               const newAnnotations = updateAnnotation(annotations, annotation.id, a => {
-                                   // Typing a label that matches a defined tool adopts that tool's
-                                   // canonical text + color; anything else is a Custom label (white).
-                                   const matchingTool = annotationTools.find(t => t.text.toLowerCase() === newText.toLowerCase() && t.key !== "0");
-                                   if (matchingTool) {
-                                        return { ...a, text: matchingTool.text, color: matchingTool.color };
-                                   }
-                                   return { ...a, text: newText, color: "#ffffff" };
-                               });
+                               // Typing a label that matches a defined tool adopts that tool's
+                               // canonical text + color; anything else is a Custom label (white).
+                               const newAnnotations = updateAnnotation(annotations, annotation.id, a => relabelAnnotation(a, newText, annotationTools));
                                pendingAnnotationsRef.current = newAnnotations;
                                onAnnotationsChange(newAnnotations);
                            }}
@@ -262,9 +381,10 @@ const AnnotationOverlay: React.FC<AnnotationOverlayProps> = ({
                                    onAnnotationsCommit(pendingAnnotationsRef.current);
                                }
                            }}
-                           className="absolute top-0 bottom-0 bg-transparent text-xs placeholder-white/30 focus:outline-none"
+                           className="absolute top-0 bg-transparent text-xs placeholder-white/30 focus:outline-none"
                            style={{
                                ...labelStyle,
+                               height: `${rowHeight}px`,
                                textAlign: 'left',
                                color: '#ffffff',
                                fontWeight: 'bold',
@@ -287,17 +407,18 @@ const AnnotationOverlay: React.FC<AnnotationOverlayProps> = ({
                        />
                    ) : (
                        <span
-                           className="absolute top-0 bottom-0 flex items-center text-xs font-bold pointer-events-none"
+                           className="absolute top-0 flex items-center text-xs font-bold pointer-events-none"
                            style={{
                                // Horizontal placement: left-aligned, clipped to annotation right edge.
                                ...labelStyle,
+                               height: `${rowHeight}px`,
                                color: '#ffffff',
                                textShadow: '0 1px 2px black',
                                overflow: 'hidden',
                                whiteSpace: 'nowrap',
                                textOverflow: 'ellipsis',
                                display: 'block',
-                               lineHeight: '30px',
+                               lineHeight: `${rowHeight}px`,
                            }}
                        >
                            {annotation.text || <span className="opacity-30">{copy.namePlaceholder}</span>}
@@ -357,6 +478,38 @@ const AnnotationOverlay: React.FC<AnnotationOverlayProps> = ({
                >
                    <X size={10} className="text-white" />
                </button>
+
+               {/* Attributes button — beside the delete badge; stays lit while the annotation has a note */}
+               <button
+                   className={`absolute -top-3 ${isHovered || attributesOpen ? 'flex' : 'hidden'} ${note ? 'bg-amber-500' : 'bg-slate-600'} rounded-full p-0.5 z-30`}
+                   style={{ right: `${deleteRight + 18}px` }}
+                   onMouseEnter={() => onAnnotationMouseEnter(annotation.id)}
+                   onMouseLeave={onAnnotationMouseLeave}
+                   onMouseDown={(e) => e.stopPropagation()}
+                   onClick={(e) => {
+                       e.stopPropagation();
+                       setAttributesOpenId(attributesOpen ? null : annotation.id);
+                   }}
+                   data-tooltip={tooltips.editAnnotationAttributes}
+               >
+                   <StickyNote size={10} className="text-white" />
+               </button>
+
+               {attributesOpen && (
+                   <AnnotationAttributesPopover
+                       attributes={annotation.attributes}
+                       channelCount={channelCount}
+                       above={top + height + POPOVER_FLIP_HEIGHT > containerHeight}
+                       onClose={() => setAttributesOpenId(null)}
+                       onSave={(attributes) => {
+                           setAttributesOpenId(null);
+                           onAnnotationsCommit(updateAnnotation(annotations, annotation.id, a => {
+                               const { attributes: _previous, ...rest } = a;
+                               return attributes ? { ...rest, attributes } : rest;
+                           }));
+                       }}
+                   />
+               )}
             </div>
         );
       })}
@@ -1,12 +1,13 @@
 import React from 'react';
 import { BandPassFilter, SpectrogramSettings } from '../../types';
-import { freqToY } from '../../utils/audioProcessing';
+import { Lane, laneFreqToY } from '../../utils/channelLanes';
 
 interface FilterHandlesProps {
   bandPassFilter: BandPassFilter | null;
   creatingFilter: { y0: number; y1: number } | null;
   settings: SpectrogramSettings;
-  containerHeight: number;
+  /** Channel lanes in container px; each lane gets its own pair of handles. */
+  lanes: Lane[];
   onBeginResize: (edge: 'low' | 'high') => void;
 }
 
@@ -16,19 +17,20 @@ const FilterHandles: React.FC<FilterHandlesProps> = ({
   bandPassFilter,
   creatingFilter,
   settings,
-  containerHeight,
+  lanes,
   onBeginResize,
 }) => {
   if (!bandPassFilter || creatingFilter) return null;
-  const canvasHeight = containerHeight;
-  if (canvasHeight === 0) return null;
-
-  const yHigh = freqToY(bandPassFilter.high, canvasHeight, settings.minFreq, settings.maxFreq, settings.frequencyScale);
-  const yLow = freqToY(bandPassFilter.low, canvasHeight, settings.minFreq, settings.maxFreq, settings.frequencyScale);
 
   return (
     <>
-      {yHigh >= 0 && yHigh <= canvasHeight && (
+      {lanes.filter(lane => lane.height > 0).map((lane, i) => {
+        const yHigh = laneFreqToY(lane, bandPassFilter.high, settings.minFreq, settings.maxFreq, settings.frequencyScale);
+        const yLow = laneFreqToY(lane, bandPassFilter.low, settings.minFreq, settings.maxFreq, settings.frequencyScale);
+        const laneBottom = lane.top + lane.height;
+        return (
+          <React.Fragment key={i}>
+      {yHigh >= lane.top && yHigh <= laneBottom && (
         <div
           className="absolute left-0 right-0 cursor-ns-resize"
           style={{ top: `${yHigh - 4}px`, height: '9px', zIndex: 15 }}
@@ -40,7 +42,7 @@ const FilterHandles: React.FC<FilterHandlesProps> = ({
           <div className="absolute left-0 right-0" style={{ top: '4px', height: '1px', background: '#60a5fa' }} />
         </div>
       )}
-      {yLow >= 0 && yLow <= canvasHeight && (
+      {yLow >= lane.top && yLow <= laneBottom && (
         <div
           className="absolute left-0 right-0 cursor-ns-resize"
           style={{ top: `${yLow - 4}px`, height: '9px', zIndex: 15 }}
@@ -52,6 +54,9 @@ const FilterHandles: React.FC<FilterHandlesProps> = ({
           <div className="absolute left-0 right-0" style={{ top: '4px', height: '1px', background: '#60a5fa' }} />
         </div>
       )}
+          </React.Fragment>
+        );
+      })}
     </>
   );
 };
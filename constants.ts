@@ -40,6 +40,25 @@ export const SUPPORTED_VIDEO_EXTS = new Set(['mp4', 'm4v', 'mov', 'mkv', 'webm']
 // set-merged.
 export const ANNOTATION_FILE_EXT = 'txt';
 
+// Suffix (before ANNOTATION_FILE_EXT) of a track's attributes sidecar:
+// `<ident>.attrs.txt` beside `<ident>.txt`. Sharing the extension means git-sync
+// stages and set-merges sidecars like any annotation file; the file listing and
+// the sync's annotation counts skip them. Mirror of Rust
+// `ANNOTATION_ATTRS_SUFFIX` in src-tauri/src/commands/shared.rs.
+export const ANNOTATION_ATTRS_SUFFIX = '.attrs';
+
+// Suffix of a track's review sidecar, `<ident>.review.txt`: reviewers'
+// verdicts on its annotations (utils/annotationReview.ts). Synced and skipped
+// like the attributes sidecar. Mirror of Rust `ANNOTATION_REVIEW_SUFFIX` in
+// src-tauri/src/commands/shared.rs.
+export const ANNOTATION_REVIEW_SUFFIX = '.review';
+
+// File name of the project's track-status file at the annotation root: each
+// track's completion status and assignee (utils/trackStatus.ts). A `.txt` so it
+// syncs and set-merges like the sidecars; the file listing skips it. Mirror of
+// Rust `TRACK_STATUS_FILE` in src-tauri/src/commands/shared.rs.
+export const TRACK_STATUS_FILE = '.track-status.txt';
+
 // Lowercased file extension (no dot), or '' if the path has no extension.
 export function getExt(path: string): string {
   return path.split('.').pop()?.toLowerCase() ?? '';
@@ -75,6 +94,10 @@ export const DEFAULT_SPECTROGRAM_SETTINGS: SpectrogramSettings = {
   frequencyScale: 'mel',
   displayFloor: -100,
   displayCeil: 0,
+  channelView: 'mixdown',
+  colormap: 'roseus',
+  windowFunction: 'hann',
+  zeroPadding: 1,
 };
 
 // Panel layout defaults — used when no saved layout exists yet in preferences.json.
@@ -86,7 +109,8 @@ export const DEFAULT_UI_SETTINGS: Required<Omit<ProjectUiSettings,
   'activeTrackPath' |
   'buzzdetectEnabled' | 'buzzdetectThresholds' | 'buzzdetectHiddenNeurons' | 'buzzdetectNeuronColors' | 'buzzdetectSeriesMode' | 'buzzdetectBinWidthOverride' |
   'buzzdetectSubsetEnabled' | 'buzzdetectSubsetNeurons' | 'buzzdetectMinDetectionRate' |
-  'playheadLocked' | 'filePanelCollapsed' | 'videoCollapsed' |
+  'detectorSourceThresholds' | 'detectorSourceHiddenNeurons' | 'labelSubsetEnabled' | 'labelSubset' |
+  'playheadLocked' | 'annotationTableOpen' | 'powerSpectrumOpen' | 'reviewOpen' | 'agreementOpen' | 'filePanelCollapsed' | 'videoCollapsed' |
   'splitRatio' | 'leftPanelRatio' | 'leftPanelWidthRatio' | 'timeDisplayUnit' | 'fallbackTimeDisplayUnit'>> = {
   volume: 1,
   playbackSpeed: 1,
@@ -95,6 +119,7 @@ export const DEFAULT_UI_SETTINGS: Required<Omit<ProjectUiSettings,
   videoMode: 'fast',
   videoBrightness: 100,
   videoContrast: 100,
+  snapToFrames: false,
 };
 
 // On by default: remote annotation changes get pulled in automatically (on
@@ -120,6 +145,32 @@ export function migrateVideoMode(mode: VideoMode | string | undefined): VideoMod
   return DEFAULT_UI_SETTINGS.videoMode;
 }
 
+// Annotation table panel (components/AnnotationTablePanel.tsx) defaults.
+export const DEFAULT_ANNOTATION_TABLE_PANEL_HEIGHT = 220; // px
+export const MIN_ANNOTATION_TABLE_PANEL_HEIGHT = 100;
+export const MAX_ANNOTATION_TABLE_PANEL_HEIGHT = 600;
+
+// Power spectrum panel (components/PowerSpectrumPanel.tsx) defaults.
+export const DEFAULT_POWER_SPECTRUM_PANEL_HEIGHT = 200; // px
+export const MIN_POWER_SPECTRUM_PANEL_HEIGHT = 100;
+export const MAX_POWER_SPECTRUM_PANEL_HEIGHT = 500;
+// Longest stretch of a selection the panel averages; a longer selection is
+// analysed from its start. Bounds the decode (the whole stretch is held in the
+// PCM cache) and the FFT work for a selection dragged across a long recording.
+export const MAX_POWER_SPECTRUM_SEC = 60;
+
+// Review panel (components/ReviewPanel.tsx) defaults.
+export const DEFAULT_REVIEW_PANEL_HEIGHT = 220; // px
+export const MIN_REVIEW_PANEL_HEIGHT = 120;
+export const MAX_REVIEW_PANEL_HEIGHT = 600;
+
+// Agreement panel (components/AgreementPanel.tsx) defaults.
+export const DEFAULT_AGREEMENT_PANEL_HEIGHT = 220; // px
+export const MIN_AGREEMENT_PANEL_HEIGHT = 120;
+export const MAX_AGREEMENT_PANEL_HEIGHT = 600;
+// Commits offered as comparison sources, newest first.
+export const AGREEMENT_COMMIT_LIMIT = 50;
+
 // buzzdetect activations panel defaults.
 export const DEFAULT_BUZZDETECT_PANEL_HEIGHT = 180; // px
 export const MIN_BUZZDETECT_PANEL_HEIGHT = 80;
@@ -127,10 +178,23 @@ export const MAX_BUZZDETECT_PANEL_HEIGHT = 600;
 // Logits: 0 is the natural decision boundary (sigmoid 0.5). Used per neuron
 // until the user sets a custom threshold.
 export const DEFAULT_BUZZDETECT_THRESHOLD = 0;
+// Other detectors' confidences (utils/detectorOutput.ts) are 0-1 scores, so
+// their neutral starting point is the middle of the scale.
+export const DEFAULT_SCORE_THRESHOLD = 0.5;
 // Detection-rate subsetting: keep a bin when at least half its frames fired.
 // A middling default — high enough that one stray frame doesn't keep a bin,
 // low enough that a real burst isn't thrown away for not being unanimous.
 export const DEFAULT_BUZZDETECT_MIN_DETECTION_RATE = 0.5;
+// Detection → annotation conversion (utils/buzzdetectAnnotations.ts): by
+// default one stray undetected frame splits an event in two, and every event
+// is kept however short. The user tunes both per conversion.
+export const DEFAULT_DETECTION_MIN_DURATION = 0; // s
+export const DEFAULT_DETECTION_MAX_GAP = 0; // s
+// Intervals the threshold evaluation splits a neuron's activation range into.
+export const BUZZDETECT_EVALUATION_STEPS = 50;
+// Seconds kept either side of each annotation in a label subset, so a segment
+// starts with a little lead-in rather than on the event's first sample.
+export const DEFAULT_LABEL_SUBSET_PADDING = 0.5; // s
 // Categorical palette for neuron polylines, assigned by neuron order. Chosen to
 // read clearly on the slate-900 panel background and stay distinct from the
 // magma spectrogram colormap.
@@ -230,7 +294,7 @@ export interface TierConfig {
 /**
  * Build the tier ladder for one file, coarsest first.
  *
- * Tiers step by TIER_HOP_RATIO from FINEST_HOP_SAMPLES upward, stopping once
+ * Tiers step by TIER_HOP_RATIO from `finestHop` upward, stopping once
  * one tier can represent the whole file within OVERVIEW_TARGET_COLS columns.
  * Short files therefore get a short ladder (a 4s clip gets a single tier) and
  * only long files pay for coarse tiers they can actually use.
@@ -238,18 +302,22 @@ export interface TierConfig {
  * Tier numbers are indices into the returned array, so lower is coarser — the
  * ordering `getChunkWithFallback` relies on when it walks toward coarser tiers
  * for a placeholder.
+ *
+ * `fftSize` is the transform length (window × zero-padding), which sets the
+ * bytes per chunk; `finestHop` comes from the overlap setting when one is chosen.
  */
 export function buildTierLadder(
   sampleRate: number,
   durationSec: number,
   fftSize: number,
+  finestHop: number = FINEST_HOP_SAMPLES,
 ): TierConfig[] {
   const bins = Math.max(1, Math.floor(fftSize / 2));
   const bytesPerChunk = COLS_PER_CHUNK * bins * 2;
   const maxChunks = Math.max(4, Math.min(24, Math.round(TIER_CACHE_BYTES / bytesPerChunk)));
 
   const hops: number[] = [];
-  let hop = FINEST_HOP_SAMPLES;
+  let hop = Math.max(1, finestHop);
   for (let i = 0; i < MAX_TIERS; i++) {
     hops.push(hop);
     // A non-positive duration or sample rate means we don't know the file yet;
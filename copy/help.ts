@@ -63,7 +63,9 @@ export const help = {
     get creating() { return getOverride('help.pages.creating') ?? "Creating annotations"; },
     get editing() { return getOverride('help.pages.editing') ?? "Editing annotations"; },
     get tools() { return getOverride('help.pages.tools') ?? "Annotation tools"; },
-    get bulk() { return getOverride('help.pages.bulk') ?? "Renaming & finding labels"; },
+    get bulk() { return getOverride('help.pages.bulk') ?? "Renaming, finding & exporting labels"; },
+    get review() { return getOverride('help.pages.review') ?? "Reviewing annotations"; },
+    get agreement() { return getOverride('help.pages.agreement') ?? "Comparing annotators"; },
     get sync() { return getOverride('help.pages.sync') ?? "Sync (GitHub)"; },
     get shortcuts() { return getOverride('help.pages.shortcuts') ?? "Keyboard shortcuts"; },
   },
@@ -127,14 +129,17 @@ export const help = {
   filePanel: {
     get p1() { return getOverride('help.filePanel.p1') ?? "Lists every track in the project directory. Tracks with existing annotations are highlighted in the list. Click any track to open it, or use `{mod}+↑` / `{mod}+↓` to step through tracks in order."; },
     get h_header() { return getOverride('help.filePanel.h_header') ?? "Header buttons"; },
-    get li_filter() { return getOverride('help.filePanel.li_filter') ?? "**Filter:** cycles the list between all tracks, only annotated ones, and only unannotated ones — the quickest way to find what's left to do."; },
+    get li_filter() { return getOverride('help.filePanel.li_filter') ?? "**Filter:** cycles the list between all tracks, only unannotated ones, only annotated ones, and only those not yet marked **Done** — the quickest way to find what's left to do."; },
     get li_shuffle() { return getOverride('help.filePanel.li_shuffle') ?? "**Shuffle:** replaces the folder tree with a randomly-ordered flat queue of every track. `{mod}+↑` / `{mod}+↓` then walk the shuffled order, which is what you want for unbiased sampling. Press it again to return to the sorted tree."; },
     get li_expand() { return getOverride('help.filePanel.li_expand') ?? "**Expand all / collapse all:** open or close every folder at once."; },
     get li_refresh() { return getOverride('help.filePanel.li_refresh') ?? "**Refresh:** re-scans the media directory, for when files have been added or removed underneath you. A sync that pulls changes refreshes the list on its own."; },
     get h_folders() { return getOverride('help.filePanel.h_folders') ?? "Folders"; },
     get p_folders() { return getOverride('help.filePanel.p_folders') ?? "Hover a folder and click the arrow to drill into it as the panel root; once inside, the header shows **step up one folder** and **back to root** buttons."; },
     get h_context() { return getOverride('help.filePanel.h_context') ?? "Right-click menu"; },
-    get p_context() { return getOverride('help.filePanel.p_context') ?? "Right-click a track or folder to reveal its media location or annotation file in the system file manager. **Copy ident** copies its ident to the clipboard (a folder's ident is its path relative to the audio root). **Import annotations…** loads annotations from an external file; they are filed under that track's ident. If the track already has annotations, you can **Overwrite** them or **Merge** (append the imported ones)."; },
+    get p_context() { return getOverride('help.filePanel.p_context') ?? "Right-click a track or folder to reveal its media location or annotation file in the system file manager. **Copy ident** copies its ident to the clipboard (a folder's ident is its path relative to the audio root). **Import annotations…** loads annotations from an external file; they are filed under that track's ident. If the track already has annotations, you can **Overwrite** them or **Merge** (append the imported ones). An annotated track also offers **Export as Audacity labels…** and **Export as Raven selection table…**, which save a copy of its annotations wherever you choose."; },
+    get h_status() { return getOverride('help.filePanel.h_status') ?? "Track status"; },
+    get p_status() { return getOverride('help.filePanel.p_status') ?? "Highlighting only tells you whether a track has annotations, so a track finished with nothing to annotate looks just like one nobody has opened. Right-click a track to set its **Status**: Not started, In progress, Done or Needs review. `{mod}+D` steps the open track to the next status. A track with no status set counts as in progress once it has annotations and not started before. Below the statuses, **Assigned to** records who should work on the track: type a name and press Enter, or clear the box to unassign. Set statuses and assignees show as badges beside the track name. While the filter shows only tracks not yet done, `{mod}+↑` / `{mod}+↓` skip the finished ones."; },
+    get note_status_sync() { return getOverride('help.filePanel.note_status_sync') ?? "Statuses are saved in `.track-status.txt` at the annotation root, and [sync](@sync) shares them. If two people change the same track, the later change wins."; },
     get h_collapse() { return getOverride('help.filePanel.h_collapse') ?? "Collapsing the panel"; },
     get p_collapse() { return getOverride('help.filePanel.p_collapse') ?? "Collapse the panel with the sidebar toggle to free up space — the annotation tools reappear as a strip of colored number swatches; hover one for its name, click to activate it."; },
   },
@@ -144,8 +149,11 @@ export const help = {
     get li_off() { return getOverride('help.video.li_off') ?? "**Off:** no video — audio only. Lightest on the CPU."; },
     get li_fast() { return getOverride('help.video.li_fast') ?? "**Fast:** the browser `<video>` element shows the picture and plays its _own_ audio, free-running. Smooth and cheap, but not spectrogram-synced — no band-pass filter, no pitch-preserving slow-down, and the playhead is approximate. For machines that can't run Accurate."; },
     get li_mixed() { return getOverride('help.video.li_mixed') ?? "**Mixed:** `<video>` (as in Fast) until you make a selection, then frame-accurate decoding for that region. Good for older hardware."; },
-    get li_accurate() { return getOverride('help.video.li_accurate') ?? "**Accurate:** frame-accurate WebCodecs decoding throughout (MP4/MOV only). Best fidelity, heaviest on the CPU."; },
+    get li_accurate() { return getOverride('help.video.li_accurate') ?? "**Accurate:** frame-accurate WebCodecs decoding throughout (MP4, MOV, WebM and MKV). Best fidelity, heaviest on the CPU."; },
     get note_badge() { return getOverride('help.video.note_badge') ?? "When the picture isn't sample-accurate with the audio, an inaccuracy badge appears in the video pane's top-left corner. If scrubbing or playback stutters, drop one level."; },
+    get h_frames() { return getOverride('help.video.h_frames') ?? "Stepping through frames"; },
+    get p_frames() { return getOverride('help.video.p_frames') ?? "`,` and `.` step the playhead back and forward one video frame. In Accurate mode, and in Mixed mode once it has decoded, a step lands exactly on the previous or next frame's own start time, including on variable-frame-rate video. The [frame line](frame-readout@time-display) under the running time then shows the number of the frame on screen, counted from 0 as ffmpeg counts them, and its `HH:MM:SS:FF` timecode."; },
+    get p_snap() { return getOverride('help.video.p_snap') ?? "Click **Snap** beside the frame number to snap annotation and selection edges to frame boundaries. While it's on, every edge you draw, resize or drag on the spectrogram lands on the nearest frame start, or on the end of the last frame. Annotations you drew before turning it on are left where they are. The setting is saved per project."; },
     get h_pane() { return getOverride('help.video.h_pane') ?? "Collapsing the pane"; },
     get p_pane1() { return getOverride('help.video.p_pane1') ?? "Drag the divider below the video all the way up to collapse the pane to a bar; click the bar (or drag it back down) to restore it. Playback keeps running while collapsed."; },
     get p_pane2() { return getOverride('help.video.p_pane2') ?? "The pane only exists for video tracks — audio-only files skip it entirely (a video file keeps its pane even if its frames can't be decoded)."; },
@@ -165,6 +173,13 @@ export const help = {
     get h_image() { return getOverride('help.videoZoom.h_image') ?? "Brightness & contrast"; },
     get p_image() { return getOverride('help.videoZoom.p_image') ?? "Click either button to pop out a slider, with a reset button alongside it."; },
     get note_image() { return getOverride('help.videoZoom.note_image') ?? "Brightness/contrast are display-only — they don't affect exported annotations or the underlying video file."; },
+    get h_regions() { return getOverride('help.videoZoom.h_regions') ?? "Region boxes"; },
+    get p_regions() { return getOverride('help.videoZoom.p_regions') ?? "An annotation can also say *where* on the frame it is: a region box, for training vision models. Select the annotation, click the **Region box** button below the zoom controls (or press `Shift+B`) and drag a box over the video. The box is placed on the frame itself, so it stays put whatever the zoom. While the playhead is inside the annotation, its box is drawn over the video in the annotation's colour, heavier while it is selected."; },
+    get p_regionKeyframes() { return getOverride('help.videoZoom.p_regionKeyframes') ?? "A box follows a moving subject with two keyframes, at the annotation's start and end. The first box you draw is the start box. Drawn again with the playhead nearer the start, it replaces that box; nearer the end, it sets the end box, and in between the box moves smoothly from one to the other. The trash button removes the selected annotation's region. Drawing and removing are undoable."; },
+    get h_export() { return getOverride('help.videoZoom.h_export') ?? "Stills & clips"; },
+    get p_export() { return getOverride('help.videoZoom.p_export') ?? "The **camera** button at the bottom of the strip exports what you're looking at for a report. **Export frame as PNG** saves the frame at the playhead as it appears in the panel — cropped to the zoomed view, with the brightness and contrast baked in — at the video's own resolution. It needs the frame-accurate picture: Accurate mode, or Mixed inside a selection. **Export selection as clip** saves the selected stretch, video and audio, as an MP4 or MKV cut to the selected frames."; },
+    get note_export() { return getOverride('help.videoZoom.note_export') ?? "Clips are cut by ffmpeg — the one set under **ffmpeg location** in Application Settings, or found automatically — so ffmpeg must be installed. Audio filters and playback rate aren't applied to a clip."; },
+    get note_regions() { return getOverride('help.videoZoom.note_regions') ?? "Region boxes need a frame-accurate picture — Accurate mode, or Mixed inside a selection. They are saved with the annotation's [attributes](@files#format) and exported in the annotation table's `roi_` columns, in fractions of the frame from its top-left corner."; },
   },
 
   spectrogram: {
@@ -201,7 +216,14 @@ export const help = {
     get h_fft() { return getOverride('help.spectrogramSettings.h_fft') ?? "FFT window & scale"; },
     get p_fft() { return getOverride('help.spectrogramSettings.p_fft') ?? "**Window size** (256 to 8192 samples) is the classic time-versus-frequency trade: a small window resolves clicks and onsets sharply but smears tones into broad bands; a large one resolves pitch finely but blurs anything brief. 1024–2048 suits most work; drop it for percussive detail, raise it for tonal detail."; },
     get p_scale() { return getOverride('help.spectrogramSettings.p_scale') ?? "**Scale** sets how frequency is spaced up the axis. **Linear** gives every hertz equal height. **Log** and **Mel** both expand the low end and compress the high end, which matches how hearing works and how most vocalizations are structured — worth trying whenever the interesting content is bunched against the bottom of a linear plot."; },
-    get note_cost() { return getOverride('help.spectrogramSettings.note_cost') ?? "Changing FFT size or scale re-computes the image, so there's a brief redraw on large files. Floor, Ceil, and the frequency range are re-colorings of what's already computed and apply instantly."; },
+    get h_colors() { return getOverride('help.spectrogramSettings.h_colors') ?? "Colormap"; },
+    get p_colors() { return getOverride('help.spectrogramSettings.p_colors') ?? "**Colormap** picks the palette quiet-to-loud is painted in. **Roseus** (the default) and **Viridis** are perceptually uniform, so equal steps in level look like equal steps in color. **Grayscale** runs black to white, and **Inverted grayscale** runs white to black — loud events come out dark on a white page, which prints well. **Custom gradient** runs between two colors you choose: drag the left (quiet) and right (loud) handles along the bar, or right-click a handle for any color. Switching colormaps only repaints; nothing is recomputed, and the choice is saved with the other display settings."; },
+    get h_channels() { return getOverride('help.spectrogramSettings.h_channels') ?? "Channels"; },
+    get p_channels() { return getOverride('help.spectrogramSettings.p_channels') ?? "For a stereo or multi-channel recording a **Channels** picker appears. **Mixdown** (the default) averages every channel into one spectrogram. Picking a single channel shows only that microphone, and **Stacked** splits the panel into one lane per channel, top to bottom, each with its own frequency axis. An annotation drawn in a lane is tagged with that lane's channel and drawn only there; untagged annotations span every lane. The tag can be changed from the annotation's [attributes](spectrogram-canvas@editing), is saved with the other attributes, and becomes the **Channel** column of a Raven export. The band-pass filter still applies to the whole recording, so its band is shown in every lane."; },
+    get h_powerSpectrum() { return getOverride('help.spectrogramSettings.h_powerSpectrum') ?? "Power spectrum"; },
+    get p_powerSpectrum() { return getOverride('help.spectrogramSettings.p_powerSpectrum') ?? "The chart icon at the right of the toolbar docks a **power spectrum** under the spectrogram: the average level of the current selection at each frequency, in dB, using the same FFT size, window function and zero-padding as the spectrogram. Its frequency axis follows the spectrogram's range and scale, and its dB axis the display floor and ceiling. Above the plot it reads out the **peak** frequency, the **−10 dB band** around the peak (shaded), and the **centroid**, the power-weighted mean frequency (dashed line). Tick **Filter band only** to take the readouts from the band-pass filter's band rather than the whole displayed range. A multi-channel recording is averaged over its channels unless a single channel is being viewed. Only the first minute of a longer selection is analysed, and a selection across a subset cut can't be."; },
+    get p_analysis() { return getOverride('help.spectrogramSettings.p_analysis') ?? "For matching another program's settings (Raven, Audacity), three more controls shape the analysis. **Window function** tapers each window before the FFT: **Hann** (the default) is the usual all-rounder, **Hamming** gives slightly narrower peaks with higher sidelobes, **Blackman-Harris** suppresses leakage so faint tones near loud ones stay visible at the cost of wider peaks, and **Gaussian** sits in between. **Overlap** sets how far consecutive windows overlap at the finest zoom — higher overlap means a smaller hop and a smoother image; **Auto** keeps the fixed 512-sample hop. Zoomed out, columns are spaced further apart regardless. **Zero-padding** runs each FFT over 2×, 4× or 8× the window length, drawing the spectrum on a finer grid of bins; it smooths the image but adds no real frequency resolution."; },
+    get note_cost() { return getOverride('help.spectrogramSettings.note_cost') ?? "Changing FFT size, window function, overlap, zero-padding or scale re-computes the image, so there's a brief redraw on large files. Floor, Ceil, the frequency range and the colormap are re-colorings of what's already computed and apply instantly."; },
   },
 
   debug: {
@@ -212,12 +234,20 @@ export const help = {
 
   buzzdetect: {
     get p1() { return getOverride('help.buzzdetect.p1') ?? "Set a **buzzdetect directory** under **Advanced** when creating or editing a project to plot per-frame neuron activations below the spectrogram, located per track by ident (`{ident}_buzzdetect.csv`). Toggle the panel with the [activity icon](buzzdetect-toggle) in the toolbar."; },
+    get h_models() { return getOverride('help.buzzdetect.h_models') ?? "Other detectors"; },
+    get p_models() { return getOverride('help.buzzdetect.p_models') ?? "The panel isn't limited to buzzdetect. Pick the directory's **Format** under **Advanced → buzzdetect** in project settings. **BirdNET** reads `{ident}.BirdNET.selection.table.txt` (a selection table) or `{ident}.BirdNET.results.csv`, with one line per species by Common Name. **start,end,class,score** reads `{ident}_detections.csv`, with one line per class, for any other model: one row per detection, with columns named `start`, `end`, `class` and `score` in any order, comma- or tab-separated. These files list detections rather than frames, so they're laid onto frames first. The frame length is the finest spacing between window starts unless a **frame length** is set. Each frame takes the highest score among the detections covering its middle, and frames with no detection score 0. Scores are confidences from 0 to 1, so thresholds start at 0.5 rather than buzzdetect's 0. Subset mode, thresholds, conversion and evaluation all work the same for every format."; },
     get h_reading() { return getOverride('help.buzzdetect.h_reading') ?? "Reading the plot"; },
     get p_reading() { return getOverride('help.buzzdetect.p_reading') ?? "Each neuron is one colored line; its dots are filled where the value meets that neuron's threshold and open below it. Open the panel's **sliders** popover to switch between the raw **activation** series and a **detection rate** series (the percentage of frames in each bin clearing the threshold), set per-neuron thresholds, show/hide neurons (the **All** / **None** links beside the Neuron header toggle every neuron at once), click a neuron's color swatch to remap its color, edit the bin width used to group frames into each plotted point (auto-calculated to keep the line readable at any zoom; type over it to pin a value — never below the file's frame length — or click the reset arrow to recalculate), and edit the Y-axis range (same auto/override/reset pattern). The series choice and a pinned bin width are saved with the project and stay put as you switch tracks; the Y range starts fresh on each track, and switching series resets both."; },
     get h_frames() { return getOverride('help.buzzdetect.h_frames') ?? "Frame length"; },
     get p_frames() { return getOverride('help.buzzdetect.p_frames') ?? "Set a **frame length** under **Advanced → buzzdetect** in project settings and it is used for every file. Leave it blank to auto-detect bin width per file from the CSV's start times instead — useful unless a CSV has too few rows to auto-detect from. Frames keep their start times from the CSV, so an override shorter than the native frame length leaves gaps between frames — the plot shows each frame's true extent, and clicking in a gap selects nothing."; },
     get h_interact() { return getOverride('help.buzzdetect.h_interact') ?? "Clicking & dragging"; },
     get p_interact() { return getOverride('help.buzzdetect.p_interact') ?? "Hovering highlights the unit under the cursor — a single frame while frames are individually visible, otherwise the whole bin — and clicking and dragging work on that same unit. **Click** one to move the playhead to its start and select it (highlighting that audio on the spectrogram); **drag** across the panel to extend the selection, which always snaps to whole units. **Shift+click** extends the current selection to also cover the clicked unit. One exception: where units are drawn only a pixel or two wide — zoomed far out, whether that's tiny frames or bins — a click only moves the playhead, since the unit under the cursor is too small to have been aimed at. Selecting there takes a drag (move a short distance, or hold the button down for a moment and then move). Drag the panel's top edge to resize it. The readout in the top-left corner is headed **Time** for the span shown and either **Activations** for a single frame or **Mean Activations** where it is summarizing a bin, with the per-neuron values under each."; },
+    get h_convert() { return getOverride('help.buzzdetect.h_convert') ?? "Turning detections into annotations"; },
+    get p_convert() { return getOverride('help.buzzdetect.p_convert') ?? "**Convert detections to annotations…** in the sliders popover writes detections down as labels. Tick the neurons to convert and choose the [tool](@tools) each one's detections are labelled with, or keep the neuron's own name as a Custom label. A frame counts as detected when the neuron's activation reaches its threshold in the panel. Each run of detected frames becomes one annotation. **Bridge gaps up to** joins runs separated by that many seconds or less, and **Shortest event** drops anything briefer. The preview counts the events on the open track. Converting the open track is one step you can undo with `{mod}+Z`. **Every track with a buzzdetect file** converts the whole project; other tracks' annotation files are written directly and can't be undone. Existing annotations are kept, and an event already annotated with the same label and times isn't added again."; },
+    get h_sources() { return getOverride('help.buzzdetect.h_sources') ?? "Several detectors at once"; },
+    get p_sources() { return getOverride('help.buzzdetect.p_sources') ?? "To compare models on the same track, add more directories under **Advanced → buzzdetect → More Sources** in project settings. Each source has its own directory and **Format**, and an optional lane name; without one, the lane is named after its folder. Each source gets its own lane below the first, labelled at its top right, with its own thresholds and hidden neurons. Colours, the series mode, the bin width and the panel height are shared. Subset mode, conversion and evaluation use the first lane only."; },
+    get h_evaluate() { return getOverride('help.buzzdetect.h_evaluate') ?? "Tuning thresholds against your annotations"; },
+    get p_evaluate() { return getOverride('help.buzzdetect.p_evaluate') ?? "**Evaluate thresholds…** in the sliders popover scores a neuron against a label across every track that has both a buzzdetect file and an annotation file. Scoring is frame by frame: a frame is detected when the activation reaches the threshold, and labelled when that label's annotations cover at least half of it. Counts are pooled over all the tracks. The chart plots precision (the share of detected frames that are labelled), recall (the share of labelled frames that are detected) and F1 across the neuron's range of activations. The dashed line marks the panel's current threshold. **Use … as threshold** writes the threshold with the best F1 into the panel. Tracks with an annotation file but none of the label count as all negatives, so include tracks you checked and found empty."; },
     get h_zoom() { return getOverride('help.buzzdetect.h_zoom') ?? "Frames vs. bins"; },
     get note_subset() { return getOverride('help.buzzdetect.note_subset') ?? "The panel can also drive the time axis itself: tick a neuron and the track collapses to only the stretches where it fired. See [Subset to detections](@subset)."; },
     get p_zoom() { return getOverride('help.buzzdetect.p_zoom') ?? "Zoom out far enough and individual frames stop being distinguishable: the dots drop away, several frames are grouped into each plotted point, and hovering, clicking and dragging switch from single frames to whole bins — the highlight, readout and selection all cover the bin the frames were grouped into. While frames _are_ individually visible, a detection rate is a per-frame yes/no rather than a percentage — the Y axis is pinned to a single **Detection** label at the top (your Y-range override doesn't apply), and the readout reads **Detection** / **No Detection** per neuron."; },
@@ -231,6 +261,8 @@ export const help = {
     get p_bins() { return getOverride('help.subset.p_bins') ?? "A subset keeps whole **bins**, never single frames: a bin is kept at its own nominal edges or not at all. In **activation** mode a bin is kept when any picked neuron's **mean** activation across it clears that neuron's threshold; in **detection rate** mode, set a **Min detection rate** and a bin is kept when at least that fraction of its frames individually clear the threshold. Either way the bin is the **pinned** bin width — the auto width follows the zoom, and subsetting by it would silently redefine the subset every time you moved the view — so pin a width first. With none pinned, the file's own frame length is used, where a bin is just one frame."; },
     get note_try() { return getOverride('help.subset.note_try') ?? "The example panel below subsets for real. Tick a **Sub** box in its sliders popover and watch the axis collapse to that neuron's detections; raise the neuron's threshold to keep less."; },
 
+    get h_labels() { return getOverride('help.subset.h_labels') ?? "Subsetting to labels"; },
+    get p_labels() { return getOverride('help.subset.p_labels') ?? "A subset can also keep what you've already annotated. The [list-filter button](tool-palette@tools) in the tool palette's header opens **Subset to Labels**. Type a label, matched the same way [Find Label](@bulk#find) matches it (exactly, **Partial** or **Regex**), and set how much **padding** to keep either side of each annotation. Matching annotations then play back to back, e.g. every \"waggle\" on the track in one run. Padded annotations that overlap merge into one segment. The subset follows your edits, so an annotation you delete or relabel drops out. It replaces the neuron subset while it's on: the scissors button or `Shift+S` turns it off, and ticking a neuron's **Sub** box switches back to detections. The label and padding are remembered for next time."; },
     get h_reading() { return getOverride('help.subset.h_reading') ?? "Reading a subset track"; },
     get p_segments() { return getOverride('help.subset.p_segments') ?? "Contiguous detections merge into one **segment**, so a run of frames reads — and selects — as a single stretch of audio. The seam where one segment is spliced to the next is drawn as a dashed gold line, on the spectrogram and the buzzdetect panel alike, so a cut never passes for continuous audio. The panel also stops connecting its points across a seam: neighbouring segments can be far apart in the file, and a line between them would draw a trend across time that has been removed."; },
     get p_ruler() { return getOverride('help.subset.p_ruler') ?? "The ruler puts one tick at each segment's start, labelled with the time that segment begins at **in the file**. The label is left-aligned to its tick rather than centered on it, so it clearly describes the segment starting there rather than spanning both sides of the cut, and no tick ever lands mid-segment."; },
@@ -255,7 +287,7 @@ export const help = {
   },
 
   timeDisplay: {
-    get p1() { return getOverride('help.timeDisplay.p1') ?? "The [running time](current-time) shows the playhead position. Click it to type a timestamp and jump directly to that position — enter it as plain seconds (`83.45`), `mm:ss`/`hh:mm:ss`, or hours/minutes/seconds shorthand (`1h10m`, `0h3m01s`). The [Seconds / HMS / Date toggle](time-unit-toggle) beneath it switches how the readout itself is displayed."; },
+    get p1() { return getOverride('help.timeDisplay.p1') ?? "The [running time](current-time) shows the playhead position. Click it to type a timestamp and jump directly to that position — enter it as plain seconds (`83.45`), `mm:ss`/`hh:mm:ss`, or hours/minutes/seconds shorthand (`1h10m`, `0h3m01s`). The [Seconds / HMS / Date toggle](time-unit-toggle) beneath it switches how the readout itself is displayed. On a video track played frame-accurately, a third line shows the [frame](@video#frames) under the playhead."; },
     get h_selection() { return getOverride('help.timeDisplay.h_selection') ?? "Selection fields"; },
     get p_selection() { return getOverride('help.timeDisplay.p_selection') ?? "The [selection fields](selection-time) show the active selection's start (`from`), end (`to`), and duration (`dur`). Click any field to edit it and nudge the selection boundaries precisely; all the same formats as the running time are accepted, and `dur` also allows a leading `-`. The bounds follow whichever unit is active, but `dur` is an interval rather than a moment, so it stays an elapsed reading in Date mode."; },
     get h_datetime() { return getOverride('help.timeDisplay.h_datetime') ?? "Wall-clock times"; },
@@ -291,20 +323,23 @@ export const help = {
     get li2() { return getOverride('help.creating.li2') ?? "**From selection:** make a selection region, then press a tool key (`0`–`9`)."; },
     get li3() { return getOverride('help.creating.li3') ?? "**Whole track:** with a tool active, press `{mod}+A` to annotate the entire track (with no tool active it selects the whole track instead)."; },
     get li4() { return getOverride('help.creating.li4') ?? "**While listening:** hold `Alt`/`Option` and drag to annotate without moving the playhead or changing the selection — playback keeps rolling and playhead lock is suspended, so you can mark sounds as you hear them."; },
+    get li5() { return getOverride('help.creating.li5') ?? "**Frequency box:** hold `{mod}` and drag to draw a box instead of a full-height band — the drag's height becomes the annotation's frequency range, so a call at 2–4 kHz can be told apart from one at 8 kHz in the same stretch of time. Combines with `Alt`. Boxes are saved with Audacity's frequency-row extension, so Audacity opens them as spectral selections."; },
   },
 
   editing: {
-    get li1() { return getOverride('help.editing.li1') ?? "**Resize:** drag the left or right edge handle."; },
+    get li1() { return getOverride('help.editing.li1') ?? "**Resize:** drag the left or right edge handle. A frequency box also has top and bottom edges — drag them to change its frequency range."; },
     get li2() { return getOverride('help.editing.li2') ?? "**Bound selection:** click the center of an annotation to bind the playhead loop to it. Use `Alt+←` / `Alt+→` to jump between annotations."; },
     get li3() { return getOverride('help.editing.li3') ?? "**Rename:** hover an annotation and click the pencil icon to edit inline. Custom tool annotations open for editing automatically."; },
     get li4() { return getOverride('help.editing.li4') ?? "**Delete:** select an annotation and press `Delete` / `Backspace`, or middle-click it directly."; },
     get li5() { return getOverride('help.editing.li5') ?? "**Undo/Redo:** `{mod}+Z` / `{mod}+Shift+Z`."; },
+    get li6() { return getOverride('help.editing.li6') ?? "**Attributes:** hover an annotation and click the note icon beside the delete button to record a free-text **note**, a **confidence** from 0 to 1, an **uncertain** flag, and an **observer**. The icon stays amber while the annotation has a note, the note shows in its hover tooltip, and an uncertain annotation is drawn with a dashed border. Attributes are included in the project-wide CSV export."; },
+    get li7() { return getOverride('help.editing.li7') ?? "**Annotation table:** the table icon at the right of the toolbar docks a list of every annotation on the track under the spectrogram. Click a column header to sort by start, end, duration or label; click a row to jump to it; `{mod}`-click or `Shift`-click to select several and press `Delete` (or the **Delete** button) to remove them all at once; double-click a label to rename it. Drag the panel's top edge to resize it. Every edit is undoable like one made on the spectrogram."; },
   },
 
   tools: {
-    get p1() { return getOverride('help.tools.p1') ?? "Annotation tools are named labels bound to hotkeys `0`–`9`. Key `0` is always the **Custom Tool** — annotations created with it open immediately for you to type a one-off name."; },
+    get p1() { return getOverride('help.tools.p1') ?? "Annotation tools are named labels bound to hotkeys. Key `0` is always the **Custom Tool** — annotations created with it open immediately for you to type a one-off name. The other tools sit in three banks of nine: `1`–`9`, `Shift`+`1`–`9` and `{mod}`+`1`–`9`, so up to 27 labels each have their own key; the palette shows each tool's key next to its name."; },
     get h_manage() { return getOverride('help.tools.h_manage') ?? "Managing tools"; },
-    get p_manage() { return getOverride('help.tools.p_manage') ?? "Open [Annotation Tool Settings](tool-palette) (gear icon) to manage tools: drag tools between hotkey slots and the Unassigned bin, click a tool's gear to edit its label and color, or hover a tool and click the trash icon to delete it (deletes are undoable). Hover an empty hotkey slot (or use the Unassigned bin) and click **New tool** to open the editor and create a tool on that key. Annotations are linked to a tool by their label, so creating or renaming a tool to match a label instantly adopts every annotation carrying it — across all tracks. Tool configuration is saved per project: each tool is a folder under the project's **.seenote/annotation-tools/** directory, which can also hold example audio clips for that label."; },
+    get p_manage() { return getOverride('help.tools.p_manage') ?? "Open [Annotation Tool Settings](tool-palette) (gear icon) to manage tools: drag tools between hotkey slots and the Unassigned bin, click a tool's gear to edit its label and color, or hover a tool and click the trash icon to delete it (deletes are undoable). Switch banks with the tabs above the slots (drag a tool onto a tab to move it into that bank). Hover an empty hotkey slot (or use the Unassigned bin) and click **New tool** to open the editor and create a tool on that key. Annotations are linked to a tool by their label, so creating or renaming a tool to match a label instantly adopts every annotation carrying it — across all tracks. Tool configuration is saved per project: each tool is a folder under the project's **.seenote/annotation-tools/** directory, which can also hold example audio clips for that label."; },
     get note_undo() { return getOverride('help.tools.note_undo') ?? "Inside Annotation Tool Settings, `{mod}+Z` / `{mod}+Shift+Z` undo and redo the last tool change."; },
     get h_examples() { return getOverride('help.tools.h_examples') ?? "Example clips"; },
     get p_examples1() { return getOverride('help.tools.p_examples1') ?? "To bulk-import examples: the **Import examples** button in Annotation Tool Settings takes a directory of one folder per label holding audio clips, copying the clips in and creating tools for new labels."; },
@@ -316,6 +351,28 @@ export const help = {
     get p_rename() { return getOverride('help.bulk.p_rename') ?? "The **Mass Rename** icon next to the [gear](tool-palette) renames annotations by their text directly, across every file in the project, without needing a matching tool. Type the existing label to see a live per-file breakdown of how many annotations match, type the replacement, and confirm."; },
     get h_find() { return getOverride('help.bulk.h_find') ?? "Find Label"; },
     get p_find() { return getOverride('help.bulk.p_find') ?? "The **Find Label** ([magnifying glass](tool-palette)) icon searches every file in the project for a label. Results stream in alphabetically by file as the search runs; expand a file to see each match's start/end time, select one, and click **Go** to open that file, scroll the spectrogram to it, and select the annotation. Check **Partial** to match the search text anywhere in a label (e.g. `mech_` matches `quiet_mech_auto`), or **Regex** to search with a regular expression (already unanchored, so `buzz\\d` matches `foo_buzz3_bar`); with either on, results show each match's own label since it may differ from what you typed. Both toggles are remembered per project."; },
+    get h_stats() { return getOverride('help.bulk.h_stats') ?? "Project statistics"; },
+    get p_stats() { return getOverride('help.bulk.p_stats') ?? "The **Project Statistics** ([bar chart](tool-palette)) icon shows how far along the project's labelling is: how many tracks are annotated (the same tracks the file panel highlights), the total number and length of annotations, and tabs for per-label counts and durations, per-folder progress, and — when a filename time format is set — per-recording-day progress. **Export CSV…** writes all of these numbers to one table with a `section` column (`project`, `label`, `folder`, `day`)."; },
+    get h_export() { return getOverride('help.bulk.h_export') ?? "Export all annotations"; },
+    get p_export() { return getOverride('help.bulk.p_export') ?? "The **Export All Annotations** ([download](tool-palette)) icon writes every annotation in the project to one CSV table — one row per annotation with its ident, media path, start/end, label, tool color and (for frequency boxes) its band. When the project's filename time format matches a recording's name, each row also gets its wall-clock start and end. Narrow the export to one folder's subtree, or to labels matching a filter (with the same **Partial** and **Regex** options as Find Label); the row count updates as you go. Right-clicking a folder in the [file panel](file-panel@file-panel) and choosing **Export annotation table…** opens the same export scoped to that folder."; },
+  },
+
+  review: {
+    get p1() { return getOverride('help.review.p1') ?? "The [checklist icon](review-toggle) at the right of the toolbar docks the **review** panel under the spectrogram, for checking a project's annotations one by one. Its queue runs through every annotation in the project, file by file in ident order and in time order within a file. Each step opens the annotation's file if needed, selects the annotation and plays it once. **Previous**, **Next** and **Replay** move through the queue (`[`, `]` and `P`), and the label menu narrows it to one label. **Only ones I haven't reviewed** skips annotations you've already judged, so you can pick up where you left off."; },
+    get h_verdicts() { return getOverride('help.review.h_verdicts') ?? "Verdicts"; },
+    get p_verdicts() { return getOverride('help.review.p_verdicts') ?? "**Accept** (`Y`) says the label is right and **Reject** (`N`) says the annotation shouldn't be there. **Relabel as…** records the label it should have had instead. The annotation itself isn't changed. Each verdict moves on to the next annotation, and **Clear my verdict** takes yours back. Verdicts are recorded under the name in the **Reviewer** box, which defaults to your sync author name and is remembered per project. The other reviewers' verdicts on the current annotation are listed under it."; },
+    get h_summary() { return getOverride('help.review.h_summary') ?? "Summary"; },
+    get p_summary() { return getOverride('help.review.p_summary') ?? "The **Summary** tab totals the verdicts per label. It shows how many of the label's annotations have been reviewed and the verdicts of each kind. **Accept rate** is the accepted share of all verdicts. **Reviewer agreement** only counts annotations judged by two or more people, and shows the share on which they all gave the same verdict."; },
+    get note_sync() { return getOverride('help.review.note_sync') ?? "Verdicts are saved beside each file's annotations, in `<ident>.review.txt`, and [sync](@sync) shares them like the annotations themselves. Several people can review the same project, and each reviewer's verdicts are kept. After a sync, the refresh button re-reads them."; },
+  },
+
+  agreement: {
+    get p1() { return getOverride('help.agreement.p1') ?? "When two people label the same recordings, the [compare icon](agreement-toggle) at the right of the toolbar docks the **agreement** panel under the spectrogram to measure how far their labels agree. Pick the two annotation sets to compare as **A** and **B**. Each is the project's own annotations, another annotation folder (**Choose folder…**), or, in a synced project, the project's annotations as of an earlier [sync](@sync) commit. Only files present in both sets are compared, so a second annotator who labelled a sample of the project is judged on that sample."; },
+    get h_matching() { return getOverride('help.agreement.h_matching') ?? "Matching events"; },
+    get p_matching() { return getOverride('help.agreement.p_matching') ?? "Two annotations are the same event when their time spans overlap enough (**Overlap (IoU)**: the overlap divided by the combined span) or when they start close enough together (**Onset within**). Frequency bands aren't compared. Each annotation is matched at most once, to one with the same label where there is one."; },
+    get h_scores() { return getOverride('help.agreement.h_scores') ?? "Scores"; },
+    get p_scores() { return getOverride('help.agreement.p_scores') ?? "Set A is treated as the reference. For each label, **Recall** is the share of A's annotations that B matched with the same label, and **Precision** the share of B's that match one of A's. **F1** combines the two. **All labels** pools every label. **Cohen's κ** measures agreement on every event either set has, counting an event the other set missed as a disagreement, and corrects for the agreement expected by chance: 1 is perfect agreement and 0 is no better than chance."; },
+    get note_lanes() { return getOverride('help.agreement.note_lanes') ?? "With **Show on spectrogram** ticked, both sets' annotations for the open file are drawn as two strips along the bottom of the spectrogram, in the colours of A and B. Annotations the other set doesn't agree with are filled in solid. The strips can't be edited."; },
   },
 
   importing: {
@@ -324,6 +381,8 @@ export const help = {
     get p_conflict() { return getOverride('help.importing.p_conflict') ?? "You're asked which you want: **Overwrite** replaces the existing set with the imported one, **Merge** keeps both, appending the imported annotations to what's there. Merge is the safe default when you're combining passes from different people or different detectors."; },
     get h_format() { return getOverride('help.importing.h_format') ?? "What can be imported"; },
     get p_format() { return getOverride('help.importing.p_format') ?? "Tab-delimited label files in Audacity's format — one row per annotation, `start`, `end`, `label` — which is the same format SeeNote writes. Rows are matched against your annotation tools by label, so an imported label that matches a tool picks up that tool's color; anything unmatched comes in as a Custom annotation."; },
+    get h_raven() { return getOverride('help.importing.h_raven') ?? "Raven selection tables"; },
+    get p_raven() { return getOverride('help.importing.p_raven') ?? "Raven Pro selection tables (`.selections.txt`) are recognized by their header row. Each selection's Begin/End Time become the annotation's time span and its Low/High Freq make it a [frequency box](@creating). Before importing you pick which of the table's own columns — Species, Call Type, Notes, … — are joined to form each label, with a preview of the result. Exporting to Raven writes one Spectrogram-view row per annotation; an annotation without a frequency band spans the displayed frequency range."; },
     get note_bulk() { return getOverride('help.importing.note_bulk') ?? "Import is per-track. To bring a whole detector run into a project, import each track, or drop the label files into the annotation directory yourself — the layout is documented under [Annotation files & idents](@files)."; },
   },
 
@@ -354,6 +413,7 @@ export const help = {
     get p_delete() { return getOverride('help.files.p_delete') ?? "Removing a track's last annotation deletes its annotation file rather than leaving an empty one behind, so the presence of a file always means the track has been labelled."; },
     get h_format() { return getOverride('help.files.h_format') ?? "File format"; },
     get p_format() { return getOverride('help.files.p_format') ?? "Plain UTF-8 text, one annotation per line, three tab-separated fields: **start time**, **end time**, **label**. Times are in seconds, written to as many decimals as **Output Decimal Places** in project settings specifies. This is Audacity's label format — Audacity and most analysis toolchains read it directly, and it needs no conversion to feed a training pipeline."; },
+    get p_attrs() { return getOverride('help.files.p_attrs') ?? "Annotation attributes (notes, confidence, uncertain flag, observer, video region box) don't fit Audacity's format, so they live beside the track's file in `dawn.attrs.txt`: the annotation's own line with the attributes appended as a JSON column. Tools that only read labels can ignore it, and it is synced and merged like the annotation file itself."; },
     get h_seenote() { return getOverride('help.files.h_seenote') ?? "The .seenote folder"; },
     get p_seenote() { return getOverride('help.files.p_seenote') ?? "Each project folder holds a hidden **.seenote/** directory: `settings.json` (the project), `preferences.json` (your local preferences, including a plaintext sync token if you chose that), and **annotation-tools/**, one folder per tool holding its definition and any example clips. None of it is shared by a sync — every collaborator keeps their own tools and settings."; },
   },
@@ -370,6 +430,10 @@ export const help = {
     get p_autopull() { return getOverride('help.sync.p_autopull') ?? "Remote changes are **pulled in automatically** — on project open and every couple of minutes — so you're never editing behind teammates' latest annotations. This never pushes your own edits; that stays an explicit sync. Turn it off under **Project Settings → Preferences → Automatically pull remote changes** if you'd rather pull manually."; },
   },
 
+  shortcuts: {
+    get p_editing() { return getOverride('help.shortcuts.p_editing') ?? "Click a shortcut to **change** it and press the new keys (Esc cancels); **+** adds another, **×** removes one and **↺** puts an action back on its default. Taking a key another action already uses moves it over, so one key never does two things — shortcuts shown in red clash, usually after importing a keymap. The tool digits, **H** and **?** can't be changed. Your keymap is saved for this computer, across all projects; **Export…** and **Import…** carry it to another."; },
+  },
+
   troubleshooting: {
     get h_video() { return getOverride('help.troubleshooting.h_video') ?? "\"Can't display this video\""; },
     get p_video() { return getOverride('help.troubleshooting.p_video') ?? "In **Accurate** mode this means your system lacks a codec for that file. In **Fast** or **Mixed** mode on Linux it's usually a platform limitation rather than a missing codec — switch to Accurate and it will often play. Either way, the [debug console](toolbar@debug) records the specific decode error."; },
@@ -380,7 +444,7 @@ export const help = {
     get h_keychain() { return getOverride('help.troubleshooting.h_keychain') ?? "Repeated keychain password prompts"; },
     get p_keychain() { return getOverride('help.troubleshooting.p_keychain') ?? "Unsigned builds can prompt every time the sync token is read from the OS keychain. Switching **Token storage** to plaintext under [Project Settings → Sync](project-settings-btn@project-settings#settings-tab) stops the prompts, at the cost of the token sitting unencrypted in the project's `preferences.json`. It's still never pushed to the repository — but use a narrowly-scoped token if you take that trade."; },
     get h_buzz() { return getOverride('help.troubleshooting.h_buzz') ?? "The buzzdetect panel is empty"; },
-    get p_buzz() { return getOverride('help.troubleshooting.p_buzz') ?? "Activations are looked up by ident: a track with ident `site_a/dawn` needs `site_a/dawn_buzzdetect.csv` in the configured buzzdetect directory. A mismatched folder structure or a missing `_buzzdetect` suffix is the usual cause. If the panel plots but the bins look wrong, set an explicit **frame length** — auto-detection needs enough rows to infer one."; },
+    get p_buzz() { return getOverride('help.troubleshooting.p_buzz') ?? "Activations are looked up by ident: a track with ident `site_a/dawn` needs `site_a/dawn_buzzdetect.csv` in the configured buzzdetect directory. A mismatched folder structure or a missing `_buzzdetect` suffix is the usual cause. For another detector, check the project's **Format** matches its files (see [Other detectors](@buzzdetect#models)). If the panel plots but the bins look wrong, set an explicit **frame length** — auto-detection needs enough rows to infer one."; },
     get h_missing() { return getOverride('help.troubleshooting.h_missing') ?? "A project or its media has gone missing"; },
     get p_missing() { return getOverride('help.troubleshooting.p_missing') ?? "See [When files move](@repair) — both a moved project folder and a moved media directory are recoverable without touching anything by hand, and annotations survive either."; },
     get h_logs() { return getOverride('help.troubleshooting.h_logs') ?? "Reporting a problem"; },
@@ -12,6 +12,8 @@ export const tooltips = {
   get timeUnitHms() { return getOverride('tooltips.timeUnitHms') ?? "Show running time as hours/minutes/seconds"; },
   get timeUnitDatetime() { return getOverride('tooltips.timeUnitDatetime') ?? "Show times as wall-clock datetimes, from the timestamp in the filename"; },
   get timeUnitDatetimeUnavailable() { return getOverride('tooltips.timeUnitDatetimeUnavailable') ?? "This filename carries no timestamp SeeNote can read — set a Filename Timestamp format in project settings"; },
+  get frameReadout() { return getOverride('tooltips.frameReadout') ?? "Video frame at the playhead, counted from 0, and its timecode. Step frames with , and ."; },
+  get snapToFrames() { return getOverride('tooltips.snapToFrames') ?? "Snap annotation and selection edges drawn on the spectrogram to video frame boundaries"; },
   editSelection: (label: string) => `Edit selection ${label}`,
   setSelection: (label: string) => `Set selection ${label}`,
   get filterDisabledByMode() { return getOverride('tooltips.filterDisabledByMode') ?? "Audio filters not available in Fast mode"; },
@@ -21,6 +23,11 @@ export const tooltips = {
   get setSpeed() { return getOverride('tooltips.setSpeed') ?? "Click to set playback speed"; },
   get filterStrength() { return getOverride('tooltips.filterStrength') ?? "Adjust filter strength (F to toggle)"; },
   get buzzdetectPanel() { return getOverride('tooltips.buzzdetectPanel') ?? "buzzdetect activations panel"; },
+  get annotationTablePanel() { return getOverride('tooltips.annotationTablePanel') ?? "Annotation table"; },
+  get reviewPanel() { return getOverride('tooltips.reviewPanel') ?? "Review annotations"; },
+  get agreementPanel() { return getOverride('tooltips.agreementPanel') ?? "Compare two annotation sets"; },
+  get powerSpectrumPanel() { return getOverride('tooltips.powerSpectrumPanel') ?? "Power spectrum of the selection"; },
+  get deleteSelectedAnnotations() { return getOverride('tooltips.deleteSelectedAnnotations') ?? "Delete the selected annotations (Delete)"; },
   get spectrogramSettings() { return getOverride('tooltips.spectrogramSettings') ?? "Spectrogram Settings"; },
   get restartAudio() { return getOverride('tooltips.restartAudio') ?? "Restart Audio"; },
   get setupSync() { return getOverride('tooltips.setupSync') ?? "Instructions for setting up GitHub-synced annotations"; },
@@ -35,6 +42,9 @@ export const tooltips = {
   get annotationToolSettings() { return getOverride('tooltips.annotationToolSettings') ?? "Annotation Tool Settings"; },
   get massRename() { return getOverride('tooltips.massRename') ?? "Mass Rename"; },
   get findLabel() { return getOverride('tooltips.findLabel') ?? "Find Label"; },
+  get labelSubset() { return getOverride('tooltips.labelSubset') ?? "Subset track to labels: play only the annotations matching a label"; },
+  get annotationStats() { return getOverride('tooltips.annotationStats') ?? "Project statistics: labelling progress and label counts"; },
+  get exportAnnotations() { return getOverride('tooltips.exportAnnotations') ?? "Export All Annotations"; },
   get stopExample() { return getOverride('tooltips.stopExample') ?? "Stop example"; },
   get playExample() { return getOverride('tooltips.playExample') ?? "Play example clip"; },
   get editTool() { return getOverride('tooltips.editTool') ?? "Edit tool"; },
@@ -46,12 +56,19 @@ export const tooltips = {
   get zoomIn() { return getOverride('tooltips.zoomIn') ?? "Zoom in"; },
   get zoomOut() { return getOverride('tooltips.zoomOut') ?? "Zoom out"; },
   get resetZoom() { return getOverride('tooltips.resetZoom') ?? "Reset zoom"; },
+  get regionTool() { return getOverride('tooltips.regionTool') ?? "Region box (Shift+B) — drag a box on the video to mark where the selected annotation is; drawn near its end, it sets the box it moves to"; },
+  get regionToolUnavailable() { return getOverride('tooltips.regionToolUnavailable') ?? "Select an annotation, with the video frame-accurate (Accurate mode, or Mixed inside a selection), to draw its region"; },
+  get clearRegion() { return getOverride('tooltips.clearRegion') ?? "Remove the selected annotation's region box"; },
+  get exportVideo() { return getOverride('tooltips.exportVideo') ?? "Export a still or a clip"; },
+  get exportFrameUnavailable() { return getOverride('tooltips.exportFrameUnavailable') ?? "Stills come from the frame-accurate picture — switch to Accurate mode, or select in Mixed mode"; },
+  get exportClipUnavailable() { return getOverride('tooltips.exportClipUnavailable') ?? "Select a stretch of the track to export it as a clip"; },
   get brightness() { return getOverride('tooltips.brightness') ?? "Brightness"; },
   get contrast() { return getOverride('tooltips.contrast') ?? "Contrast"; },
   get resetAdjust() { return getOverride('tooltips.resetAdjust') ?? "Reset to 100%"; },
   get setupSyncedProject() { return getOverride('tooltips.setupSyncedProject') ?? "Instructions for setting up GitHub-synced annotations"; },
   get previewVolume() { return getOverride('tooltips.previewVolume') ?? "Preview volume (loudness-normalized)"; },
   get editAnnotationName() { return getOverride('tooltips.editAnnotationName') ?? "Edit annotation name"; },
+  get editAnnotationAttributes() { return getOverride('tooltips.editAnnotationAttributes') ?? "Note, confidence and observer"; },
   get copyLogs() { return getOverride('tooltips.copyLogs') ?? "Copy logs"; },
   get showFileTree() { return getOverride('tooltips.showFileTree') ?? "Show file tree"; },
   get backToRoot() { return getOverride('tooltips.backToRoot') ?? "Back to root"; },
@@ -75,11 +92,12 @@ export const tooltips = {
   get buzzdetectBinWidthReset() { return getOverride('tooltips.buzzdetectBinWidthReset') ?? "Reset to auto-calculated bin width"; },
   get buzzdetectNeuronColor() { return getOverride('tooltips.buzzdetectNeuronColor') ?? "Change this neuron's color"; },
   get buzzdetectSubsetNeuron() { return getOverride('tooltips.buzzdetectSubsetNeuron') ?? "Subset the track to this neuron's detections"; },
-  get buzzdetectSubset() { return getOverride('tooltips.buzzdetectSubset') ?? "Subset track to detections (Shift+S)"; },
+  get buzzdetectSubset() { return getOverride('tooltips.buzzdetectSubset') ?? "Subset track to detections or labels (Shift+S)"; },
   get importToolsDir() { return getOverride('tooltips.importToolsDir') ?? "Pick a directory of {label}/ folders of audio clips; clips are copied in as examples and tools are created for new labels"; },
   get showAllFiles() { return getOverride('tooltips.showAllFiles') ?? "Showing: all files"; },
   get showingUnannotated() { return getOverride('tooltips.showingUnannotated') ?? "Showing: unannotated only"; },
   get showingAnnotated() { return getOverride('tooltips.showingAnnotated') ?? "Showing: annotated only"; },
+  get showingUnfinished() { return getOverride('tooltips.showingUnfinished') ?? "Showing: not yet done"; },
   get switchToSorted() { return getOverride('tooltips.switchToSorted') ?? "Enter sorted view"; },
   get shuffleQueue() { return getOverride('tooltips.shuffleQueue') ?? "Enter Shuffle Mode"; },
 };
@@ -70,7 +70,7 @@ export const projectSettingsModal = {
   get tabPreferences() { return getOverride('ui.projectSettingsModal.tabPreferences') ?? "User Preferences"; },
   get closeButton() { return getOverride('ui.projectSettingsModal.closeButton') ?? "Close"; },
   get ffmpegPathLabel() { return getOverride('ui.projectSettingsModal.ffmpegPathLabel') ?? "ffmpeg location"; },
-  get ffmpegPathHint() { return getOverride('ui.projectSettingsModal.ffmpegPathHint') ?? "Used to open .wma files, which have no bundled decoder. Leave blank to search your PATH and the usual install locations automatically; an empty box means nothing was found."; },
+  get ffmpegPathHint() { return getOverride('ui.projectSettingsModal.ffmpegPathHint') ?? "Used to open .wma files, which have no bundled decoder, and to export video clips. Leave blank to search your PATH and the usual install locations automatically; an empty box means nothing was found."; },
   get ffmpegPathDetected() { return getOverride('ui.projectSettingsModal.ffmpegPathDetected') ?? "Detected automatically — edit to use a different install."; },
   get cancelButton() { return getOverride('ui.projectSettingsModal.cancelButton') ?? "Cancel"; },
   get saveButton() { return getOverride('ui.projectSettingsModal.saveButton') ?? "Save"; },
@@ -126,6 +126,9 @@ export const annotationToolsSettingsModal = {
   get newTool() { return getOverride('ui.annotationToolsSettingsModal.newTool') ?? "New tool"; },
   get unassignedHeading() { return getOverride('ui.annotationToolsSettingsModal.unassignedHeading') ?? "Unassigned"; },
   get unassignAll() { return getOverride('ui.annotationToolsSettingsModal.unassignAll') ?? "Unassign All"; },
+  get bankPlain() { return getOverride('ui.annotationToolsSettingsModal.bankPlain') ?? "1–9"; },
+  get bankShift() { return getOverride('ui.annotationToolsSettingsModal.bankShift') ?? "Shift+1–9"; },
+  get bankMod() { return getOverride('ui.annotationToolsSettingsModal.bankMod') ?? "{mod}+1–9"; },
   get settingsTitle() { return getOverride('ui.annotationToolsSettingsModal.settingsTitle') ?? "Annotation Tool Settings"; },
 };
 
@@ -193,10 +196,16 @@ export const projectBaseFields = {
   get filenameTimePlaceholder() { return getOverride('ui.projectBaseFields.filenameTimePlaceholder') ?? "(optional) e.g. YYMMDD_HHMM"; },
   get filenameTimeIncomplete() { return getOverride('ui.projectBaseFields.filenameTimeIncomplete') ?? "Needs a year, a month, and a day to identify a date."; },
   get buzzdetectLabel() { return getOverride('ui.projectBaseFields.buzzdetectLabel') ?? "buzzdetect"; },
-  get buzzdetectPlaceholder() { return getOverride('ui.projectBaseFields.buzzdetectPlaceholder') ?? "(optional) directory of {ident}_buzzdetect.csv"; },
+  get buzzdetectPlaceholder() { return getOverride('ui.projectBaseFields.buzzdetectPlaceholder') ?? "(optional) directory of detector output"; },
+  get detectorFormatLabel() { return getOverride('ui.projectBaseFields.detectorFormatLabel') ?? "Format"; },
+  get extraSourcesLabel() { return getOverride('ui.projectBaseFields.extraSourcesLabel') ?? "More Sources (one lane each)"; },
+  get extraSourceNamePlaceholder() { return getOverride('ui.projectBaseFields.extraSourceNamePlaceholder') ?? "Lane name (default: folder name)"; },
+  get extraSourceDirLabel() { return getOverride('ui.projectBaseFields.extraSourceDirLabel') ?? "Detector"; },
+  get addSourceButton() { return getOverride('ui.projectBaseFields.addSourceButton') ?? "Add detector source"; },
+  get removeSourceTitle() { return getOverride('ui.projectBaseFields.removeSourceTitle') ?? "Remove source"; },
   get buzzdetectSectionLabel() { return getOverride('ui.projectBaseFields.buzzdetectSectionLabel') ?? "buzzdetect"; },
   get buzzdetectFrameLengthLabel() { return getOverride('ui.projectBaseFields.buzzdetectFrameLengthLabel') ?? "Frame Length (s)"; },
-  get buzzdetectFrameLengthAutoHelp() { return getOverride('ui.projectBaseFields.buzzdetectFrameLengthAutoHelp') ?? "auto-detected per file from the CSV"; },
+  get buzzdetectFrameLengthAutoHelp() { return getOverride('ui.projectBaseFields.buzzdetectFrameLengthAutoHelp') ?? "auto-detected per file"; },
   get buzzdetectFrameLengthOverrideHelp() { return getOverride('ui.projectBaseFields.buzzdetectFrameLengthOverrideHelp') ?? "used for every file; clear to auto-detect"; },
   get buzzdetectFrameLengthPlaceholder() { return getOverride('ui.projectBaseFields.buzzdetectFrameLengthPlaceholder') ?? "auto"; },
   get syncLabel() { return getOverride('ui.projectBaseFields.syncLabel') ?? "Sync"; },
@@ -242,6 +251,19 @@ export const massRenameModal = {
   get renamingButton() { return getOverride('ui.massRenameModal.renamingButton') ?? "Renaming…"; },
 };
 
+export const ravenImportModal = {
+  get title() { return getOverride('ui.ravenImportModal.title') ?? "Import Raven Selection Table"; },
+  get columnsHeading() { return getOverride('ui.ravenImportModal.columnsHeading') ?? "Label columns"; },
+  get columnsHint() { return getOverride('ui.ravenImportModal.columnsHint') ?? "Checked columns are joined, in order, to form each annotation's label. Times and frequency bounds are always imported."; },
+  get noExtraColumns() { return getOverride('ui.ravenImportModal.noExtraColumns') ?? "This table has no columns beyond the standard ones, so annotations will import without labels."; },
+  get separatorField() { return getOverride('ui.ravenImportModal.separatorField') ?? "Separator"; },
+  get previewHeading() { return getOverride('ui.ravenImportModal.previewHeading') ?? "Preview"; },
+  get emptyLabel() { return getOverride('ui.ravenImportModal.emptyLabel') ?? "(no label)"; },
+  selectionCount: (count: number, sourceName: string) => `${count} selection(s) in ${sourceName}`,
+  get cancelButton() { return getOverride('ui.ravenImportModal.cancelButton') ?? "Cancel"; },
+  get importButton() { return getOverride('ui.ravenImportModal.importButton') ?? "Import"; },
+};
+
 export const findLabelModal = {
   get title() { return getOverride('ui.findLabelModal.title') ?? "Find Label"; },
   get labelField() { return getOverride('ui.findLabelModal.labelField') ?? "Label"; },
@@ -255,6 +277,50 @@ export const findLabelModal = {
   get goButton() { return getOverride('ui.findLabelModal.goButton') ?? "Go"; },
 };
 
+export const exportAnnotationsModal = {
+  get title() { return getOverride('ui.exportAnnotationsModal.title') ?? "Export Annotations"; },
+  get folderField() { return getOverride('ui.exportAnnotationsModal.folderField') ?? "Folder"; },
+  get wholeProject() { return getOverride('ui.exportAnnotationsModal.wholeProject') ?? "Whole project"; },
+  get labelField() { return getOverride('ui.exportAnnotationsModal.labelField') ?? "Label filter"; },
+  get labelPlaceholder() { return getOverride('ui.exportAnnotationsModal.labelPlaceholder') ?? "All labels"; },
+  get partialCheckboxLabel() { return getOverride('ui.exportAnnotationsModal.partialCheckboxLabel') ?? "Partial"; },
+  get regexCheckboxLabel() { return getOverride('ui.exportAnnotationsModal.regexCheckboxLabel') ?? "Regex"; },
+  get invalidRegexError() { return getOverride('ui.exportAnnotationsModal.invalidRegexError') ?? "Invalid regular expression."; },
+  get scanningLabel() { return getOverride('ui.exportAnnotationsModal.scanningLabel') ?? "Reading annotation files…"; },
+  rowCount(rows: number, tracks: number) {
+    return getOverride('ui.exportAnnotationsModal.rowCount')
+      ?? `${rows} annotation${rows === 1 ? '' : 's'} across ${tracks} track${tracks === 1 ? '' : 's'}`;
+  },
+  get noWallClock() { return getOverride('ui.exportAnnotationsModal.noWallClock') ?? "Datetime columns are left empty: no filename time format is set in project settings."; },
+  get cancelButton() { return getOverride('ui.exportAnnotationsModal.cancelButton') ?? "Cancel"; },
+  get exportButton() { return getOverride('ui.exportAnnotationsModal.exportButton') ?? "Export CSV…"; },
+};
+
+export const annotationStatsModal = {
+  get title() { return getOverride('ui.annotationStatsModal.title') ?? "Project Statistics"; },
+  get labelsTab() { return getOverride('ui.annotationStatsModal.labelsTab') ?? "Labels"; },
+  get foldersTab() { return getOverride('ui.annotationStatsModal.foldersTab') ?? "Folders"; },
+  get daysTab() { return getOverride('ui.annotationStatsModal.daysTab') ?? "Days"; },
+  get scanningLabel() { return getOverride('ui.annotationStatsModal.scanningLabel') ?? "Reading annotation files…"; },
+  trackProgress: (annotated: number, total: number) =>
+    `${annotated.toLocaleString()} of ${total.toLocaleString()} track${total === 1 ? '' : 's'} annotated`,
+  annotationTotal: (count: number, duration: string) =>
+    `${count.toLocaleString()} annotation${count === 1 ? '' : 's'}, ${duration} in total`,
+  get labelHeader() { return getOverride('ui.annotationStatsModal.labelHeader') ?? "Label"; },
+  get countHeader() { return getOverride('ui.annotationStatsModal.countHeader') ?? "Count"; },
+  get tracksHeader() { return getOverride('ui.annotationStatsModal.tracksHeader') ?? "Tracks"; },
+  get durationHeader() { return getOverride('ui.annotationStatsModal.durationHeader') ?? "Duration"; },
+  get folderHeader() { return getOverride('ui.annotationStatsModal.folderHeader') ?? "Folder"; },
+  get dayHeader() { return getOverride('ui.annotationStatsModal.dayHeader') ?? "Day"; },
+  get progressHeader() { return getOverride('ui.annotationStatsModal.progressHeader') ?? "Annotated"; },
+  get rootFolder() { return getOverride('ui.annotationStatsModal.rootFolder') ?? "(top level)"; },
+  get noLabels() { return getOverride('ui.annotationStatsModal.noLabels') ?? "No annotations yet."; },
+  get noDays() { return getOverride('ui.annotationStatsModal.noDays') ?? "No filename time format is set in project settings, so tracks can't be grouped by day."; },
+  undatedTracks: (n: number) => `${n.toLocaleString()} track${n === 1 ? '' : 's'} with no parsable date left out`,
+  get closeButton() { return getOverride('ui.annotationStatsModal.closeButton') ?? "Close"; },
+  get exportButton() { return getOverride('ui.annotationStatsModal.exportButton') ?? "Export CSV…"; },
+};
+
 export const annotationToolLibrary = {
   get exampleClipsSubtitle() { return getOverride('ui.annotationToolLibrary.exampleClipsSubtitle') ?? "— example clips"; },
   get noExampleClips() { return getOverride('ui.annotationToolLibrary.noExampleClips') ?? "No example clips."; },
@@ -263,10 +329,120 @@ export const annotationToolLibrary = {
 
 export const annotationOverlay = {
   get namePlaceholder() { return getOverride('ui.annotationOverlay.namePlaceholder') ?? "Name..."; },
+  get attributesTitle() { return getOverride('ui.annotationOverlay.attributesTitle') ?? "Attributes"; },
+  get noteField() { return getOverride('ui.annotationOverlay.noteField') ?? "Note"; },
+  get notePlaceholder() { return getOverride('ui.annotationOverlay.notePlaceholder') ?? "Free-text note..."; },
+  get confidenceField() { return getOverride('ui.annotationOverlay.confidenceField') ?? "Confidence (0–1)"; },
+  get uncertainField() { return getOverride('ui.annotationOverlay.uncertainField') ?? "Uncertain"; },
+  get observerField() { return getOverride('ui.annotationOverlay.observerField') ?? "Observer"; },
+  get saveAttributesButton() { return getOverride('ui.annotationOverlay.saveAttributesButton') ?? "Save"; },
+  get cancelAttributesButton() { return getOverride('ui.annotationOverlay.cancelAttributesButton') ?? "Cancel"; },
+  get channelField() { return getOverride('ui.annotationOverlay.channelField') ?? "Channel"; },
+  get allChannelsOption() { return getOverride('ui.annotationOverlay.allChannelsOption') ?? "All channels"; },
+  channelOption: (channel: number) => `Channel ${channel + 1}`,
+};
+
+export const annotationTablePanel = {
+  get startHeader() { return getOverride('ui.annotationTablePanel.startHeader') ?? "Start"; },
+  get endHeader() { return getOverride('ui.annotationTablePanel.endHeader') ?? "End"; },
+  get durationHeader() { return getOverride('ui.annotationTablePanel.durationHeader') ?? "Duration"; },
+  get labelHeader() { return getOverride('ui.annotationTablePanel.labelHeader') ?? "Label"; },
+  get empty() { return getOverride('ui.annotationTablePanel.empty') ?? "No annotations on this track"; },
+  count: (total: number, selected: number) => {
+    const base = `${total.toLocaleString()} annotation${total === 1 ? '' : 's'}`;
+    return selected > 1 ? `${base} · ${selected.toLocaleString()} selected` : base;
+  },
+  deleteButton: (n: number) => `Delete${n > 1 ? ` ${n.toLocaleString()}` : ''}`,
+};
+
+export const powerSpectrumPanel = {
+  get noSelection() { return getOverride('ui.powerSpectrumPanel.noSelection') ?? "Select a stretch of audio to see its mean spectrum"; },
+  get computing() { return getOverride('ui.powerSpectrumPanel.computing') ?? "Computing spectrum…"; },
+  get unreadable() { return getOverride('ui.powerSpectrumPanel.unreadable') ?? "Couldn't read the selection's audio (a selection across a subset cut can't be analysed)"; },
+  get filterBandOnly() { return getOverride('ui.powerSpectrumPanel.filterBandOnly') ?? "Filter band only"; },
+  peak: (freq: string, db: number) => `Peak ${freq} (${db.toFixed(1)} dB)`,
+  bandwidth: (low: string, high: string, width: string) => `−10 dB band ${low}–${high} (${width})`,
+  centroid: (freq: string) => `Centroid ${freq}`,
+  truncated: (sec: number) => `first ${sec} s of the selection`,
+  hover: (freq: string, db: number) => `${freq} · ${db.toFixed(1)} dB`,
+};
+
+export const reviewPanel = {
+  get queueTab() { return getOverride('ui.reviewPanel.queueTab') ?? "Queue"; },
+  get summaryTab() { return getOverride('ui.reviewPanel.summaryTab') ?? "Summary"; },
+  get reviewerLabel() { return getOverride('ui.reviewPanel.reviewerLabel') ?? "Reviewer"; },
+  get reviewerPlaceholder() { return getOverride('ui.reviewPanel.reviewerPlaceholder') ?? "Your name"; },
+  get needReviewer() { return getOverride('ui.reviewPanel.needReviewer') ?? "Enter your name to record verdicts"; },
+  get allLabels() { return getOverride('ui.reviewPanel.allLabels') ?? "All labels"; },
+  get unreviewedOnly() { return getOverride('ui.reviewPanel.unreviewedOnly') ?? "Only ones I haven't reviewed"; },
+  get refresh() { return getOverride('ui.reviewPanel.refresh') ?? "Re-read annotations and verdicts (after a sync)"; },
+  get scanning() { return getOverride('ui.reviewPanel.scanning') ?? "Reading annotations…"; },
+  get empty() { return getOverride('ui.reviewPanel.empty') ?? "No annotations to review"; },
+  get done() { return getOverride('ui.reviewPanel.done') ?? "Nothing left to review"; },
+  get accept() { return getOverride('ui.reviewPanel.accept') ?? "Accept"; },
+  get reject() { return getOverride('ui.reviewPanel.reject') ?? "Reject"; },
+  get relabelAs() { return getOverride('ui.reviewPanel.relabelAs') ?? "Relabel as…"; },
+  get clear() { return getOverride('ui.reviewPanel.clear') ?? "Clear my verdict"; },
+  get replay() { return getOverride('ui.reviewPanel.replay') ?? "Replay"; },
+  get prev() { return getOverride('ui.reviewPanel.prev') ?? "Previous"; },
+  get next() { return getOverride('ui.reviewPanel.next') ?? "Next"; },
+  get noVerdicts() { return getOverride('ui.reviewPanel.noVerdicts') ?? "No verdicts yet"; },
+  get labelHeader() { return getOverride('ui.reviewPanel.labelHeader') ?? "Label"; },
+  get reviewedHeader() { return getOverride('ui.reviewPanel.reviewedHeader') ?? "Reviewed"; },
+  get acceptedHeader() { return getOverride('ui.reviewPanel.acceptedHeader') ?? "Accepted"; },
+  get rejectedHeader() { return getOverride('ui.reviewPanel.rejectedHeader') ?? "Rejected"; },
+  get relabelledHeader() { return getOverride('ui.reviewPanel.relabelledHeader') ?? "Relabelled"; },
+  get acceptRateHeader() { return getOverride('ui.reviewPanel.acceptRateHeader') ?? "Accept rate"; },
+  get agreementHeader() { return getOverride('ui.reviewPanel.agreementHeader') ?? "Reviewer agreement"; },
+  get notApplicable() { return getOverride('ui.reviewPanel.notApplicable') ?? "—"; },
+  position: (index: number, total: number) => `${index.toLocaleString()} of ${total.toLocaleString()}`,
+  remaining: (n: number) => `${n.toLocaleString()} unreviewed by you`,
+  accepted: (reviewer: string) => `${reviewer}: accepted`,
+  rejected: (reviewer: string) => `${reviewer}: rejected`,
+  relabelled: (reviewer: string, label: string) => `${reviewer}: relabelled → ${label}`,
+  reviewedOf: (reviewed: number, total: number) => `${reviewed.toLocaleString()} / ${total.toLocaleString()}`,
+  percent: (rate: number) => `${Math.round(rate * 100)}%`,
+  agreement: (rate: number, n: number) => `${Math.round(rate * 100)}% of ${n.toLocaleString()}`,
+  saveFailed: (err: string) => `Couldn't save the verdict: ${err}`,
+  shortcutTaken: (chord: string, by: string, action: string) =>
+    `${chord} is your shortcut for “${by}”, so “${action}” has none — give it one under Help → Keyboard shortcuts.`,
+};
+
+export const agreementPanel = {
+  get setA() { return getOverride('ui.agreementPanel.setA') ?? "A"; },
+  get setB() { return getOverride('ui.agreementPanel.setB') ?? "B"; },
+  get workingCopy() { return getOverride('ui.agreementPanel.workingCopy') ?? "Project annotations"; },
+  get chooseFolder() { return getOverride('ui.agreementPanel.chooseFolder') ?? "Choose folder…"; },
+  get foldersGroup() { return getOverride('ui.agreementPanel.foldersGroup') ?? "Folders"; },
+  get commitsGroup() { return getOverride('ui.agreementPanel.commitsGroup') ?? "Synced commits"; },
+  get matchBy() { return getOverride('ui.agreementPanel.matchBy') ?? "Match by"; },
+  get matchIou() { return getOverride('ui.agreementPanel.matchIou') ?? "Overlap (IoU) ≥"; },
+  get matchOnset() { return getOverride('ui.agreementPanel.matchOnset') ?? "Onset within (s)"; },
+  get showLanes() { return getOverride('ui.agreementPanel.showLanes') ?? "Show on spectrogram"; },
+  get refresh() { return getOverride('ui.agreementPanel.refresh') ?? "Re-read both sets (after a sync or edit)"; },
+  get loading() { return getOverride('ui.agreementPanel.loading') ?? "Reading annotations…"; },
+  get noOverlap() { return getOverride('ui.agreementPanel.noOverlap') ?? "The two sets have no track in common"; },
+  get labelHeader() { return getOverride('ui.agreementPanel.labelHeader') ?? "Label"; },
+  get countAHeader() { return getOverride('ui.agreementPanel.countAHeader') ?? "In A"; },
+  get countBHeader() { return getOverride('ui.agreementPanel.countBHeader') ?? "In B"; },
+  get matchedHeader() { return getOverride('ui.agreementPanel.matchedHeader') ?? "Matched"; },
+  get precisionHeader() { return getOverride('ui.agreementPanel.precisionHeader') ?? "Precision"; },
+  get recallHeader() { return getOverride('ui.agreementPanel.recallHeader') ?? "Recall"; },
+  get f1Header() { return getOverride('ui.agreementPanel.f1Header') ?? "F1"; },
+  get overall() { return getOverride('ui.agreementPanel.overall') ?? "All labels"; },
+  get notApplicable() { return getOverride('ui.agreementPanel.notApplicable') ?? "—"; },
+  summary: (tracks: number, judgements: number) =>
+    `${tracks.toLocaleString()} ${tracks === 1 ? 'track' : 'tracks'} in both · ${judgements.toLocaleString()} events`,
+  kappa: (kappa: number | null) => `Cohen's κ ${kappa === null ? '—' : kappa.toFixed(2)}`,
+  commit: (summary: string, author: string, date: string) => `${date} · ${author} · ${summary}`,
+  score: (value: number) => value.toFixed(2),
+  loadFailed: (err: string) => `Couldn't read an annotation set: ${err}`,
 };
 
 export const spectrogramView = {
   get generating() { return getOverride('ui.spectrogramView.generating') ?? "Generating spectrogram…"; },
+  /** Frequency-axis label for a lane in a stacked multi-channel view. */
+  laneLabel: (channel: number) => `Ch ${channel + 1}`,
 };
 
 export const videoPane = {
@@ -276,6 +452,8 @@ export const videoPane = {
   get modeLabel() { return getOverride('ui.videoPane.modeLabel') ?? "MODE"; },
   get processingMedia() { return getOverride('ui.videoPane.processingMedia') ?? "Processing Media..."; },
   get videoModeLabel() { return getOverride('ui.videoPane.videoModeLabel') ?? "Video Mode"; },
+  get exportFrame() { return getOverride('ui.videoPane.exportFrame') ?? "Export frame as PNG…"; },
+  get exportClip() { return getOverride('ui.videoPane.exportClip') ?? "Export selection as clip…"; },
   get codecErrorTitle() { return getOverride('ui.videoPane.codecErrorTitle') ?? "Can't display this video"; },
   get codecErrorDecode() { return getOverride('ui.videoPane.codecErrorDecode') ?? "Your system is missing a codec for this video."; },
   get codecErrorDecodeHintLinux() { return getOverride('ui.videoPane.codecErrorDecodeHintLinux') ?? "Linux: likely a missing GStreamer plugin (varies by codec — commonly gstreamer1.0-libav or gstreamer1.0-plugins-bad)."; },
@@ -314,6 +492,67 @@ export const buzzdetectPanel = {
   get avgActivationsHeader() { return getOverride('ui.buzzdetectPanel.avgActivationsHeader') ?? "Mean Activations"; },
   get selectAllNeurons() { return getOverride('ui.buzzdetectPanel.selectAllNeurons') ?? "All"; },
   get selectNoneNeurons() { return getOverride('ui.buzzdetectPanel.selectNoneNeurons') ?? "None"; },
+  get convertButton() { return getOverride('ui.buzzdetectPanel.convertButton') ?? "Convert detections to annotations…"; },
+  get evaluateButton() { return getOverride('ui.buzzdetectPanel.evaluateButton') ?? "Evaluate thresholds…"; },
+};
+
+export const buzzdetectEvaluationModal = {
+  get title() { return getOverride('ui.buzzdetectEvaluationModal.title') ?? "Evaluate Thresholds"; },
+  get loading() { return getOverride('ui.buzzdetectEvaluationModal.loading') ?? "Reading buzzdetect and annotation files…"; },
+  get noTracks() { return getOverride('ui.buzzdetectEvaluationModal.noTracks') ?? "No track has both a buzzdetect file and an annotation file."; },
+  get noLabels() { return getOverride('ui.buzzdetectEvaluationModal.noLabels') ?? "These tracks have no annotations to score against."; },
+  get noActivations() { return getOverride('ui.buzzdetectEvaluationModal.noActivations') ?? "This neuron has no activations on these tracks."; },
+  get neuronField() { return getOverride('ui.buzzdetectEvaluationModal.neuronField') ?? "Neuron"; },
+  get labelField() { return getOverride('ui.buzzdetectEvaluationModal.labelField') ?? "Label"; },
+  get precision() { return getOverride('ui.buzzdetectEvaluationModal.precision') ?? "Precision"; },
+  get recall() { return getOverride('ui.buzzdetectEvaluationModal.recall') ?? "Recall"; },
+  get f1() { return getOverride('ui.buzzdetectEvaluationModal.f1') ?? "F1"; },
+  get thresholdAxis() { return getOverride('ui.buzzdetectEvaluationModal.thresholdAxis') ?? "Threshold →"; },
+  get thresholdHeader() { return getOverride('ui.buzzdetectEvaluationModal.thresholdHeader') ?? "Threshold"; },
+  get currentRow() { return getOverride('ui.buzzdetectEvaluationModal.currentRow') ?? "Current"; },
+  get bestRow() { return getOverride('ui.buzzdetectEvaluationModal.bestRow') ?? "Best F1"; },
+  get closeButton() { return getOverride('ui.buzzdetectEvaluationModal.closeButton') ?? "Close"; },
+  intro: (tracks: number) =>
+    `Scored frame by frame over ${tracks.toLocaleString()} ${tracks === 1 ? 'track' : 'tracks'} with both a buzzdetect file and an annotation file. A frame is labelled when the label's annotations cover at least half of it.`,
+  counts: (tp: number, fp: number, fn: number) =>
+    `At the current threshold: ${tp.toLocaleString()} frames detected and labelled, ${fp.toLocaleString()} detected only, ${fn.toLocaleString()} labelled only.`,
+  applyButton: (threshold: number | null) => (threshold === null ? 'Use best threshold' : `Use ${threshold} as threshold`),
+  failed: (err: string) => `Evaluation failed: ${err}`,
+};
+
+export const detectionConversionModal = {
+  get title() { return getOverride('ui.detectionConversionModal.title') ?? "Convert Detections to Annotations"; },
+  get intro() { return getOverride('ui.detectionConversionModal.intro') ?? "Each run of frames where a neuron's activation reaches its threshold becomes one annotation. Existing annotations are kept."; },
+  get neuronsHeading() { return getOverride('ui.detectionConversionModal.neuronsHeading') ?? "Neurons"; },
+  get labelHeader() { return getOverride('ui.detectionConversionModal.labelHeader') ?? "Becomes"; },
+  get thresholdHeader() { return getOverride('ui.detectionConversionModal.thresholdHeader') ?? "Threshold"; },
+  get neuronName() { return getOverride('ui.detectionConversionModal.neuronName') ?? "Neuron name (Custom)"; },
+  get minDurationField() { return getOverride('ui.detectionConversionModal.minDurationField') ?? "Shortest event (s)"; },
+  get maxGapField() { return getOverride('ui.detectionConversionModal.maxGapField') ?? "Bridge gaps up to (s)"; },
+  get scopeHeading() { return getOverride('ui.detectionConversionModal.scopeHeading') ?? "Convert on"; },
+  get scopeTrack() { return getOverride('ui.detectionConversionModal.scopeTrack') ?? "This track (undoable)"; },
+  get scopeProject() { return getOverride('ui.detectionConversionModal.scopeProject') ?? "Every track with a buzzdetect file"; },
+  get projectHint() { return getOverride('ui.detectionConversionModal.projectHint') ?? "Other tracks' annotation files are written directly; only the open track's change can be undone."; },
+  get cancelButton() { return getOverride('ui.detectionConversionModal.cancelButton') ?? "Cancel"; },
+  get closeButton() { return getOverride('ui.detectionConversionModal.closeButton') ?? "Close"; },
+  get convertButton() { return getOverride('ui.detectionConversionModal.convertButton') ?? "Convert"; },
+  get converting() { return getOverride('ui.detectionConversionModal.converting') ?? "Converting…"; },
+  preview: (n: number) => `${n.toLocaleString()} ${n === 1 ? 'event' : 'events'} on this track`,
+  result: (added: number, tracks: number) =>
+    `Added ${added.toLocaleString()} ${added === 1 ? 'annotation' : 'annotations'} on ${tracks.toLocaleString()} ${tracks === 1 ? 'track' : 'tracks'}`,
+  failed: (err: string) => `Conversion stopped: ${err}`,
+};
+
+export const labelSubsetModal = {
+  get title() { return getOverride('ui.labelSubsetModal.title') ?? "Subset to Labels"; },
+  get intro() { return getOverride('ui.labelSubsetModal.intro') ?? "Collapse the track to the annotations whose label matches, so they play back to back. The rest of the track is removed from the time axis until the subset is turned off."; },
+  get paddingField() { return getOverride('ui.labelSubsetModal.paddingField') ?? "Padding either side (s)"; },
+  get noMatches() { return getOverride('ui.labelSubsetModal.noMatches') ?? "No annotation on this track matches."; },
+  preview: (segments: number, kept: string) =>
+    `${segments.toLocaleString()} ${segments === 1 ? 'segment' : 'segments'} on this track, ${kept} in all`,
+  get cancelButton() { return getOverride('ui.labelSubsetModal.cancelButton') ?? "Cancel"; },
+  get clearButton() { return getOverride('ui.labelSubsetModal.clearButton') ?? "Turn off"; },
+  get applyButton() { return getOverride('ui.labelSubsetModal.applyButton') ?? "Subset"; },
 };
 
 export const debugConsole = {
@@ -326,16 +565,123 @@ export const fileTree = {
   get emptyHint() { return getOverride('ui.fileTree.emptyHint') ?? "Open a file or folder to browse"; },
   get copyIdent() { return getOverride('ui.fileTree.copyIdent') ?? "Copy ident"; },
   get importAnnotations() { return getOverride('ui.fileTree.importAnnotations') ?? "Import annotations…"; },
+  get exportAudacity() { return getOverride('ui.fileTree.exportAudacity') ?? "Export as Audacity labels…"; },
+  get exportRaven() { return getOverride('ui.fileTree.exportRaven') ?? "Export as Raven selection table…"; },
+  get exportFolderTable() { return getOverride('ui.fileTree.exportFolderTable') ?? "Export annotation table…"; },
   get noMediaFiles() { return getOverride('ui.fileTree.noMediaFiles') ?? "No compatible files found in your media directory"; },
   showingCount(shown: number, total: number) { return getOverride('ui.fileTree.showingCount') ?? `Showing ${shown} of ${total} files`; },
-  noFilesMatchFilter(filter: 'annotated' | 'unannotated') {
-    const label = filter === 'annotated' ? 'annotated only' : 'unannotated only';
+  noFilesMatchFilter(filter: 'annotated' | 'unannotated' | 'unfinished') {
+    const label = { annotated: 'annotated only', unannotated: 'unannotated only', unfinished: 'not yet done' }[filter];
     return getOverride('ui.fileTree.noFilesMatchFilter') ?? `No files match your active filter: ${label}`;
   },
+  get statusHeader() { return getOverride('ui.fileTree.statusHeader') ?? "Status"; },
+  get assignHeader() { return getOverride('ui.fileTree.assignHeader') ?? "Assigned to"; },
+  get assignPlaceholder() { return getOverride('ui.fileTree.assignPlaceholder') ?? "Name (Enter to save)"; },
+  assignedTo(name: string) { return getOverride('ui.fileTree.assignedTo') ?? `Assigned to ${name}`; },
+};
+
+// Keyed by DetectorFormat.
+export const detectorFormatNames = {
+  get buzzdetect() { return getOverride('ui.detectorFormatNames.buzzdetect') ?? "buzzdetect"; },
+  get birdnet() { return getOverride('ui.detectorFormatNames.birdnet') ?? "BirdNET"; },
+  get long() { return getOverride('ui.detectorFormatNames.long') ?? "start,end,class,score"; },
+};
+
+// The files each format is looked up as, keyed by DetectorFormat.
+export const detectorFormatFiles = {
+  get buzzdetect() { return getOverride('ui.detectorFormatFiles.buzzdetect') ?? "{ident}_buzzdetect.csv, one activation column per neuron"; },
+  get birdnet() { return getOverride('ui.detectorFormatFiles.birdnet') ?? "{ident}.BirdNET.selection.table.txt or {ident}.BirdNET.results.csv"; },
+  get long() { return getOverride('ui.detectorFormatFiles.long') ?? "{ident}_detections.csv, one row per detection"; },
+};
+
+// Keyed by TrackStatus.
+export const trackStatusLabels = {
+  get 'not-started'() { return getOverride('ui.trackStatusLabels.not-started') ?? "Not started"; },
+  get 'in-progress'() { return getOverride('ui.trackStatusLabels.in-progress') ?? "In progress"; },
+  get done() { return getOverride('ui.trackStatusLabels.done') ?? "Done"; },
+  get 'needs-review'() { return getOverride('ui.trackStatusLabels.needs-review') ?? "Needs review"; },
+};
+
+// The file tree's badge text, keyed by TrackStatus.
+export const trackStatusBadges = {
+  get 'not-started'() { return getOverride('ui.trackStatusBadges.not-started') ?? "todo"; },
+  get 'in-progress'() { return getOverride('ui.trackStatusBadges.in-progress') ?? "wip"; },
+  get done() { return getOverride('ui.trackStatusBadges.done') ?? "done"; },
+  get 'needs-review'() { return getOverride('ui.trackStatusBadges.needs-review') ?? "review"; },
 };
 
 export const keyboardShortcutsView = {
   get noShortcuts() { return getOverride('ui.keyboardShortcutsView.noShortcuts') ?? "No shortcuts for this key"; },
+  get recordPrompt() { return getOverride('ui.keyboardShortcutsView.recordPrompt') ?? "Press keys…"; },
+  get recordHint() { return getOverride('ui.keyboardShortcutsView.recordHint') ?? "Click to change, Esc to cancel"; },
+  get addShortcut() { return getOverride('ui.keyboardShortcutsView.addShortcut') ?? "Add a shortcut"; },
+  get removeShortcut() { return getOverride('ui.keyboardShortcutsView.removeShortcut') ?? "Remove this shortcut"; },
+  get resetShortcut() { return getOverride('ui.keyboardShortcutsView.resetShortcut') ?? "Reset to default"; },
+  get resetAll() { return getOverride('ui.keyboardShortcutsView.resetAll') ?? "Reset all"; },
+  get importKeymap() { return getOverride('ui.keyboardShortcutsView.importKeymap') ?? "Import…"; },
+  get exportKeymap() { return getOverride('ui.keyboardShortcutsView.exportKeymap') ?? "Export…"; },
+  get keymapFilterName() { return getOverride('ui.keyboardShortcutsView.keymapFilterName') ?? "Keymap"; },
+  get fixed() { return getOverride('ui.keyboardShortcutsView.fixed') ?? "Can't be changed"; },
+  get unbound() { return getOverride('ui.keyboardShortcutsView.unbound') ?? "None"; },
+  alsoBoundTo(labels: string) { return getOverride('ui.keyboardShortcutsView.alsoBoundTo') ?? `Also bound to: ${labels}`; },
+  reserved(chord: string, label: string) { return getOverride('ui.keyboardShortcutsView.reserved') ?? `${chord} is reserved for "${label}"`; },
+  reassigned(chord: string, labels: string) { return getOverride('ui.keyboardShortcutsView.reassigned') ?? `${chord} removed from: ${labels}`; },
+  importFailed(message: string) { return getOverride('ui.keyboardShortcutsView.importFailed') ?? `Couldn't import keymap: ${message}`; },
+  saveFailed(message: string) { return getOverride('ui.keyboardShortcutsView.saveFailed') ?? `Couldn't save keymap: ${message}`; },
+};
+
+/** Shortcut names, by keymap action id (utils/keymap.ts) and reserved shortcut id. */
+export const keymapActions = {
+  get playPause() { return getOverride('ui.keymapActions.playPause') ?? "Play / Pause"; },
+  get toggleSpeed() { return getOverride('ui.keymapActions.toggleSpeed') ?? "Toggle speed (1× ↔ last)"; },
+  get toggleMute() { return getOverride('ui.keymapActions.toggleMute') ?? "Mute / Unmute"; },
+  get scrubBack() { return getOverride('ui.keymapActions.scrubBack') ?? "Scrub backward"; },
+  get scrubForward() { return getOverride('ui.keymapActions.scrubForward') ?? "Scrub forward"; },
+  get frameBack() { return getOverride('ui.keymapActions.frameBack') ?? "Step video back one frame"; },
+  get frameForward() { return getOverride('ui.keymapActions.frameForward') ?? "Step video forward one frame"; },
+  get togglePlayheadLock() { return getOverride('ui.keymapActions.togglePlayheadLock') ?? "Toggle lock playhead to center"; },
+  get trackStart() { return getOverride('ui.keymapActions.trackStart') ?? "Jump to start of track"; },
+  get trackEnd() { return getOverride('ui.keymapActions.trackEnd') ?? "Jump to end of track"; },
+  get prevAnnotation() { return getOverride('ui.keymapActions.prevAnnotation') ?? "Jump to previous annotation"; },
+  get nextAnnotation() { return getOverride('ui.keymapActions.nextAnnotation') ?? "Jump to next annotation"; },
+  get prevTrack() { return getOverride('ui.keymapActions.prevTrack') ?? "Previous track"; },
+  get nextTrack() { return getOverride('ui.keymapActions.nextTrack') ?? "Next track"; },
+  get cycleTrackStatus() { return getOverride('ui.keymapActions.cycleTrackStatus') ?? "Cycle the track's status"; },
+  get zoomIn() { return getOverride('ui.keymapActions.zoomIn') ?? "Zoom spectrogram in"; },
+  get zoomOut() { return getOverride('ui.keymapActions.zoomOut') ?? "Zoom spectrogram out"; },
+  get zoomFit() { return getOverride('ui.keymapActions.zoomFit') ?? "Zoom spectrogram to fit"; },
+  get selectMode() { return getOverride('ui.keymapActions.selectMode') ?? "Selection mode (unready tools)"; },
+  get toggleSubset() { return getOverride('ui.keymapActions.toggleSubset') ?? "Toggle subset mode (detections or labels)"; },
+  get playExample() { return getOverride('ui.keymapActions.playExample') ?? "Play / stop example clip for active tool"; },
+  get filterTool() { return getOverride('ui.keymapActions.filterTool') ?? "Ready audio filter tool"; },
+  get toggleFilter() { return getOverride('ui.keymapActions.toggleFilter') ?? "Toggle audio filtering"; },
+  get videoZoomTool() { return getOverride('ui.keymapActions.videoZoomTool') ?? "Ready video zoom tool"; },
+  get toggleVideoZoom() { return getOverride('ui.keymapActions.toggleVideoZoom') ?? "Toggle video zoom"; },
+  get videoZoomIn() { return getOverride('ui.keymapActions.videoZoomIn') ?? "Zoom video in"; },
+  get videoZoomOut() { return getOverride('ui.keymapActions.videoZoomOut') ?? "Zoom video out"; },
+  get videoRegionTool() { return getOverride('ui.keymapActions.videoRegionTool') ?? "Ready video region tool"; },
+  get undoLayer() { return getOverride('ui.keymapActions.undoLayer') ?? "Undo activated tool/selection"; },
+  get selectAll() { return getOverride('ui.keymapActions.selectAll') ?? "Select whole track"; },
+  get deleteAnnotation() { return getOverride('ui.keymapActions.deleteAnnotation') ?? "Remove selected annotation"; },
+  get undo() { return getOverride('ui.keymapActions.undo') ?? "Undo"; },
+  get redo() { return getOverride('ui.keymapActions.redo') ?? "Redo"; },
+  get reviewAccept() { return getOverride('ui.keymapActions.reviewAccept') ?? "Review: accept annotation"; },
+  get reviewReject() { return getOverride('ui.keymapActions.reviewReject') ?? "Review: reject annotation"; },
+  get reviewReplay() { return getOverride('ui.keymapActions.reviewReplay') ?? "Review: replay annotation"; },
+  get reviewPrev() { return getOverride('ui.keymapActions.reviewPrev') ?? "Review: previous annotation"; },
+  get reviewNext() { return getOverride('ui.keymapActions.reviewNext') ?? "Review: next annotation"; },
+  get openHelp() { return getOverride('ui.keymapActions.openHelp') ?? "Open the help guide"; },
+  get readyTool() { return getOverride('ui.keymapActions.readyTool') ?? "Ready annotation tool"; },
+  get hideLabels() { return getOverride('ui.keymapActions.hideLabels') ?? "Hide annotation labels (hold)"; },
+  get quickTooltips() { return getOverride('ui.keymapActions.quickTooltips') ?? "Quick tooltips on hover (hold)"; },
+};
+
+export const keymapGroups = {
+  get playback() { return getOverride('ui.keymapGroups.playback') ?? "Playback"; },
+  get navigation() { return getOverride('ui.keymapGroups.navigation') ?? "Navigation"; },
+  get tools() { return getOverride('ui.keymapGroups.tools') ?? "Tools"; },
+  get annotations() { return getOverride('ui.keymapGroups.annotations') ?? "Annotations"; },
+  get app() { return getOverride('ui.keymapGroups.app') ?? "App"; },
 };
 
 export const annotationWindow = {
@@ -366,6 +712,30 @@ export const annotationWindow = {
   get scaleLinear() { return getOverride('ui.annotationWindow.scaleLinear') ?? "Linear"; },
   get scaleLog() { return getOverride('ui.annotationWindow.scaleLog') ?? "Logarithmic"; },
   get scaleMel() { return getOverride('ui.annotationWindow.scaleMel') ?? "Mel"; },
+  get windowFunctionLabel() { return getOverride('ui.annotationWindow.windowFunctionLabel') ?? "Window function"; },
+  get windowHann() { return getOverride('ui.annotationWindow.windowHann') ?? "Hann"; },
+  get windowHamming() { return getOverride('ui.annotationWindow.windowHamming') ?? "Hamming"; },
+  get windowBlackmanHarris() { return getOverride('ui.annotationWindow.windowBlackmanHarris') ?? "Blackman-Harris"; },
+  get windowGaussian() { return getOverride('ui.annotationWindow.windowGaussian') ?? "Gaussian"; },
+  get overlapLabel() { return getOverride('ui.annotationWindow.overlapLabel') ?? "Overlap (finest zoom)"; },
+  overlapAuto: (hop: number) => `Auto (${hop}-sample hop)`,
+  overlapOption: (percent: number, hop: number) => `${percent}% (${hop}-sample hop)`,
+  get zeroPaddingLabel() { return getOverride('ui.annotationWindow.zeroPaddingLabel') ?? "Zero-padding"; },
+  get zeroPaddingNone() { return getOverride('ui.annotationWindow.zeroPaddingNone') ?? "None"; },
+  zeroPaddingOption: (factor: number) => `${factor}×`,
+  get colormapHeader() { return getOverride('ui.annotationWindow.colormapHeader') ?? "Colors"; },
+  get colormapLabel() { return getOverride('ui.annotationWindow.colormapLabel') ?? "Colormap"; },
+  get colormapRoseus() { return getOverride('ui.annotationWindow.colormapRoseus') ?? "Roseus"; },
+  get colormapViridis() { return getOverride('ui.annotationWindow.colormapViridis') ?? "Viridis"; },
+  get colormapGrayscale() { return getOverride('ui.annotationWindow.colormapGrayscale') ?? "Grayscale"; },
+  get colormapGrayscaleInverted() { return getOverride('ui.annotationWindow.colormapGrayscaleInverted') ?? "Inverted grayscale (print)"; },
+  get colormapCustom() { return getOverride('ui.annotationWindow.colormapCustom') ?? "Custom gradient"; },
+  get customColormapHint() { return getOverride('ui.annotationWindow.customColormapHint') ?? "Drag the handles for quiet (left) and loud (right); right-click one for any color."; },
+  get channelsHeader() { return getOverride('ui.annotationWindow.channelsHeader') ?? "Channels"; },
+  get channelViewLabel() { return getOverride('ui.annotationWindow.channelViewLabel') ?? "Show"; },
+  get channelMixdown() { return getOverride('ui.annotationWindow.channelMixdown') ?? "Mixdown (all channels)"; },
+  get channelStacked() { return getOverride('ui.annotationWindow.channelStacked') ?? "Stacked (one lane per channel)"; },
+  channelOption: (channel: number) => `Channel ${channel + 1}`,
   // Overlays
   get videoLabel() { return getOverride('ui.annotationWindow.videoLabel') ?? "Video"; },
   get exampleAudioPlaying() { return getOverride('ui.annotationWindow.exampleAudioPlaying') ?? "Example audio is playing"; },
@@ -1,6 +1,8 @@
 import { useCallback, useRef, MutableRefObject } from 'react';
 import { Annotation } from '../types';
 import { useHotkeys } from './useHotkeys';
+import { bindAction } from '../utils/keymap';
+import { useKeymap } from '../utils/keymapStore';
 
 export interface AnnotationHistoryApi {
   /** Undo/redo stack of annotation snapshots. Reset directly by track-open /
@@ -56,10 +58,10 @@ export function useAnnotationHistory(
     setAnnotations(annotationsHistoryRef.current[historyIndexRef.current]);
   }, [setAnnotations]);
 
+  const keymap = useKeymap();
   useHotkeys([
-    { key: 'z', mods: ['mod', 'shift'], handler: () => redoAnnotations() },
-    { key: 'z', mods: ['mod'], handler: () => undoAnnotations() },
-    { key: 'y', mods: ['mod'], handler: () => redoAnnotations() },
+    ...bindAction(keymap, 'redo', () => redoAnnotations()),
+    ...bindAction(keymap, 'undo', () => undoAnnotations()),
   ], enabled);
 
   return {
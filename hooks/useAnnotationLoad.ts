@@ -4,6 +4,7 @@ import { readTextFile } from '../utils/tauriCommands';
 import { parseAudacityContent, generateAudacityContent } from '../utils/helpers';
 import { persistAnnotations } from '../utils/annotationPersist';
 import { setMergeContent } from '../utils/annotationMerge';
+import { applyAttributesContent, attributesPathFor, generateAttributesContent } from '../utils/annotationAttributes';
 import type { PreSyncSnapshot } from './useSyncManagement';
 import { DEFAULT_OUTPUT_ROUNDING_DECIMALS } from '../constants';
 
@@ -149,6 +150,7 @@ export function useAnnotationLoad({
     (async () => {
       try {
         const content = await readTextFile(annotPath);
+        const attrsContent = await readTextFile(attributesPathFor(annotPath)).catch(() => null);
         // Drop result if the user switched tracks while we were reading.
         if (trackPathRef.current !== expectedTrackPath) return;
 
@@ -163,11 +165,18 @@ export function useAnnotationLoad({
           // an edit made *during* the sync that the checkout just clobbered on
           // disk), and the freshly-read disk content — instead of blindly
           // replacing state with disk. If the merge changes disk, write it back
-          // through the shared persist helper (empty => remove the file).
+          // through the shared persist helper (empty => remove the file). The
+          // attributes sidecar merges the same way, record for record.
           const ours = generateAudacityContent(annotationsRef.current, decimals);
           const merged = setMergeContent(snapshot.content, ours, diskContent);
-          list = merged ? parseAudacityContent(merged, annotationToolsRef.current) : [];
-          if (merged !== diskContent) {
+          const diskAttrs = attrsContent ?? '';
+          const mergedAttrs = setMergeContent(
+            snapshot.attrsContent,
+            generateAttributesContent(annotationsRef.current, decimals),
+            diskAttrs,
+          );
+          list = merged ? applyAttributesContent(parseAudacityContent(merged, annotationToolsRef.current), mergedAttrs) : [];
+          if (merged !== diskContent || mergedAttrs !== diskAttrs) {
             await persistAnnotations(annotPath, list, decimals);
           }
           preSyncSnapshotRef.current = null;
@@ -175,7 +184,7 @@ export function useAnnotationLoad({
           // An empty/missing file loads as [] — applied like any other result so
           // stale in-memory annotations can't survive a pull that emptied the
           // file on disk and then get re-written over it.
-          list = content ? parseAudacityContent(content, annotationToolsRef.current) : [];
+          list = content ? applyAttributesContent(parseAudacityContent(content, annotationToolsRef.current), attrsContent) : [];
         }
 
         skipAutoSaveRef.current = true;
@@ -10,7 +10,7 @@ import {
   PersistedTool, assembleTools, buildHotkeyMap, diffToolFolders, makeCustomTool,
   mergeImportedTools, toPersistedTools,
 } from '../utils/annotationTools';
-import { renameLabelAcrossTracks } from '../utils/annotationRename';
+import { renameLabelAcrossTracks, renameLabelInReviews } from '../utils/annotationRename';
 import { openDirectoryDialog } from '../utils/tauriCommands';
 import type { useExamplePlayer } from './useExamplePlayer';
 
@@ -239,6 +239,7 @@ export function useAnnotationTools({
     // Rename matching annotations in every other track's annotation file on disk.
     // The current track's file will be updated by the auto-save triggered above.
     renameLabelAcrossTracks(allTracks.filter(t => t !== trackPath), getAnnotationPath, oldText, newText);
+    renameLabelInReviews(trackPath, getAnnotationPath, oldText, newText);
   }, [annotationTools, allTracks, trackPath, getAnnotationPath]);
 
   const handleDeleteTool = useCallback((toolIndex: number, mode: 'unlink' | 'delete') => {
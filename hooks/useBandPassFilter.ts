@@ -5,6 +5,8 @@ import { AudioEngine } from '../utils/AudioEngine';
 import { isFilterAvailable } from '../utils/videoPlaybackMode';
 import { ActivationStackApi } from './useActivationStack';
 import { useHotkeys } from './useHotkeys';
+import { bindAction } from '../utils/keymap';
+import { useKeymap } from '../utils/keymapStore';
 
 export interface BandPassFilterApi {
   filterToolActive: boolean;
@@ -143,9 +145,10 @@ export function useBandPassFilter<Prefs extends { bandPassFilter?: BandPassFilte
     }
   }, [bandPassFilter, engageBandPassFilter, activationStack]);
 
+  const keymap = useKeymap();
   useHotkeys([
-    { key: 'f', mods: ['shift'], handler: () => { if (isFilterAvailable(isAudioTrack, videoMode)) handleToggleFilterTool(); } },
-    { key: 'f', handler: () => { if (isFilterAvailable(isAudioTrack, videoMode)) handleToggleFilterState(); } },
+    ...bindAction(keymap, 'filterTool', () => { if (isFilterAvailable(isAudioTrack, videoMode)) handleToggleFilterTool(); }),
+    ...bindAction(keymap, 'toggleFilter', () => { if (isFilterAvailable(isAudioTrack, videoMode)) handleToggleFilterState(); }),
   ], enabled);
 
   // Filter "off" path — snapshots the band to `lastBandPassFilterRef` so it can
@@ -1,7 +1,7 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import { BuzzdetectData, BuzzdetectSeriesMode, Project } from '../types';
 import { DEFAULT_BUZZDETECT_PANEL_HEIGHT, DEFAULT_BUZZDETECT_MIN_DETECTION_RATE } from '../constants';
-import { readBuzzdetect } from '../utils/tauriCommands';
+import { readDetectorOutput } from '../utils/detectorOutput';
 
 export interface BuzzdetectApi {
   buzzdetectEnabled: boolean;
@@ -38,6 +38,16 @@ export interface BuzzdetectApi {
    * label from a previously loaded file never lingers in `hiddenNeurons`.
    */
   handleBuzzdetectSetAllNeuronsHidden: (neurons: string[], hidden: boolean) => void;
+  // ── Extra detector sources (Project.extraDetectorSources) ──
+  /** Each extra source's data for the active track, in source order; null where it has no file. */
+  extraDetectorData: (BuzzdetectData | null)[];
+  detectorSourceThresholds: Record<string, Record<string, number>>;
+  setDetectorSourceThresholds: React.Dispatch<React.SetStateAction<Record<string, Record<string, number>>>>;
+  detectorSourceHiddenNeurons: Record<string, string[]>;
+  setDetectorSourceHiddenNeurons: React.Dispatch<React.SetStateAction<Record<string, string[]>>>;
+  handleSourceThresholdChange: (source: string, neuron: string, value: number) => void;
+  handleSourceToggleNeuron: (source: string, neuron: string, wasEnabled: boolean) => void;
+  handleSourceSetAllNeuronsHidden: (source: string, neurons: string[], hidden: boolean) => void;
 }
 
 export interface BuzzdetectParams {
@@ -51,8 +61,9 @@ export interface BuzzdetectParams {
  * Buzzdetect activations panel UI state. Holds the persisted UI fields
  * (enabled/thresholds/hiddenNeurons — still persisted by AnnotationWindow's
  * consolidated UI-persistence effect, which reads these returned values), the
- * transient panel height + loaded data, and the load effect that reads
- * activations by ident under the configured buzzdetect directory.
+ * transient panel height + loaded data, and the load effects that read
+ * activations by ident under the configured buzzdetect directory and each
+ * extra detector source.
  */
 export function useBuzzdetect({ project, ident, addLog }: BuzzdetectParams): BuzzdetectApi {
   // buzzdetect activations panel — UI fields persisted in uiSettings.
@@ -69,6 +80,9 @@ export function useBuzzdetect({ project, ident, addLog }: BuzzdetectParams): Buz
   const [buzzdetectMinDetectionRate, setBuzzdetectMinDetectionRate] = useState<number>(project.preferences.uiSettings?.buzzdetectMinDetectionRate ?? DEFAULT_BUZZDETECT_MIN_DETECTION_RATE);
   const [buzzdetectPanelHeight, setBuzzdetectPanelHeight] = useState(DEFAULT_BUZZDETECT_PANEL_HEIGHT);
   const [buzzdetectData, setBuzzdetectData] = useState<BuzzdetectData | null>(null);
+  const [extraDetectorData, setExtraDetectorData] = useState<(BuzzdetectData | null)[]>([]);
+  const [detectorSourceThresholds, setDetectorSourceThresholds] = useState<Record<string, Record<string, number>>>(project.preferences.uiSettings?.detectorSourceThresholds ?? {});
+  const [detectorSourceHiddenNeurons, setDetectorSourceHiddenNeurons] = useState<Record<string, string[]>>(project.preferences.uiSettings?.detectorSourceHiddenNeurons ?? {});
 
   // Load buzzdetect activations for the current track, located by ident under
   // the configured buzzdetect directory. `cancelled` guards against the track
@@ -78,11 +92,32 @@ export function useBuzzdetect({ project, ident, addLog }: BuzzdetectParams): Buz
     if (!dir || !ident) { setBuzzdetectData(null); return; }
     let cancelled = false;
     setBuzzdetectData(null);
-    readBuzzdetect(dir, ident, project.settings.buzzdetectFrameLength)
+    readDetectorOutput(dir, ident, project.settings.detectorFormat, project.settings.buzzdetectFrameLength)
       .then(d => { if (!cancelled) setBuzzdetectData(d); })
       .catch(err => { if (!cancelled) { setBuzzdetectData(null); addLog(`buzzdetect load error: ${err}`, 'error'); } });
     return () => { cancelled = true; };
-  }, [ident, project.buzzdetectDirectoryAbs, project.settings.buzzdetectFrameLength]); // eslint-disable-line react-hooks/exhaustive-deps
+  }, [ident, project.buzzdetectDirectoryAbs, project.settings.detectorFormat, project.settings.buzzdetectFrameLength]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  // The extra sources load the same way, side by side. One source failing
+  // leaves its lane empty rather than blanking the others. Keyed on what the
+  // sources read rather than the array, which buildProject rebuilds on every
+  // preferences save — the same reason the loader above keys on a string.
+  const extraSourcesKey = project.extraDetectorSources
+    .map(s => `${s.label}|${s.directoryAbs}|${s.format}`)
+    .join('\n');
+  useEffect(() => {
+    const sources = project.extraDetectorSources;
+    if (!ident || sources.length === 0) { setExtraDetectorData([]); return; }
+    let cancelled = false;
+    setExtraDetectorData(sources.map(() => null));
+    Promise.all(sources.map(s =>
+      readDetectorOutput(s.directoryAbs, ident, s.format, project.settings.buzzdetectFrameLength).catch(err => {
+        if (!cancelled) addLog(`detector source '${s.label}' load error: ${err}`, 'error');
+        return null;
+      }),
+    )).then(d => { if (!cancelled) setExtraDetectorData(d); });
+    return () => { cancelled = true; };
+  }, [ident, extraSourcesKey, project.settings.buzzdetectFrameLength]); // eslint-disable-line react-hooks/exhaustive-deps
 
   // buzzdetect panel callbacks.
   const handleBuzzdetectThresholdChange = useCallback((neuron: string, value: number) => {
@@ -107,6 +142,18 @@ export function useBuzzdetect({ project, ident, addLog }: BuzzdetectParams): Buz
   const handleBuzzdetectSetAllNeuronsHidden = useCallback((neurons: string[], hidden: boolean) => {
     setBuzzdetectHiddenNeurons(hidden ? neurons : []);
   }, []);
+  const handleSourceThresholdChange = useCallback((source: string, neuron: string, value: number) => {
+    setDetectorSourceThresholds(prev => ({ ...prev, [source]: { ...prev[source], [neuron]: value } }));
+  }, []);
+  const handleSourceToggleNeuron = useCallback((source: string, neuron: string, wasEnabled: boolean) => {
+    setDetectorSourceHiddenNeurons(prev => {
+      const hidden = prev[source] ?? [];
+      return { ...prev, [source]: wasEnabled ? [...hidden, neuron] : hidden.filter(n => n !== neuron) };
+    });
+  }, []);
+  const handleSourceSetAllNeuronsHidden = useCallback((source: string, neurons: string[], hidden: boolean) => {
+    setDetectorSourceHiddenNeurons(prev => ({ ...prev, [source]: hidden ? neurons : [] }));
+  }, []);
   const toggleBuzzdetectSubset = useCallback(() => {
     setBuzzdetectSubsetEnabled(prev => {
       if (!prev && buzzdetectSubsetNeurons.length === 0) return false;
@@ -143,5 +190,13 @@ export function useBuzzdetect({ project, ident, addLog }: BuzzdetectParams): Buz
     handleBuzzdetectToggleSubsetNeuron,
     toggleBuzzdetectSubset,
     handleBuzzdetectSetAllNeuronsHidden,
+    extraDetectorData,
+    detectorSourceThresholds,
+    setDetectorSourceThresholds,
+    detectorSourceHiddenNeurons,
+    setDetectorSourceHiddenNeurons,
+    handleSourceThresholdChange,
+    handleSourceToggleNeuron,
+    handleSourceSetAllNeuronsHidden,
   };
 }
@@ -1,9 +1,12 @@
 import React, { useCallback, useRef } from 'react';
 import { SpectrogramSettings } from '../types';
 import { drawSpectrogramChunk, sampleChunkColumnInto } from '../utils/audioProcessing';
+import { colormapLut } from '../utils/colormaps';
+import { freqBinCount } from '../utils/stftOptions';
 import { MultiTierSpectrogramCache } from '../MultiTierSpectrogramCache';
 import { resolveRenderCps } from '../utils/viewportTransform';
 import { Timeline, sourceRangesForDisplayRange } from '../utils/subsetTimeline';
+import { laneLayout } from '../utils/channelLanes';
 
 // TEMP DIAGNOSTIC — logs over-budget frames and attributes heavy full redraws so
 // we can tell a real playback hitch (dropped frame) from the sampling twinkle.
@@ -12,7 +15,9 @@ export const DIAG_FRAME_TIMING = false;
 
 
 export interface ChunkRendererParams {
-  chunkCache: MultiTierSpectrogramCache | null;
+  // One cache per lane, top to bottom: a single cache for the mixdown or one
+  // channel, one per channel for a stacked view. Empty while nothing is loaded.
+  chunkCaches: MultiTierSpectrogramCache[];
   sampleRate: number;
   cacheVersion: number;
   // Read live from a ref (not a prop) so `draw` doesn't recreate on every scroll
@@ -56,13 +61,18 @@ export interface ChunkRendererApi {
  * sub-pixel destination shift for smooth panning. Also reconciles the
  * build-progress veil via the `setIsBuilding` setter.
  *
+ * A stacked multi-channel view is the same pipeline run once per lane: each
+ * lane is a horizontal strip of the one offscreen buffer, filled from its own
+ * channel's cache, so the self-blit scrolls every lane at once and the lanes
+ * can never drift apart in time.
+ *
  * Pure extraction — no behavior or rendering-math change. The caller still owns
  * `drawRef`, the rAF loop, the dirty flags, the layout effects, and the
  * ResizeObserver; this hook only returns the `draw` function and owns the
  * reusable buffer pools and incremental-scroll state internally.
  */
 export function useChunkRenderer({
-  chunkCache,
+  chunkCaches,
   sampleRate,
   cacheVersion,
   scrollLeftRef,
@@ -88,11 +98,11 @@ export function useChunkRenderer({
   // Incremental-scroll state: tracks what the offscreen canvas last rendered so
   // draw() can shift it by columnsShifted and only paint the new right-edge columns.
   const prevBbStartColRef = useRef<number | null>(null);
-  // Identity of the cache the offscreen buffer was last built from. When the cache
-  // changes (track switch, FFT rebuild) the offscreen still holds the *previous*
-  // track's pixels; without this guard the incremental path would shift/re-blit
-  // those stale pixels instead of fully redrawing the new track.
-  const prevChunkCacheRef = useRef<MultiTierSpectrogramCache | null>(null);
+  // Identity of the caches the offscreen buffer was last built from. When they
+  // change (track switch, FFT rebuild, channel view) the offscreen still holds
+  // the *previous* pixels; without this guard the incremental path would
+  // shift/re-blit those stale pixels instead of fully redrawing.
+  const prevChunkCachesRef = useRef<MultiTierSpectrogramCache[]>([]);
   const prevDisplayFloorRef = useRef(settings.displayFloor);
   const prevDisplayCeilRef = useRef(settings.displayCeil);
   // Colormap-mapping settings: a change repaints every column (new freq remap or
@@ -100,6 +110,8 @@ export function useChunkRenderer({
   const prevMinFreqRef = useRef(settings.minFreq);
   const prevMaxFreqRef = useRef(settings.maxFreq);
   const prevFreqScaleRef = useRef(settings.frequencyScale);
+  // The palette itself (utils/colormaps LUTs are cached, so compared by identity).
+  const prevColorMapRef = useRef<Uint8ClampedArray | null>(null);
   // colsPerSec the offscreen grid was last built at. A tier change (zoom) remaps
   // every column, so it can't go incremental even if the buffer size coincides.
   const prevCpsRef = useRef<number>(-1);
@@ -107,14 +119,14 @@ export function useChunkRenderer({
   // arrived, so the scan must run even on the frame the viewport finishes resolving
   // (the chunk that completes it is the one that needs painting).
   const prevScanCacheVersionRef = useRef<number>(-1);
-  // Per-column tier record of the CURRENT offscreen buffer (length tracks bbWidth):
-  // 0 = column not painted (background), otherwise tier+1 of the chunk it was last
-  // painted from. Travels with the buffer — shifted in lockstep with the self-blit.
-  // Lets the incremental path repaint ONLY columns whose data arrived or resolved to
-  // a finer tier since last frame, instead of full-redrawing the whole buffer while
-  // the viewport is still building. Doubles as drawSpectrogramChunk's colMask
-  // (which treats 0 as unbuilt/transparent).
-  const offTierRef = useRef<Uint8Array>(new Uint8Array(0));
+  // Per-column tier record of the CURRENT offscreen buffer, one per lane (length
+  // tracks bbWidth): 0 = column not painted (background), otherwise tier+1 of the
+  // chunk it was last painted from. Travels with the buffer — shifted in lockstep
+  // with the self-blit. Lets the incremental path repaint ONLY columns whose data
+  // arrived or resolved to a finer tier since last frame, instead of
+  // full-redrawing the whole buffer while the viewport is still building. Doubles
+  // as drawSpectrogramChunk's colMask (which treats 0 as unbuilt/transparent).
+  const offTiersRef = useRef<Uint8Array[]>([]);
   // Tiny canvas for rendering 1-2 new columns per frame in the incremental path.
   const incrCanvasRef = useRef<HTMLCanvasElement | null>(null);
 
@@ -150,6 +162,7 @@ export function useChunkRenderer({
     // Recomputed below: true while the visible range is still being built.
     let building = false;
 
+    const chunkCache = chunkCaches.length > 0 ? chunkCaches[0] : null;
     if (chunkCache && duration > 0) {
         // ── Two-stage spectrogram rendering pipeline ────────────────────────
         // Stage 1 (THIS BLOCK): build a viewport buffer at exactly one column
@@ -176,7 +189,10 @@ export function useChunkRenderer({
         // formula. The drawImage destination math matches it exactly so the
         // spectrogram and overlays stay locked in time.
         const visibleDuration = endTime - startTime;
+        // Every lane's cache is built for the same file, so they share a tier
+        // ladder; each still runs selectTier to keep its hysteresis in step.
         const activeTier = chunkCache.selectTier(visibleDuration, cssWidth);
+        for (const laneCache of chunkCaches) if (laneCache !== chunkCache) laneCache.selectTier(visibleDuration, cssWidth);
         // What's on screen may be several disjoint stretches of the file (one
         // per subset span), so the cache is asked for each of them rather than
         // for the span between the first and the last — which under a sparse
@@ -185,17 +201,20 @@ export function useChunkRenderer({
         // asking range by range had every span but the last cancel the one
         // before it.
         const srcRanges = sourceRangesForDisplayRange(timeline, startTime, endTime);
-        chunkCache.prefetchRanges(srcRanges, activeTier.tier);
+        for (const laneCache of chunkCaches) laneCache.prefetchRanges(srcRanges, activeTier.tier);
 
         // "Building" = the visible range isn't yet fully resolved at the active
         // tier (so columns are missing or drawn blurry from a coarser fallback),
         // with in-flight fetches as a corroborating signal. Both probes are
         // read-only — they never mutate tier hysteresis or LRU order.
-        const allResolved = chunkCache.isViewportResolvedForRanges(srcRanges, activeTier.tier);
-        building = !allResolved && chunkCache.pendingCount() > 0;
+        const allResolved = chunkCaches.every(c => c.isViewportResolvedForRanges(srcRanges, activeTier.tier));
+        building = !allResolved && chunkCaches.some(c => c.pendingCount() > 0);
+
+        // Lanes in physical pixels — one strip of the offscreen buffer each.
+        const lanes = laneLayout(chunkCaches.map(c => c.channel), canvas.height);
 
         // Probe one chunk for nFreqBins (same as before).
-        let nFreqBins = settings.fftSize / 2;
+        let nFreqBins = freqBinCount(chunkCache.fftSize, chunkCache.stft.zeroPadding);
         {
           const probe = chunkCache.getChunkWithFallback(timeline.toSource(startTime), activeTier.tier);
           if (probe) nFreqBins = probe.chunk.nFreqBins;
@@ -233,12 +252,12 @@ export function useChunkRenderer({
         // byte (tier+1, 0 = no data) for offTier / drawSpectrogramChunk's
         // colMask. Shared by the incremental and full-redraw paths so the
         // sampling math lives in exactly one place.
-        const fillColumn = (absCol: number, dst: Uint16Array, dstOffset: number): number => {
+        const fillColumn = (laneCache: MultiTierSpectrogramCache, absCol: number, dst: Uint16Array, dstOffset: number): number => {
           if (absCol < 0) return 0;
           const dispT = absCol / cps;
           if (dispT >= duration) return 0;
           const t = timeline.toSource(dispT);
-          const result = chunkCache.getChunkWithFallback(t, activeTier.tier);
+          const result = laneCache.getChunkWithFallback(t, activeTier.tier);
           if (!result) return 0;
           const { chunk } = result;
           if (chunk.nCols === 0 || chunk.actualDurationSec <= 0) return 0;
@@ -279,15 +298,18 @@ export function useChunkRenderer({
         // Fall back to full redraw on: first call, seek, zoom/tier change, resize,
         // or when new chunk data arrived (cacheVersion changed).
         // Any colormap-mapping setting change (dBFS level→color range, frequency
-        // bounds, or frequency scale) repaints every column, so force a one-frame
-        // full redraw — the incremental path would otherwise leave interior columns
-        // rendered with the old mapping while only the edge picked up the new one.
+        // bounds, frequency scale, or the palette) repaints every column, so force a
+        // one-frame full redraw — the incremental path would otherwise leave interior
+        // columns rendered with the old mapping while only the edge picked up the new one.
+        const colorMap = colormapLut(settings.colormap, settings.customColormap);
         if (settings.displayFloor !== prevDisplayFloorRef.current ||
             settings.displayCeil !== prevDisplayCeilRef.current ||
             settings.minFreq !== prevMinFreqRef.current ||
             settings.maxFreq !== prevMaxFreqRef.current ||
-            settings.frequencyScale !== prevFreqScaleRef.current) {
+            settings.frequencyScale !== prevFreqScaleRef.current ||
+            colorMap !== prevColorMapRef.current) {
           prevBbStartColRef.current = null;
+          prevColorMapRef.current = colorMap;
           prevDisplayFloorRef.current = settings.displayFloor;
           prevDisplayCeilRef.current = settings.displayCeil;
           prevMinFreqRef.current = settings.minFreq;
@@ -298,8 +320,9 @@ export function useChunkRenderer({
         // A new cache (track switch / FFT rebuild) means the offscreen buffer holds
         // the previous track's pixels. Force a full redraw so the new track paints
         // from scratch rather than the incremental path scrolling stale content in.
-        if (chunkCache !== prevChunkCacheRef.current) {
-          prevChunkCacheRef.current = chunkCache;
+        const prevCaches = prevChunkCachesRef.current;
+        if (chunkCaches.length !== prevCaches.length || chunkCaches.some((c, i) => c !== prevCaches[i])) {
+          prevChunkCachesRef.current = chunkCaches;
           prevBbStartColRef.current = null;
         }
 
@@ -357,13 +380,16 @@ export function useChunkRenderer({
 
         offCtx.imageSmoothingEnabled = false;
 
-        // Per-column tier record for the current buffer (0 = unpainted, else tier+1).
-        // Grown to bbWidth; the full-redraw path rewrites it wholesale, the
-        // incremental path keeps it in sync as it shifts and repaints.
-        if (offTierRef.current.length < bbWidth) {
-          offTierRef.current = new Uint8Array(Math.ceil(bbWidth / 64) * 64);
+        // Per-lane column tier records for the current buffer (0 = unpainted, else
+        // tier+1). Grown to bbWidth; the full-redraw path rewrites them wholesale,
+        // the incremental path keeps them in sync as it shifts and repaints.
+        const offTiers = offTiersRef.current;
+        offTiers.length = lanes.length;
+        for (let l = 0; l < lanes.length; l++) {
+          if (!offTiers[l] || offTiers[l].length < bbWidth) {
+            offTiers[l] = new Uint8Array(Math.ceil(bbWidth / 64) * 64);
+          }
         }
-        const offTier = offTierRef.current;
 
         // Paint a contiguous run of offscreen columns [destStartCol, +count) from
         // current cache state: build their column data, colormap them on the
@@ -371,9 +397,11 @@ export function useChunkRenderer({
         // data read as background rather than stale pixels) and blit. Records each
         // column's source tier (tier+1, or 0 if no data) into offTier. Shared by the
         // new-edge render and the interior dirty-fill so the column-sampling math
-        // lives in exactly one place.
-        const paintColumns = (destStartCol: number, count: number) => {
+        // lives in exactly one place. Paints within lane `l` only.
+        const paintColumns = (l: number, destStartCol: number, count: number) => {
           if (count <= 0) return;
+          const lane = lanes[l];
+          const offTier = offTiers[l];
           const ivNeeded = count * nFreqBins;
           if (incrVdBuf.current.length < ivNeeded) {
             incrVdBuf.current = new Uint16Array(Math.ceil(count / 64) * 64 * nFreqBins);
@@ -388,7 +416,7 @@ export function useChunkRenderer({
           }
           const cb = incrCbBuf.current.subarray(0, count);
           for (let i = 0; i < count; i++) {
-            cb[i] = fillColumn(bbStartCol + destStartCol + i, vd, i * nFreqBins);
+            cb[i] = fillColumn(chunkCaches[l], bbStartCol + destStartCol + i, vd, i * nFreqBins);
           }
           if (!incrCanvasRef.current) incrCanvasRef.current = document.createElement('canvas');
           const incrCanvas = incrCanvasRef.current;
@@ -396,19 +424,20 @@ export function useChunkRenderer({
           // during steady playback where count is 1-2.
           const wantW = Math.ceil(count / 64) * 64;
           if (incrCanvas.width < wantW) incrCanvas.width = wantW;
-          if (incrCanvas.height !== offscreen.height) incrCanvas.height = offscreen.height;
+          if (incrCanvas.height !== lane.height) incrCanvas.height = lane.height;
           const incrCtx = incrCanvas.getContext('2d');
           if (!incrCtx) return;
           drawSpectrogramChunk(
             incrCtx, vd, count, nFreqBins,
-            count, offscreen.height,
+            count, lane.height,
             settings.minFreq, settings.maxFreq, sampleRate, settings.frequencyScale,
             settings.displayFloor, settings.displayCeil,
+            colorMap,
             cb,
           );
-          offCtx.clearRect(destStartCol, 0, count, offscreen.height);
-          offCtx.drawImage(incrCanvas, 0, 0, count, offscreen.height,
-                           destStartCol, 0, count, offscreen.height);
+          offCtx.clearRect(destStartCol, lane.top, count, lane.height);
+          offCtx.drawImage(incrCanvas, 0, 0, count, lane.height,
+                           destStartCol, lane.top, count, lane.height);
           for (let i = 0; i < count; i++) offTier[destStartCol + i] = cb[i];
         };
 
@@ -420,26 +449,29 @@ export function useChunkRenderer({
           //    the buffer is already correct and only the sub-pixel re-blit changes.
           if (columnsShifted > 0) {
             offCtx.drawImage(offscreen, -columnsShifted, 0);
-            offTier.copyWithin(0, columnsShifted, bbWidth);
-            offTier.fill(0, bbWidth - columnsShifted, bbWidth);
-            // The self-blit composites source-over, so source columns that carry
-            // no data (fully transparent) leave the destination's PREVIOUS pixels
-            // untouched instead of clearing them. Scrolling into a not-yet-fetched
-            // region therefore smears already-rendered content across it, which
-            // reads as duplicated chunks. offTier already records which columns
-            // should be blank, so clear those runs explicitly after the shift.
             const shiftedWidth = bbWidth - columnsShifted;
-            let blankStart = -1;
-            for (let i = 0; i <= shiftedWidth; i++) {
-              const blank = i < shiftedWidth && offTier[i] === 0;
-              if (blank) {
-                if (blankStart === -1) blankStart = i;
-              } else if (blankStart !== -1) {
-                offCtx.clearRect(blankStart, 0, i - blankStart, offscreen.height);
-                blankStart = -1;
+            for (let l = 0; l < lanes.length; l++) {
+              const offTier = offTiers[l];
+              offTier.copyWithin(0, columnsShifted, bbWidth);
+              offTier.fill(0, shiftedWidth, bbWidth);
+              // The self-blit composites source-over, so source columns that carry
+              // no data (fully transparent) leave the destination's PREVIOUS pixels
+              // untouched instead of clearing them. Scrolling into a not-yet-fetched
+              // region therefore smears already-rendered content across it, which
+              // reads as duplicated chunks. offTier already records which columns
+              // should be blank, so clear those runs explicitly after the shift.
+              let blankStart = -1;
+              for (let i = 0; i <= shiftedWidth; i++) {
+                const blank = i < shiftedWidth && offTier[i] === 0;
+                if (blank) {
+                  if (blankStart === -1) blankStart = i;
+                } else if (blankStart !== -1) {
+                  offCtx.clearRect(blankStart, lanes[l].top, i - blankStart, lanes[l].height);
+                  blankStart = -1;
+                }
               }
+              paintColumns(l, shiftedWidth, columnsShifted);
             }
-            paintColumns(shiftedWidth, columnsShifted);
           }
 
           // 2. Repaint interior columns whose data changed since last frame — newly
@@ -451,26 +483,29 @@ export function useChunkRenderer({
           //    edge render + re-blit. Columns are grouped into contiguous runs so each
           //    paint covers a span rather than one column at a time.
           if (!viewportResolved || dataChanged) {
-            let runStart = -1;
-            for (let i = 0; i <= bbWidth; i++) {
-              let dirty = false;
-              if (i < bbWidth) {
-                const absCol = bbStartCol + i;
-                let bestTier1 = 0;
-                if (absCol >= 0) {
-                  const dispT = absCol / cps;
-                  if (dispT < duration) {
-                    const r = chunkCache.getChunkWithFallback(timeline.toSource(dispT), activeTier.tier);
-                    if (r) bestTier1 = r.tier + 1;
+            for (let l = 0; l < lanes.length; l++) {
+              const offTier = offTiers[l];
+              let runStart = -1;
+              for (let i = 0; i <= bbWidth; i++) {
+                let dirty = false;
+                if (i < bbWidth) {
+                  const absCol = bbStartCol + i;
+                  let bestTier1 = 0;
+                  if (absCol >= 0) {
+                    const dispT = absCol / cps;
+                    if (dispT < duration) {
+                      const r = chunkCaches[l].getChunkWithFallback(timeline.toSource(dispT), activeTier.tier);
+                      if (r) bestTier1 = r.tier + 1;
+                    }
                   }
+                  dirty = bestTier1 !== offTier[i];
+                }
+                if (dirty) {
+                  if (runStart === -1) runStart = i;
+                } else if (runStart !== -1) {
+                  paintColumns(l, runStart, i - runStart);
+                  runStart = -1;
                 }
-                dirty = bestTier1 !== offTier[i];
-              }
-              if (dirty) {
-                if (runStart === -1) runStart = i;
-              } else if (runStart !== -1) {
-                paintColumns(runStart, i - runStart);
-                runStart = -1;
               }
             }
           }
@@ -492,19 +527,24 @@ export function useChunkRenderer({
           }
           const colBuilt = colBuiltBuf.current.subarray(0, bbWidth);
 
-          for (let i = 0; i < bbWidth; i++) {
-            colBuilt[i] = fillColumn(bbStartCol + i, viewportData, i * nFreqBins);
-          }
+          for (let l = 0; l < lanes.length; l++) {
+            if (l > 0) viewportData.fill(0);
+            for (let i = 0; i < bbWidth; i++) {
+              colBuilt[i] = fillColumn(chunkCaches[l], bbStartCol + i, viewportData, i * nFreqBins);
+            }
 
-          drawSpectrogramChunk(
-            offCtx, viewportData, bbWidth, nFreqBins,
-            offscreen.width, offscreen.height,
-            settings.minFreq, settings.maxFreq, sampleRate, settings.frequencyScale,
-            settings.displayFloor, settings.displayCeil,
-            colBuilt,
-          );
-          // Sync the persistent tier record to what was just painted.
-          offTier.set(colBuilt);
+            drawSpectrogramChunk(
+              offCtx, viewportData, bbWidth, nFreqBins,
+              offscreen.width, lanes[l].height,
+              settings.minFreq, settings.maxFreq, sampleRate, settings.frequencyScale,
+              settings.displayFloor, settings.displayCeil,
+              colorMap,
+              colBuilt,
+              lanes[l].top,
+            );
+            // Sync the persistent tier record to what was just painted.
+            offTiers[l].set(colBuilt);
+          }
         }
 
         prevBbStartColRef.current = bbStartCol;
@@ -527,6 +567,12 @@ export function useChunkRenderer({
         ctx.drawImage(offscreen, 0, 0, bbWidth, offscreen.height,
                       dxPhys, 0, bbWidth, canvas.height);
 
+        // Divider above every lane but the first of a stacked view.
+        if (lanes.length > 1) {
+          ctx.fillStyle = '#334155';
+          for (let l = 1; l < lanes.length; l++) ctx.fillRect(0, lanes[l].top - dpr, canvas.width, dpr);
+        }
+
         // Paint end-of-file region with the background color so it's distinct
         // from zero-value spectrogram data.
         const endXCss = Math.ceil((duration - startTime) * pixelsPerSecond);
@@ -567,7 +613,7 @@ export function useChunkRenderer({
         console.warn(`[frametiming] draw ${dur.toFixed(1)}ms`);
       }
     }
-  }, [chunkCache, sampleRate, cacheVersion, scrollLeftRef, pixelsPerSecondRef, pixelsPerSecondProp, duration, timeline, settings.fftSize, settings.minFreq, settings.maxFreq, settings.frequencyScale, settings.displayFloor, settings.displayCeil, isProcessing, canvasRef, offscreenCanvasRef, setIsBuilding]);
+  }, [chunkCaches, sampleRate, cacheVersion, scrollLeftRef, pixelsPerSecondRef, pixelsPerSecondProp, duration, timeline, settings.fftSize, settings.minFreq, settings.maxFreq, settings.frequencyScale, settings.displayFloor, settings.displayCeil, settings.colormap, settings.customColormap, isProcessing, canvasRef, offscreenCanvasRef, setIsBuilding]);
 
   return { draw };
 }
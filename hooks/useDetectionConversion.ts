@@ -0,0 +1,83 @@
+import { useCallback } from 'react';
+import { Annotation, AnnotationTool, Project } from '../types';
+import { DEFAULT_OUTPUT_ROUNDING_DECIMALS } from '../constants';
+import { defaultThresholdOf, readDetectorOutput } from '../utils/detectorOutput';
+import { persistAnnotations, readAnnotationsFile } from '../utils/annotationPersist';
+import {
+  DetectionConversionOptions, NeuronLabelMapping, addDetections, detectionsToAnnotations,
+} from '../utils/buzzdetectAnnotations';
+
+export interface DetectionConversionRequest {
+  /** Tracks to convert on; those without a buzzdetect file are skipped. */
+  tracks: string[];
+  mappings: NeuronLabelMapping[];
+  /** The panel's per-neuron thresholds. */
+  thresholds: Record<string, number>;
+  options: DetectionConversionOptions;
+}
+
+interface UseDetectionConversionArgs {
+  projectRef: React.MutableRefObject<Project>;
+  trackPathRef: React.MutableRefObject<string | null>;
+  /** The open track's live annotations, in source time. */
+  annotationsRef: React.MutableRefObject<Annotation[]>;
+  annotationToolsRef: React.MutableRefObject<AnnotationTool[]>;
+  getAnnotationPath: (trackFilePath: string) => string | null;
+  getIdent: (trackFilePath: string) => string | null;
+  // Live-track writes route through the shared commit path so undo history +
+  // auto-save apply; owned by AnnotationWindow (useAnnotationHistory).
+  handleAnnotationsCommit: (next: Annotation[]) => void;
+  setAnnotatedFiles: React.Dispatch<React.SetStateAction<Set<string>>>;
+  addLog: (msg: string, type?: 'info' | 'error') => void;
+}
+
+// Owns the write path for converting buzzdetect detections to annotations
+// (utils/buzzdetectAnnotations.ts), mirroring the import flow: the open track
+// goes through the commit path, so the conversion is one undo step there;
+// other tracks are read, extended and written straight to disk. Each track's
+// activations are read fresh from its CSV in source time, so a subset view of
+// the open track doesn't narrow what gets converted.
+export function useDetectionConversion({
+  projectRef,
+  trackPathRef,
+  annotationsRef,
+  annotationToolsRef,
+  getAnnotationPath,
+  getIdent,
+  handleAnnotationsCommit,
+  setAnnotatedFiles,
+  addLog,
+}: UseDetectionConversionArgs) {
+  const convertDetections = useCallback(async (
+    request: DetectionConversionRequest,
+  ): Promise<{ tracks: number; added: number }> => {
+    const project = projectRef.current;
+    const dir = project.buzzdetectDirectoryAbs;
+    if (!dir) return { tracks: 0, added: 0 };
+    const decimals = project.settings.outputRoundingDecimals ?? DEFAULT_OUTPUT_ROUNDING_DECIMALS;
+    let tracks = 0;
+    let added = 0;
+    for (const track of request.tracks) {
+      const ident = getIdent(track);
+      const annotPath = getAnnotationPath(track);
+      if (!ident || !annotPath) continue;
+      const data = await readDetectorOutput(dir, ident, project.settings.detectorFormat, project.settings.buzzdetectFrameLength);
+      if (!data) continue;
+      const thresholdOf = (n: string) => request.thresholds[n] ?? defaultThresholdOf(data);
+      const incoming = detectionsToAnnotations(data, request.mappings, thresholdOf, request.options);
+      const live = track === trackPathRef.current;
+      const existing = live ? annotationsRef.current : await readAnnotationsFile(annotPath, annotationToolsRef.current);
+      const result = addDetections(existing, incoming);
+      if (result.added === 0) continue;
+      if (live) handleAnnotationsCommit(result.annotations);
+      else await persistAnnotations(annotPath, result.annotations, decimals);
+      tracks++;
+      added += result.added;
+      setAnnotatedFiles(prev => (prev.has(track) ? prev : new Set(prev).add(track)));
+    }
+    addLog(`Converted buzzdetect detections: ${added} annotations on ${tracks} tracks`);
+    return { tracks, added };
+  }, [getAnnotationPath, getIdent, handleAnnotationsCommit]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  return { convertDetections };
+}
@@ -60,6 +60,10 @@ function keyMatches(e: KeyboardEvent, key: string): boolean {
   // e.key for digits to punctuation/symbols (e.g. Option+3 -> "£"), which
   // would break digit matching whenever the 'alt' mod is held.
   if (key === 'Digit') return /^Digit[0-9]$/.test(e.code);
+  // Same for a remapped Alt+digit or Alt+letter (utils/keymap.ts records
+  // those by physical key too).
+  if (e.altKey && /^[0-9]$/.test(key) && e.code === `Digit${key}`) return true;
+  if (e.altKey && /^[a-z]$/i.test(key) && e.code === `Key${key.toUpperCase()}`) return true;
   return e.key.toLowerCase() === key.toLowerCase();
 }
 
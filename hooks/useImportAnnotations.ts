@@ -1,8 +1,10 @@
 import { useState, useCallback } from 'react';
 import { Annotation } from '../types';
-import { openFileDialog, readTextFile, writeTextFile } from '../utils/tauriCommands';
-import { generateAudacityContent, mergeAnnotations, parseAudacityContent } from '../utils/helpers';
+import { openFileDialog, readTextFile } from '../utils/tauriCommands';
+import { mergeAnnotations, parseAudacityContent } from '../utils/helpers';
+import { persistAnnotations, readAnnotationsFile } from '../utils/annotationPersist';
 import { DEFAULT_OUTPUT_ROUNDING_DECIMALS } from '../constants';
+import { RavenLabelMapping, RavenTable, isRavenTable, parseRavenTable, ravenTableToAnnotations } from '../utils/ravenTable';
 
 interface UseImportAnnotationsArgs {
   annotationDirectory: string | null;
@@ -18,9 +20,11 @@ interface UseImportAnnotationsArgs {
   addLog: (msg: string, type?: 'info' | 'error') => void;
 }
 
-// Owns the import-annotations flow: the parse-error toast, the overwrite/merge
-// confirmation state, and the write path that mirrors auto-save (live track via
-// commit, other tracks straight to disk).
+// Owns the import-annotations flow: the parse-error toast, the Raven
+// column-mapping step, the overwrite/merge confirmation state, and the write
+// path that mirrors auto-save (live track via commit, other tracks straight to
+// disk). The source format is sniffed from content: a header naming Begin/End
+// Time is a Raven selection table, anything else is read as Audacity TXT.
 export function useImportAnnotations({
   annotationDirectory,
   currentDirectory,
@@ -43,6 +47,14 @@ export function useImportAnnotations({
     sourceName: string;
   } | null>(null);
 
+  // Pending Raven selection table, waiting on the user to choose which of its
+  // columns become the annotation label (see RavenImportModal).
+  const [pendingRavenImport, setPendingRavenImport] = useState<{
+    trackPath: string;
+    table: RavenTable;
+    sourceName: string;
+  } | null>(null);
+
   // Write `next` as the annotation file for `targetTrack`, mirroring auto-save.
   // If `targetTrack` is the currently-open track, also drive in-memory state so
   // the spectrogram updates live; otherwise just persist to disk.
@@ -54,7 +66,7 @@ export function useImportAnnotations({
       // Live track: route through commit so undo history + auto-save apply.
       handleAnnotationsCommit(next);
     } else {
-      await writeTextFile(annotPath, generateAudacityContent(next, decimals));
+      await persistAnnotations(annotPath, next, decimals);
     }
     setAnnotatedFiles(prev => {
       const updated = new Set(prev);
@@ -64,6 +76,20 @@ export function useImportAnnotations({
     });
   }, [getAnnotationPath, handleAnnotationsCommit]);
 
+  // Land parsed annotations on `targetTrack`: straight through when the track
+  // has none on disk, otherwise via the overwrite/merge confirmation.
+  const stageImport = useCallback(async (targetTrack: string, incoming: Annotation[], sourceName: string) => {
+    const annotPath = getAnnotationPath(targetTrack);
+    const existing = annotPath ? await readAnnotationsFile(annotPath, annotationToolsRef.current) : [];
+
+    if (existing.length > 0) {
+      setPendingImport({ trackPath: targetTrack, incoming, existing, sourceName });
+      return;
+    }
+    await writeAnnotationsForTrack(targetTrack, incoming);
+    addLog(`Imported ${incoming.length} annotations from ${sourceName}`);
+  }, [getAnnotationPath, writeAnnotationsForTrack]);
+
   const handleImportAnnotations = useCallback(async (targetTrack: string) => {
     addLog(`[import] triggered — annotationDirectory=${annotationDirectory ?? 'null'} currentDirectory=${currentDirectory ?? 'null'}`);
     if (!annotationDirectory || !currentDirectory) {
@@ -83,6 +109,16 @@ export function useImportAnnotations({
         return;
       }
       const sourceName = sourcePath.split(/[\\/]/).pop() ?? sourcePath;
+      if (isRavenTable(content)) {
+        const table = parseRavenTable(content);
+        addLog(`[import] Raven selection table: ${table?.rows.length ?? 0} selections`);
+        if (!table || table.rows.length === 0) {
+          setImportError(`"${sourceName}" is a Raven selection table with no selections.`);
+          return;
+        }
+        setPendingRavenImport({ trackPath: targetTrack, table, sourceName });
+        return;
+      }
       const incoming = parseAudacityContent(content, annotationToolsRef.current);
       addLog(`[import] parsed ${incoming.length} annotations`);
       if (incoming.length === 0) {
@@ -91,23 +127,25 @@ export function useImportAnnotations({
         return;
       }
 
-      // Read whatever is on disk for this track to decide whether to confirm.
-      const annotPath = getAnnotationPath(targetTrack);
-      const existingContent = annotPath ? await readTextFile(annotPath).catch(() => null) : null;
-      const existing = existingContent
-        ? parseAudacityContent(existingContent, annotationToolsRef.current)
-        : [];
+      await stageImport(targetTrack, incoming, sourceName);
+    } catch (err) {
+      addLog(`Import error: ${err}`, 'error');
+    }
+  }, [annotationDirectory, currentDirectory, stageImport]);
 
-      if (existing.length > 0) {
-        setPendingImport({ trackPath: targetTrack, incoming, existing, sourceName });
-        return;
-      }
-      await writeAnnotationsForTrack(targetTrack, incoming);
-      addLog(`Imported ${incoming.length} annotations from ${sourceName}`);
+  // Finish a Raven import once the label columns are chosen.
+  const resolveRavenImport = useCallback(async (mapping: RavenLabelMapping) => {
+    if (!pendingRavenImport) return;
+    const { trackPath: targetTrack, table, sourceName } = pendingRavenImport;
+    setPendingRavenImport(null);
+    try {
+      const incoming = ravenTableToAnnotations(table, mapping, annotationToolsRef.current);
+      addLog(`[import] mapped ${incoming.length} Raven selections using [${mapping.columns.join(', ')}]`);
+      await stageImport(targetTrack, incoming, sourceName);
     } catch (err) {
       addLog(`Import error: ${err}`, 'error');
     }
-  }, [annotationDirectory, currentDirectory, getAnnotationPath, writeAnnotationsForTrack]);
+  }, [pendingRavenImport, stageImport]);
 
   const resolveImport = useCallback(async (mode: 'overwrite' | 'merge') => {
     if (!pendingImport) return;
@@ -127,8 +165,11 @@ export function useImportAnnotations({
     setImportError,
     pendingImport,
     setPendingImport,
+    pendingRavenImport,
+    setPendingRavenImport,
     writeAnnotationsForTrack,
     handleImportAnnotations,
     resolveImport,
+    resolveRavenImport,
   };
 }
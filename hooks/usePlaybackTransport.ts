@@ -3,6 +3,7 @@ import { AudioEngine } from '../utils/AudioEngine';
 import { VideoElementEngine } from '../utils/VideoElementEngine';
 import { VideoFrameSource } from '../utils/VideoFrameSource';
 import { wantsCanvasRenderer } from '../utils/videoPlaybackMode';
+import { stepFrameTime } from '../utils/videoFrames';
 import { createCurrentTimeStore } from '../utils/currentTimeStore';
 import { SpectrogramHandle } from '../components/Spectrogram';
 import { Selection, VideoMode, PlaybackTransport } from '../types';
@@ -10,6 +11,8 @@ import { DEFAULT_UI_SETTINGS } from '../constants';
 import type { TimeDisplayUnit, ElapsedTimeDisplayUnit } from '../utils/helpers';
 import type { useExamplePlayer } from './useExamplePlayer';
 import { useHotkeys } from './useHotkeys';
+import { bindAction } from '../utils/keymap';
+import { useKeymap } from '../utils/keymapStore';
 
 interface UsePlaybackTransportArgs {
   project: { preferences: { uiSettings?: { volume?: number; playbackSpeed?: number; lastDefinedSpeed?: number; timeDisplayUnit?: TimeDisplayUnit; fallbackTimeDisplayUnit?: ElapsedTimeDisplayUnit } } };
@@ -226,7 +229,7 @@ export function usePlaybackTransport({
   // Whether the <video> element — not the AudioEngine — is the active transport:
   // true whenever VideoPane isn't actually rendering the canvas (Fast, Mixed
   // before a selection, or a canvas-wanting mode whose format has no
-  // VideoFrameSource, e.g. WEBM). Must mirror VideoPane's own canvas/element
+  // VideoFrameSource, e.g. no WebCodecs). Must mirror VideoPane's own canvas/element
   // choice via the shared `wantsCanvasRenderer` predicate — otherwise the
   // rendered element and the transport driving it can disagree, leaving the
   // <video> element mounted but never played/seeked (frozen on frame 1).
@@ -413,27 +416,34 @@ export function usePlaybackTransport({
     setIsBuffering(false);
   }, [videoMode, isAudioTrack, videoSrc, selection, usesVideoTransport]);
 
+  // Frame step: to the previous/next frame's own start time when the
+  // frame-accurate source has the track indexed, so the canvas lands on
+  // exactly that frame; otherwise a nominal frame's worth of time.
+  const stepFrame = (delta: number) => {
+    if (isAudioTrackRef.current) return;
+    const frames = frameSourceRef.current?.getFrameTimes();
+    if (frames && frames.starts.length > 0) {
+      seek(Math.min(durationRef.current, stepFrameTime(frames, currentTimeRef.current, delta)));
+      return;
+    }
+    const frameDuration = frameSourceRef.current?.getFrameDuration() ?? (1 / 30);
+    seek(Math.max(0, Math.min(durationRef.current, currentTimeRef.current + delta * frameDuration)));
+  };
+
+  const keymap = useKeymap();
   useHotkeys([
-    { key: 'ArrowLeft', handler: () => seek(Math.max(0, currentTimeRef.current - zoomSecRef.current * 0.1)) },
-    { key: 'ArrowRight', handler: () => seek(Math.min(durationRef.current, currentTimeRef.current + zoomSecRef.current * 0.1)) },
-    { key: ',', handler: () => {
-      if (isAudioTrackRef.current) return;
-      const frameDuration = frameSourceRef.current?.getFrameDuration() ?? (1 / 30);
-      seek(Math.max(0, currentTimeRef.current - frameDuration));
-    }},
-    { key: '.', handler: () => {
-      if (isAudioTrackRef.current) return;
-      const frameDuration = frameSourceRef.current?.getFrameDuration() ?? (1 / 30);
-      seek(Math.min(durationRef.current, currentTimeRef.current + frameDuration));
-    }},
-    { key: ' ', handler: togglePlay },
-    { key: 'r', handler: () => setPlaybackSpeed(playbackSpeed === 1 ? lastDefinedSpeed : 1) },
-    { key: 'm', handler: () => setMuted(prev => !prev), preventDefault: false },
-    { key: 'c', handler: () => {
+    ...bindAction(keymap, 'scrubBack', () => seek(Math.max(0, currentTimeRef.current - zoomSecRef.current * 0.1))),
+    ...bindAction(keymap, 'scrubForward', () => seek(Math.min(durationRef.current, currentTimeRef.current + zoomSecRef.current * 0.1))),
+    ...bindAction(keymap, 'frameBack', () => stepFrame(-1)),
+    ...bindAction(keymap, 'frameForward', () => stepFrame(1)),
+    ...bindAction(keymap, 'playPause', togglePlay),
+    ...bindAction(keymap, 'toggleSpeed', () => setPlaybackSpeed(playbackSpeed === 1 ? lastDefinedSpeed : 1)),
+    ...bindAction(keymap, 'toggleMute', () => setMuted(prev => !prev), { preventDefault: false }),
+    ...bindAction(keymap, 'togglePlayheadLock', () => {
         const willLock = !playheadLockedRef.current;
         setPlayheadLocked(willLock);
         if (willLock) spectrogramRef.current?.recenterPlayhead();
-    }},
+    }),
   ], enabled);
 
   return {
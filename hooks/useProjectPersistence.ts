@@ -1,5 +1,5 @@
 import { useEffect, useRef } from 'react';
-import { Project, ProjectPreferences, SpectrogramSettings, ProjectUiSettings, VideoMode, BuzzdetectSeriesMode } from '../types';
+import { Project, ProjectPreferences, SpectrogramSettings, ProjectUiSettings, VideoMode, BuzzdetectSeriesMode, LabelSubset } from '../types';
 import type { TimeDisplayUnit, ElapsedTimeDisplayUnit } from '../utils/helpers';
 
 interface UseProjectPersistenceArgs {
@@ -25,9 +25,18 @@ interface UseProjectPersistenceArgs {
   buzzdetectSubsetEnabled: boolean;
   buzzdetectSubsetNeurons: string[];
   buzzdetectMinDetectionRate: number;
+  detectorSourceThresholds: Record<string, Record<string, number>>;
+  detectorSourceHiddenNeurons: Record<string, string[]>;
+  labelSubsetEnabled: boolean;
+  labelSubset: LabelSubset | null;
+  annotationTableOpen: boolean;
+  powerSpectrumOpen: boolean;
+  reviewOpen: boolean;
+  agreementOpen: boolean;
   videoMode: VideoMode;
   videoBrightness: number;
   videoContrast: number;
+  snapToFrames: boolean;
   // Panel layout.
   playheadLocked: boolean;
   timeDisplayUnit: TimeDisplayUnit;
@@ -65,9 +74,18 @@ export function useProjectPersistence({
   buzzdetectSubsetEnabled,
   buzzdetectSubsetNeurons,
   buzzdetectMinDetectionRate,
+  detectorSourceThresholds,
+  detectorSourceHiddenNeurons,
+  labelSubsetEnabled,
+  labelSubset,
+  annotationTableOpen,
+  powerSpectrumOpen,
+  reviewOpen,
+  agreementOpen,
   videoMode,
   videoBrightness,
   videoContrast,
+  snapToFrames,
   playheadLocked,
   timeDisplayUnit,
   fallbackTimeDisplayUnit,
@@ -122,9 +140,18 @@ export function useProjectPersistence({
         buzzdetectSubsetEnabled,
         buzzdetectSubsetNeurons,
         buzzdetectMinDetectionRate,
+        detectorSourceThresholds,
+        detectorSourceHiddenNeurons,
+        labelSubsetEnabled,
+        labelSubset: labelSubset ?? undefined,
+        annotationTableOpen,
+        powerSpectrumOpen,
+        reviewOpen,
+        agreementOpen,
         videoMode,
         videoBrightness,
         videoContrast,
+        snapToFrames,
         playheadLocked,
         timeDisplayUnit,
         fallbackTimeDisplayUnit,
@@ -139,5 +166,5 @@ export function useProjectPersistence({
     return () => {
       if (uiPersistRef.current) clearTimeout(uiPersistRef.current);
     };
-  }, [volume, playbackSpeed, lastDefinedSpeed, zoomSec, trackPath, buzzdetectEnabled, buzzdetectThresholds, buzzdetectHiddenNeurons, buzzdetectNeuronColors, buzzdetectSeriesMode, buzzdetectBinWidthOverride, buzzdetectSubsetEnabled, buzzdetectSubsetNeurons, buzzdetectMinDetectionRate, videoMode, videoBrightness, videoContrast, playheadLocked, timeDisplayUnit, fallbackTimeDisplayUnit, filePanelCollapsed, videoCollapsed, splitRatio, leftPanelRatio, leftPanelWidth]);
+  }, [volume, playbackSpeed, lastDefinedSpeed, zoomSec, trackPath, buzzdetectEnabled, buzzdetectThresholds, buzzdetectHiddenNeurons, buzzdetectNeuronColors, buzzdetectSeriesMode, buzzdetectBinWidthOverride, buzzdetectSubsetEnabled, buzzdetectSubsetNeurons, buzzdetectMinDetectionRate, detectorSourceThresholds, detectorSourceHiddenNeurons, labelSubsetEnabled, labelSubset, annotationTableOpen, powerSpectrumOpen, reviewOpen, agreementOpen, videoMode, videoBrightness, videoContrast, snapToFrames, playheadLocked, timeDisplayUnit, fallbackTimeDisplayUnit, filePanelCollapsed, videoCollapsed, splitRatio, leftPanelRatio, leftPanelWidth]);
 }
@@ -1,12 +1,36 @@
 import React, { useRef, useEffect, useState, useCallback } from 'react';
 import { Annotation, SpectrogramSettings, AnnotationTool, Selection, BandPassFilter } from '../types';
-import { yToFreq } from '../utils/audioProcessing';
-import { makeAnnotationFromTool, clamp, updateAnnotation } from '../utils/helpers';
+import { Lane, annotationLaneIndex, laneIndexAtY, laneYToFreq } from '../utils/channelLanes';
+import { makeAnnotationFromTool, clamp, updateAnnotation, isBoxAnnotation } from '../utils/helpers';
+import { isMac } from '../utils/platform';
 import { xToTime, maxScroll as computeMaxScroll } from '../utils/viewportTransform';
 import { shouldPromoteDragIntent } from '../utils/dragIntent';
 import type { Timeline } from '../utils/subsetTimeline';
 import type { CurrentTimeStore } from '../utils/currentTimeStore';
 
+/** Which edge of an annotation a resize drags: a time edge, or (boxes only) a frequency edge. */
+export type AnnotationResizeSide = 'start' | 'end' | 'low' | 'high';
+
+/**
+ * An annotation being dragged out. `band` is present for a box (mod-drag): the
+ * container-y the drag began at and where it is now, converted to Hz on commit.
+ * `channel` is the channel of the lane the drag began in (null on a mixdown),
+ * which the new annotation is tagged with.
+ */
+export interface CreatingAnnotation {
+  start: number;
+  current: number;
+  band?: { y0: number; y1: number };
+  channel: number | null;
+}
+
+// Box-drawing modifier: ⌘ on macOS, Ctrl elsewhere (useHotkeys' 'mod').
+const isBoxModifier = (e: { metaKey: boolean; ctrlKey: boolean }): boolean => (isMac ? e.metaKey : e.ctrlKey);
+
+// Below this vertical extent (px) a mod-drag is treated as a plain time-band
+// annotation — a box that thin is almost certainly an unsteady hand.
+const MIN_BOX_HEIGHT_PX = 4;
+
 export interface SpectrogramInteractionParams {
   // Shared geometry refs/values owned by Spectrogram (scroll/zoom/render).
   containerRef: React.RefObject<HTMLDivElement>;
@@ -23,6 +47,13 @@ export interface SpectrogramInteractionParams {
   // them would name audio the user never saw. Identity when subset is off, and
   // then every clamp below is a no-op.
   timelineRef: React.MutableRefObject<Timeline>;
+  // "Snap to frames", read live: moves a SOURCE time to the nearest video
+  // frame boundary, or null while snapping is off.
+  snapTimeRef: React.MutableRefObject<((sourceTime: number) => number) | null>;
+  // Channel lanes in container px (utils/channelLanes), read live. Every
+  // y ↔ Hz conversion happens inside the lane the gesture began in, and a new
+  // annotation takes that lane's channel. Empty = one full-height mixdown lane.
+  lanesRef: React.MutableRefObject<Lane[]>;
   // Props / callbacks the interaction needs.
   annotations: Annotation[];
   selection: Selection | null;
@@ -53,7 +84,7 @@ export interface SpectrogramInteractionParams {
 
 export interface SpectrogramInteractionApi {
   // Interaction state (consumed by overlays / draw).
-  creatingAnnotation: { start: number; current: number } | null;
+  creatingAnnotation: CreatingAnnotation | null;
   creatingSelection: { start: number; current: number } | null;
   creatingFilter: { y0: number; y1: number } | null;
   dragStart: { x: number; scroll: number } | null;
@@ -62,7 +93,7 @@ export interface SpectrogramInteractionApi {
   clickDownRef: React.MutableRefObject<{ x: number; y: number; annotationId: string; pointerTime: number } | null>;
   playheadFollowsAnnotationStartRef: React.MutableRefObject<boolean>;
   // State setters exposed to overlays.
-  setResizingAnnotation: (v: { id: string; side: 'start' | 'end'; originalTime: number } | null) => void;
+  setResizingAnnotation: (v: { id: string; side: AnnotationResizeSide; originalTime: number } | null) => void;
   setResizingSelectionHandle: (v: 'start' | 'end' | null) => void;
   setResizingFilterEdge: (v: 'low' | 'high' | null) => void;
   // Handlers wired onto the container.
@@ -75,7 +106,8 @@ export interface SpectrogramInteractionApi {
 }
 
 /**
- * Owns the spectrogram's pointer-interaction core: annotation create/resize/drag,
+ * Owns the spectrogram's pointer-interaction core: annotation create/resize/drag
+ * (including box annotations — mod-drag to draw one, top/bottom edges to resize its band),
  * selection create/resize, band-pass filter create/resize, click-vs-drag
  * detection, the pending drag-intent refs, the out-of-bounds auto-pan rAF loop,
  * and the window-level mouseup / mousemove handlers.
@@ -98,6 +130,8 @@ export function useSpectrogramInteraction({
   pixelsPerSecond,
   duration,
   timelineRef,
+  snapTimeRef,
+  lanesRef,
   annotations,
   selection,
   boundAnnotationId,
@@ -123,8 +157,8 @@ export function useSpectrogramInteraction({
   const [dragStart, setDragStart] = useState<{ x: number; scroll: number } | null>(null);
 
   // Interaction State (annotations — only when activeAnnotationTool !== null)
-  const [creatingAnnotation, setCreatingAnnotation] = useState<{ start: number; current: number } | null>(null);
-  const [resizingAnnotation, setResizingAnnotation] = useState<{ id: string; side: 'start' | 'end'; originalTime: number } | null>(null);
+  const [creatingAnnotation, setCreatingAnnotation] = useState<CreatingAnnotation | null>(null);
+  const [resizingAnnotation, setResizingAnnotation] = useState<{ id: string; side: AnnotationResizeSide; originalTime: number } | null>(null);
   const [draggedAnnotation, setDraggedAnnotation] = useState<{ id: string; startOffset: number } | null>(null);
 
   // Selection Mode interaction state
@@ -144,7 +178,9 @@ export function useSpectrogramInteraction({
   // shouldPromoteDragIntent says the pointer has moved far enough or been held long enough.
   // Using refs (not state) so no re-render/gray-out happens until the threshold is crossed.
   const pendingSelectionRef = useRef<{ start: number; startX: number; startTime: number } | null>(null);
-  const pendingAnnotationRef = useRef<{ start: number; startX: number; startTime: number; quiet: boolean } | null>(null);
+  // `boxY` is the container-y of a mod-drag (box) start, null for a time band;
+  // `channel` is the channel of the lane it started in.
+  const pendingAnnotationRef = useRef<{ start: number; startX: number; startTime: number; quiet: boolean; boxY: number | null; channel: number | null } | null>(null);
 
   const pendingAnnotationsRef = useRef<Annotation[]>(annotations);
 
@@ -160,6 +196,7 @@ export function useSpectrogramInteraction({
   const selectionRef = useRef(selection);
   const onSelectionChangeRef = useRef(onSelectionChange);
   const onAnnotationsChangeRef = useRef(onAnnotationsChange);
+  const settingsRef = useRef(settings);
   const mousePosRef = useRef<{ clientX: number; clientY: number } | null>(null);
   // Set to true at drag/resize initiation when the playhead is within 0.5s of
   // the annotation start, so the playhead follows the start for the whole gesture.
@@ -182,6 +219,7 @@ export function useSpectrogramInteraction({
   selectionRef.current = selection;
   onSelectionChangeRef.current = onSelectionChange;
   onAnnotationsChangeRef.current = onAnnotationsChange;
+  settingsRef.current = settings;
 
   // --- Interaction Handlers ---
 
@@ -198,9 +236,12 @@ export function useSpectrogramInteraction({
   // Shared: create an annotation from the active tool, commit it, and enter annotation-bound selection state.
   // `quiet` (Alt-drag) commits the annotation without selecting it, moving the
   // selection, or touching the playhead, so annotating never disturbs an in-progress listen.
-  const commitNewAnnotation = useCallback((start: number, end: number, quiet = false) => {
+  // `band` (Hz) makes the new annotation a box; `channel` tags it with the
+  // channel it was drawn on.
+  const commitNewAnnotation = useCallback((start: number, end: number, quiet = false, band?: { lowFreq: number; highFreq: number }, channel: number | null = null) => {
     if (!activeAnnotationTool) return;
-    const newAnnotation = makeAnnotationFromTool(activeAnnotationTool, start, end);
+    const drawn = makeAnnotationFromTool(activeAnnotationTool, start, end, band);
+    const newAnnotation = channel !== null ? { ...drawn, attributes: { channel } } : drawn;
     onAnnotationsCommit([...annotations, newAnnotation]);
     if (quiet) return;
     onSelectAnnotation(newAnnotation.id);
@@ -209,12 +250,64 @@ export function useSpectrogramInteraction({
     snapPlayheadIfOutside(start, end);
   }, [activeAnnotationTool, annotations, onAnnotationsCommit, onSelectAnnotation, onBoundAnnotationChange, onSelectionChange, snapPlayheadIfOutside]);
 
+  // Container-local y of a client y, clamped to the spectrogram's height.
+  const localYOf = useCallback((clientY: number): number => {
+    const container = containerRef.current;
+    if (!container) return 0;
+    return clamp(clientY - container.getBoundingClientRect().top, 0, container.clientHeight);
+  }, []);
+
+  // The lane under a container-local y: the whole height unless the view is stacked.
+  const laneAtY = useCallback((y: number): Lane => {
+    const lanes = lanesRef.current;
+    if (lanes.length === 0) return { top: 0, height: containerRef.current?.clientHeight ?? 0, channel: null };
+    return lanes[laneIndexAtY(lanes, y)];
+  }, []);
+
+  // Frequency (Hz) under a container-local y, on the live display scale,
+  // measured in the lane containing `laneY` (by default the lane under y itself).
+  const freqAtY = useCallback((y: number, laneY: number = y): number => {
+    const st = settingsRef.current;
+    return laneYToFreq(laneAtY(laneY), y, st.minFreq, st.maxFreq, st.frequencyScale);
+  }, [laneAtY]);
+
+  // Where a vertical drag that began at y0 has reached: the pointer's y, held
+  // inside the lane the drag began in so a box or filter band never crosses
+  // into another channel.
+  const dragYInLane = useCallback((y0: number, clientY: number): number => {
+    const lane = laneAtY(y0);
+    return clamp(localYOf(clientY), lane.top, lane.top + lane.height);
+  }, [laneAtY, localYOf]);
+
+  // Move one frequency edge of a box, keeping at least 1 Hz between the edges
+  // and the band inside the displayed range. Time bands pass through.
+  const resizeBand = useCallback((a: Annotation, side: 'low' | 'high', y: number): Annotation => {
+    if (!isBoxAnnotation(a)) return a;
+    const st = settingsRef.current;
+    const laneIndex = annotationLaneIndex(a, lanesRef.current);
+    const lane = laneIndex !== null ? lanesRef.current[laneIndex] : laneAtY(y);
+    const freq = laneYToFreq(lane, y, st.minFreq, st.maxFreq, st.frequencyScale);
+    if (side === 'high') return { ...a, highFreq: Math.min(st.maxFreq, Math.max(freq, a.lowFreq + 1)) };
+    return { ...a, lowFreq: Math.max(st.minFreq, Math.min(freq, a.highFreq - 1)) };
+  }, [laneAtY]);
+
+  // With "snap to frames" on, every time read off the pointer lands on a video
+  // frame boundary, so an edge drawn, resized or clicked is a frame edge. The
+  // frames are positions in the file, so the snap runs in source time.
+  // Off → the time, unchanged.
+  const snapToFrame = useCallback((t: number) => {
+    const snap = snapTimeRef.current;
+    if (!snap) return t;
+    const tl = timelineRef.current;
+    return clamp(tl.toDisplay(snap(tl.toSource(t))), 0, durationRef.current);
+  }, []);
+
   const getPointerTime = (e: React.MouseEvent) => {
     if (!containerRef.current) return 0;
     const rect = containerRef.current.getBoundingClientRect();
     const x = e.clientX - rect.left;
     const t = xToTime(x, scrollLeft, pixelsPerSecond);
-    return clamp(t, 0, duration);
+    return snapToFrame(clamp(t, 0, duration));
   };
 
   // Every drag is anchored somewhere — where it began, or the edge that isn't
@@ -233,15 +326,20 @@ export function useSpectrogramInteraction({
   const processDragAtClientX = useCallback((clientX: number) => {
     if (!containerRef.current) return;
     const rect = containerRef.current.getBoundingClientRect();
-    const rawT = clamp(
+    const rawT = snapToFrame(clamp(
       xToTime(clientX - rect.left, scrollLeftRef.current, pixelsPerSecondRef.current),
       0,
       durationRef.current,
-    );
+    ));
     const held = (anchor: number) => holdInSpan(anchor, rawT);
 
     const ca = creatingAnnotationRef.current;
-    if (ca) { setCreatingAnnotation({ ...ca, current: held(ca.start) }); return; }
+    if (ca) {
+      const pos = mousePosRef.current;
+      const band = ca.band && pos ? { ...ca.band, y1: dragYInLane(ca.band.y0, pos.clientY) } : ca.band;
+      setCreatingAnnotation({ ...ca, current: held(ca.start), band });
+      return;
+    }
 
     const cs = creatingSelectionRef.current;
     if (cs) {
@@ -255,7 +353,9 @@ export function useSpectrogramInteraction({
 
     const ra = resizingAnnotationRef.current;
     if (ra) {
+      const pos = mousePosRef.current;
       const updated = updateAnnotation(annotationsRef.current, ra.id, a => {
+        if (ra.side === 'low' || ra.side === 'high') return pos ? resizeBand(a, ra.side, localYOf(pos.clientY)) : a;
         // Anchored on the edge that isn't moving.
         if (ra.side === 'start') return { ...a, start: Math.min(held(a.end), a.end - 0.05) };
         return { ...a, end: Math.max(held(a.start), a.start + 0.05) };
@@ -278,7 +378,9 @@ export function useSpectrogramInteraction({
         const tl = timelineRef.current;
         const spanEnd = tl.clampToSpanOfDisplay(a.start, durationRef.current);
         const spanStart = tl.clampToSpanOfDisplay(a.start, 0);
-        const newStart = clamp(held(a.start) - da.startOffset, spanStart, Math.max(spanStart, spanEnd - dur));
+        // The pointer's offset into the annotation needn't be a whole number of
+        // frames, so the start is snapped itself.
+        const newStart = clamp(snapToFrame(held(a.start) - da.startOffset), spanStart, Math.max(spanStart, spanEnd - dur));
         return { ...a, start: newStart, end: newStart + dur };
       });
       pendingAnnotationsRef.current = updated;
@@ -337,7 +439,7 @@ export function useSpectrogramInteraction({
       const localY = clamp(e.clientY - rect.top, 0, canvasHeight);
 
       if (resizingFilterEdge !== null && bandPassFilter) {
-        const freq = yToFreq(localY, canvasHeight, settings.minFreq, settings.maxFreq, settings.frequencyScale);
+        const freq = freqAtY(localY);
         if (resizingFilterEdge === 'low') {
           const newLow = Math.min(freq, bandPassFilter.high - 1);
           onBandPassFilterChange({ ...bandPassFilter, low: Math.max(settings.minFreq, newLow) });
@@ -346,12 +448,12 @@ export function useSpectrogramInteraction({
           onBandPassFilterChange({ ...bandPassFilter, high: Math.min(settings.maxFreq, newHigh) });
         }
       } else if (creatingFilter !== null) {
-        setCreatingFilter({ ...creatingFilter, y1: localY });
+        setCreatingFilter({ ...creatingFilter, y1: dragYInLane(creatingFilter.y0, e.clientY) });
       }
     };
     window.addEventListener('mousemove', onMove);
     return () => window.removeEventListener('mousemove', onMove);
-  }, [isFilterDragActive, creatingFilter, resizingFilterEdge, bandPassFilter, settings.minFreq, settings.maxFreq, settings.frequencyScale, onBandPassFilterChange]);
+  }, [isFilterDragActive, creatingFilter, resizingFilterEdge, bandPassFilter, settings.minFreq, settings.maxFreq, settings.frequencyScale, onBandPassFilterChange, freqAtY, dragYInLane]);
 
   // Re-sync pendingAnnotationsRef when the annotations prop changes externally (e.g. undo/redo).
   // If a drag is in flight, discard any pending edit — the undo intentionally rewinds state.
@@ -501,9 +603,14 @@ export function useSpectrogramInteraction({
       // Alt/Option: annotate-only mode. Drag out an annotation without seeking the
       // playhead, clearing the selection, or changing what's selected — so you can
       // keep listening while marking the sounds you just heard.
+      // Mod (⌘/Ctrl): the annotation is a box — the drag's vertical extent
+      // becomes its frequency band. Combines with Alt.
+      const boxY = activeAnnotationTool !== null && isBoxModifier(e) ? localYOf(e.clientY) : null;
+      const channel = laneAtY(localYOf(e.clientY)).channel;
+
       if (e.altKey) {
         if (activeAnnotationTool === null) return;
-        pendingAnnotationRef.current = { start: t, startX: e.clientX, startTime: Date.now(), quiet: true };
+        pendingAnnotationRef.current = { start: t, startX: e.clientX, startTime: Date.now(), quiet: true, boxY, channel };
         return;
       }
 
@@ -516,7 +623,7 @@ export function useSpectrogramInteraction({
           if (activeAnnotationTool === null) {
             onSelectionChange({ start: selStart, end: selEnd });
           } else {
-            commitNewAnnotation(selStart, selEnd);
+            commitNewAnnotation(selStart, selEnd, false, undefined, channel);
           }
         }
         return;
@@ -528,7 +635,7 @@ export function useSpectrogramInteraction({
         if (activeAnnotationTool === null) {
           pendingSelectionRef.current = { start: t, startX: e.clientX, startTime: Date.now() };
         } else {
-          pendingAnnotationRef.current = { start: t, startX: e.clientX, startTime: Date.now(), quiet: false };
+          pendingAnnotationRef.current = { start: t, startX: e.clientX, startTime: Date.now(), quiet: false, boxY, channel };
         }
         return;
       }
@@ -541,7 +648,7 @@ export function useSpectrogramInteraction({
       if (activeAnnotationTool === null) {
         pendingSelectionRef.current = { start: t, startX: e.clientX, startTime: Date.now() };
       } else {
-        pendingAnnotationRef.current = { start: t, startX: e.clientX, startTime: Date.now(), quiet: false };
+        pendingAnnotationRef.current = { start: t, startX: e.clientX, startTime: Date.now(), quiet: false, boxY, channel };
       }
     }
     // Annotation center clicks are handled in the annotation onMouseDown handler
@@ -565,10 +672,7 @@ export function useSpectrogramInteraction({
     }
 
     if (resizingFilterEdge !== null && bandPassFilter) {
-      const canvasHeight = containerRef.current?.clientHeight ?? 0;
-      const rectY = containerRef.current?.getBoundingClientRect().top ?? 0;
-      const localY = clamp(e.clientY - rectY, 0, canvasHeight);
-      const freq = yToFreq(localY, canvasHeight, settings.minFreq, settings.maxFreq, settings.frequencyScale);
+      const freq = freqAtY(localYOf(e.clientY));
       if (resizingFilterEdge === 'low') {
         const newLow = Math.min(freq, bandPassFilter.high - 1);
         onBandPassFilterChange({ ...bandPassFilter, low: Math.max(settings.minFreq, newLow) });
@@ -580,10 +684,7 @@ export function useSpectrogramInteraction({
     }
 
     if (creatingFilter !== null) {
-      const rectY = containerRef.current?.getBoundingClientRect().top ?? 0;
-      const canvasHeight = containerRef.current?.clientHeight ?? 0;
-      const y = clamp(e.clientY - rectY, 0, canvasHeight);
-      setCreatingFilter({ ...creatingFilter, y1: y });
+      setCreatingFilter({ ...creatingFilter, y1: dragYInLane(creatingFilter.y0, e.clientY) });
       return;
     }
 
@@ -623,7 +724,13 @@ export function useSpectrogramInteraction({
           onBoundAnnotationChange(null);
           onSelectionChange(null);
         }
-        setCreatingAnnotation({ start: pendingAnnotationRef.current.start, current: holdInSpan(pendingAnnotationRef.current.start, t) });
+        const { start, boxY, channel } = pendingAnnotationRef.current;
+        setCreatingAnnotation({
+          start,
+          current: holdInSpan(start, t),
+          band: boxY !== null ? { y0: boxY, y1: dragYInLane(boxY, e.clientY) } : undefined,
+          channel,
+        });
         pendingAnnotationRef.current = null;
       }
       return;
@@ -641,7 +748,8 @@ export function useSpectrogramInteraction({
     }
 
     if (creatingAnnotation) {
-      setCreatingAnnotation({ ...creatingAnnotation, current: holdInSpan(creatingAnnotation.start, t) });
+      const band = creatingAnnotation.band && { ...creatingAnnotation.band, y1: dragYInLane(creatingAnnotation.band.y0, e.clientY) };
+      setCreatingAnnotation({ ...creatingAnnotation, current: holdInSpan(creatingAnnotation.start, t), band });
       return;
     }
 
@@ -654,6 +762,14 @@ export function useSpectrogramInteraction({
       return;
     }
 
+    if (resizingAnnotation && (resizingAnnotation.side === 'low' || resizingAnnotation.side === 'high')) {
+      const side = resizingAnnotation.side;
+      const updated = updateAnnotation(annotations, resizingAnnotation.id, a => resizeBand(a, side, localYOf(e.clientY)));
+      pendingAnnotationsRef.current = updated;
+      onAnnotationsChange(updated);
+      return;
+    }
+
     if (resizingAnnotation) {
       const updated = updateAnnotation(annotations, resizingAnnotation.id, a => {
         // Anchored on the edge that isn't moving.
@@ -676,7 +792,7 @@ export function useSpectrogramInteraction({
        const viewRight = (scrollLeftRef.current + (containerRef.current?.clientWidth ?? 0)) / pps;
        const updated = updateAnnotation(annotations, draggedAnnotation.id, a => {
            const dur = a.end - a.start;
-           const desired = holdInSpan(a.start, t) - draggedAnnotation.startOffset;
+           const desired = snapToFrame(holdInSpan(a.start, t) - draggedAnnotation.startOffset);
            // Clamp so neither edge exits the visible viewport (auto-pan handles
            // scrolling) — or the span it's in, so a move can't carry it across a
            // subset cut into audio it was never over.
@@ -729,8 +845,8 @@ export function useSpectrogramInteraction({
       const yTop = Math.min(creatingFilter.y0, creatingFilter.y1);
       const yBottom = Math.max(creatingFilter.y0, creatingFilter.y1);
       if (yBottom - yTop > 5 && canvasHeight > 0) {
-        const high = yToFreq(yTop, canvasHeight, settings.minFreq, settings.maxFreq, settings.frequencyScale);
-        const low = yToFreq(yBottom, canvasHeight, settings.minFreq, settings.maxFreq, settings.frequencyScale);
+        const high = freqAtY(yTop, creatingFilter.y0);
+        const low = freqAtY(yBottom, creatingFilter.y0);
         // Fresh drag → auto-engage filtering and push the `filterBand` stack
         // entry. Pure edit-in-place geometry (cutoff resize) still uses
         // onBandPassFilterChange and does NOT touch the stack.
@@ -759,10 +875,15 @@ export function useSpectrogramInteraction({
       const start = Math.min(creatingAnnotation.start, creatingAnnotation.current);
       const end = Math.max(creatingAnnotation.start, creatingAnnotation.current);
       if (end > start && activeAnnotationTool !== null) {
+        const b = creatingAnnotation.band;
+        const band = b && Math.abs(b.y1 - b.y0) >= MIN_BOX_HEIGHT_PX
+          // y grows downward, so the upper edge is the higher frequency.
+          ? { lowFreq: freqAtY(Math.max(b.y0, b.y1), b.y0), highFreq: freqAtY(Math.min(b.y0, b.y1), b.y0) }
+          : undefined;
         // Read Alt live (not the quiet flag captured at mousedown/drag-start) so
         // toggling Alt after the drag began still lands correctly: Alt down by
         // release suppresses the highlight, Alt released by then re-enables it.
-        commitNewAnnotation(start, end, isAltHeldRef.current);
+        commitNewAnnotation(start, end, isAltHeldRef.current, band, creatingAnnotation.channel);
       }
       setCreatingAnnotation(null);
     }
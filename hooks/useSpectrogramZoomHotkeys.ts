@@ -1,5 +1,7 @@
 import React from 'react';
 import { useHotkeys } from './useHotkeys';
+import { bindAction } from '../utils/keymap';
+import { useKeymap } from '../utils/keymapStore';
 import { SpectrogramHandle } from '../components/Spectrogram';
 
 interface UseSpectrogramZoomHotkeysArgs {
@@ -27,11 +29,11 @@ export function useSpectrogramZoomHotkeys({
   getViewportStartTime = () => 0,
   enabled = true,
 }: UseSpectrogramZoomHotkeysArgs): void {
+  const keymap = useKeymap();
   useHotkeys([
-    { key: '=', mods: ['mod'], handler: () => { spectrogramRef.current?.zoomIn(); preZoomExtentRef.current = null; } },
-    { key: '+', mods: ['mod', 'shift'], handler: () => { spectrogramRef.current?.zoomIn(); preZoomExtentRef.current = null; } },
-    { key: '-', mods: ['mod'], handler: () => { spectrogramRef.current?.zoomOut(); preZoomExtentRef.current = null; } },
-    { key: '0', mods: ['mod'], handler: () => {
+    ...bindAction(keymap, 'zoomIn', () => { spectrogramRef.current?.zoomIn(); preZoomExtentRef.current = null; }),
+    ...bindAction(keymap, 'zoomOut', () => { spectrogramRef.current?.zoomOut(); preZoomExtentRef.current = null; }),
+    ...bindAction(keymap, 'zoomFit', () => {
         const dur = durationRef.current;
         if (!dur) return;
         const startTime = getViewportStartTime();
@@ -44,6 +46,6 @@ export function useSpectrogramZoomHotkeys({
           preZoomExtentRef.current = { startTime, endTime: startTime + zoomSecRef.current };
           spectrogramRef.current?.zoomToRange(0, dur);
         }
-    }},
+    }),
   ], enabled);
 }
@@ -4,6 +4,7 @@ import { syncProject, pullProject, getLocalSyncStatus, fetchRemoteStatus, type S
 import { readSyncToken } from '../utils/gitSync';
 import { persistAnnotations } from '../utils/annotationPersist';
 import { generateAudacityContent } from '../utils/helpers';
+import { generateAttributesContent } from '../utils/annotationAttributes';
 import { DEFAULT_OUTPUT_ROUNDING_DECIMALS, DEFAULT_AUTO_PULL_REMOTE_CHANGES } from '../constants';
 
 // The exact annotation state flushed/committed at sync start, used as the
@@ -12,6 +13,9 @@ import { DEFAULT_OUTPUT_ROUNDING_DECIMALS, DEFAULT_AUTO_PULL_REMOTE_CHANGES } fr
 export interface PreSyncSnapshot {
   trackPath: string | null;
   content: string;
+  // The attributes sidecar's content at the same moment (see
+  // utils/annotationAttributes.ts), merged alongside `content`.
+  attrsContent: string;
 }
 
 interface UseSyncManagementArgs {
@@ -102,6 +106,7 @@ export function useSyncManagement({
     preSyncSnapshotRef.current = {
       trackPath,
       content: generateAudacityContent(annotations, decimals),
+      attrsContent: generateAttributesContent(annotations, decimals),
     };
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [annotations]);
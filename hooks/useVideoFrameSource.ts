@@ -1,6 +1,5 @@
 import { useState, useRef, useEffect, useCallback } from 'react';
 import { VideoFrameSource, canUseFrameSource } from '../utils/VideoFrameSource';
-import { toAssetUrl } from '../utils/tauriCommands';
 import { VideoMode, Selection } from '../types';
 
 interface UseVideoFrameSourceArgs {
@@ -14,7 +13,7 @@ interface UseVideoFrameSourceArgs {
   addLog: (msg: string, type?: 'info' | 'error') => void;
 }
 
-// Owns the VideoFrameSource lifecycle for frame-perfect MP4/MOV playback: the
+// Owns the VideoFrameSource lifecycle for frame-perfect video playback: the
 // source handle ref, its rolling-prefetch bookkeeping refs, the version counter
 // that re-renders the video pane on create/teardown, the pre-roll helper, and
 // the unmount + videoMode-change effects. The frame source itself is held in a
@@ -32,9 +31,9 @@ export function useVideoFrameSource({
   selectionRef,
   addLog,
 }: UseVideoFrameSourceArgs) {
-  // VideoFrameSource for frame-perfect playback on MP4/MOV video tracks.
-  // When non-null, CanvasVideoPlayer drives the display; the <video> element
-  // is not used. For audio tracks or non-ISOBMFF containers, this stays null
+  // VideoFrameSource for frame-perfect playback on MP4/MOV/WebM/MKV video
+  // tracks. When non-null, CanvasVideoPlayer drives the display; the <video>
+  // element is not used. For audio tracks or other containers, this stays null
   // and we fall back to the legacy <video>-based path.
   const frameSourceRef = useRef<VideoFrameSource | null>(null);
   // Rolling prefetch state for the frame-source path. Tracks how far ahead
@@ -86,7 +85,6 @@ export function useVideoFrameSource({
     const has = !!frameSourceRef.current;
 
     if (wantsFrameSource && !has) {
-      const url = toAssetUrl(trackPath);
       const expectedTrack = trackPath;
       setFrameSourceDecodeError(false);
       (async () => {
@@ -97,7 +95,7 @@ export function useVideoFrameSource({
               if (trackPathRef.current === expectedTrack) setFrameSourceDecodeError(true);
             },
           });
-          await source.open(url);
+          await source.open(trackPath);
           if (trackPathRef.current !== expectedTrack) { source.close(); return; }
           frameSourceRef.current = source;
           setFrameSourceVersion(v => v + 1);
@@ -812,6 +812,18 @@ pub fn decode_audio_range(
 /// positioned at the range start — a pooled stream that forward-seeked instead
 /// of re-opening the file — read through the same code path.
 pub fn read_mono_range(stream: &mut PcmStream, duration_sec: f64) -> (Vec<f32>, u32) {
+    read_channel_range(stream, duration_sec, None)
+}
+
+/// Like `read_mono_range`, but `channel` picks a single channel instead of the
+/// average of all of them. `None` (or a channel the file doesn't have) mixes
+/// down, so a stale channel choice degrades to the mono view rather than
+/// erroring.
+pub fn read_channel_range(
+    stream: &mut PcmStream,
+    duration_sec: f64,
+    channel: Option<u16>,
+) -> (Vec<f32>, u32) {
     let sample_rate = stream.sample_rate();
     let ch = stream.channels().max(1) as usize;
     let target_frames = (duration_sec * sample_rate as f64).ceil() as usize;
@@ -826,17 +838,28 @@ pub fn read_mono_range(stream: &mut PcmStream, duration_sec: f64) -> (Vec<f32>,
         if frames_read == 0 {
             break;
         }
-        // Mix down to mono by averaging all channels.
         for frame in 0..frames_read {
+            output.push(frame_sample(&interleaved, frame, ch, channel));
+        }
+    }
+
+    (output, sample_rate)
+}
+
+/// One frame of interleaved `ch`-channel audio as a single sample: channel
+/// `channel` when the file has it, otherwise the average of all channels.
+pub fn frame_sample(interleaved: &[f32], frame: usize, ch: usize, channel: Option<u16>) -> f32 {
+    let base = frame * ch;
+    match channel {
+        Some(c) if (c as usize) < ch => interleaved[base + c as usize],
+        _ => {
             let mut sum = 0.0f32;
             for c in 0..ch {
-                sum += interleaved[frame * ch + c];
+                sum += interleaved[base + c];
             }
-            output.push(sum / ch as f32);
+            sum / ch as f32
         }
     }
-
-    (output, sample_rate)
 }
 
 // ── Tests ─────────────────────────────────────────────────────────────────────
@@ -188,7 +188,7 @@ fn resolve_dir() -> Result<PathBuf, String> {
             .find(|d| dir_has_both(d) && dir_works(d))
             .ok_or_else(|| {
                 "ffmpeg not found — install ffmpeg (e.g. `brew install ffmpeg`) or set a \
-                 custom location in Application Settings to open .wma files."
+                 custom location in Application Settings to open .wma files or export clips."
                     .to_string()
             }),
     };
@@ -222,6 +222,44 @@ fn ffmpeg_available() -> Result<()> {
     resolve_dir().map(|_| ()).map_err(|e| anyhow::anyhow!(e))
 }
 
+// ── Clip export ───────────────────────────────────────────────────────────────
+
+/// Write `start_sec..end_sec` of `input` (video and, if present, audio) to
+/// `output`, re-encoded with whatever encoders ffmpeg defaults to for the
+/// output's container. Re-encoding rather than stream-copying is what makes
+/// the cut land on the requested frame instead of the nearest keyframe before
+/// it; a clip is seconds long, so the cost is small.
+///
+/// Same binary as the `.wma` backend — the user configures one ffmpeg.
+pub fn export_clip(input: &str, output: &str, start_sec: f64, end_sec: f64) -> Result<()> {
+    ffmpeg_available()?;
+    if !(start_sec.is_finite() && end_sec.is_finite() && end_sec > start_sec) {
+        return Err(anyhow::anyhow!("Invalid clip range {start_sec}..{end_sec}"));
+    }
+
+    // `-ss` before `-i` seeks the input (fast, and frame-accurate when
+    // re-encoding); `-t` then bounds the output duration.
+    let out = Command::new(resolve_bin("ffmpeg"))
+        .args(["-v", "error", "-nostdin", "-y"])
+        .args(["-ss", &start_sec.to_string()])
+        .arg("-i")
+        .arg(input)
+        .args(["-t", &(end_sec - start_sec).to_string()])
+        .args(["-map", "0:v:0", "-map", "0:a?", "-sn", "-dn"])
+        .arg(output)
+        .stdin(Stdio::null())
+        .output()
+        .with_context(|| format!("Failed to run ffmpeg on {input}"))?;
+
+    if !out.status.success() {
+        return Err(anyhow::anyhow!(
+            "ffmpeg failed to export a clip of {input}: {}",
+            String::from_utf8_lossy(&out.stderr).trim()
+        ));
+    }
+    Ok(())
+}
+
 // ── Seek strategy: read forward vs. respawn ───────────────────────────────────
 //
 // A forward seek can be served two ways: read and discard the gap on the
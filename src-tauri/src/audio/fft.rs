@@ -3,30 +3,119 @@ use rayon::prelude::*;
 use std::collections::HashMap;
 use std::f32::consts::PI;
 use std::sync::{Arc, Mutex};
+use serde::Deserialize;
+
+/// Taper applied to each analysis window before the FFT.
+#[derive(Clone, Copy, Debug, Default, PartialEq, Eq, Hash, Deserialize)]
+#[serde(rename_all = "camelCase")]
+pub enum WindowFunction {
+    #[default]
+    Hann,
+    Hamming,
+    /// 4-term Blackman-Harris: very low sidelobes, wide main lobe.
+    BlackmanHarris,
+    /// Gaussian with σ = 0.4 of the half-window (Audacity's a = 2.5).
+    Gaussian,
+}
+
+impl WindowFunction {
+    /// Symmetric (N-1) coefficients — matches the JS frontend in audioProcessing.ts
+    /// which uses `(2 * PI * i) / (fftSize - 1)`. Do NOT switch to periodic (N)
+    /// form without updating the JS side to match.
+    fn coefficients(self, len: usize) -> Vec<f32> {
+        let denom = (len.max(2) - 1) as f32;
+        (0..len)
+            .map(|i| {
+                let x = 2.0 * PI * i as f32 / denom;
+                match self {
+                    WindowFunction::Hann => 0.5 * (1.0 - x.cos()),
+                    WindowFunction::Hamming => 0.54 - 0.46 * x.cos(),
+                    WindowFunction::BlackmanHarris => {
+                        0.35875 - 0.48829 * x.cos() + 0.14128 * (2.0 * x).cos()
+                            - 0.01168 * (3.0 * x).cos()
+                    }
+                    WindowFunction::Gaussian => {
+                        let half = denom / 2.0;
+                        let z = (i as f32 - half) / (0.4 * half);
+                        (-0.5 * z * z).exp()
+                    }
+                }
+            })
+            .collect()
+    }
 
-/// Per-`fft_size` cache: (FFT plan, Hann window coefficients).
-/// Both are pure functions of `fft_size`, so we compute them once and reuse.
-/// The `FftPlanner` and its output plans are `Send + Sync`, making a global
-/// `Mutex<HashMap>` safe from any thread.
-static FFT_CACHE: std::sync::OnceLock<Mutex<HashMap<usize, (Arc<dyn Fft<f32>>, Vec<f32>)>>> =
+    /// Coherent (DC) gain used to normalize a full-scale sine to 0 dBFS. For
+    /// the cosine-sum windows this is the a0 term — exactly 0.5 for Hann, which
+    /// keeps the default output identical to the pre-window-choice code.
+    fn coherent_gain(self, coefficients: &[f32]) -> f32 {
+        match self {
+            WindowFunction::Hann => 0.5,
+            WindowFunction::Hamming => 0.54,
+            WindowFunction::BlackmanHarris => 0.35875,
+            WindowFunction::Gaussian => {
+                coefficients.iter().sum::<f32>() / coefficients.len().max(1) as f32
+            }
+        }
+    }
+}
+
+/// Per-column analysis choices beyond window length and hop. The default
+/// (Hann, no zero-padding) is what every caller got before these were
+/// selectable.
+#[derive(Clone, Copy, Debug, PartialEq, Eq, Deserialize)]
+pub struct StftOptions {
+    #[serde(default)]
+    pub window: WindowFunction,
+    /// FFT length as a multiple of the window length. Interpolates the
+    /// spectrum onto `zero_padding`× as many bins; it adds no resolution.
+    #[serde(default = "default_zero_padding")]
+    pub zero_padding: usize,
+}
+
+fn default_zero_padding() -> usize {
+    1
+}
+
+impl Default for StftOptions {
+    fn default() -> Self {
+        StftOptions { window: WindowFunction::Hann, zero_padding: 1 }
+    }
+}
+
+impl StftOptions {
+    /// FFT length for a `window_len`-sample window (padding clamped to 1..=16).
+    pub fn fft_len(&self, window_len: usize) -> usize {
+        window_len * self.zero_padding.clamp(1, 16)
+    }
+
+    /// Frequency bins per column for a `window_len`-sample window.
+    pub fn n_freq_bins(&self, window_len: usize) -> usize {
+        self.fft_len(window_len) / 2
+    }
+}
+
+type FftEntry = (Arc<dyn Fft<f32>>, Vec<f32>, f32);
+
+/// Cache keyed by (fft length, window length, window function): the FFT plan,
+/// the window coefficients and their coherent gain. All are pure functions of
+/// the key, so we compute them once and reuse. The `FftPlanner` and its output
+/// plans are `Send + Sync`, making a global `Mutex<HashMap>` safe from any thread.
+static FFT_CACHE: std::sync::OnceLock<Mutex<HashMap<(usize, usize, WindowFunction), FftEntry>>> =
     std::sync::OnceLock::new();
 
-fn get_fft_and_window(fft_size: usize) -> (Arc<dyn Fft<f32>>, Vec<f32>) {
+fn get_fft_and_window(fft_len: usize, window_len: usize, window_fn: WindowFunction) -> FftEntry {
     let cache = FFT_CACHE.get_or_init(|| Mutex::new(HashMap::new()));
     let mut map = cache.lock().unwrap();
-    if let Some(entry) = map.get(&fft_size) {
+    let key = (fft_len, window_len, window_fn);
+    if let Some(entry) = map.get(&key) {
         return entry.clone();
     }
     let mut planner = FftPlanner::<f32>::new();
-    let fft = planner.plan_fft_forward(fft_size);
-    // Symmetric (N-1) Hann window — matches the JS frontend in audioProcessing.ts
-    // which uses `(2 * PI * i) / (fftSize - 1)`. Do NOT switch to periodic (N)
-    // form without updating the JS side to match.
-    let window: Vec<f32> = (0..fft_size)
-        .map(|i| 0.5 * (1.0 - (2.0 * PI * i as f32 / (fft_size - 1) as f32).cos()))
-        .collect();
-    let entry = (fft, window);
-    map.insert(fft_size, entry.clone());
+    let fft = planner.plan_fft_forward(fft_len);
+    let window = window_fn.coefficients(window_len);
+    let gain = window_fn.coherent_gain(&window);
+    let entry = (fft, window, gain);
+    map.insert(key, entry.clone());
     entry
 }
 
@@ -41,8 +130,26 @@ fn get_fft_and_window(fft_size: usize) -> (Arc<dyn Fft<f32>>, Vec<f32>) {
 ///   mag_norm  = mag * 4 / fft_size           (Hanning coherent amplitude gain → 0 dBFS = 0 dB)
 ///   val       = 20 * log10(mag_norm + 1e-6)
 ///             = 10 * log10(mag_norm² + 1e-12) (dBFS)  — the form actually evaluated
+///
+/// Hann window, no zero-padding; see `compute_stft_with` for the other choices.
 pub fn compute_stft(samples: &[f32], fft_size: usize, hop_size: usize) -> Vec<u16> {
-    let n_freq_bins = fft_size / 2;
+    compute_stft_with(samples, fft_size, hop_size, StftOptions::default())
+}
+
+/// `compute_stft` with a chosen window function and zero-padding. `fft_size`
+/// is the window length; the transform runs over `options.fft_len(fft_size)`
+/// samples (the window followed by zeros), so each column has
+/// `options.n_freq_bins(fft_size)` bins. The amplitude normalization divides by
+/// the window's coherent gain instead of Hann's fixed 0.5, so a full-scale sine
+/// reads 0 dBFS whichever window is chosen.
+pub fn compute_stft_with(
+    samples: &[f32],
+    fft_size: usize,
+    hop_size: usize,
+    options: StftOptions,
+) -> Vec<u16> {
+    let fft_len = options.fft_len(fft_size);
+    let n_freq_bins = fft_len / 2;
 
     if samples.len() < fft_size {
         return Vec::new();
@@ -54,14 +161,15 @@ pub fn compute_stft(samples: &[f32], fft_size: usize, hop_size: usize) -> Vec<u1
 
     let mut output = vec![0u16; n_cols * n_freq_bins];
 
-    let (fft, window) = get_fft_and_window(fft_size);
+    let (fft, window, gain) = get_fft_and_window(fft_len, fft_size, options.window);
     let scratch_len = fft.get_outofplace_scratch_len();
 
-    // dBFS = 20*log10(mag_norm) = 10*log10(mag_norm²), where mag_norm = mag*4/fft_size.
+    // dBFS = 20*log10(mag_norm) = 10*log10(mag_norm²), where
+    // mag_norm = mag * 2 / (fft_size * gain) — 4/fft_size for Hann.
     // Pre-square the amplitude-normalization constant so we never take a sqrt:
-    // mag_norm² = (re²+im²) * (4/fft_size)². The +1e-12 floor is the square of the
+    // mag_norm² = (re²+im²) * (2/(fft_size*gain))². The +1e-12 floor is the square of the
     // old +1e-6 amplitude floor, so silence still maps to −120 dBFS.
-    let norm_sq = (4.0 / fft_size as f32).powi(2);
+    let norm_sq = (2.0 / (fft_size as f32 * gain)).powi(2);
 
     // Columns are fully independent: each reads samples[start..start+fft_size] and
     // writes only its own n_freq_bins slice of `output`. Parallelize across cores
@@ -74,15 +182,16 @@ pub fn compute_stft(samples: &[f32], fft_size: usize, hop_size: usize) -> Vec<u1
         .for_each_init(
             || {
                 (
-                    vec![Complex::new(0.0f32, 0.0f32); fft_size],   // buf_in
-                    vec![Complex::new(0.0f32, 0.0f32); fft_size],   // buf_out
+                    vec![Complex::new(0.0f32, 0.0f32); fft_len],    // buf_in (tail stays zero)
+                    vec![Complex::new(0.0f32, 0.0f32); fft_len],    // buf_out
                     vec![Complex::new(0.0f32, 0.0f32); scratch_len], // scratch
                 )
             },
             |(buf_in, buf_out, scratch), (col, out_col)| {
                 let start = col * hop_size;
 
-                // Apply Hanning window
+                // Apply the window; buf_in[fft_size..] is the zero-padding and
+                // is never written.
                 for i in 0..fft_size {
                     buf_in[i] = Complex::new(samples[start + i] * window[i], 0.0);
                 }
@@ -278,4 +387,48 @@ mod tests {
         let b = compute_stft(&samples, fft_size, hop_size);
         assert_eq!(a, b, "STFT output must be bit-identical across runs");
     }
+
+    /// Zero-padding multiplies the bin count but keeps the column count, and a
+    /// tone still lands on the bin for its frequency.
+    #[test]
+    fn zero_padding_interpolates_bins() {
+        let fft_size = 1024usize;
+        let hop_size = 512usize;
+        let sr = 44100.0f32;
+        let samples: Vec<f32> = (0..fft_size * 3)
+            .map(|i| 0.5 * (2.0 * PI * 1000.0 * i as f32 / sr).sin())
+            .collect();
+        let opts = StftOptions { window: WindowFunction::Hann, zero_padding: 4 };
+        let plain = compute_stft(&samples, fft_size, hop_size);
+        let padded = compute_stft_with(&samples, fft_size, hop_size, opts);
+        let bins = opts.n_freq_bins(fft_size);
+        assert_eq!(bins, fft_size * 2);
+        assert_eq!(padded.len() / bins, plain.len() / (fft_size / 2));
+        let expected = (1000.0 / sr * opts.fft_len(fft_size) as f32).round() as usize;
+        let peak = argmax_bin(&padded, 0, bins);
+        assert!((peak as isize - expected as isize).abs() <= 1, "peak {peak}, expected {expected}");
+    }
+
+    /// Every window normalizes a full-scale sine to about 0 dBFS.
+    #[test]
+    fn windows_normalize_a_sine_to_full_scale() {
+        let fft_size = 2048usize;
+        let sr = 48000.0f32;
+        // Bin-centred tone, so scalloping doesn't enter into it.
+        let freq = 64.0 * sr / fft_size as f32;
+        let samples: Vec<f32> = (0..fft_size)
+            .map(|i| (2.0 * PI * freq * i as f32 / sr).sin())
+            .collect();
+        for window in [
+            WindowFunction::Hann,
+            WindowFunction::Hamming,
+            WindowFunction::BlackmanHarris,
+            WindowFunction::Gaussian,
+        ] {
+            let out = compute_stft_with(&samples, fft_size, fft_size, StftOptions { window, zero_padding: 1 });
+            let peak = bin_at(&out, 0, 64, fft_size / 2);
+            let db = peak as f32 / 65535.0 * 140.0 - 140.0;
+            assert!(db.abs() < 0.5, "{window:?} peak at {db} dBFS");
+        }
+    }
 }
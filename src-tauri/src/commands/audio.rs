@@ -99,6 +99,24 @@ pub async fn detect_ffmpeg() -> Result<Option<String>, String> {
     Ok(crate::audio::ffmpeg_stream::detected_ffmpeg_path())
 }
 
+/// Export `start_sec..end_sec` of a video (with its audio) to `output_path`
+/// through the same ffmpeg binary (see `audio::ffmpeg_stream::export_clip`).
+/// Runs off the async runtime: ffmpeg takes a while even for a short clip.
+#[tauri::command]
+pub async fn export_video_clip(
+    path: String,
+    output_path: String,
+    start_sec: f64,
+    end_sec: f64,
+) -> Result<(), String> {
+    tokio::task::spawn_blocking(move || {
+        crate::audio::ffmpeg_stream::export_clip(&path, &output_path, start_sec, end_sec)
+            .map_err(|e| e.to_string())
+    })
+    .await
+    .map_err(|e| format!("clip export task failed: {e}"))?
+}
+
 // ── Peak amplitude (for loudness normalization) ────────────────────────────────
 
 /// Peak absolute sample amplitude of the whole file, on the mono mixdown (the
@@ -135,6 +153,12 @@ pub struct SpectrogramChunkRequest {
     pub duration_sec: f64,
     pub fft_size: usize,
     pub hop_size: usize,
+    /// Channel to analyse; None mixes all channels down to mono.
+    #[serde(default)]
+    pub channel: Option<u16>,
+    /// Window function and zero-padding; absent = Hann, unpadded.
+    #[serde(default)]
+    pub stft: fft::StftOptions,
 }
 
 /// Encode spectrogram metadata + u16 data into a binary blob for IPC.
@@ -238,6 +262,8 @@ fn coarse_columns(
     fft_size: usize,
     sample_rate: u32,
     seek_first: bool,
+    channel: Option<u16>,
+    stft: fft::StftOptions,
 ) {
     let ch = stream.channels().max(1) as usize;
     // Audio each column summarizes: exactly one FFT window.
@@ -253,7 +279,7 @@ fn coarse_columns(
             }
         }
 
-        // Read this column's span, mixing down to mono.
+        // Read this column's span, as the chosen channel or a mono mixdown.
         let mut filled = 0usize;
         while filled < pool_frames {
             let (interleaved, frames_read) = match stream.read(pool_frames - filled) {
@@ -264,11 +290,7 @@ fn coarse_columns(
                 break; // EOF — partial span; the guard below handles it
             }
             for frame in 0..frames_read {
-                let mut sum = 0.0f32;
-                for c in 0..ch {
-                    sum += interleaved[frame * ch + c];
-                }
-                mono[filled + frame] = sum / ch as f32;
+                mono[filled + frame] = decoder::frame_sample(&interleaved, frame, ch, channel);
             }
             filled += frames_read;
         }
@@ -278,7 +300,7 @@ fn coarse_columns(
             continue;
         }
 
-        let window = fft::compute_stft(&mono[..fft_size], fft_size, fft_size);
+        let window = fft::compute_stft_with(&mono[..fft_size], fft_size, fft_size, stft);
         let dst = &mut output[col * n_freq_bins..(col + 1) * n_freq_bins];
         dst.copy_from_slice(&window[..n_freq_bins]);
     }
@@ -292,7 +314,7 @@ fn coarse_columns(
 fn compute_spectrogram_chunk(req: &SpectrogramChunkRequest) -> Result<Vec<u8>, String> {
     let info = decoder::get_file_info(&req.path).map_err(|e| e.to_string())?;
     let sample_rate = info.sample_rate;
-    let n_freq_bins = req.fft_size / 2;
+    let n_freq_bins = req.stft.n_freq_bins(req.fft_size);
 
     // For very large hop sizes (coarse overview tiers), use a sampled approach:
     // seek to each column position and pool a short span there instead of
@@ -308,7 +330,7 @@ fn compute_spectrogram_chunk(req: &SpectrogramChunkRequest) -> Result<Vec<u8>, S
         if let Ok(mut stream) = stream_pool::acquire(&req.path, req.start_sec, COARSE_SEEK_MARGIN_SEC) {
             coarse_columns(
                 &mut stream, &mut output, n_cols, n_freq_bins,
-                req.start_sec, req.hop_size, req.fft_size, sample_rate, false,
+                req.start_sec, req.hop_size, req.fft_size, sample_rate, false, req.channel, req.stft,
             );
         }
 
@@ -368,7 +390,7 @@ fn compute_spectrogram_chunk(req: &SpectrogramChunkRequest) -> Result<Vec<u8>, S
         let mut stream =
             stream_pool::acquire(&req.path, decode_start, decoder::DEFAULT_SEEK_MARGIN_SEC)
                 .map_err(|e| e.to_string())?;
-        let (samples, _) = decoder::read_mono_range(&mut stream, decode_duration);
+        let (samples, _) = decoder::read_channel_range(&mut stream, decode_duration, req.channel);
         samples
     };
 
@@ -387,7 +409,7 @@ fn compute_spectrogram_chunk(req: &SpectrogramChunkRequest) -> Result<Vec<u8>, S
     // is unaffected and the extra column is never rendered.
     samples.resize(samples.len() + half_window, 0.0);
 
-    let data = fft::compute_stft(&samples, req.fft_size, req.hop_size);
+    let data = fft::compute_stft_with(&samples, req.fft_size, req.hop_size, req.stft);
     let n_cols = if n_freq_bins > 0 { data.len() / n_freq_bins } else { 0 };
     let actual_duration_sec = n_cols as f64 * req.hop_size as f64 / sample_rate as f64;
 
@@ -410,6 +432,12 @@ pub struct SpectrogramRangeRequest {
     pub chunk_duration: f64,
     pub fft_size: usize,
     pub hop_size: usize,
+    /// Channel to analyse; None mixes all channels down to mono.
+    #[serde(default)]
+    pub channel: Option<u16>,
+    /// Window function and zero-padding; absent = Hann, unpadded.
+    #[serde(default)]
+    pub stft: fft::StftOptions,
 }
 
 /// Prefix a chunk blob with its grid index so the receiver can place it without
@@ -427,7 +455,7 @@ fn compute_spectrogram_range(
 ) -> Result<(), String> {
     let info = decoder::get_file_info(&req.path).map_err(|e| e.to_string())?;
     let sample_rate = info.sample_rate;
-    let n_freq_bins = req.fft_size / 2;
+    let n_freq_bins = req.stft.n_freq_bins(req.fft_size);
 
     let chunk_start = |i: u32| (req.first_chunk_index + i) as f64 * req.chunk_duration;
 
@@ -446,6 +474,8 @@ fn compute_spectrogram_range(
                 duration_sec: req.chunk_duration,
                 fft_size: req.fft_size,
                 hop_size: req.hop_size,
+                channel: req.channel,
+                stft: req.stft,
             })?;
             on_chunk
                 .send(InvokeResponseBody::Raw(build_range_message(
@@ -481,7 +511,7 @@ fn compute_spectrogram_range(
         // the stream at chunk 0's start.
         coarse_columns(
             &mut stream, &mut output, n_cols, n_freq_bins,
-            start_sec, req.hop_size, req.fft_size, sample_rate, i > 0,
+            start_sec, req.hop_size, req.fft_size, sample_rate, i > 0, req.channel, req.stft,
         );
         let bytes = build_spectrogram_response(
             n_cols, n_freq_bins, start_sec, actual_duration_sec, sample_rate, &output,
@@ -677,6 +707,8 @@ mod coarse_bench {
                         duration_sec: chunk_duration,
                         fft_size: 2048,
                         hop_size: hop,
+                        channel: None,
+                        stft: fft::StftOptions::default(),
                     });
                 });
             }
@@ -695,7 +727,7 @@ mod coarse_bench {
             let mut output = vec![0u16; n_cols * n_freq_bins];
             coarse_columns(
                 &mut stream, &mut output, n_cols, n_freq_bins,
-                start_sec, hop, 2048, info.sample_rate, i > 0,
+                start_sec, hop, 2048, info.sample_rate, i > 0, None, fft::StftOptions::default(),
             );
         }
         println!("single forward walk ({n_chunks} chunks): {:?}", t.elapsed());
@@ -718,7 +750,7 @@ mod coarse_bench {
                             let mut output = vec![0u16; n_cols * 1024];
                             coarse_columns(
                                 &mut stream, &mut output, n_cols, 1024,
-                                start_sec, hop, 2048, info.sample_rate, i > 0,
+                                start_sec, hop, 2048, info.sample_rate, i > 0, None, fft::StftOptions::default(),
                             );
                         }
                     });
@@ -749,6 +781,8 @@ mod coarse_bench {
                 duration_sec: chunk_duration,
                 fft_size: 2048,
                 hop_size: hop,
+                channel: None,
+                stft: fft::StftOptions::default(),
             }).expect("chunk");
             println!("  fine chunk @ {start:8.0}s: {:?}", t.elapsed());
         }
@@ -770,6 +804,8 @@ mod coarse_bench {
                     duration_sec: chunk_duration,
                     fft_size: 2048,
                     hop_size: hop,
+                    channel: None,
+                    stft: fft::StftOptions::default(),
                 }).expect("chunk");
             }
             let el = t.elapsed();
@@ -789,6 +825,8 @@ mod coarse_bench {
                         duration_sec: chunk_duration,
                         fft_size: 2048,
                         hop_size: hop,
+                        channel: None,
+                        stft: fft::StftOptions::default(),
                     });
                 });
             }
@@ -874,6 +912,8 @@ mod coarse_bench {
             duration_sec: info.duration_secs,
             fft_size: 2048,
             hop_size: hop,
+            channel: None,
+            stft: fft::StftOptions::default(),
         })
         .expect("chunk");
         println!("whole-file overview: {:?} ({} bytes)", t.elapsed(), blob.len());
@@ -897,6 +937,8 @@ mod coarse_bench {
                     duration_sec: dur,
                     fft_size: 2048,
                     hop_size: hop,
+                    channel: None,
+                    stft: fft::StftOptions::default(),
                 };
                 let t = Instant::now();
                 let bytes = compute_spectrogram_chunk(&req).expect("chunk");
@@ -965,6 +1007,8 @@ mod range_tests {
                     duration_sec: chunk_duration,
                     fft_size,
                     hop_size,
+                    channel: None,
+                    stft: fft::StftOptions::default(),
                 })
                 .expect("chunk"),
             );
@@ -978,6 +1022,8 @@ mod range_tests {
             chunk_duration,
             fft_size,
             hop_size,
+            channel: None,
+            stft: fft::StftOptions::default(),
         };
         let info = decoder::get_file_info(&p).expect("info");
         let sample_rate = info.sample_rate;
@@ -991,7 +1037,7 @@ mod range_tests {
             let mut output = vec![0u16; n_cols * n_freq_bins];
             coarse_columns(
                 &mut stream, &mut output, n_cols, n_freq_bins,
-                start_sec, hop_size, fft_size, sample_rate, i > 0,
+                start_sec, hop_size, fft_size, sample_rate, i > 0, None, fft::StftOptions::default(),
             );
             let got = build_spectrogram_response(
                 n_cols, n_freq_bins, start_sec, actual_duration_sec, sample_rate, &output,
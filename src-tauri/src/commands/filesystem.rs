@@ -1,4 +1,7 @@
+use std::io::{Read, Seek, SeekFrom};
+
 use serde::{Deserialize, Serialize};
+use tauri::ipc::Response;
 use tauri_plugin_dialog::{DialogExt, FilePath};
 
 use super::shared::{atomic_write, AUDIO_EXTS, VIDEO_EXTS};
@@ -124,6 +127,55 @@ pub async fn read_text_file(path: String, allowed_roots: Option<Vec<String>>) ->
     }
 }
 
+/// Write raw bytes to a file (e.g. an exported PNG still), creating parent
+/// directories as needed. The bytes arrive as the binary IPC request body, the
+/// counterpart of `read_file_range`'s response, and the target path in the
+/// percent-encoded `path` header, since a raw body leaves no room for
+/// arguments.
+#[tauri::command]
+pub async fn write_binary_file(request: tauri::ipc::Request<'_>) -> Result<(), String> {
+    let tauri::ipc::InvokeBody::Raw(bytes) = request.body() else {
+        return Err("write_binary_file expects a raw byte body".to_string());
+    };
+    let raw_path = request
+        .headers()
+        .get("path")
+        .and_then(|v| v.to_str().ok())
+        .ok_or("write_binary_file is missing its path header")?;
+    let path = percent_encoding::percent_decode_str(raw_path)
+        .decode_utf8()
+        .map_err(|e| e.to_string())?
+        .into_owned();
+    let target = std::path::Path::new(&path);
+    if let Some(parent) = target.parent() {
+        std::fs::create_dir_all(parent).map_err(|e| e.to_string())?;
+    }
+    std::fs::write(target, bytes).map_err(|e| e.to_string())
+}
+
+/// Size of the file at `path`, in bytes.
+#[tauri::command]
+pub async fn file_size(path: String) -> Result<u64, String> {
+    std::fs::metadata(&path).map(|m| m.len()).map_err(|e| e.to_string())
+}
+
+/// Read up to `length` bytes of `path` starting at `offset` — fewer only at end
+/// of file. Backs the frame-accurate video path's range-read demux
+/// (utils/videoIndex.ts), which indexes a video once and then reads just the
+/// encoded frames a decode needs, so a multi-gigabyte file is never held in
+/// memory whole.
+///
+/// Binary IPC response rather than JSON: the payload is raw frame data, and a
+/// JSON number array would cost several times its size to build and parse.
+#[tauri::command]
+pub async fn read_file_range(path: String, offset: u64, length: u64) -> Result<Response, String> {
+    let mut file = std::fs::File::open(&path).map_err(|e| e.to_string())?;
+    file.seek(SeekFrom::Start(offset)).map_err(|e| e.to_string())?;
+    let mut buf = Vec::new();
+    file.take(length).read_to_end(&mut buf).map_err(|e| e.to_string())?;
+    Ok(Response::new(buf))
+}
+
 #[tauri::command]
 pub async fn open_directory_dialog(app: tauri::AppHandle) -> Result<Option<String>, String> {
     let result = app.dialog().file().blocking_pick_folder();
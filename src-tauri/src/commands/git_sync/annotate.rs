@@ -5,7 +5,7 @@ use std::collections::{BTreeSet, HashMap};
 
 use git2::{Repository, Tree};
 
-use crate::commands::shared::ANNOTATION_EXT;
+use crate::commands::shared::{is_annotation_sidecar_file, ANNOTATION_EXT};
 
 use super::{gerr, SyncSummary};
 
@@ -25,7 +25,9 @@ use super::{gerr, SyncSummary};
 /// `setMergeContent` — keep both in sync): split the line on tabs;
 /// if the first two fields parse as `f64`, the key is the bit patterns of
 /// (start, end) plus the untouched remainder of the line (the label and any
-/// further fields). Non-numeric lines fall back to their exact text.
+/// further fields). Non-numeric lines fall back to their exact text. A record
+/// is one line plus, when present, the Audacity frequency row that follows it
+/// (see [`records`]); that row rides along verbatim in the remainder.
 #[derive(Clone, Debug, PartialEq, Eq, Hash, PartialOrd, Ord)]
 pub(crate) enum RecordKey {
     /// Leading start/end parsed numerically; `rest` is the raw remainder of the
@@ -53,16 +55,40 @@ pub(crate) fn record_key(line: &str) -> RecordKey {
     RecordKey::Raw(line.to_string())
 }
 
-/// Map each record's canonical key to a representative line text. Blank lines
-/// are dropped; on a key collision the first occurrence's text wins.
-pub(crate) fn line_map(s: &str) -> HashMap<RecordKey, String> {
-    let mut map = HashMap::new();
+/// True for an Audacity frequency row (`\` \t low \t high), the continuation
+/// of the label line above it. Mirrors `isFrequencyRow` in `utils/helpers.ts`.
+fn is_continuation(line: &str) -> bool {
+    line.split('\t').next().map(str::trim) == Some("\\")
+}
+
+/// Split a file into record texts: one per non-empty line, with a frequency
+/// row joined (by `\n`) onto the record before it so a box's band can never be
+/// separated from its label by a merge. A frequency row with no record before
+/// it stands alone. Mirrors `records` in `utils/annotationMerge.ts`.
+fn records(s: &str) -> Vec<String> {
+    let mut out: Vec<String> = Vec::new();
     for line in s.lines() {
         let line = line.trim_end_matches('\r');
         if line.trim().is_empty() {
             continue;
         }
-        map.entry(record_key(line)).or_insert_with(|| line.to_string());
+        match out.last_mut() {
+            Some(prev) if is_continuation(line) && !prev.contains('\n') => {
+                prev.push('\n');
+                prev.push_str(line);
+            }
+            _ => out.push(line.to_string()),
+        }
+    }
+    out
+}
+
+/// Map each record's canonical key to a representative record text. Blank
+/// lines are dropped; on a key collision the first occurrence's text wins.
+pub(crate) fn line_map(s: &str) -> HashMap<RecordKey, String> {
+    let mut map = HashMap::new();
+    for record in records(s) {
+        map.entry(record_key(&record)).or_insert(record);
     }
     map
 }
@@ -77,8 +103,8 @@ pub(crate) fn line_key_set(s: &str) -> BTreeSet<RecordKey> {
 // Set-merge (the heart of the conflict-free annotation model)
 // ---------------------------------------------------------------------------
 
-/// Three-way set-merge of annotation file contents. Each non-empty line is one
-/// record; identity is the canonical [`RecordKey`] (numeric-aware, so a
+/// Three-way set-merge of annotation file contents. Each non-empty line (plus
+/// any frequency row under it) is one record; identity is the canonical [`RecordKey`] (numeric-aware, so a
 /// precision-only rewrite is a no-op). Returns the merged content sorted by
 /// start time.
 ///
@@ -156,6 +182,10 @@ pub(crate) fn summary_diff(
     paths.extend(after_files.keys());
 
     for path in paths {
+        // Sidecar and track-status records aren't annotations — don't count them.
+        if is_annotation_sidecar_file(path) {
+            continue;
+        }
         let before_lines = before_files.get(path).map(|s| line_key_set(s)).unwrap_or_default();
         let after_lines = after_files.get(path).map(|s| line_key_set(s)).unwrap_or_default();
         let added = after_lines.difference(&before_lines).count();
@@ -220,6 +250,9 @@ pub(crate) fn tree_annotation_delta(
     let mut annotations_added = 0usize;
     let mut annotations_removed = 0usize;
     for path in &all_paths {
+        if is_annotation_sidecar_file(path) {
+            continue;
+        }
         let before_lines = before_blobs.get(path).map(|s| line_key_set(s)).unwrap_or_default();
         let after_lines = after_blobs.get(path).map(|s| line_key_set(s)).unwrap_or_default();
         let added = after_lines.difference(&before_lines).count();
@@ -372,6 +405,43 @@ mod tests {
         assert_eq!(before.difference(&after).count(), 0);
     }
 
+    // ── frequency rows (box annotations) ──────────────────────────────────────
+
+    #[test]
+    fn frequency_row_stays_with_its_label() {
+        // Each side adds a box; the `\` rows must come out directly under the
+        // label they belong to, not sorted to the end as stray records.
+        let ancestor = "1.0\t2.0\ta\n";
+        let ours = "1.0\t2.0\ta\n3.0\t4.0\tb\n\\\t2000.0\t4000.0\n";
+        let theirs = "1.0\t2.0\ta\n5.0\t6.0\tc\n\\\t100.0\t900.0\n";
+        let merged = set_merge(ancestor, ours, theirs);
+        assert_eq!(
+            norm(&merged),
+            vec![
+                "1.0\t2.0\ta",
+                "3.0\t4.0\tb",
+                "\\\t2000.0\t4000.0",
+                "5.0\t6.0\tc",
+                "\\\t100.0\t900.0",
+            ]
+        );
+    }
+
+    #[test]
+    fn band_edit_is_a_distinct_record() {
+        // Changing only the band reads as delete-old + add-new, like an extent edit.
+        assert_ne!(
+            line_key_set("1.0\t2.0\ta\n\\\t2000.0\t4000.0\n"),
+            line_key_set("1.0\t2.0\ta\n\\\t2000.0\t5000.0\n")
+        );
+        let merged = set_merge(
+            "1.0\t2.0\ta\n\\\t2000.0\t4000.0\n",
+            "1.0\t2.0\ta\n\\\t2000.0\t5000.0\n",
+            "1.0\t2.0\ta\n\\\t2000.0\t4000.0\n",
+        );
+        assert_eq!(norm(&merged), vec!["1.0\t2.0\ta", "\\\t2000.0\t5000.0"]);
+    }
+
     #[test]
     fn precision_change_does_not_defeat_a_real_delete() {
         // ours deletes b and rewrites a at new precision; the delete is still
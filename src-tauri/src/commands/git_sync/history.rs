@@ -0,0 +1,144 @@
+//! Read-only views of the sync repo's history, for comparing two annotation
+//! sets (the agreement panel): the repo's commits, and the annotation files as
+//! they stood at one of them. Nothing here touches the working tree or refs.
+
+use std::collections::HashMap;
+use std::path::Path;
+
+use git2::{Oid, Repository, Sort};
+use serde::Serialize;
+
+use crate::commands::shared::{is_annotation_sidecar_file, ANNOTATION_EXT};
+
+use super::annotate::annotation_blobs;
+use super::gerr;
+
+/// One commit on the current branch, newest first in listings.
+#[derive(Serialize, Debug)]
+#[serde(rename_all = "camelCase")]
+pub struct AnnotationCommit {
+    pub id: String,
+    /// First line of the commit message.
+    pub summary: String,
+    pub author: String,
+    /// Commit time, seconds since the Unix epoch.
+    pub time: i64,
+}
+
+/// Up to `limit` commits reachable from HEAD, newest first. Empty when the
+/// project isn't a repo yet or has no commits.
+pub(super) fn list_annotation_commits_blocking(
+    project_dir: &str,
+    limit: usize,
+) -> Result<Vec<AnnotationCommit>, String> {
+    let repo = match Repository::open(Path::new(project_dir)) {
+        Ok(r) => r,
+        Err(_) => return Ok(vec![]),
+    };
+    let mut walk = repo.revwalk().map_err(gerr)?;
+    // Unborn HEAD (freshly init'd, never synced): no history to list.
+    if walk.push_head().is_err() {
+        return Ok(vec![]);
+    }
+    walk.set_sorting(Sort::TOPOLOGICAL | Sort::TIME).map_err(gerr)?;
+
+    let mut commits = Vec::new();
+    for oid in walk.take(limit) {
+        let commit = repo.find_commit(oid.map_err(gerr)?).map_err(gerr)?;
+        let author = commit.author().name().unwrap_or("").to_string();
+        commits.push(AnnotationCommit {
+            id: commit.id().to_string(),
+            summary: commit.summary().unwrap_or("").to_string(),
+            author,
+            time: commit.time().seconds(),
+        });
+    }
+    Ok(commits)
+}
+
+/// The annotation files under `annotation_dir` as of commit `commit_id`,
+/// keyed by ident (path relative to the annotation directory, `/`-separated,
+/// without the extension). Sidecars and the track-status file are left out,
+/// like the annotation listing.
+pub(super) fn read_annotations_at_commit_blocking(
+    project_dir: &str,
+    annotation_dir: &str,
+    commit_id: &str,
+) -> Result<HashMap<String, String>, String> {
+    let project_path = Path::new(project_dir);
+    let ann_rel = Path::new(annotation_dir).strip_prefix(project_path).map_err(|_| {
+        "Annotation directory must be inside the project directory to read its history.".to_string()
+    })?;
+    let ann_rel_posix = ann_rel.to_string_lossy().replace('\\', "/");
+    let prefix = if ann_rel_posix.is_empty() {
+        String::new()
+    } else {
+        format!("{ann_rel_posix}/")
+    };
+
+    let repo = Repository::open(project_path).map_err(gerr)?;
+    let oid = Oid::from_str(commit_id).map_err(gerr)?;
+    let tree = repo.find_commit(oid).map_err(gerr)?.tree().map_err(gerr)?;
+
+    let suffix = format!(".{ANNOTATION_EXT}");
+    let mut files = HashMap::new();
+    for (path, content) in annotation_blobs(&repo, &tree)? {
+        if is_annotation_sidecar_file(&path) {
+            continue;
+        }
+        let rel = match path.strip_prefix(prefix.as_str()) {
+            Some(rel) => rel,
+            None => continue,
+        };
+        let ident = rel.strip_suffix(suffix.as_str()).unwrap_or(rel).to_string();
+        files.insert(ident, content);
+    }
+    Ok(files)
+}
+
+#[cfg(test)]
+mod tests {
+    use super::*;
+    use super::super::repo::{stage_and_commit, write_gitignore};
+    use git2::Signature;
+    use std::path::PathBuf;
+
+    fn make_tmp_root(tag: &str) -> PathBuf {
+        let nanos = std::time::SystemTime::now()
+            .duration_since(std::time::UNIX_EPOCH)
+            .map(|d| d.as_nanos())
+            .unwrap_or(0);
+        let root = std::env::temp_dir()
+            .join(format!("seenote_history_{tag}_{}_{nanos}", std::process::id()));
+        std::fs::create_dir_all(&root).unwrap();
+        root
+    }
+
+    #[test]
+    fn reads_annotation_files_as_of_a_commit() {
+        let root = make_tmp_root("at");
+        let repo = Repository::init(&root).unwrap();
+        let ann_rel = PathBuf::from("ann");
+        write_gitignore(&root, &ann_rel).unwrap();
+        std::fs::create_dir_all(root.join("ann").join("site")).unwrap();
+        std::fs::write(root.join("ann").join("site").join("dawn.txt"), "1.0\t2.0\tbee\n").unwrap();
+        std::fs::write(root.join("ann").join("site").join("dawn.review.txt"), "1.0\t2.0\tbee\t{}\n").unwrap();
+        let sig = Signature::now("T", "t@seenote.local").unwrap();
+        stage_and_commit(&repo, &root, &ann_rel, &sig, "first").unwrap();
+        let first = repo.head().unwrap().target().unwrap().to_string();
+        std::fs::write(root.join("ann").join("site").join("dawn.txt"), "3.0\t4.0\twasp\n").unwrap();
+        stage_and_commit(&repo, &root, &ann_rel, &sig, "second").unwrap();
+
+        let project_dir = root.to_string_lossy().to_string();
+        let annotation_dir = root.join("ann").to_string_lossy().to_string();
+        let files = read_annotations_at_commit_blocking(&project_dir, &annotation_dir, &first).unwrap();
+        assert_eq!(files.len(), 1);
+        assert_eq!(files["site/dawn"], "1.0\t2.0\tbee\n");
+
+        let commits = list_annotation_commits_blocking(&project_dir, 10).unwrap();
+        let summaries: Vec<&str> = commits.iter().map(|c| c.summary.as_str()).collect();
+        assert_eq!(summaries, ["second", "first"]);
+
+        let _ = std::fs::remove_dir_all(&root);
+    }
+}
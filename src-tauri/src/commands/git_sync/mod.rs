@@ -30,17 +30,21 @@
 //!
 //! The annotation file format is mirrored from the TS side
 //! (`utils/helpers.ts` `generateAudacityContent` / `parseAudacityContent`):
-//! tab-delimited `start \t end \t label`, one record per line. The set-merge
-//! here treats whole lines as opaque record identities, so it does not need to
-//! understand the columns beyond the leading start time used for ordering. The
+//! tab-delimited `start \t end \t label`, one record per line, optionally
+//! followed by an Audacity `\` frequency row for a box annotation. The
+//! set-merge here treats each record (a line plus its frequency row) as an
+//! opaque identity, so it does not need to understand the columns beyond the
+//! leading start time used for ordering. The
 //! tracked extension comes from [`shared::ANNOTATION_EXT`].
 
 mod annotate;
 mod auth;
+mod history;
 mod merge;
 mod remote;
 mod repo;
 
+use std::collections::HashMap;
 use std::path::Path;
 
 use git2::{Repository, Signature};
@@ -49,6 +53,7 @@ use serde::Serialize;
 use crate::commands::shared::{walk_files, ANNOTATION_EXT};
 
 use annotate::{annotation_blobs, tree_annotation_delta};
+pub use history::AnnotationCommit;
 use merge::merge_remote;
 use remote::{fetch, push};
 use repo::{
@@ -180,6 +185,36 @@ pub async fn fetch_remote_status(
     .map_err(|e| format!("fetch status check panicked: {e}"))?
 }
 
+/// Up to `limit` of the project repo's commits, newest first — the points in
+/// history the agreement panel can compare annotations at. Empty when the
+/// project has never been synced.
+#[tauri::command]
+pub async fn list_annotation_commits(
+    project_dir: String,
+    limit: usize,
+) -> Result<Vec<AnnotationCommit>, String> {
+    tauri::async_runtime::spawn_blocking(move || {
+        history::list_annotation_commits_blocking(&project_dir, limit)
+    })
+    .await
+    .map_err(|e| format!("history task panicked: {e}"))?
+}
+
+/// The project's annotation files as of one commit, by ident. Read straight
+/// from the object database; the working tree is left alone.
+#[tauri::command]
+pub async fn read_annotations_at_commit(
+    project_dir: String,
+    annotation_dir: String,
+    commit_id: String,
+) -> Result<HashMap<String, String>, String> {
+    tauri::async_runtime::spawn_blocking(move || {
+        history::read_annotations_at_commit_blocking(&project_dir, &annotation_dir, &commit_id)
+    })
+    .await
+    .map_err(|e| format!("history task panicked: {e}"))?
+}
+
 fn sync_blocking(
     project_dir: &str,
     annotation_dir: &str,
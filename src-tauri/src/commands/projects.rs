@@ -3,7 +3,7 @@ use serde_json::Value as JsonValue;
 use std::path::Path;
 use tauri::Manager;
 
-use super::shared::{atomic_write, walk_files, AUDIO_EXTS, VIDEO_EXTS};
+use super::shared::{atomic_write, is_annotation_sidecar_file, walk_files, AUDIO_EXTS, VIDEO_EXTS};
 
 /// Slim registry entry stored in `{app_data}/.projects/projects.json`. Maps a
 /// stable id to a project directory on this machine plus a `last_opened`
@@ -219,6 +219,13 @@ fn collect_orphaned_annotations(ann_root: &Path, audio_root: &Path, orphans: &mu
         if path.extension().and_then(|e| e.to_str()) != Some("txt") {
             return;
         }
+        // A sidecar's stem is `<ident>.attrs` or `<ident>.review`, which never
+        // names a media file; it is orphaned only with its track's annotations,
+        // and deleting those is what the caller offers. The track-status file
+        // belongs to the project, not to any one track.
+        if is_annotation_sidecar_file(&path.to_string_lossy()) {
+            return;
+        }
         // Derive relative path from annotation root
         if let Ok(rel) = path.strip_prefix(ann_root) {
             // Get the stem (remove .txt extension)
@@ -386,6 +393,11 @@ fn scan_annotation_files(dir: &Path, root: &Path, ext: &str, results: &mut Vec<S
         if path.extension().and_then(|e| e.to_str()) != Some(ext) {
             return;
         }
+        // A sidecar belongs to the track beside it, and the track-status file
+        // to the project; neither is a track of its own.
+        if is_annotation_sidecar_file(&path.to_string_lossy()) {
+            return;
+        }
         if let Ok(rel) = path.strip_prefix(root) {
             let rel_str = rel.to_string_lossy().replace('\\', "/");
             let rel_no_ext = if let Some(s) = rel_str.strip_suffix(&dot_ext) {
@@ -397,3 +409,65 @@ fn scan_annotation_files(dir: &Path, root: &Path, ext: &str, results: &mut Vec<S
         }
     });
 }
+
+#[cfg(test)]
+mod tests {
+    use super::*;
+    use crate::commands::shared::TRACK_STATUS_FILE;
+    use std::path::{Path, PathBuf};
+
+    // Imitates the tempdir pattern in commands/filesystem.rs.
+    fn make_tmp_root(tag: &str) -> PathBuf {
+        let nanos = std::time::SystemTime::now()
+            .duration_since(std::time::UNIX_EPOCH)
+            .map(|d| d.as_nanos())
+            .unwrap_or(0);
+        let pid = std::process::id();
+        let root = std::env::temp_dir()
+            .join(format!("seenote_projects_test_{tag}_{pid}_{nanos}"));
+        std::fs::create_dir_all(&root).expect("create_dir_all tmp root");
+        root
+    }
+
+    fn touch(dir: &Path, name: &str) -> PathBuf {
+        std::fs::create_dir_all(dir).unwrap();
+        let path = dir.join(name);
+        std::fs::write(&path, b"").unwrap();
+        path
+    }
+
+    fn orphans_of(ann_root: &Path, audio_root: &Path) -> Vec<String> {
+        let mut orphans = vec![];
+        collect_orphaned_annotations(ann_root, audio_root, &mut orphans);
+        orphans.sort();
+        orphans
+    }
+
+    #[test]
+    fn orphans_skip_sidecars_of_a_present_track() {
+        let root = make_tmp_root("sidecars");
+        let (ann, audio) = (root.join("ann"), root.join("audio"));
+        touch(&audio.join("site"), "dawn.wav");
+        touch(&ann.join("site"), "dawn.txt");
+        touch(&ann.join("site"), "dawn.attrs.txt");
+        touch(&ann.join("site"), "dawn.review.txt");
+        let gone = touch(&ann.join("site"), "dusk.txt");
+
+        assert_eq!(orphans_of(&ann, &audio), vec![gone.to_string_lossy().to_string()]);
+
+        let _ = std::fs::remove_dir_all(&root);
+    }
+
+    #[test]
+    fn orphans_skip_the_track_status_file() {
+        let root = make_tmp_root("track_status");
+        let (ann, audio) = (root.join("ann"), root.join("audio"));
+        touch(&audio, "dawn.wav");
+        touch(&ann, "dawn.txt");
+        touch(&ann, TRACK_STATUS_FILE);
+
+        assert!(orphans_of(&ann, &audio).is_empty());
+
+        let _ = std::fs::remove_dir_all(&root);
+    }
+}
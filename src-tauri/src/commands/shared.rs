@@ -22,6 +22,37 @@ pub const VIDEO_EXTS: &[&str] = &["mp4", "mkv", "mov", "avi", "webm", "m4v"];
 /// files get the semantic set-merge and which are staged for sync.
 pub const ANNOTATION_EXT: &str = "txt";
 
+/// Suffix (before [`ANNOTATION_EXT`]) of a track's attributes sidecar:
+/// `<ident>.attrs.txt` beside `<ident>.txt`, holding structured per-annotation
+/// attributes keyed by the same records. Sharing the extension means git sync
+/// stages and set-merges sidecars like any annotation file; the annotation
+/// listing and the sync's annotation counts skip them. Mirror of the TS
+/// `ANNOTATION_ATTRS_SUFFIX` (constants.ts).
+pub const ANNOTATION_ATTRS_SUFFIX: &str = ".attrs";
+
+/// Suffix (before [`ANNOTATION_EXT`]) of a track's review sidecar:
+/// `<ident>.review.txt`, holding reviewers' verdicts on its annotations in the
+/// same record layout as the attributes sidecar. Mirror of the TS
+/// `ANNOTATION_REVIEW_SUFFIX` (constants.ts).
+pub const ANNOTATION_REVIEW_SUFFIX: &str = ".review";
+
+/// File name of the project's track-status file at the annotation root:
+/// one record per track (completion status, assignee) rather than per
+/// annotation. Synced and set-merged like the sidecars. Mirror of the TS
+/// `TRACK_STATUS_FILE` (constants.ts).
+pub const TRACK_STATUS_FILE: &str = ".track-status.txt";
+
+/// True when `name` (a file name or path) is an attributes or review sidecar
+/// or the track-status file — annotation-dir files that aren't a track's
+/// annotations.
+pub fn is_annotation_sidecar_file(name: &str) -> bool {
+    let file_name = name.rsplit(|c: char| c == '/' || c == '\\').next().unwrap_or(name);
+    file_name == TRACK_STATUS_FILE
+        || [ANNOTATION_ATTRS_SUFFIX, ANNOTATION_REVIEW_SUFFIX]
+            .iter()
+            .any(|suffix| name.ends_with(&format!("{suffix}.{ANNOTATION_EXT}")))
+}
+
 /// Write `content` to `path` atomically: stage to a sibling `.tmp` file then
 /// rename over the target, so that a crash mid-write never leaves the file
 /// truncated or corrupt. On rename failure the temp file is removed
@@ -111,6 +111,7 @@ pub fn run() {
             commands::audio::get_file_info,
             commands::audio::set_ffmpeg_path,
             commands::audio::detect_ffmpeg,
+            commands::audio::export_video_clip,
             commands::audio::audio_peak,
             commands::audio::get_spectrogram_chunk_range,
             commands::audio::start_pcm_stream,
@@ -119,7 +120,10 @@ pub fn run() {
             commands::filesystem::list_directory,
             commands::filesystem::list_media_files_recursive,
             commands::filesystem::write_text_file,
+            commands::filesystem::write_binary_file,
             commands::filesystem::read_text_file,
+            commands::filesystem::file_size,
+            commands::filesystem::read_file_range,
             commands::filesystem::open_directory_dialog,
             commands::filesystem::open_directory_dialog_at,
             commands::filesystem::save_file_dialog,
@@ -171,6 +175,8 @@ pub fn run() {
             commands::git_sync::pull_project,
             commands::git_sync::get_local_sync_status,
             commands::git_sync::fetch_remote_status,
+            commands::git_sync::list_annotation_commits,
+            commands::git_sync::read_annotations_at_commit,
             commands::credentials::get_git_credential,
             commands::credentials::set_git_credential,
             commands::credentials::delete_git_credential,
@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import {
+  cohensKappa,
+  compareAnnotationSets,
+  comparisonLanesFor,
+  DEFAULT_MATCH_OPTIONS,
+  matchAnnotations,
+  temporalIou,
+} from '../utils/annotationAgreement';
+import { Annotation } from '../types';
+
+const ann = (start: number, end: number, text: string): Annotation =>
+  ({ id: `${start}-${text}`, start, end, text, color: '#ffffff' });
+
+const iou = DEFAULT_MATCH_OPTIONS;
+const onset = { ...DEFAULT_MATCH_OPTIONS, criterion: 'onset' as const, onsetTolerance: 0.25 };
+
+describe('temporalIou', () => {
+  it('is overlap over union', () => {
+    expect(temporalIou({ start: 0, end: 2 }, { start: 1, end: 3 })).toBeCloseTo(1 / 3);
+    expect(temporalIou({ start: 0, end: 1 }, { start: 1, end: 2 })).toBe(0);
+  });
+});
+
+describe('matchAnnotations', () => {
+  it('matches by IoU threshold or onset tolerance', () => {
+    const a = [ann(0, 2, 'buzz')];
+    const b = [ann(0.1, 4, 'buzz')];
+    expect(matchAnnotations(a, b, iou).pairs).toEqual([]);
+    expect(matchAnnotations(a, b, onset).pairs).toEqual([[0, 0]]);
+  });
+
+  it('prefers a same-label pair over a closer one of another label', () => {
+    const a = [ann(0, 2, 'buzz')];
+    const b = [ann(0, 2, 'bird'), ann(0.2, 2, 'buzz')];
+    expect(matchAnnotations(a, b, iou)).toEqual({ pairs: [[0, 1]], unmatchedA: [], unmatchedB: [0] });
+  });
+
+  it('matches each event at most once', () => {
+    const a = [ann(0, 2, 'buzz'), ann(0.1, 2, 'buzz')];
+    const b = [ann(0, 2, 'buzz')];
+    const { pairs, unmatchedA } = matchAnnotations(a, b, iou);
+    expect(pairs).toEqual([[0, 0]]);
+    expect(unmatchedA).toEqual([1]);
+  });
+});
+
+describe('cohensKappa', () => {
+  it('is 1 for perfect agreement and 0 at chance', () => {
+    expect(cohensKappa([['a', 'a'], ['b', 'b']])).toBe(1);
+    expect(cohensKappa([['a', 'a'], ['a', 'b'], ['b', 'a'], ['b', 'b']])).toBe(0);
+  });
+
+  it('counts a missed event as disagreement', () => {
+    expect(cohensKappa([['a', 'a'], ['a', null], [null, 'b'], ['b', 'b']])).toBeCloseTo(0.2727, 4);
+  });
+
+  it('is undefined without judgements or variation', () => {
+    expect(cohensKappa([])).toBeNull();
+    expect(cohensKappa([['a', 'a']])).toBeNull();
+  });
+});
+
+describe('compareAnnotationSets', () => {
+  const setA = new Map([
+    ['dawn', [ann(0, 1, 'buzz'), ann(2, 3, 'buzz'), ann(5, 6, 'bird')]],
+    ['dusk', [ann(0, 1, 'buzz')]],
+  ]);
+  const setB = new Map([
+    ['dawn', [ann(0, 1, 'buzz'), ann(2, 3, 'bird'), ann(8, 9, 'bird')]],
+    ['noon', [ann(0, 1, 'buzz')]],
+  ]);
+  const report = compareAnnotationSets(setA, setB, iou);
+
+  it('compares only tracks both sets contain', () => {
+    expect(report.tracks).toBe(1);
+  });
+
+  it('scores each label with set A as the reference', () => {
+    expect(report.labels).toEqual([
+      { label: 'bird', countA: 1, countB: 2, matched: 0, precision: 0, recall: 0, f1: 0 },
+      { label: 'buzz', countA: 2, countB: 1, matched: 1, precision: 1, recall: 0.5, f1: 2 / 3 },
+    ]);
+    expect(report.overall).toMatchObject({ countA: 3, countB: 3, matched: 1 });
+  });
+
+  it('computes kappa over matched pairs and missed events', () => {
+    // buzz/buzz, buzz/bird, bird/–, –/bird
+    expect(report.judgements).toBe(4);
+    expect(report.kappa).not.toBeNull();
+    expect(report.kappa!).toBeLessThan(0.5);
+  });
+});
+
+describe('comparisonLanesFor', () => {
+  it('marks events without a same-label match in each lane', () => {
+    const setA = new Map([['dawn', [ann(0, 1, 'buzz'), ann(2, 3, 'buzz')]]]);
+    const setB = new Map([['dawn', [ann(0, 1, 'buzz'), ann(2, 3, 'bird')]]]);
+    const lanes = comparisonLanesFor('dawn', setA, setB, iou, ['A', 'B'], ['#f00', '#00f']);
+    expect(lanes?.map(l => [...l.disagreeing])).toEqual([['2-buzz'], ['2-bird']]);
+    expect(comparisonLanesFor('dusk', setA, setB, iou, ['A', 'B'], ['#f00', '#00f'])).toBeNull();
+  });
+});
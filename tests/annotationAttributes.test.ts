@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import {
+  attributesPathFor,
+  normalizeAttributes,
+  generateAttributesContent,
+  parseAttributesContent,
+  applyAttributesContent,
+  renameLabelInAttributesContent,
+} from '../utils/annotationAttributes';
+import { setMergeContent } from '../utils/annotationMerge';
+import { Annotation } from '../types';
+
+const ann = (start: number, end: number, text: string, extra: Partial<Annotation> = {}): Annotation =>
+  ({ id: `${start}-${text}`, start, end, text, color: '#ff0000', ...extra });
+
+describe('attributesPathFor', () => {
+  it('puts the sidecar beside the annotation file', () => {
+    expect(attributesPathFor('/ann/site/dawn.txt')).toBe('/ann/site/dawn.attrs.txt');
+  });
+});
+
+describe('normalizeAttributes', () => {
+  it('trims text, clamps confidence and drops empty fields', () => {
+    expect(normalizeAttributes({ note: '  faint ', confidence: 1.4, uncertain: false, observer: ' ' }))
+      .toEqual({ note: 'faint', confidence: 1 });
+  });
+
+  it('keeps a channel tag only when it is a non-negative integer', () => {
+    expect(normalizeAttributes({ channel: 1 })).toEqual({ channel: 1 });
+    expect(normalizeAttributes({ channel: 0 })).toEqual({ channel: 0 });
+    expect(normalizeAttributes({ channel: -1 })).toBeUndefined();
+    expect(normalizeAttributes({ channel: 1.5 })).toBeUndefined();
+  });
+
+  it('clips a video region to the frame and drops one with no start box', () => {
+    expect(normalizeAttributes({ region: { start: { x: 0.9, y: -0.1, w: 0.2, h: 0.5 } } }))
+      .toEqual({ region: { start: { x: 0.9, y: 0, w: expect.closeTo(0.1, 10), h: 0.4 } } });
+    expect(normalizeAttributes({ region: { start: { x: 0.5, y: 0.5, w: 0, h: 0.2 } } })).toBeUndefined();
+  });
+
+  it('returns undefined once nothing is left', () => {
+    expect(normalizeAttributes({ note: '', confidence: NaN, uncertain: false })).toBeUndefined();
+    expect(normalizeAttributes(undefined)).toBeUndefined();
+  });
+});
+
+describe('generateAttributesContent / parseAttributesContent', () => {
+  it('writes only annotations with attributes, with the band row for a box', () => {
+    const content = generateAttributesContent([
+      ann(0, 1, 'plain'),
+      ann(1, 2, 'buzz', { attributes: { confidence: 0.5 } }),
+      ann(2, 3, 'bird', { lowFreq: 2000, highFreq: 4000, attributes: { uncertain: true } }),
+    ], 2);
+    expect(content).toBe(
+      '1.00\t2.00\tbuzz\t{"confidence":0.5}\n'
+      + '2.00\t3.00\tbird\t{"uncertain":true}\n'
+      + '\\\t2000.0\t4000.0\n',
+    );
+    expect(parseAttributesContent(content)).toEqual([
+      { key: { start: 1, end: 2, text: 'buzz' }, attributes: { confidence: 0.5 } },
+      { key: { start: 2, end: 3, text: 'bird', lowFreq: 2000, highFreq: 4000 }, attributes: { uncertain: true } },
+    ]);
+  });
+
+  it('skips lines without a JSON object column', () => {
+    expect(parseAttributesContent('1\t2\tbuzz\n1\t2\tbuzz\tnot json\n')).toEqual([]);
+  });
+});
+
+describe('applyAttributesContent', () => {
+  it('attaches attributes by record identity, telling a box from a band', () => {
+    const band = ann(2, 3, 'bird');
+    const box = ann(2, 3, 'bird', { lowFreq: 2000, highFreq: 4000 });
+    const content = '2\t3\tbird\t{"note":"box"}\n\\\t2000\t4000\n';
+    const [b, x] = applyAttributesContent([band, box], content);
+    expect(b).toBe(band);
+    expect(x.attributes).toEqual({ note: 'box' });
+  });
+
+  it('lets the last record win when a merge kept two', () => {
+    const content = '1\t2\tbuzz\t{"note":"first"}\n1\t2\tbuzz\t{"note":"second"}\n';
+    expect(applyAttributesContent([ann(1, 2, 'buzz')], content)[0].attributes).toEqual({ note: 'second' });
+  });
+
+  it('ignores records whose annotation is gone', () => {
+    const anns = [ann(1, 2, 'buzz')];
+    expect(applyAttributesContent(anns, '5\t6\tbuzz\t{"note":"x"}\n')).toEqual(anns);
+  });
+});
+
+describe('renameLabelInAttributesContent', () => {
+  it('renames matching records and keeps their attributes and band rows', () => {
+    const content = '1\t2\tbuzz\t{"note":"a"}\n\\\t100\t200\n3\t4\tbird\t{"note":"b"}\n';
+    expect(renameLabelInAttributesContent(content, 'buzz', 'bee')).toEqual({
+      updated: '1\t2\tbee\t{"note":"a"}\n\\\t100\t200\n3\t4\tbird\t{"note":"b"}\n',
+      changed: true,
+    });
+    expect(renameLabelInAttributesContent(content, 'wasp', 'bee').changed).toBe(false);
+  });
+});
+
+describe('sidecar set-merge', () => {
+  it('keeps both sides\' attribute edits as separate records', () => {
+    const ancestor = '1\t2\tbuzz\t{"note":"a"}\n';
+    const ours = '1\t2\tbuzz\t{"note":"a"}\n3\t4\tbird\t{"observer":"LH"}\n';
+    const theirs = '1\t2\tbuzz\t{"note":"a"}\n5\t6\twasp\t{"confidence":0.9}\n';
+    const merged = parseAttributesContent(setMergeContent(ancestor, ours, theirs));
+    expect(merged.map(r => r.key.text).sort()).toEqual(['bird', 'buzz', 'wasp']);
+  });
+});
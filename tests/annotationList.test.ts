@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { sortAnnotations, nextSort, clickSelection, relabelAnnotation } from '../utils/annotationList';
+import { Annotation, AnnotationTool } from '../types';
+
+const ann = (id: string, start: number, end: number, text: string): Annotation =>
+  ({ id, start, end, text, color: '#ff0000' });
+
+const anns = [ann('a', 5, 9, 'buzz'), ann('b', 1, 2, 'bird10'), ann('c', 3, 4, 'bird2'), ann('d', 0, 1, 'buzz')];
+
+describe('sortAnnotations', () => {
+  it('sorts by each column without touching the input', () => {
+    expect(sortAnnotations(anns, { key: 'start', descending: false }).map(a => a.id)).toEqual(['d', 'b', 'c', 'a']);
+    expect(sortAnnotations(anns, { key: 'end', descending: true }).map(a => a.id)).toEqual(['a', 'c', 'b', 'd']);
+    expect(sortAnnotations(anns, { key: 'duration', descending: true }).map(a => a.id)).toEqual(['a', 'd', 'b', 'c']);
+    expect(anns.map(a => a.id)).toEqual(['a', 'b', 'c', 'd']);
+  });
+
+  it('sorts labels naturally, breaking ties by time', () => {
+    expect(sortAnnotations(anns, { key: 'label', descending: false }).map(a => a.id)).toEqual(['c', 'b', 'd', 'a']);
+  });
+});
+
+describe('nextSort', () => {
+  it('flips the current column and starts a new one ascending', () => {
+    expect(nextSort({ key: 'start', descending: false }, 'start')).toEqual({ key: 'start', descending: true });
+    expect(nextSort({ key: 'start', descending: true }, 'label')).toEqual({ key: 'label', descending: false });
+  });
+});
+
+describe('clickSelection', () => {
+  const order = ['a', 'b', 'c', 'd', 'e'];
+  const none = { range: false, toggle: false };
+
+  it('selects just the clicked row on a plain click', () => {
+    expect(clickSelection(order, new Set(['a', 'b']), 'a', 'c', none)).toEqual({ selected: new Set(['c']), anchorId: 'c' });
+  });
+
+  it('toggles a row in and out with Ctrl/Cmd', () => {
+    const added = clickSelection(order, new Set(['a']), 'a', 'c', { range: false, toggle: true });
+    expect(added.selected).toEqual(new Set(['a', 'c']));
+    expect(clickSelection(order, added.selected, 'c', 'a', { range: false, toggle: true }).selected).toEqual(new Set(['c']));
+  });
+
+  it('selects the span from the anchor with Shift, in either direction', () => {
+    expect(clickSelection(order, new Set(['b']), 'b', 'd', { range: true, toggle: false }))
+      .toEqual({ selected: new Set(['b', 'c', 'd']), anchorId: 'b' });
+    expect(clickSelection(order, new Set(['d']), 'd', 'a', { range: true, toggle: false }).selected)
+      .toEqual(new Set(['a', 'b', 'c', 'd']));
+  });
+
+  it('adds the span to the selection with Shift+Ctrl', () => {
+    expect(clickSelection(order, new Set(['e', 'b']), 'b', 'c', { range: true, toggle: true }).selected)
+      .toEqual(new Set(['b', 'c', 'e']));
+  });
+
+  it('treats Shift without an anchor as a plain click', () => {
+    expect(clickSelection(order, new Set(), null, 'c', { range: true, toggle: false }).selected).toEqual(new Set(['c']));
+  });
+});
+
+describe('relabelAnnotation', () => {
+  const tools: AnnotationTool[] = [
+    { key: '0', text: 'Custom', color: '#ffffff' },
+    { key: '1', text: 'Buzz', color: '#00ff00' },
+  ] as AnnotationTool[];
+
+  it('adopts a matching tool\'s text and color', () => {
+    expect(relabelAnnotation(ann('a', 0, 1, 'x'), 'buzz', tools)).toMatchObject({ text: 'Buzz', color: '#00ff00' });
+  });
+
+  it('makes anything else a white Custom label', () => {
+    expect(relabelAnnotation(ann('a', 0, 1, 'x'), 'custom', tools)).toMatchObject({ text: 'custom', color: '#ffffff' });
+  });
+});
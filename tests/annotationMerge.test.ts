@@ -59,6 +59,21 @@ describe('setMergeContent', () => {
     expect(setMergeContent(ancestor, ours, theirs)).toBe(ancestor);
   });
 
+  it('keeps a frequency row under the label it belongs to', () => {
+    const ancestor = '1.0\t2.0\ta\n';
+    const ours = '1.0\t2.0\ta\n3.0\t4.0\tb\n\\\t2000.0\t4000.0\n';
+    const theirs = '1.0\t2.0\ta\n5.0\t6.0\tc\n\\\t100.0\t900.0\n';
+    expect(setMergeContent(ancestor, ours, theirs)).toBe(
+      '1.0\t2.0\ta\n3.0\t4.0\tb\n\\\t2000.0\t4000.0\n5.0\t6.0\tc\n\\\t100.0\t900.0\n',
+    );
+  });
+
+  it('treats a band-only edit as delete-old + add-new', () => {
+    const ancestor = '1.0\t2.0\ta\n\\\t2000.0\t4000.0\n';
+    const ours = '1.0\t2.0\ta\n\\\t2000.0\t5000.0\n';
+    expect(setMergeContent(ancestor, ours, ancestor)).toBe(ours);
+  });
+
   it('falls back to non-numeric line identity when fields are not numbers', () => {
     const ancestor = '';
     const ours = 'header line\n';
@@ -29,6 +29,16 @@ describe('persistAnnotations', () => {
     const result = await persistAnnotations('/x/a.txt', [ann(0, 1, 'bee')], 4);
     expect(result).toBe('written');
     expect(writeTextFile).toHaveBeenCalledWith('/x/a.txt', '0.0000\t1.0000\tbee\n');
+    // Only the (stale) attributes sidecar is removed, never the annotation file.
+    expect(removeFile).toHaveBeenCalledTimes(1);
+    expect(removeFile).toHaveBeenCalledWith('/x/a.attrs.txt');
+  });
+
+  it('writes the attributes sidecar beside the file when any annotation has attributes', async () => {
+    const list = [{ ...ann(0, 1, 'bee'), attributes: { confidence: 0.5 } }, ann(2, 3, 'wasp')];
+    await persistAnnotations('/x/a.txt', list, 4);
+    expect(writeTextFile).toHaveBeenCalledWith('/x/a.txt', '0.0000\t1.0000\tbee\n2.0000\t3.0000\twasp\n');
+    expect(writeTextFile).toHaveBeenCalledWith('/x/a.attrs.txt', '0.0000\t1.0000\tbee\t{"confidence":0.5}\n');
     expect(removeFile).not.toHaveBeenCalled();
   });
 
@@ -36,6 +46,7 @@ describe('persistAnnotations', () => {
     const result = await persistAnnotations('/x/a.txt', [], 4);
     expect(result).toBe('removed');
     expect(removeFile).toHaveBeenCalledWith('/x/a.txt');
+    expect(removeFile).toHaveBeenCalledWith('/x/a.attrs.txt');
     expect(writeTextFile).not.toHaveBeenCalled();
   });
 });
@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import {
+  normalizeReview,
+  parseReviewContent,
+  reviewPathFor,
+  reviewsByAnnotation,
+  setReviewInContent,
+  summarizeReviews,
+  verdictsAgree,
+  ReviewItem,
+} from '../utils/annotationReview';
+import { renameLabelInAttributesContent } from '../utils/annotationAttributes';
+import { setMergeContent } from '../utils/annotationMerge';
+import { Annotation, AnnotationReview } from '../types';
+
+const ann = (start: number, end: number, text: string, extra: Partial<Annotation> = {}): Annotation =>
+  ({ id: `${start}-${text}`, start, end, text, color: '#ff0000', ...extra });
+
+const at = '2026-05-01T09:00:00.000Z';
+const accept = (reviewer: string): AnnotationReview => ({ verdict: 'accept', reviewer, at });
+const reject = (reviewer: string): AnnotationReview => ({ verdict: 'reject', reviewer, at });
+const relabel = (reviewer: string, label: string): AnnotationReview => ({ verdict: 'relabel', reviewer, label, at });
+
+describe('reviewPathFor', () => {
+  it('puts the sidecar beside the annotation file', () => {
+    expect(reviewPathFor('/ann/site/dawn.txt')).toBe('/ann/site/dawn.review.txt');
+  });
+});
+
+describe('normalizeReview', () => {
+  it('needs a verdict, a reviewer and a time', () => {
+    expect(normalizeReview({ verdict: 'accept', reviewer: ' LH ', at })).toEqual(accept('LH'));
+    expect(normalizeReview({ verdict: 'maybe', reviewer: 'LH', at })).toBeNull();
+    expect(normalizeReview({ verdict: 'accept', reviewer: ' ', at })).toBeNull();
+    expect(normalizeReview({ verdict: 'accept', reviewer: 'LH' })).toBeNull();
+  });
+
+  it('keeps a label only on a relabel, which needs one', () => {
+    expect(normalizeReview({ verdict: 'accept', reviewer: 'LH', label: 'wasp', at })).toEqual(accept('LH'));
+    expect(normalizeReview({ verdict: 'relabel', reviewer: 'LH', label: 'wasp', at })).toEqual(relabel('LH', 'wasp'));
+    expect(normalizeReview({ verdict: 'relabel', reviewer: 'LH', at })).toBeNull();
+  });
+});
+
+describe('setReviewInContent', () => {
+  it('appends a record per reviewer and replaces a reviewer\'s earlier verdict', () => {
+    const a = ann(1.25, 3.5, 'buzz');
+    let content = setReviewInContent(null, a, 'LH', accept('LH'));
+    content = setReviewInContent(content, a, 'MK', reject('MK'));
+    content = setReviewInContent(content, a, 'LH', relabel('LH', 'wasp'));
+    expect(parseReviewContent(content).map(r => r.review)).toEqual([reject('MK'), relabel('LH', 'wasp')]);
+  });
+
+  it('moves a box record together with its band row', () => {
+    const box = ann(1, 2, 'buzz', { lowFreq: 200, highFreq: 800 });
+    let content = setReviewInContent(null, box, 'LH', accept('LH'));
+    content = setReviewInContent(content, ann(1, 2, 'buzz'), 'LH', reject('LH'));
+    expect(content.split('\n').filter(Boolean)).toHaveLength(3);
+    content = setReviewInContent(content, box, 'LH', null);
+    expect(parseReviewContent(content)).toEqual([{ key: { start: 1, end: 2, text: 'buzz' }, review: reject('LH') }]);
+  });
+
+  it('empties once the last verdict is cleared', () => {
+    const a = ann(1, 2, 'buzz');
+    expect(setReviewInContent(setReviewInContent(null, a, 'LH', accept('LH')), a, 'LH', null)).toBe('');
+  });
+});
+
+describe('reviewsByAnnotation', () => {
+  it('matches live annotations at the saved precision, the later record winning', () => {
+    const saved = ann(1.2345678, 2, 'buzz');
+    const content = setReviewInContent(setReviewInContent(null, saved, 'MK', reject('MK'), 7), saved, 'LH', accept('LH'), 7)
+      + `1.2345678\t2.0000000\tbuzz\t${JSON.stringify(reject('LH'))}\n`;
+    const live = ann(1.23456781, 2, 'buzz', { id: 'live' });
+    const byId = reviewsByAnnotation([live, ann(5, 6, 'buzz')], content, 7);
+    expect(byId.get('live')).toEqual([reject('LH'), reject('MK')]);
+    expect(byId.size).toBe(1);
+  });
+});
+
+describe('sync', () => {
+  it('keeps both reviewers\' verdicts through a set-merge', () => {
+    const a = ann(1, 2, 'buzz');
+    const base = setReviewInContent(null, a, 'LH', accept('LH'));
+    const ours = setReviewInContent(base, a, 'LH', reject('LH'));
+    const theirs = setReviewInContent(base, a, 'MK', accept('MK'));
+    const merged = setMergeContent(base, ours, theirs);
+    expect(reviewsByAnnotation([a], merged).get(a.id)).toEqual([reject('LH'), accept('MK')]);
+  });
+
+  it('follows a label rename', () => {
+    const content = setReviewInContent(null, ann(1, 2, 'buzz'), 'LH', accept('LH'));
+    const { updated } = renameLabelInAttributesContent(content, 'buzz', 'bee');
+    expect(reviewsByAnnotation([ann(1, 2, 'bee')], updated).get('1-bee')).toEqual([accept('LH')]);
+  });
+});
+
+describe('summarizeReviews', () => {
+  const item = (text: string, reviews: AnnotationReview[], start = 0): ReviewItem =>
+    ({ ident: 'dawn', annotation: ann(start, start + 1, text), reviews });
+
+  it('counts verdicts and agreement per label', () => {
+    const summary = summarizeReviews([
+      item('buzz', [accept('LH'), accept('MK')]),
+      item('buzz', [accept('LH'), reject('MK')], 2),
+      item('buzz', [], 4),
+      item('bee', [relabel('LH', 'wasp'), relabel('MK', 'wasp')]),
+    ]);
+    expect(summary.map(s => s.label)).toEqual(['bee', 'buzz']);
+    expect(summary[1]).toMatchObject({
+      total: 3, reviewed: 2, accepted: 3, rejected: 1, relabelled: 0, acceptRate: 0.75, multiReviewed: 2, agreement: 0.5,
+    });
+    expect(summary[0]).toMatchObject({ acceptRate: 0, agreement: 1 });
+  });
+
+  it('has no rates without verdicts', () => {
+    expect(summarizeReviews([item('buzz', [])])[0]).toMatchObject({ acceptRate: null, agreement: null });
+  });
+
+  it('treats relabels to different labels as disagreeing', () => {
+    expect(verdictsAgree([relabel('LH', 'wasp'), relabel('MK', 'fly')])).toBe(false);
+  });
+});
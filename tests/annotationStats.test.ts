@@ -0,0 +1,104 @@
+import { describe, it, expect, vi } from 'vitest';
+import { invoke } from '@tauri-apps/api/core';
+import { computeAnnotationStats, generateAnnotationStatsCsv, collectAnnotationStats } from '../utils/annotationStats';
+import { Annotation } from '../types';
+
+const mockInvoke = vi.mocked(invoke);
+
+const ann = (start: number, end: number, text: string): Annotation =>
+  ({ id: `${start}-${text}`, start, end, text, color: '#ffffff' });
+
+const tracks = [
+  { ident: 's1/rec_260731_0600', mediaPath: 's1/rec_260731_0600.wav' },
+  { ident: 's1/rec_260731_1800', mediaPath: 's1/rec_260731_1800.wav' },
+  { ident: 's2/rec_260801_0600', mediaPath: 's2/rec_260801_0600.wav' },
+  { ident: 'loose', mediaPath: 'loose.wav' },
+];
+
+const byIdent = new Map<string, Annotation[]>([
+  ['s1/rec_260731_0600', [ann(0, 2, 'buzz'), ann(5, 6, 'buzz'), ann(7, 7.5, 'bird')]],
+  ['s2/rec_260801_0600', [ann(1, 4, 'buzz')]],
+  ['orphan', [ann(0, 1, 'bird')]],
+]);
+
+describe('computeAnnotationStats', () => {
+  const stats = computeAnnotationStats(tracks, byIdent, 'YYMMDD_HHMM');
+
+  it('counts labels across every file, orphans included', () => {
+    expect(stats.labels).toEqual([
+      { label: 'buzz', count: 3, totalDuration: 6, tracks: 2 },
+      { label: 'bird', count: 2, totalDuration: 1.5, tracks: 2 },
+    ]);
+    expect(stats.totalAnnotations).toBe(5);
+    expect(stats.totalDuration).toBe(7.5);
+  });
+
+  it('counts only media tracks toward progress', () => {
+    expect(stats.tracks).toBe(4);
+    expect(stats.annotatedTracks).toBe(2);
+  });
+
+  it('groups progress by containing folder', () => {
+    expect(stats.folders.map(f => [f.name, f.tracks, f.annotatedTracks, f.annotations])).toEqual([
+      ['', 1, 0, 0],
+      ['s1', 2, 1, 3],
+      ['s2', 1, 1, 1],
+    ]);
+  });
+
+  it('groups progress by recording day, setting aside unparsable names', () => {
+    expect(stats.days!.map(d => [d.name, d.tracks, d.annotatedTracks, d.annotations])).toEqual([
+      ['2026-07-31', 2, 1, 3],
+      ['2026-08-01', 1, 1, 1],
+    ]);
+    expect(stats.undatedTracks).toBe(1);
+  });
+
+  it('has no days without a filename time format', () => {
+    expect(computeAnnotationStats(tracks, byIdent, undefined).days).toBeNull();
+  });
+});
+
+describe('generateAnnotationStatsCsv', () => {
+  it('writes one long-format table with a section column', () => {
+    const stats = computeAnnotationStats(tracks.slice(0, 1), new Map([['s1/rec_260731_0600', [ann(0, 2, 'a, b')]]]), 'YYMMDD_HHMM');
+    expect(generateAnnotationStatsCsv(stats, 1).trimEnd().split('\n')).toEqual([
+      'section,name,tracks,annotated_tracks,annotations,total_duration_s',
+      'project,,1,1,1,2.0',
+      'label,"a, b",1,,1,2.0',
+      'folder,s1,1,1,1,2.0',
+      'day,2026-07-31,1,1,1,2.0',
+    ]);
+  });
+});
+
+describe('collectAnnotationStats', () => {
+  it('reads every annotation file and prefers the live track', async () => {
+    const files: Record<string, string> = {
+      '/ann/a.txt': '0\t1\tbuzz\n1\t3\tbuzz\n',
+      '/ann/b.txt': '0\t1\tbird\n',
+    };
+    mockInvoke.mockImplementation(async (cmd: string, args?: unknown) => {
+      if (cmd === 'list_annotation_files') return ['a', 'b'];
+      if (cmd === 'read_text_file') {
+        const path = (args as { path: string }).path;
+        if (path in files) return files[path];
+        throw new Error('missing');
+      }
+      throw new Error(`unexpected ${cmd}`);
+    });
+    try {
+      const stats = await collectAnnotationStats({
+        annotationDir: '/ann',
+        mediaRoot: '/media',
+        mediaFiles: ['/media/a.wav', '/media/b.wav', '/media/c.wav'],
+        live: { ident: 'b', annotations: [] },
+      });
+      expect(stats.labels).toEqual([{ label: 'buzz', count: 2, totalDuration: 3, tracks: 1 }]);
+      expect([stats.tracks, stats.annotatedTracks]).toEqual([3, 1]);
+    } finally {
+      mockInvoke.mockReset();
+      mockInvoke.mockImplementation(() => Promise.reject(new Error('Tauri invoke unavailable in tests')));
+    }
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import { Annotation, LabelSubset } from '../types';
+import { annotationRanges, labelSubsetMatcher, labelSubsetTimelineFor, settledAnnotationsFor } from '../utils/annotationSubset';
+import { projectAnnotations, reconcileAnnotations } from '../utils/annotationProjection';
+import { exactLabelMatcher } from '../utils/helpers';
+
+const ann = (start: number, end: number, text: string): Annotation =>
+  ({ id: `${text}-${start}`, start, end, text, color: '#fff' });
+
+const annotations: Annotation[] = [
+  ann(40, 42, 'waggle'),
+  ann(10, 12, 'waggle'),
+  ann(20, 25, 'tremble'),
+  ann(12.5, 14, 'waggle dance'),
+];
+
+const subset = (over: Partial<LabelSubset>): LabelSubset => ({
+  label: 'waggle', useRegex: false, partial: false, padding: 0, ...over,
+});
+
+describe('labelSubsetMatcher', () => {
+  it('is null for a blank query or an invalid regex', () => {
+    expect(labelSubsetMatcher(subset({ label: '  ' }))).toBeNull();
+    expect(labelSubsetMatcher(subset({ label: '[', useRegex: true }))).toBeNull();
+  });
+
+  it('matches as Find Label does: exact, partial, regex', () => {
+    expect(labelSubsetMatcher(subset({}))!('waggle dance')).toBe(false);
+    expect(labelSubsetMatcher(subset({ partial: true }))!('waggle dance')).toBe(true);
+    expect(labelSubsetMatcher(subset({ label: '^w.*e$', useRegex: true }))!('waggle dance')).toBe(true);
+  });
+});
+
+describe('annotationRanges', () => {
+  it('keeps matching annotations in start order, padded both sides', () => {
+    expect(annotationRanges(annotations, exactLabelMatcher('waggle'), 1)).toEqual([
+      { start: 9, end: 13 },
+      { start: 39, end: 43 },
+    ]);
+  });
+
+  it('drops point annotations unless padded', () => {
+    const points = [ann(5, 5, 'x')];
+    expect(annotationRanges(points, exactLabelMatcher('x'), 0)).toEqual([]);
+    expect(annotationRanges(points, exactLabelMatcher('x'), 0.5)).toEqual([{ start: 4.5, end: 5.5 }]);
+  });
+});
+
+describe('labelSubsetTimelineFor', () => {
+  it('is the identity timeline with no subset or an unusable query', () => {
+    expect(labelSubsetTimelineFor(annotations, null, 60).identity).toBe(true);
+    expect(labelSubsetTimelineFor(annotations, subset({ label: '' }), 60).identity).toBe(true);
+  });
+
+  it('butts the matching annotations together, merging the ones padding joins', () => {
+    const t = labelSubsetTimelineFor(annotations, subset({ partial: true, padding: 0.5 }), 60);
+    expect(t.spans.map(s => [s.srcStart, s.srcEnd, s.dispStart])).toEqual([
+      [9.5, 14.5, 0],
+      [39.5, 42.5, 5],
+    ]);
+    expect(t.duration).toBe(8);
+  });
+
+  it('clamps padding to the file', () => {
+    const t = labelSubsetTimelineFor([ann(0.2, 1, 'a'), ann(9, 9.8, 'a')], subset({ label: 'a', padding: 1 }), 10);
+    expect(t.spans[0].srcStart).toBe(0);
+    expect(t.spans[t.spans.length - 1].srcEnd).toBe(10);
+  });
+
+  it('keeps nothing when no annotation matches', () => {
+    const t = labelSubsetTimelineFor(annotations, subset({ label: 'buzz' }), 60);
+    expect(t.identity).toBe(false);
+    expect(t.spans).toEqual([]);
+    expect(t.duration).toBe(0);
+  });
+});
+
+describe('resizing a matching annotation with the subset on', () => {
+  it('holds the axis still through the drag and reshapes it on release', () => {
+    const committed = [ann(10, 12, 'waggle'), ann(40, 42, 'waggle'), ann(20, 25, 'tremble')];
+    const labelSubset = subset({ padding: 1 });
+    let annotations = committed;
+    let live: Annotation[] | null = null;
+    let settled = committed;
+    const timelineNow = () => {
+      settled = settledAnnotationsFor(annotations, live, settled);
+      return labelSubsetTimelineFor(settled, labelSubset, 60);
+    };
+
+    const before = timelineNow();
+    expect(before.duration).toBe(8);
+    // Each mousemove drags the first annotation's end on, through the seam as
+    // the window routes it: projected, edited in display time, reconciled.
+    for (const dispEnd of [3.2, 3.5, 3.9]) {
+      const timeline = timelineNow();
+      expect(settled).toBe(committed);
+      expect(timeline.spans).toEqual(before.spans);
+      const { shown, hidden } = projectAnnotations(annotations, timeline);
+      const displayed = shown.map(a => (a.id === 'waggle-10' ? { ...a, end: dispEnd } : a));
+      live = reconcileAnnotations(displayed, annotations, hidden, timeline);
+      annotations = live;
+      expect(annotations.find(a => a.id === 'waggle-10')!.end).toBeCloseTo(9 + dispEnd);
+    }
+    expect(timelineNow().spans).toEqual(before.spans);
+
+    // Release commits a fresh array, which the axis then follows.
+    annotations = [...annotations];
+    const after = timelineNow();
+    expect(after.spans[0].srcEnd).toBeCloseTo(13.9);
+    expect(after.duration).toBeCloseTo(8.9);
+  });
+});
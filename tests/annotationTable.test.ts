@@ -0,0 +1,126 @@
+import { describe, it, expect, vi } from 'vitest';
+import { invoke } from '@tauri-apps/api/core';
+import {
+  identInFolder,
+  folderIdentsOf,
+  annotationTableRows,
+  generateAnnotationTableCsv,
+  collectAnnotationTable,
+} from '../utils/annotationTable';
+import { exactLabelMatcher } from '../utils/helpers';
+import { Annotation } from '../types';
+
+const mockInvoke = vi.mocked(invoke);
+
+const ann = (start: number, end: number, text: string, extra: Partial<Annotation> = {}): Annotation =>
+  ({ id: `${start}-${text}`, start, end, text, color: '#ff0000', ...extra });
+
+describe('identInFolder', () => {
+  it('matches the whole subtree and nothing beside it', () => {
+    expect(identInFolder('site1/a', '')).toBe(true);
+    expect(identInFolder('site1/a', 'site1')).toBe(true);
+    expect(identInFolder('site1/day2/a', 'site1')).toBe(true);
+    expect(identInFolder('site10/a', 'site1')).toBe(false);
+  });
+});
+
+describe('folderIdentsOf', () => {
+  it('lists every ancestor folder once, sorted', () => {
+    expect(folderIdentsOf(['b/x', 'a/c/y', 'a/z', 'top'])).toEqual(['a', 'a/c', 'b']);
+  });
+});
+
+describe('annotationTableRows', () => {
+  const anns = [ann(5, 6, 'buzz'), ann(1, 2, 'bird', { lowFreq: 2000, highFreq: 4000 }), ann(3, 4, 'buzz')];
+
+  it('filters by label and sorts by start', () => {
+    const rows = annotationTableRows('s/r', 's/r.wav', anns, exactLabelMatcher('buzz'), undefined);
+    expect(rows.map(r => r.start)).toEqual([3, 5]);
+    expect(rows[0]).toMatchObject({ ident: 's/r', mediaPath: 's/r.wav', label: 'buzz', trackStart: null });
+  });
+
+  it('leaves the input array in its original order', () => {
+    annotationTableRows('s/r', 's/r.wav', anns, null, undefined);
+    expect(anns.map(a => a.start)).toEqual([5, 1, 3]);
+  });
+
+  it('parses the wall-clock start from the media filename', () => {
+    const rows = annotationTableRows('s/r', 's/rec_260731_1656.wav', anns, null, 'YYMMDD_HHMM');
+    expect(rows[0].trackStart).toEqual(new Date(2026, 6, 31, 16, 56, 0));
+  });
+
+  it('falls back to the ident when there is no media file', () => {
+    const rows = annotationTableRows('s/rec_260731_1656', '', anns, null, 'YYMMDD_HHMM');
+    expect(rows[0].trackStart).toEqual(new Date(2026, 6, 31, 16, 56, 0));
+  });
+});
+
+describe('generateAnnotationTableCsv', () => {
+  it('writes a header, band columns for boxes and wall-clock columns when known', () => {
+    const rows = [
+      ...annotationTableRows('a', 'a_260731_1656.wav', [ann(1.5, 2, 'bird', { lowFreq: 2000, highFreq: 4000 })], null, 'YYMMDD_HHMM'),
+      ...annotationTableRows('b', 'b.wav', [ann(0, 1, 'buzz')], null, 'YYMMDD_HHMM'),
+    ];
+    const lines = generateAnnotationTableCsv(rows, 2).trimEnd().split('\n');
+    expect(lines[0]).toBe('ident,media_path,start_s,end_s,label,color,low_freq_hz,high_freq_hz,start_datetime,end_datetime,note,confidence,uncertain,observer,roi_x,roi_y,roi_w,roi_h,roi_end_x,roi_end_y,roi_end_w,roi_end_h');
+    expect(lines[1]).toBe('a,a_260731_1656.wav,1.50,2.00,bird,#ff0000,2000.0,4000.0,2026-07-31 16:56:01.50,2026-07-31 16:56:02.00,,,false,,,,,,,,,');
+    expect(lines[2]).toBe('b,b.wav,0.00,1.00,buzz,#ff0000,,,,,,,false,,,,,,,,,');
+  });
+
+  it('quotes fields holding commas or quotes', () => {
+    const rows = annotationTableRows('a', 'a.wav', [ann(0, 1, 'say "hi", then')], null, undefined);
+    expect(generateAnnotationTableCsv(rows, 0).split('\n')[1]).toBe('a,a.wav,0,1,"say ""hi"", then",#ff0000,,,,,,,false,,,,,,,,,');
+  });
+
+  it('writes attribute columns', () => {
+    const attributes = { note: 'faint, far', confidence: 0.75, uncertain: true, observer: 'LH' };
+    const rows = annotationTableRows('a', 'a.wav', [ann(0, 1, 'buzz', { attributes })], null, undefined);
+    expect(generateAnnotationTableCsv(rows, 0).split('\n')[1]).toBe('a,a.wav,0,1,buzz,#ff0000,,,,,"faint, far",0.75,true,LH,,,,,,,,');
+  });
+
+  it('writes a video region as fractions of the frame', () => {
+    const region = { start: { x: 0.1, y: 0.2, w: 0.25, h: 0.5 }, end: { x: 0.5, y: 0.2, w: 0.25, h: 0.5 } };
+    const rows = annotationTableRows('a', 'a.mp4', [
+      ann(0, 1, 'fox', { attributes: { region } }),
+      ann(2, 3, 'owl', { attributes: { region: { start: region.start } } }),
+    ], null, undefined);
+    const lines = generateAnnotationTableCsv(rows, 0).split('\n');
+    expect(lines[1]).toBe('a,a.mp4,0,1,fox,#ff0000,,,,,,,false,,0.100000,0.200000,0.250000,0.500000,0.500000,0.200000,0.250000,0.500000');
+    expect(lines[2]).toBe('a,a.mp4,2,3,owl,#ff0000,,,,,,,false,,0.100000,0.200000,0.250000,0.500000,,,,');
+  });
+});
+
+describe('collectAnnotationTable', () => {
+  it('reads files in the folder, prefers the live track, and joins media paths', async () => {
+    const files: Record<string, string> = {
+      '/ann/s1/a.txt': '0\t1\tbuzz\n',
+      '/ann/s2/c.txt': '0\t1\tbuzz\n',
+    };
+    mockInvoke.mockImplementation(async (cmd: string, args?: unknown) => {
+      if (cmd === 'list_annotation_files') return ['s1/a', 's1/b', 's2/c'];
+      if (cmd === 'read_text_file') {
+        const path = (args as { path: string }).path;
+        if (path in files) return files[path];
+        throw new Error('missing');
+      }
+      throw new Error(`unexpected ${cmd}`);
+    });
+    try {
+      const rows = await collectAnnotationTable({
+        annotationDir: '/ann',
+        mediaRoot: '/media',
+        mediaFiles: ['/media/s1/a.wav', '/media/s1/b.flac'],
+        tools: [],
+        filter: { matcher: null, folder: 's1' },
+        live: { ident: 's1/b', annotations: [ann(2, 3, 'live')] },
+      });
+      expect(rows.map(r => [r.ident, r.mediaPath, r.label])).toEqual([
+        ['s1/a', 's1/a.wav', 'buzz'],
+        ['s1/b', 's1/b.flac', 'live'],
+      ]);
+    } finally {
+      mockInvoke.mockReset();
+      mockInvoke.mockImplementation(() => Promise.reject(new Error('Tauri invoke unavailable in tests')));
+    }
+  });
+});
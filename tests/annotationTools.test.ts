@@ -10,7 +10,13 @@ import {
   toPersistedTools,
   diffToolFolders,
   PersistedTool,
+  TOOL_HOTKEY_SLOTS,
+  parseToolHotkey,
+  toolHotkeyFromEvent,
+  compareToolHotkeys,
+  formatToolHotkey,
 } from '../utils/annotationTools';
+import { MOD_KEY_LABEL } from '../utils/platform';
 import type { FolderTool } from '../utils/tauriCommands';
 
 const folder = (name: string, color = '#111111', description = '', example_files: string[] = []): FolderTool =>
@@ -78,6 +84,39 @@ describe('buildHotkeyMap', () => {
   });
 });
 
+describe('tool hotkey slots', () => {
+  it('has three banks of nine', () => {
+    expect(TOOL_HOTKEY_SLOTS).toHaveLength(27);
+    expect(TOOL_HOTKEY_SLOTS.slice(8, 10)).toEqual(['9', 'shift+1']);
+    expect(parseToolHotkey('mod+4')).toEqual({ bank: 'mod', digit: '4' });
+    expect(parseToolHotkey('0')).toBeNull();
+    expect(parseToolHotkey('shift+0')).toBeNull();
+  });
+
+  it('picks the bank from the modifiers held, Alt counting as none', () => {
+    expect(toolHotkeyFromEvent('3', [])).toBe('3');
+    expect(toolHotkeyFromEvent('3', ['alt'])).toBe('3');
+    expect(toolHotkeyFromEvent('3', ['shift'])).toBe('shift+3');
+    expect(toolHotkeyFromEvent('3', ['mod'])).toBe('mod+3');
+  });
+
+  it('orders Custom first, then bank by bank', () => {
+    expect(['mod+1', 'shift+2', '9', '0', '1'].sort(compareToolHotkeys)).toEqual(['0', '1', '9', 'shift+2', 'mod+1']);
+  });
+
+  it('formats the chord a slot is pressed with', () => {
+    expect(formatToolHotkey('3')).toBe('3');
+    expect(formatToolHotkey('shift+3')).toBe('Shift+3');
+    expect(formatToolHotkey('mod+3')).toBe(`${MOD_KEY_LABEL}+3`);
+  });
+
+  it('keeps banked hotkeys through the preferences map', () => {
+    const hotkeys = { a: 'shift+1', b: 'mod+9' };
+    const tools = assembleTools([folder('a'), folder('b')], hotkeys, '#fff', n => n);
+    expect(buildHotkeyMap(tools)).toEqual(hotkeys);
+  });
+});
+
 describe('mergeImportedTools', () => {
   const current = () => assembleTools([folder('a', '#aa0000')], { a: '1' }, '#fff', n => `id-${n}`);
 
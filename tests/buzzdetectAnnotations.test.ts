@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { Annotation, BuzzdetectData } from '../types';
+import { addDetections, detectionEvents, detectionsToAnnotations } from '../utils/buzzdetectAnnotations';
+
+// Ten 1s frames at 0,1,...,9. `bee` fires at 1,2,3, 5 and 9; `fly` fires at 5.
+const data: BuzzdetectData = {
+  binWidth: 1,
+  neurons: ['bee', 'fly'],
+  starts: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9],
+  values: [
+    [-1, 2, 2, 2, -1, 2, -1, -1, -1, 2],
+    [-1, -1, -1, -1, -1, 2, -1, -1, -1, -1],
+  ],
+};
+
+describe('detectionEvents', () => {
+  it('merges contiguous detected frames', () => {
+    expect(detectionEvents(data, 'bee', 0, { minDuration: 0, maxGap: 0 })).toEqual([
+      { start: 1, end: 4 }, { start: 5, end: 6 }, { start: 9, end: 10 },
+    ]);
+  });
+
+  it('bridges gaps up to maxGap', () => {
+    expect(detectionEvents(data, 'bee', 0, { minDuration: 0, maxGap: 1 })).toEqual([
+      { start: 1, end: 6 }, { start: 9, end: 10 },
+    ]);
+  });
+
+  it('drops events shorter than minDuration', () => {
+    expect(detectionEvents(data, 'bee', 0, { minDuration: 2, maxGap: 0 })).toEqual([{ start: 1, end: 4 }]);
+  });
+
+  it('uses the neuron\'s threshold and ignores unknown neurons', () => {
+    expect(detectionEvents(data, 'bee', 3, { minDuration: 0, maxGap: 0 })).toEqual([]);
+    expect(detectionEvents(data, 'wasp', 0, { minDuration: 0, maxGap: 0 })).toEqual([]);
+  });
+});
+
+describe('detectionsToAnnotations', () => {
+  it('labels each neuron\'s events with its mapping, by start time', () => {
+    const out = detectionsToAnnotations(
+      data,
+      [{ neuron: 'fly', text: 'Fly', color: '#00ff00' }, { neuron: 'bee', text: 'Bee', color: '#ff0000' }],
+      () => 0,
+      { minDuration: 0, maxGap: 0 },
+    );
+    expect(out.map(a => [a.start, a.end, a.text, a.color])).toEqual([
+      [1, 4, 'Bee', '#ff0000'],
+      [5, 6, 'Fly', '#00ff00'],
+      [5, 6, 'Bee', '#ff0000'],
+      [9, 10, 'Bee', '#ff0000'],
+    ]);
+    expect(new Set(out.map(a => a.id)).size).toBe(4);
+  });
+});
+
+describe('addDetections', () => {
+  const ann = (start: number, end: number, text: string): Annotation =>
+    ({ id: `${start}-${text}`, start, end, text, color: '#ffffff' });
+
+  it('skips events that are already annotated exactly', () => {
+    const existing = [ann(1, 4, 'Bee'), ann(0, 1, 'Bird')];
+    const { annotations, added } = addDetections(existing, [ann(1, 4, 'Bee'), ann(1, 4, 'Fly')]);
+    expect(added).toBe(1);
+    expect(annotations.map(a => a.text)).toEqual(['Bird', 'Bee', 'Fly']);
+  });
+
+  it('returns the list untouched when nothing is new', () => {
+    const existing = [ann(1, 4, 'Bee')];
+    expect(addDetections(existing, [ann(1, 4, 'Bee')]).annotations).toBe(existing);
+  });
+});
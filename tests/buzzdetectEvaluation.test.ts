@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { Annotation, BuzzdetectData } from '../types';
+import { bestThreshold, frameTruth, sweepThresholds, thresholdCandidates, EvaluationTrack } from '../utils/buzzdetectEvaluation';
+
+// Four 1s frames; `bee` rises 0,1,2,3 and the label covers the last two.
+const data: BuzzdetectData = {
+  binWidth: 1,
+  neurons: ['bee'],
+  starts: [0, 1, 2, 3],
+  values: [[0, 1, 2, 3]],
+};
+
+const ann = (start: number, end: number, text = 'Bee'): Annotation =>
+  ({ id: `${start}-${text}`, start, end, text, color: '#ffffff' });
+
+const track = (annotations: Annotation[], d: BuzzdetectData = data): EvaluationTrack =>
+  ({ ident: 't', data: d, annotations });
+
+describe('frameTruth', () => {
+  it('marks frames at least half covered by the label', () => {
+    expect(frameTruth(data, [ann(1.5, 2.4)], 'Bee')).toEqual([false, true, false, false]);
+    expect(frameTruth(data, [ann(1.6, 2.4)], 'Bee')).toEqual([false, false, false, false]);
+  });
+
+  it('merges overlapping annotations and ignores other labels', () => {
+    expect(frameTruth(data, [ann(0, 0.8), ann(0.2, 0.8), ann(2, 3, 'Fly')], 'Bee')).toEqual([true, false, false, false]);
+    expect(frameTruth(data, [ann(0, 0.3), ann(0.2, 0.4)], 'Bee')).toEqual([false, false, false, false]);
+  });
+});
+
+describe('thresholdCandidates', () => {
+  it('spaces thresholds evenly over the activation range', () => {
+    expect(thresholdCandidates([track([])], 'bee', 3)).toEqual([0, 1, 2, 3]);
+  });
+
+  it('rounds to hundredths and drops repeats', () => {
+    const narrow: BuzzdetectData = { ...data, values: [[0.001, 0.004, 0.012, 0.013]] };
+    expect(thresholdCandidates([track([], narrow)], 'bee', 4)).toEqual([0, 0.01]);
+  });
+
+  it('is empty for a neuron with no activations', () => {
+    expect(thresholdCandidates([track([])], 'fly', 3)).toEqual([]);
+  });
+});
+
+describe('sweepThresholds', () => {
+  it('pools bin-level counts across tracks', () => {
+    const points = sweepThresholds([track([ann(2, 4)]), track([])], 'bee', 'Bee', [0, 2, 3, 4]);
+    expect(points.map(p => [p.tp, p.fp, p.fn])).toEqual([[2, 6, 0], [2, 2, 0], [1, 1, 1], [0, 0, 2]]);
+    expect(points[1].precision).toBe(0.5);
+    expect(points[1].recall).toBe(1);
+    expect(points[3].precision).toBeNull();
+  });
+
+  it('keeps the order thresholds were given in', () => {
+    const points = sweepThresholds([track([ann(2, 4)])], 'bee', 'Bee', [3, 0]);
+    expect(points.map(p => p.threshold)).toEqual([3, 0]);
+    expect(points.map(p => p.tp)).toEqual([1, 2]);
+  });
+
+  it('leaves recall undefined when the label never occurs', () => {
+    const [point] = sweepThresholds([track([])], 'bee', 'Bee', [0]);
+    expect(point.recall).toBeNull();
+    expect(point.f1).toBeNull();
+  });
+});
+
+describe('bestThreshold', () => {
+  it('picks the highest F1, then the lowest threshold', () => {
+    const points = sweepThresholds([track([ann(2, 4)])], 'bee', 'Bee', [0, 1, 2, 3]);
+    expect(bestThreshold(points)?.threshold).toBe(2);
+    expect(bestThreshold([])).toBeNull();
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import {
+  viewChannels,
+  laneLayout,
+  laneIndexAtY,
+  annotationLaneIndex,
+  laneYToFreq,
+  laneFreqToY,
+} from '../utils/channelLanes';
+import { Annotation } from '../types';
+
+const ann = (channel?: number): Annotation => ({
+  id: 'a', start: 0, end: 1, text: '', color: '#fff',
+  ...(channel !== undefined ? { attributes: { channel } } : {}),
+});
+
+describe('viewChannels', () => {
+  it('mixes down mono files and the mixdown view', () => {
+    expect(viewChannels('stacked', 1)).toEqual([null]);
+    expect(viewChannels('mixdown', 2)).toEqual([null]);
+    expect(viewChannels(undefined, 2)).toEqual([null]);
+  });
+
+  it('lists every channel when stacked and one when a channel is picked', () => {
+    expect(viewChannels('stacked', 3)).toEqual([0, 1, 2]);
+    expect(viewChannels(1, 2)).toEqual([1]);
+  });
+
+  it('falls back to the mixdown for a channel the file lacks', () => {
+    expect(viewChannels(3, 2)).toEqual([null]);
+  });
+});
+
+describe('laneLayout / laneIndexAtY', () => {
+  it('tiles the height exactly', () => {
+    const lanes = laneLayout([0, 1, 2], 100);
+    expect(lanes.map(l => [l.top, l.height])).toEqual([[0, 33], [33, 34], [67, 33]]);
+    expect(lanes.reduce((sum, l) => sum + l.height, 0)).toBe(100);
+  });
+
+  it('finds the lane under a y, clamping past either end', () => {
+    const lanes = laneLayout([0, 1], 100);
+    expect(laneIndexAtY(lanes, -5)).toBe(0);
+    expect(laneIndexAtY(lanes, 49)).toBe(0);
+    expect(laneIndexAtY(lanes, 50)).toBe(1);
+    expect(laneIndexAtY(lanes, 500)).toBe(1);
+  });
+});
+
+describe('annotationLaneIndex', () => {
+  const lanes = laneLayout([0, 1], 100);
+
+  it('places a tagged annotation in its channel lane', () => {
+    expect(annotationLaneIndex(ann(1), lanes)).toBe(1);
+  });
+
+  it('spans every lane when untagged, off-screen, or not stacked', () => {
+    expect(annotationLaneIndex(ann(), lanes)).toBeNull();
+    expect(annotationLaneIndex(ann(4), lanes)).toBeNull();
+    expect(annotationLaneIndex(ann(1), laneLayout([1], 100))).toBeNull();
+  });
+});
+
+describe('laneYToFreq / laneFreqToY', () => {
+  it('round-trips inside a lane and clamps outside it', () => {
+    const lane = laneLayout([0, 1], 200)[1];
+    const y = laneFreqToY(lane, 3000, 0, 8000, 'linear');
+    expect(y).toBeGreaterThanOrEqual(lane.top);
+    expect(laneYToFreq(lane, y, 0, 8000, 'linear')).toBeCloseTo(3000, 6);
+    expect(laneYToFreq(lane, 0, 0, 8000, 'linear')).toBeCloseTo(8000, 6);
+    expect(laneYToFreq(lane, 1000, 0, 8000, 'linear')).toBeCloseTo(0, 6);
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { colormapLut, colormapStops, colormapCss, sampleStops, DEFAULT_CUSTOM_COLORMAP } from '../utils/colormaps';
+import { MAGMA_STOPS } from '../constants';
+
+const rgbAt = (lut: Uint8ClampedArray, i: number) => [lut[i * 3], lut[i * 3 + 1], lut[i * 3 + 2]];
+
+describe('colormapStops', () => {
+  it('reads a missing or unknown colormap as Roseus', () => {
+    expect(colormapStops(undefined)).toBe(MAGMA_STOPS);
+    expect(colormapStops('roseus')).toBe(MAGMA_STOPS);
+  });
+
+  it('builds a custom colormap from its two colors, or the default pair', () => {
+    expect(colormapStops('custom', ['#ff0000', '#0000ff'])).toEqual([
+      { pos: 0, r: 255, g: 0, b: 0 },
+      { pos: 1, r: 0, g: 0, b: 255 },
+    ]);
+    expect(colormapStops('custom')[1]).toEqual({ pos: 1, r: 0xfa, g: 0xfb, b: 0xc6 });
+    expect(DEFAULT_CUSTOM_COLORMAP[0]).toBe('#000000');
+  });
+});
+
+describe('sampleStops', () => {
+  it('interpolates between stops and clamps outside [0, 1]', () => {
+    const stops = colormapStops('grayscale');
+    expect(sampleStops(stops, 0.5)).toEqual([128, 128, 128]);
+    expect(sampleStops(stops, -1)).toEqual([0, 0, 0]);
+    expect(sampleStops(stops, 2)).toEqual([255, 255, 255]);
+  });
+});
+
+describe('colormapLut', () => {
+  it('spans floor to ceiling over 256 entries', () => {
+    const gray = colormapLut('grayscale');
+    expect(gray).toHaveLength(768);
+    expect(rgbAt(gray, 0)).toEqual([0, 0, 0]);
+    expect(rgbAt(gray, 255)).toEqual([255, 255, 255]);
+    const inverted = colormapLut('grayscaleInverted');
+    expect(rgbAt(inverted, 0)).toEqual([255, 255, 255]);
+    expect(rgbAt(inverted, 255)).toEqual([0, 0, 0]);
+  });
+
+  it('returns the same table for the same choice and a new one for new colors', () => {
+    expect(colormapLut('viridis')).toBe(colormapLut('viridis'));
+    expect(colormapLut(undefined)).toBe(colormapLut('roseus'));
+    const a = colormapLut('custom', ['#000000', '#ffffff']);
+    expect(colormapLut('custom', ['#000000', '#ffffff'])).toBe(a);
+    expect(colormapLut('custom', ['#000000', '#ff0000'])).not.toBe(a);
+  });
+});
+
+describe('colormapCss', () => {
+  it('previews the colormap as a left-to-right gradient', () => {
+    const css = colormapCss('grayscale');
+    expect(css.startsWith('linear-gradient(to right, rgb(0, 0, 0) 0.0%')).toBe(true);
+    expect(css.endsWith('rgb(255, 255, 255) 100.0%)')).toBe(true);
+  });
+});
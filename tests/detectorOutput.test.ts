@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_BUZZDETECT_THRESHOLD, DEFAULT_SCORE_THRESHOLD } from '../constants';
+import {
+  defaultThresholdOf, detectorFileNames, eventsToFrames, parseBirdnetOutput, parseLongFormat,
+} from '../utils/detectorOutput';
+
+describe('parseBirdnetOutput', () => {
+  it('reads a selection table by its Common Name and Confidence columns', () => {
+    const table = [
+      'Selection\tView\tChannel\tBegin Time (s)\tEnd Time (s)\tLow Freq (Hz)\tHigh Freq (Hz)\tCommon Name\tSpecies Code\tConfidence',
+      '1\tSpectrogram 1\t1\t0\t3.0\t0\t15000\tAmerican Robin\tamerob\t0.81',
+      '2\tSpectrogram 1\t1\t6.0\t9.0\t0\t15000\tBlue Jay\tblujay\t0.42',
+    ].join('\n');
+    expect(parseBirdnetOutput(table)).toEqual([
+      { start: 0, end: 3, label: 'American Robin', score: 0.81 },
+      { start: 6, end: 9, label: 'Blue Jay', score: 0.42 },
+    ]);
+  });
+
+  it('uses File Offset (s) in a table covering several files', () => {
+    const table = [
+      'Selection\tView\tChannel\tBegin Time (s)\tEnd Time (s)\tCommon Name\tConfidence\tBegin Path\tFile Offset (s)',
+      '1\tSpectrogram 1\t1\t603.0\t606.0\tBlue Jay\t0.5\t/b.wav\t3.0',
+    ].join('\n');
+    expect(parseBirdnetOutput(table)).toEqual([{ start: 3, end: 6, label: 'Blue Jay', score: 0.5 }]);
+  });
+
+  it('reads a results CSV, quoted names included', () => {
+    const csv = [
+      'Start (s),End (s),Scientific name,Common name,Confidence',
+      '3.0,6.0,Turdus migratorius,"Robin, American",0.7',
+    ].join('\r\n');
+    expect(parseBirdnetOutput(csv)).toEqual([{ start: 3, end: 6, label: 'Robin, American', score: 0.7 }]);
+  });
+
+  it('rejects a file without the expected columns', () => {
+    expect(() => parseBirdnetOutput('a,b\n1,2')).toThrow(/Confidence/);
+  });
+});
+
+describe('parseLongFormat', () => {
+  it('reads the columns in any order', () => {
+    expect(parseLongFormat('class,score,start,end\nbee,0.9,1,2\n')).toEqual([{ start: 1, end: 2, label: 'bee', score: 0.9 }]);
+  });
+
+  it('names the row that does not parse', () => {
+    expect(() => parseLongFormat('start,end,class,score\n1,2,bee,high')).toThrow(/row 2/);
+  });
+});
+
+describe('eventsToFrames', () => {
+  it('grids overlapping windows at their start spacing, keeping the highest score', () => {
+    const data = eventsToFrames([
+      { start: 0, end: 3, label: 'robin', score: 0.6 },
+      { start: 1.5, end: 4.5, label: 'robin', score: 0.9 },
+      { start: 3, end: 6, label: 'jay', score: 0.4 },
+    ]);
+    expect(data.binWidth).toBe(1.5);
+    expect(data.neurons).toEqual(['robin', 'jay']);
+    expect(data.starts).toEqual([0, 1.5, 3, 4.5]);
+    expect(data.values).toEqual([[0.6, 0.9, 0.9, 0], [0, 0, 0.4, 0.4]]);
+    expect(data.defaultThreshold).toBe(DEFAULT_SCORE_THRESHOLD);
+  });
+
+  it('uses a pinned frame length as-is', () => {
+    const data = eventsToFrames([{ start: 0, end: 3, label: 'robin', score: 0.6 }], 1);
+    expect(data.starts).toEqual([0, 1, 2]);
+    expect(data.values).toEqual([[0.6, 0.6, 0.6]]);
+  });
+
+  it('gives an empty grid for no events', () => {
+    expect(eventsToFrames([])).toMatchObject({ neurons: [], starts: [], values: [] });
+  });
+});
+
+describe('detector lookup', () => {
+  it('names each format\'s files', () => {
+    expect(detectorFileNames('buzzdetect', 'a/b')).toEqual(['a/b_buzzdetect.csv']);
+    expect(detectorFileNames('birdnet', 'x')).toEqual(['x.BirdNET.selection.table.txt', 'x.BirdNET.results.csv']);
+    expect(detectorFileNames('long', 'x')).toEqual(['x_detections.csv']);
+  });
+
+  it('defaults thresholds to the logit boundary unless the data says otherwise', () => {
+    expect(defaultThresholdOf(null)).toBe(DEFAULT_BUZZDETECT_THRESHOLD);
+    expect(defaultThresholdOf(eventsToFrames([]))).toBe(DEFAULT_SCORE_THRESHOLD);
+  });
+});
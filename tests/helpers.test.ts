@@ -36,6 +36,8 @@ const ann = (
   end,
   text,
   color: extras.color,
+  ...(extras.lowFreq !== undefined ? { lowFreq: extras.lowFreq } : {}),
+  ...(extras.highFreq !== undefined ? { highFreq: extras.highFreq } : {}),
 });
 
 describe('formatTime', () => {
@@ -255,6 +257,13 @@ describe('calculateAnnotationLayers', () => {
     const out = calculateAnnotationLayers([ann(0, 1), ann(1, 2)]);
     expect(out.map(a => a.layerIndex)).toEqual([0, 0]);
   });
+
+  it('keeps box annotations out of the dodge layers', () => {
+    // The box overlaps both bands in time but sits at its own frequency, so
+    // the second band still only dodges the first.
+    const out = calculateAnnotationLayers([ann(0, 3, 'box', { lowFreq: 100, highFreq: 200 }), ann(1, 4), ann(2, 5)]);
+    expect(out.map(a => a.layerIndex)).toEqual([0, 0, 1]);
+  });
 });
 
 describe('generateAudacityContent', () => {
@@ -276,6 +285,11 @@ describe('generateAudacityContent', () => {
     const out = generateAudacityContent([ann(1.23456789, 2, 'x')], 4);
     expect(out).toBe('1.2346\t2.0000\tx\n');
   });
+
+  it('follows a box annotation with an Audacity frequency row', () => {
+    const out = generateAudacityContent([ann(0, 1, 'call', { lowFreq: 2000, highFreq: 4000 }), ann(2, 3, 'band')], 3);
+    expect(out).toBe('0.000\t1.000\tcall\n\\\t2000.0\t4000.0\n2.000\t3.000\tband\n');
+  });
 });
 
 describe('getExt', () => {
@@ -460,6 +474,27 @@ describe('parseAudacityContent', () => {
     expect(parsed).toHaveLength(1);
     expect(parsed[0]).toMatchObject({ start: 0.25, end: 1.75, text: 'bird' });
   });
+
+  it('attaches a frequency row to the label above it', () => {
+    const result = parseAudacityContent('0\t1\tbird\n\\\t2000\t4000\n2\t3\tnoise\n', tools);
+    expect(result).toHaveLength(2);
+    expect(result[0]).toMatchObject({ text: 'bird', lowFreq: 2000, highFreq: 4000 });
+    expect(result[1].lowFreq).toBeUndefined();
+    expect(result[1].highFreq).toBeUndefined();
+  });
+
+  it('ignores an orphan or non-numeric frequency row', () => {
+    const result = parseAudacityContent('\\\t1\t2\n0\t1\tbird\n\\\tx\ty\n', tools);
+    expect(result).toHaveLength(1);
+    expect(result[0].lowFreq).toBeUndefined();
+  });
+
+  it('round-trips a box through generateAudacityContent', () => {
+    const text = generateAudacityContent([ann(0.25, 1.75, 'bird', { lowFreq: 8000, highFreq: 9500.5 })]);
+    const parsed = parseAudacityContent(text, tools);
+    expect(parsed).toHaveLength(1);
+    expect(parsed[0]).toMatchObject({ start: 0.25, end: 1.75, text: 'bird', lowFreq: 8000, highFreq: 9500.5 });
+  });
 });
 
 describe('matchingLinesInContent', () => {
@@ -479,6 +514,10 @@ describe('matchingLinesInContent', () => {
     expect(matchingLinesInContent('bad\nrow\tonly\nx\ty\tbird\n0\t1\tbird\n', exactLabelMatcher('bird'))).toEqual([{ start: 0, end: 1, label: 'bird' }]);
   });
 
+  it('never reports a frequency row as a label', () => {
+    expect(matchingLinesInContent('0\t1\tbird\n\\\t2000\t4000\n', regexLabelMatcher('.')!)).toEqual([{ start: 0, end: 1, label: 'bird' }]);
+  });
+
   it('supports a regex matcher, reporting each match\'s own label', () => {
     const content = '0\t1\tbird-a\n1\t2\tnoise\n2\t3\tbird-b\n';
     const matcher = regexLabelMatcher('^bird-');
@@ -581,6 +620,12 @@ describe('renameLabelInContent', () => {
     const result = renameLabelInContent(content, 'bird', 'sparrow');
     expect(result.updated).toBe('0\t1\ta\tb\n1\t2\tsparrow\n');
   });
+
+  it('leaves frequency rows untouched', () => {
+    const content = '0\t1\tbird\n\\\t2000\t4000\n';
+    expect(renameLabelInContent(content, '4000', 'x').changed).toBe(false);
+    expect(renameLabelInContent(content, 'bird', 'sparrow').updated).toBe('0\t1\tsparrow\n\\\t2000\t4000\n');
+  });
 });
 
 describe('mergeAnnotations', () => {
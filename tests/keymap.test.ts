@@ -0,0 +1,143 @@
+import { describe, it, expect } from 'vitest';
+import {
+  KEYMAP_ACTIONS, assignChord, bindAction, chordFromEvent, chordsEqual, codesForChord, formatChord,
+  keymapConflicts, keymapFromJson, keymapToJson, removeChord, reservedShortcutFor, resetAction, resolveKeymap,
+  shadowedDefaults,
+} from '../utils/keymap';
+
+const keydown = (key: string, code: string, mods: { shift?: boolean; alt?: boolean; ctrl?: boolean; meta?: boolean } = {}) => ({
+  key, code, shiftKey: !!mods.shift, altKey: !!mods.alt, ctrlKey: !!mods.ctrl, metaKey: !!mods.meta,
+});
+
+describe('resolveKeymap', () => {
+  it('uses the defaults when nothing is overridden', () => {
+    const keymap = resolveKeymap({});
+    for (const a of KEYMAP_ACTIONS) expect(keymap[a.id]).toEqual(a.defaults);
+  });
+
+  it('drops a default chord another action has been given', () => {
+    const keymap = resolveKeymap({ toggleMute: [{ key: 'r' }] });
+    expect(keymap.toggleMute).toEqual([{ key: 'r' }]);
+    expect(keymap.toggleSpeed).toEqual([]);
+  });
+
+  it('has no conflicts in the defaults', () => {
+    expect(keymapConflicts(resolveKeymap({}))).toEqual([]);
+  });
+
+  it('reports two overrides on one chord, and a collision with a reserved key', () => {
+    const conflicts = keymapConflicts(resolveKeymap({ undo: [{ key: 'q' }], redo: [{ key: 'Q' }], zoomFit: [{ key: '3' }] }));
+    expect(conflicts).toHaveLength(2);
+    expect(conflicts.find(c => c.chord.key === 'Digit')?.ids).toEqual(['readyTool', 'zoomFit']);
+    expect(conflicts.find(c => c.chord.key === 'q')?.ids).toEqual(['undo', 'redo']);
+  });
+});
+
+describe('chordsEqual', () => {
+  it('ignores letter case and modifier order', () => {
+    expect(chordsEqual({ key: 'Z', mods: ['shift', 'mod'] }, { key: 'z', mods: ['mod', 'shift'] })).toBe(true);
+    expect(chordsEqual({ key: 'z', mods: ['mod'] }, { key: 'z' })).toBe(false);
+  });
+
+  it('treats Digit as every digit', () => {
+    expect(chordsEqual({ key: 'Digit' }, { key: '7' })).toBe(true);
+    expect(reservedShortcutFor({ key: '7', mods: ['alt'] })).toBe('readyTool');
+    expect(reservedShortcutFor({ key: '7', mods: ['shift'] })).toBe('readyTool');
+    expect(reservedShortcutFor({ key: '7', mods: ['mod'] })).toBe('readyTool');
+    expect(reservedShortcutFor({ key: '0', mods: ['mod'] })).toBeNull();
+  });
+});
+
+describe('editing', () => {
+  it('moves a chord off the action that had it', () => {
+    const { overrides, reassignedFrom } = assignChord({}, 'toggleMute', { key: 'r' }, 0);
+    expect(reassignedFrom).toEqual(['toggleSpeed']);
+    const keymap = resolveKeymap(overrides);
+    expect(keymap.toggleMute).toEqual([{ key: 'r' }]);
+    expect(keymap.toggleSpeed).toEqual([]);
+    expect(keymapConflicts(keymap)).toEqual([]);
+  });
+
+  it('adds a chord alongside the existing ones without duplicating', () => {
+    let { overrides } = assignChord({}, 'undo', { key: 'u' }, null);
+    expect(resolveKeymap(overrides).undo).toEqual([{ key: 'z', mods: ['mod'] }, { key: 'u' }]);
+    ({ overrides } = assignChord(overrides, 'undo', { key: 'U' }, null));
+    expect(resolveKeymap(overrides).undo).toHaveLength(2);
+  });
+
+  it('removes and resets', () => {
+    const removed = removeChord({}, 'redo', 1);
+    expect(resolveKeymap(removed).redo).toEqual([{ key: 'z', mods: ['mod', 'shift'] }]);
+    expect(resetAction(removed, 'redo')).toEqual({});
+  });
+
+  it('stores nothing for an action put back on its defaults', () => {
+    const { overrides } = assignChord({}, 'playPause', { key: ' ' }, 0);
+    expect(overrides).toEqual({});
+  });
+});
+
+describe('bindAction', () => {
+  it('makes one binding per chord with the shared options', () => {
+    const handler = () => {};
+    const bindings = bindAction(resolveKeymap({}), 'deleteAnnotation', handler, { preventDefault: false });
+    expect(bindings).toEqual([
+      { key: 'Delete', mods: undefined, handler, preventDefault: false },
+      { key: 'Backspace', mods: undefined, handler, preventDefault: false },
+    ]);
+  });
+});
+
+describe('chordFromEvent', () => {
+  it('waits for a key when only a modifier is down', () => {
+    expect(chordFromEvent(keydown('Shift', 'ShiftLeft', { shift: true }), false)).toBeNull();
+  });
+
+  it('maps the platform primary modifier to mod', () => {
+    expect(chordFromEvent(keydown('Z', 'KeyZ', { ctrl: true, shift: true }), false)).toEqual({ key: 'z', mods: ['mod', 'shift'] });
+    expect(chordFromEvent(keydown('z', 'KeyZ', { meta: true }), true)).toEqual({ key: 'z', mods: ['mod'] });
+    expect(chordFromEvent(keydown('z', 'KeyZ', { ctrl: true }), true)).toBeNull();
+  });
+
+  it('records the printed key under Alt, and digits under Shift', () => {
+    expect(chordFromEvent(keydown('£', 'Digit3', { alt: true }), true)).toEqual({ key: '3', mods: ['alt'] });
+    expect(chordFromEvent(keydown('#', 'Digit3', { shift: true }), false)).toEqual({ key: '3', mods: ['shift'] });
+    expect(chordFromEvent(keydown('∂', 'KeyD', { alt: true }), true)).toEqual({ key: 'd', mods: ['alt'] });
+  });
+});
+
+describe('display', () => {
+  it('formats chords and finds their keys', () => {
+    expect(formatChord({ key: 'z', mods: ['mod', 'shift'] })).toBe('{mod}+Shift+Z');
+    expect(formatChord({ key: 'ArrowLeft', mods: ['alt'] })).toBe('Alt+←');
+    expect(codesForChord({ key: '+' })).toEqual(['Equal']);
+    expect(codesForChord({ key: 'F1' })).toEqual(['F1']);
+  });
+});
+
+describe('keymap files', () => {
+  it('round-trips overrides', () => {
+    const overrides = { toggleMute: [{ key: 'n' }], redo: [] };
+    expect(keymapFromJson(keymapToJson(overrides))).toEqual(overrides);
+  });
+
+  it('keeps an override a newer default collides with, and reports the default it shadows', () => {
+    // Mute moved to N before review mode made N the reject default.
+    const overrides = { toggleMute: [{ key: 'n' }] };
+    const keymap = resolveKeymap(overrides);
+    expect(keymap.toggleMute).toEqual([{ key: 'n' }]);
+    expect(keymap.reviewReject).toEqual([]);
+    expect(shadowedDefaults(overrides)).toEqual([{ id: 'reviewReject', chord: { key: 'n' }, by: 'toggleMute' }]);
+    expect(shadowedDefaults({})).toEqual([]);
+  });
+
+  it('skips unknown actions and keeps defaults for missing ones', () => {
+    expect(keymapFromJson(JSON.stringify({ keymap: { somethingNew: [{ key: 'x' }], undo: [{ key: 'z', mods: ['mod'] }] } }))).toEqual({});
+  });
+
+  it('rejects malformed files', () => {
+    expect(() => keymapFromJson('not json')).toThrow('Not a JSON file');
+    expect(() => keymapFromJson('{"version":1}')).toThrow('No "keymap" object');
+    expect(() => keymapFromJson('{"keymap":{"undo":[{"key":"z","mods":["ctrl"]}]}}')).toThrow('Invalid shortcut for "undo"');
+  });
+});
@@ -0,0 +1,201 @@
+import { describe, it, expect } from 'vitest';
+import { indexMatroska, isMatroska, webCodecsConfig } from '../utils/matroskaDemux';
+import { ByteSource, memoryByteSource } from '../utils/videoIndex';
+
+// ── A minimal EBML writer, just enough to build test files ──────────────────
+
+type Bytes = number[];
+
+const idBytes = (id: number): Bytes => {
+  const out: Bytes = [];
+  for (let v = id; v > 0; v = Math.floor(v / 256)) out.unshift(v & 0xff);
+  return out;
+};
+const sizeBytes = (n: number): Bytes =>
+  n < 0x7f ? [0x80 | n]
+  : n < 0x3fff ? [0x40 | (n >> 8), n & 0xff]
+  : [0x10 | (n >>> 24), (n >> 16) & 0xff, (n >> 8) & 0xff, n & 0xff];
+const UNKNOWN_SIZE: Bytes = [0x01, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff];
+
+// concat rather than spread: a test file can hold multi-megabyte frames.
+const el = (id: number, ...children: Bytes[]): Bytes => {
+  const payload = ([] as Bytes).concat(...children);
+  return idBytes(id).concat(sizeBytes(payload.length), payload);
+};
+const unsized = (id: number, ...children: Bytes[]): Bytes => idBytes(id).concat(UNKNOWN_SIZE, ...children);
+const uint = (id: number, v: number): Bytes => {
+  const b: Bytes = [];
+  for (let x = v; x > 0 || b.length === 0; x = Math.floor(x / 256)) b.unshift(x & 0xff);
+  return el(id, b);
+};
+const str = (id: number, s: string): Bytes => el(id, [...s].map(c => c.charCodeAt(0)));
+const f64 = (id: number, v: number): Bytes => {
+  const view = new DataView(new ArrayBuffer(8));
+  view.setFloat64(0, v);
+  return el(id, Array.from(new Uint8Array(view.buffer)));
+};
+
+const EBML = 0x1a45dfa3, DOCTYPE = 0x4282, SEGMENT = 0x18538067, INFO = 0x1549a966, SCALE = 0x2ad7b1;
+const DURATION = 0x4489, TRACKS = 0x1654ae6b, ENTRY = 0xae, NUMBER = 0xd7, TYPE = 0x83, CODEC = 0x86;
+const PRIVATE = 0x63a2, DEFAULT_DURATION = 0x23e383, ENCODINGS = 0x6d80, VIDEO = 0xe0, WIDTH = 0xb0, HEIGHT = 0xba;
+const CLUSTER = 0x1f43b675, TIMESTAMP = 0xe7, SIMPLE = 0xa3, GROUP = 0xa0, BLOCK = 0xa1, BLOCK_DURATION = 0x9b, REF = 0xfb;
+
+const header = (docType = 'webm') => el(EBML, str(DOCTYPE, docType));
+const videoTrack = (codec = 'V_VP9', ...extra: Bytes[]) => el(ENTRY,
+  uint(NUMBER, 1), uint(TYPE, 1), str(CODEC, codec),
+  el(VIDEO, uint(WIDTH, 320), uint(HEIGHT, 240)), ...extra);
+const audioTrack = el(ENTRY, uint(NUMBER, 2), uint(TYPE, 2), str(CODEC, 'A_OPUS'));
+
+// Block payload: track vint, signed 16-bit relative time, flags, frame bytes.
+const blockData = (track: number, rel: number, flags: number, data: Bytes): Bytes =>
+  [0x80 | track, (rel >> 8) & 0xff, rel & 0xff, flags, ...data];
+const simple = (track: number, rel: number, key: boolean, data: Bytes) =>
+  el(SIMPLE, blockData(track, rel, key ? 0x80 : 0, data));
+
+const file = (...parts: Bytes[]) => new Uint8Array(([] as Bytes).concat(...parts));
+// A VP9 profile-0 keyframe's first byte: frame marker 0b10, profile bits 0.
+const VP9_KEY = 0x82;
+
+const demux = (bytes: Uint8Array) => indexMatroska(memoryByteSource(bytes));
+
+describe('isMatroska', () => {
+  it('recognises the EBML magic', () => {
+    expect(isMatroska(file(header()))).toBe(true);
+    expect(isMatroska(new Uint8Array([0, 0, 0, 0x18, 0x66, 0x74, 0x79, 0x70]))).toBe(false);
+  });
+});
+
+describe('indexMatroska', () => {
+  it('indexes the video track of a WebM file, skipping other tracks', async () => {
+    const bytes = file(header(), el(SEGMENT,
+      el(INFO, uint(SCALE, 1_000_000), f64(DURATION, 100)),
+      el(TRACKS, videoTrack(), audioTrack),
+      el(CLUSTER, uint(TIMESTAMP, 0),
+        simple(1, 0, true, [VP9_KEY, 1, 2]),
+        simple(2, 0, true, [9, 9]),
+        simple(1, 33, false, [3, 4])),
+      el(CLUSTER, uint(TIMESTAMP, 66), simple(1, 0, true, [VP9_KEY, 5]))));
+    const v = await demux(bytes);
+    // No level in CodecPrivate: 320×240 needs level 2.
+    expect(v.codec).toBe('vp09.00.20.08');
+    expect(v.description).toBeUndefined();
+    expect([v.width, v.height, v.timescale, v.durationSec]).toEqual([320, 240, 1000, 0.1]);
+    expect(v.samples.map(s => [s.number, s.cts, s.duration, s.isSync])).toEqual([
+      [0, 0, 33, true],
+      [1, 33, 33, false],
+      [2, 66, 33, true],
+    ]);
+    const first = v.samples[0];
+    expect(Array.from(bytes.subarray(first.offset, first.offset + first.size))).toEqual([VP9_KEY, 1, 2]);
+  });
+
+  it('keeps decode order and takes durations from display order', async () => {
+    // An IPB group: P (cts 66) is stored before the B (cts 33) it anchors.
+    const v = await demux(file(header('matroska'), el(SEGMENT,
+      el(TRACKS, videoTrack()),
+      el(CLUSTER, uint(TIMESTAMP, 0),
+        simple(1, 0, true, [VP9_KEY]),
+        simple(1, 66, false, [1]),
+        simple(1, 33, false, [2])))));
+    expect(v.samples.map(s => [s.cts, s.duration])).toEqual([[0, 33], [66, 33], [33, 33]]);
+    expect(v.durationSec).toBeCloseTo(0.099);
+  });
+
+  it('reads BlockGroups: a ReferenceBlock marks a delta frame, BlockDuration sets the duration', async () => {
+    const v = await demux(file(header(), el(SEGMENT,
+      el(TRACKS, videoTrack()),
+      el(CLUSTER, uint(TIMESTAMP, 10),
+        el(GROUP, el(BLOCK, blockData(1, 0, 0, [VP9_KEY])), uint(BLOCK_DURATION, 40)),
+        el(GROUP, el(BLOCK, blockData(1, 40, 0, [7])), el(REF, [0xd8]))))));
+    expect(v.samples.map(s => [s.cts, s.duration, s.isSync])).toEqual([[10, 40, true], [50, 40, false]]);
+  });
+
+  it('reads unknown-size Segments and Clusters, and drops a block cut off by the end of the file', async () => {
+    const bytes = file(header(), unsized(SEGMENT,
+      el(TRACKS, videoTrack()),
+      unsized(CLUSTER, uint(TIMESTAMP, 0), simple(1, 0, true, [VP9_KEY]), simple(1, 20, false, [1])),
+      unsized(CLUSTER, uint(TIMESTAMP, 40), simple(1, 0, true, [VP9_KEY, 2, 3, 4]))));
+    const cut = bytes.subarray(0, bytes.length - 2);
+    expect((await demux(bytes)).samples.map(s => s.cts)).toEqual([0, 20, 40]);
+    expect((await demux(cut)).samples.map(s => s.cts)).toEqual([0, 20]);
+  });
+
+  it('splits Xiph-laced frames, spaced by the default duration', async () => {
+    const laced = blockData(1, 0, 0x80 | 0x02, [2, 2, 1, VP9_KEY, 0, 5, 6, 7]);
+    const v = await demux(file(header(), el(SEGMENT,
+      el(TRACKS, videoTrack('V_VP9', uint(DEFAULT_DURATION, 20_000_000))),
+      el(CLUSTER, uint(TIMESTAMP, 0), el(SIMPLE, laced)))));
+    expect(v.samples.map(s => [s.cts, s.duration, s.isSync, s.size])).toEqual([
+      [0, 20, true, 2], [20, 20, false, 1], [40, 20, false, 2],
+    ]);
+  });
+
+  it('rejects files it cannot decode', async () => {
+    await expect(demux(file(header('ogg')))).rejects.toThrow(/document type/);
+    await expect(demux(file(header(), el(SEGMENT, el(TRACKS, audioTrack))))).rejects.toThrow(/no video track/);
+    await expect(demux(file(header(), el(SEGMENT,
+      el(TRACKS, videoTrack('V_VP9', el(ENCODINGS, []))))))).rejects.toThrow(/compressed or encrypted/);
+    await expect(demux(file(header(), el(SEGMENT,
+      el(TRACKS, videoTrack('V_THEORA')), el(CLUSTER, uint(TIMESTAMP, 0), simple(1, 0, true, [1])))))).rejects
+      .toThrow(/unsupported codec: V_THEORA/);
+  });
+
+  it('reads a cluster a window at a time, never the whole file', async () => {
+    // Frames bigger than one 4 MiB read window, in a file bigger than two.
+    const big = new Array<number>(4.5 * 1024 * 1024).fill(7);
+    big[0] = VP9_KEY;
+    const bytes = file(header(), el(SEGMENT,
+      el(TRACKS, videoTrack()),
+      unsized(CLUSTER, uint(TIMESTAMP, 0), simple(1, 0, true, [VP9_KEY]), simple(1, 20, true, big), simple(1, 40, false, [1])),
+      el(CLUSTER, uint(TIMESTAMP, 60), simple(1, 0, true, big))));
+    const inner = memoryByteSource(bytes);
+    let largest = 0;
+    const counting: ByteSource = {
+      size: inner.size,
+      read: (offset, length) => { largest = Math.max(largest, length); return inner.read(offset, length); },
+    };
+    const v = await indexMatroska(counting);
+    expect(v.samples.map(s => [s.cts, s.size])).toEqual([[0, 1], [20, big.length], [40, 1], [60, big.length]]);
+    expect(largest).toBeLessThanOrEqual(8 * 1024 * 1024);
+  });
+
+  it('passes CodecPrivate through as the decoder description', async () => {
+    const avcC = [1, 0x64, 0x00, 0x1f, 0xff];
+    const v = await demux(file(header('matroska'), el(SEGMENT,
+      el(TRACKS, videoTrack('V_MPEG4/ISO/AVC', el(PRIVATE, avcC))),
+      el(CLUSTER, uint(TIMESTAMP, 0), simple(1, 0, true, [0, 0, 0, 1])))));
+    expect(v.codec).toBe('avc1.64001f');
+    expect(Array.from(v.description!)).toEqual(avcC);
+  });
+});
+
+describe('webCodecsConfig', () => {
+  it('builds codec strings from the codec private data or first keyframe', () => {
+    expect(webCodecsConfig('V_VP8', undefined, undefined).codec).toBe('vp8');
+    // Profile 2 (profile_high_bit set): 10-bit.
+    expect(webCodecsConfig('V_VP9', undefined, new Uint8Array([0x90]), 640, 360).codec).toBe('vp09.02.21.10');
+    // av1C: profile 0, level 8, main tier, 8-bit.
+    expect(webCodecsConfig('V_AV1', new Uint8Array([0x81, 0x08, 0x0c, 0x00]), undefined).codec).toBe('av01.0.08M.08');
+    // hvcC: Main profile, compatibility flags 1 and 2, main tier, level 93, constraint byte 0xB0.
+    const hvcC = new Uint8Array([1, 0x01, 0x60, 0, 0, 0, 0xb0, 0, 0, 0, 0, 0, 93]);
+    expect(webCodecsConfig('V_MPEGH/ISO/HEVC', hvcC, undefined).codec).toBe('hvc1.1.6.L93.B0');
+  });
+
+  it('takes the VP9 level from CodecPrivate, else from the frame size', () => {
+    // Features: profile (ID 1) = 0, level (ID 2) = 4.1, bit depth (ID 3) = 8.
+    const features = new Uint8Array([1, 1, 0, 2, 1, 41, 3, 1, 8]);
+    expect(webCodecsConfig('V_VP9', features, undefined, 320, 240).codec).toBe('vp09.00.41.08');
+    expect(webCodecsConfig('V_VP9', undefined, undefined, 1280, 720).codec).toBe('vp09.00.31.08');
+    expect(webCodecsConfig('V_VP9', undefined, undefined, 1920, 1080).codec).toBe('vp09.00.41.08');
+    expect(webCodecsConfig('V_VP9', undefined, undefined, 3840, 2160).codec).toBe('vp09.00.52.08');
+    // A frame too wide for its area's level moves up a level.
+    expect(webCodecsConfig('V_VP9', undefined, undefined, 2100, 100).codec).toBe('vp09.00.31.08');
+    // No size to go by: the highest level, never one the stream exceeds.
+    expect(webCodecsConfig('V_VP9', undefined, undefined).codec).toBe('vp09.00.62.08');
+  });
+
+  it('requires the codec private data where the decoder needs it', () => {
+    expect(() => webCodecsConfig('V_MPEG4/ISO/AVC', undefined, undefined)).toThrow(/avcC/);
+    expect(() => webCodecsConfig('V_AV1', undefined, undefined)).toThrow(/av1C/);
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest';
+import { indexMp4 } from '../utils/mp4Index';
+import { ByteSource, memoryByteSource } from '../utils/videoIndex';
+
+// ── A minimal ISOBMFF writer, just enough to build test files ───────────────
+
+type Bytes = number[];
+
+const u8 = (v: number): Bytes => [v & 0xff];
+const u16 = (v: number): Bytes => [(v >> 8) & 0xff, v & 0xff];
+const u32 = (v: number): Bytes => [(v >>> 24) & 0xff, (v >> 16) & 0xff, (v >> 8) & 0xff, v & 0xff];
+const zeros = (n: number): Bytes => new Array(n).fill(0);
+const fourcc = (s: string): Bytes => [...s].map(c => c.charCodeAt(0));
+
+const box = (type: string, ...children: Bytes[]): Bytes => {
+  const payload = ([] as Bytes).concat(...children);
+  return u32(8 + payload.length).concat(fourcc(type), payload);
+};
+const fullBox = (type: string, flags: number, ...children: Bytes[]): Bytes =>
+  box(type, u8(0), [(flags >> 16) & 0xff, (flags >> 8) & 0xff, flags & 0xff], ...children);
+
+const MATRIX = [0x00010000, 0, 0, 0, 0x00010000, 0, 0, 0, 0x40000000].flatMap(u32);
+const TIMESCALE = 30000;
+const TICKS_PER_FRAME = 1001;
+const WIDTH = 320, HEIGHT = 240;
+
+const ftyp = box('ftyp', fourcc('isom'), u32(0x200), fourcc('isom'), fourcc('avc1'));
+const mvhd = fullBox('mvhd', 0, u32(0), u32(0), u32(1000), u32(0), u32(0x00010000), u16(0x0100), zeros(10),
+  MATRIX, zeros(24), u32(2));
+const tkhd = (durationTicks: number) => fullBox('tkhd', 3, u32(0), u32(0), u32(1), u32(0), u32(durationTicks),
+  zeros(8), u16(0), u16(0), u16(0), u16(0), MATRIX, u32(WIDTH << 16), u32(HEIGHT << 16));
+const mdhd = (durationTicks: number) =>
+  fullBox('mdhd', 0, u32(0), u32(0), u32(TIMESCALE), u32(durationTicks), u16(0x55c4), u16(0));
+const hdlr = fullBox('hdlr', 0, u32(0), fourcc('vide'), zeros(12), [0]);
+const vmhd = fullBox('vmhd', 1, zeros(8));
+const dinf = box('dinf', fullBox('dref', 0, u32(1), fullBox('url ', 1)));
+
+// High profile, level 3.1, 4-byte NAL lengths, one (stub) SPS and PPS.
+const avcC = box('avcC', [1, 0x64, 0x00, 0x1f, 0xff, 0xe1], u16(4), [0x67, 0x64, 0x00, 0x1f], [1], u16(2), [0x68, 0xee]);
+const avc1 = box('avc1', zeros(6), u16(1), zeros(16), u16(WIDTH), u16(HEIGHT), u32(0x00480000), u32(0x00480000),
+  u32(0), u16(1), zeros(32), u16(0x18), u16(0xffff), avcC);
+const stsd = fullBox('stsd', 0, u32(1), avc1);
+
+/** A sample table with every sample in one chunk at `chunkOffset`. */
+const stbl = (sizes: number[], syncs: number[], chunkOffset: number) => box('stbl', stsd,
+  fullBox('stts', 0, u32(1), u32(sizes.length), u32(TICKS_PER_FRAME)),
+  fullBox('stss', 0, u32(syncs.length), ...syncs.map(n => u32(n + 1))),
+  fullBox('stsc', 0, u32(1), u32(1), u32(sizes.length), u32(1)),
+  fullBox('stsz', 0, u32(0), u32(sizes.length), ...sizes.map(u32)),
+  fullBox('stco', 0, u32(1), u32(chunkOffset)));
+const emptyStbl = box('stbl', stsd,
+  fullBox('stts', 0, u32(0)), fullBox('stsc', 0, u32(0)), fullBox('stsz', 0, u32(0), u32(0)), fullBox('stco', 0, u32(0)));
+
+const moov = (table: Bytes, durationTicks: number, ...extra: Bytes[]) => box('moov', mvhd,
+  box('trak', tkhd(durationTicks), box('mdia', mdhd(durationTicks), hdlr, box('minf', vmhd, dinf, table))),
+  ...extra);
+
+const frames = (sizes: number[], fill = 0xab) => ([] as Bytes).concat(...sizes.map(n => new Array(n).fill(fill)));
+
+// A fragment: moof then mdat, with the trun's data offset measured from the
+// moof (default-base-is-moof) to the first sample.
+const SYNC = 0x02000000, NON_SYNC = 0x01010000;
+const fragment = (sequence: number, baseDecodeTime: number, sizes: number[], syncs: number[]): Bytes => {
+  const traf = (dataOffset: number) => box('traf',
+    fullBox('tfhd', 0x020000, u32(1)),
+    fullBox('tfdt', 0, u32(baseDecodeTime)),
+    fullBox('trun', 0x000701, u32(sizes.length), u32(dataOffset),
+      ...sizes.map((size, i) => [...u32(TICKS_PER_FRAME), ...u32(size), ...u32(syncs.includes(i) ? SYNC : NON_SYNC)])));
+  const moofSize = box('moof', fullBox('mfhd', 0, u32(sequence)), traf(0)).length;
+  return box('moof', fullBox('mfhd', 0, u32(sequence)), traf(moofSize + 8)).concat(box('mdat', frames(sizes)));
+};
+
+const file = (...parts: Bytes[]) => new Uint8Array(([] as Bytes).concat(...parts));
+
+// A ByteSource that records every range read from it.
+const recording = (bytes: Uint8Array): { source: ByteSource; reads: [number, number][] } => {
+  const inner = memoryByteSource(bytes);
+  const reads: [number, number][] = [];
+  return {
+    reads,
+    source: { size: inner.size, read: (offset, length) => { reads.push([offset, length]); return inner.read(offset, length); } },
+  };
+};
+
+describe('indexMp4', () => {
+  it('indexes a file whose moov follows the mdat, reading only the mdat header', async () => {
+    const sizes = [40, 10, 12, 30, 11];
+    const mdat = box('mdat', frames(sizes));
+    const dataStart = ftyp.length + 8;
+    const bytes = file(ftyp, mdat, moov(stbl(sizes, [0, 3], dataStart), sizes.length * TICKS_PER_FRAME));
+    const { source, reads } = recording(bytes);
+
+    const v = await indexMp4(source);
+    expect(v.codec).toBe('avc1.64001f');
+    expect(v.description?.[0]).toBe(1);
+    expect([v.width, v.height, v.timescale]).toEqual([WIDTH, HEIGHT, TIMESCALE]);
+    expect(v.durationSec).toBeCloseTo(5 * TICKS_PER_FRAME / TIMESCALE, 9);
+    let offset = dataStart;
+    expect(v.samples).toEqual(sizes.map((size, i) => {
+      const s = { number: i, cts: i * TICKS_PER_FRAME, duration: TICKS_PER_FRAME, isSync: i === 0 || i === 3, offset, size };
+      offset += size;
+      return s;
+    }));
+
+    // The frames themselves are never read: the only read into the mdat is
+    // the probe for its box header.
+    const mdatEnd = ftyp.length + mdat.length;
+    expect(reads.filter(([at, length]) => at + length > dataStart && at < mdatEnd)).toEqual([[ftyp.length, 16]]);
+  });
+
+  it('adds every fragment of a fragmented file to the sample table', async () => {
+    const init = moov(emptyStbl, 0, box('mvex', fullBox('trex', 0, u32(1), u32(1), u32(0), u32(0), u32(0))));
+    const first = fragment(1, 0, [50, 20, 20], [0]);
+    const second = fragment(2, 3 * TICKS_PER_FRAME, [60, 25], [0]);
+    const bytes = file(ftyp, init, first, second);
+
+    const v = await indexMp4(memoryByteSource(bytes));
+    expect(v.samples.map(s => [s.number, s.cts, s.size, s.isSync])).toEqual([
+      [0, 0, 50, true], [1, 1001, 20, false], [2, 2002, 20, false],
+      [3, 3003, 60, true], [4, 4004, 25, false],
+    ]);
+    // Each fragment's frames sit in the mdat just after its moof.
+    expect(v.samples[0].offset).toBe(ftyp.length + init.length + first.length - 90);
+    expect(v.samples[3].offset).toBe(ftyp.length + init.length + first.length + second.length - 85);
+    for (const s of v.samples) expect([...bytes.subarray(s.offset, s.offset + s.size)].every(b => b === 0xab)).toBe(true);
+    // The moov declares no duration; the samples give it.
+    expect(v.durationSec).toBeCloseTo(5 * TICKS_PER_FRAME / TIMESCALE, 9);
+  });
+
+  it('rejects a file without a moov', async () => {
+    await expect(indexMp4(memoryByteSource(file(ftyp, box('mdat', [1, 2, 3]))))).rejects.toThrow(/moov/);
+  });
+});
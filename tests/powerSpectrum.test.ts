@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import { meanPowerSpectrum, spectrumReadouts, binFrequency } from '../utils/powerSpectrum';
+import { windowCoefficients } from '../utils/stftOptions';
+
+const SR = 48000;
+const FFT = 2048;
+const BIN_HZ = SR / FFT;
+
+const sine = (freq: number, amplitude: number, n: number) =>
+  Float32Array.from({ length: n }, (_, i) => amplitude * Math.sin((2 * Math.PI * freq * i) / SR));
+
+const mix = (...parts: Float32Array[]) => parts[0].map((_, i) => parts.reduce((s, p) => s + p[i], 0));
+
+describe('windowCoefficients', () => {
+  it('is symmetric with Hann endpoints at zero', () => {
+    const w = windowCoefficients('hann', 9);
+    expect(w[0]).toBeCloseTo(0);
+    expect(w[8]).toBeCloseTo(0);
+    expect(w[4]).toBeCloseTo(1);
+    for (const name of ['hann', 'hamming', 'blackmanHarris', 'gaussian'] as const) {
+      const c = windowCoefficients(name, 64);
+      for (let i = 0; i < 32; i++) expect(c[i]).toBeCloseTo(c[63 - i], 5);
+    }
+  });
+});
+
+describe('meanPowerSpectrum', () => {
+  it('reads a full-scale bin-centred sine at 0 dBFS in its bin', () => {
+    const spectrum = meanPowerSpectrum([sine(43 * BIN_HZ, 1, SR / 2)], SR, FFT)!;
+    expect(spectrum.db.length).toBe(FFT / 2 + 1);
+    expect(spectrum.frames).toBe(1 + Math.floor((SR / 2 - FFT) / (FFT / 2)));
+    let peak = 0;
+    for (let k = 1; k < spectrum.db.length; k++) if (spectrum.db[k] > spectrum.db[peak]) peak = k;
+    expect(peak).toBe(43);
+    expect(binFrequency(spectrum, peak)).toBeCloseTo(43 * BIN_HZ);
+    expect(spectrum.db[peak]).toBeCloseTo(0, 1);
+  });
+
+  it('keeps the 0 dBFS reference for every window function', () => {
+    for (const name of ['hamming', 'blackmanHarris', 'gaussian'] as const) {
+      const spectrum = meanPowerSpectrum([sine(43 * BIN_HZ, 1, SR / 4)], SR, FFT, name)!;
+      expect(spectrum.db[43]).toBeCloseTo(0, 0);
+    }
+  });
+
+  it('averages power across channels rather than mixing them down', () => {
+    const left = sine(43 * BIN_HZ, 0.5, SR / 4);
+    const right = left.map(v => -v);
+    const spectrum = meanPowerSpectrum([left, right], SR, FFT)!;
+    // A mixdown would cancel to silence; averaged power keeps −6 dB.
+    expect(spectrum.db[43]).toBeCloseTo(-6.02, 1);
+  });
+
+  it('zero-pads onto a finer bin grid', () => {
+    const spectrum = meanPowerSpectrum([sine(1000, 1, SR / 4)], SR, FFT, 'hann', 4)!;
+    expect(spectrum.fftLength).toBe(FFT * 4);
+    expect(spectrum.db.length).toBe(FFT * 2 + 1);
+  });
+
+  it('analyses a stretch shorter than the window as a single window', () => {
+    const spectrum = meanPowerSpectrum([sine(3000, 1, 500)], SR, FFT)!;
+    expect(spectrum.frames).toBe(1);
+    expect(spectrumReadouts(spectrum)!.peakFreq).toBeGreaterThan(2900);
+    expect(spectrumReadouts(spectrum)!.peakFreq).toBeLessThan(3100);
+  });
+
+  it('returns null for no samples', () => {
+    expect(meanPowerSpectrum([], SR, FFT)).toBeNull();
+    expect(meanPowerSpectrum([new Float32Array(0)], SR, FFT)).toBeNull();
+  });
+});
+
+describe('spectrumReadouts', () => {
+  it('refines the peak between bins', () => {
+    const spectrum = meanPowerSpectrum([sine(1000, 1, SR / 2)], SR, FFT)!;
+    const r = spectrumReadouts(spectrum)!;
+    expect(Math.abs(r.peakFreq - 1000)).toBeLessThan(BIN_HZ / 4);
+    expect(r.peakDb).toBeGreaterThan(-1);
+  });
+
+  it('measures the −10 dB band around the peak', () => {
+    const spectrum = meanPowerSpectrum([sine(43 * BIN_HZ, 1, SR / 2)], SR, FFT)!;
+    const r = spectrumReadouts(spectrum)!;
+    expect(r.bandLow).toBeLessThan(43 * BIN_HZ);
+    expect(r.bandHigh).toBeGreaterThan(43 * BIN_HZ);
+    // Hann's main lobe is ±2 bins at its nulls; −10 dB falls well inside it.
+    expect(r.bandHigh - r.bandLow).toBeGreaterThan(BIN_HZ);
+    expect(r.bandHigh - r.bandLow).toBeLessThan(3 * BIN_HZ);
+  });
+
+  it('puts the centroid between two equal tones', () => {
+    const n = SR / 2;
+    const spectrum = meanPowerSpectrum([mix(sine(40 * BIN_HZ, 0.5, n), sine(120 * BIN_HZ, 0.5, n))], SR, FFT)!;
+    expect(spectrumReadouts(spectrum)!.centroid).toBeCloseTo(80 * BIN_HZ, -1);
+  });
+
+  it('restricts every readout to the given range', () => {
+    const n = SR / 2;
+    const spectrum = meanPowerSpectrum([mix(sine(40 * BIN_HZ, 0.8, n), sine(120 * BIN_HZ, 0.2, n))], SR, FFT)!;
+    expect(Math.round(spectrumReadouts(spectrum)!.peakFreq / BIN_HZ)).toBe(40);
+    const r = spectrumReadouts(spectrum, 100 * BIN_HZ, 140 * BIN_HZ)!;
+    expect(Math.round(r.peakFreq / BIN_HZ)).toBe(120);
+    expect(r.centroid).toBeGreaterThan(100 * BIN_HZ);
+    expect(r.bandLow).toBeGreaterThanOrEqual(100 * BIN_HZ);
+  });
+
+  it('returns null for a range between bins', () => {
+    const spectrum = meanPowerSpectrum([sine(1000, 1, 4096)], SR, FFT)!;
+    expect(spectrumReadouts(spectrum, 1001, 1002)).toBeNull();
+  });
+});
@@ -7,6 +7,7 @@ import {
   resolveProjectPath,
   isInsideProjectDir,
   makeProjectPath,
+  resolveDetectorSources,
 } from '../utils/projectPaths';
 
 const PROJ = '/Users/me/projects/birdsong';
@@ -204,3 +205,24 @@ describe('round-trip: resolveProjectPath(makeProjectPath(absPath))', () => {
     expect(resolveProjectPath(PROJ, makeProjectPath(PROJ + '/', abs))).toBe(abs);
   });
 });
+
+describe('resolveDetectorSources', () => {
+  it('labels sources by name, or by directory when unnamed', () => {
+    expect(resolveDetectorSources(PROJ, [
+      { name: ' v2 ', directory: { kind: 'relative', path: 'models/v2' }, format: 'long' },
+      { directory: { kind: 'absolute', path: '/data/birdnet/' } },
+    ])).toEqual([
+      { label: 'v2', directoryAbs: `${PROJ}/models/v2`, format: 'long' },
+      { label: 'birdnet', directoryAbs: '/data/birdnet/', format: 'buzzdetect' },
+    ]);
+  });
+
+  it('keeps labels unique', () => {
+    const labels = resolveDetectorSources(PROJ, [
+      { directory: { kind: 'relative', path: 'a/out' } },
+      { directory: { kind: 'relative', path: 'b/out' } },
+      { name: 'out', directory: { kind: 'relative', path: 'c' } },
+    ]).map(s => s.label);
+    expect(labels).toEqual(['out', 'out (2)', 'out (3)']);
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, it, expect } from 'vitest';
+import {
+  isRavenTable,
+  parseRavenTable,
+  ravenExtraColumns,
+  defaultRavenLabelMapping,
+  ravenRowLabel,
+  ravenTableToAnnotations,
+  generateRavenContent,
+} from '../utils/ravenTable';
+import { Annotation, AnnotationTool } from '../types';
+
+const HEADER = 'Selection\tView\tChannel\tBegin Time (s)\tEnd Time (s)\tLow Freq (Hz)\tHigh Freq (Hz)';
+
+const table = (header: string, ...rows: string[]) => [header, ...rows].join('\n') + '\n';
+
+describe('isRavenTable', () => {
+  it('recognises a selection-table header', () => {
+    expect(isRavenTable(table(HEADER))).toBe(true);
+  });
+
+  it('tolerates a BOM, CRLF and case drift', () => {
+    expect(isRavenTable('\uFEFFselection\tbegin time (s)\tend time (s)\r\n1\t0\t1\r\n')).toBe(true);
+  });
+
+  it('rejects Audacity label files', () => {
+    expect(isRavenTable('1.0\t2.0\tbuzz\n')).toBe(false);
+  });
+});
+
+describe('parseRavenTable', () => {
+  it('returns null without Begin/End Time columns', () => {
+    expect(parseRavenTable('Selection\tNotes\n1\tx\n')).toBeNull();
+  });
+
+  it('collapses view duplicates, preferring the spectrogram row', () => {
+    const t = parseRavenTable(table(
+      `${HEADER}\tSpecies`,
+      '1\tWaveform 1\t1\t0.5\t1.5\t0\t0\tA',
+      '1\tSpectrogram 1\t1\t0.5\t1.5\t2000\t4000\tA',
+      '2\tSpectrogram 1\t1\t3\t4\t100\t200\tB',
+    ))!;
+    expect(t.rows).toHaveLength(2);
+    expect(t.rows[0]['Low Freq (Hz)']).toBe('2000');
+    expect(t.rows[1].Species).toBe('B');
+  });
+
+  it('pads short rows with empty strings', () => {
+    const t = parseRavenTable(table(`${HEADER}\tSpecies`, '1\tSpectrogram 1\t1\t0\t1'))!;
+    expect(t.rows[0].Species).toBe('');
+  });
+});
+
+describe('label mapping', () => {
+  const t = parseRavenTable(table(
+    `${HEADER}\tNotes\tSpecies\tCall Type`,
+    '1\tSpectrogram 1\t1\t0\t1\t0\t100\tloud\tBombus\tbuzz',
+    '2\tSpectrogram 1\t1\t2\t3\t0\t100\t\tApis\t',
+  ))!;
+
+  it('lists the non-standard columns in file order', () => {
+    expect(ravenExtraColumns(t)).toEqual(['Notes', 'Species', 'Call Type']);
+  });
+
+  it('defaults to the most conventional label column', () => {
+    expect(defaultRavenLabelMapping(t)).toEqual({ columns: ['Species'], separator: ' / ' });
+  });
+
+  it('falls back to the first extra column, or none', () => {
+    const odd = parseRavenTable(table(`${HEADER}\tFoo\tBar`))!;
+    expect(defaultRavenLabelMapping(odd).columns).toEqual(['Foo']);
+    expect(defaultRavenLabelMapping(parseRavenTable(table(HEADER))!).columns).toEqual([]);
+  });
+
+  it('joins non-empty values in mapping order', () => {
+    const mapping = { columns: ['Species', 'Call Type', 'Notes'], separator: ' - ' };
+    expect(ravenRowLabel(t.rows[0], mapping)).toBe('Bombus - buzz - loud');
+    expect(ravenRowLabel(t.rows[1], mapping)).toBe('Apis');
+  });
+});
+
+describe('ravenTableToAnnotations', () => {
+  const tools: AnnotationTool[] = [{ id: 't', text: 'Bombus', color: '#ff0000' }] as AnnotationTool[];
+
+  it('makes a box when the band is usable and a time band otherwise', () => {
+    const t = parseRavenTable(table(
+      `${HEADER}\tSpecies`,
+      '1\tSpectrogram 1\t1\t0.5\t1.5\t2000\t4000\tBombus',
+      '2\tSpectrogram 1\t1\t3\t4\t0\t0\tApis',
+      '3\tSpectrogram 1\t1\tx\t4\t0\t0\tbad',
+    ))!;
+    const anns = ravenTableToAnnotations(t, { columns: ['Species'], separator: ' / ' }, tools);
+    expect(anns).toHaveLength(2);
+    expect(anns[0]).toMatchObject({ start: 0.5, end: 1.5, text: 'Bombus', color: '#ff0000', lowFreq: 2000, highFreq: 4000 });
+    expect(anns[1].lowFreq).toBeUndefined();
+    expect(anns[1].color).toBe('#ffffff');
+  });
+
+  it('tags channels only when the table spans more than one', () => {
+    const multi = parseRavenTable(table(
+      HEADER,
+      '1\tSpectrogram 1\t1\t0\t1\t0\t0',
+      '2\tSpectrogram 1\t2\t1\t2\t0\t0',
+    ))!;
+    expect(ravenTableToAnnotations(multi, { columns: [], separator: ' / ' }, tools).map(a => a.attributes))
+      .toEqual([{ channel: 0 }, { channel: 1 }]);
+    const single = parseRavenTable(table(HEADER, '1\tSpectrogram 1\t1\t0\t1\t0\t0'))!;
+    expect(ravenTableToAnnotations(single, { columns: [], separator: ' / ' }, tools)[0].attributes).toBeUndefined();
+  });
+});
+
+describe('generateRavenContent', () => {
+  const anns: Annotation[] = [
+    { id: 'b', start: 3, end: 4, text: 'tab\there', color: '#fff' },
+    { id: 'a', start: 1, end: 2, text: 'Bombus', color: '#fff', lowFreq: 2000, highFreq: 4000 },
+  ];
+
+  it('numbers rows by start and spans time bands over the full band', () => {
+    const lines = generateRavenContent(anns, { low: 0, high: 8000 }, 2).trimEnd().split('\n');
+    expect(lines[0]).toBe(`${HEADER}\tAnnotation`);
+    expect(lines[1]).toBe('1\tSpectrogram 1\t1\t1.00\t2.00\t2000.0\t4000.0\tBombus');
+    expect(lines[2]).toBe('2\tSpectrogram 1\t1\t3.00\t4.00\t0.0\t8000.0\ttab here');
+  });
+
+  it('round-trips through the importer', () => {
+    const content = generateRavenContent(anns, { low: 0, high: 8000 });
+    const t = parseRavenTable(content)!;
+    const back = ravenTableToAnnotations(t, defaultRavenLabelMapping(t), []);
+    expect(back.map(a => [a.start, a.end, a.text, a.lowFreq, a.highFreq])).toEqual([
+      [1, 2, 'Bombus', 2000, 4000],
+      [3, 4, 'tab here', 0, 8000],
+    ]);
+  });
+
+  it('writes the channel tag as a 1-based Channel', () => {
+    const tagged: Annotation[] = [{ id: 'c', start: 0, end: 1, text: 'x', color: '#fff', attributes: { channel: 2 } }];
+    const row = generateRavenContent(tagged, { low: 0, high: 8000 }, 2).trimEnd().split('\n')[1];
+    expect(row.split('\t')[2]).toBe('3');
+  });
+});
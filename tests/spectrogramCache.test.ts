@@ -1,7 +1,9 @@
 import { describe, it, expect } from 'vitest';
 import {
   MultiTierSpectrogramCache,
+  cachesServe,
   chunkIndicesForRanges,
+  createChannelCaches,
   swapChunkCache,
   takeContiguousRun,
 } from '../MultiTierSpectrogramCache';
@@ -12,6 +14,7 @@ import {
   OVERVIEW_TARGET_COLS,
   TIER_HOP_RATIO,
 } from '../constants';
+import { DEFAULT_STFT_OPTIONS } from '../utils/stftOptions';
 
 // ── Test scaffolding ─────────────────────────────────────────────────────────
 //
@@ -122,6 +125,12 @@ describe('buildTierLadder', () => {
     expect(large).toBeGreaterThanOrEqual(4); // never below the floor
   });
 
+  it('starts from a chosen finest hop', () => {
+    const ladder = buildTierLadder(SAMPLE_RATE, DURATION, FFT_SIZE, 128);
+    expect(ladder[ladder.length - 1].hopSize).toBe(128);
+    expect(buildTierLadder(SAMPLE_RATE, DURATION, FFT_SIZE).at(-1)!.hopSize).toBe(FINEST_HOP_SAMPLES);
+  });
+
   it('survives an unknown file (zero duration) with a usable single tier', () => {
     const ladder = buildTierLadder(SAMPLE_RATE, 0, FFT_SIZE);
     expect(ladder).toHaveLength(1);
@@ -221,6 +230,24 @@ describe('swapChunkCache', () => {
   });
 });
 
+describe('cachesServe', () => {
+  const PATH = '/nonexistent/test.wav';
+  const caches = createChannelCaches(PATH, FFT_SIZE, SAMPLE_RATE, DURATION, [0, 1], () => {});
+
+  it('matches caches built for the same file, size, channels and analysis', () => {
+    expect(cachesServe(caches, PATH, FFT_SIZE, [0, 1])).toBe(true);
+    expect(cachesServe(caches, PATH, FFT_SIZE, [0, 1], { ...DEFAULT_STFT_OPTIONS })).toBe(true);
+  });
+
+  it('rejects any change that alters chunk contents', () => {
+    expect(cachesServe(caches, PATH, 2048, [0, 1])).toBe(false);
+    expect(cachesServe(caches, PATH, FFT_SIZE, [null])).toBe(false);
+    expect(cachesServe(caches, PATH, FFT_SIZE, [0, 1], { ...DEFAULT_STFT_OPTIONS, window: 'hamming' })).toBe(false);
+    expect(cachesServe(caches, PATH, FFT_SIZE, [0, 1], { ...DEFAULT_STFT_OPTIONS, zeroPadding: 2 })).toBe(false);
+    expect(cachesServe(caches, PATH, FFT_SIZE, [0, 1], { ...DEFAULT_STFT_OPTIONS, finestHop: 256 })).toBe(false);
+  });
+});
+
 describe('chunkIndicesForRanges', () => {
   it('pads a single contiguous range by one chunk on each side', () => {
     // Scroll margin: the view sits in chunk 5, so 4..6 are wanted.
@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_STFT_OPTIONS, freqBinCount, hopForOverlap, stftOptionsKey, stftOptionsOf } from '../utils/stftOptions';
+import { DEFAULT_SPECTROGRAM_SETTINGS, FINEST_HOP_SAMPLES } from '../constants';
+
+describe('stftOptionsOf', () => {
+  it('reads settings without analysis fields as the fixed analysis', () => {
+    const legacy = { minFreq: 0, maxFreq: 10000, fftSize: 2048, frequencyScale: 'mel' as const, displayFloor: -100, displayCeil: 0 };
+    expect(stftOptionsOf(legacy)).toEqual(DEFAULT_STFT_OPTIONS);
+    expect(DEFAULT_STFT_OPTIONS.finestHop).toBe(FINEST_HOP_SAMPLES);
+  });
+
+  it('derives the finest hop from the overlap and window size', () => {
+    const o = stftOptionsOf({ ...DEFAULT_SPECTROGRAM_SETTINGS, fftSize: 2048, overlapPercent: 75, windowFunction: 'gaussian', zeroPadding: 4 });
+    expect(o).toEqual({ window: 'gaussian', finestHop: 512, zeroPadding: 4 });
+  });
+
+  it('falls back per field on out-of-range values', () => {
+    const o = stftOptionsOf({ ...DEFAULT_SPECTROGRAM_SETTINGS, overlapPercent: 100, zeroPadding: 3 });
+    expect(o).toEqual(DEFAULT_STFT_OPTIONS);
+  });
+});
+
+describe('hopForOverlap / freqBinCount / stftOptionsKey', () => {
+  it('computes hop and bin counts', () => {
+    expect(hopForOverlap(1024, 50)).toBe(512);
+    expect(hopForOverlap(1024, 93.75)).toBe(64);
+    expect(freqBinCount(1024)).toBe(512);
+    expect(freqBinCount(1024, 4)).toBe(2048);
+  });
+
+  it('keys options by every field', () => {
+    expect(stftOptionsKey(DEFAULT_STFT_OPTIONS)).toBe(`hann|${FINEST_HOP_SAMPLES}|1`);
+    expect(stftOptionsKey({ ...DEFAULT_STFT_OPTIONS, zeroPadding: 2 })).not.toBe(stftOptionsKey(DEFAULT_STFT_OPTIONS));
+  });
+});
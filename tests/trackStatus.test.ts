@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import {
+  effectiveTrackStatus,
+  nextTrackStatus,
+  normalizeTrackStatus,
+  parseTrackStatusContent,
+  patchTrackStatusContent,
+  setTrackStatusInContent,
+  trackStatusPath,
+} from '../utils/trackStatus';
+import { setMergeContent } from '../utils/annotationMerge';
+
+const at = '2026-05-01T09:00:00.000Z';
+const later = '2026-05-02T09:00:00.000Z';
+
+describe('trackStatusPath', () => {
+  it('sits at the annotation root', () => {
+    expect(trackStatusPath('/ann/')).toBe('/ann/.track-status.txt');
+  });
+});
+
+describe('normalizeTrackStatus', () => {
+  it('needs a time and a status or an assignee', () => {
+    expect(normalizeTrackStatus({ status: 'done', by: ' LH ', at })).toEqual({ status: 'done', by: 'LH', at });
+    expect(normalizeTrackStatus({ assignee: ' MK ', at })).toEqual({ assignee: 'MK', at });
+    expect(normalizeTrackStatus({ status: 'finished', at })).toBeNull();
+    expect(normalizeTrackStatus({ status: 'done' })).toBeNull();
+    expect(normalizeTrackStatus({ assignee: ' ', at })).toBeNull();
+  });
+});
+
+describe('parseTrackStatusContent', () => {
+  it('keys records by ident, the later time winning', () => {
+    const content = [
+      `site/dawn\t${JSON.stringify({ status: 'done', at: later })}`,
+      `site/dawn\t${JSON.stringify({ status: 'in-progress', at })}`,
+      `site/dusk\t${JSON.stringify({ assignee: 'MK', at })}`,
+      'garbage',
+    ].join('\n');
+    const byIdent = parseTrackStatusContent(content);
+    expect(byIdent.get('site/dawn')).toEqual({ status: 'done', at: later });
+    expect(byIdent.get('site/dusk')).toEqual({ assignee: 'MK', at });
+    expect(byIdent.size).toBe(2);
+  });
+});
+
+describe('patchTrackStatusContent', () => {
+  it('keeps the assignee when the status changes, and the reverse', () => {
+    let content = patchTrackStatusContent(null, 'dawn', { assignee: 'MK' }, 'LH', at);
+    content = patchTrackStatusContent(content, 'dawn', { status: 'done' }, 'MK', later);
+    expect(content.split('\n').filter(Boolean)).toHaveLength(1);
+    expect(parseTrackStatusContent(content).get('dawn')).toEqual({ status: 'done', assignee: 'MK', by: 'MK', at: later });
+  });
+
+  it('drops the record once it is unassigned with no status', () => {
+    const content = patchTrackStatusContent(null, 'dawn', { assignee: 'MK' }, 'LH', at);
+    expect(patchTrackStatusContent(content, 'dawn', { assignee: '' }, 'LH', later)).toBe('');
+  });
+
+  it('leaves other tracks alone', () => {
+    const content = setTrackStatusInContent(null, 'dusk', { status: 'needs-review', at });
+    const updated = patchTrackStatusContent(content, 'dawn', { status: 'done' }, 'LH', later);
+    expect([...parseTrackStatusContent(updated).keys()]).toEqual(['dusk', 'dawn']);
+  });
+});
+
+describe('sync', () => {
+  it('resolves two people\'s changes to the later one', () => {
+    const base = patchTrackStatusContent(null, 'dawn', { status: 'in-progress' }, 'LH', at);
+    const ours = patchTrackStatusContent(base, 'dawn', { status: 'done' }, 'LH', later);
+    const theirs = patchTrackStatusContent(base, 'dawn', { status: 'needs-review' }, 'MK', '2026-05-01T12:00:00.000Z');
+    const merged = setMergeContent(base, ours, theirs);
+    expect(parseTrackStatusContent(merged).get('dawn')?.status).toBe('done');
+  });
+});
+
+describe('status helpers', () => {
+  it('infers a status from the annotation file when none is set', () => {
+    expect(effectiveTrackStatus(undefined, false)).toBe('not-started');
+    expect(effectiveTrackStatus(undefined, true)).toBe('in-progress');
+    expect(effectiveTrackStatus({ status: 'done', at }, false)).toBe('done');
+  });
+
+  it('cycles back to the start', () => {
+    expect(nextTrackStatus('done')).toBe('needs-review');
+    expect(nextTrackStatus('needs-review')).toBe('not-started');
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, it, expect, vi } from 'vitest';
+import { invoke } from '@tauri-apps/api/core';
+import { applyBrightnessContrast, clipFileName, saveSelectionClip, stillFileName } from '../utils/videoExport';
+
+const mockInvoke = vi.mocked(invoke);
+
+describe('applyBrightnessContrast', () => {
+  it('matches CSS brightness() then contrast(), leaving alpha alone', () => {
+    const px = new Uint8ClampedArray([100, 200, 0, 128]);
+    applyBrightnessContrast(px, 150, 100);
+    expect([...px]).toEqual([150, 255, 0, 128]);
+
+    const grey = new Uint8ClampedArray([64, 128, 191, 255]);
+    applyBrightnessContrast(grey, 100, 200);
+    // Distance from mid-grey (127.5) doubles: 64 → 0.5, 128 → 128.5, 191 → 254.5,
+    // rounded half to even as Uint8ClampedArray stores them.
+    expect([...grey]).toEqual([0, 128, 254, 255]);
+  });
+
+  it('leaves pixels untouched at the neutral setting', () => {
+    const px = new Uint8ClampedArray([1, 2, 3, 4]);
+    applyBrightnessContrast(px, 100, 100);
+    expect([...px]).toEqual([1, 2, 3, 4]);
+  });
+});
+
+describe('export file names', () => {
+  it('names stills and clips after the track and the time', () => {
+    expect(stillFileName('dawn.mp4', 12.3454)).toBe('dawn_12.345s.png');
+    expect(clipFileName('dawn.mov', { start: 12.345, end: 15 })).toBe('dawn_12.345-15.000s.mp4');
+  });
+});
+
+describe('saveSelectionClip', () => {
+  it('cuts the range to the chosen file, and does nothing when cancelled', async () => {
+    const calls: [string, unknown][] = [];
+    let chosen: string | null = '/out/clip.mp4';
+    mockInvoke.mockImplementation(async (cmd: string, args?: unknown) => {
+      calls.push([cmd, args]);
+      if (cmd === 'save_file_dialog') return chosen;
+      if (cmd === 'export_video_clip') return undefined;
+      throw new Error(`unexpected ${cmd}`);
+    });
+    try {
+      expect(await saveSelectionClip('/media/dawn.mp4', { start: 1.5, end: 4 }, '/media/dawn_1.500-4.000s.mp4')).toBe(true);
+      expect(calls[1]).toEqual([
+        'export_video_clip',
+        { path: '/media/dawn.mp4', outputPath: '/out/clip.mp4', startSec: 1.5, endSec: 4 },
+      ]);
+
+      calls.length = 0;
+      chosen = null;
+      expect(await saveSelectionClip('/media/dawn.mp4', { start: 1.5, end: 4 }, '/media/x.mp4')).toBe(false);
+      expect(calls.map(c => c[0])).toEqual(['save_file_dialog']);
+    } finally {
+      mockInvoke.mockReset();
+      mockInvoke.mockImplementation(() => Promise.reject(new Error('Tauri invoke unavailable in tests')));
+    }
+  });
+});
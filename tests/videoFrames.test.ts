@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { formatTimecode, frameIndexAt, frameTimesOf, snapToFrame, stepFrameTime } from '../utils/videoFrames';
+
+const sample = (number: number, cts: number, duration = 1001) =>
+  ({ number, cts, duration, isSync: number === 0, offset: 0, size: 0 });
+
+// 29.97 fps: 1001 ticks per frame at a 30000 timescale, with B-frame reorder.
+const ntsc = frameTimesOf([sample(0, 0), sample(1, 2002), sample(2, 1001), sample(3, 3003)], 30000);
+
+describe('frameTimesOf', () => {
+  it('puts frames in display order, rounded to the microsecond', () => {
+    expect(ntsc.starts).toEqual([0, 0.033367, 0.066733, 0.1001]);
+    expect(ntsc.end).toBe(0.133467);
+    expect(ntsc.fps).toBeCloseTo(29.97, 2);
+  });
+});
+
+describe('frameIndexAt', () => {
+  it('finds the frame showing at a time, counting a time before the first frame as the first', () => {
+    expect(frameIndexAt(ntsc, 0.05)).toBe(1);
+    expect(frameIndexAt(ntsc, 0.066733)).toBe(2);
+    expect(frameIndexAt(ntsc, 0.0667329)).toBe(2);
+    expect(frameIndexAt(ntsc, 5)).toBe(3);
+    const late = frameTimesOf([sample(0, 3003), sample(1, 4004)], 30000);
+    expect(frameIndexAt(late, 0)).toBe(0);
+  });
+});
+
+describe('stepFrameTime', () => {
+  it('steps from the frame showing to its neighbours, clamped to the track', () => {
+    expect(stepFrameTime(ntsc, 0.05, 1)).toBe(0.066733);
+    expect(stepFrameTime(ntsc, 0.05, -1)).toBe(0);
+    expect(stepFrameTime(ntsc, 0.066733, -1)).toBe(0.033367);
+    expect(stepFrameTime(ntsc, 0, -1)).toBe(0);
+    expect(stepFrameTime(ntsc, 0.1001, 1)).toBe(0.1001);
+  });
+});
+
+describe('snapToFrame', () => {
+  it('snaps to the nearest frame boundary, including the end of the last frame', () => {
+    expect(snapToFrame(ntsc, 0.04)).toBe(0.033367);
+    expect(snapToFrame(ntsc, 0.06)).toBe(0.066733);
+    expect(snapToFrame(ntsc, 0.13)).toBe(0.133467);
+    expect(snapToFrame(ntsc, 9)).toBe(0.133467);
+    expect(snapToFrame(ntsc, -1)).toBe(0);
+  });
+});
+
+describe('formatTimecode', () => {
+  it('formats HH:MM:SS:FF at the rounded frame rate', () => {
+    expect(formatTimecode(0, 25)).toBe('00:00:00:00');
+    expect(formatTimecode(3723.48, 25)).toBe('01:02:03:12');
+    // The last frame of a 29.97 second counts 29, not 30.
+    expect(formatTimecode(0.998, 29.97)).toBe('00:00:00:29');
+    expect(formatTimecode(1 / 3, 30)).toBe('00:00:00:10');
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { IndexedSample, memoryByteSource, readBatch } from '../utils/videoIndex';
+
+const MB = 1024 * 1024;
+
+// Samples in decode order at the given [offset, size] byte ranges.
+const at = (...ranges: [number, number][]): IndexedSample[] =>
+  ranges.map(([offset, size], number) => ({ number, cts: number, duration: 1, isSync: number === 0, offset, size }));
+
+describe('readBatch', () => {
+  it('reads neighbouring frames together, bridging small gaps', () => {
+    // Back to back, then past a 100 kB gap (interleaved audio).
+    const samples = at([1000, 500], [1500, 300], [1800 + 100_000, 200]);
+    expect(readBatch(samples, 0, 2)).toEqual({ endIdx: 3, offset: 1000, length: 100_000 + 1000 });
+  });
+
+  it('stops at a large gap, a frame earlier in the file, or the end of the range', () => {
+    expect(readBatch(at([0, 100], [100 + MB, 100]), 0, 1)).toEqual({ endIdx: 1, offset: 0, length: 100 });
+    expect(readBatch(at([5000, 100], [0, 100]), 0, 1)).toEqual({ endIdx: 1, offset: 5000, length: 100 });
+    expect(readBatch(at([0, 100], [100, 100], [200, 100]), 0, 1)).toEqual({ endIdx: 2, offset: 0, length: 200 });
+  });
+
+  it('caps a batch at 8 MB, but reads a larger frame on its own', () => {
+    const samples = at([0, 5 * MB], [5 * MB, 5 * MB], [10 * MB, 20 * MB]);
+    expect(readBatch(samples, 0, 2)).toEqual({ endIdx: 1, offset: 0, length: 5 * MB });
+    expect(readBatch(samples, 2, 2)).toEqual({ endIdx: 3, offset: 10 * MB, length: 20 * MB });
+  });
+
+  it('addresses each frame of the batch within the bytes read', async () => {
+    const bytes = new Uint8Array(64).map((_, i) => i);
+    const samples = at([10, 4], [14, 2], [20, 3]);
+    const { endIdx, offset, length } = readBatch(samples, 0, 2);
+    const batch = await memoryByteSource(bytes).read(offset, length);
+    expect(samples.slice(0, endIdx).map(s => [...batch.subarray(s.offset - offset, s.offset - offset + s.size)]))
+      .toEqual([[10, 11, 12, 13], [14, 15], [20, 21, 22]]);
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import {
+  keyframeAt,
+  normalizeRegionBox,
+  regionBoxAt,
+  regionsAt,
+  setRegionKeyframe,
+  withRegion,
+} from '../utils/videoRegions';
+import { Annotation } from '../types';
+
+const ann = (start: number, end: number, text: string, extra: Partial<Annotation> = {}): Annotation =>
+  ({ id: `${start}-${text}`, start, end, text, color: '#ff0000', ...extra });
+
+const left = { x: 0, y: 0.4, w: 0.2, h: 0.2 };
+const right = { x: 0.8, y: 0.4, w: 0.2, h: 0.2 };
+
+describe('normalizeRegionBox', () => {
+  it('flips a box drawn backwards and clips it to the frame', () => {
+    expect(normalizeRegionBox({ x: 0.5, y: 0.5, w: -0.25, h: 0.75 })).toEqual({ x: 0.25, y: 0.5, w: 0.25, h: 0.5 });
+  });
+
+  it('drops a box clipped to nothing or holding a non-number', () => {
+    expect(normalizeRegionBox({ x: 1.2, y: 0, w: 0.5, h: 0.5 })).toBeUndefined();
+    expect(normalizeRegionBox({ x: NaN, y: 0, w: 0.5, h: 0.5 })).toBeUndefined();
+  });
+});
+
+describe('keyframes', () => {
+  it('sets the start box first, then whichever edge is nearer', () => {
+    const a = ann(10, 20, 'fox');
+    expect(keyframeAt(a, 12)).toBe('start');
+    expect(keyframeAt(a, 18)).toBe('end');
+    const first = setRegionKeyframe(undefined, left, 'end');
+    expect(first).toEqual({ start: left });
+    expect(setRegionKeyframe(first, right, 'end')).toEqual({ start: left, end: right });
+    expect(setRegionKeyframe({ start: left, end: right }, right, 'start')).toEqual({ start: right, end: right });
+  });
+});
+
+describe('withRegion', () => {
+  it('sets and removes a region, keeping other attributes', () => {
+    const a = ann(0, 1, 'fox', { attributes: { note: 'far' } });
+    const boxed = withRegion(a, { start: left });
+    expect(boxed.attributes).toEqual({ note: 'far', region: { start: left } });
+    expect(withRegion(boxed, undefined).attributes).toEqual({ note: 'far' });
+    expect(withRegion(ann(0, 1, 'fox', { attributes: { region: { start: left } } }), undefined)).not.toHaveProperty('attributes');
+  });
+});
+
+describe('regionBoxAt / regionsAt', () => {
+  it('shows a region only inside its span, interpolating between keyframes', () => {
+    const moving = ann(10, 20, 'fox', { attributes: { region: { start: left, end: right } } });
+    const still = ann(0, 30, 'owl', { attributes: { region: { start: left } } });
+    const plain = ann(0, 30, 'buzz');
+    expect(regionBoxAt(moving, 9)).toBeNull();
+    expect(regionBoxAt(moving, 15)).toEqual({ x: 0.4, y: 0.4, w: 0.2, h: 0.2 });
+    expect(regionBoxAt(moving, 20)).toEqual(right);
+    expect(regionBoxAt(still, 25)).toEqual(left);
+    expect(regionsAt([moving, still, plain], 25).map(r => r.annotation.text)).toEqual(['owl']);
+  });
+});
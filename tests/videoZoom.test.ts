@@ -6,6 +6,8 @@ import {
   regionNorm,
   regionPx,
   viewportFromDragRect,
+  screenRectToFrame,
+  frameRectToScreen,
   zoomBy,
   panToFraction,
   panViewport,
@@ -261,3 +263,20 @@ describe('zoomBy / panToFraction / panViewport (clamped helpers)', () => {
     expect(out.cy).toBeCloseTo(0.75, 10);
   });
 });
+
+describe('screenRectToFrame / frameRectToScreen', () => {
+  const content: Rect = { x: 100, y: 0, w: 400, h: 300 };
+
+  it('maps a rect on the displayed content to the frame, unzoomed', () => {
+    const r = screenRectToFrame(DEFAULT_VIEWPORT, content, { x: 200, y: 75, w: 100, h: 150 });
+    expect(r).toEqual({ x: 0.25, y: 0.25, w: 0.25, h: 0.5 });
+  });
+
+  it('accounts for the zoomed-in region, and round-trips', () => {
+    // Zoom 2 on the bottom-right quarter: the content shows frame x/y 0.5–1.
+    const vp: Viewport = { zoom: 2, cx: 0.75, cy: 0.75 };
+    const r = screenRectToFrame(vp, content, { x: 100, y: 0, w: 200, h: 150 });
+    expect(r).toEqual({ x: 0.5, y: 0.5, w: 0.25, h: 0.25 });
+    expect(frameRectToScreen(vp, content, r)).toEqual({ x: 100, y: 0, w: 200, h: 150 });
+  });
+});
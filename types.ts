@@ -1,4 +1,5 @@
 import type { DateTimeFormat } from './utils/datetimeDisplay';
+import type { KeymapOverrides } from './utils/keymap';
 
 export type FrequencyScale = 'linear' | 'log' | 'mel';
 
@@ -16,12 +17,102 @@ export interface Annotation {
   // `text` (white when no tool matches — i.e. a Custom/one-off label). Never
   // written to the annotation file; the tool link is the label itself.
   color?: string;
+  // Optional frequency band in Hz. When both are set the annotation is a box
+  // on the spectrogram rather than a full-height time band; persisted as
+  // Audacity's `\` frequency row (see generateAudacityContent).
+  lowFreq?: number;
+  highFreq?: number;
+  // Structured details beyond the label. Kept out of the Audacity TXT (so
+  // tool matching and the set-merge key are untouched) and persisted in the
+  // track's attributes sidecar (see utils/annotationAttributes.ts).
+  attributes?: AnnotationAttributes;
 }
 
+// Per-annotation attributes. Every field is optional; an annotation with none
+// set carries no `attributes` at all.
+export interface AnnotationAttributes {
+  note?: string;
+  // Labeller's confidence in the label, 0–1.
+  confidence?: number;
+  // Flagged as uncertain — needs a second look.
+  uncertain?: boolean;
+  observer?: string;
+  // 0-based channel the annotation was drawn on in a single-channel or
+  // stacked view of a multi-channel file. Absent = drawn on the mixdown, so it
+  // applies to every channel.
+  channel?: number;
+  // Region of interest on the video frame (see utils/videoRegions.ts).
+  region?: VideoRegion;
+}
+
+// A box on the video frame in normalized frame coordinates — 0–1 across and
+// down from the top-left corner — so it holds at any display size or zoom.
+export interface RegionBox {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+// A region of interest tied to its annotation's time span. `start` is the box
+// at the annotation's start; `end`, when keyframed, the box at its end, with
+// the box moving linearly between the two. Without `end` it stays put.
+export interface VideoRegion {
+  start: RegionBox;
+  end?: RegionBox;
+}
+
+// A reviewer's verdict on one annotation: the label is right, the annotation
+// is wrong, or it should carry another label. Persisted per track in the
+// review sidecar (see utils/annotationReview.ts), never on the Annotation.
+export type ReviewVerdict = 'accept' | 'reject' | 'relabel';
+
+export interface AnnotationReview {
+  verdict: ReviewVerdict;
+  reviewer: string;
+  // The label the reviewer would give it; only for 'relabel'.
+  label?: string;
+  // When the verdict was given, ISO 8601.
+  at: string;
+}
+
+// A track's place in the annotation workflow, set by hand from the file tree.
+export type TrackStatus = 'not-started' | 'in-progress' | 'done' | 'needs-review';
+
+// One track's record in the project's track-status file (utils/trackStatus.ts).
+export interface TrackStatusEntry {
+  // Unset = inferred from whether the track has annotations.
+  status?: TrackStatus;
+  // Who the track is assigned to.
+  assignee?: string;
+  // Who last changed the record.
+  by?: string;
+  // When it was last changed, ISO 8601.
+  at: string;
+}
+
+// Interchange formats an annotation set can be exported as. The on-disk store
+// is always Audacity TXT (ProjectSettings.outputFormat); these are one-off
+// exports for other tools.
+export type AnnotationExportFormat = 'audacity' | 'raven';
+
 // Annotation with UI-only vertical-dodge layer assigned by calculateAnnotationLayers.
 // Never persisted — only used inside Spectrogram rendering.
 export type AnnotationWithLayer = Annotation & { layerIndex: number };
 
+// Which audio a multi-channel file's spectrogram shows: the mono mixdown, one
+// 0-based channel, or every channel as stacked lanes on a shared time axis.
+export type ChannelView = 'mixdown' | 'stacked' | number;
+
+/**
+ * Spectrogram palette (utils/colormaps). 'grayscaleInverted' draws loud as
+ * dark, for print; 'custom' is a two-color gradient from `customColormap`.
+ */
+export type ColormapName = 'roseus' | 'viridis' | 'grayscale' | 'grayscaleInverted' | 'custom';
+
+/** Taper applied to each FFT window (mirrors the backend's fft::WindowFunction). */
+export type WindowFunction = 'hann' | 'hamming' | 'blackmanHarris' | 'gaussian';
+
 export interface SpectrogramSettings {
   minFreq: number;
   maxFreq: number;
@@ -29,6 +120,19 @@ export interface SpectrogramSettings {
   frequencyScale: FrequencyScale;
   displayFloor: number; // dBFS lower bound for display mapping; default -100
   displayCeil: number;  // dBFS upper bound for display mapping; default 0
+  // Optional so preferences saved before multi-channel views load as mixdown.
+  channelView?: ChannelView;
+  // Optional so preferences saved before colormaps were selectable load as Roseus.
+  colormap?: ColormapName;
+  /** Floor → ceiling colors of the 'custom' colormap. */
+  customColormap?: [string, string];
+  // Analysis options (utils/stftOptions). Optional so preferences saved before
+  // they were adjustable load as the fixed analysis: Hann, FINEST_HOP_SAMPLES, unpadded.
+  windowFunction?: WindowFunction;
+  /** Overlap of adjacent windows at the finest zoom, in percent; absent = the fixed finest hop. */
+  overlapPercent?: number;
+  /** FFT length as a multiple of the window length (1 = no zero-padding). */
+  zeroPadding?: number;
 }
 
 
@@ -40,7 +144,7 @@ export interface AnnotationTool {
    * settings. The durable identity on disk is the folder name (= `text`).
    */
   id: string;
-  key: string | null;  // null = unassigned, "0" = custom, "1"-"9" = hotkey
+  key: string | null;  // null = unassigned, "0" = custom, else a hotkey slot: "1"-"9", "shift+1"…, "mod+1"… (utils/annotationTools.ts)
   text: string;
   color: string;
   description?: string; // internal memo shown as hover tooltip on annotations
@@ -93,7 +197,7 @@ export interface PlaybackTransport {
  *             run Accurate. Driven by VideoElementEngine.
  *  - 'mixed': 'fast' until a selection is committed, then frame-accurate canvas
  *             (WebCodecs + AudioEngine) for the selected region. Falls back to the
- *             <video> element on non-MP4/MOV files.
+ *             <video> element where WebCodecs can't decode the file.
  *  - 'accurate': always the WebCodecs+canvas path with AudioEngine (frame-accurate).
  *             Default.
  *
@@ -103,6 +207,18 @@ export interface PlaybackTransport {
  */
 export type VideoMode = 'off' | 'fast' | 'mixed' | 'accurate';
 
+/**
+ * Subset mode keyed to annotations rather than detections: keep only the time
+ * covered by annotations whose label matches, widened by `padding` seconds on
+ * each side (see utils/annotationSubset.ts).
+ */
+export interface LabelSubset {
+  label: string;
+  useRegex: boolean;
+  partial: boolean;
+  padding: number;
+}
+
 export interface ProjectUiSettings {
   volume?: number;          // gain, 0–4
   playbackSpeed?: number;   // 0.25–4.0, 1.0 = normal
@@ -112,6 +228,7 @@ export interface ProjectUiSettings {
   videoMode?: VideoMode;            // see VideoMode docs
   videoBrightness?: number;         // display-only CSS filter, 0-200, 100 = neutral
   videoContrast?: number;           // display-only CSS filter, 0-200, 100 = neutral
+  snapToFrames?: boolean;           // snap drawn annotation edges to video frames (utils/videoFrames.ts)
 
   // buzzdetect activations panel (see components/BuzzdetectPanel.tsx).
   buzzdetectEnabled?: boolean;             // panel shown/hidden
@@ -125,9 +242,22 @@ export interface ProjectUiSettings {
   buzzdetectSubsetEnabled?: boolean;       // master toggle; the neuron picks survive turning it off
   buzzdetectSubsetNeurons?: string[];      // neuron labels the subset is keyed to, OR'd
   buzzdetectMinDetectionRate?: number;     // 0-1; detection-rate mode's minimum per bin
+  // The extra detector lanes' own thresholds and hidden neurons, keyed by
+  // source label (ResolvedDetectorSource.label); colors, series and bin width
+  // are shared with the first lane.
+  detectorSourceThresholds?: Record<string, Record<string, number>>;
+  detectorSourceHiddenNeurons?: Record<string, string[]>;
+  // The same subset keyed to annotation labels instead. Takes the place of the
+  // neuron subset while enabled; the two are never on together.
+  labelSubsetEnabled?: boolean;
+  labelSubset?: LabelSubset;               // last label subset applied; kept while it's off
 
   // Panel layout (see hooks/usePanelLayout.ts).
   playheadLocked?: boolean;
+  annotationTableOpen?: boolean;    // annotation table panel shown/hidden (components/AnnotationTablePanel.tsx)
+  powerSpectrumOpen?: boolean;      // power spectrum panel shown/hidden (components/PowerSpectrumPanel.tsx)
+  reviewOpen?: boolean;             // review panel shown/hidden (components/ReviewPanel.tsx)
+  agreementOpen?: boolean;          // agreement panel shown/hidden (components/AgreementPanel.tsx)
   filePanelCollapsed?: boolean;
   videoCollapsed?: boolean;
   splitRatio?: number;              // video/spectrogram vertical split, 0–1
@@ -143,22 +273,47 @@ export interface ProjectUiSettings {
   fallbackTimeDisplayUnit?: 'seconds' | 'hms';
 }
 
-/**
- * Parsed buzzdetect activations for one track, returned by `read_buzzdetect`.
- * `values` is indexed `[neuron][frame]`; `neurons` are display labels with any
- * `activation_` prefix already stripped. `binWidth` is inferred from `starts`.
- */
 /**
  * Which series the buzzdetect panel plots: the raw per-frame activation, or
  * the fraction of each bin's frames clearing the neuron's threshold.
  */
 export type BuzzdetectSeriesMode = 'activation' | 'detectionRate';
 
+/**
+ * Parsed detector output for one track, as a frame grid: buzzdetect's own
+ * activations from `read_buzzdetect`, or another model's events laid onto
+ * frames (utils/detectorOutput.ts). `values` is indexed `[neuron][frame]`;
+ * `neurons` are display labels with any `activation_` prefix already
+ * stripped. `binWidth` is the frame length, inferred from `starts` unless the
+ * project pins one. `defaultThreshold` is the threshold a neuron starts at —
+ * absent for logits, whose boundary is DEFAULT_BUZZDETECT_THRESHOLD.
+ */
 export interface BuzzdetectData {
   binWidth: number;
   neurons: string[];
   starts: number[];
   values: number[][];
+  defaultThreshold?: number;
+}
+
+/** Which model's output a project's detector directory holds (utils/detectorOutput.ts). */
+export type DetectorFormat = 'buzzdetect' | 'birdnet' | 'long';
+
+/** One of ProjectSettings.extraDetectorSources. */
+export interface DetectorSource {
+  /** Lane label; blank = the directory's name. */
+  name?: string;
+  directory: ProjectPath;
+  format?: DetectorFormat;
+}
+
+/** A DetectorSource resolved against the project directory (Project.extraDetectorSources). */
+export interface ResolvedDetectorSource {
+  /** Unique among the project's sources: the lane label, and the key its
+   *  thresholds and hidden neurons are kept under in ProjectUiSettings. */
+  label: string;
+  directoryAbs: string;
+  format: DetectorFormat;
 }
 
 /**
@@ -204,6 +359,12 @@ export interface AppSettings {
    * PATH lookup.
    */
   ffmpegPath?: string;
+  /**
+   * The user's keyboard-shortcut changes, by action id (utils/keymap.ts).
+   * Per machine rather than per project: muscle memory doesn't change
+   * between projects.
+   */
+  keymap?: KeymapOverrides;
 }
 
 export interface ProjectSettings {
@@ -216,8 +377,14 @@ export interface ProjectSettings {
    * as wall-clock datetimes. See utils/filenameTime.ts for the token set.
    */
   filenameTimeFormat?: string;
-  /** Optional directory of buzzdetect `{ident}_buzzdetect.csv` files. */
+  /** Optional directory of detector output, one file per track by ident
+   *  (`{ident}_buzzdetect.csv` for buzzdetect; see utils/detectorOutput.ts). */
   buzzdetectDirectory?: ProjectPath;
+  /** Format of the files in `buzzdetectDirectory`; absent = 'buzzdetect'. */
+  detectorFormat?: DetectorFormat;
+  /** More detector directories, each drawn as its own lane below the first
+   *  (e.g. another model version, to compare side by side). */
+  extraDetectorSources?: DetectorSource[];
   /** Frame length in seconds, used as a fallback bin width when it can't be
    *  inferred from a CSV's `start` column (e.g. fewer than 2 rows). */
   buzzdetectFrameLength?: number;
@@ -236,18 +403,24 @@ export interface ProjectSettings {
 export interface ProjectPreferences {
   spectrogramSettings?: SpectrogramSettings;
   /**
-   * Label → hotkey ("1"–"9"). The tools themselves live as folders under
+   * Label → hotkey slot ("1"–"9", "shift+1"–"shift+9", "mod+1"–"mod+9").
+   * The tools themselves live as folders under
    * {projectDir}/.seenote/annotation-tools/ (see utils/annotationTools.ts);
    * only the hotkey bindings are stored here.
    */
   toolHotkeys?: Record<string, string>;
-  fileFilter?: 'all' | 'annotated' | 'unannotated';
+  fileFilter?: 'all' | 'annotated' | 'unannotated' | 'unfinished';
   shuffleMode?: boolean;
   enteredFolderPath?: string;
   uiSettings?: ProjectUiSettings;
   bandPassFilter?: BandPassFilter | null;
   /** Per-user git sync credentials and author identity. */
   gitSyncUser?: GitSyncUserConfig;
+  /**
+   * Name recorded with this user's review verdicts (components/ReviewPanel.tsx).
+   * Unset = the git sync author name.
+   */
+  reviewerName?: string;
   /**
    * Automatically pull (fetch + merge, never push) remote annotation changes
    * on project open and on the sync heartbeat, so the working tree never sits
@@ -334,6 +507,8 @@ export interface Project {
   annotationDirectoryAbs: string;
   /** Resolved absolute buzzdetect directory, or null when not configured. */
   buzzdetectDirectoryAbs: string | null;
+  /** ProjectSettings.extraDetectorSources, resolved; empty when none. */
+  extraDetectorSources: ResolvedDetectorSource[];
 }
 
 /** Existence of one of a project's configured directories, reported during re-link. */
@@ -80,7 +80,7 @@ import { RafTicker } from './rafTicker';
 import { BandPassFilter, PlaybackTransport } from '../types';
 import { clamp } from './helpers';
 import { TimeStretchEngine } from './TimeStretchEngine';
-import { PcmCache, PcmCacheSlice } from './PcmCache';
+import { PcmCache, PcmCacheSlice, decodePcmRange } from './PcmCache';
 import { deinterleave } from './pcm';
 import { BandPassFilterGraph } from './BandPassFilterGraph';
 import { Timeline, identityTimeline } from './subsetTimeline';
@@ -1237,6 +1237,37 @@ export class AudioEngine implements PlaybackTransport {
     await this.pcmCache.preloadRange(this.filePath, this.fileChannels, this.fileSampleRate, src.start, src.end);
   }
 
+  /**
+   * Decoded PCM for [startSec, endSec] (display positions), one array per
+   * channel — for analysis, not playback (components/PowerSpectrumPanel).
+   *
+   * Served from the PCM cache when it covers the range; otherwise decoded on a
+   * stream of its own and stored there, so playing the range next is instant.
+   * It doesn't go through preloadRange: a preload is cancelled by every seek
+   * and play, and reading a selection shouldn't lose to playing it. Null when
+   * the range crosses a cut, the decode fails, or the file changes meanwhile.
+   */
+  async readRange(startSec: number, endSec: number): Promise<{ channels: Float32Array[]; sampleRate: number } | null> {
+    const path = this.filePath;
+    if (!path || endSec <= startSec) return null;
+    const src = this._sourceRangeWithinOneSpan(startSec, endSec);
+    if (!src) return null;
+    const sr = this.fileSampleRate;
+    const slice = this.pcmCache.find(sr, src.start, src.end);
+    if (slice) {
+      const { entry, startFrame, frameCount } = slice;
+      return { channels: entry.channels.map(c => c.subarray(startFrame, startFrame + frameCount)), sampleRate: sr };
+    }
+    const decoded = await decodePcmRange(
+      path, this.fileChannels, sr, src.start, src.end,
+      () => this.filePath === path,
+      (msg, type) => this._log(`readRange ${msg}`, type),
+    );
+    if (!decoded) return null;
+    this.pcmCache.store(path, sr, src.start, src.end, decoded.channels, decoded.totalFrames);
+    return { channels: decoded.channels, sampleRate: sr };
+  }
+
   /**
    * Schedule a cached PCM slice directly, bypassing all Rust IPC.
    * Called from play() on a cache hit. Only used at speed=1.0 (see play()).
@@ -133,69 +133,94 @@ export class PcmCache {
     if (this.find(fileSampleRate, startSec, endSec)) return;
 
     const myPreloadId = ++this.preloadId;
-    const path = filePath;
-    const ch = fileChannels;
-    const sr = fileSampleRate;
-    const chunkFrames = Math.floor(CHUNK_DURATION_SEC * sr);
+    const decoded = await decodePcmRange(
+      filePath, fileChannels, fileSampleRate, startSec, endSec,
+      () => this.preloadId === myPreloadId,
+      (msg, type) => this._log(`preload ${msg}`, type),
+    );
+    if (decoded) {
+      this.store(filePath, fileSampleRate, startSec, endSec, decoded.channels, decoded.totalFrames);
+      this._log(`preloaded ${startSec.toFixed(3)}s–${endSec.toFixed(3)}s (${decoded.totalFrames} frames)`);
+    }
+  }
+}
+
+/**
+ * Decode [startSec, endSec] of `filePath` into one array per channel via the
+ * PCM stream commands. `isCurrent` is polled between IPC calls; once it
+ * returns false the stream is closed and the result dropped (null). Also null
+ * when the stream fails or ends before any frame of the range.
+ *
+ * PcmCache.preloadRange drives this with its generation token; other readers
+ * (AudioEngine.readRange) pass their own, so they don't cancel each other.
+ */
+export async function decodePcmRange(
+  filePath: string,
+  fileChannels: number,
+  fileSampleRate: number,
+  startSec: number,
+  endSec: number,
+  isCurrent: () => boolean,
+  log: (msg: string, type?: 'info' | 'error') => void,
+): Promise<{ channels: Float32Array[]; totalFrames: number } | null> {
+  const ch = fileChannels;
+  const sr = fileSampleRate;
+  const chunkFrames = Math.floor(CHUNK_DURATION_SEC * sr);
+
+  let handle;
+  try {
+    handle = await startPcmStream(filePath, startSec);
+  } catch (err) {
+    log(`startPcmStream failed: ${String(err)}`, 'error');
+    return null;
+  }
+  if (!isCurrent()) {
+    closePcmStream(handle.stream_id).catch(() => {});
+    return null;
+  }
 
-    let handle;
+  const cacheChunks: Array<{ samples: Float32Array; frames: number }> = [];
+  let cacheTotalFrames = 0;
+  let reachedEnd = false;
+
+  while (isCurrent()) {
+    let chunk;
     try {
-      handle = await startPcmStream(path, startSec);
+      chunk = await readPcmChunk(handle.stream_id, chunkFrames);
     } catch (err) {
-      this._log(`preload startPcmStream failed: ${String(err)}`, 'error');
-      return;
-    }
-    if (this.preloadId !== myPreloadId) {
+      log(`readPcmChunk failed: ${String(err)}`, 'error');
       closePcmStream(handle.stream_id).catch(() => {});
-      return;
+      return null;
     }
+    if (!isCurrent()) break;
+    if (chunk.frames_read === 0) { reachedEnd = true; break; }
 
-    const cacheChunks: Array<{ samples: Float32Array; frames: number }> = [];
-    let cacheTotalFrames = 0;
-    let reachedEnd = false;
-
-    while (this.preloadId === myPreloadId) {
-      let chunk;
-      try {
-        chunk = await readPcmChunk(handle.stream_id, chunkFrames);
-      } catch (err) {
-        this._log(`preload readPcmChunk failed: ${String(err)}`, 'error');
-        closePcmStream(handle.stream_id).catch(() => {});
-        return;
-      }
-      if (this.preloadId !== myPreloadId) break;
-      if (chunk.frames_read === 0) { reachedEnd = true; break; }
+    const chunkMediaStart = chunk.start_frame / sr;
+    const chunkDurationSec = chunk.frames_read / sr;
+    const chunkMediaEnd = chunkMediaStart + chunkDurationSec;
 
-      const chunkMediaStart = chunk.start_frame / sr;
-      const chunkDurationSec = chunk.frames_read / sr;
-      const chunkMediaEnd = chunkMediaStart + chunkDurationSec;
+    let framesToCache = chunk.frames_read;
+    if (chunkMediaEnd >= endSec) {
+      framesToCache = clamp(Math.round((endSec - chunkMediaStart) * sr), 0, chunk.frames_read);
+      reachedEnd = true;
+    }
 
-      let framesToCache = chunk.frames_read;
-      if (chunkMediaEnd >= endSec) {
-        framesToCache = clamp(Math.round((endSec - chunkMediaStart) * sr), 0, chunk.frames_read);
-        reachedEnd = true;
-      }
+    if (framesToCache > 0) {
+      cacheChunks.push({ samples: chunk.samples.slice(0, framesToCache * ch), frames: framesToCache });
+      cacheTotalFrames += framesToCache;
+    }
 
-      if (framesToCache > 0) {
-        cacheChunks.push({ samples: chunk.samples.slice(0, framesToCache * ch), frames: framesToCache });
-        cacheTotalFrames += framesToCache;
-      }
+    if (reachedEnd) break;
+  }
 
-      if (reachedEnd) break;
-    }
+  closePcmStream(handle.stream_id).catch(() => {});
+  if (!isCurrent() || !reachedEnd || cacheChunks.length === 0) return null;
 
-    closePcmStream(handle.stream_id).catch(() => {});
-    if (this.preloadId !== myPreloadId) return;
-
-    if (reachedEnd && cacheChunks.length > 0) {
-      const channels: Float32Array[] = Array.from({ length: ch }, () => new Float32Array(cacheTotalFrames));
-      let frameOffset = 0;
-      for (const { samples, frames } of cacheChunks) {
-        deinterleaveInto(samples, frames, channels, frameOffset);
-        frameOffset += frames;
-      }
-      this.store(filePath, fileSampleRate, startSec, endSec, channels, cacheTotalFrames);
-      this._log(`preloaded ${startSec.toFixed(3)}s–${endSec.toFixed(3)}s (${cacheTotalFrames} frames)`);
-    }
+  const channels: Float32Array[] = Array.from({ length: ch }, () => new Float32Array(cacheTotalFrames));
+  let frameOffset = 0;
+  for (const { samples, frames } of cacheChunks) {
+    deinterleaveInto(samples, frames, channels, frameOffset);
+    frameOffset += frames;
   }
+  return { channels, totalFrames: cacheTotalFrames };
 }
@@ -28,7 +28,8 @@ const FFT_SIZE = 2048;
 const ANALYSIS_HOP = 128;
 const NUM_BINS = FFT_SIZE / 2 + 1;
 
-class FFT {
+/** Radix-2 complex FFT of a fixed power-of-two size (also used by utils/powerSpectrum). */
+export class FFT {
   private readonly cosTable: Float32Array;
   private readonly sinTable: Float32Array;
   private readonly bitRev: Uint32Array;
@@ -1,5 +1,6 @@
 /**
- * VideoFrameSource — frame-perfect video playback via MP4Box.js + WebCodecs.
+ * VideoFrameSource — frame-perfect video playback via a range-read sample
+ * index + WebCodecs.
  *
  * ── Why ────────────────────────────────────────────────────────────────────────
  * The <video> element can't keep up with an external audio clock at the frame
@@ -7,24 +8,23 @@
  * drifts. For ML label boundaries, users need to see the *exact* frame that
  * corresponds to the audio under the playhead.
  *
- * This class demuxes an MP4/MOV into encoded samples, feeds them to a
- * VideoDecoder, and caches the resulting VideoFrames keyed by microsecond
+ * This class indexes an MP4/MOV, WebM or MKV's encoded samples, feeds them
+ * to a VideoDecoder, and caches the resulting VideoFrames keyed by microsecond
  * timestamp. A canvas rAF loop draws the newest cached frame at or before
  * the engine's current media time — no <video> element involved.
  *
  * ── Data flow ──────────────────────────────────────────────────────────────────
- *   asset bytes → MP4Box.js → VideoDecoder → VideoFrame cache → canvas.drawImage
+ *   open():        file ─range reads→ mp4Index / matroskaDemux → sample index
+ *   ensureRange(): sample byte ranges ─range reads→ VideoDecoder
+ *                    → VideoFrame cache → canvas.drawImage
  *
- * ── Critical implementation note: buffer lifecycle ─────────────────────────────
- * mp4box's appendBuffer() calls stream.cleanBuffers() before returning, destroying
- * the raw sample byte data. This means seek()+start() called *after* appendBuffer
- * returns will find getSample() returning null for every sample (no data).
- *
- * Solution: for each ensureRange() call, create a fresh ISOFile, re-append the
- * stored rawBuffer, and call seek()+start() from *inside* the onReady callback —
- * while appendBuffer is still on the stack and the stream data is live.
- * mp4box's processSamples loop is synchronous, so all onSamples batches fire
- * before appendBuffer returns and cleans the buffers.
+ * The file is never loaded whole (see utils/videoIndex.ts). open() sniffs the
+ * container from its first bytes, not the extension, and indexes it once:
+ * every frame's timestamps and byte range. ensureRange() then reads just the
+ * frames it decodes, in batches of neighbouring frames (readBatch), through
+ * the backend's read_file_range command. Everything from the sample table on —
+ * keyframe search, missing-frame narrowing, the cache, eviction — is the same
+ * for both containers.
  *
  * ── Invariants ─────────────────────────────────────────────────────────────────
  * - One VideoFrameSource per opened track.
@@ -35,14 +35,18 @@
  *   or superseded frame.
  *
  * ── Limitations ────────────────────────────────────────────────────────────────
- * - MP4/MOV (ISOBMFF) only. WebM/MKV/AVI require different demuxers.
- * - Whole-file load into memory. For >2 GB files we'd need to stream via range
- *   reads; not implemented.
+ * - MP4/MOV (ISOBMFF), WebM and MKV only. AVI would need another indexer.
+ * - Memory is the decoded-frame cache (capped at MEMORY_BUDGET_BYTES), the
+ *   index, and one read batch — not the file. Indexing a WebM/MKV does read
+ *   through every cluster once, so it takes as long as one pass over the file.
  */
 
-import { createFile, DataStream, Endianness, type ISOFile, type Sample, type Track, type MP4BoxBuffer } from 'mp4box';
 import { DEFAULT_VIEWPORT, computeContentRect, drawLetterboxed, regionPx, type Viewport } from './videoZoom';
 import { getExt } from '../constants';
+import { indexMatroska, isMatroska } from './matroskaDemux';
+import { indexMp4 } from './mp4Index';
+import { fileByteSource, readBatch, type ByteSource, type IndexedSample } from './videoIndex';
+import { frameTimesOf, type FrameTimes } from './videoFrames';
 
 const DEFAULT_WINDOW_BEFORE_SEC = 2;
 const DEFAULT_WINDOW_AFTER_SEC = 30;
@@ -63,14 +67,16 @@ export interface VideoFrameSourceOptions {
 }
 
 export class VideoFrameSource {
-  /** Raw file bytes retained for re-feeding fresh mp4box instances per ensureRange(). */
-  private rawBuffer: ArrayBuffer | null = null;
-  private trackId = 0;
+  /** The open file, read by range for each decode. */
+  private source: ByteSource | null = null;
   private trackTimescale = 0;
   private width = 0;
   private height = 0;
-  /** Sample metadata (no byte data) — used for allCached checks and range math. */
-  private samples: Sample[] = [];
+  /** The sample index, in decode order: timestamps for the range math, byte
+   *  ranges for the feed. */
+  private samples: IndexedSample[] = [];
+  /** The same frames' start times in display order, for frame stepping. */
+  private frameTimes: FrameTimes | null = null;
   private decoder: VideoDecoder | null = null;
   /** True once the decoder has reported it has no support for this file's
    *  codec (see the `error` callback in open()). Exposed via isDecoderUnsupported(). */
@@ -128,99 +134,37 @@ export class VideoFrameSource {
   }
 
 
-  async open(assetUrl: string): Promise<{ width: number; height: number; durationSec: number }> {
+  /** Index the video file at `path` and set up its decoder. */
+  async open(path: string): Promise<{ width: number; height: number; durationSec: number }> {
     if (this.opened) throw new Error('VideoFrameSource already opened');
     if (typeof VideoDecoder === 'undefined') {
       throw new Error('WebCodecs VideoDecoder not supported in this environment');
     }
 
-    const resp = await fetch(assetUrl);
-    if (!resp.ok) throw new Error(`fetch failed: ${resp.status} ${resp.statusText}`);
-    this.rawBuffer = await resp.arrayBuffer();
-
-    return new Promise((resolve, reject) => {
-      const file = createFile();
-
-      file.onError = (_module: string, msg: string) => {
-        const err = new Error(`mp4box: ${msg}`);
-        this.opts.onDebugLog?.(`[video] ${err.message}`, 'error');
-        if (!this.opened) reject(err);
-      };
-
-      file.onReady = (info) => {
-        try {
-          const track = info.videoTracks[0];
-          if (!track) throw new Error('no video track in file');
-          this.trackId = track.id;
-          this.trackTimescale = track.timescale;
-          this.width = track.video?.width ?? track.track_width;
-          this.height = track.video?.height ?? track.track_height;
-          this.bytesPerFrame = this.width * this.height * 4;
-          this.samples = file.getTrackSamplesInfo(track.id);
-
-          const description = this.buildDecoderDescription(file, track);
-          if (!description) throw new Error(`unsupported codec: ${track.codec}`);
-
-          this.decoder = new VideoDecoder({
-            output: (frame) => this.onDecodedFrame(frame),
-            error: (e) => {
-              this.opts.onDebugLog?.(`[video] decoder error: ${e.message}`, 'error');
-              // WebCodecs surfaces "no decoder for this codec" as a NotSupportedError
-              // from the decode() call, not from configure() (which accepts the codec
-              // string optimistically). Report it once so the UI can stop presenting
-              // this file as playable in this mode.
-              if (e.name === 'NotSupportedError' && !this.decoderUnsupported) {
-                this.decoderUnsupported = true;
-                this.opts.onDecoderUnsupported?.();
-              }
-            },
-          });
-          this.decoder.configure({
-            codec: track.codec,
-            description,
-            codedWidth: this.width,
-            codedHeight: this.height,
-            optimizeForLatency: false,
-          });
-
-          this.opened = true;
-          this.opts.onDebugLog?.(
-            `[video] opened codec=${track.codec} size=${this.width}x${this.height} samples=${this.samples.length}`,
-          );
-          resolve({
-            width: this.width,
-            height: this.height,
-            durationSec: track.duration / track.timescale,
-          });
-        } catch (err) {
-          reject(err);
-        }
-      };
-
-      const mp4buf = this.rawBuffer as MP4BoxBuffer;
-      (mp4buf as unknown as { fileStart: number }).fileStart = 0;
-      try {
-        file.appendBuffer(mp4buf);
-        // Do NOT call file.flush() here. flush() calls stream.cleanBuffers()
-        // which would destroy the byte data needed by future ensureRange() calls.
-        // appendBuffer itself also calls cleanBuffers() at the end, but we store
-        // rawBuffer separately and re-append it in each ensureRange().
-      } catch (err) {
-        reject(err);
-      }
-    });
+    const source = await fileByteSource(path);
+    const matroska = isMatroska(await source.read(0, 4));
+    const index = matroska ? await indexMatroska(source) : await indexMp4(source);
+    if (index.samples.length === 0) throw new Error('no video frames in file');
+
+    this.source = source;
+    this.trackTimescale = index.timescale;
+    this.width = index.width;
+    this.height = index.height;
+    this.bytesPerFrame = this.width * this.height * 4;
+    this.samples = index.samples;
+    this.frameTimes = frameTimesOf(index.samples, index.timescale);
+    this.createDecoder(index.codec, index.description);
+    this.opened = true;
+    this.opts.onDebugLog?.(
+      `[video] opened ${matroska ? 'matroska' : 'mp4'} codec=${index.codec} size=${this.width}x${this.height} samples=${this.samples.length}`,
+    );
+    return { width: this.width, height: this.height, durationSec: index.durationSec };
   }
 
   /** Decode every frame whose timestamp falls in [startSec, endSec], starting
-   *  from the nearest prior keyframe. Resolves when the decoder has flushed.
-   *
-   *  Implementation: creates a fresh ISOFile per call and appends rawBuffer.
-   *  The key insight is that mp4box's processSamples loop runs synchronously
-   *  within appendBuffer() before cleanBuffers() destroys the stream data.
-   *  We call seek()+start() inside onReady so extraction happens while the
-   *  data is still live. */
+   *  from the nearest prior keyframe. Resolves when the decoder has flushed. */
   async ensureRange(startSec: number, endSec: number, caller = 'unknown'): Promise<void> {
-    if (!this.opened || !this.decoder || this.closed || !this.rawBuffer) return;
+    if (!this.opened || !this.decoder || this.closed || !this.source) return;
     if (endSec < startSec) return;
 
     const callToken = this.rangeToken; // snapshot before any bump
@@ -239,7 +183,7 @@ export class VideoFrameSource {
     for (let i = 0; i < this.samples.length; i++) {
       const s = this.samples[i];
       if (s.cts > startCts) break;
-      if (s.is_sync) keyIdx = i;
+      if (s.isSync) keyIdx = i;
     }
     if (keyIdx === -1) keyIdx = 0;
 
@@ -286,13 +230,12 @@ export class VideoFrameSource {
     // stop at lastMissingIdx, skipping already-cached trailing GOPs.
     let narrowKeyIdx = keyIdx;
     for (let i = firstMissingIdx; i >= 0; i--) {
-      if (this.samples[i].is_sync) { narrowKeyIdx = i; break; }
+      if (this.samples[i].isSync) { narrowKeyIdx = i; break; }
     }
     keyIdx = narrowKeyIdx;
     endIdx = lastMissingIdx;
-    // The feed now stops on decode-order sample number (endSampleNumber below),
-    // so endCts is intentionally left at the requested range end and not
-    // narrowed to endIdx's cts.
+    // The feed stops on decode-order index endIdx, so endCts is intentionally
+    // left at the requested range end and not narrowed to endIdx's cts.
 
     // Only bump the token (cancelling any previous in-flight decode) when we
     // actually need to do work.
@@ -301,86 +244,12 @@ export class VideoFrameSource {
       `[ensureRange] caller=${caller} TOKEN BUMP to ${token} (was ${token - 1}), missing=[${firstMissingIdx}..${lastMissingIdx}] of [${keyIdx}..${endIdx}]`,
     );
 
-    const endSampleNumber = this.samples[endIdx].number;
     const wallStart = performance.now();
     this.opts.onDebugLog?.(
       `[video] ensureRange ${startSec.toFixed(2)}–${endSec.toFixed(2)}s samples [${keyIdx}..${endIdx}] (${endIdx - keyIdx + 1}) playhead=${this.currentPlayheadSec.toFixed(3)}s`,
     );
 
-    let fed = 0;
-
-    // Each ensureRange creates a fresh ISOFile and re-appends rawBuffer.
-    // start() is called inside onReady — while appendBuffer is still on the
-    // call stack — so getSample can find the stream bytes before cleanBuffers
-    // runs. Everything in this block is synchronous within appendBuffer().
-    await new Promise<void>((resolve, reject) => {
-      const file = createFile();
-
-      file.onError = (_module: string, msg: string) => {
-        reject(new Error(`mp4box: ${msg}`));
-      };
-
-      file.onReady = (_info) => {
-        if (token !== this.rangeToken || this.closed) return;
-
-        // Large nbSamples so the whole range fits in one onSamples callback.
-        file.setExtractionOptions(this.trackId, null, { nbSamples: 100000 });
-
-        file.onSamples = (_id: number, _user: unknown, samples: Sample[]) => {
-          if (token !== this.rangeToken || this.closed) { file.stop(); return; }
-          for (const sample of samples) {
-            // Stop strictly on decode-order sample number (below), never on cts.
-            // Samples arrive in DECODE order; with B-frames a high-cts anchor
-            // (e.g. the P-frame of an IBBP group) is decoded *before* the
-            // lower-cts B-frames that reference it. Stopping when cts > endCts
-            // would cut the feed off at that anchor and starve the in-range
-            // B-frames that follow it in decode order — they'd never decode and
-            // would be re-requested on every replay. Feeding the full
-            // [keyIdx..endIdx] decode-order span is safe: H.264 guarantees a
-            // frame's references all precede it in decode order.
-            if (!sample.data) {
-              this.opts.onDebugLog?.(`[video] sample ${sample.number} has no data`, 'error');
-              continue;
-            }
-            if (this.decoder && this.decoder.state === 'configured') {
-              try {
-                this.decoder.decode(new EncodedVideoChunk({
-                  type: sample.is_sync ? 'key' : 'delta',
-                  timestamp: Math.round((sample.cts / sample.timescale) * MICROS_PER_SEC),
-                  duration: Math.round((sample.duration / sample.timescale) * MICROS_PER_SEC),
-                  data: sample.data,
-                }));
-                fed++;
-              } catch (err) {
-                this.opts.onDebugLog?.(
-                  `[video] decode() threw on sample ${sample.number}: ${String(err)}`, 'error',
-                );
-              }
-            }
-            if (sample.number >= endSampleNumber) { file.stop(); return; }
-          }
-        };
-
-        // Seek positions trak.nextSample at the RAP at/before startSec.
-        // Must be called after setExtractionOptions so the extractedTrack
-        // entry exists when processSamples starts.
-        file.seek(startSec, true);
-        // start() triggers the synchronous processSamples loop, which calls
-        // onSamples before returning. Buffer data is still live here.
-        file.start();
-      };
-
-      // Re-attach fileStart before each appendBuffer call.
-      (this.rawBuffer as unknown as { fileStart: number }).fileStart = 0;
-      try {
-        file.appendBuffer(this.rawBuffer as MP4BoxBuffer);
-        // appendBuffer has returned; onReady + onSamples have already fired
-        // and decoder.decode() has been called fed times.
-        resolve();
-      } catch (err) {
-        reject(err);
-      }
-    });
+    const fed = await this.feed(keyIdx, endIdx, token);
 
     if (token !== this.rangeToken || this.closed) return;
 
@@ -404,11 +273,12 @@ export class VideoFrameSource {
 
   /** Draw the cached frame nearest to (but not after) tSec into ctx. If no
    *  suitable frame is cached, we draw the earliest frame we have to avoid
-   *  a blank canvas — better stale than empty. */
-  drawAt(ctx: CanvasRenderingContext2D, tSec: number): void {
+   *  a blank canvas — better stale than empty. Returns false when nothing
+   *  is cached at all, so nothing was drawn. */
+  drawAt(ctx: CanvasRenderingContext2D, tSec: number): boolean {
     this.currentPlayheadSec = tSec;
     const frame = this.currentFrame(this.frozenDisplaySec ?? undefined);
-    if (!frame) return;
+    if (!frame) return false;
 
     const canvas = ctx.canvas;
     const frameW = frame.displayWidth || this.width;
@@ -435,6 +305,7 @@ export class VideoFrameSource {
     ctx.clip();
     ctx.drawImage(frame, originX, originY, fullW, fullH);
     ctx.restore();
+    return true;
   }
 
   /** Update the zoom/pan viewport. Cheap — applied on the next rAF draw. */
@@ -442,6 +313,10 @@ export class VideoFrameSource {
     this.viewport = vp;
   }
 
+  getViewport(): Viewport {
+    return this.viewport;
+  }
+
   /** Draw the *whole* current frame (ignoring the viewport) fitted into a
    *  w×h context — used by the minimap viewfinder. */
   drawThumbnail(ctx: CanvasRenderingContext2D, w: number, h: number): void {
@@ -467,6 +342,11 @@ export class VideoFrameSource {
     return 1 / 30;
   }
 
+  /** Every frame's start time (see utils/videoFrames.ts); null until opened. */
+  getFrameTimes(): FrameTimes | null {
+    return this.frameTimes;
+  }
+
   notifyPlayhead(tSec: number): void {
     this.currentPlayheadSec = tSec;
   }
@@ -484,32 +364,77 @@ export class VideoFrameSource {
       try { this.decoder.close(); } catch { /* already closed */ }
     }
     this.decoder = null;
-    this.rawBuffer = null;
+    this.source = null;
     this.samples = [];
     this.opened = false;
   }
 
   // ── Private ─────────────────────────────────────────────────────────────────
 
-  private buildDecoderDescription(file: ISOFile, track: Track): Uint8Array | undefined {
-    const trak = file.moov?.traks?.find(
-      (t) => (t.tkhd as unknown as { track_id: number })?.track_id === track.id,
-    );
-    const entries = (trak as unknown as {
-      mdia?: { minf?: { stbl?: { stsd?: { entries?: unknown[] } } } };
-    } | undefined)?.mdia?.minf?.stbl?.stsd?.entries;
-    const entry = entries?.[0] as {
-      avcC?: { write: (s: DataStream) => void };
-      hvcC?: { write: (s: DataStream) => void };
-      vpcC?: { write: (s: DataStream) => void };
-      av1C?: { write: (s: DataStream) => void };
-    } | undefined;
-    const box = entry?.avcC ?? entry?.hvcC ?? entry?.vpcC ?? entry?.av1C;
-    if (!box) return undefined;
-
-    const stream = new DataStream(undefined, 0, Endianness.BIG_ENDIAN);
-    box.write(stream);
-    return new Uint8Array(stream.buffer.slice(8));
+  private createDecoder(codec: string, description: Uint8Array | undefined): void {
+    this.decoder = new VideoDecoder({
+      output: (frame) => this.onDecodedFrame(frame),
+      error: (e) => {
+        this.opts.onDebugLog?.(`[video] decoder error: ${e.message}`, 'error');
+        // WebCodecs surfaces "no decoder for this codec" as a NotSupportedError
+        // from the decode() call, not from configure() (which accepts the codec
+        // string optimistically). Report it once so the UI can stop presenting
+        // this file as playable in this mode.
+        if (e.name === 'NotSupportedError' && !this.decoderUnsupported) {
+          this.decoderUnsupported = true;
+          this.opts.onDecoderUnsupported?.();
+        }
+      },
+    });
+    this.decoder.configure({
+      codec,
+      description,
+      codedWidth: this.width,
+      codedHeight: this.height,
+      optimizeForLatency: false,
+    });
+  }
+
+  /** Feed samples [fromIdx..toIdx] (decode order) to the decoder, reading
+   *  their bytes a batch at a time; resolves to how many were fed. Stops if a
+   *  newer ensureRange() supersedes it.
+   *
+   *  Feeding the whole decode-order span is what makes B-frames work. With an
+   *  IBBP group the high-cts anchor P is decoded *before* the lower-cts Bs that
+   *  reference it, so the span is bounded by index, never by cts — stopping at
+   *  the first cts past the range would cut off the anchor's Bs, which would
+   *  never decode and be re-requested on every replay. H.264 guarantees a
+   *  frame's references all precede it in decode order. */
+  private async feed(fromIdx: number, toIdx: number, token: number): Promise<number> {
+    let fed = 0;
+    let i = fromIdx;
+    while (i <= toIdx) {
+      if (token !== this.rangeToken || this.closed || !this.source) break;
+      // Extend the batch over the samples that follow on in the file.
+      const { endIdx: j, offset, length } = readBatch(this.samples, i, toIdx);
+      const batch = await this.source.read(offset, length);
+      if (token !== this.rangeToken || this.closed) break;
+
+      for (let k = i; k < j; k++) {
+        if (!this.decoder || this.decoder.state !== 'configured') return fed;
+        const s = this.samples[k];
+        const at = s.offset - offset;
+        try {
+          // EncodedVideoChunk copies its data, so the batch can go once it's fed.
+          this.decoder.decode(new EncodedVideoChunk({
+            type: s.isSync ? 'key' : 'delta',
+            timestamp: Math.round((s.cts / this.trackTimescale) * MICROS_PER_SEC),
+            duration: Math.round((s.duration / this.trackTimescale) * MICROS_PER_SEC),
+            data: batch.subarray(at, at + s.size),
+          }));
+          fed++;
+        } catch (err) {
+          this.opts.onDebugLog?.(`[video] decode() threw on sample ${s.number}: ${String(err)}`, 'error');
+        }
+      }
+      i = j;
+    }
+    return fed;
   }
 
   private onDecodedFrame(frame: VideoFrame): void {
@@ -554,7 +479,9 @@ export class VideoFrameSource {
    *  the earliest cached frame as a fallback. null only when cache is empty. */
   private currentFrame(atSec?: number): VideoFrame | null {
     if (this.frameCache.length === 0) return null;
-    const t = (atSec ?? this.currentPlayheadSec) * MICROS_PER_SEC;
+    // Rounded like the frames' own timestamps, so a seek to a frame's start
+    // time (a frame step) draws that frame and not the one before it.
+    const t = Math.round((atSec ?? this.currentPlayheadSec) * MICROS_PER_SEC);
     const idx = this.findFrameIdxAtOrBefore(t);
     return idx >= 0 ? this.frameCache[idx] : this.frameCache[0];
   }
@@ -643,10 +570,11 @@ export class VideoFrameSource {
   }
 }
 
-/** Rough detection: only ISOBMFF containers (MP4/MOV/m4v) can be demuxed by
- *  mp4box.js. Other extensions fall back to the <video> element. */
+/** Rough detection: ISOBMFF containers (MP4/MOV/m4v) index through mp4Index,
+ *  WebM/MKV through matroskaDemux. Other extensions fall back to the <video>
+ *  element. */
 export function canUseFrameSource(path: string): boolean {
   if (typeof VideoDecoder === 'undefined') return false;
   const ext = getExt(path);
-  return ext === 'mp4' || ext === 'mov' || ext === 'm4v';
+  return ext === 'mp4' || ext === 'mov' || ext === 'm4v' || ext === 'webm' || ext === 'mkv';
 }
@@ -0,0 +1,256 @@
+// Inter-annotator agreement between two annotation sets.
+//
+// Teams double-label some tracks to check that their labels mean the same
+// thing. The agreement panel (components/AgreementPanel.tsx) loads two
+// annotation sets for the project, each either an annotation directory or the
+// project's annotations at a git commit (see the history commands in
+// src-tauri/src/commands/git_sync/history.rs), and compares them here track by
+// track: only tracks present in both sets are compared, so a set that labels a
+// subset of the project is judged on that subset.
+//
+// Events are matched in time only, ignoring any frequency band: two events
+// match when their temporal IoU reaches a threshold, or when their onsets lie
+// within a tolerance. Matching is one-to-one and greedy, preferring pairs
+// that share a label and then the closest pairs, so an overlapping event of
+// another label never steals a same-label match. Set A is the reference: per
+// label, precision is the share of B's events matched to an A event of that
+// label, and recall the share of A's. Cohen's kappa is computed over every
+// event either set has, with "no event" as an extra category for an event the
+// other set missed.
+
+import { Annotation } from '../types';
+import { ANNOTATION_FILE_EXT } from '../constants';
+import { parseAudacityContent } from './helpers';
+import { listAnnotationFiles } from './projectCommands';
+import { readAnnotationsAtCommit, readTextFile } from './tauriCommands';
+
+/** Where one side of a comparison comes from. */
+export type AgreementSource =
+  | { kind: 'directory'; path: string }
+  | { kind: 'commit'; id: string };
+
+export type MatchCriterion = 'iou' | 'onset';
+
+export interface MatchOptions {
+  criterion: MatchCriterion;
+  /** Smallest temporal IoU that counts as a match, for 'iou'. */
+  minIou: number;
+  /** Largest onset difference in seconds that counts as a match, for 'onset'. */
+  onsetTolerance: number;
+}
+
+export const DEFAULT_MATCH_OPTIONS: MatchOptions = { criterion: 'iou', minIou: 0.5, onsetTolerance: 0.5 };
+
+/** Intersection over union of two events' time spans; 0 when they don't overlap. */
+export const temporalIou = (a: Pick<Annotation, 'start' | 'end'>, b: Pick<Annotation, 'start' | 'end'>): number => {
+  const overlap = Math.min(a.end, b.end) - Math.max(a.start, b.start);
+  if (overlap <= 0) return 0;
+  const union = Math.max(a.end, b.end) - Math.min(a.start, b.start);
+  return union > 0 ? overlap / union : 0;
+};
+
+export interface TrackMatch {
+  /** Matched [index in a, index in b] pairs. */
+  pairs: [number, number][];
+  unmatchedA: number[];
+  unmatchedB: number[];
+}
+
+/** One-to-one matching of two tracks' events under `options` (see the file comment). */
+export const matchAnnotations = (a: Annotation[], b: Annotation[], options: MatchOptions): TrackMatch => {
+  const candidates: { i: number; j: number; same: boolean; score: number }[] = [];
+  for (let i = 0; i < a.length; i++) {
+    for (let j = 0; j < b.length; j++) {
+      let score: number;
+      if (options.criterion === 'iou') {
+        score = temporalIou(a[i], b[j]);
+        if (score <= 0 || score < options.minIou) continue;
+      } else {
+        const diff = Math.abs(a[i].start - b[j].start);
+        if (diff > options.onsetTolerance) continue;
+        score = -diff;
+      }
+      candidates.push({ i, j, same: a[i].text === b[j].text, score });
+    }
+  }
+  candidates.sort((x, y) => Number(y.same) - Number(x.same) || y.score - x.score || x.i - y.i || x.j - y.j);
+  const usedA = new Set<number>();
+  const usedB = new Set<number>();
+  const pairs: [number, number][] = [];
+  for (const c of candidates) {
+    if (usedA.has(c.i) || usedB.has(c.j)) continue;
+    usedA.add(c.i);
+    usedB.add(c.j);
+    pairs.push([c.i, c.j]);
+  }
+  pairs.sort((x, y) => x[0] - y[0]);
+  return {
+    pairs,
+    unmatchedA: a.map((_, i) => i).filter(i => !usedA.has(i)),
+    unmatchedB: b.map((_, j) => j).filter(j => !usedB.has(j)),
+  };
+};
+
+/**
+ * Cohen's kappa over paired categorical judgements, null standing for "no
+ * event". Null when there are no judgements or chance agreement is total.
+ */
+export const cohensKappa = (judgements: [string | null, string | null][]): number | null => {
+  const n = judgements.length;
+  if (n === 0) return null;
+  const key = (label: string | null) => (label === null ? '\u0000' : `=${label}`);
+  const rows = new Map<string, number>();
+  const cols = new Map<string, number>();
+  let agreed = 0;
+  for (const [x, y] of judgements) {
+    rows.set(key(x), (rows.get(key(x)) ?? 0) + 1);
+    cols.set(key(y), (cols.get(key(y)) ?? 0) + 1);
+    if (x === y) agreed++;
+  }
+  let chance = 0;
+  for (const [k, count] of rows) chance += (count / n) * ((cols.get(k) ?? 0) / n);
+  if (chance >= 1) return null;
+  return (agreed / n - chance) / (1 - chance);
+};
+
+export interface LabelAgreement {
+  label: string;
+  /** Events with this label in set A (the reference) and set B. */
+  countA: number;
+  countB: number;
+  /** A–B pairs matched in time that both carry this label. */
+  matched: number;
+  /** matched / countB; null when B has none. */
+  precision: number | null;
+  /** matched / countA; null when A has none. */
+  recall: number | null;
+  /** Harmonic mean of the two; null unless both are defined. */
+  f1: number | null;
+}
+
+export interface AgreementReport {
+  /** Tracks present in both sets, which are the ones compared. */
+  tracks: number;
+  /** Per label, ordered by label. */
+  labels: LabelAgreement[];
+  /** Every label pooled (micro-averaged); `label` is ''. */
+  overall: LabelAgreement;
+  kappa: number | null;
+  /** Judgements kappa was computed over: matched pairs plus unmatched events. */
+  judgements: number;
+}
+
+const scoreLabel = (label: string, countA: number, countB: number, matched: number): LabelAgreement => {
+  const precision = countB > 0 ? matched / countB : null;
+  const recall = countA > 0 ? matched / countA : null;
+  const f1 = precision === null || recall === null ? null
+    : precision + recall === 0 ? 0 : (2 * precision * recall) / (precision + recall);
+  return { label, countA, countB, matched, precision, recall, f1 };
+};
+
+/** Compare two annotation sets (by ident) over the tracks both contain. */
+export const compareAnnotationSets = (
+  setA: Map<string, Annotation[]>,
+  setB: Map<string, Annotation[]>,
+  options: MatchOptions,
+): AgreementReport => {
+  const counts = new Map<string, { a: number; b: number; matched: number }>();
+  const count = (label: string) => {
+    let c = counts.get(label);
+    if (!c) counts.set(label, c = { a: 0, b: 0, matched: 0 });
+    return c;
+  };
+  const judgements: [string | null, string | null][] = [];
+  let tracks = 0;
+  for (const [ident, a] of setA) {
+    const b = setB.get(ident);
+    if (!b) continue;
+    tracks++;
+    for (const e of a) count(e.text).a++;
+    for (const e of b) count(e.text).b++;
+    const { pairs, unmatchedA, unmatchedB } = matchAnnotations(a, b, options);
+    for (const [i, j] of pairs) {
+      if (a[i].text === b[j].text) count(a[i].text).matched++;
+      judgements.push([a[i].text, b[j].text]);
+    }
+    for (const i of unmatchedA) judgements.push([a[i].text, null]);
+    for (const j of unmatchedB) judgements.push([null, b[j].text]);
+  }
+  const labels = [...counts.entries()]
+    .sort(([x], [y]) => x.localeCompare(y))
+    .map(([label, c]) => scoreLabel(label, c.a, c.b, c.matched));
+  const total = labels.reduce((t, l) => ({ a: t.a + l.countA, b: t.b + l.countB, matched: t.matched + l.matched }), { a: 0, b: 0, matched: 0 });
+  return {
+    tracks,
+    labels,
+    overall: scoreLabel('', total.a, total.b, total.matched),
+    kappa: cohensKappa(judgements),
+    judgements: judgements.length,
+  };
+};
+
+/** One read-only lane of another annotation set, drawn under the spectrogram's own annotations. */
+export interface ComparisonLane {
+  name: string;
+  color: string;
+  annotations: Annotation[];
+  /** Ids of events with no same-label match in the other set. */
+  disagreeing: Set<string>;
+}
+
+/**
+ * The two lanes for one track: set A's events and set B's, each marking the
+ * events the other set doesn't agree with. Null unless both sets have it.
+ */
+export const comparisonLanesFor = (
+  ident: string,
+  setA: Map<string, Annotation[]>,
+  setB: Map<string, Annotation[]>,
+  options: MatchOptions,
+  names: [string, string],
+  colors: [string, string],
+): [ComparisonLane, ComparisonLane] | null => {
+  const a = setA.get(ident);
+  const b = setB.get(ident);
+  if (!a || !b) return null;
+  const { pairs } = matchAnnotations(a, b, options);
+  const agreeA = new Set<number>();
+  const agreeB = new Set<number>();
+  for (const [i, j] of pairs) {
+    if (a[i].text !== b[j].text) continue;
+    agreeA.add(i);
+    agreeB.add(j);
+  }
+  const lane = (index: 0 | 1, events: Annotation[], agree: Set<number>): ComparisonLane => ({
+    name: names[index],
+    color: colors[index],
+    annotations: events,
+    disagreeing: new Set(events.filter((_, k) => !agree.has(k)).map(e => e.id)),
+  });
+  return [lane(0, a, agreeA), lane(1, b, agreeB)];
+};
+
+/**
+ * Read one side of a comparison: every annotation file in a directory, or the
+ * project's annotation files at a commit. `projectDir` and `annotationDir` are
+ * the open project's, which a commit is read against.
+ */
+export async function loadAgreementSource(
+  source: AgreementSource,
+  projectDir: string,
+  annotationDir: string,
+): Promise<Map<string, Annotation[]>> {
+  const out = new Map<string, Annotation[]>();
+  if (source.kind === 'commit') {
+    const files = await readAnnotationsAtCommit(projectDir, annotationDir, source.id);
+    for (const [ident, content] of Object.entries(files)) out.set(ident, parseAudacityContent(content, []));
+    return out;
+  }
+  const idents = await listAnnotationFiles(source.path, ANNOTATION_FILE_EXT);
+  await Promise.all(idents.map(async ident => {
+    const content = await readTextFile(`${source.path}/${ident}.${ANNOTATION_FILE_EXT}`).catch(() => '');
+    // Labels and times are all that's compared, so tool colors don't matter.
+    out.set(ident, content ? parseAudacityContent(content, []) : []);
+  }));
+  return out;
+}
@@ -0,0 +1,168 @@
+// Annotation attributes sidecar.
+//
+// Attributes (note, confidence, uncertain flag, observer, channel, video
+// region) don't fit the Audacity TXT, whose only payload is the label —
+// encoding them there would break tool matching and change every record's
+// merge identity. They live in a sidecar beside the track's annotation file,
+// `<ident>.attrs.txt`, holding one record per annotation that has any:
+//
+//   1.2500000<TAB>3.5000000<TAB>buzz<TAB>{"confidence":0.8,"observer":"LH"}
+//   \<TAB>2000.0<TAB>4000.0          ← only for a box, exactly as in the TXT
+//
+// i.e. the annotation's own TXT record with the attributes appended as a JSON
+// column (JSON.stringify never emits a raw tab or newline). Because a sidecar
+// record leads with the same start/end, git-sync's set-merge keys it by the
+// same canonical key as the TXT (utils/annotationMerge.ts and its Rust mirror)
+// with no changes: concurrent attribute edits on one annotation keep both
+// records. Loading lets the last of them in the file win, and the merge sorts
+// records sharing a start time by their line text, so that is the one whose
+// JSON column sorts later as text — deterministic, but not the newer edit.
+// The next save writes only the winner.
+// Records whose annotation no longer exists are ignored on load and dropped on
+// the next save, which regenerates the sidecar from memory.
+
+import { Annotation, AnnotationAttributes } from '../types';
+import { ANNOTATION_ATTRS_SUFFIX, ANNOTATION_FILE_EXT } from '../constants';
+import { generateAudacityContent, isFrequencyRow } from './helpers';
+import { normalizeRegion } from './videoRegions';
+
+/** Path of the attributes sidecar for the annotation file at `annotPath`. */
+export const attributesPathFor = (annotPath: string): string => {
+  const ext = `.${ANNOTATION_FILE_EXT}`;
+  const base = annotPath.endsWith(ext) ? annotPath.slice(0, -ext.length) : annotPath;
+  return `${base}${ANNOTATION_ATTRS_SUFFIX}${ext}`;
+};
+
+/**
+ * Tidy an attributes object for storage: trims text, clamps confidence to
+ * 0–1 (dropping a non-number), drops a channel that isn't a non-negative
+ * integer, clips a video region to the frame (utils/videoRegions.ts), and
+ * drops empty fields and a false flag.
+ * Returns undefined when nothing is left, so an annotation whose attributes
+ * are all cleared carries none.
+ */
+export const normalizeAttributes = (attrs: AnnotationAttributes | undefined): AnnotationAttributes | undefined => {
+  if (!attrs) return undefined;
+  const out: AnnotationAttributes = {};
+  const note = attrs.note?.trim();
+  if (note) out.note = note;
+  if (typeof attrs.confidence === 'number' && Number.isFinite(attrs.confidence)) {
+    out.confidence = Math.min(1, Math.max(0, attrs.confidence));
+  }
+  if (attrs.uncertain) out.uncertain = true;
+  const observer = attrs.observer?.trim();
+  if (observer) out.observer = observer;
+  if (typeof attrs.channel === 'number' && Number.isInteger(attrs.channel) && attrs.channel >= 0) {
+    out.channel = attrs.channel;
+  }
+  const region = normalizeRegion(attrs.region);
+  if (region) out.region = region;
+  return Object.keys(out).length > 0 ? out : undefined;
+};
+
+// Identity of an annotation for matching sidecar records to TXT records.
+// Both files are written at the same precision and read back with parseFloat,
+// so equal records produce equal numbers. Shared with the review sidecar.
+export const sidecarMatchKey = (a: Pick<Annotation, 'start' | 'end' | 'text' | 'lowFreq' | 'highFreq'>): string =>
+  `${a.start}\t${a.end}\t${a.text}\t${a.lowFreq ?? ''}\t${a.highFreq ?? ''}`;
+
+/**
+ * Serialize the sidecar for `annotations`: one record per annotation with
+ * attributes, at `decimals` like the TXT. Empty string when none have any.
+ */
+export const generateAttributesContent = (annotations: Annotation[], decimals: number = 7): string => {
+  let content = '';
+  for (const a of annotations) {
+    const attrs = normalizeAttributes(a.attributes);
+    if (!attrs) continue;
+    const [line, ...band] = generateAudacityContent([a], decimals).trimEnd().split('\n');
+    content += `${line}\t${JSON.stringify(attrs)}\n`;
+    for (const row of band) content += `${row}\n`;
+  }
+  return content;
+};
+
+// Parse one sidecar line's trailing JSON column; null when it isn't an object.
+const parseAttributesColumn = (field: string): AnnotationAttributes | null => {
+  if (!field.startsWith('{')) return null;
+  try {
+    const parsed = JSON.parse(field);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+};
+
+interface AttributesRecord {
+  key: Pick<Annotation, 'start' | 'end' | 'text' | 'lowFreq' | 'highFreq'>;
+  attributes: AnnotationAttributes;
+}
+
+/** Parse sidecar content into records, in file order. Malformed lines are skipped. */
+export const parseAttributesContent = (content: string): AttributesRecord[] => {
+  const records: AttributesRecord[] = [];
+  let previous: AttributesRecord | null = null;
+  for (const raw of content.split('\n')) {
+    const line = raw.replace(/\r$/, '');
+    const parts = line.split('\t');
+    if (isFrequencyRow(line)) {
+      const low = parseFloat(parts[1]);
+      const high = parseFloat(parts[2]);
+      if (previous && !isNaN(low) && !isNaN(high)) {
+        previous.key.lowFreq = Math.min(low, high);
+        previous.key.highFreq = Math.max(low, high);
+      }
+      previous = null;
+      continue;
+    }
+    previous = null;
+    if (parts.length < 4) continue;
+    const start = parseFloat(parts[0]);
+    const end = parseFloat(parts[1]);
+    const attributes = normalizeAttributes(parseAttributesColumn(parts[parts.length - 1]) ?? undefined);
+    if (isNaN(start) || isNaN(end) || !attributes) continue;
+    previous = { key: { start, end, text: parts.slice(2, -1).join('\t') }, attributes };
+    records.push(previous);
+  }
+  return records;
+};
+
+/**
+ * Attach sidecar attributes to freshly parsed annotations by record identity.
+ * When several records match one annotation (concurrent edits both survived
+ * a merge) the last in the file wins: after a merge, whichever JSON column
+ * sorts later as text, not the newer edit. Pure — returns new objects only
+ * where attributes were attached.
+ */
+export const applyAttributesContent = (annotations: Annotation[], content: string | null): Annotation[] => {
+  if (!content) return annotations;
+  const byKey = new Map<string, AnnotationAttributes>();
+  for (const r of parseAttributesContent(content)) byKey.set(sidecarMatchKey(r.key), r.attributes);
+  if (byKey.size === 0) return annotations;
+  return annotations.map(a => {
+    const attributes = byKey.get(sidecarMatchKey(a));
+    return attributes ? { ...a, attributes } : a;
+  });
+};
+
+/**
+ * Rename the label of every sidecar record labelled `oldText`, keeping its
+ * attributes — the sidecar half of renameLabelInContent.
+ */
+export const renameLabelInAttributesContent = (
+  content: string,
+  oldText: string,
+  newText: string,
+): { updated: string; changed: boolean } => {
+  let changed = false;
+  const lines = content.split('\n').map(line => {
+    if (isFrequencyRow(line)) return line;
+    const parts = line.split('\t');
+    if (parts.length >= 4 && parts.slice(2, -1).join('\t') === oldText) {
+      changed = true;
+      return `${parts[0]}\t${parts[1]}\t${newText}\t${parts[parts.length - 1]}`;
+    }
+    return line;
+  });
+  return { updated: lines.join('\n'), changed };
+};
@@ -0,0 +1,84 @@
+// Pure helpers behind the annotation table panel (components/AnnotationTablePanel.tsx):
+// column sorting, click/shift/ctrl row selection, and relabelling.
+
+import { Annotation, AnnotationTool } from '../types';
+
+export type AnnotationSortKey = 'start' | 'end' | 'duration' | 'label';
+
+export interface AnnotationSort {
+  key: AnnotationSortKey;
+  descending: boolean;
+}
+
+const sortValue = (a: Annotation, key: AnnotationSortKey): number | string => {
+  switch (key) {
+    case 'start': return a.start;
+    case 'end': return a.end;
+    case 'duration': return a.end - a.start;
+    case 'label': return a.text;
+  }
+};
+
+/**
+ * A sorted copy of `annotations`. Ties fall back to start then end time (so
+ * equal labels list in time order), and the input array is left untouched.
+ */
+export const sortAnnotations = (annotations: Annotation[], sort: AnnotationSort): Annotation[] => {
+  const dir = sort.descending ? -1 : 1;
+  return [...annotations].sort((a, b) => {
+    const va = sortValue(a, sort.key);
+    const vb = sortValue(b, sort.key);
+    const primary = typeof va === 'string'
+      ? va.localeCompare(vb as string, undefined, { numeric: true, sensitivity: 'base' })
+      : va - (vb as number);
+    return primary * dir || a.start - b.start || a.end - b.end;
+  });
+};
+
+/**
+ * Clicking a column header: the same column flips direction, a new column
+ * sorts ascending.
+ */
+export const nextSort = (current: AnnotationSort, key: AnnotationSortKey): AnnotationSort =>
+  current.key === key ? { key, descending: !current.descending } : { key, descending: false };
+
+/**
+ * Row selection after a click on `clickedId`, file-manager style: a plain
+ * click selects just that row; `toggle` (Ctrl/Cmd) adds or removes it; `range`
+ * (Shift) selects every row between the anchor and it in the displayed
+ * `order`, added to the selection when combined with `toggle`. Returns the new
+ * selection and anchor.
+ */
+export const clickSelection = (
+  order: string[],
+  selected: ReadonlySet<string>,
+  anchorId: string | null,
+  clickedId: string,
+  modifiers: { range: boolean; toggle: boolean },
+): { selected: Set<string>; anchorId: string } => {
+  const anchorIndex = anchorId !== null ? order.indexOf(anchorId) : -1;
+  if (modifiers.range && anchorIndex >= 0) {
+    const clickedIndex = order.indexOf(clickedId);
+    const [lo, hi] = anchorIndex < clickedIndex ? [anchorIndex, clickedIndex] : [clickedIndex, anchorIndex];
+    const next = new Set(modifiers.toggle ? selected : []);
+    for (const id of order.slice(lo, hi + 1)) next.add(id);
+    return { selected: next, anchorId: anchorId! };
+  }
+  if (modifiers.toggle) {
+    const next = new Set(selected);
+    if (next.has(clickedId)) next.delete(clickedId); else next.add(clickedId);
+    return { selected: next, anchorId: clickedId };
+  }
+  return { selected: new Set([clickedId]), anchorId: clickedId };
+};
+
+/**
+ * Give `annotation` the label `text`. A label matching a defined tool
+ * (case-insensitively) adopts that tool's canonical text and color; anything
+ * else is a Custom label, drawn white.
+ */
+export const relabelAnnotation = (annotation: Annotation, text: string, tools: AnnotationTool[]): Annotation => {
+  const matchingTool = tools.find(t => t.text.toLowerCase() === text.toLowerCase() && t.key !== '0');
+  if (matchingTool) return { ...annotation, text: matchingTool.text, color: matchingTool.color };
+  return { ...annotation, text, color: '#ffffff' };
+};
@@ -6,7 +6,10 @@
 // edit made *while* the sync was in flight is folded back in rather than being
 // clobbered by the forced checkout.
 //
-// Model: each file is an unordered set of records, one per non-empty line.
+// Model: each file is an unordered set of records, one per non-empty line —
+// except that an Audacity frequency row (first field a lone `\`) belongs to
+// the label line above it, so the pair is one record and a box's band can
+// never be separated from its label by a merge.
 // Against the common `ancestor`:
 //   - a record new on either side (not in ancestor) is kept (union of adds);
 //   - a record in ancestor removed on either side is dropped (deletes honored);
@@ -20,6 +23,8 @@
 // canonical-key form the Rust side uses, so a precision-only rewrite never
 // reads as a delete-old + add-new.
 
+import { isFrequencyRow } from './helpers';
+
 // Strict finite-number parse of a single field (trimmed). Returns null for
 // blank or non-numeric fields, so `"1.2abc"` is not treated as a number (unlike
 // parseFloat), mirroring Rust's `str::parse::<f64>()`.
@@ -51,16 +56,31 @@ function startOf(line: string): number {
   return n === null ? Infinity : n;
 }
 
-// Parse content into a map of canonical key -> representative line text. Blank
-// lines (after trimming trailing \r) are skipped; the first occurrence of a key
-// wins as that side's representative text.
-function recordMap(content: string): Map<string, string> {
-  const map = new Map<string, string>();
+// Split content into record texts: one per non-empty line, with a frequency
+// row (the parser's own `isFrequencyRow`, so the two can't disagree) joined
+// (by `\n`) onto the record before it. Blank lines (after trimming trailing
+// \r) are skipped; a frequency row with no record before it stands alone.
+function records(content: string): string[] {
+  const out: string[] = [];
   for (const raw of content.split('\n')) {
     const line = raw.replace(/\r+$/, '');
     if (line.trim() === '') continue;
-    const key = canonicalKey(line);
-    if (!map.has(key)) map.set(key, line);
+    if (isFrequencyRow(line) && out.length > 0 && !out[out.length - 1].includes('\n')) {
+      out[out.length - 1] += `\n${line}`;
+    } else {
+      out.push(line);
+    }
+  }
+  return out;
+}
+
+// Parse content into a map of canonical key -> representative record text.
+// The first occurrence of a key wins as that side's representative text.
+function recordMap(content: string): Map<string, string> {
+  const map = new Map<string, string>();
+  for (const record of records(content)) {
+    const key = canonicalKey(record);
+    if (!map.has(key)) map.set(key, record);
   }
   return map;
 }
@@ -1,18 +1,26 @@
-import { Annotation } from '../types';
-import { writeTextFile, removeFile } from './tauriCommands';
-import { generateAudacityContent } from './helpers';
+import { Annotation, AnnotationTool } from '../types';
+import { readTextFile, writeTextFile, removeFile } from './tauriCommands';
+import { generateAudacityContent, parseAudacityContent } from './helpers';
+import { applyAttributesContent, attributesPathFor, generateAttributesContent } from './annotationAttributes';
 
 // The single write-or-delete decision for an annotation file: a non-empty list
 // is written, an empty list removes the file — a 0-byte annotation file is
 // never a valid on-disk state. Both the debounced autosave and the pre-sync
 // flush must go through here so the two paths cannot disagree (a flush that
 // wrote "" where the autosave would have deleted is how truncated annotation
-// files ended up committed and pushed).
+// files ended up committed and pushed). The attributes sidecar follows the
+// same rule: written when any annotation has attributes, removed otherwise.
 export async function persistAnnotations(
   annotPath: string,
   annotations: Annotation[],
   decimals: number,
 ): Promise<'written' | 'removed'> {
+  const attrsContent = generateAttributesContent(annotations, decimals);
+  if (attrsContent) {
+    await writeTextFile(attributesPathFor(annotPath), attrsContent);
+  } else {
+    await removeFile(attributesPathFor(annotPath));
+  }
   if (annotations.length === 0) {
     await removeFile(annotPath);
     return 'removed';
@@ -20,3 +28,16 @@ export async function persistAnnotations(
   await writeTextFile(annotPath, generateAudacityContent(annotations, decimals));
   return 'written';
 }
+
+// Read a track's annotations from disk with their sidecar attributes
+// attached. A missing annotation file reads as []; a missing sidecar just
+// means no attributes.
+export async function readAnnotationsFile(
+  annotPath: string,
+  tools: AnnotationTool[],
+): Promise<Annotation[]> {
+  const content = await readTextFile(annotPath).catch(() => null);
+  if (!content) return [];
+  const attrsContent = await readTextFile(attributesPathFor(annotPath)).catch(() => null);
+  return applyAttributesContent(parseAudacityContent(content, tools), attrsContent);
+}
@@ -1,5 +1,7 @@
 import { readTextFile, writeTextFile } from './tauriCommands';
 import { matchingLinesInContent, renameLabelInContent, exactLabelMatcher, LabelMatcher, LabelLineMatch } from './helpers';
+import { attributesPathFor, renameLabelInAttributesContent } from './annotationAttributes';
+import { reviewPathFor } from './annotationReview';
 
 export interface IdentMatchCount {
   ident: string;
@@ -96,9 +98,35 @@ export async function scanLabelOccurrences(
   return found.map(f => ({ ident: f.ident, count: f.matches.length }));
 }
 
+// Rename the records labelled `oldText` in the sidecar at `sidecarPath`, if
+// there is one. Both sidecars share one record layout (see
+// utils/annotationAttributes.ts), so renameLabelInAttributesContent serves
+// either.
+async function renameLabelInSidecar(sidecarPath: string, oldText: string, newText: string): Promise<void> {
+  const content = await readTextFile(sidecarPath).catch(() => null);
+  if (!content) return;
+  const renamed = renameLabelInAttributesContent(content, oldText, newText);
+  if (renamed.changed) await writeTextFile(sidecarPath, renamed.updated);
+}
+
+// The open track's annotations are renamed in memory and autosaved, which
+// regenerates its attributes sidecar — but not its review sidecar, which only
+// changes when a verdict is given. Rename that one on disk directly.
+export async function renameLabelInReviews(
+  trackFilePath: string | null,
+  getAnnotationPath: (trackFilePath: string) => string | null,
+  oldText: string,
+  newText: string,
+): Promise<void> {
+  const annotPath = trackFilePath ? getAnnotationPath(trackFilePath) : null;
+  if (annotPath) await renameLabelInSidecar(reviewPathFor(annotPath), oldText, newText).catch(() => {});
+}
+
 // Rewrite every track's on-disk annotation file, renaming lines whose label
 // matches `oldText` exactly to `newText`. Returns the total number of lines
-// changed. Shared by tool rename (useAnnotationTools) and mass rename.
+// changed. Shared by tool rename (useAnnotationTools) and mass rename. The
+// attributes and review sidecars are renamed in step so renamed annotations
+// keep their attributes and verdicts.
 export async function renameLabelAcrossTracks(
   tracks: string[],
   getAnnotationPath: (trackFilePath: string) => string | null,
@@ -116,6 +144,8 @@ export async function renameLabelAcrossTracks(
       if (changed) {
         await writeTextFile(annotPath, updated);
         total += count;
+        await renameLabelInSidecar(attributesPathFor(annotPath), oldText, newText);
+        await renameLabelInSidecar(reviewPathFor(annotPath), oldText, newText);
       }
     } catch {
       // No annotation file for this track — nothing to update.
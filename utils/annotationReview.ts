@@ -0,0 +1,289 @@
+// Annotation review sidecar.
+//
+// Review mode (components/ReviewPanel.tsx) steps through a project's
+// annotations and records each reviewer's verdict on them. Verdicts live in a
+// sidecar beside the track's annotation file, `<ident>.review.txt`, in the
+// attributes sidecar's layout (utils/annotationAttributes.ts): the reviewed
+// annotation's TXT record with the verdict appended as a JSON column.
+//
+//   1.2500000<TAB>3.5000000<TAB>buzz<TAB>{"verdict":"accept","reviewer":"LH","at":"2026-05-01T09:00:00.000Z"}
+//
+// There is one record per reviewer per annotation, so when two people review
+// the same track git-sync's set-merge keeps both verdicts side by side — which
+// is what the agreement summary compares. Should one reviewer end up with two
+// records for an annotation, the later one wins. Unlike the attributes
+// sidecar this file is edited in place when a verdict is given rather than
+// regenerated on save: verdicts on an annotation that was since moved or
+// deleted stay in the file but match nothing on load.
+
+import { Annotation, AnnotationReview, ReviewVerdict } from '../types';
+import { ANNOTATION_FILE_EXT, ANNOTATION_REVIEW_SUFFIX } from '../constants';
+import { generateAudacityContent, isFrequencyRow, parseAudacityContent } from './helpers';
+import { sidecarMatchKey } from './annotationAttributes';
+import { readTextFile, writeTextFile, removeFile } from './tauriCommands';
+
+export const REVIEW_VERDICTS: readonly ReviewVerdict[] = ['accept', 'reject', 'relabel'];
+
+/** Path of the review sidecar for the annotation file at `annotPath`. */
+export const reviewPathFor = (annotPath: string): string => {
+  const ext = `.${ANNOTATION_FILE_EXT}`;
+  const base = annotPath.endsWith(ext) ? annotPath.slice(0, -ext.length) : annotPath;
+  return `${base}${ANNOTATION_REVIEW_SUFFIX}${ext}`;
+};
+
+/**
+ * Validate a parsed verdict column: a known verdict, a non-blank reviewer and
+ * a timestamp, plus a non-blank label for a relabel (and none otherwise).
+ * Null when any of that is missing.
+ */
+export const normalizeReview = (value: unknown): AnnotationReview | null => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+  const v = value as Record<string, unknown>;
+  const verdict = REVIEW_VERDICTS.find(x => x === v.verdict);
+  const reviewer = typeof v.reviewer === 'string' ? v.reviewer.trim() : '';
+  const at = typeof v.at === 'string' ? v.at : '';
+  if (!verdict || !reviewer || !at) return null;
+  if (verdict !== 'relabel') return { verdict, reviewer, at };
+  const label = typeof v.label === 'string' ? v.label.trim() : '';
+  return label ? { verdict, reviewer, label, at } : null;
+};
+
+interface ReviewRecord {
+  key: Pick<Annotation, 'start' | 'end' | 'text' | 'lowFreq' | 'highFreq'>;
+  review: AnnotationReview;
+}
+
+const parseReviewColumn = (field: string): AnnotationReview | null => {
+  if (!field.startsWith('{')) return null;
+  try {
+    return normalizeReview(JSON.parse(field));
+  } catch {
+    return null;
+  }
+};
+
+/** Parse sidecar content into records, in file order. Malformed lines are skipped. */
+export const parseReviewContent = (content: string): ReviewRecord[] => {
+  const records: ReviewRecord[] = [];
+  let previous: ReviewRecord | null = null;
+  for (const raw of content.split('\n')) {
+    const line = raw.replace(/\r$/, '');
+    const parts = line.split('\t');
+    if (isFrequencyRow(line)) {
+      const low = parseFloat(parts[1]);
+      const high = parseFloat(parts[2]);
+      if (previous && !isNaN(low) && !isNaN(high)) {
+        previous.key.lowFreq = Math.min(low, high);
+        previous.key.highFreq = Math.max(low, high);
+      }
+      previous = null;
+      continue;
+    }
+    previous = null;
+    if (parts.length < 4) continue;
+    const start = parseFloat(parts[0]);
+    const end = parseFloat(parts[1]);
+    const review = parseReviewColumn(parts[parts.length - 1]);
+    if (isNaN(start) || isNaN(end) || !review) continue;
+    previous = { key: { start, end, text: parts.slice(2, -1).join('\t') }, review };
+    records.push(previous);
+  }
+  return records;
+};
+
+// An annotation's key as it reads back from disk at `decimals`, so a live
+// annotation that hasn't been saved yet (or was drawn at finer precision)
+// still finds the records written for it.
+const reviewKey = (a: Annotation, decimals: number): string => {
+  const [onDisk] = parseAudacityContent(generateAudacityContent([a], decimals), []);
+  return sidecarMatchKey(onDisk);
+};
+
+/**
+ * Each annotation's verdicts by annotation id: the latest per reviewer,
+ * ordered by reviewer. Annotations nobody has reviewed are absent.
+ */
+export const reviewsByAnnotation = (
+  annotations: Annotation[],
+  content: string | null,
+  decimals: number = 7,
+): Map<string, AnnotationReview[]> => {
+  const out = new Map<string, AnnotationReview[]>();
+  if (!content) return out;
+  const byKey = new Map<string, Map<string, AnnotationReview>>();
+  for (const r of parseReviewContent(content)) {
+    const key = sidecarMatchKey(r.key);
+    const byReviewer = byKey.get(key) ?? new Map<string, AnnotationReview>();
+    byReviewer.set(r.review.reviewer, r.review);
+    byKey.set(key, byReviewer);
+  }
+  for (const a of annotations) {
+    const byReviewer = byKey.get(reviewKey(a, decimals));
+    if (!byReviewer) continue;
+    out.set(a.id, [...byReviewer.values()].sort((x, y) => x.reviewer.localeCompare(y.reviewer)));
+  }
+  return out;
+};
+
+/**
+ * Record `reviewer`'s verdict on `annotation`, replacing any they gave before;
+ * `review` null clears it. Other reviewers' records and unrelated lines are
+ * kept as they are. Returns the new content ('' once no record is left).
+ */
+export const setReviewInContent = (
+  content: string | null,
+  annotation: Annotation,
+  reviewer: string,
+  review: AnnotationReview | null,
+  decimals: number = 7,
+): string => {
+  const key = reviewKey(annotation, decimals);
+  // Group each record line with the band row under it, then drop the groups
+  // that are this reviewer's verdict on this annotation.
+  const groups: string[][] = [];
+  for (const raw of (content ?? '').split('\n')) {
+    const line = raw.replace(/\r$/, '');
+    if (line.trim() === '') continue;
+    if (isFrequencyRow(line) && groups.length > 0) groups[groups.length - 1].push(line);
+    else groups.push([line]);
+  }
+  const kept = groups.filter(group => {
+    const [record] = parseReviewContent(group.join('\n'));
+    return !record || record.review.reviewer !== reviewer || sidecarMatchKey(record.key) !== key;
+  }).flat();
+  if (review) {
+    const [line, ...band] = generateAudacityContent([annotation], decimals).trimEnd().split('\n');
+    kept.push(`${line}\t${JSON.stringify(review)}`, ...band);
+  }
+  return kept.length > 0 ? `${kept.join('\n')}\n` : '';
+};
+
+/** True when every verdict says the same thing (and relabels name the same label). */
+export const verdictsAgree = (reviews: AnnotationReview[]): boolean =>
+  reviews.every(r => r.verdict === reviews[0].verdict && (r.label ?? '') === (reviews[0].label ?? ''));
+
+export interface ReviewItem {
+  ident: string;
+  annotation: Annotation;
+  /** Latest verdict per reviewer; empty when unreviewed. */
+  reviews: AnnotationReview[];
+}
+
+export interface LabelReviewSummary {
+  label: string;
+  /** Annotations with this label. */
+  total: number;
+  /** Of those, how many have at least one verdict. */
+  reviewed: number;
+  /** Verdicts (one per reviewer per annotation) of each kind. */
+  accepted: number;
+  rejected: number;
+  relabelled: number;
+  /** Accepted share of all verdicts; null with none. */
+  acceptRate: number | null;
+  /** Annotations with verdicts from two or more reviewers. */
+  multiReviewed: number;
+  /** Share of `multiReviewed` whose reviewers all agree; null when there are none. */
+  agreement: number | null;
+}
+
+/** Per-label review progress and agreement over `items`, ordered by label. */
+export const summarizeReviews = (items: ReviewItem[]): LabelReviewSummary[] => {
+  const byLabel = new Map<string, LabelReviewSummary & { agreeing: number }>();
+  for (const { annotation, reviews } of items) {
+    const label = annotation.text;
+    let s = byLabel.get(label);
+    if (!s) {
+      s = {
+        label, total: 0, reviewed: 0, accepted: 0, rejected: 0, relabelled: 0,
+        acceptRate: null, multiReviewed: 0, agreement: null, agreeing: 0,
+      };
+      byLabel.set(label, s);
+    }
+    s.total++;
+    if (reviews.length > 0) s.reviewed++;
+    for (const r of reviews) {
+      if (r.verdict === 'accept') s.accepted++;
+      else if (r.verdict === 'reject') s.rejected++;
+      else s.relabelled++;
+    }
+    if (reviews.length >= 2) {
+      s.multiReviewed++;
+      if (verdictsAgree(reviews)) s.agreeing++;
+    }
+  }
+  return [...byLabel.values()]
+    .sort((a, b) => a.label.localeCompare(b.label))
+    .map(({ agreeing, ...s }) => {
+      const verdicts = s.accepted + s.rejected + s.relabelled;
+      return {
+        ...s,
+        acceptRate: verdicts > 0 ? s.accepted / verdicts : null,
+        agreement: s.multiReviewed > 0 ? agreeing / s.multiReviewed : null,
+      };
+    });
+};
+
+/** One track's queue entries: its annotations in time order with their verdicts. */
+export const reviewItemsFor = (
+  ident: string,
+  annotations: Annotation[],
+  reviewContent: string | null,
+  decimals: number = 7,
+): ReviewItem[] => {
+  const reviews = reviewsByAnnotation(annotations, reviewContent, decimals);
+  return [...annotations]
+    .sort((a, b) => a.start - b.start || a.end - b.end)
+    .map(annotation => ({ ident, annotation, reviews: reviews.get(annotation.id) ?? [] }));
+};
+
+export interface TrackReviewData {
+  ident: string;
+  trackFilePath: string;
+  annotations: Annotation[];
+  reviewContent: string | null;
+}
+
+/**
+ * Read one track's annotation file and review sidecar for the review queue.
+ * Null when the track has no annotations. Shaped for streamSearch
+ * (utils/annotationRename.ts).
+ */
+export async function readTrackForReview(
+  trackFilePath: string,
+  getAnnotationPath: (trackFilePath: string) => string | null,
+  getIdent: (trackFilePath: string) => string | null,
+): Promise<TrackReviewData | null> {
+  const annotPath = getAnnotationPath(trackFilePath);
+  const ident = getIdent(trackFilePath);
+  if (!annotPath || !ident) return null;
+  const content = await readTextFile(annotPath).catch(() => null);
+  const annotations = content ? parseAudacityContent(content, []) : [];
+  if (annotations.length === 0) return null;
+  const reviewContent = await readTextFile(reviewPathFor(annotPath)).catch(() => null);
+  return { ident, trackFilePath, annotations, reviewContent };
+}
+
+/**
+ * Write `reviewer`'s verdict on `annotation` (null clears it) to the review
+ * sidecar of the annotation file at `annotPath`, re-reading it first so
+ * verdicts a sync brought in meanwhile are kept. The sidecar is removed once
+ * it holds no records, like an empty annotation file. Returns the new content.
+ */
+export async function saveReview(
+  annotPath: string,
+  annotation: Annotation,
+  reviewer: string,
+  review: AnnotationReview | null,
+  decimals: number,
+): Promise<string> {
+  const path = reviewPathFor(annotPath);
+  const content = await readTextFile(path).catch(() => null);
+  const updated = setReviewInContent(content, annotation, reviewer, review, decimals);
+  if (updated) {
+    await writeTextFile(path, updated);
+  } else if (content !== null) {
+    await removeFile(path);
+  }
+  return updated;
+}
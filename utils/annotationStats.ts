@@ -0,0 +1,206 @@
+// Project-level annotation statistics: how far along a labelling campaign is.
+//
+// Built from the annotation files on disk (listAnnotationFiles +
+// parseAudacityContent) — except the open track, whose in-memory set may not
+// be flushed yet — joined to the project's media files by ident. A track
+// counts as annotated exactly when the file tree highlights it: its media file
+// has a non-empty annotation file. Annotation files whose media is gone still
+// count toward the per-label totals but not toward track progress.
+
+import { Annotation } from '../types';
+import { ANNOTATION_FILE_EXT } from '../constants';
+import { readTextFile, saveFileDialog, writeTextFile } from './tauriCommands';
+import { listAnnotationFiles } from './projectCommands';
+import { basename, parseAudacityContent, stripExt } from './helpers';
+import { parseFilenameTime } from './filenameTime';
+import { csvField } from './annotationTable';
+
+export interface LabelStats {
+  label: string;
+  count: number;
+  /** Summed annotation length, seconds. */
+  totalDuration: number;
+  /** Number of tracks carrying the label at least once. */
+  tracks: number;
+}
+
+/** Progress of one group of tracks (a folder, or a recording day). */
+export interface GroupProgress {
+  /** Folder ident ('' for the media root) or local date "YYYY-MM-DD". */
+  name: string;
+  tracks: number;
+  annotatedTracks: number;
+  annotations: number;
+  totalDuration: number;
+}
+
+export interface AnnotationStats {
+  /** Per label, most-used first. */
+  labels: LabelStats[];
+  totalAnnotations: number;
+  totalDuration: number;
+  tracks: number;
+  annotatedTracks: number;
+  /** Per folder containing media directly, sorted by ident. */
+  folders: GroupProgress[];
+  /**
+   * Per recording day, by the start time parsed from each media filename;
+   * null when the project has no filenameTimeFormat. A track's annotations all
+   * count toward the day it starts on.
+   */
+  days: GroupProgress[] | null;
+  /** Tracks whose filename didn't parse, so appear in no day. */
+  undatedTracks: number;
+}
+
+export interface StatsTrack {
+  ident: string;
+  /** Media file path relative to the media root, '/'-separated. */
+  mediaPath: string;
+}
+
+const pad2 = (v: number) => String(v).padStart(2, '0');
+const localDay = (d: Date) => `${d.getFullYear()}-${pad2(d.getMonth() + 1)}-${pad2(d.getDate())}`;
+
+const folderOf = (ident: string): string => {
+  const slash = ident.lastIndexOf('/');
+  return slash < 0 ? '' : ident.slice(0, slash);
+};
+
+const emptyGroup = (name: string): GroupProgress =>
+  ({ name, tracks: 0, annotatedTracks: 0, annotations: 0, totalDuration: 0 });
+
+/**
+ * Compute the statistics for `tracks` (every media file in the project) from
+ * `annotationsByIdent` (every annotation file, parsed). Pure.
+ */
+export const computeAnnotationStats = (
+  tracks: StatsTrack[],
+  annotationsByIdent: Map<string, Annotation[]>,
+  filenameTimeFormat: string | undefined,
+): AnnotationStats => {
+  const labels = new Map<string, LabelStats>();
+  let totalAnnotations = 0;
+  let totalDuration = 0;
+  for (const annotations of annotationsByIdent.values()) {
+    const seen = new Set<string>();
+    for (const a of annotations) {
+      const duration = a.end - a.start;
+      let stat = labels.get(a.text);
+      if (!stat) { stat = { label: a.text, count: 0, totalDuration: 0, tracks: 0 }; labels.set(a.text, stat); }
+      stat.count++;
+      stat.totalDuration += duration;
+      if (!seen.has(a.text)) { seen.add(a.text); stat.tracks++; }
+      totalAnnotations++;
+      totalDuration += duration;
+    }
+  }
+
+  const folders = new Map<string, GroupProgress>();
+  const days = filenameTimeFormat ? new Map<string, GroupProgress>() : null;
+  let annotatedTracks = 0;
+  let undatedTracks = 0;
+  for (const track of tracks) {
+    const annotations = annotationsByIdent.get(track.ident) ?? [];
+    const annotated = annotations.length > 0;
+    const duration = annotations.reduce((sum, a) => sum + (a.end - a.start), 0);
+    if (annotated) annotatedTracks++;
+
+    const groups: GroupProgress[] = [];
+    const folder = folderOf(track.ident);
+    if (!folders.has(folder)) folders.set(folder, emptyGroup(folder));
+    groups.push(folders.get(folder)!);
+    if (days && filenameTimeFormat) {
+      const start = parseFilenameTime(basename(track.mediaPath), filenameTimeFormat);
+      if (start) {
+        const day = localDay(start);
+        if (!days.has(day)) days.set(day, emptyGroup(day));
+        groups.push(days.get(day)!);
+      } else {
+        undatedTracks++;
+      }
+    }
+    for (const g of groups) {
+      g.tracks++;
+      if (annotated) g.annotatedTracks++;
+      g.annotations += annotations.length;
+      g.totalDuration += duration;
+    }
+  }
+
+  const byName = (a: GroupProgress, b: GroupProgress) => a.name.localeCompare(b.name);
+  return {
+    labels: [...labels.values()].sort((a, b) => b.count - a.count || a.label.localeCompare(b.label)),
+    totalAnnotations,
+    totalDuration,
+    tracks: tracks.length,
+    annotatedTracks,
+    folders: [...folders.values()].sort(byName),
+    days: days ? [...days.values()].sort(byName) : null,
+    undatedTracks,
+  };
+};
+
+/** Column headers of the statistics CSV, in order. */
+export const ANNOTATION_STATS_COLUMNS = [
+  'section', 'name', 'tracks', 'annotated_tracks', 'annotations', 'total_duration_s',
+];
+
+/**
+ * Serialize the statistics as one long-format CSV: a `project` row with the
+ * totals, then one row per `label`, `folder` and `day` (when known). Columns
+ * that don't apply to a section are left empty; for a label, `tracks` is the
+ * number of tracks carrying it. Durations are written at `decimals` places.
+ */
+export const generateAnnotationStatsCsv = (stats: AnnotationStats, decimals: number = 3): string => {
+  const row = (section: string, name: string, tracks: number | '', annotated: number | '', annotations: number, duration: number) =>
+    [section, name, String(tracks), String(annotated), String(annotations), duration.toFixed(decimals)].map(csvField).join(',');
+  const lines = [ANNOTATION_STATS_COLUMNS.join(',')];
+  lines.push(row('project', '', stats.tracks, stats.annotatedTracks, stats.totalAnnotations, stats.totalDuration));
+  for (const l of stats.labels) lines.push(row('label', l.label, l.tracks, '', l.count, l.totalDuration));
+  for (const f of stats.folders) lines.push(row('folder', f.name, f.tracks, f.annotatedTracks, f.annotations, f.totalDuration));
+  for (const d of stats.days ?? []) lines.push(row('day', d.name, d.tracks, d.annotatedTracks, d.annotations, d.totalDuration));
+  return lines.join('\n') + '\n';
+};
+
+export interface CollectAnnotationStatsArgs {
+  annotationDir: string;
+  mediaRoot: string;
+  /** Absolute paths of every media file in the project. */
+  mediaFiles: string[];
+  filenameTimeFormat?: string;
+  /** The open track's in-memory annotations, used instead of its file on disk. */
+  live?: { ident: string; annotations: Annotation[] } | null;
+}
+
+/** Read every annotation file in the project and compute its statistics. Unreadable files count as empty. */
+export async function collectAnnotationStats({
+  annotationDir, mediaRoot, mediaFiles, filenameTimeFormat, live,
+}: CollectAnnotationStatsArgs): Promise<AnnotationStats> {
+  const tracks = mediaFiles.map(f => {
+    const mediaPath = f.substring(mediaRoot.length + 1).replace(/\\/g, '/');
+    return { ident: stripExt(mediaPath), mediaPath };
+  });
+
+  const idents = await listAnnotationFiles(annotationDir, ANNOTATION_FILE_EXT);
+  const annotationsByIdent = new Map<string, Annotation[]>();
+  await Promise.all(idents.map(async ident => {
+    const content = await readTextFile(`${annotationDir}/${ident}.${ANNOTATION_FILE_EXT}`).catch(() => '');
+    // Labels and times are all that's counted, so tool colors don't matter.
+    annotationsByIdent.set(ident, content ? parseAudacityContent(content, []) : []);
+  }));
+  if (live) annotationsByIdent.set(live.ident, live.annotations);
+
+  return computeAnnotationStats(tracks, annotationsByIdent, filenameTimeFormat);
+}
+
+/**
+ * Write `stats` as CSV through a save dialog seeded with `defaultPath`.
+ * Resolves false when the user cancels.
+ */
+export async function saveAnnotationStats(stats: AnnotationStats, defaultPath: string): Promise<boolean> {
+  const chosenPath = await saveFileDialog(defaultPath, [{ name: 'CSV', extensions: ['csv'] }]);
+  if (!chosenPath) return false;
+  await writeTextFile(chosenPath, generateAnnotationStatsCsv(stats));
+  return true;
+}
@@ -0,0 +1,77 @@
+// Deriving a subset timeline from annotations.
+//
+// The detection subset (utils/buzzdetectSubset.ts) keeps the time a neuron
+// fired; this one keeps the time a reviewer already labelled — every
+// annotation whose text matches a label query, so "play me all the 'waggle'
+// segments of this track back to back" is one setting rather than a chain of
+// find-and-seek. The query is matched exactly as the Find Label search matches
+// it (buildLabelMatcher), so the two agree on what "waggle" means.
+//
+// Each matching annotation is widened by `padding` seconds on both sides —
+// hearing an event start on its very first sample makes it hard to judge —
+// and the widened ranges go through buildSubsetTimeline like any other
+// subset's, which clamps them to the file and merges the ones that overlap.
+// The result is an ordinary Timeline, so nothing downstream knows or cares
+// which kind of subset it's drawing.
+//
+// Point annotations (end === start) are kept only with some padding: with
+// none they cover no time at all.
+
+import { Annotation, LabelSubset } from '../types';
+import { buildLabelMatcher, LabelMatcher } from './helpers';
+import { Timeline, buildSubsetTimeline, identityTimeline } from './subsetTimeline';
+
+/** The matcher for a label subset's query, or null when it's blank or an invalid regex. */
+export function labelSubsetMatcher(subset: LabelSubset): LabelMatcher | null {
+  const label = subset.label.trim();
+  if (!label) return null;
+  return buildLabelMatcher(label, { useRegex: subset.useRegex, partial: subset.partial });
+}
+
+/**
+ * Source-time ranges of the annotations `matcher` accepts, each widened by
+ * `padding` on both sides, in ascending order of start. Overlaps are left in
+ * — merging them is buildSubsetTimeline's job.
+ */
+export function annotationRanges(
+  annotations: readonly Annotation[],
+  matcher: LabelMatcher,
+  padding: number,
+): { start: number; end: number }[] {
+  const pad = Math.max(0, padding);
+  return annotations
+    .filter(a => matcher(a.text))
+    .map(a => ({ start: Math.min(a.start, a.end) - pad, end: Math.max(a.start, a.end) + pad }))
+    .filter(r => r.end > r.start)
+    .sort((a, b) => a.start - b.start);
+}
+
+/**
+ * The annotations a label subset's timeline is built from. A drag or resize
+ * writes its live state on every mousemove, and an axis rebuilt from that
+ * would reshape under the pointer — the gesture still computing in the old
+ * display coordinates while its result is converted through the new ones. So
+ * while `annotations` is the gesture's own `live` state the previously
+ * `settled` set is kept; any other change (a commit, undo, a load) settles.
+ */
+export const settledAnnotationsFor = (
+  annotations: Annotation[],
+  live: readonly Annotation[] | null,
+  settled: Annotation[],
+): Annotation[] => (annotations === live ? settled : annotations);
+
+/**
+ * The timeline for a label subset, or the identity timeline when there is no
+ * subset or its query can't match anything (blank, or a regex that doesn't
+ * compile). A valid query that no annotation matches keeps nothing, as a
+ * detection subset with no detections does.
+ */
+export function labelSubsetTimelineFor(
+  annotations: readonly Annotation[],
+  subset: LabelSubset | null,
+  sourceDuration: number,
+): Timeline {
+  const matcher = subset && labelSubsetMatcher(subset);
+  if (!matcher) return identityTimeline(sourceDuration);
+  return buildSubsetTimeline(annotationRanges(annotations, matcher, subset.padding), sourceDuration);
+}
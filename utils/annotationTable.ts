@@ -0,0 +1,200 @@
+// Project-wide annotation table: every annotation in the project flattened to
+// one row each, for analysis outside SeeNote (a season of recordings in R or
+// pandas rather than walking the annotation directory by hand).
+//
+// Rows are built from the annotation files on disk (listAnnotationFiles) —
+// except the open track, whose in-memory set may not be flushed yet — and
+// joined back to their media files by ident. A row carries wall-clock times
+// only when the project's filenameTimeFormat parses the media filename.
+
+import { Annotation, AnnotationAttributes, AnnotationTool, RegionBox } from '../types';
+import { saveFileDialog, writeTextFile } from './tauriCommands';
+import { listAnnotationFiles } from './projectCommands';
+import { stripExt, basename, isBoxAnnotation, LabelMatcher } from './helpers';
+import { readAnnotationsFile } from './annotationPersist';
+import { parseFilenameTime } from './filenameTime';
+import { formatDateTime } from './datetimeDisplay';
+
+export interface AnnotationTableRow {
+  ident: string;
+  /** Media file path relative to the media root, '/'-separated; '' when the annotation file has no media file. */
+  mediaPath: string;
+  start: number;
+  end: number;
+  label: string;
+  color: string;
+  lowFreq?: number;
+  highFreq?: number;
+  attributes?: AnnotationAttributes;
+  /** Wall-clock start of the recording, from its filename; null when the pattern doesn't parse. */
+  trackStart: Date | null;
+}
+
+export interface AnnotationTableFilter {
+  /** Keep only annotations whose label matches; null keeps every label. */
+  matcher: LabelMatcher | null;
+  /** Ident of a folder to restrict to (its whole subtree); '' is the whole project. */
+  folder: string;
+}
+
+/** Column headers of the exported CSV, in order. */
+export const ANNOTATION_TABLE_COLUMNS = [
+  'ident', 'media_path', 'start_s', 'end_s', 'label', 'color',
+  'low_freq_hz', 'high_freq_hz', 'start_datetime', 'end_datetime',
+  'note', 'confidence', 'uncertain', 'observer',
+  'roi_x', 'roi_y', 'roi_w', 'roi_h', 'roi_end_x', 'roi_end_y', 'roi_end_w', 'roi_end_h',
+];
+
+/** True when `ident` lies in the subtree of the folder ident `folder`. */
+export const identInFolder = (ident: string, folder: string): boolean =>
+  folder === '' || ident === folder || ident.startsWith(`${folder}/`);
+
+/**
+ * Every folder ident that contains at least one of `idents`, sorted — the
+ * choices for a subtree filter. `a/b/c` contributes `a` and `a/b`.
+ */
+export const folderIdentsOf = (idents: string[]): string[] => {
+  const folders = new Set<string>();
+  for (const ident of idents) {
+    const parts = ident.split('/');
+    for (let i = 1; i < parts.length; i++) folders.add(parts.slice(0, i).join('/'));
+  }
+  return [...folders].sort((a, b) => a.localeCompare(b));
+};
+
+/**
+ * One track's rows: `annotations` filtered by label, sorted by start. The
+ * wall-clock start is parsed from the media filename (or the ident's last
+ * segment when there is no media file).
+ */
+export const annotationTableRows = (
+  ident: string,
+  mediaPath: string,
+  annotations: Annotation[],
+  matcher: LabelMatcher | null,
+  filenameTimeFormat: string | undefined,
+): AnnotationTableRow[] => {
+  const trackStart = filenameTimeFormat
+    ? parseFilenameTime(basename(mediaPath || ident), filenameTimeFormat)
+    : null;
+  return annotations
+    .filter(a => !matcher || matcher(a.text))
+    .sort((a, b) => a.start - b.start || a.end - b.end)
+    .map(a => ({
+      ident,
+      mediaPath,
+      start: a.start,
+      end: a.end,
+      label: a.text,
+      color: a.color,
+      ...(isBoxAnnotation(a) ? { lowFreq: a.lowFreq, highFreq: a.highFreq } : {}),
+      ...(a.attributes ? { attributes: a.attributes } : {}),
+      trackStart,
+    }));
+};
+
+/**
+ * One CSV field with RFC 4180 quoting: only fields containing a comma, quote
+ * or line break are quoted, with embedded quotes doubled.
+ */
+export const csvField = (value: string): string =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+// x, y, w, h of a region box, or four empty fields.
+const regionBoxFields = (box: RegionBox | undefined): string[] =>
+  box ? [box.x, box.y, box.w, box.h].map(v => v.toFixed(6)) : ['', '', '', ''];
+
+/**
+ * Serialize rows as CSV with a header. Times are written at `decimals` places;
+ * wall-clock columns use the ISO style ("2026-07-31 16:56:04.250") and are
+ * empty for tracks whose filename has no parsable time, as are the frequency
+ * columns for time-band annotations and attribute columns left unset.
+ * `uncertain` is written as true/false. The `roi_` columns are an annotation's
+ * video region (utils/videoRegions.ts) as fractions of the frame from its
+ * top-left corner: the box at the start, then the box at the end when the
+ * region is keyframed there.
+ */
+export const generateAnnotationTableCsv = (rows: AnnotationTableRow[], decimals: number = 7): string => {
+  const lines = [ANNOTATION_TABLE_COLUMNS.join(',')];
+  const wallDecimals = Math.min(decimals, 3);
+  for (const r of rows) {
+    lines.push([
+      r.ident,
+      r.mediaPath,
+      r.start.toFixed(decimals),
+      r.end.toFixed(decimals),
+      r.label,
+      r.color,
+      r.lowFreq !== undefined ? r.lowFreq.toFixed(1) : '',
+      r.highFreq !== undefined ? r.highFreq.toFixed(1) : '',
+      r.trackStart ? formatDateTime(r.trackStart, r.start, wallDecimals) : '',
+      r.trackStart ? formatDateTime(r.trackStart, r.end, wallDecimals) : '',
+      r.attributes?.note ?? '',
+      r.attributes?.confidence !== undefined ? String(r.attributes.confidence) : '',
+      r.attributes?.uncertain ? 'true' : 'false',
+      r.attributes?.observer ?? '',
+      ...regionBoxFields(r.attributes?.region?.start),
+      ...regionBoxFields(r.attributes?.region?.end),
+    ].map(csvField).join(','));
+  }
+  return lines.join('\n') + '\n';
+};
+
+export interface CollectAnnotationTableArgs {
+  annotationDir: string;
+  mediaRoot: string;
+  /** Absolute paths of every media file in the project. */
+  mediaFiles: string[];
+  tools: AnnotationTool[];
+  filter: AnnotationTableFilter;
+  filenameTimeFormat?: string;
+  /** The open track's in-memory annotations, used instead of its file on disk. */
+  live?: { ident: string; annotations: Annotation[] } | null;
+}
+
+/**
+ * Build the whole project's table: every annotation file under
+ * `annotationDir` in the folder filter, parsed (with sidecar attributes) and
+ * filtered by label, ordered by ident then start time. Unreadable files are
+ * skipped.
+ */
+export async function collectAnnotationTable({
+  annotationDir, mediaRoot, mediaFiles, tools, filter, filenameTimeFormat, live,
+}: CollectAnnotationTableArgs): Promise<AnnotationTableRow[]> {
+  const mediaByIdent = new Map<string, string>();
+  for (const f of mediaFiles) {
+    const rel = f.substring(mediaRoot.length + 1).replace(/\\/g, '/');
+    mediaByIdent.set(stripExt(rel), rel);
+  }
+
+  const idents = new Set(await listAnnotationFiles(annotationDir, 'txt'));
+  // The open track may have annotations that haven't reached disk yet.
+  if (live && live.annotations.length > 0) idents.add(live.ident);
+  const sorted = [...idents].filter(i => identInFolder(i, filter.folder)).sort((a, b) => a.localeCompare(b));
+
+  const perIdent = await Promise.all(sorted.map(async ident => {
+    let annotations: Annotation[];
+    if (live && ident === live.ident) {
+      annotations = live.annotations;
+    } else {
+      annotations = await readAnnotationsFile(`${annotationDir}/${ident}.txt`, tools);
+    }
+    return annotationTableRows(ident, mediaByIdent.get(ident) ?? '', annotations, filter.matcher, filenameTimeFormat);
+  }));
+  return perIdent.flat();
+}
+
+/**
+ * Write `rows` as CSV through a save dialog seeded with `defaultPath`.
+ * Resolves false when the user cancels.
+ */
+export async function saveAnnotationTable(
+  rows: AnnotationTableRow[],
+  defaultPath: string,
+  decimals: number = 7,
+): Promise<boolean> {
+  const chosenPath = await saveFileDialog(defaultPath, [{ name: 'CSV', extensions: ['csv'] }]);
+  if (!chosenPath) return false;
+  await writeTextFile(chosenPath, generateAnnotationTableCsv(rows, decimals));
+  return true;
+}
@@ -8,7 +8,10 @@
 // project-level (settings.toolHotkeys), not stored in the folders.
 
 import { AnnotationTool } from '../types';
+import type { HotkeyMod } from '../hooks/useHotkeys';
 import type { FolderTool } from './tauriCommands';
+import { Chord, formatChord } from './keymap';
+import { formatModKey, isMac } from './platform';
 
 export const ANNOTATION_TOOLS_RELATIVE_DIR = './.seenote/annotation-tools';
 
@@ -76,6 +79,72 @@ export const mergeImportedTools = (
   return { tools: [...tools, ...added], added };
 };
 
+// ── Hotkey slots ────────────────────────────────────────────────────────────
+//
+// A tool's `key` is the hotkey slot it sits in. Digits 1–9 come in three
+// banks: bare, with Shift, and with the primary modifier — so "3",
+// "shift+3" and "mod+3" (27 slots, plus "0" for Custom). The keymap reserves
+// all three (utils/keymap.ts RESERVED_SHORTCUTS), so no other shortcut can
+// take a tool's chord.
+//
+// Banks rather than letter keys or switchable tool pages: bare letters are
+// the keymap's action defaults (r, m, c, s, e, f, z, y, n, p…), so a letter
+// tool would take one away, and with pages a key's tool would depend on which
+// page is showing, one more keypress away. A bank keeps every tool a single
+// chord whose label never changes.
+//
+// Mod+digit switches tabs in a browser, but the app's webview has no tabs
+// and nothing else claims it: the app sets no menu of its own, Tauri's
+// default macOS menu has no ⌘+digit item, WebView2's browser accelerators
+// don't include Ctrl+1–9, and WebKitGTK binds none. The keydown reaches
+// useHotkeys, which calls preventDefault on it.
+
+export const TOOL_SLOT_DIGITS = ['1', '2', '3', '4', '5', '6', '7', '8', '9'] as const;
+
+export type ToolHotkeyBank = 'plain' | 'shift' | 'mod';
+
+export const TOOL_HOTKEY_BANKS: readonly ToolHotkeyBank[] = ['plain', 'shift', 'mod'];
+
+const BANK_PREFIX: Record<ToolHotkeyBank, string> = { plain: '', shift: 'shift+', mod: 'mod+' };
+
+/** The slot key for `digit` in `bank`, e.g. ('3', 'shift') → "shift+3". */
+export const toolHotkey = (bank: ToolHotkeyBank, digit: string): string => BANK_PREFIX[bank] + digit;
+
+/** Every assignable slot key, bank by bank. */
+export const TOOL_HOTKEY_SLOTS: readonly string[] =
+  TOOL_HOTKEY_BANKS.flatMap(bank => TOOL_SLOT_DIGITS.map(d => toolHotkey(bank, d)));
+
+/** The bank and digit of slot `key`, or null if it isn't a slot (e.g. "0"). */
+export function parseToolHotkey(key: string): { bank: ToolHotkeyBank; digit: string } | null {
+  if (!TOOL_HOTKEY_SLOTS.includes(key)) return null;
+  const bank = TOOL_HOTKEY_BANKS.find(b => BANK_PREFIX[b] !== '' && key.startsWith(BANK_PREFIX[b])) ?? 'plain';
+  return { bank, digit: key.slice(-1) };
+}
+
+/** The slot a tool-digit keypress picks: which bank its modifiers select. */
+export const toolHotkeyFromEvent = (digit: string, mods: HotkeyMod[]): string =>
+  toolHotkey(mods.includes('mod') ? 'mod' : mods.includes('shift') ? 'shift' : 'plain', digit);
+
+/** Palette order: Custom ("0") first, then bank by bank, digit by digit. */
+export const compareToolHotkeys = (a: string, b: string): number =>
+  (a === '0' ? -1 : TOOL_HOTKEY_SLOTS.indexOf(a)) - (b === '0' ? -1 : TOOL_HOTKEY_SLOTS.indexOf(b));
+
+const toolChord = (key: string): Chord => {
+  const slot = parseToolHotkey(key);
+  if (!slot || slot.bank === 'plain') return { key: slot?.digit ?? key };
+  return { key: slot.digit, mods: [slot.bank] };
+};
+
+/** How a tool's hotkey reads in the palette, e.g. "Shift+3" or "Ctrl+3". */
+export const formatToolHotkey = (key: string): string => formatModKey(formatChord(toolChord(key)));
+
+/** Two-character form for the collapsed rail's swatches, e.g. "⇧3". */
+export function formatToolHotkeyShort(key: string): string {
+  const slot = parseToolHotkey(key);
+  if (!slot || slot.bank === 'plain') return slot?.digit ?? key;
+  return (slot.bank === 'shift' ? '⇧' : isMac ? '⌘' : '^') + slot.digit;
+}
+
 /** Label → hotkey for keyed, non-Custom tools. Inverse of the assemble lookup. */
 export const buildHotkeyMap = (
   tools: Pick<AnnotationTool, 'key' | 'text'>[],
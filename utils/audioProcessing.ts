@@ -1,27 +1,5 @@
-import { MAGMA_STOPS } from '../constants';
 import { FrequencyScale } from '../types';
 
-// Precompute color map (LUT) for performance — mirrors interpolateMagmaHex from constants.ts
-// but returns raw RGB integers to avoid hex-string allocation in the hot render loop.
-const COLOR_MAP = new Uint8ClampedArray(256 * 3);
-for (let i = 0; i < 256; i++) {
-  const val = i / 255;
-  let lower = MAGMA_STOPS[0];
-  let upper = MAGMA_STOPS[MAGMA_STOPS.length - 1];
-  for (let s = 0; s < MAGMA_STOPS.length - 1; s++) {
-    if (val >= MAGMA_STOPS[s].pos && val <= MAGMA_STOPS[s + 1].pos) {
-      lower = MAGMA_STOPS[s];
-      upper = MAGMA_STOPS[s + 1];
-      break;
-    }
-  }
-  const range = upper.pos - lower.pos;
-  const localT = range === 0 ? 0 : (val - lower.pos) / range;
-  COLOR_MAP[i * 3]     = Math.round(lower.r + localT * (upper.r - lower.r));
-  COLOR_MAP[i * 3 + 1] = Math.round(lower.g + localT * (upper.g - lower.g));
-  COLOR_MAP[i * 3 + 2] = Math.round(lower.b + localT * (upper.b - lower.b));
-}
-
 // Module-scope scratch buffer for drawSpectrogramChunk — grown as needed, never shrunk.
 // drawSpectrogramChunk is always called from the React rendering path (single-threaded),
 // so this is safe to reuse across calls.
@@ -215,8 +193,10 @@ export const drawSpectrogramChunk = (
   frequencyScale: FrequencyScale,
   displayFloor: number,  // dBFS lower display bound
   displayCeil: number,   // dBFS upper display bound
+  colorMap: Uint8ClampedArray, // 256-entry RGB lookup table (utils/colormaps colormapLut)
   colMask?: Uint8Array,  // optional per-column (length specWidth) build mask;
                          // columns with value 0 are rendered fully transparent
+  destY: number = 0,     // top row of ctx to draw at (a lane of a stacked view)
 ) => {
   const needed = canvasWidth * canvasHeight * 4;
   if (_scratchPixels.length < needed) {
@@ -296,12 +276,12 @@ export const drawSpectrogramChunk = (
       const colorIdx = Math.floor(nVal * 255) * 3;
 
       const pixelIdx = (y * canvasWidth + x) * 4;
-      data[pixelIdx]     = COLOR_MAP[colorIdx];
-      data[pixelIdx + 1] = COLOR_MAP[colorIdx + 1];
-      data[pixelIdx + 2] = COLOR_MAP[colorIdx + 2];
+      data[pixelIdx]     = colorMap[colorIdx];
+      data[pixelIdx + 1] = colorMap[colorIdx + 1];
+      data[pixelIdx + 2] = colorMap[colorIdx + 2];
       data[pixelIdx + 3] = 255;
     }
   }
 
-  ctx.putImageData(imgData, 0, 0);
+  ctx.putImageData(imgData, 0, destY);
 };
@@ -0,0 +1,87 @@
+// Turning buzzdetect detections into annotations.
+//
+// The panel shows where each neuron's activation clears its threshold; this
+// writes those stretches down as labels, so a run of detections can be kept,
+// reviewed and exported like hand-made annotations. Detection here is per
+// frame — a frame is detected when the neuron's activation in it reaches the
+// neuron's threshold, the same predicate the panel's detection-rate series
+// and darkening use — and a detected frame covers `[start, start + frame
+// length)`. Runs of detected frames separated by at most `maxGap` seconds of
+// undetected ones are merged into one event, and events shorter than
+// `minDuration` are dropped. Each neuron converts on its own, so two neurons
+// firing over the same stretch give two overlapping annotations with their own
+// labels.
+//
+// Conversion only ever adds annotations. An event that matches an existing
+// annotation exactly (same label and bounds) is skipped, so converting the
+// same track twice doesn't stack duplicates.
+
+import { Annotation, BuzzdetectData } from '../types';
+import { generateId, mergeAnnotations } from './helpers';
+
+export interface DetectionConversionOptions {
+  /** Events shorter than this (seconds) are dropped. */
+  minDuration: number;
+  /** Detected stretches at most this far apart (seconds) merge into one event. */
+  maxGap: number;
+}
+
+/** Which label (and color) one neuron's detections become. */
+export interface NeuronLabelMapping {
+  neuron: string;
+  text: string;
+  color: string;
+}
+
+// Bounds within this of each other are the same; frame starts come out of a
+// CSV and sums of frame lengths, so exact comparison would miss equal ones.
+const EPSILON = 1e-6;
+
+/** One neuron's detected stretches in source time, merged and filtered, ascending. */
+export function detectionEvents(
+  data: BuzzdetectData,
+  neuron: string,
+  threshold: number,
+  options: DetectionConversionOptions,
+): { start: number; end: number }[] {
+  const index = data.neurons.indexOf(neuron);
+  if (index < 0) return [];
+  const values = data.values[index];
+  const runs: { start: number; end: number }[] = [];
+  for (let i = 0; i < data.starts.length; i++) {
+    if (!(values[i] >= threshold)) continue;
+    const start = data.starts[i];
+    const end = start + data.binWidth;
+    const last = runs[runs.length - 1];
+    if (last && start - last.end <= options.maxGap + EPSILON) last.end = Math.max(last.end, end);
+    else runs.push({ start, end });
+  }
+  return runs.filter(r => r.end - r.start >= options.minDuration - EPSILON);
+}
+
+/** Every mapped neuron's events as annotations, by start time. */
+export function detectionsToAnnotations(
+  data: BuzzdetectData,
+  mappings: readonly NeuronLabelMapping[],
+  thresholdOf: (neuron: string) => number,
+  options: DetectionConversionOptions,
+): Annotation[] {
+  return mappings
+    .flatMap(m => detectionEvents(data, m.neuron, thresholdOf(m.neuron), options)
+      .map(e => ({ id: generateId(), start: e.start, end: e.end, text: m.text, color: m.color })))
+    .sort((a, b) => a.start - b.start);
+}
+
+/**
+ * `incoming` added to `existing`, less any event an existing annotation
+ * already covers exactly. `added` is how many were new.
+ */
+export function addDetections(
+  existing: Annotation[],
+  incoming: Annotation[],
+): { annotations: Annotation[]; added: number } {
+  const fresh = incoming.filter(n => !existing.some(e =>
+    e.text === n.text && Math.abs(e.start - n.start) <= EPSILON && Math.abs(e.end - n.end) <= EPSILON,
+  ));
+  return { annotations: fresh.length > 0 ? mergeAnnotations(existing, fresh) : existing, added: fresh.length };
+}
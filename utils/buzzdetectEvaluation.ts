@@ -0,0 +1,184 @@
+// Precision/recall of buzzdetect output against human annotations.
+//
+// Thresholds are otherwise tuned by eye in the panel. The evaluation modal
+// (components/BuzzdetectEvaluationModal.tsx) sweeps one neuron's threshold
+// across every track that has both a buzzdetect file and an annotation file,
+// scoring it against one label at the bin level: each frame is a bin, it is
+// predicted positive when the neuron's activation in it reaches the threshold
+// (the panel's detection predicate), and it is truly positive when that
+// label's annotations cover at least half of it. Counts are pooled over all
+// tracks before precision, recall and F1 are taken, so a long track weighs
+// more than a short one — the score is per frame, not per track.
+//
+// A track with an annotation file but no annotations of the label is all
+// negatives, which is the point: a track the annotators went through and
+// found nothing on is evidence against every detection there.
+
+import { Annotation, BuzzdetectData, DetectorFormat } from '../types';
+import { ANNOTATION_FILE_EXT } from '../constants';
+import { listAnnotationFiles } from './projectCommands';
+import { readAnnotationsFile } from './annotationPersist';
+import { readDetectorOutput } from './detectorOutput';
+
+/** One track's activations and annotations, both in source time. */
+export interface EvaluationTrack {
+  ident: string;
+  data: BuzzdetectData;
+  annotations: Annotation[];
+}
+
+/** The counts and scores at one threshold; a score is null when its denominator is 0. */
+export interface ThresholdPoint {
+  threshold: number;
+  tp: number;
+  fp: number;
+  fn: number;
+  precision: number | null;
+  recall: number | null;
+  f1: number | null;
+}
+
+/**
+ * Per frame of `data`, whether `label`'s annotations cover at least half of
+ * it. Overlapping annotations are merged first, so a frame covered twice
+ * over isn't counted double.
+ */
+export function frameTruth(data: BuzzdetectData, annotations: Annotation[], label: string): boolean[] {
+  const spans = annotations
+    .filter(a => a.text === label && a.end > a.start)
+    .map(a => ({ start: a.start, end: a.end }))
+    .sort((a, b) => a.start - b.start);
+  const merged: { start: number; end: number }[] = [];
+  for (const s of spans) {
+    const last = merged[merged.length - 1];
+    if (last && s.start <= last.end) last.end = Math.max(last.end, s.end);
+    else merged.push(s);
+  }
+  // Frames and spans are both ascending, so one cursor walks the spans.
+  let j = 0;
+  return data.starts.map(start => {
+    const end = start + data.binWidth;
+    while (j < merged.length && merged[j].end <= start) j++;
+    let covered = 0;
+    for (let k = j; k < merged.length && merged[k].start < end; k++) {
+      covered += Math.min(end, merged[k].end) - Math.max(start, merged[k].start);
+    }
+    return covered >= data.binWidth / 2;
+  });
+}
+
+/**
+ * Up to `steps + 1` evenly spaced thresholds from the lowest to the highest
+ * of `neuron`'s activations across `tracks`, ascending. They're rounded to
+ * hundredths, so the one written back reads like one typed into the panel,
+ * and any that round together are kept once. Empty when the neuron has no
+ * finite activations.
+ */
+export function thresholdCandidates(tracks: EvaluationTrack[], neuron: string, steps: number): number[] {
+  let min = Infinity;
+  let max = -Infinity;
+  for (const t of tracks) {
+    const values = t.data.values[t.data.neurons.indexOf(neuron)];
+    if (!values) continue;
+    for (const v of values) {
+      if (!Number.isFinite(v)) continue;
+      if (v < min) min = v;
+      if (v > max) max = v;
+    }
+  }
+  if (min > max) return [];
+  const round = (v: number) => Math.round(v * 100) / 100;
+  if (min === max || steps < 1) return [round(min)];
+  return [...new Set(Array.from({ length: steps + 1 }, (_, i) => round(min + ((max - min) * i) / steps)))];
+}
+
+const pointFor = (threshold: number, tp: number, fp: number, fn: number): ThresholdPoint => {
+  const precision = tp + fp > 0 ? tp / (tp + fp) : null;
+  const recall = tp + fn > 0 ? tp / (tp + fn) : null;
+  const f1 = precision === null || recall === null ? null
+    : precision + recall === 0 ? 0 : (2 * precision * recall) / (precision + recall);
+  return { threshold, tp, fp, fn, precision, recall, f1 };
+};
+
+/**
+ * Bin-level scores of `neuron` against `label` at each of `thresholds`, in
+ * the order given. Tracks without the neuron are skipped.
+ */
+export function sweepThresholds(
+  tracks: EvaluationTrack[],
+  neuron: string,
+  label: string,
+  thresholds: readonly number[],
+): ThresholdPoint[] {
+  // Every frame as (activation, truth), highest activation first: a
+  // threshold predicts exactly a prefix of this list, so each threshold's
+  // counts extend the previous (higher) one's.
+  const frames: { value: number; truth: boolean }[] = [];
+  let positives = 0;
+  for (const t of tracks) {
+    const values = t.data.values[t.data.neurons.indexOf(neuron)];
+    if (!values) continue;
+    const truth = frameTruth(t.data, t.annotations, label);
+    truth.forEach((isTrue, i) => {
+      if (isTrue) positives++;
+      const v = values[i];
+      if (Number.isFinite(v)) frames.push({ value: v, truth: isTrue });
+    });
+  }
+  frames.sort((a, b) => b.value - a.value);
+
+  const order = thresholds.map((threshold, i) => ({ threshold, i })).sort((a, b) => b.threshold - a.threshold);
+  const out: ThresholdPoint[] = new Array(thresholds.length);
+  let k = 0;
+  let tp = 0;
+  let fp = 0;
+  for (const { threshold, i } of order) {
+    while (k < frames.length && frames[k].value >= threshold) {
+      if (frames[k].truth) tp++;
+      else fp++;
+      k++;
+    }
+    out[i] = pointFor(threshold, tp, fp, positives - tp);
+  }
+  return out;
+}
+
+/** The point with the highest F1, the lowest threshold among ties; null when none has one. */
+export function bestThreshold(points: readonly ThresholdPoint[]): ThresholdPoint | null {
+  let best: ThresholdPoint | null = null;
+  for (const p of points) {
+    if (p.f1 === null) continue;
+    if (!best || p.f1 > best.f1! || (p.f1 === best.f1 && p.threshold < best.threshold)) best = p;
+  }
+  return best;
+}
+
+export interface CollectEvaluationTracksArgs {
+  annotationDir: string;
+  buzzdetectDir: string;
+  format?: DetectorFormat;
+  frameLength?: number;
+  /** The open track's in-memory annotations, used instead of its file on disk. */
+  live?: { ident: string; annotations: Annotation[] } | null;
+}
+
+/**
+ * Every track with both an annotation file and a buzzdetect file. Tracks
+ * are read one at a time, as activation files can be large.
+ */
+export async function collectEvaluationTracks({
+  annotationDir, buzzdetectDir, format, frameLength, live,
+}: CollectEvaluationTracksArgs): Promise<EvaluationTrack[]> {
+  const idents = await listAnnotationFiles(annotationDir, ANNOTATION_FILE_EXT);
+  const tracks: EvaluationTrack[] = [];
+  for (const ident of idents) {
+    const data = await readDetectorOutput(buzzdetectDir, ident, format, frameLength);
+    if (!data) continue;
+    // Labels and times are all that's scored, so tool colors don't matter.
+    const annotations = live && live.ident === ident
+      ? live.annotations
+      : await readAnnotationsFile(`${annotationDir}/${ident}.${ANNOTATION_FILE_EXT}`, []);
+    tracks.push({ ident, data, annotations });
+  }
+  return tracks;
+}
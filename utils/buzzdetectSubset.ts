@@ -71,6 +71,8 @@ export interface SubsetInputs {
   binWidthOverride: number | null;
   /** The file's own frame length — what an unpinned width falls back to. */
   frameLength: number;
+  /** Threshold for neurons without an override; absent = the logit boundary. */
+  defaultThreshold?: number;
 }
 
 /**
@@ -85,7 +87,7 @@ export function subsetCriteriaFrom(inputs: SubsetInputs): SubsetCriteria | null
   return {
     neurons: inputs.neurons,
     mode: inputs.mode,
-    thresholdOf: (n: string) => inputs.thresholds[n] ?? DEFAULT_BUZZDETECT_THRESHOLD,
+    thresholdOf: (n: string) => inputs.thresholds[n] ?? inputs.defaultThreshold ?? DEFAULT_BUZZDETECT_THRESHOLD,
     minDetectionRate: inputs.minDetectionRate,
     // The panel's auto bin width follows the zoom, so subsetting by it would
     // redefine the subset every time the view moved. Only a pinned width
@@ -193,5 +195,6 @@ export function subsetBuzzdetectData(
     neurons: data.neurons,
     starts: keptIdx.map(i => timeline.toDisplay(data.starts[i])),
     values: data.values.map(v => keptIdx.map(i => v[i])),
+    defaultThreshold: data.defaultThreshold,
   };
 }
@@ -0,0 +1,72 @@
+// Multi-channel spectrogram views: which channels a ChannelView shows, and how
+// the stacked view splits the spectrogram's height into one lane per channel.
+//
+// Lanes share the time axis and each runs the full frequency range, so every
+// y ↔ frequency conversion in a stacked view is the single-view one applied
+// inside a lane (see laneYToFreq / laneFreqToY). A one-lane layout covers the
+// whole height, which makes the mixdown and single-channel views the
+// degenerate case of the same code path.
+
+import { Annotation, ChannelView, FrequencyScale } from '../types';
+import { freqToY, yToFreq } from './audioProcessing';
+
+/** One lane: a horizontal strip of the spectrogram, in whatever pixel unit `laneLayout` was given. */
+export interface Lane {
+  top: number;
+  height: number;
+  /** 0-based channel drawn in the lane; null = the mono mixdown. */
+  channel: number | null;
+}
+
+/**
+ * The channels `view` draws for a file with `channelCount` channels, one per
+ * lane, top to bottom. A mono file, or a channel the file doesn't have (a view
+ * carried over from a wider recording), falls back to the mixdown.
+ */
+export const viewChannels = (view: ChannelView | undefined, channelCount: number): (number | null)[] => {
+  if (channelCount <= 1 || view === undefined || view === 'mixdown') return [null];
+  if (view === 'stacked') return Array.from({ length: channelCount }, (_, i) => i);
+  return Number.isInteger(view) && view >= 0 && view < channelCount ? [view] : [null];
+};
+
+/**
+ * Split `height` into one lane per entry of `channels`. Boundaries are rounded
+ * so adjacent lanes tile the height exactly, with no gap or overlap.
+ */
+export const laneLayout = (channels: (number | null)[], height: number): Lane[] => {
+  const n = Math.max(1, channels.length);
+  return channels.map((channel, i) => {
+    const top = Math.round((i * height) / n);
+    const bottom = Math.round(((i + 1) * height) / n);
+    return { top, height: bottom - top, channel };
+  });
+};
+
+/** Index of the lane containing `y` (clamped to the first/last lane). */
+export const laneIndexAtY = (lanes: Lane[], y: number): number => {
+  for (let i = 0; i < lanes.length; i++) {
+    if (y < lanes[i].top + lanes[i].height) return i;
+  }
+  return lanes.length - 1;
+};
+
+/**
+ * The lane an annotation is drawn in: its channel's lane, or null when it
+ * carries no channel (or one not on screen) and so spans every lane.
+ */
+export const annotationLaneIndex = (annotation: Annotation, lanes: Lane[]): number | null => {
+  const channel = annotation.attributes?.channel;
+  if (channel === undefined || lanes.length <= 1) return null;
+  const i = lanes.findIndex(l => l.channel === channel);
+  return i === -1 ? null : i;
+};
+
+/** Frequency under `y` (an absolute spectrogram y) within `lane`. */
+export const laneYToFreq = (
+  lane: Lane, y: number, minFreq: number, maxFreq: number, scale: FrequencyScale,
+): number => yToFreq(Math.min(lane.height, Math.max(0, y - lane.top)), lane.height, minFreq, maxFreq, scale);
+
+/** Absolute spectrogram y of `freq` within `lane`. */
+export const laneFreqToY = (
+  lane: Lane, freq: number, minFreq: number, maxFreq: number, scale: FrequencyScale,
+): number => lane.top + freqToY(freq, lane.height, minFreq, maxFreq, scale);
@@ -0,0 +1,132 @@
+// Spectrogram colormaps: the color stops behind each SpectrogramSettings
+// `colormap` choice, and the 256-entry RGB lookup tables drawSpectrogramChunk
+// paints with.
+//
+// A colormap only recolors already-computed magnitudes, so switching one is a
+// repaint, never a refetch. LUTs are cached by colormap (and custom colors), so
+// an unchanged choice hands back the same array — the renderer compares it by
+// identity to decide when a full repaint is due.
+
+import { ColormapName } from '../types';
+import { MAGMA_STOPS } from '../constants';
+
+export interface ColorStop {
+  pos: number;
+  r: number;
+  g: number;
+  b: number;
+}
+
+/** Every colormap, in the order the settings panel lists them. */
+export const COLORMAPS: readonly ColormapName[] = ['roseus', 'viridis', 'grayscale', 'grayscaleInverted', 'custom'];
+
+/** The gradient a fresh custom colormap starts from: Roseus's own endpoints. */
+export const DEFAULT_CUSTOM_COLORMAP: [string, string] = ['#000000', '#fafbc6'];
+
+// matplotlib's viridis, sampled at ninths.
+const VIRIDIS_STOPS: ColorStop[] = [
+  { pos: 0.000, r: 68,  g: 1,   b: 84  },
+  { pos: 0.125, r: 72,  g: 40,  b: 120 },
+  { pos: 0.250, r: 62,  g: 73,  b: 137 },
+  { pos: 0.375, r: 49,  g: 104, b: 142 },
+  { pos: 0.500, r: 38,  g: 130, b: 142 },
+  { pos: 0.625, r: 31,  g: 158, b: 137 },
+  { pos: 0.750, r: 53,  g: 183, b: 121 },
+  { pos: 0.875, r: 110, g: 206, b: 88  },
+  { pos: 1.000, r: 253, g: 231, b: 37  },
+];
+
+const GRAYSCALE_STOPS: ColorStop[] = [
+  { pos: 0, r: 0,   g: 0,   b: 0   },
+  { pos: 1, r: 255, g: 255, b: 255 },
+];
+
+// Loud = dark on a white page, for printing.
+const GRAYSCALE_INVERTED_STOPS: ColorStop[] = [
+  { pos: 0, r: 255, g: 255, b: 255 },
+  { pos: 1, r: 0,   g: 0,   b: 0   },
+];
+
+const hexStop = (pos: number, hex: string): ColorStop => {
+  const m = /^#?([0-9a-f]{6})$/i.exec(hex.trim());
+  const n = m ? parseInt(m[1], 16) : 0;
+  return { pos, r: (n >> 16) & 255, g: (n >> 8) & 255, b: n & 255 };
+};
+
+/**
+ * The stops for `name`. A custom colormap runs linearly from its first color
+ * (the display floor) to its second (the ceiling); without colors of its own
+ * it falls back to DEFAULT_CUSTOM_COLORMAP. Unknown names read as Roseus.
+ */
+export const colormapStops = (name: ColormapName | undefined, custom?: [string, string]): ColorStop[] => {
+  switch (name) {
+    case 'viridis': return VIRIDIS_STOPS;
+    case 'grayscale': return GRAYSCALE_STOPS;
+    case 'grayscaleInverted': return GRAYSCALE_INVERTED_STOPS;
+    case 'custom': {
+      const [lo, hi] = custom ?? DEFAULT_CUSTOM_COLORMAP;
+      return [hexStop(0, lo), hexStop(1, hi)];
+    }
+    default: return MAGMA_STOPS;
+  }
+};
+
+/** Interpolate `stops` at t ∈ [0, 1] (clamped). */
+export const sampleStops = (stops: ColorStop[], t: number): [number, number, number] => {
+  t = Math.max(0, Math.min(1, t));
+  let lower = stops[0];
+  let upper = stops[stops.length - 1];
+  for (let s = 0; s < stops.length - 1; s++) {
+    if (t >= stops[s].pos && t <= stops[s + 1].pos) {
+      lower = stops[s];
+      upper = stops[s + 1];
+      break;
+    }
+  }
+  const range = upper.pos - lower.pos;
+  const localT = range === 0 ? 0 : (t - lower.pos) / range;
+  return [
+    Math.round(lower.r + localT * (upper.r - lower.r)),
+    Math.round(lower.g + localT * (upper.g - lower.g)),
+    Math.round(lower.b + localT * (upper.b - lower.b)),
+  ];
+};
+
+// Keyed by colormap name plus, for 'custom', its two colors. Custom gradients
+// are dragged continuously, so the cache is capped rather than left to grow.
+const _lutCache = new Map<string, Uint8ClampedArray>();
+const LUT_CACHE_LIMIT = 16;
+
+/**
+ * 256-entry RGB lookup table (768 bytes, r,g,b per entry) for `name`. Returns
+ * the same array for the same choice, so callers can detect a change by identity.
+ */
+export const colormapLut = (name: ColormapName | undefined, custom?: [string, string]): Uint8ClampedArray => {
+  const key = name === 'custom' ? `custom|${(custom ?? DEFAULT_CUSTOM_COLORMAP).join('|')}` : (name ?? 'roseus');
+  let lut = _lutCache.get(key);
+  if (!lut) {
+    const stops = colormapStops(name, custom);
+    lut = new Uint8ClampedArray(256 * 3);
+    for (let i = 0; i < 256; i++) {
+      const [r, g, b] = sampleStops(stops, i / 255);
+      lut[i * 3] = r;
+      lut[i * 3 + 1] = g;
+      lut[i * 3 + 2] = b;
+    }
+    if (_lutCache.size >= LUT_CACHE_LIMIT) _lutCache.delete(_lutCache.keys().next().value!);
+    _lutCache.set(key, lut);
+  }
+  return lut;
+};
+
+/** CSS `linear-gradient` previewing `name` left (floor) to right (ceiling). */
+export const colormapCss = (name: ColormapName | undefined, custom?: [string, string]): string => {
+  const stops = colormapStops(name, custom);
+  const samples = 12;
+  const parts: string[] = [];
+  for (let i = 0; i <= samples; i++) {
+    const [r, g, b] = sampleStops(stops, i / samples);
+    parts.push(`rgb(${r}, ${g}, ${b}) ${((i / samples) * 100).toFixed(1)}%`);
+  }
+  return `linear-gradient(to right, ${parts.join(', ')})`;
+};
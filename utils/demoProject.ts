@@ -1,4 +1,4 @@
-import { Annotation, AnnotationTool, BuzzdetectData, SpectrogramSettings } from '../types';
+import { Annotation, AnnotationTool, BuzzdetectData, SpectrogramSettings, TrackStatusEntry } from '../types';
 
 // A small fake project for the help guide to render its example panels against.
 //
@@ -73,6 +73,12 @@ export const demoAnnotatedTracks = new Set<string>([
   `${DEMO_ROOT}/2024-06-15/morning-08h.wav`,
 ]);
 
+/** Status records the file tree shows as badges. */
+export const demoTrackStatuses = new Map<string, TrackStatusEntry>([
+  [`${DEMO_ROOT}/2024-06-14/morning-08h.wav`, { status: 'done', by: 'LH', at: '2024-06-20T10:00:00.000Z' }],
+  [`${DEMO_ROOT}/2024-06-14/midday-12h.wav`, { status: 'needs-review', assignee: 'MK', by: 'LH', at: '2024-06-20T11:00:00.000Z' }],
+]);
+
 export const demoNonMediaFiles: string[] = [`${DEMO_ROOT}/2024-06-14/field-notes.txt`];
 
 export const DEMO_BIN_WIDTH = 0.96;
@@ -0,0 +1,226 @@
+// Detector output for the activation panel, from any supported model.
+//
+// The panel, subset mode, thresholds, conversion and evaluation all work on
+// one shape — BuzzdetectData, a regular grid of frames with one score per
+// class ("neuron") per frame — so supporting another detector means turning
+// its output into that grid. A project picks its detector's format
+// (ProjectSettings.detectorFormat) and every track's file is looked up in the
+// detector directory by ident:
+//
+//   buzzdetect  `{ident}_buzzdetect.csv`, already a frame grid of logits;
+//               parsed by `read_buzzdetect` on the Rust side.
+//   birdnet     `{ident}.BirdNET.selection.table.txt` (a Raven selection
+//               table) or `{ident}.BirdNET.results.csv`.
+//   long        `{ident}_detections.csv` with `start,end,class,score` columns.
+//
+// BirdNET and long-format files are event lists: one row per (window, class)
+// the model reported, and nothing for windows below its cutoff. They're laid
+// onto a grid here: the frame length is the finest spacing between window
+// starts (so overlapping windows keep their resolution) unless the project
+// pins one, a frame takes the highest score among a class's events covering
+// its midpoint, and frames no event covers score 0. Their scores are
+// confidences in [0, 1], not logits, so thresholds on them default to
+// DEFAULT_SCORE_THRESHOLD rather than the logit boundary — the grid carries
+// that default as `defaultThreshold`.
+
+import { BuzzdetectData, DetectorFormat } from '../types';
+import { DEFAULT_BUZZDETECT_THRESHOLD, DEFAULT_SCORE_THRESHOLD } from '../constants';
+import { parseRavenTable, RAVEN_BEGIN, RAVEN_END } from './ravenTable';
+import { readBuzzdetect, readTextFile } from './tauriCommands';
+
+/** Every format, in the order the project settings offer them. */
+export const DETECTOR_FORMATS: DetectorFormat[] = ['buzzdetect', 'birdnet', 'long'];
+
+/** One reported detection: `label` scored `score` over [start, end). */
+export interface DetectorEvent {
+  start: number;
+  end: number;
+  label: string;
+  score: number;
+}
+
+/** The file names a track's output may have, in the order they're tried. */
+export function detectorFileNames(format: DetectorFormat, ident: string): string[] {
+  switch (format) {
+    case 'buzzdetect': return [`${ident}_buzzdetect.csv`];
+    case 'birdnet': return [`${ident}.BirdNET.selection.table.txt`, `${ident}.BirdNET.results.csv`];
+    case 'long': return [`${ident}_detections.csv`];
+  }
+}
+
+/** The threshold a class starts at before the user sets one. */
+export const defaultThresholdOf = (data: BuzzdetectData | null | undefined): number =>
+  data?.defaultThreshold ?? DEFAULT_BUZZDETECT_THRESHOLD;
+
+const norm = (name: string): string => name.trim().toLowerCase();
+
+// One CSV line's fields; a double-quoted field may hold commas and "" escapes.
+function splitCsvLine(line: string): string[] {
+  const out: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else field += ch;
+    } else if (ch === '"') quoted = true;
+    else if (ch === ',') { out.push(field); field = ''; }
+    else field += ch;
+  }
+  out.push(field);
+  return out.map(f => f.trim());
+}
+
+// Header plus rows of a comma- or tab-delimited table, whichever the header uses.
+function parseDelimited(content: string): { columns: string[]; rows: string[][] } {
+  const lines = content.replace(/^\uFEFF/, '').split('\n').map(l => l.replace(/\r$/, '')).filter(l => l.trim() !== '');
+  if (lines.length === 0) return { columns: [], rows: [] };
+  const split = lines[0].includes('\t') ? (l: string) => l.split('\t').map(f => f.trim()) : splitCsvLine;
+  return { columns: split(lines[0]), rows: lines.slice(1).map(split) };
+}
+
+// Events from rows, given the column index of each field; `offset`, when
+// present, re-bases a row onto its own file (see parseBirdnetOutput).
+function eventsFromRows(
+  rows: string[][],
+  idx: { start: number; end: number; label: number; score: number; offset?: number },
+  describe: (row: number) => string,
+): DetectorEvent[] {
+  return rows.map((row, r) => {
+    let start = Number(row[idx.start]);
+    let end = Number(row[idx.end]);
+    const score = Number(row[idx.score]);
+    const label = row[idx.label] ?? '';
+    if (!Number.isFinite(start) || !Number.isFinite(end) || !Number.isFinite(score) || !label) {
+      throw new Error(`${describe(r)}: expected start, end, class and score`);
+    }
+    if (idx.offset !== undefined && idx.offset >= 0) {
+      const offset = Number(row[idx.offset]);
+      if (Number.isFinite(offset)) { end = offset + (end - start); start = offset; }
+    }
+    return { start, end, label, score };
+  });
+}
+
+// Index of the first of `names` the header has (case-insensitive), or -1.
+function findColumn(columns: string[], ...names: string[]): number {
+  for (const n of names) {
+    const i = columns.findIndex(c => norm(c) === norm(n));
+    if (i >= 0) return i;
+  }
+  return -1;
+}
+
+/**
+ * Events from BirdNET output: a selection table (tab-delimited, Raven's
+ * columns plus Common Name and Confidence) or a results CSV (Start (s),
+ * End (s), Common name, Confidence). In a table covering several files,
+ * Begin Time runs on across them and File Offset (s) is the row's time in its
+ * own file, so that's used when present.
+ */
+export function parseBirdnetOutput(content: string): DetectorEvent[] {
+  const raven = parseRavenTable(content);
+  if (raven) {
+    const columns = raven.columns;
+    const idx = {
+      start: findColumn(columns, RAVEN_BEGIN),
+      end: findColumn(columns, RAVEN_END),
+      label: findColumn(columns, 'Common Name', 'Species Code', 'Scientific Name'),
+      score: findColumn(columns, 'Confidence'),
+      offset: findColumn(columns, 'File Offset (s)'),
+    };
+    if (idx.label < 0 || idx.score < 0) throw new Error('selection table has no Common Name or Confidence column');
+    return eventsFromRows(raven.rows.map(r => columns.map(c => r[c])), idx, r => `selection ${r + 1}`);
+  }
+  const { columns, rows } = parseDelimited(content);
+  const idx = {
+    start: findColumn(columns, 'Start (s)', 'start'),
+    end: findColumn(columns, 'End (s)', 'end'),
+    label: findColumn(columns, 'Common name', 'Scientific name'),
+    score: findColumn(columns, 'Confidence'),
+  };
+  if (Object.values(idx).some(i => i < 0)) {
+    throw new Error('expected Start (s), End (s), Common name and Confidence columns');
+  }
+  return eventsFromRows(rows, idx, r => `row ${r + 2}`);
+}
+
+/** Events from a `start,end,class,score` table (comma or tab, any column order). */
+export function parseLongFormat(content: string): DetectorEvent[] {
+  const { columns, rows } = parseDelimited(content);
+  const idx = {
+    start: findColumn(columns, 'start'),
+    end: findColumn(columns, 'end'),
+    label: findColumn(columns, 'class'),
+    score: findColumn(columns, 'score'),
+  };
+  if (Object.values(idx).some(i => i < 0)) throw new Error('expected start, end, class and score columns');
+  return eventsFromRows(rows, idx, r => `row ${r + 2}`);
+}
+
+// Two starts closer than this are the same window (CSV round-off).
+const EPSILON = 1e-6;
+
+/**
+ * Lay events onto a frame grid from 0 to the last event's end (see the file
+ * comment). `frameLength`, when given, is used as the frame length as-is.
+ * Classes are in order of first appearance.
+ */
+export function eventsToFrames(events: DetectorEvent[], frameLength?: number): BuzzdetectData {
+  const neurons = [...new Set(events.map(e => e.label))];
+  let binWidth = frameLength;
+  if (binWidth === undefined) {
+    const starts = [...new Set(events.map(e => e.start))].sort((a, b) => a - b);
+    let finest = Infinity;
+    for (let i = 1; i < starts.length; i++) {
+      const gap = starts[i] - starts[i - 1];
+      if (gap > EPSILON && gap < finest) finest = gap;
+    }
+    for (const e of events) {
+      if (e.end - e.start > EPSILON && e.end - e.start < finest) finest = e.end - e.start;
+    }
+    if (events.length > 0 && !Number.isFinite(finest)) throw new Error('cannot infer a frame length from zero-length events');
+    binWidth = Number.isFinite(finest) ? finest : 0;
+  }
+  const lastEnd = events.reduce((m, e) => Math.max(m, e.end), 0);
+  const frames = binWidth > 0 ? Math.ceil(lastEnd / binWidth - EPSILON) : 0;
+  const starts = Array.from({ length: frames }, (_, i) => i * binWidth!);
+  const values = neurons.map(() => new Array<number>(frames).fill(0));
+  for (const e of events) {
+    const row = values[neurons.indexOf(e.label)];
+    // Frames whose midpoint (i + 0.5) * binWidth lies in [start, end).
+    const first = Math.max(0, Math.ceil(e.start / binWidth - 0.5 - EPSILON));
+    const last = Math.min(frames - 1, Math.ceil(e.end / binWidth - 0.5 - EPSILON) - 1);
+    for (let i = first; i <= last; i++) if (e.score > row[i]) row[i] = e.score;
+  }
+  return { binWidth, neurons, starts, values, defaultThreshold: DEFAULT_SCORE_THRESHOLD };
+}
+
+/**
+ * Read and grid one track's detector output from `dir`. Resolves to `null`
+ * when the track has no file in `format`; a file that doesn't parse rejects,
+ * naming it. `frameLength`, when given, overrides the inferred frame length.
+ */
+export async function readDetectorOutput(
+  dir: string,
+  ident: string,
+  format: DetectorFormat = 'buzzdetect',
+  frameLength?: number,
+): Promise<BuzzdetectData | null> {
+  if (format === 'buzzdetect') return readBuzzdetect(dir, ident, frameLength);
+  const base = dir.replace(/[/\\]+$/, '');
+  for (const name of detectorFileNames(format, ident)) {
+    const path = `${base}/${name}`;
+    const content = await readTextFile(path);
+    if (content === null) continue;
+    try {
+      const events = format === 'birdnet' ? parseBirdnetOutput(content) : parseLongFormat(content);
+      return eventsToFrames(events, frameLength);
+    } catch (err) {
+      throw new Error(`'${path}': ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+  return null;
+}
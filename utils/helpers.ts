@@ -93,7 +93,12 @@ export const generateId = (): string => {
   return Math.random().toString(36).substring(2, 9);
 };
 
-export const makeAnnotationFromTool = (tool: AnnotationTool, start: number, end: number): Annotation => {
+export const makeAnnotationFromTool = (
+  tool: AnnotationTool,
+  start: number,
+  end: number,
+  band?: { lowFreq: number; highFreq: number },
+): Annotation => {
   return {
     id: generateId(),
     start,
@@ -102,12 +107,20 @@ export const makeAnnotationFromTool = (tool: AnnotationTool, start: number, end:
     // name; any other tool stamps its own label (the tool link is the label).
     text: tool.key === '0' ? '' : tool.text,
     color: tool.color,
+    ...(band ? { lowFreq: band.lowFreq, highFreq: band.highFreq } : {}),
   };
 };
 
+// True when the annotation carries a frequency band and is drawn as a box
+// rather than a full-height time band.
+export const isBoxAnnotation = (a: Annotation): a is Annotation & { lowFreq: number; highFreq: number } =>
+  a.lowFreq !== undefined && a.highFreq !== undefined;
+
 // Calculate vertical dodging for overlapping annotations.
 // Returns new objects (inputs are never mutated) sorted by start time,
 // each with a layerIndex assigned by a greedy earliest-available-layer pass.
+// Box annotations sit at their own frequency band, so they take layer 0 and
+// never occupy a layer that a time-band annotation would have to dodge.
 export const calculateAnnotationLayers = (annotations: Annotation[]): AnnotationWithLayer[] => {
   const sorted = [...annotations].sort((a, b) => a.start - b.start);
 
@@ -116,6 +129,10 @@ export const calculateAnnotationLayers = (annotations: Annotation[]): Annotation
   const result: AnnotationWithLayer[] = [];
 
   for (const annotation of sorted) {
+    if (isBoxAnnotation(annotation)) {
+      result.push({ ...annotation, layerIndex: 0 });
+      continue;
+    }
     let layerIndex = layers.findIndex(end => end <= annotation.start);
     if (layerIndex === -1) {
       layerIndex = layers.length;
@@ -153,7 +170,7 @@ export function shuffleArray<T>(arr: T[]): T[] {
 }
 
 // Helper for file saving via Tauri native dialog
-const saveFile = async (
+export const saveFile = async (
     content: string,
     defaultPath: string,
     extension: string,
@@ -168,7 +185,7 @@ const saveFile = async (
 
 // Derives the default save path next to the source file.
 // trackPath is the absolute path, e.g. "/Users/luke/audio/bird.mp3"
-const defaultSavePath = (trackPath: string | null, filename: string, suffix: string, ext: string): string => {
+export const defaultSavePath = (trackPath: string | null, filename: string, suffix: string, ext: string): string => {
     const base = stripExt(filename);
     const outName = `${base}${suffix}${ext}`;
     if (trackPath) {
@@ -195,10 +212,27 @@ const roundToDecimals = (v: number, decimals: number): number => {
     return Math.round(v * factor) / factor;
 };
 
+// Audacity's spectral-selection extension: a label with a frequency range is
+// followed by a second row whose first field is a lone backslash, then the low
+// and high frequency in Hz (`\<TAB>2000.0<TAB>4000.0`). Audacity itself reads and
+// writes this form, so box annotations stay Audacity-compatible.
+const FREQUENCY_ROW_MARKER = '\\';
+
+// True for an Audacity frequency row (the continuation of the label above it).
+// Every line-level scan of annotation content must skip these: split on tabs
+// they look like a label whose "text" is the high frequency.
+export const isFrequencyRow = (line: string): boolean =>
+    line.split('\t')[0].trim() === FREQUENCY_ROW_MARKER;
+
 export const generateAudacityContent = (annotations: Annotation[], decimals: number = 7): string => {
     let content = "";
     annotations.forEach(a => {
         content += `${roundToDecimals(a.start, decimals).toFixed(decimals)}\t${roundToDecimals(a.end, decimals).toFixed(decimals)}\t${a.text}\n`;
+        if (isBoxAnnotation(a)) {
+            // Hz needs far less precision than seconds; one decimal is below
+            // any FFT bin width we'd ever draw at.
+            content += `${FREQUENCY_ROW_MARKER}\t${a.lowFreq.toFixed(1)}\t${a.highFreq.toFixed(1)}\n`;
+        }
     });
     return content;
 };
@@ -206,28 +240,44 @@ export const generateAudacityContent = (annotations: Annotation[], decimals: num
 // Parse Audacity TXT (tab-delimited: start \t end \t text) into annotations.
 // Pure: matches each row's text against `tools` to recover the owning tool's
 // color, falling back to white for a Custom (unmatched) label. Used by both the
-// auto-load effect and annotation import so the two never diverge.
+// auto-load effect and annotation import so the two never diverge. A
+// frequency row (see FREQUENCY_ROW_MARKER) attaches its band to the label
+// directly above it; one with no label above it, or with non-numeric bounds,
+// is ignored.
 export const parseAudacityContent = (
     content: string,
     tools: AnnotationTool[],
 ): Annotation[] => {
     const loaded: Annotation[] = [];
     const lines = content.trim().split('\n');
+    let previous: Annotation | null = null;
     for (const line of lines) {
         const parts = line.split('\t');
+        if (isFrequencyRow(line)) {
+            const low = parseFloat(parts[1]);
+            const high = parseFloat(parts[2]);
+            if (previous && !isNaN(low) && !isNaN(high)) {
+                previous.lowFreq = Math.min(low, high);
+                previous.highFreq = Math.max(low, high);
+            }
+            previous = null;
+            continue;
+        }
+        previous = null;
         if (parts.length >= 3) {
             const start = parseFloat(parts[0]);
             const end = parseFloat(parts[1]);
             const text = parts.slice(2).join('\t');
             if (!isNaN(start) && !isNaN(end)) {
                 const matchedTool = tools.find(t => t.text === text);
-                loaded.push({
+                previous = {
                     id: generateId(),
                     start,
                     end,
                     text,
                     color: matchedTool?.color ?? '#ffffff',
-                });
+                };
+                loaded.push(previous);
             }
         }
     }
@@ -290,6 +340,7 @@ export interface LabelLineMatch {
 export const matchingLinesInContent = (content: string, matcher: LabelMatcher): LabelLineMatch[] => {
     const matches: LabelLineMatch[] = [];
     for (const line of content.split('\n')) {
+        if (isFrequencyRow(line)) continue;
         const parts = line.split('\t');
         if (parts.length >= 3) {
             const label = parts.slice(2).join('\t');
@@ -305,7 +356,8 @@ export const matchingLinesInContent = (content: string, matcher: LabelMatcher):
 
 // Rewrite Audacity TXT lines whose label matches `oldText` exactly to
 // `newText`. Pure — shared by tool rename and mass rename so the on-disk
-// rewrite logic exists in one place.
+// rewrite logic exists in one place. Frequency rows pass through untouched, so
+// a box keeps its band across a rename.
 export const renameLabelInContent = (
     content: string,
     oldText: string,
@@ -313,6 +365,7 @@ export const renameLabelInContent = (
 ): { updated: string; changed: boolean; count: number } => {
     let count = 0;
     const lines = content.split('\n').map(line => {
+        if (isFrequencyRow(line)) return line;
         const parts = line.split('\t');
         if (parts.length >= 3 && parts.slice(2).join('\t') === oldText) {
             count++;
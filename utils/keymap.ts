@@ -0,0 +1,429 @@
+// The keymap: every app-level keyboard shortcut as a named action with default
+// chords, and the per-user overrides layered on top (AppSettings.keymap,
+// machine-wide — see utils/keymapStore.ts for loading and saving).
+//
+// Hooks don't spell out keys any more; they ask for an action's bindings with
+// `bindAction(keymap, 'undo', handler)`. Action ids are the stable names an
+// exported keymap file uses, so renaming one orphans users' overrides for it.
+//
+// A few shortcuts aren't remappable: the tool digits (the tools' own hotkeys
+// are per-project, see utils/annotationTools.ts) and the hold-to-show keys,
+// which aren't keydown shortcuts at all. They're listed as RESERVED so the
+// editor can show them and refuse chords that would collide with them.
+
+import type { HotkeyBinding, HotkeyMod } from '../hooks/useHotkeys';
+import { MOD_TOKEN } from './platform';
+
+/** One key plus the exact modifiers held with it (HotkeyBinding's key/mods). */
+export interface Chord {
+  key: string;
+  mods?: HotkeyMod[];
+}
+
+export type KeymapGroup = 'playback' | 'navigation' | 'tools' | 'annotations' | 'app';
+
+export const KEYMAP_GROUPS: readonly KeymapGroup[] = ['playback', 'navigation', 'tools', 'annotations', 'app'];
+
+export type KeymapActionId =
+  | 'playPause' | 'toggleSpeed' | 'toggleMute'
+  | 'scrubBack' | 'scrubForward' | 'frameBack' | 'frameForward' | 'togglePlayheadLock'
+  | 'trackStart' | 'trackEnd' | 'prevAnnotation' | 'nextAnnotation' | 'prevTrack' | 'nextTrack'
+  | 'cycleTrackStatus'
+  | 'zoomIn' | 'zoomOut' | 'zoomFit'
+  | 'selectMode' | 'toggleSubset' | 'playExample' | 'filterTool' | 'toggleFilter'
+  | 'videoZoomTool' | 'toggleVideoZoom' | 'videoZoomIn' | 'videoZoomOut' | 'videoRegionTool' | 'undoLayer'
+  | 'selectAll' | 'deleteAnnotation' | 'undo' | 'redo'
+  | 'reviewAccept' | 'reviewReject' | 'reviewReplay' | 'reviewPrev' | 'reviewNext'
+  | 'openHelp';
+
+export interface KeymapAction {
+  id: KeymapActionId;
+  group: KeymapGroup;
+  defaults: Chord[];
+}
+
+/** Shortcuts the keymap shows but doesn't let the user rebind. */
+export type ReservedShortcutId = 'readyTool' | 'hideLabels' | 'quickTooltips';
+
+export interface ReservedShortcut {
+  id: ReservedShortcutId;
+  group: KeymapGroup;
+  chords: Chord[];
+}
+
+/** Every remappable action, in the order the shortcuts view lists them. */
+export const KEYMAP_ACTIONS: readonly KeymapAction[] = [
+  { id: 'playPause', group: 'playback', defaults: [{ key: ' ' }] },
+  { id: 'toggleSpeed', group: 'playback', defaults: [{ key: 'r' }] },
+  { id: 'toggleMute', group: 'playback', defaults: [{ key: 'm' }] },
+
+  { id: 'scrubBack', group: 'navigation', defaults: [{ key: 'ArrowLeft' }] },
+  { id: 'scrubForward', group: 'navigation', defaults: [{ key: 'ArrowRight' }] },
+  { id: 'frameBack', group: 'navigation', defaults: [{ key: ',' }] },
+  { id: 'frameForward', group: 'navigation', defaults: [{ key: '.' }] },
+  { id: 'togglePlayheadLock', group: 'navigation', defaults: [{ key: 'c' }] },
+  { id: 'trackStart', group: 'navigation', defaults: [{ key: 'ArrowLeft', mods: ['mod'] }] },
+  { id: 'trackEnd', group: 'navigation', defaults: [{ key: 'ArrowRight', mods: ['mod'] }] },
+  { id: 'prevAnnotation', group: 'navigation', defaults: [{ key: 'ArrowLeft', mods: ['alt'] }] },
+  { id: 'nextAnnotation', group: 'navigation', defaults: [{ key: 'ArrowRight', mods: ['alt'] }] },
+  { id: 'prevTrack', group: 'navigation', defaults: [{ key: 'ArrowUp', mods: ['mod'] }] },
+  { id: 'nextTrack', group: 'navigation', defaults: [{ key: 'ArrowDown', mods: ['mod'] }] },
+  { id: 'cycleTrackStatus', group: 'navigation', defaults: [{ key: 'd', mods: ['mod'] }] },
+  { id: 'zoomIn', group: 'navigation', defaults: [{ key: '=', mods: ['mod'] }, { key: '+', mods: ['mod', 'shift'] }] },
+  { id: 'zoomOut', group: 'navigation', defaults: [{ key: '-', mods: ['mod'] }] },
+  { id: 'zoomFit', group: 'navigation', defaults: [{ key: '0', mods: ['mod'] }] },
+
+  { id: 'selectMode', group: 'tools', defaults: [{ key: 's' }] },
+  { id: 'toggleSubset', group: 'tools', defaults: [{ key: 's', mods: ['shift'] }] },
+  { id: 'playExample', group: 'tools', defaults: [{ key: 'e' }] },
+  { id: 'filterTool', group: 'tools', defaults: [{ key: 'f', mods: ['shift'] }] },
+  { id: 'toggleFilter', group: 'tools', defaults: [{ key: 'f' }] },
+  { id: 'videoZoomTool', group: 'tools', defaults: [{ key: 'z', mods: ['shift'] }] },
+  { id: 'toggleVideoZoom', group: 'tools', defaults: [{ key: 'z' }] },
+  { id: 'videoZoomIn', group: 'tools', defaults: [{ key: '=' }, { key: '+' }] },
+  { id: 'videoZoomOut', group: 'tools', defaults: [{ key: '-' }] },
+  { id: 'videoRegionTool', group: 'tools', defaults: [{ key: 'b', mods: ['shift'] }] },
+  { id: 'undoLayer', group: 'tools', defaults: [{ key: 'Escape' }] },
+
+  { id: 'selectAll', group: 'annotations', defaults: [{ key: 'a', mods: ['mod'] }] },
+  { id: 'deleteAnnotation', group: 'annotations', defaults: [{ key: 'Delete' }, { key: 'Backspace' }] },
+  { id: 'undo', group: 'annotations', defaults: [{ key: 'z', mods: ['mod'] }] },
+  { id: 'redo', group: 'annotations', defaults: [{ key: 'z', mods: ['mod', 'shift'] }, { key: 'y', mods: ['mod'] }] },
+  // Only bound while the review panel is open.
+  { id: 'reviewAccept', group: 'annotations', defaults: [{ key: 'y' }] },
+  { id: 'reviewReject', group: 'annotations', defaults: [{ key: 'n' }] },
+  { id: 'reviewReplay', group: 'annotations', defaults: [{ key: 'p' }] },
+  { id: 'reviewPrev', group: 'annotations', defaults: [{ key: '[' }] },
+  { id: 'reviewNext', group: 'annotations', defaults: [{ key: ']' }] },
+
+  { id: 'openHelp', group: 'app', defaults: [{ key: 'F1' }] },
+];
+
+export const RESERVED_SHORTCUTS: readonly ReservedShortcut[] = [
+  // 'Digit' is useHotkeys' any-digit key; Alt+digit readies a tool too. The
+  // Shift and mod banks are further tool slots (see utils/annotationTools.ts),
+  // 1–9 only for mod, since mod+0 stays zoom-to-fit.
+  { id: 'readyTool', group: 'tools', chords: [
+    { key: 'Digit' }, { key: 'Digit', mods: ['alt'] }, { key: 'Digit', mods: ['shift'] }, { key: 'Digit1to9', mods: ['mod'] },
+  ] },
+  { id: 'hideLabels', group: 'tools', chords: [{ key: 'h' }] },
+  { id: 'quickTooltips', group: 'app', chords: [{ key: '/' }] },
+];
+
+const ACTION_BY_ID = new Map(KEYMAP_ACTIONS.map(a => [a.id, a]));
+
+export const isKeymapActionId = (id: string): id is KeymapActionId => ACTION_BY_ID.has(id as KeymapActionId);
+
+/**
+ * The user's changes to the defaults: an action's full chord list, replacing
+ * its defaults (empty = unbound). Actions not listed keep their defaults.
+ */
+export type KeymapOverrides = Partial<Record<KeymapActionId, Chord[]>>;
+
+/** Every action's effective chords. */
+export type Keymap = Record<KeymapActionId, Chord[]>;
+
+const MOD_ORDER: HotkeyMod[] = ['mod', 'shift', 'alt'];
+
+/** Letters compare case-insensitively, like useHotkeys' matching; mods as a set. */
+const normalizeChord = (c: Chord): Chord => {
+  const mods = MOD_ORDER.filter(m => c.mods?.includes(m));
+  const key = c.key.length === 1 ? c.key.toLowerCase() : c.key;
+  return mods.length > 0 ? { key, mods } : { key };
+};
+
+const isDigitKey = (key: string) => /^[0-9]$/.test(key);
+
+// Reserved-chord wildcards: 'Digit' (useHotkeys' own) and 'Digit1to9'.
+const DIGIT_WILDCARDS: Record<string, string[]> = {
+  Digit: ['0', '1', '2', '3', '4', '5', '6', '7', '8', '9'],
+  Digit1to9: ['1', '2', '3', '4', '5', '6', '7', '8', '9'],
+};
+
+const digitsOf = (key: string): string[] => DIGIT_WILDCARDS[key] ?? (isDigitKey(key) ? [key] : []);
+
+/** Whether two chords fire on the same keypress ('Digit' overlaps every digit). */
+export const chordsEqual = (a: Chord, b: Chord): boolean => {
+  const na = normalizeChord(a);
+  const nb = normalizeChord(b);
+  const keysMatch = na.key === nb.key || digitsOf(na.key).some(d => digitsOf(nb.key).includes(d));
+  return keysMatch && (na.mods ?? []).join() === (nb.mods ?? []).join();
+};
+
+const sameChordList = (a: Chord[], b: Chord[]) =>
+  a.length === b.length && a.every((c, i) => chordsEqual(c, b[i]));
+
+/**
+ * Apply `overrides` to the defaults. A chord the user gave one action is
+ * dropped from any other action that only has it by default, so choosing a
+ * key never leaves it doing two things; two overrides that collide (e.g. from
+ * an imported file) are left for keymapConflicts to report.
+ */
+export function resolveKeymap(overrides: KeymapOverrides): Keymap {
+  const chosen: Chord[] = [];
+  for (const a of KEYMAP_ACTIONS) chosen.push(...(overrides[a.id] ?? []));
+  const keymap = {} as Keymap;
+  for (const a of KEYMAP_ACTIONS) {
+    const own = overrides[a.id];
+    keymap[a.id] = own
+      ? own.map(normalizeChord)
+      : a.defaults.filter(d => !chosen.some(c => chordsEqual(c, d))).map(normalizeChord);
+  }
+  return keymap;
+}
+
+/** A default chord an action has lost to another action's override. */
+export interface ShadowedDefault {
+  id: KeymapActionId;
+  chord: Chord;
+  /** The action the user gave the chord to. */
+  by: KeymapActionId;
+}
+
+/**
+ * Default chords `resolveKeymap` drops because the user gave them to another
+ * action — typically a key bound before a newer version made it some new
+ * action's default. The override wins; this is what the UI reports so the
+ * action without its key isn't a silent surprise.
+ */
+export function shadowedDefaults(overrides: KeymapOverrides): ShadowedDefault[] {
+  const out: ShadowedDefault[] = [];
+  for (const a of KEYMAP_ACTIONS) {
+    if (overrides[a.id]) continue;
+    for (const d of a.defaults) {
+      const by = KEYMAP_ACTIONS.find(o => o.id !== a.id && (overrides[o.id] ?? []).some(c => chordsEqual(c, d)));
+      if (by) out.push({ id: a.id, chord: normalizeChord(d), by: by.id });
+    }
+  }
+  return out;
+}
+
+export interface KeymapConflict {
+  chord: Chord;
+  /** The actions (and reserved shortcuts) the chord is bound to, two or more. */
+  ids: (KeymapActionId | ReservedShortcutId)[];
+}
+
+/** Chords bound to more than one action, or to an action and a reserved shortcut. */
+export function keymapConflicts(keymap: Keymap): KeymapConflict[] {
+  const entries: { chord: Chord; id: KeymapActionId | ReservedShortcutId }[] = [
+    ...RESERVED_SHORTCUTS.flatMap(r => r.chords.map(chord => ({ chord, id: r.id }))),
+    ...KEYMAP_ACTIONS.flatMap(a => keymap[a.id].map(chord => ({ chord, id: a.id }))),
+  ];
+  const conflicts: KeymapConflict[] = [];
+  for (let i = 0; i < entries.length; i++) {
+    const { chord, id } = entries[i];
+    if (conflicts.some(c => chordsEqual(c.chord, chord))) continue;
+    const ids = [id];
+    for (let j = i + 1; j < entries.length; j++) {
+      if (chordsEqual(entries[j].chord, chord) && !ids.includes(entries[j].id)) ids.push(entries[j].id);
+    }
+    if (ids.length > 1) conflicts.push({ chord, ids });
+  }
+  return conflicts;
+}
+
+/** The reserved shortcut `chord` would collide with, if any. */
+export const reservedShortcutFor = (chord: Chord): ReservedShortcutId | null =>
+  RESERVED_SHORTCUTS.find(r => r.chords.some(c => chordsEqual(c, chord)))?.id ?? null;
+
+/** Drop overrides that just restate an action's defaults. */
+export function compactOverrides(overrides: KeymapOverrides): KeymapOverrides {
+  const out: KeymapOverrides = {};
+  for (const a of KEYMAP_ACTIONS) {
+    const own = overrides[a.id];
+    if (own && !sameChordList(own.map(normalizeChord), a.defaults.map(normalizeChord))) out[a.id] = own.map(normalizeChord);
+  }
+  return out;
+}
+
+/**
+ * Bind `chord` to action `id`, replacing its chord at `index` or adding it
+ * (index null). The chord is taken away from any other action that had it;
+ * those actions are returned so the editor can say so.
+ */
+export function assignChord(
+  overrides: KeymapOverrides,
+  id: KeymapActionId,
+  chord: Chord,
+  index: number | null,
+): { overrides: KeymapOverrides; reassignedFrom: KeymapActionId[] } {
+  const keymap = resolveKeymap(overrides);
+  const own = [...keymap[id]];
+  if (index === null || index >= own.length) own.push(chord);
+  else own[index] = chord;
+  const next: KeymapOverrides = { ...overrides, [id]: own.filter((c, i) => own.findIndex(o => chordsEqual(o, c)) === i) };
+  const reassignedFrom: KeymapActionId[] = [];
+  for (const a of KEYMAP_ACTIONS) {
+    if (a.id === id || !keymap[a.id].some(c => chordsEqual(c, chord))) continue;
+    next[a.id] = keymap[a.id].filter(c => !chordsEqual(c, chord));
+    reassignedFrom.push(a.id);
+  }
+  return { overrides: compactOverrides(next), reassignedFrom };
+}
+
+/** Remove action `id`'s chord at `index` (leaving it unbound if it was the last). */
+export function removeChord(overrides: KeymapOverrides, id: KeymapActionId, index: number): KeymapOverrides {
+  const own = resolveKeymap(overrides)[id].filter((_, i) => i !== index);
+  return compactOverrides({ ...overrides, [id]: own });
+}
+
+/** Put action `id` back on its defaults. */
+export function resetAction(overrides: KeymapOverrides, id: KeymapActionId): KeymapOverrides {
+  const next = { ...overrides };
+  delete next[id];
+  return next;
+}
+
+/** One HotkeyBinding per chord of action `id`, all calling `handler`. */
+export function bindAction(
+  keymap: Keymap,
+  id: KeymapActionId,
+  handler: HotkeyBinding['handler'],
+  options: Omit<HotkeyBinding, 'key' | 'mods' | 'handler'> = {},
+): HotkeyBinding[] {
+  return keymap[id].map(c => ({ ...options, key: c.key, mods: c.mods, handler }));
+}
+
+// Keys whose KeyboardEvent.key isn't what a person would call them.
+const KEY_NAMES: Record<string, string> = {
+  ' ': 'Space',
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  Escape: 'Esc',
+  Delete: 'Del',
+  Backspace: 'Bksp',
+  Enter: '↵',
+  '+': 'Plus',
+  Digit: '0–9',
+  Digit1to9: '1–9',
+};
+
+/** Display form of `chord`, e.g. "{mod}+Shift+Z" — resolve `{mod}` with formatModKey. */
+export function formatChord(chord: Chord): string {
+  const parts: string[] = [];
+  if (chord.mods?.includes('mod')) parts.push(MOD_TOKEN);
+  if (chord.mods?.includes('shift')) parts.push('Shift');
+  if (chord.mods?.includes('alt')) parts.push('Alt');
+  parts.push(KEY_NAMES[chord.key] ?? (chord.key.length === 1 ? chord.key.toUpperCase() : chord.key));
+  return parts.join('+');
+}
+
+// KeyboardEvent.code of the physical key for non-letter, non-digit keys, for
+// lighting up the on-screen keyboard.
+const KEY_CODES: Record<string, string[]> = {
+  ' ': ['Space'],
+  ',': ['Comma'],
+  '.': ['Period'],
+  '/': ['Slash'],
+  '?': ['Slash'],
+  '=': ['Equal'],
+  '+': ['Equal'],
+  '-': ['Minus'],
+  '_': ['Minus'],
+  ';': ['Semicolon'],
+  "'": ['Quote'],
+  '`': ['Backquote'],
+  '[': ['BracketLeft'],
+  ']': ['BracketRight'],
+  '\\': ['Backslash'],
+  Digit: DIGIT_WILDCARDS.Digit.map(d => `Digit${d}`),
+  Digit1to9: DIGIT_WILDCARDS.Digit1to9.map(d => `Digit${d}`),
+};
+
+/** KeyboardEvent.code values of the (non-modifier) key `chord` is pressed with. */
+export function codesForChord(chord: Chord): string[] {
+  const key = chord.key;
+  if (KEY_CODES[key]) return KEY_CODES[key];
+  if (/^[a-z]$/i.test(key)) return [`Key${key.toUpperCase()}`];
+  if (isDigitKey(key)) return [`Digit${key}`];
+  return [key];
+}
+
+const MODIFIER_KEYS = new Set(['Shift', 'Control', 'Alt', 'Meta', 'AltGraph', 'CapsLock', 'Fn', 'OS']);
+
+/**
+ * The chord a keydown records, or null for a lone modifier press (still
+ * waiting for the real key) or a combination useHotkeys can't match — the
+ * platform's non-primary Ctrl/⌘ has no place in a binding.
+ */
+export function chordFromEvent(
+  e: Pick<KeyboardEvent, 'key' | 'code' | 'shiftKey' | 'altKey' | 'ctrlKey' | 'metaKey'>,
+  mac: boolean,
+): Chord | null {
+  if (MODIFIER_KEYS.has(e.key)) return null;
+  const hasMod = mac ? e.metaKey : e.ctrlKey;
+  const otherMod = mac ? e.ctrlKey : e.metaKey;
+  if (otherMod) return null;
+  const mods: HotkeyMod[] = [];
+  if (hasMod) mods.push('mod');
+  if (e.shiftKey) mods.push('shift');
+  if (e.altKey) mods.push('alt');
+  // Alt rewrites e.key on macOS (Alt+3 → "£"), and Shift does for digits
+  // (Shift+3 → "#"); record what's printed on the key.
+  let key = e.key;
+  if ((e.altKey || e.shiftKey) && /^Digit[0-9]$/.test(e.code)) key = e.code.slice(-1);
+  else if (e.altKey && /^Key[A-Z]$/.test(e.code)) key = e.code.slice(-1).toLowerCase();
+  return normalizeChord({ key, mods });
+}
+
+// ── Keymap files ────────────────────────────────────────────────────────────
+
+const KEYMAP_FILE_VERSION = 1;
+
+/**
+ * A keymap file: every action's chords, not just the overrides, so a file
+ * shared between machines reads the same whatever their defaults were.
+ */
+export function keymapToJson(overrides: KeymapOverrides): string {
+  return JSON.stringify({ version: KEYMAP_FILE_VERSION, keymap: resolveKeymap(overrides) }, null, 2);
+}
+
+const isChord = (v: unknown): v is Chord => {
+  if (typeof v !== 'object' || v === null) return false;
+  const { key, mods } = v as { key?: unknown; mods?: unknown };
+  if (typeof key !== 'string' || key.length === 0) return false;
+  if (mods === undefined) return true;
+  return Array.isArray(mods) && mods.every(m => MOD_ORDER.includes(m as HotkeyMod));
+};
+
+/**
+ * Overrides from a keymap file. Actions the file leaves out keep their
+ * defaults and unknown action ids are skipped (a file from a newer version);
+ * anything malformed throws with a message fit to show the user.
+ */
+export function keymapFromJson(text: string): KeymapOverrides {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('Not a JSON file');
+  }
+  const keymap = (parsed as { keymap?: unknown } | null)?.keymap;
+  if (typeof keymap !== 'object' || keymap === null || Array.isArray(keymap)) {
+    throw new Error('No "keymap" object in the file');
+  }
+  const overrides: KeymapOverrides = {};
+  for (const [id, chords] of Object.entries(keymap)) {
+    if (!isKeymapActionId(id)) continue;
+    if (!Array.isArray(chords) || !chords.every(isChord)) {
+      throw new Error(`Invalid shortcut for "${id}"`);
+    }
+    overrides[id] = chords.map(c => normalizeChord({ key: c.key, mods: c.mods }));
+  }
+  // A file lists every action, including one whose default was taken by
+  // another action's override (see shadowedDefaults) and so reads as empty.
+  // That is what the action resolves to anyway, not a choice to unbind it,
+  // so it isn't kept as an override — it gets its key back if the other
+  // action's override is later removed.
+  const compact = compactOverrides(overrides);
+  for (const a of KEYMAP_ACTIONS) {
+    const own = compact[a.id];
+    if (!own) continue;
+    const { [a.id]: _own, ...others } = compact;
+    if (sameChordList(own, resolveKeymap(others)[a.id])) delete compact[a.id];
+  }
+  return compact;
+}
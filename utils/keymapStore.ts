@@ -0,0 +1,68 @@
+import { useEffect, useMemo, useReducer } from 'react';
+import { Keymap, KeymapOverrides, compactOverrides, resolveKeymap } from './keymap';
+import { readAppSettings, updateAppSettings } from './projectCommands';
+
+// The live keymap overrides, shared by every hook that binds a shortcut.
+//
+// Overrides live in AppSettings (one file per machine), read once on first
+// use. The shortcut editor runs in the help window, a separate webview, so a
+// change is also broadcast — the same BroadcastChannel approach as
+// copy/overrideStore.ts — and every open window rebinds at once.
+
+const keymapChannel: BroadcastChannel | null =
+  typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel('seenote-keymap') : null;
+
+let _overrides: KeymapOverrides = {};
+let _listeners: Array<() => void> = [];
+let _loadStarted = false;
+
+function notify() {
+  _listeners.forEach(l => l());
+}
+
+keymapChannel?.addEventListener('message', (e) => {
+  if (e.data?.type === 'keymap') {
+    _overrides = e.data.overrides as KeymapOverrides;
+    notify();
+  }
+});
+
+function ensureLoaded() {
+  if (_loadStarted) return;
+  _loadStarted = true;
+  readAppSettings()
+    .then(s => {
+      _overrides = compactOverrides(s.keymap ?? {});
+      notify();
+    })
+    .catch(() => {});
+}
+
+export function getKeymapOverrides(): KeymapOverrides {
+  return _overrides;
+}
+
+/** Replace the overrides: applied here, broadcast to the other windows, and saved. */
+export async function setKeymapOverrides(overrides: KeymapOverrides): Promise<void> {
+  _overrides = compactOverrides(overrides);
+  notify();
+  keymapChannel?.postMessage({ type: 'keymap', overrides: _overrides });
+  await updateAppSettings({ keymap: _overrides });
+}
+
+/** The current overrides, re-rendering the caller when they change. */
+export function useKeymapOverrides(): KeymapOverrides {
+  const [, bump] = useReducer((x: number) => x + 1, 0);
+  useEffect(() => {
+    _listeners.push(bump);
+    ensureLoaded();
+    return () => { _listeners = _listeners.filter(l => l !== bump); };
+  }, []);
+  return _overrides;
+}
+
+/** The resolved keymap (defaults plus overrides), for building hotkey bindings. */
+export function useKeymap(): Keymap {
+  const overrides = useKeymapOverrides();
+  return useMemo(() => resolveKeymap(overrides), [overrides]);
+}
@@ -120,6 +120,9 @@ export interface LiveHandlers {
   openToolSettings(): void;
   openMassRename(): void;
   openFindLabel(): void;
+  openExportAnnotations(): void;
+  openAnnotationStats(): void;
+  openLabelSubset(): void;
   editTool(index: number): void;
   requestDeleteTool(index: number): void;
   playExample(toolId: string): void;
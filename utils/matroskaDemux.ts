@@ -0,0 +1,567 @@
+// Matroska / WebM demuxing for the frame-accurate video path.
+//
+// VideoFrameSource feeds a WebCodecs VideoDecoder from a table of encoded
+// samples (utils/videoIndex.ts). For MP4/MOV that table comes from
+// utils/mp4Index.ts; for Matroska (.mkv) and WebM (.webm, a Matroska subset)
+// it comes from here. This is an index parser, not a general Matroska reader:
+// it walks the EBML tree once, takes the first video track's codec setup from
+// Tracks, and lists every one of its frames from the Clusters as a byte range
+// into the file — the bytes are read later, only for the frames a decode
+// actually needs.
+//
+// The walk reads by range too. Elements outside the Clusters are small and
+// read whole; Clusters are scanned a window at a time, so neither a long
+// Cluster nor an unknown-size one is ever loaded in full. Matroska has no
+// frame table to read instead, so indexing does pass over every Cluster once.
+//
+// Matroska stores blocks in DECODE order with PRESENTATION timestamps, the
+// same split mp4box's samples have (decode-order index, `cts`), so the
+// sample table keeps file order and VideoFrameSource's GOP/B-frame logic
+// applies unchanged. Times are in the segment's TimestampScale ticks, with
+// `timescale` ticks per second.
+//
+// Handled: SimpleBlocks and BlockGroups, all three lacing schemes, and
+// unknown-size Segments and Clusters (what MediaRecorder and many cameras
+// write while recording). A file cut short mid-cluster keeps the frames that
+// arrived whole. Not handled: ContentEncoding (compressed or encrypted
+// tracks), which is rejected rather than mis-decoded.
+
+import type { ByteSource, VideoIndex } from './videoIndex';
+
+const ID = {
+  EBML: 0x1a45dfa3,
+  DocType: 0x4282,
+  Segment: 0x18538067,
+  Info: 0x1549a966,
+  TimestampScale: 0x2ad7b1,
+  Duration: 0x4489,
+  Tracks: 0x1654ae6b,
+  TrackEntry: 0xae,
+  TrackNumber: 0xd7,
+  TrackType: 0x83,
+  CodecID: 0x86,
+  CodecPrivate: 0x63a2,
+  DefaultDuration: 0x23e383,
+  ContentEncodings: 0x6d80,
+  Video: 0xe0,
+  PixelWidth: 0xb0,
+  PixelHeight: 0xba,
+  Cluster: 0x1f43b675,
+  Timestamp: 0xe7,
+  SimpleBlock: 0xa3,
+  BlockGroup: 0xa0,
+  Block: 0xa1,
+  BlockDuration: 0x9b,
+  ReferenceBlock: 0xfb,
+} as const;
+
+// Elements that can only appear directly under the Segment. Inside an
+// unknown-size element, meeting one of these means that element has ended.
+const SEGMENT_LEVEL = new Set<number>([
+  ID.Cluster, ID.Info, ID.Tracks, 0x114d9b74 /* SeekHead */, 0x1c53bb6b /* Cues */,
+  0x1254c367 /* Tags */, 0x1043a770 /* Chapters */, 0x1941a469 /* Attachments */,
+]);
+
+const TRACK_TYPE_VIDEO = 1;
+const DEFAULT_TIMESTAMP_SCALE = 1_000_000; // ns per tick: milliseconds
+// The longest element header: a 4-byte ID and an 8-byte size.
+const HEADER_READ_BYTES = 12;
+const CLUSTER_READ_BYTES = 4 * 1024 * 1024;
+
+/** True when `bytes` starts with the EBML magic, i.e. is Matroska or WebM. */
+export function isMatroska(bytes: Uint8Array): boolean {
+  return bytes.length >= 4 && bytes[0] === 0x1a && bytes[1] === 0x45 && bytes[2] === 0xdf && bytes[3] === 0xa3;
+}
+
+interface Header {
+  id: number;
+  /** Where the element's data starts. */
+  start: number;
+  /** Where it ends: clamped to the enclosing limit, which an unknown size is too. */
+  end: number;
+  unknownSize: boolean;
+  /** Whether the element claims to run past the enclosing limit (a cut-short file). */
+  truncated: boolean;
+}
+
+// Reads EBML out of a span of the file. Positions are file offsets: `bytes`
+// holds the file from `base` on.
+class Reader {
+  constructor(readonly bytes: Uint8Array, readonly base = 0) {}
+
+  /** Where the loaded span ends. */
+  get end(): number {
+    return this.base + this.bytes.length;
+  }
+
+  byte(pos: number): number | undefined {
+    return this.bytes[pos - this.base];
+  }
+
+  slice(start: number, end: number): Uint8Array {
+    return this.bytes.slice(start - this.base, end - this.base);
+  }
+
+  private vintLength(pos: number, max: number): number {
+    const first = this.byte(pos);
+    if (first === undefined) throw new Error(`unexpected end of file at byte ${pos}`);
+    for (let len = 1; len <= max; len++) if (first & (0x80 >> (len - 1))) return len;
+    throw new Error(`invalid EBML number at byte ${pos}`);
+  }
+
+  /** An element ID (marker bits kept, as IDs are written) and its length. */
+  readId(pos: number): { id: number; len: number } {
+    const len = this.vintLength(pos, 4);
+    let id = 0;
+    for (let i = 0; i < len; i++) {
+      const b = this.byte(pos + i);
+      if (b === undefined) throw new Error(`unexpected end of file at byte ${pos + i}`);
+      id = id * 256 + b;
+    }
+    return { id, len };
+  }
+
+  /** A size/number (marker bit removed); null value for the all-ones "unknown". */
+  readVint(pos: number): { value: number | null; len: number } {
+    const len = this.vintLength(pos, 8);
+    let value = this.byte(pos)! & (0xff >> len);
+    let allOnes = value === (0xff >> len);
+    for (let i = 1; i < len; i++) {
+      const b = this.byte(pos + i);
+      if (b === undefined) throw new Error(`unexpected end of file at byte ${pos + i}`);
+      value = value * 256 + b;
+      if (b !== 0xff) allOnes = false;
+    }
+    return { value: allOnes ? null : value, len };
+  }
+
+  header(pos: number, limit: number): Header {
+    const { id, len: idLen } = this.readId(pos);
+    const { value: size, len: sizeLen } = this.readVint(pos + idLen);
+    const start = pos + idLen + sizeLen;
+    const end = size === null ? limit : start + size;
+    return { id, start, end: Math.min(end, limit), unknownSize: size === null, truncated: end > limit };
+  }
+
+  /** `header`, or null where a file cut short ends partway through one. */
+  tryHeader(pos: number, limit: number): Header | null {
+    try {
+      return this.header(pos, limit);
+    } catch {
+      return null;
+    }
+  }
+
+  uint(h: Header): number {
+    let v = 0;
+    for (let i = h.start; i < h.end; i++) v = v * 256 + this.byte(i)!;
+    return v;
+  }
+
+  float(h: Header): number {
+    if (h.end - h.start !== 4 && h.end - h.start !== 8) return 0;
+    const view = new DataView(this.bytes.buffer, this.bytes.byteOffset + h.start - this.base, h.end - h.start);
+    return h.end - h.start === 4 ? view.getFloat32(0) : view.getFloat64(0);
+  }
+
+  string(h: Header): string {
+    let s = '';
+    for (let i = h.start; i < h.end && this.byte(i) !== 0; i++) s += String.fromCharCode(this.byte(i)!);
+    return s;
+  }
+
+  /** The children of [start, end). */
+  *children(start: number, end: number): Generator<Header> {
+    let pos = start;
+    while (pos < end) {
+      const h = this.header(pos, end);
+      yield h;
+      if (h.unknownSize) return; // ran to `end`; the caller resumes from there
+      pos = h.end;
+    }
+  }
+}
+
+interface TrackInfo {
+  number: number;
+  type: number;
+  codecId: string;
+  codecPrivate?: Uint8Array;
+  defaultDurationNs?: number;
+  width: number;
+  height: number;
+  encoded: boolean;
+}
+
+function parseTrackEntry(r: Reader, entry: Header): TrackInfo {
+  const t: TrackInfo = { number: 0, type: 0, codecId: '', width: 0, height: 0, encoded: false };
+  for (const h of r.children(entry.start, entry.end)) {
+    switch (h.id) {
+      case ID.TrackNumber: t.number = r.uint(h); break;
+      case ID.TrackType: t.type = r.uint(h); break;
+      case ID.CodecID: t.codecId = r.string(h); break;
+      case ID.CodecPrivate: t.codecPrivate = r.slice(h.start, h.end); break;
+      case ID.DefaultDuration: t.defaultDurationNs = r.uint(h); break;
+      case ID.ContentEncodings: t.encoded = true; break;
+      case ID.Video:
+        for (const v of r.children(h.start, h.end)) {
+          if (v.id === ID.PixelWidth) t.width = r.uint(v);
+          else if (v.id === ID.PixelHeight) t.height = r.uint(v);
+        }
+        break;
+    }
+  }
+  return t;
+}
+
+interface RawFrame {
+  cts: number;
+  /** Block-level duration in ticks, when the file gives one. */
+  duration?: number;
+  isSync: boolean;
+  offset: number;
+  size: number;
+}
+
+/**
+ * The frames in one (Simple)Block's data, if it belongs to `track`. Laced
+ * frames after the first are spaced by the track's frame duration.
+ */
+function parseBlock(
+  r: Reader,
+  block: Header,
+  track: number,
+  clusterTs: number,
+  keyframe: (flags: number) => boolean,
+  duration: number | undefined,
+  frameTicks: number | undefined,
+): RawFrame[] {
+  const b = (pos: number) => r.byte(pos)!;
+  const { value: trackNumber, len } = r.readVint(block.start);
+  if (trackNumber !== track) return [];
+  let pos = block.start + len;
+  const rel = (b(pos) << 8 | b(pos + 1)) << 16 >> 16; // signed 16-bit
+  const flags = b(pos + 2);
+  pos += 3;
+  const cts = clusterTs + rel;
+  const isSync = keyframe(flags);
+
+  const lacing = (flags >> 1) & 0x03;
+  if (lacing === 0) return [{ cts, duration, isSync, offset: pos, size: block.end - pos }];
+
+  const count = b(pos) + 1;
+  pos++;
+  const sizes: number[] = [];
+  if (lacing === 1) { // Xiph: each size as a run of 255s plus a final byte
+    for (let i = 0; i < count - 1; i++) {
+      let size = 0;
+      let v: number;
+      do { v = b(pos++); size += v; } while (v === 255);
+      sizes.push(size);
+    }
+  } else if (lacing === 3) { // EBML: first size, then signed differences
+    let { value, len: l } = r.readVint(pos);
+    pos += l;
+    let size = value ?? 0;
+    sizes.push(size);
+    for (let i = 1; i < count - 1; i++) {
+      ({ value, len: l } = r.readVint(pos));
+      pos += l;
+      size += (value ?? 0) - (2 ** (7 * l - 1) - 1);
+      sizes.push(size);
+    }
+  } else { // fixed: equal shares
+    const each = Math.floor((block.end - pos) / count);
+    for (let i = 0; i < count - 1; i++) sizes.push(each);
+  }
+  sizes.push(block.end - pos - sizes.reduce((s, v) => s + v, 0));
+
+  const step = frameTicks ?? (duration !== undefined ? duration / count : 0);
+  const frames: RawFrame[] = [];
+  for (let i = 0; i < count; i++) {
+    frames.push({ cts: cts + i * step, duration: step || undefined, isSync: isSync && i === 0, offset: pos, size: sizes[i] });
+    pos += sizes[i];
+  }
+  return frames;
+}
+
+const hex2 = (n: number) => n.toString(16).padStart(2, '0');
+const dec2 = (n: number) => String(n).padStart(2, '0');
+
+// VP9 levels by the largest picture they allow (luma samples, and either
+// dimension), keeping only the highest level of each picture size: the levels
+// within one size differ by sample and bit rate, which the frame size can't
+// tell apart, and declaring the higher one is never less than the stream needs.
+const VP9_LEVELS_BY_SIZE: { level: number; maxPicture: number; maxDimension: number }[] = [
+  { level: 10, maxPicture: 36864, maxDimension: 512 },
+  { level: 11, maxPicture: 73728, maxDimension: 768 },
+  { level: 20, maxPicture: 122880, maxDimension: 960 },
+  { level: 21, maxPicture: 245760, maxDimension: 1344 },
+  { level: 30, maxPicture: 552960, maxDimension: 2048 },
+  { level: 31, maxPicture: 983040, maxDimension: 2752 },
+  { level: 41, maxPicture: 2228224, maxDimension: 4160 },
+  { level: 52, maxPicture: 8912896, maxDimension: 8384 },
+  { level: 62, maxPicture: 35651584, maxDimension: 16832 },
+];
+
+/**
+ * The VP9 level to declare: the stream's own, from the level feature
+ * (ID 2) of its CodecPrivate when it carries one, otherwise the lowest level
+ * whose picture size the frame fits. With no frame size either (PixelWidth
+ * and PixelHeight are mandatory, so only a broken file) it is the highest
+ * level — isConfigSupported must not be handed a level the stream exceeds.
+ */
+function vp9Level(codecPrivate: Uint8Array | undefined, width: number, height: number): number {
+  // CodecPrivate is a list of (ID, length, value) features, one byte each
+  // for ID and length.
+  for (let i = 0; codecPrivate && i + 2 < codecPrivate.length; i += 2 + codecPrivate[i + 1]) {
+    if (codecPrivate[i] === 2 && codecPrivate[i + 1] === 1) return codecPrivate[i + 2];
+  }
+  const top = VP9_LEVELS_BY_SIZE[VP9_LEVELS_BY_SIZE.length - 1].level;
+  if (width <= 0 || height <= 0) return top;
+  const fit = VP9_LEVELS_BY_SIZE.find(l => width * height <= l.maxPicture && Math.max(width, height) <= l.maxDimension);
+  return fit?.level ?? top;
+}
+
+/** The WebCodecs codec string and description for a Matroska video track. */
+export function webCodecsConfig(
+  codecId: string,
+  codecPrivate: Uint8Array | undefined,
+  firstKeyframe: Uint8Array | undefined,
+  width: number = 0,
+  height: number = 0,
+): { codec: string; description?: Uint8Array } {
+  switch (codecId) {
+    case 'V_VP8':
+      return { codec: 'vp8' };
+    case 'V_VP9': {
+      // Profile from the first keyframe's header: frame_marker (2 bits), then
+      // profile_low_bit, profile_high_bit. Profiles 2 and 3 are 10/12-bit.
+      const b = firstKeyframe?.[0] ?? 0;
+      const profile = ((b >> 5) & 1) | (((b >> 4) & 1) << 1);
+      const level = vp9Level(codecPrivate, width, height);
+      return { codec: `vp09.${dec2(profile)}.${dec2(level)}.${profile >= 2 ? '10' : '08'}` };
+    }
+    case 'V_AV1': {
+      if (!codecPrivate || codecPrivate.length < 4) throw new Error('AV1 track has no av1C codec private data');
+      const profile = codecPrivate[1] >> 5;
+      const level = codecPrivate[1] & 0x1f;
+      const tier = codecPrivate[2] >> 7 ? 'H' : 'M';
+      const depth = (codecPrivate[2] >> 5) & 1 ? 12 : (codecPrivate[2] >> 6) & 1 ? 10 : 8;
+      return { codec: `av01.${profile}.${dec2(level)}${tier}.${dec2(depth)}`, description: codecPrivate };
+    }
+    case 'V_MPEG4/ISO/AVC': {
+      if (!codecPrivate || codecPrivate.length < 4) throw new Error('H.264 track has no avcC codec private data');
+      return { codec: `avc1.${hex2(codecPrivate[1])}${hex2(codecPrivate[2])}${hex2(codecPrivate[3])}`, description: codecPrivate };
+    }
+    case 'V_MPEGH/ISO/HEVC': {
+      if (!codecPrivate || codecPrivate.length < 13) throw new Error('H.265 track has no hvcC codec private data');
+      const p = codecPrivate;
+      const space = ['', 'A', 'B', 'C'][p[1] >> 6];
+      const tier = (p[1] >> 5) & 1 ? 'H' : 'L';
+      const profileIdc = p[1] & 0x1f;
+      // The 32 compatibility flags, bit-reversed, as hex without leading zeros.
+      let compat = 0;
+      for (let i = 0; i < 32; i++) if (p[2 + (i >> 3)] & (0x80 >> (i & 7))) compat |= 1 << i;
+      const constraints = Array.from(p.slice(6, 12));
+      while (constraints.length > 0 && constraints[constraints.length - 1] === 0) constraints.pop();
+      const tail = constraints.map(c => `.${c.toString(16).toUpperCase()}`).join('');
+      return {
+        codec: `hvc1.${space}${profileIdc}.${(compat >>> 0).toString(16).toUpperCase()}.${tier}${p[12]}${tail}`,
+        description: codecPrivate,
+      };
+    }
+    default:
+      throw new Error(`unsupported codec: ${codecId}`);
+  }
+}
+
+/**
+ * Index the first video track of a Matroska/WebM file, reading it by range.
+ * Throws on a file that isn't Matroska, has no video track, or uses a codec
+ * or feature the frame-accurate path can't decode.
+ */
+export async function indexMatroska(source: ByteSource): Promise<VideoIndex> {
+  const size = source.size;
+  if (!isMatroska(await source.read(0, 4))) throw new Error('not a Matroska/WebM file');
+  const ebml = await readHeader(source, 0, size);
+  if (!ebml) throw new Error('not a Matroska/WebM file');
+  const head = await readElement(source, ebml);
+  for (const h of head.children(ebml.start, ebml.end)) {
+    if (h.id === ID.DocType) {
+      const docType = head.string(h);
+      if (docType !== 'matroska' && docType !== 'webm') throw new Error(`unsupported EBML document type: ${docType}`);
+    }
+  }
+
+  let pos = ebml.end;
+  let segment: Header | null = null;
+  while (pos < size) {
+    const h = await readHeader(source, pos, size);
+    if (!h) break;
+    if (h.id === ID.Segment) { segment = h; break; }
+    pos = h.end;
+  }
+  if (!segment) throw new Error('no Segment in file');
+
+  let timestampScale = DEFAULT_TIMESTAMP_SCALE;
+  let durationTicks: number | undefined;
+  let video: TrackInfo | null = null;
+  const frames: RawFrame[] = [];
+
+  // Segment children, by hand rather than r.children(): an unknown-size
+  // Cluster ends wherever the next Segment-level element starts.
+  pos = segment.start;
+  while (pos < segment.end) {
+    const h = await readHeader(source, pos, segment.end);
+    if (!h) break;
+    if (h.id === ID.Info) {
+      const r = await readElement(source, h);
+      for (const c of r.children(h.start, h.end)) {
+        if (c.id === ID.TimestampScale) timestampScale = r.uint(c);
+        else if (c.id === ID.Duration) durationTicks = r.float(c);
+      }
+    } else if (h.id === ID.Tracks) {
+      const r = await readElement(source, h);
+      for (const c of r.children(h.start, h.end)) {
+        if (c.id !== ID.TrackEntry) continue;
+        const t = parseTrackEntry(r, c);
+        if (t.type === TRACK_TYPE_VIDEO && !video) video = t;
+      }
+    } else if (h.id === ID.Cluster) {
+      if (!video) throw new Error('no video track before the first Cluster');
+      pos = await indexCluster(source, h, video, timestampScale, frames);
+      continue;
+    }
+    if (h.unknownSize) break;
+    pos = h.end;
+  }
+
+  if (!video) throw new Error('no video track in file');
+  if (video.encoded) throw new Error('compressed or encrypted video tracks are not supported');
+  const keyframe = frames.find(f => f.isSync);
+  const { codec, description } = webCodecsConfig(
+    video.codecId,
+    video.codecPrivate,
+    keyframe && await source.read(keyframe.offset, keyframe.size),
+    video.width,
+    video.height,
+  );
+
+  // Frames without a duration of their own run to the next frame in display
+  // order; the last one repeats the one before it.
+  const defaultTicks = video.defaultDurationNs !== undefined ? video.defaultDurationNs / timestampScale : undefined;
+  const byCts = frames.map((f, i) => i).sort((a, b) => frames[a].cts - frames[b].cts);
+  const durations = new Array<number>(frames.length);
+  for (let k = 0; k < byCts.length; k++) {
+    const f = frames[byCts[k]];
+    const next = frames[byCts[k + 1]];
+    durations[byCts[k]] = f.duration ?? defaultTicks ?? (next ? next.cts - f.cts : k > 0 ? durations[byCts[k - 1]] : 0);
+  }
+  const samples = frames.map((f, i) => ({
+    number: i, cts: f.cts, duration: durations[i], isSync: f.isSync, offset: f.offset, size: f.size,
+  }));
+
+  const timescale = 1e9 / timestampScale;
+  const last = byCts.length > 0 ? samples[byCts[byCts.length - 1]] : null;
+  const endTicks = durationTicks ?? (last ? last.cts + last.duration : 0);
+  return {
+    codec,
+    description,
+    width: video.width,
+    height: video.height,
+    timescale,
+    durationSec: endTicks / timescale,
+    samples,
+  };
+}
+
+/** The element header at `pos`, read on its own; null where the file ends first. */
+async function readHeader(source: ByteSource, pos: number, limit: number): Promise<Header | null> {
+  const r = new Reader(await source.read(pos, HEADER_READ_BYTES), pos);
+  return r.tryHeader(pos, limit);
+}
+
+/** A Reader over the whole of element `h`'s data. */
+async function readElement(source: ByteSource, h: Header): Promise<Reader> {
+  return new Reader(await source.read(h.start, h.end - h.start), h.start);
+}
+
+// Append the video track's frames from one Cluster, a window of
+// CLUSTER_READ_BYTES at a time; returns where the Segment's next child starts.
+async function indexCluster(
+  source: ByteSource,
+  cluster: Header,
+  video: TrackInfo,
+  timestampScale: number,
+  out: RawFrame[],
+): Promise<number> {
+  let scan: ClusterScan = { next: cluster.start, clusterTs: 0, done: false };
+  let window = CLUSTER_READ_BYTES;
+  while (!scan.done) {
+    const from = scan.next;
+    const r = new Reader(await source.read(from, Math.min(window, cluster.end - from)), from);
+    scan = scanCluster(r, cluster, video, timestampScale, out, scan);
+    if (scan.done) break;
+    if (scan.next === from) {
+      // One element is bigger than the window. Widen it — unless the window
+      // already reached the end, in which case the file was cut off in the
+      // middle of this element, and it's dropped rather than half-read.
+      if (r.end >= cluster.end) return cluster.end;
+      window *= 2;
+    } else {
+      window = CLUSTER_READ_BYTES;
+    }
+  }
+  return scan.next;
+}
+
+interface ClusterScan {
+  /** The next child to read; once `done`, the Segment's next child. */
+  next: number;
+  /** The Cluster's Timestamp, carried from window to window. */
+  clusterTs: number;
+  done: boolean;
+}
+
+// Scan the Cluster's children from `at.next` for as far as `r` holds whole
+// elements, appending the video track's frames.
+function scanCluster(
+  r: Reader,
+  cluster: Header,
+  video: TrackInfo,
+  timestampScale: number,
+  out: RawFrame[],
+  at: ClusterScan,
+): ClusterScan {
+  const frameTicks = video.defaultDurationNs !== undefined ? video.defaultDurationNs / timestampScale : undefined;
+  let { next: pos, clusterTs } = at;
+  while (pos < cluster.end) {
+    const h = r.tryHeader(pos, cluster.end);
+    if (!h) {
+      // Short of a header's worth of bytes, the window (or the file) ended
+      // partway through it; otherwise the data is corrupt, and the scan stops.
+      if (r.end - pos < HEADER_READ_BYTES) return { next: pos, clusterTs, done: false };
+      return { next: cluster.end, clusterTs, done: true };
+    }
+    if (cluster.unknownSize && SEGMENT_LEVEL.has(h.id)) return { next: pos, clusterTs, done: true };
+    if (h.truncated || h.end > r.end) return { next: pos, clusterTs, done: false };
+    if (h.id === ID.Timestamp) {
+      clusterTs = r.uint(h);
+    } else if (h.id === ID.SimpleBlock) {
+      out.push(...parseBlock(r, h, video.number, clusterTs, flags => (flags & 0x80) !== 0, undefined, frameTicks));
+    } else if (h.id === ID.BlockGroup) {
+      let block: Header | null = null;
+      let duration: number | undefined;
+      let referenced = false;
+      for (const c of r.children(h.start, h.end)) {
+        if (c.id === ID.Block) block = c;
+        else if (c.id === ID.BlockDuration) duration = r.uint(c);
+        else if (c.id === ID.ReferenceBlock) referenced = true;
+      }
+      if (block) out.push(...parseBlock(r, block, video.number, clusterTs, () => !referenced, duration, frameTicks));
+    }
+    pos = h.end;
+  }
+  return { next: cluster.end, clusterTs, done: true };
+}
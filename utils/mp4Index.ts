@@ -0,0 +1,117 @@
+// MP4 / MOV indexing for the frame-accurate video path, by range read.
+//
+// mp4box.js parses ISOBMFF progressively: it takes the file as a series of
+// buffers, each tagged with its file offset, and builds the sample table from
+// the moov box (plus any moofs, for a fragmented file) as they arrive. Those
+// boxes are all it needs — every sample's bytes are addressed by offset —
+// so the file is walked one top-level box header at a time, and everything
+// except media data is handed to mp4box whole. An mdat gets only its header:
+// mp4box treats it as a box whose body hasn't downloaded yet and skips to
+// the next buffer, which is the next box. A plain file's moov is usually a
+// few MB even for hours of video, where its mdat is the rest of the file.
+//
+// mp4box's own sample extraction (setExtractionOptions/start) isn't used:
+// VideoFrameSource reads the frames it decodes straight from the offsets
+// here, the same way it reads Matroska's.
+
+import { createFile, DataStream, Endianness, MP4BoxBuffer, type ISOFile, type Track } from 'mp4box';
+import type { ByteSource, VideoIndex } from './videoIndex';
+
+// A box header: 32-bit size and type, then a 64-bit size when the first is 1.
+const BOX_HEADER_READ_BYTES = 16;
+
+interface BoxHeader {
+  type: string;
+  /** Where the box ends; a size of 0 means "to the end of the file". */
+  end: number;
+  headerSize: number;
+}
+
+function readBoxHeader(bytes: Uint8Array, pos: number, fileSize: number): BoxHeader | null {
+  if (bytes.length < 8) return null;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const type = String.fromCharCode(bytes[4], bytes[5], bytes[6], bytes[7]);
+  const size32 = view.getUint32(0);
+  if (size32 === 1) {
+    if (bytes.length < 16) return null;
+    return { type, end: pos + Number(view.getBigUint64(8)), headerSize: 16 };
+  }
+  if (size32 === 0) return { type, end: fileSize, headerSize: 8 };
+  if (size32 < 8) return null;
+  return { type, end: pos + size32, headerSize: 8 };
+}
+
+/**
+ * Index the first video track of an MP4/MOV file, reading it by range.
+ * Throws on a file mp4box can't parse, one without a moov box or a video
+ * track, or a codec it has no decoder configuration for.
+ */
+export async function indexMp4(source: ByteSource): Promise<VideoIndex> {
+  const file = createFile();
+  let parseError = null as Error | null;
+  file.onError = (_module: string, msg: string) => {
+    parseError ??= new Error(`mp4box: ${msg}`);
+  };
+
+  let pos = 0;
+  while (pos < source.size) {
+    const head = await source.read(pos, Math.min(BOX_HEADER_READ_BYTES, source.size - pos));
+    const box = readBoxHeader(head, pos, source.size);
+    // A box header that's cut short or malformed ends the walk, as it would
+    // end mp4box's own parse of the whole file.
+    if (!box || box.end <= pos) break;
+    const bytes = box.type === 'mdat'
+      ? head.slice(0, box.headerSize)
+      : await source.read(pos, box.end - pos);
+    file.appendBuffer(MP4BoxBuffer.fromArrayBuffer(bytes.slice().buffer, pos));
+    if (parseError) throw parseError;
+    // A plain (unfragmented) file has its whole sample table in the moov;
+    // a fragmented one (moov has an mvex) adds more with every moof.
+    if (file.moov && !file.moov.mvex) break;
+    pos = box.end;
+  }
+
+  if (!file.moov) throw new Error('no moov box in file');
+  const track = file.getInfo().videoTracks[0];
+  if (!track) throw new Error('no video track in file');
+  const description = decoderDescription(file, track);
+  if (!description) throw new Error(`unsupported codec: ${track.codec}`);
+
+  const samples = (file.getTrackSamplesInfo(track.id) ?? []).map(s => ({
+    number: s.number, cts: s.cts, duration: s.duration, isSync: s.is_sync, offset: s.offset, size: s.size,
+  }));
+  // A fragmented file's moov may declare no duration; its samples still say.
+  const last = samples.reduce<(typeof samples)[number] | null>((m, s) => (!m || s.cts > m.cts ? s : m), null);
+  const durationTicks = track.duration || (last ? last.cts + last.duration : 0);
+  return {
+    codec: track.codec,
+    description,
+    width: track.video?.width ?? track.track_width,
+    height: track.video?.height ?? track.track_height,
+    timescale: track.timescale,
+    durationSec: durationTicks / track.timescale,
+    samples,
+  };
+}
+
+/** The codec configuration box (avcC/hvcC/vpcC/av1C) body, for VideoDecoderConfig.description. */
+function decoderDescription(file: ISOFile, track: Track): Uint8Array | undefined {
+  const trak = file.moov?.traks?.find(
+    (t) => (t.tkhd as unknown as { track_id: number })?.track_id === track.id,
+  );
+  const entries = (trak as unknown as {
+    mdia?: { minf?: { stbl?: { stsd?: { entries?: unknown[] } } } };
+  } | undefined)?.mdia?.minf?.stbl?.stsd?.entries;
+  const entry = entries?.[0] as {
+    avcC?: { write: (s: DataStream) => void };
+    hvcC?: { write: (s: DataStream) => void };
+    vpcC?: { write: (s: DataStream) => void };
+    av1C?: { write: (s: DataStream) => void };
+  } | undefined;
+  const box = entry?.avcC ?? entry?.hvcC ?? entry?.vpcC ?? entry?.av1C;
+  if (!box) return undefined;
+
+  const stream = new DataStream(undefined, 0, Endianness.BIG_ENDIAN);
+  box.write(stream);
+  return new Uint8Array(stream.buffer.slice(8));
+}
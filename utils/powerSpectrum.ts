@@ -0,0 +1,155 @@
+// Mean power spectrum of a stretch of PCM, and the readouts the power-spectrum
+// panel (components/PowerSpectrumPanel.tsx) shows for it: peak frequency,
+// −10 dB bandwidth and spectral centroid.
+//
+// Welch's method: half-overlapping windows, power averaged over windows and
+// channels (averaging power rather than a mixdown keeps channels that are out
+// of phase from cancelling). The window, its length and the zero-padding are
+// the spectrogram's, and so is the reference level — a full-scale sine reads
+// 0 dBFS — so the panel's dB axis means what the spectrogram's display floor
+// and ceiling mean.
+
+import { WindowFunction } from '../types';
+import { FFT } from './PhaseVocoder';
+import { windowCoefficients } from './stftOptions';
+
+export interface PowerSpectrum {
+  sampleRate: number;
+  /** FFT length: the window length times the zero-padding factor. */
+  fftLength: number;
+  /** Mean power of bins 0 … fftLength/2, in dBFS. */
+  db: Float32Array;
+  /** Windows averaged per channel. */
+  frames: number;
+}
+
+/** A readout range's peak, −10 dB band and centroid. Frequencies in Hz. */
+export interface SpectrumReadouts {
+  peakFreq: number;
+  peakDb: number;
+  /** Edges of the band around the peak that stays within BANDWIDTH_DROP_DB of it. */
+  bandLow: number;
+  bandHigh: number;
+  centroid: number;
+}
+
+/** How far below the peak the bandwidth readout's edges sit. */
+export const BANDWIDTH_DROP_DB = 10;
+
+// −140 dBFS, the bottom of the Rust STFT's quantized range.
+const MIN_POWER = 1e-14;
+
+/** Frequency (Hz) of bin `bin`. */
+export const binFrequency = (spectrum: PowerSpectrum, bin: number): number =>
+  (bin * spectrum.sampleRate) / spectrum.fftLength;
+
+/**
+ * Mean power spectrum of `channels` (equal-length, one per channel). A stretch
+ * shorter than `fftSize` is analysed as one window of its own length, padded
+ * out to the FFT length. Null for empty input.
+ */
+export function meanPowerSpectrum(
+  channels: Float32Array[],
+  sampleRate: number,
+  fftSize: number,
+  window: WindowFunction = 'hann',
+  zeroPadding = 1,
+): PowerSpectrum | null {
+  const n = channels.length > 0 ? channels[0].length : 0;
+  if (n === 0) return null;
+  const winLen = Math.min(fftSize, n);
+  const fftLength = fftSize * zeroPadding;
+  const hop = Math.max(1, Math.floor(winLen / 2));
+  const frames = 1 + Math.floor((n - winLen) / hop);
+
+  const coeffs = windowCoefficients(window, winLen);
+  let gain = 0;
+  for (let i = 0; i < winLen; i++) gain += coeffs[i];
+  // One-sided amplitude normalisation by the window's coherent gain: the
+  // same scaling as compute_stft_with, so a full-scale sine peaks at 0 dB.
+  const norm = (2 / gain) ** 2;
+
+  const fft = new FFT(fftLength);
+  const re = new Float32Array(fftLength);
+  const im = new Float32Array(fftLength);
+  const bins = fftLength / 2 + 1;
+  const power = new Float64Array(bins);
+  for (const samples of channels) {
+    for (let f = 0; f < frames; f++) {
+      const offset = f * hop;
+      re.fill(0);
+      im.fill(0);
+      for (let i = 0; i < winLen; i++) re[i] = samples[offset + i] * coeffs[i];
+      fft.forward(re, im);
+      for (let k = 0; k < bins; k++) power[k] += re[k] * re[k] + im[k] * im[k];
+    }
+  }
+
+  const scale = norm / (frames * channels.length);
+  const db = new Float32Array(bins);
+  for (let k = 0; k < bins; k++) db[k] = 10 * Math.log10(Math.max(power[k] * scale, MIN_POWER));
+  return { sampleRate, fftLength, db, frames };
+}
+
+/**
+ * Peak, −10 dB bandwidth and centroid of `spectrum` between `lowFreq` and
+ * `highFreq` (the whole spectrum by default). The peak is refined between bins
+ * by a parabola through its neighbours and the band edges are interpolated, so
+ * readouts aren't stuck to the bin grid; the band stops at the range's edges.
+ * Null when the range holds no bin.
+ */
+export function spectrumReadouts(
+  spectrum: PowerSpectrum,
+  lowFreq = 0,
+  highFreq = spectrum.sampleRate / 2,
+): SpectrumReadouts | null {
+  const { db } = spectrum;
+  const binHz = spectrum.sampleRate / spectrum.fftLength;
+  const k0 = Math.max(0, Math.ceil(lowFreq / binHz));
+  const k1 = Math.min(db.length - 1, Math.floor(highFreq / binHz));
+  if (k1 < k0) return null;
+
+  let peak = k0;
+  for (let k = k0 + 1; k <= k1; k++) if (db[k] > db[peak]) peak = k;
+  let peakBin = peak;
+  let peakDb = db[peak];
+  if (peak > k0 && peak < k1) {
+    const a = db[peak - 1], b = db[peak], c = db[peak + 1];
+    const denom = a - 2 * b + c;
+    if (denom < 0) {
+      const p = (0.5 * (a - c)) / denom;
+      peakBin = peak + p;
+      peakDb = b - 0.25 * (a - c) * p;
+    }
+  }
+
+  const threshold = db[peak] - BANDWIDTH_DROP_DB;
+  // Fractional bin between i and j (adjacent) where the level crosses threshold.
+  const crossing = (i: number, j: number) => i + ((threshold - db[i]) / (db[j] - db[i])) * (j - i);
+  let lo = peak;
+  while (lo > k0 && db[lo - 1] >= threshold) lo--;
+  const bandLowBin = lo > k0 ? crossing(lo - 1, lo) : lo;
+  let hi = peak;
+  while (hi < k1 && db[hi + 1] >= threshold) hi++;
+  const bandHighBin = hi < k1 ? crossing(hi + 1, hi) : hi;
+
+  let weighted = 0;
+  let total = 0;
+  for (let k = k0; k <= k1; k++) {
+    const p = Math.pow(10, db[k] / 10);
+    weighted += k * p;
+    total += p;
+  }
+
+  return {
+    peakFreq: peakBin * binHz,
+    peakDb,
+    bandLow: bandLowBin * binHz,
+    bandHigh: bandHighBin * binHz,
+    centroid: (total > 0 ? weighted / total : peak) * binHz,
+  };
+}
+
+/** `f` as a readout: whole hertz below 1 kHz, kilohertz to 10 Hz above. */
+export const formatHz = (f: number): string =>
+  f >= 1000 ? `${(f / 1000).toFixed(2)} kHz` : `${Math.round(f)} Hz`;
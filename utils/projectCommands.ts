@@ -169,6 +169,16 @@ export const writeAppSettings = async (settings: AppSettings): Promise<void> =>
   await invoke('write_app_settings', { appDataDir, settings });
 };
 
+/**
+ * Change some settings, keeping the rest. The file holds unrelated settings
+ * (ffmpeg location, keymap) edited from different places, so writers merge
+ * rather than replace.
+ */
+export const updateAppSettings = async (patch: Partial<AppSettings>): Promise<void> => {
+  const current = await readAppSettings().catch((): AppSettings => ({}));
+  await writeAppSettings({ ...current, ...patch });
+};
+
 // ── Misc project-related filesystem helpers (unchanged signatures) ────────────
 
 export const getOrphanedAnnotations = (
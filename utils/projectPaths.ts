@@ -1,4 +1,4 @@
-import { ProjectPath, ProjectPreferences, ProjectSettings, Project, ProjectRegistryEntry } from '../types';
+import { DetectorSource, ProjectPath, ProjectPreferences, ProjectSettings, Project, ProjectRegistryEntry, ResolvedDetectorSource } from '../types';
 
 function stripTrailingSep(p: string): string {
   return p.replace(/[/\\]+$/, '');
@@ -98,5 +98,23 @@ export function buildProject(
     buzzdetectDirectoryAbs: settings.buzzdetectDirectory
       ? resolveProjectPath(registry.projectDir, settings.buzzdetectDirectory)
       : null,
+    extraDetectorSources: resolveDetectorSources(registry.projectDir, settings.extraDetectorSources ?? []),
   };
 }
+
+/**
+ * Resolve extra detector sources against the project directory. A source's
+ * label is its name, or its directory's name when that's blank; a label
+ * already taken gets " (2)", " (3)", … so each lane's settings stay its own.
+ */
+export function resolveDetectorSources(projectDir: string, sources: DetectorSource[]): ResolvedDetectorSource[] {
+  const taken = new Set<string>();
+  return sources.map(s => {
+    const directoryAbs = resolveProjectPath(projectDir, s.directory);
+    const base = s.name?.trim() || basename(directoryAbs);
+    let label = base;
+    for (let n = 2; taken.has(label); n++) label = `${base} (${n})`;
+    taken.add(label);
+    return { label, directoryAbs, format: s.format ?? 'buzzdetect' };
+  });
+}
@@ -0,0 +1,219 @@
+// Raven Pro selection tables (Cornell's bioacoustics workbench).
+//
+// A selection table is tab-delimited text with a header row. The standard
+// columns place each selection in time and frequency; anything after them is
+// a measurement or annotation column the user added in Raven ("Species",
+// "Call Type", "Notes", …). Raven writes one row per *view* of a selection —
+// a selection shown in both the waveform and the spectrogram appears twice
+// with the same Selection number — so rows are collapsed by that number on
+// import.
+//
+// An Annotation carries a single label, so which of the extra columns make up
+// that label is the user's choice on import (a RavenLabelMapping). Times and
+// frequency bounds map directly: every Raven selection is a box, so a row with
+// a usable Low/High Freq becomes a box annotation (see isBoxAnnotation).
+
+import { Annotation, AnnotationTool } from '../types';
+import { defaultSavePath, generateId, isBoxAnnotation, saveFile } from './helpers';
+
+export const RAVEN_SELECTION = 'Selection';
+export const RAVEN_VIEW = 'View';
+export const RAVEN_CHANNEL = 'Channel';
+export const RAVEN_BEGIN = 'Begin Time (s)';
+export const RAVEN_END = 'End Time (s)';
+export const RAVEN_LOW = 'Low Freq (Hz)';
+export const RAVEN_HIGH = 'High Freq (Hz)';
+
+/** The columns Raven always writes, in its own order. */
+export const RAVEN_STANDARD_COLUMNS = [
+  RAVEN_SELECTION, RAVEN_VIEW, RAVEN_CHANNEL, RAVEN_BEGIN, RAVEN_END, RAVEN_LOW, RAVEN_HIGH,
+];
+
+/** Column name SeeNote writes labels under on export (Raven's own default). */
+export const RAVEN_LABEL_COLUMN = 'Annotation';
+
+// Extra columns that conventionally hold the label, most likely first. The
+// default mapping picks the first one present (case-insensitive).
+const LIKELY_LABEL_COLUMNS = ['annotation', 'label', 'species', 'class', 'call type', 'type'];
+
+export interface RavenTable {
+  /** Header names in file order. */
+  columns: string[];
+  /** One record per selection (view duplicates collapsed), keyed by header name. */
+  rows: Record<string, string>[];
+}
+
+/**
+ * Which extra columns make up an imported annotation's label. Non-empty
+ * values are joined by `separator` in `columns` order.
+ */
+export interface RavenLabelMapping {
+  columns: string[];
+  separator: string;
+}
+
+const norm = (name: string): string => name.trim().toLowerCase();
+
+// Index of a header name, matched case- and whitespace-insensitively (Raven
+// versions differ on capitalization, and hand-edited tables drift).
+const columnIndex = (columns: string[], name: string): number =>
+  columns.findIndex(c => norm(c) === norm(name));
+
+/**
+ * True when `content` looks like a Raven selection table: a header row naming
+ * both Begin and End Time. Audacity label files have no header, so the two
+ * never collide.
+ */
+export const isRavenTable = (content: string): boolean => {
+  const header = content.replace(/^\uFEFF/, '').split('\n', 1)[0].replace(/\r$/, '').split('\t');
+  return columnIndex(header, RAVEN_BEGIN) !== -1 && columnIndex(header, RAVEN_END) !== -1;
+};
+
+/**
+ * Parse a selection table. Rows whose Selection number repeats (one per view)
+ * collapse to the first, preferring a Spectrogram view's row when the
+ * duplicates disagree. Blank lines are skipped; short rows are padded with
+ * empty strings. Returns null when the header lacks Begin/End Time.
+ */
+export const parseRavenTable = (content: string): RavenTable | null => {
+  const lines = content.replace(/^\uFEFF/, '').split('\n').map(l => l.replace(/\r$/, '')).filter(l => l.trim() !== '');
+  if (lines.length === 0) return null;
+  const columns = lines[0].split('\t').map(c => c.trim());
+  if (columnIndex(columns, RAVEN_BEGIN) === -1 || columnIndex(columns, RAVEN_END) === -1) return null;
+
+  const selIdx = columnIndex(columns, RAVEN_SELECTION);
+  const viewIdx = columnIndex(columns, RAVEN_VIEW);
+  const rows: Record<string, string>[] = [];
+  const bySelection = new Map<string, number>();
+  for (const line of lines.slice(1)) {
+    const fields = line.split('\t');
+    const row: Record<string, string> = {};
+    columns.forEach((c, i) => { row[c] = (fields[i] ?? '').trim(); });
+    const sel = selIdx !== -1 ? row[columns[selIdx]] : '';
+    const existing = sel ? bySelection.get(sel) : undefined;
+    if (existing === undefined) {
+      if (sel) bySelection.set(sel, rows.length);
+      rows.push(row);
+    } else if (viewIdx !== -1 && /spectrogram/i.test(row[columns[viewIdx]])
+      && !/spectrogram/i.test(rows[existing][columns[viewIdx]])) {
+      rows[existing] = row;
+    }
+  }
+  return { columns, rows };
+};
+
+/** The table's non-standard columns — the candidates for a label mapping. */
+export const ravenExtraColumns = (table: RavenTable): string[] =>
+  table.columns.filter(c => !RAVEN_STANDARD_COLUMNS.some(s => norm(s) === norm(c)));
+
+/**
+ * The mapping an import starts from: the first conventionally-named label
+ * column, else the first extra column, joined with " / ". No extra columns at
+ * all → an empty mapping (every annotation imports unlabelled).
+ */
+export const defaultRavenLabelMapping = (table: RavenTable): RavenLabelMapping => {
+  const extras = ravenExtraColumns(table);
+  for (const likely of LIKELY_LABEL_COLUMNS) {
+    const hit = extras.find(c => norm(c) === likely);
+    if (hit) return { columns: [hit], separator: ' / ' };
+  }
+  return { columns: extras.slice(0, 1), separator: ' / ' };
+};
+
+/** The label one row imports with under `mapping`. */
+export const ravenRowLabel = (row: Record<string, string>, mapping: RavenLabelMapping): string =>
+  mapping.columns.map(c => row[c] ?? '').filter(v => v !== '').join(mapping.separator);
+
+/**
+ * Convert a parsed table to annotations. Rows with non-numeric times are
+ * skipped. Low/High Freq become the box band when both parse and high > low.
+ * Colors are recovered from `tools` by exact label match, white otherwise —
+ * the same rule parseAudacityContent applies. When the table spans more than
+ * one Channel, each annotation is tagged with its (0-based) channel; a
+ * single-channel table imports untagged.
+ */
+export const ravenTableToAnnotations = (
+  table: RavenTable,
+  mapping: RavenLabelMapping,
+  tools: AnnotationTool[],
+): Annotation[] => {
+  const col = (name: string) => {
+    const i = columnIndex(table.columns, name);
+    return i === -1 ? null : table.columns[i];
+  };
+  const beginCol = col(RAVEN_BEGIN)!;
+  const endCol = col(RAVEN_END)!;
+  const lowCol = col(RAVEN_LOW);
+  const highCol = col(RAVEN_HIGH);
+  const channelCol = col(RAVEN_CHANNEL);
+  const channelOf = (row: Record<string, string>): number | null => {
+    const n = channelCol ? Number(row[channelCol]) : NaN;
+    return Number.isInteger(n) && n >= 1 ? n - 1 : null;
+  };
+  const multiChannel = table.rows.some(row => (channelOf(row) ?? 0) > 0);
+
+  const out: Annotation[] = [];
+  for (const row of table.rows) {
+    const start = parseFloat(row[beginCol]);
+    const end = parseFloat(row[endCol]);
+    if (isNaN(start) || isNaN(end)) continue;
+    const text = ravenRowLabel(row, mapping);
+    const low = lowCol ? parseFloat(row[lowCol]) : NaN;
+    const high = highCol ? parseFloat(row[highCol]) : NaN;
+    const channel = multiChannel ? channelOf(row) : null;
+    out.push({
+      id: generateId(),
+      start: Math.min(start, end),
+      end: Math.max(start, end),
+      text,
+      color: tools.find(t => t.text === text)?.color ?? '#ffffff',
+      ...(!isNaN(low) && !isNaN(high) && high > low ? { lowFreq: low, highFreq: high } : {}),
+      ...(channel !== null ? { attributes: { channel } } : {}),
+    });
+  }
+  return out;
+};
+
+/**
+ * Serialize annotations as a Raven selection table: one Spectrogram-view row
+ * per annotation, numbered in start order, with the label under
+ * `labelColumn`. A time-band annotation has no frequency bounds of its own,
+ * so it is written spanning `fullBand` (the displayed range). Channel is the
+ * annotation's channel tag, 1-based; untagged annotations go on channel 1.
+ */
+export const generateRavenContent = (
+  annotations: Annotation[],
+  fullBand: { low: number; high: number },
+  decimals: number = 7,
+  labelColumn: string = RAVEN_LABEL_COLUMN,
+): string => {
+  const header = [...RAVEN_STANDARD_COLUMNS, labelColumn].join('\t');
+  const rows = [...annotations]
+    .sort((a, b) => a.start - b.start)
+    .map((a, i) => {
+      const low = isBoxAnnotation(a) ? a.lowFreq : fullBand.low;
+      const high = isBoxAnnotation(a) ? a.highFreq : fullBand.high;
+      return [
+        String(i + 1), 'Spectrogram 1', String((a.attributes?.channel ?? 0) + 1),
+        a.start.toFixed(decimals), a.end.toFixed(decimals),
+        low.toFixed(1), high.toFixed(1),
+        // A tab or newline inside a label would shift or split the row.
+        a.text.replace(/[\t\r\n]+/g, ' '),
+      ].join('\t');
+    });
+  return [header, ...rows].join('\n') + '\n';
+};
+
+// Export to a Raven Pro selection table (tab delimited, with header). Raven
+// needs a frequency range on every selection, so time-band annotations are
+// written spanning `fullBand` — callers pass the displayed range.
+export const exportToRaven = async (
+  annotations: Annotation[],
+  trackName: string,
+  trackPath: string | null,
+  fullBand: { low: number; high: number },
+  decimals: number = 7,
+) => {
+  const path = defaultSavePath(trackPath, trackName, '.selections', '.txt');
+  await saveFile(generateRavenContent(annotations, fullBand, decimals), path, '.txt');
+};
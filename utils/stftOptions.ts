@@ -0,0 +1,86 @@
+// Analysis choices beyond the FFT window length: window function, overlap
+// (which sets the finest tier's hop) and zero-padding. Together with fftSize
+// they decide every value in a spectrogram chunk, so they are part of a
+// MultiTierSpectrogramCache's identity — see cachesServe.
+//
+// Each SpectrogramSettings field is optional; a missing one reads as the
+// analysis the app always used (Hann, FINEST_HOP_SAMPLES, unpadded), so saved
+// preferences keep drawing the same image.
+
+import { SpectrogramSettings, WindowFunction } from '../types';
+import { FINEST_HOP_SAMPLES } from '../constants';
+
+export interface StftOptions {
+  window: WindowFunction;
+  /** Hop of the finest tier, in samples; coarser tiers step up from it. */
+  finestHop: number;
+  /** FFT length as a multiple of the window length. */
+  zeroPadding: number;
+}
+
+export const WINDOW_FUNCTIONS: readonly WindowFunction[] = ['hann', 'hamming', 'blackmanHarris', 'gaussian'];
+
+/**
+ * Overlaps the panel offers. Each leaves a power-of-two hop for a power-of-two
+ * window, which keeps tier column rates exact (see MultiTierSpectrogramCache).
+ */
+export const OVERLAP_PERCENTS: readonly number[] = [50, 75, 87.5, 93.75];
+
+export const ZERO_PADDING_FACTORS: readonly number[] = [1, 2, 4, 8];
+
+export const DEFAULT_STFT_OPTIONS: StftOptions = { window: 'hann', finestHop: FINEST_HOP_SAMPLES, zeroPadding: 1 };
+
+/** Hop, in samples, of a `fftSize` window overlapping its neighbour by `overlapPercent`. */
+export const hopForOverlap = (fftSize: number, overlapPercent: number): number =>
+  Math.max(1, Math.round(fftSize * (1 - overlapPercent / 100)));
+
+/** The options `settings` asks for; out-of-range values fall back to the defaults. */
+export const stftOptionsOf = (settings: SpectrogramSettings): StftOptions => {
+  const overlap = settings.overlapPercent;
+  const padding = settings.zeroPadding;
+  return {
+    window: settings.windowFunction && WINDOW_FUNCTIONS.includes(settings.windowFunction)
+      ? settings.windowFunction
+      : DEFAULT_STFT_OPTIONS.window,
+    finestHop: overlap !== undefined && overlap >= 0 && overlap < 100
+      ? hopForOverlap(settings.fftSize, overlap)
+      : DEFAULT_STFT_OPTIONS.finestHop,
+    zeroPadding: padding !== undefined && ZERO_PADDING_FACTORS.includes(padding)
+      ? padding
+      : DEFAULT_STFT_OPTIONS.zeroPadding,
+  };
+};
+
+/** Stable string form, for effect deps and cache comparisons. */
+export const stftOptionsKey = (o: StftOptions): string => `${o.window}|${o.finestHop}|${o.zeroPadding}`;
+
+/** Frequency bins per column: half the (zero-padded) FFT length. */
+export const freqBinCount = (fftSize: number, zeroPadding: number = 1): number =>
+  Math.floor((fftSize * zeroPadding) / 2);
+
+/**
+ * `window`'s `length` coefficients, in the symmetric (N-1) form the Rust STFT
+ * uses (WindowFunction::coefficients in src-tauri/src/audio/fft.rs) — keep the
+ * two in step so a spectrum computed here matches the spectrogram.
+ */
+export const windowCoefficients = (window: WindowFunction, length: number): Float32Array => {
+  const out = new Float32Array(length);
+  const denom = Math.max(length, 2) - 1;
+  for (let i = 0; i < length; i++) {
+    const x = (2 * Math.PI * i) / denom;
+    switch (window) {
+      case 'hamming': out[i] = 0.54 - 0.46 * Math.cos(x); break;
+      case 'blackmanHarris':
+        out[i] = 0.35875 - 0.48829 * Math.cos(x) + 0.14128 * Math.cos(2 * x) - 0.01168 * Math.cos(3 * x);
+        break;
+      case 'gaussian': {
+        const half = denom / 2;
+        const z = (i - half) / (0.4 * half);
+        out[i] = Math.exp(-0.5 * z * z);
+        break;
+      }
+      default: out[i] = 0.5 * (1 - Math.cos(x));
+    }
+  }
+  return out;
+};
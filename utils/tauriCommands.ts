@@ -1,5 +1,5 @@
 import { invoke, convertFileSrc, Channel } from '@tauri-apps/api/core';
-import { BuzzdetectData } from '../types';
+import { BuzzdetectData, WindowFunction } from '../types';
 
 // ── Types returned by Rust ────────────────────────────────────────────────────
 
@@ -47,6 +47,11 @@ export const setFfmpegPath = (path: string | null): Promise<void> =>
 export const detectFfmpeg = (): Promise<string | null> =>
   invoke('detect_ffmpeg');
 
+/** Export `startSec..endSec` of a video, with its audio, to `outputPath` through
+ *  the same ffmpeg binary. See `audio::ffmpeg_stream::export_clip`. */
+export const exportVideoClip = (path: string, outputPath: string, startSec: number, endSec: number): Promise<void> =>
+  invoke('export_video_clip', { path, outputPath, startSec, endSec });
+
 /** Peak absolute sample amplitude (mono mixdown), in [0, 1] for float PCM. */
 export const audioPeak = (path: string): Promise<number> =>
   invoke('audio_peak', { path });
@@ -80,6 +85,10 @@ export interface SpectrogramRangeChunk extends SpectrogramChunkResult {
  * coarse tiers avoids re-scanning the container from the start of the file once
  * per chunk. `onChunk` may be called after the promise's work begins and before
  * it resolves; the promise settles when the last chunk has been sent.
+ *
+ * `channel` picks one 0-based channel of a multi-channel file; null analyses
+ * the mono mixdown. `stft` carries the window function and zero-padding; each
+ * chunk then has fftSize * zeroPadding / 2 bins.
  */
 export const getSpectrogramChunkRange = async (
   path: string,
@@ -88,10 +97,12 @@ export const getSpectrogramChunkRange = async (
   chunkDuration: number,
   fftSize: number,
   hopSize: number,
+  channel: number | null,
+  stft: { window: WindowFunction; zeroPadding: number },
   onChunk: (chunk: SpectrogramRangeChunk) => void,
 ): Promise<void> => {
-  const channel = new Channel<ArrayBuffer>();
-  channel.onmessage = (message) => {
+  const chunkChannel = new Channel<ArrayBuffer>();
+  chunkChannel.onmessage = (message) => {
     // Rust prefixes each blob with a u32 grid index (build_range_message).
     const chunk_index = new DataView(message).getUint32(0, true);
     onChunk({ chunk_index, ...parseSpectrogramBuffer(message.slice(4)) });
@@ -104,8 +115,10 @@ export const getSpectrogramChunkRange = async (
       chunk_duration: chunkDuration,
       fft_size: fftSize,
       hop_size: hopSize,
+      channel,
+      stft: { window: stft.window, zero_padding: stft.zeroPadding },
     },
-    onChunk: channel,
+    onChunk: chunkChannel,
   });
 };
 
@@ -116,9 +129,22 @@ export const listDirectory = (path: string): Promise<DirEntry[]> =>
 export const writeTextFile = (path: string, content: string): Promise<void> =>
   invoke('write_text_file', { path, content });
 
+/** Write raw bytes to `path` over binary IPC (the path travels in a header,
+ *  percent-encoded since header values are ASCII). */
+export const writeBinaryFile = (path: string, bytes: Uint8Array): Promise<void> =>
+  invoke('write_binary_file', bytes, { headers: { path: encodeURIComponent(path) } });
+
 export const readTextFile = (path: string): Promise<string | null> =>
   invoke('read_text_file', { path });
 
+export const fileSize = (path: string): Promise<number> =>
+  invoke('file_size', { path });
+
+/** Up to `length` bytes of `path` from `offset` (fewer only at end of file),
+ *  over binary IPC. See utils/videoIndex.ts for the range-read demux it backs. */
+export const readFileRange = async (path: string, offset: number, length: number): Promise<Uint8Array> =>
+  new Uint8Array(await invoke<ArrayBuffer>('read_file_range', { path, offset, length }));
+
 export const openDirectoryDialog = (): Promise<string | null> =>
   invoke('open_directory_dialog');
 
@@ -484,6 +510,34 @@ export const fetchRemoteStatus = (
 ): Promise<boolean> =>
   invoke('fetch_remote_status', { projectDir, remoteUrl, token });
 
+export interface AnnotationCommit {
+  id: string;
+  /** First line of the commit message. */
+  summary: string;
+  author: string;
+  /** Commit time, seconds since the Unix epoch. */
+  time: number;
+}
+
+/**
+ * Up to `limit` of the project repo's commits, newest first. Empty when the
+ * project has never been synced. Local only — no fetch.
+ */
+export const listAnnotationCommits = (projectDir: string, limit: number): Promise<AnnotationCommit[]> =>
+  invoke('list_annotation_commits', { projectDir, limit });
+
+/**
+ * The project's annotation files as they stood at commit `commitId`, by
+ * ident, read from the repo without touching the working tree. Sidecars are
+ * left out. `annotationDir` must be inside `projectDir`.
+ */
+export const readAnnotationsAtCommit = (
+  projectDir: string,
+  annotationDir: string,
+  commitId: string,
+): Promise<Record<string, string>> =>
+  invoke('read_annotations_at_commit', { projectDir, annotationDir, commitId });
+
 /** Open the copy editor in a separate native window. */
 export function openCopyEditorWindow(): void {
   invoke('open_copy_editor_window').catch(console.error);
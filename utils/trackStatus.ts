@@ -0,0 +1,161 @@
+// Track status file.
+//
+// Each track's place in the annotation workflow — not started, in progress,
+// done, needs review — plus who it's assigned to, set from the file tree
+// (components/FileTree.tsx). Status can't be inferred from the annotation
+// file alone: a track finished with zero events looks just like one nobody
+// has opened. The records live in one project-wide file at the annotation
+// root, `.track-status.txt`, one line per track: its ident, then the record as
+// a JSON column.
+//
+//   site/dawn<TAB>{"status":"done","assignee":"LH","by":"LH","at":"2026-05-01T09:00:00.000Z"}
+//
+// The lines aren't annotation records, so git-sync's set-merge keeps each
+// distinct line; when two people change the same track the file ends up with
+// two lines for it and the later `at` wins on load. A write re-reads the file
+// and replaces every line for the track, so the duplicate goes on the next
+// change.
+
+import { TrackStatus, TrackStatusEntry } from '../types';
+import { TRACK_STATUS_FILE } from '../constants';
+import type { FileFilter } from '../components/controls/FilePanelHeaderButtons';
+import { readTextFile, writeTextFile, removeFile } from './tauriCommands';
+
+/** Every status, in the order the hotkey cycles through them. */
+export const TRACK_STATUSES: readonly TrackStatus[] = ['not-started', 'in-progress', 'done', 'needs-review'];
+
+/** Path of the track-status file for the annotation root `annotationDir`. */
+export const trackStatusPath = (annotationDir: string): string =>
+  `${annotationDir.replace(/[\\/]+$/, '')}/${TRACK_STATUS_FILE}`;
+
+/**
+ * Validate a parsed record column: a timestamp plus a known status and/or a
+ * non-blank assignee. Null when there's no timestamp or nothing to record.
+ */
+export const normalizeTrackStatus = (value: unknown): TrackStatusEntry | null => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+  const v = value as Record<string, unknown>;
+  const status = TRACK_STATUSES.find(s => s === v.status);
+  const assignee = typeof v.assignee === 'string' ? v.assignee.trim() : '';
+  const by = typeof v.by === 'string' ? v.by.trim() : '';
+  const at = typeof v.at === 'string' ? v.at : '';
+  if (!at || (!status && !assignee)) return null;
+  const entry: TrackStatusEntry = { at };
+  if (status) entry.status = status;
+  if (assignee) entry.assignee = assignee;
+  if (by) entry.by = by;
+  return entry;
+};
+
+const parseLine = (raw: string): { ident: string; entry: TrackStatusEntry } | null => {
+  const line = raw.replace(/\r$/, '');
+  const tab = line.lastIndexOf('\t');
+  if (tab <= 0) return null;
+  const field = line.slice(tab + 1);
+  if (!field.startsWith('{')) return null;
+  try {
+    const entry = normalizeTrackStatus(JSON.parse(field));
+    return entry ? { ident: line.slice(0, tab), entry } : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Each track's record by ident. Where a track has several lines the latest
+ * `at` wins, then the later line. Malformed lines are skipped.
+ */
+export const parseTrackStatusContent = (content: string | null): Map<string, TrackStatusEntry> => {
+  const out = new Map<string, TrackStatusEntry>();
+  if (!content) return out;
+  for (const raw of content.split('\n')) {
+    const parsed = parseLine(raw);
+    if (!parsed) continue;
+    const prev = out.get(parsed.ident);
+    if (!prev || parsed.entry.at >= prev.at) out.set(parsed.ident, parsed.entry);
+  }
+  return out;
+};
+
+/**
+ * Replace `ident`'s record with `entry`; null drops it. Other tracks' lines
+ * are kept as they are. Returns the new content ('' once no record is left).
+ */
+export const setTrackStatusInContent = (
+  content: string | null,
+  ident: string,
+  entry: TrackStatusEntry | null,
+): string => {
+  const kept = (content ?? '').split('\n')
+    .map(raw => raw.replace(/\r$/, ''))
+    .filter(line => line.trim() !== '' && parseLine(line)?.ident !== ident);
+  if (entry) kept.push(`${ident}\t${JSON.stringify(entry)}`);
+  return kept.length > 0 ? `${kept.join('\n')}\n` : '';
+};
+
+/** A change to a track's record: a new status, or a new assignee ('' unassigns). */
+export type TrackStatusPatch = { status: TrackStatus } | { assignee: string };
+
+/**
+ * Apply `patch` to `ident`'s current record in `content`, stamping it with
+ * `by` and `at`. The record is dropped once it holds neither a status nor an
+ * assignee.
+ */
+export const patchTrackStatusContent = (
+  content: string | null,
+  ident: string,
+  patch: TrackStatusPatch,
+  by: string,
+  at: string = new Date().toISOString(),
+): string => {
+  const prev = parseTrackStatusContent(content).get(ident);
+  const entry = normalizeTrackStatus({ status: prev?.status, assignee: prev?.assignee, ...patch, by, at });
+  return setTrackStatusInContent(content, ident, entry);
+};
+
+/** A track's status: its record's, else in progress once it has annotations. */
+export const effectiveTrackStatus = (entry: TrackStatusEntry | undefined, annotated: boolean): TrackStatus =>
+  entry?.status ?? (annotated ? 'in-progress' : 'not-started');
+
+/** Whether a track passes the file panel's filter (ProjectPreferences.fileFilter). */
+export const passesFileFilter = (
+  filter: FileFilter,
+  annotated: boolean,
+  entry: TrackStatusEntry | undefined,
+): boolean => {
+  if (filter === 'annotated') return annotated;
+  if (filter === 'unannotated') return !annotated;
+  if (filter === 'unfinished') return effectiveTrackStatus(entry, annotated) !== 'done';
+  return true;
+};
+
+/** The status after `status` in the hotkey's cycle. */
+export const nextTrackStatus = (status: TrackStatus): TrackStatus =>
+  TRACK_STATUSES[(TRACK_STATUSES.indexOf(status) + 1) % TRACK_STATUSES.length];
+
+/** Read the project's track-status file; null when there is none. */
+export const loadTrackStatuses = (annotationDir: string): Promise<string | null> =>
+  readTextFile(trackStatusPath(annotationDir)).catch(() => null);
+
+/**
+ * Apply `patch` to `ident`'s record in the track-status file under
+ * `annotationDir`, re-reading it first so changes a sync brought in meanwhile
+ * are kept. The file is removed once it holds no records. Returns the new
+ * content.
+ */
+export async function saveTrackStatus(
+  annotationDir: string,
+  ident: string,
+  patch: TrackStatusPatch,
+  by: string,
+): Promise<string> {
+  const path = trackStatusPath(annotationDir);
+  const content = await readTextFile(path).catch(() => null);
+  const updated = patchTrackStatusContent(content, ident, patch, by);
+  if (updated) {
+    await writeTextFile(path, updated);
+  } else if (content !== null) {
+    await removeFile(path);
+  }
+  return updated;
+}
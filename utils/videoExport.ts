@@ -0,0 +1,111 @@
+// Stills and clips of the video for reports: the frame on screen as a PNG,
+// and the selection as a short video file.
+//
+// A still is what the frame-accurate player shows — the frame at the
+// playhead, cropped to the zoom viewport, with the display-only brightness
+// and contrast baked in — at the video's own resolution rather than the
+// panel's. A clip is cut by ffmpeg (the binary configured in Application
+// Settings), audio and video, re-encoded so it starts on the selected frame.
+
+import type { Selection } from '../types';
+import type { VideoFrameSource } from './VideoFrameSource';
+import { regionPx } from './videoZoom';
+import { exportVideoClip, saveFileDialog, writeBinaryFile } from './tauriCommands';
+import { stripExt } from './helpers';
+
+/**
+ * Apply CSS `brightness(b%) contrast(c%)` to RGBA pixels in place, so a still
+ * matches the picture the panel's CSS filter shows. Brightness scales each
+ * channel; contrast then scales its distance from mid-grey. Alpha is untouched.
+ */
+export function applyBrightnessContrast(data: Uint8ClampedArray, brightness: number, contrast: number): void {
+  if (brightness === 100 && contrast === 100) return;
+  const b = brightness / 100;
+  const c = contrast / 100;
+  const offset = 127.5 * (1 - c);
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = data[i] * b * c + offset;
+    data[i + 1] = data[i + 1] * b * c + offset;
+    data[i + 2] = data[i + 2] * b * c + offset;
+  }
+}
+
+/** `dawn_12.345s.png` for a still of `dawn.mp4` at 12.345 s. */
+export const stillFileName = (trackName: string, t: number): string =>
+  `${stripExt(trackName)}_${t.toFixed(3)}s.png`;
+
+/** `dawn_12.345-15.000s.mp4` for a clip of `dawn.mp4` from 12.345 s to 15 s. */
+export const clipFileName = (trackName: string, range: Selection): string =>
+  `${stripExt(trackName)}_${range.start.toFixed(3)}-${range.end.toFixed(3)}s.mp4`;
+
+/**
+ * The frame showing at `t`, drawn through `frameSource.drawAt` at the video's
+ * resolution — the viewport's crop of it when zoomed — with brightness and
+ * contrast applied. Null when no frame is decoded yet.
+ */
+export function renderFrameStill(
+  frameSource: VideoFrameSource,
+  t: number,
+  brightness: number,
+  contrast: number,
+): HTMLCanvasElement | null {
+  const { width, height } = frameSource.getDimensions();
+  if (width <= 0 || height <= 0) return null;
+  // The visible region keeps the frame's aspect, so drawAt's letterbox fills
+  // a canvas of exactly its size at 1:1.
+  const region = regionPx(frameSource.getViewport(), width, height);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(region.w));
+  canvas.height = Math.max(1, Math.round(region.h));
+  const ctx = canvas.getContext('2d');
+  if (!ctx || !frameSource.drawAt(ctx, t)) return null;
+  if (brightness !== 100 || contrast !== 100) {
+    const image = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    applyBrightnessContrast(image.data, brightness, contrast);
+    ctx.putImageData(image, 0, 0);
+  }
+  return canvas;
+}
+
+/**
+ * Save the frame at `t` as a PNG through a save dialog seeded with
+ * `defaultPath`. Resolves false when the user cancels; throws when there is
+ * no frame to save.
+ */
+export async function saveFrameStill(
+  frameSource: VideoFrameSource,
+  t: number,
+  brightness: number,
+  contrast: number,
+  defaultPath: string,
+): Promise<boolean> {
+  // Rendered before the dialog opens, so it is the frame the user asked for
+  // even if playback moves on meanwhile.
+  const canvas = renderFrameStill(frameSource, t, brightness, contrast);
+  if (!canvas) throw new Error('no decoded frame at the playhead');
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+  if (!blob) throw new Error('could not encode the frame as PNG');
+  const chosenPath = await saveFileDialog(defaultPath, [{ name: 'PNG', extensions: ['png'] }]);
+  if (!chosenPath) return false;
+  await writeBinaryFile(chosenPath, new Uint8Array(await blob.arrayBuffer()));
+  return true;
+}
+
+/**
+ * Cut `range` (source seconds) of the video at `mediaPath` to a file chosen
+ * through a save dialog seeded with `defaultPath`. Resolves false when the
+ * user cancels.
+ */
+export async function saveSelectionClip(
+  mediaPath: string,
+  range: Selection,
+  defaultPath: string,
+): Promise<boolean> {
+  const chosenPath = await saveFileDialog(defaultPath, [
+    { name: 'MP4', extensions: ['mp4'] },
+    { name: 'Matroska', extensions: ['mkv'] },
+  ]);
+  if (!chosenPath) return false;
+  await exportVideoClip(mediaPath, chosenPath, range.start, range.end);
+  return true;
+}
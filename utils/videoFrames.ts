@@ -0,0 +1,84 @@
+/**
+ * videoFrames — frame-level positions on a video track.
+ *
+ * The frame-accurate video path knows every frame's presentation time (its
+ * sample index), so a frame step, a frame number, or an annotation edge can
+ * land exactly on a frame rather than on `n / fps`, which drifts on variable
+ * frame rate and on files whose first frame isn't at 0. Everything here is
+ * pure and works on a `FrameTimes`: the frames' start times in display order,
+ * rounded to the microsecond WebCodecs timestamps the frame cache is keyed by.
+ * That rounding is what lets a step seek to a time the canvas then draws
+ * exactly, rather than the frame just before it.
+ */
+
+import type { IndexedSample } from './videoIndex';
+
+// WebCodecs timestamps are whole microseconds.
+const MICROS_PER_SEC = 1e6;
+// Half a microsecond: two times closer than this are the same frame time.
+const EPSILON_SEC = 0.5 / MICROS_PER_SEC;
+
+export interface FrameTimes {
+  /** Each frame's start time (s), ascending — display order, not decode order. */
+  starts: number[];
+  /** Where the last frame ends (s): the track's last frame boundary. */
+  end: number;
+  /** Nominal frame rate, for the timecode's frame field. */
+  fps: number;
+}
+
+/** The frame times of an indexed track. Samples may be in decode order. */
+export function frameTimesOf(samples: IndexedSample[], timescale: number): FrameTimes {
+  const toSec = (ticks: number) => Math.round((ticks / timescale) * MICROS_PER_SEC) / MICROS_PER_SEC;
+  const sorted = [...samples].sort((a, b) => a.cts - b.cts);
+  const starts = sorted.map(s => toSec(s.cts));
+  const last = sorted[sorted.length - 1];
+  const end = last ? toSec(last.cts + last.duration) : 0;
+  const frameSec = sorted.length > 0 ? sorted[0].duration / timescale : 0;
+  return { starts, end, fps: frameSec > 0 ? 1 / frameSec : 30 };
+}
+
+/** Index of the frame showing at `t`: the last one starting at or before it.
+ *  A time before the first frame reads as the first frame. */
+export function frameIndexAt(frames: FrameTimes, t: number): number {
+  const { starts } = frames;
+  let lo = 0;
+  let hi = starts.length - 1;
+  let result = 0;
+  while (lo <= hi) {
+    const mid = (lo + hi) >>> 1;
+    if (starts[mid] <= t + EPSILON_SEC) { result = mid; lo = mid + 1; }
+    else hi = mid - 1;
+  }
+  return result;
+}
+
+/** The start time of the frame `delta` frames from the one showing at `t`,
+ *  clamped to the first and last frames. */
+export function stepFrameTime(frames: FrameTimes, t: number, delta: number): number {
+  if (frames.starts.length === 0) return t;
+  const i = frameIndexAt(frames, t) + delta;
+  return frames.starts[Math.max(0, Math.min(frames.starts.length - 1, i))];
+}
+
+/** The frame boundary nearest `t` — a frame start, or the end of the last frame. */
+export function snapToFrame(frames: FrameTimes, t: number): number {
+  const { starts, end } = frames;
+  if (starts.length === 0) return t;
+  if (t >= end) return end;
+  const i = frameIndexAt(frames, t);
+  const before = starts[i];
+  const after = i + 1 < starts.length ? starts[i + 1] : end;
+  if (t <= before) return before;
+  return t - before <= after - t ? before : after;
+}
+
+/** `HH:MM:SS:FF` for a frame starting at `t`, with FF counted at the nominal
+ *  frame rate (rounded, so 29.97 counts 0–29). */
+export function formatTimecode(t: number, fps: number): string {
+  const rate = Math.max(1, Math.round(fps));
+  const whole = Math.floor(t + EPSILON_SEC);
+  const ff = Math.min(rate - 1, Math.floor((t - whole) * rate + EPSILON_SEC * rate));
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${pad(Math.floor(whole / 3600))}:${pad(Math.floor(whole / 60) % 60)}:${pad(whole % 60)}:${pad(Math.max(0, ff))}`;
+}
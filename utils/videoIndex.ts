@@ -0,0 +1,91 @@
+// The sample index the frame-accurate video path decodes from.
+//
+// VideoFrameSource used to fetch the whole file into memory and hand it to a
+// demuxer on every decode, so a video's RAM cost was its size on disk — fine
+// for a short clip, impossible for an hour of 4K. Instead, a file is now
+// indexed once, up front: utils/mp4Index.ts reads MP4/MOV's moov (and any
+// moof) boxes, utils/matroskaDemux.ts walks WebM/MKV's clusters, and each
+// produces the same table of encoded frames as byte ranges. Decoding a range
+// then reads just those frames' bytes through a ByteSource, so what's held
+// in memory is the index plus one read batch, whatever the file's size.
+
+import { fileSize, readFileRange } from './tauriCommands';
+
+/** Random access to a file's bytes. */
+export interface ByteSource {
+  readonly size: number;
+  /** `length` bytes from `offset`; fewer only where the file ends first. */
+  read(offset: number, length: number): Promise<Uint8Array>;
+}
+
+/** One encoded frame: where its bytes are and when it's shown. */
+export interface IndexedSample {
+  /** Position in decode (file) order, from 0. */
+  number: number;
+  /** Presentation time, in `timescale` ticks. */
+  cts: number;
+  duration: number;
+  isSync: boolean;
+  offset: number;
+  size: number;
+}
+
+/** A video track's decoder setup and every frame's byte range, in decode order. */
+export interface VideoIndex {
+  /** WebCodecs codec string, e.g. `vp09.00.10.08` or `avc1.64001f`. */
+  codec: string;
+  /** VideoDecoderConfig.description (avcC/hvcC/av1C…), when the codec has one. */
+  description?: Uint8Array;
+  width: number;
+  height: number;
+  /** Ticks per second for `cts` and `duration`. */
+  timescale: number;
+  durationSec: number;
+  samples: IndexedSample[];
+}
+
+// One range read of encoded frames. Consecutive frames are read together up to
+// this size, bridging gaps (an MP4's interleaved audio) of at most READ_GAP_BYTES.
+const READ_BATCH_BYTES = 8 * 1024 * 1024;
+const READ_GAP_BYTES = 256 * 1024;
+
+/**
+ * The samples [fromIdx..toIdx] (decode order) to fetch in one range read
+ * starting at `fromIdx`: those that follow on in the file, up to
+ * READ_BATCH_BYTES in all. Returns the index just past the batch — always
+ * past `fromIdx`, so a frame bigger than a batch is still read on its own —
+ * and the byte range covering it.
+ */
+export function readBatch(
+  samples: readonly IndexedSample[],
+  fromIdx: number,
+  toIdx: number,
+): { endIdx: number; offset: number; length: number } {
+  const first = samples[fromIdx];
+  let end = first.offset + first.size;
+  let j = fromIdx + 1;
+  for (; j <= toIdx; j++) {
+    const s = samples[j];
+    if (s.offset < end || s.offset - end > READ_GAP_BYTES) break;
+    if (s.offset + s.size - first.offset > READ_BATCH_BYTES) break;
+    end = s.offset + s.size;
+  }
+  return { endIdx: j, offset: first.offset, length: end - first.offset };
+}
+
+/** A ByteSource over bytes already in memory. */
+export function memoryByteSource(bytes: Uint8Array): ByteSource {
+  return {
+    size: bytes.length,
+    read: async (offset, length) => bytes.subarray(offset, Math.min(bytes.length, offset + length)),
+  };
+}
+
+/** A ByteSource over a file on disk, read by range through the backend. */
+export async function fileByteSource(path: string): Promise<ByteSource> {
+  const size = await fileSize(path);
+  return {
+    size,
+    read: (offset, length) => readFileRange(path, offset, Math.max(0, Math.min(length, size - offset))),
+  };
+}
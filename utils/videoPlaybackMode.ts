@@ -10,7 +10,8 @@ import type { VideoMode } from '../types';
  * playback) so the two decisions can never disagree — see CLAUDE.md's
  * no-duplicated-logic rule. Callers combine this with their own frame-source
  * availability check (`wantsCanvasRenderer(...) && hasFrameSource`) since a
- * format like WEBM can request canvas rendering but have no frame source,
+ * file can request canvas rendering but have no frame source (no WebCodecs,
+ * or a codec it can't decode),
  * in which case the <video> element must be both the picture AND the
  * transport.
  */
@@ -20,8 +21,8 @@ export function wantsCanvasRenderer(mode: VideoMode, hasSelection: boolean): boo
 
 /**
  * The mode to *display* in the UI. When `mode` wants the canvas but this
- * file has no VideoFrameSource (e.g. WEBM — see VideoFrameSource's MP4/MOV-only
- * `canUseFrameSource`), playback silently falls back to the plain <video>
+ * file has no VideoFrameSource (see VideoFrameSource's `canUseFrameSource`
+ * and `onDecoderUnsupported`), playback silently falls back to the plain <video>
  * element — behaviorally identical to Fast. The picker should say so, rather
  * than claim a frame-accurate guarantee that isn't actually happening.
  *
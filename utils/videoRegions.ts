@@ -0,0 +1,105 @@
+// Regions of interest: bounding boxes on the video frame, attached to an
+// annotation so that a label says both when and where — what a vision model
+// is trained on.
+//
+// A region is stored as one of the annotation's attributes, so it is saved in
+// the attributes sidecar beside the Audacity TXT (utils/annotationAttributes.ts)
+// and syncs, merges, renames and undoes with it. Boxes are in normalized frame
+// coordinates (see RegionBox); converting to and from the screen is
+// utils/videoZoom's job, since that depends on the viewport.
+//
+// A region is keyframed at the annotation's two edges at most: the box at its
+// start and, optionally, the box at its end. In between it is interpolated
+// linearly — enough for an animal crossing the frame, without per-frame
+// tracking.
+
+import { Annotation, RegionBox, VideoRegion } from '../types';
+
+// Boxes thinner than this (a thousandth of the frame) are stray clicks, not regions.
+const MIN_BOX_SIZE = 1e-3;
+
+const clamp01 = (v: number) => Math.min(1, Math.max(0, v));
+
+// One axis of a box — position and (possibly negative) size — clipped to the
+// frame, or null when nothing is left. A box already inside is kept exactly.
+const clipAxis = (pos: number, size: number): [number, number] | null => {
+  const lo = Math.min(pos, pos + size);
+  const hi = Math.max(pos, pos + size);
+  const a = clamp01(lo);
+  const b = clamp01(hi);
+  if (b - a < MIN_BOX_SIZE) return null;
+  return a === lo && b === hi ? [lo, Math.abs(size)] : [a, b - a];
+};
+
+/**
+ * A box clipped to the frame, or undefined when it isn't a box at all (a
+ * non-number field) or is clipped down to nothing.
+ */
+export const normalizeRegionBox = (box: RegionBox | undefined): RegionBox | undefined => {
+  if (!box || ![box.x, box.y, box.w, box.h].every(v => typeof v === 'number' && Number.isFinite(v))) return undefined;
+  const x = clipAxis(box.x, box.w);
+  const y = clipAxis(box.y, box.h);
+  if (!x || !y) return undefined;
+  return { x: x[0], y: y[0], w: x[1], h: y[1] };
+};
+
+/** A region with both boxes normalized; undefined without a valid start box. */
+export const normalizeRegion = (region: VideoRegion | undefined): VideoRegion | undefined => {
+  const start = normalizeRegionBox(region?.start);
+  if (!start) return undefined;
+  const end = normalizeRegionBox(region?.end);
+  return end ? { start, end } : { start };
+};
+
+/** The keyframe a box drawn at time `t` sets: whichever edge of `a` is nearer. */
+export const keyframeAt = (a: Pick<Annotation, 'start' | 'end'>, t: number): 'start' | 'end' =>
+  t - a.start > a.end - t ? 'end' : 'start';
+
+/**
+ * `region` with `box` set at one keyframe. The first box drawn is the start
+ * box whichever edge is nearer, since a region can't have an end alone.
+ */
+export const setRegionKeyframe = (
+  region: VideoRegion | undefined,
+  box: RegionBox,
+  keyframe: 'start' | 'end',
+): VideoRegion => {
+  if (!region) return { start: box };
+  return keyframe === 'end' ? { ...region, end: box } : { ...region, start: box };
+};
+
+/**
+ * `a` with its region replaced (undefined removes it). An annotation left
+ * with no attributes at all carries none.
+ */
+export const withRegion = (a: Annotation, region: VideoRegion | undefined): Annotation => {
+  const { region: _previous, ...otherAttributes } = a.attributes ?? {};
+  const normalized = normalizeRegion(region);
+  const attributes = normalized ? { ...otherAttributes, region: normalized } : otherAttributes;
+  const { attributes: _attributes, ...rest } = a;
+  return Object.keys(attributes).length > 0 ? { ...rest, attributes } : rest;
+};
+
+/**
+ * The box `a`'s region covers at time `t`: interpolated between its
+ * keyframes, or null when `a` has no region or `t` is outside its span.
+ */
+export const regionBoxAt = (a: Annotation, t: number): RegionBox | null => {
+  const region = a.attributes?.region;
+  if (!region || t < a.start || t > a.end) return null;
+  const { start, end } = region;
+  if (!end || a.end <= a.start) return start;
+  const f = (t - a.start) / (a.end - a.start);
+  const lerp = (from: number, to: number) => from + (to - from) * f;
+  return { x: lerp(start.x, end.x), y: lerp(start.y, end.y), w: lerp(start.w, end.w), h: lerp(start.h, end.h) };
+};
+
+/** Every region showing at time `t`, with its annotation. */
+export const regionsAt = (annotations: Annotation[], t: number): { annotation: Annotation; box: RegionBox }[] => {
+  const out: { annotation: Annotation; box: RegionBox }[] = [];
+  for (const annotation of annotations) {
+    const box = regionBoxAt(annotation, t);
+    if (box) out.push({ annotation, box });
+  }
+  return out;
+};
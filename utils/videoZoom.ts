@@ -142,6 +142,33 @@ export function viewportFromDragRect(
   return clampViewport({ zoom: newZoom, cx, cy });
 }
 
+/**
+ * A rect drawn on screen as a normalized frame rect — where on the *frame*
+ * the user drew, whatever the zoom. `content` is as in viewportFromDragRect.
+ * Used to place a region-of-interest box (utils/videoRegions.ts).
+ */
+export function screenRectToFrame(vp: Viewport, content: Rect, rect: Rect): Rect {
+  const r = regionNorm(vp);
+  if (content.w <= 0 || content.h <= 0) return { x: 0, y: 0, w: 0, h: 0 };
+  return {
+    x: r.x + ((rect.x - content.x) / content.w) * r.w,
+    y: r.y + ((rect.y - content.y) / content.h) * r.h,
+    w: (rect.w / content.w) * r.w,
+    h: (rect.h / content.h) * r.h,
+  };
+}
+
+/** The inverse of screenRectToFrame: where a normalized frame rect shows on screen. */
+export function frameRectToScreen(vp: Viewport, content: Rect, rect: Rect): Rect {
+  const r = regionNorm(vp);
+  return {
+    x: content.x + ((rect.x - r.x) / r.w) * content.w,
+    y: content.y + ((rect.y - r.y) / r.h) * content.h,
+    w: (rect.w / r.w) * content.w,
+    h: (rect.h / r.h) * content.h,
+  };
+}
+
 /** Multiply zoom about the current centre (used by the +/- buttons). */
 export function zoomBy(vp: Viewport, factor: number): Viewport {
   return clampViewport({ ...vp, zoom: vp.zoom * factor });